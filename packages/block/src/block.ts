@@ -1,7 +1,7 @@
 import { ConsensusType } from '@ethereumjs/common'
 import { RLP } from '@ethereumjs/rlp'
 import { Trie } from '@ethereumjs/trie'
-import { Capability, TransactionFactory } from '@ethereumjs/tx'
+import { BlobEIP4844Transaction, Capability, TransactionFactory } from '@ethereumjs/tx'
 import {
   KECCAK256_RLP,
   arrToBufArr,
@@ -278,11 +278,11 @@ export class Block {
    * @param withdrawal the withdrawal to convert
    * @returns buffer array of the withdrawal
    */
-  private withdrawalToBufferArray(withdrawal: Withdrawal): [Buffer, Buffer, Buffer, Buffer] {
+  private static withdrawalToBufferArray(withdrawal: Withdrawal): [Buffer, Buffer, Buffer, Buffer] {
     const { index, validatorIndex, address, amount } = withdrawal
     let addressBuffer: Buffer
     if (typeof address === 'string') {
-      addressBuffer = Buffer.from(address.slice(2))
+      addressBuffer = Buffer.from(address.slice(2), 'hex')
     } else if (Buffer.isBuffer(address)) {
       addressBuffer = address
     } else {
@@ -303,9 +303,7 @@ export class Block {
       this.uncleHeaders.map((uh) => uh.raw()),
     ]
     if (this.withdrawals) {
-      for (const withdrawal of this.withdrawals) {
-        bufferArray.push(this.withdrawalToBufferArray(withdrawal))
-      }
+      bufferArray.push(this.withdrawals.map(Block.withdrawalToBufferArray))
     }
     return bufferArray
   }
@@ -433,6 +431,49 @@ export class Block {
     }
   }
 
+  /**
+   * Validates the EIP-4844 blob txs of the block against the parent header, throws if
+   * - the block has more blobs than allowed
+   * - a tx is unable to pay the data gas price
+   * - the excess data gas of the header is not correct
+   *
+   * @param parentHeader the header of the parent of this block
+   */
+  validateBlobTransactions(parentHeader: BlockHeader) {
+    if (!this._common.isActivatedEIP(4844)) {
+      throw new Error('EIP 4844 is not activated')
+    }
+    const maxDataGasPerBlock = this._common.param('gasConfig', 'maxDataGasPerBlock')
+    const dataGasPrice = parentHeader.getDataGasPrice()
+    let numBlobs = 0
+    let dataGas = BigInt(0)
+    for (const tx of this.transactions) {
+      if (tx instanceof BlobEIP4844Transaction) {
+        numBlobs += tx.versionedHashes.length
+        dataGas += tx.getTotalDataGas()
+        if (tx.maxFeePerDataGas < dataGasPrice) {
+          const msg = this._errorMsg(
+            `blob tx maxFeePerDataGas ${tx.maxFeePerDataGas} is lower than the data gas price ${dataGasPrice}`
+          )
+          throw new Error(msg)
+        }
+      }
+    }
+    if (dataGas > maxDataGasPerBlock) {
+      const msg = this._errorMsg(
+        `too much data gas used: ${dataGas} (max: ${maxDataGasPerBlock} data gas)`
+      )
+      throw new Error(msg)
+    }
+    const expectedExcessDataGas = parentHeader.calcNextExcessDataGas(numBlobs)
+    if (this.header.excessDataGas !== expectedExcessDataGas) {
+      const msg = this._errorMsg(
+        `invalid excessDataGas: ${this.header.excessDataGas} (expected: ${expectedExcessDataGas})`
+      )
+      throw new Error(msg)
+    }
+  }
+
   /**
    * Validates the uncle's hash.
    */
@@ -449,14 +490,23 @@ export class Block {
     if (!this._common.isActivatedEIP(4895)) {
       throw new Error('EIP 4895 is not activated')
     }
+    const root = await Block.genWithdrawalsTrieRoot(this.withdrawals!)
+    return root.equals(this.header.withdrawalsRoot!)
+  }
+
+  /**
+   * Returns the withdrawals trie root for an array of withdrawals
+   * @param withdrawals withdrawals to generate the root for
+   */
+  static async genWithdrawalsTrieRoot(withdrawals: Withdrawal[]): Promise<Buffer> {
     const trie = new Trie()
     let index = 0
-    for (const withdrawal of this.withdrawals!) {
-      const withdrawalRLP = RLP.encode(this.withdrawalToBufferArray(withdrawal))
+    for (const withdrawal of withdrawals) {
+      const withdrawalRLP = RLP.encode(Block.withdrawalToBufferArray(withdrawal))
       await trie.put(Buffer.from('0x' + index.toString(16)), arrToBufArr(withdrawalRLP))
       index++
     }
-    return trie.root().equals(this.header.withdrawalsRoot!)
+    return trie.root()
   }
 
   /**
@@ -27,6 +27,8 @@ export function blockHeaderFromRpc(blockParams: JsonRpcBlock, options?: BlockOpt
     mixHash,
     nonce,
     baseFeePerGas,
+    withdrawalsRoot,
+    excessDataGas,
   } = blockParams
 
   const blockHeader = BlockHeader.fromHeaderData(
@@ -47,6 +49,8 @@ export function blockHeaderFromRpc(blockParams: JsonRpcBlock, options?: BlockOpt
       mixHash,
       nonce,
       baseFeePerGas,
+      withdrawalsRoot,
+      excessDataGas,
     },
     options
   )
@@ -20,7 +20,7 @@ import {
 import { keccak256 } from 'ethereum-cryptography/keccak'
 
 import { CLIQUE_EXTRA_SEAL, CLIQUE_EXTRA_VANITY } from './clique'
-import { valuesArrayToHeaderData } from './helpers'
+import { fakeExponential, valuesArrayToHeaderData } from './helpers'
 
 import type { BlockHeaderBuffer, BlockOptions, HeaderData, JsonHeader } from './types'
 import type { CliqueConfig } from '@ethereumjs/common'
@@ -52,6 +52,7 @@ export class BlockHeader {
   public readonly nonce: Buffer
   public readonly baseFeePerGas?: bigint
   public readonly withdrawalsRoot?: Buffer
+  public readonly excessDataGas?: bigint
 
   public readonly _common: Common
 
@@ -156,6 +157,7 @@ export class BlockHeader {
       nonce: zeros(8),
       baseFeePerGas: undefined,
       withdrawalsRoot: undefined,
+      excessDataGas: undefined,
     }
 
     const parentHash = toType(headerData.parentHash, TypeOutput.Buffer) ?? defaults.parentHash
@@ -180,6 +182,8 @@ export class BlockHeader {
       toType(headerData.baseFeePerGas, TypeOutput.BigInt) ?? defaults.baseFeePerGas
     const withdrawalsRoot =
       toType(headerData.withdrawalsRoot, TypeOutput.Buffer) ?? defaults.withdrawalsRoot
+    let excessDataGas =
+      toType(headerData.excessDataGas, TypeOutput.BigInt) ?? defaults.excessDataGas
 
     const hardforkByBlockNumber = options.hardforkByBlockNumber ?? false
     if (hardforkByBlockNumber || options.hardforkByTTD !== undefined) {
@@ -214,6 +218,14 @@ export class BlockHeader {
       }
     }
 
+    if (this._common.isActivatedEIP(4844)) {
+      excessDataGas = excessDataGas ?? BigInt(0)
+    } else {
+      if (excessDataGas !== undefined) {
+        throw new Error('excessDataGas can only be provided with EIP4844 being activated')
+      }
+    }
+
     this.parentHash = parentHash
     this.uncleHash = uncleHash
     this.coinbase = coinbase
@@ -231,6 +243,7 @@ export class BlockHeader {
     this.nonce = nonce
     this.baseFeePerGas = baseFeePerGas
     this.withdrawalsRoot = withdrawalsRoot
+    this.excessDataGas = excessDataGas
 
     this._genericFormatValidation()
     this._validateDAOExtraData()
@@ -514,6 +527,48 @@ export class BlockHeader {
     return nextBaseFee
   }
 
+  /**
+   * Returns the price per data gas for the blob txs in a block on top of this header
+   * (EIP-4844 prices the data gas of a block by the excess data gas of its parent)
+   */
+  public getDataGasPrice(): bigint {
+    if (this._common.isActivatedEIP(4844) === false) {
+      const msg = this._errorMsg(
+        'getDataGasPrice() can only be called with EIP4844 being activated'
+      )
+      throw new Error(msg)
+    }
+    return fakeExponential(
+      this._common.param('gasConfig', 'minDataGasPrice'),
+      this.excessDataGas ?? BigInt(0),
+      this._common.param('gasConfig', 'dataGasPriceUpdateFraction')
+    )
+  }
+
+  /**
+   * Returns the fee for the data gas of blobs in a block on top of this header
+   * @param numBlobs the number of blobs
+   */
+  public calcDataFee(numBlobs: number): bigint {
+    const dataGas = this._common.param('gasConfig', 'dataGasPerBlob') * BigInt(numBlobs)
+    return dataGas * this.getDataGasPrice()
+  }
+
+  /**
+   * Calculates the excess data gas for a block on top of this header
+   * @param newBlobs the number of blobs in the block
+   */
+  public calcNextExcessDataGas(newBlobs: number): bigint {
+    const dataGasPerBlob = this._common.param('gasConfig', 'dataGasPerBlob')
+    const targetDataGasPerBlock = this._common.param('gasConfig', 'targetDataGasPerBlock')
+    // Headers before EIP-4844 activation have no excess data gas
+    const consumedDataGas = (this.excessDataGas ?? BigInt(0)) + BigInt(newBlobs) * dataGasPerBlob
+    if (consumedDataGas < targetDataGasPerBlock) {
+      return BigInt(0)
+    }
+    return consumedDataGas - targetDataGasPerBlock
+  }
+
   /**
    * Returns a Buffer Array of the raw Buffers in this header, in order.
    */
@@ -540,6 +595,14 @@ export class BlockHeader {
       rawItems.push(bigIntToUnpaddedBuffer(this.baseFeePerGas!))
     }
 
+    if (this._common.isActivatedEIP(4895) === true) {
+      rawItems.push(this.withdrawalsRoot!)
+    }
+
+    if (this._common.isActivatedEIP(4844) === true) {
+      rawItems.push(bigIntToUnpaddedBuffer(this.excessDataGas!))
+    }
+
     return rawItems
   }
 
@@ -798,6 +861,12 @@ export class BlockHeader {
     if (this._common.isActivatedEIP(1559) === true) {
       jsonDict.baseFeePerGas = bigIntToHex(this.baseFeePerGas!)
     }
+    if (this._common.isActivatedEIP(4895) === true) {
+      jsonDict.withdrawalsRoot = '0x' + this.withdrawalsRoot!.toString('hex')
+    }
+    if (this._common.isActivatedEIP(4844) === true) {
+      jsonDict.excessDataGas = bigIntToHex(this.excessDataGas!)
+    }
     return jsonDict
   }
 
@@ -38,9 +38,10 @@ export function valuesArrayToHeaderData(values: BlockHeaderBuffer): HeaderData {
     nonce,
     baseFeePerGas,
     withdrawalsRoot,
+    excessDataGas,
   ] = values
 
-  if (values.length > 17) {
+  if (values.length > 18) {
     throw new Error('invalid header. More values than expected were received')
   }
   if (values.length < 15) {
@@ -65,6 +66,7 @@ export function valuesArrayToHeaderData(values: BlockHeaderBuffer): HeaderData {
     nonce,
     baseFeePerGas,
     withdrawalsRoot,
+    excessDataGas,
   }
 }
 
@@ -75,3 +77,19 @@ export function getDifficulty(headerData: HeaderData): bigint | null {
   }
   return null
 }
+
+/**
+ * Approximates `factor * e ** (numerator / denominator)` using Taylor expansion
+ * (as specified in EIP-4844 for the data gas price)
+ */
+export function fakeExponential(factor: bigint, numerator: bigint, denominator: bigint) {
+  let i = BigInt(1)
+  let output = BigInt(0)
+  let numeratorAccum = factor * denominator
+  while (numeratorAccum > BigInt(0)) {
+    output += numeratorAccum
+    numeratorAccum = (numeratorAccum * numerator) / (denominator * i)
+    i++
+  }
+  return output / denominator
+}
@@ -2,6 +2,7 @@ import type { BlockHeader } from './header'
 import type { Common } from '@ethereumjs/common'
 import type {
   AccessListEIP2930TxData,
+  BlobEIP4844TxData,
   FeeMarketEIP1559TxData,
   JsonRpcTx,
   JsonTx,
@@ -96,6 +97,7 @@ export interface HeaderData {
   nonce?: BufferLike
   baseFeePerGas?: BigIntLike
   withdrawalsRoot?: BufferLike
+  excessDataGas?: BigIntLike
 }
 
 export type Withdrawal = {
@@ -113,7 +115,9 @@ export interface BlockData {
    * Header data for the block
    */
   header?: HeaderData
-  transactions?: Array<TxData | AccessListEIP2930TxData | FeeMarketEIP1559TxData>
+  transactions?: Array<
+    TxData | AccessListEIP2930TxData | FeeMarketEIP1559TxData | BlobEIP4844TxData
+  >
   uncleHeaders?: Array<HeaderData>
   withdrawals?: Array<Withdrawal>
 }
@@ -164,6 +168,7 @@ export interface JsonHeader {
   nonce?: string
   baseFeePerGas?: string
   withdrawalsRoot?: string
+  excessDataGas?: string
 }
 
 export interface JsonRpcWithdrawal {
@@ -199,4 +204,6 @@ export interface JsonRpcBlock {
   uncles: string[] // Array of uncle hashes
   baseFeePerGas?: string // If EIP-1559 is enabled for this block, returns the base fee per gas
   withdrawals?: Array<JsonRpcWithdrawal> // If EIP-4895 is enabled for this block, array of withdrawals
+  withdrawalsRoot?: string // If EIP-4895 is enabled for this block, the root of the withdrawal trie of the block.
+  excessDataGas?: string // If EIP-4844 is enabled for this block, the excess data gas of the block.
 }
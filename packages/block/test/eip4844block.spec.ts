@@ -0,0 +1,131 @@
+import { Chain, Common, Hardfork } from '@ethereumjs/common'
+import { BlobEIP4844Transaction } from '@ethereumjs/tx'
+import { KECCAK256_RLP, computeVersionedHash } from '@ethereumjs/util'
+import * as tape from 'tape'
+
+import { Block } from '../src/block'
+import { BlockHeader } from '../src/header'
+import { fakeExponential } from '../src/helpers'
+
+const common = new Common({
+  eips: [4895, 4844],
+  chain: Chain.Mainnet,
+  hardfork: Hardfork.Merge,
+})
+
+const withdrawalsRoot = KECCAK256_RLP
+const pKey = Buffer.from('4646464646464646464646464646464646464646464646464646464646464646', 'hex')
+const versionedHash = computeVersionedHash(Buffer.alloc(48, 1), 1)
+const dataGasPerBlob = BigInt(131072)
+const targetDataGasPerBlock = BigInt(262144)
+
+tape('EIP4844 header tests', function (t) {
+  t.test('should set and serialize excessDataGas', function (st) {
+    const earlyCommon = new Common({ chain: Chain.Mainnet, hardfork: Hardfork.Merge })
+    st.throws(
+      () => BlockHeader.fromHeaderData({ excessDataGas: 1 }, { common: earlyCommon }),
+      /excessDataGas can only be provided with EIP4844 being activated/,
+      'should throw when setting excessDataGas with EIP4844 not being activated'
+    )
+
+    const defaultHeader = BlockHeader.fromHeaderData({ withdrawalsRoot }, { common })
+    st.equal(defaultHeader.excessDataGas, BigInt(0), 'should default excessDataGas to 0')
+
+    const header = BlockHeader.fromHeaderData({ withdrawalsRoot, excessDataGas: 1000 }, { common })
+    const decoded = BlockHeader.fromRLPSerializedHeader(header.serialize(), { common })
+    st.equal(decoded.excessDataGas, BigInt(1000), 'should decode excessDataGas')
+    st.equal(header.toJSON().excessDataGas, '0x3e8', 'should include excessDataGas in JSON')
+    st.end()
+  })
+
+  t.test('data gas price', function (st) {
+    st.equal(fakeExponential(BigInt(1), BigInt(0), BigInt(1)), BigInt(1))
+    st.equal(fakeExponential(BigInt(38493), BigInt(0), BigInt(1000)), BigInt(38493))
+    st.equal(fakeExponential(BigInt(1), BigInt(2), BigInt(1)), BigInt(6)) // approximates e^2
+    st.equal(fakeExponential(BigInt(2), BigInt(5), BigInt(2)), BigInt(23)) // approximates 2e^2.5
+
+    const header = BlockHeader.fromHeaderData({ withdrawalsRoot }, { common })
+    st.equal(header.getDataGasPrice(), BigInt(1), 'should return the min price without excess')
+    st.equal(header.calcDataFee(2), dataGasPerBlob * BigInt(2), 'should calculate the data fee')
+
+    const expensive = BlockHeader.fromHeaderData(
+      { withdrawalsRoot, excessDataGas: BigInt(2225652) * BigInt(10) },
+      { common }
+    )
+    st.equal(expensive.getDataGasPrice(), BigInt(22026), 'should approximate e^10 as price')
+    st.end()
+  })
+
+  t.test('calcNextExcessDataGas', function (st) {
+    const header = BlockHeader.fromHeaderData({ withdrawalsRoot }, { common })
+    st.equal(header.calcNextExcessDataGas(1), BigInt(0), 'should not exceed below target')
+    st.equal(header.calcNextExcessDataGas(2), BigInt(0), 'should not exceed on target')
+    st.equal(header.calcNextExcessDataGas(4), targetDataGasPerBlock, 'should exceed above target')
+
+    const excessHeader = BlockHeader.fromHeaderData(
+      { withdrawalsRoot, excessDataGas: dataGasPerBlob },
+      { common }
+    )
+    st.equal(excessHeader.calcNextExcessDataGas(0), BigInt(0), 'should decrease the excess')
+    st.equal(
+      excessHeader.calcNextExcessDataGas(2),
+      dataGasPerBlob,
+      'should keep the excess on target'
+    )
+    st.end()
+  })
+})
+
+tape('EIP4844 block tests', function (t) {
+  const parentHeader = BlockHeader.fromHeaderData({ withdrawalsRoot }, { common })
+  const blobTx = (numBlobs: number, maxFeePerDataGas = 1) =>
+    BlobEIP4844Transaction.fromTxData(
+      {
+        to: Buffer.alloc(20, 1),
+        maxFeePerGas: 10,
+        gasLimit: 21000,
+        maxFeePerDataGas,
+        versionedHashes: Array(numBlobs).fill(versionedHash),
+      },
+      { common }
+    ).sign(pKey)
+  const block = (transactions: BlobEIP4844Transaction[], excessDataGas = 0) =>
+    Block.fromBlockData(
+      { header: { withdrawalsRoot, excessDataGas }, transactions, withdrawals: [] },
+      { common }
+    )
+
+  t.test('should serialize blocks with blob txs', function (st) {
+    const original = block([blobTx(2)])
+    const decoded = Block.fromRLPSerializedBlock(original.serialize(), { common })
+    st.ok(decoded.transactions[0] instanceof BlobEIP4844Transaction, 'should decode blob txs')
+    st.ok(decoded.hash().equals(original.hash()), 'should decode the block')
+    st.end()
+  })
+
+  t.test('validateBlobTransactions', function (st) {
+    st.doesNotThrow(
+      () =>
+        block([blobTx(2), blobTx(1)], Number(dataGasPerBlob)).validateBlobTransactions(
+          parentHeader
+        ),
+      'should accept valid blob txs'
+    )
+    st.throws(
+      () => block([blobTx(3), blobTx(2)], 0).validateBlobTransactions(parentHeader),
+      /too much data gas used/,
+      'should throw on too many blobs'
+    )
+    st.throws(
+      () => block([blobTx(1, 0)]).validateBlobTransactions(parentHeader),
+      /lower than the data gas price/,
+      'should throw if a tx is unable to pay the data gas price'
+    )
+    st.throws(
+      () => block([blobTx(1)], 1).validateBlobTransactions(parentHeader),
+      /invalid excessDataGas/,
+      'should throw on wrong excessDataGas'
+    )
+    st.end()
+  })
+})
@@ -177,6 +177,24 @@ tape('EIP1559 tests', function (t) {
     st.doesNotThrow(() => {
       validBlockWithWithdrawal2.hash()
     }, 'hashed block with withdrawals')
+
+    const deserialized = Block.fromRLPSerializedBlock(validBlockWithWithdrawal2.serialize(), {
+      common,
+    })
+    st.equal(deserialized.withdrawals!.length, 2, 'deserialized withdrawals')
+    st.ok(
+      await deserialized.validateWithdrawalsTrie(),
+      'deserialized withdrawals match the withdrawals root'
+    )
+    st.ok(
+      (
+        await Block.genWithdrawalsTrieRoot([
+          { ...withdrawal, address: `0x${'20'.repeat(20)}` },
+          withdrawal2,
+        ])
+      ).equals(validBlockWithWithdrawal2.header.withdrawalsRoot!),
+      'generated withdrawals root from hex addresses'
+    )
     st.end()
   })
 })
@@ -605,6 +605,10 @@ export class Blockchain implements BlockchainInterface {
     await this.validateHeader(block.header)
     await this._validateUncleHeaders(block)
     await block.validateData(false)
+    if (block._common.isActivatedEIP(4844)) {
+      const parentHeader = (await this.getBlock(block.header.parentHash)).header
+      block.validateBlobTransactions(parentHeader)
+    }
   }
 
   /**
@@ -11,10 +11,12 @@ import { homedir } from 'os'
 import * as path from 'path'
 import * as readline from 'readline'
 
+import { exportBlocks, importBlocks } from '../lib/blockchain/blockfile'
 import { EthereumClient } from '../lib/client'
 import { Config, DataDirectory, SyncMode } from '../lib/config'
 import { getLogger } from '../lib/logging'
-import { parseMultiaddrs } from '../lib/util'
+import { RPC_MAX_BODY_SIZE_DEFAULT, parseMultiaddrs } from '../lib/util'
+import { createMetricsServer } from '../lib/util/metrics'
 
 import { helprpc, startRPCServers } from './startRpc'
 
@@ -22,6 +24,7 @@ import type { Logger } from '../lib/logging'
 import type { FullEthereumService } from '../lib/service'
 import type { GenesisState } from '@ethereumjs/blockchain/dist/genesisStates'
 import type { AbstractLevel } from 'abstract-level'
+import type { Server } from 'http'
 
 const { hideBin } = require('yargs/helpers')
 const yargs = require('yargs/yargs')
@@ -183,6 +186,63 @@ const args = yargs(hideBin(process.argv))
     string: true,
     default: '*',
   })
+  .option('rpcBatchLimit', {
+    describe: 'Max number of requests in a JSON-RPC batch request (0 for no limit)',
+    number: true,
+    default: 1000,
+  })
+  .option('rpcMaxBodySize', {
+    describe: 'Max size in bytes of a JSON-RPC request body (HTTP) or message (WS)',
+    number: true,
+    default: RPC_MAX_BODY_SIZE_DEFAULT,
+  })
+  .option('rpcRateLimit', {
+    describe:
+      'Max number of JSON-RPC requests per minute from a client IP, answered with error -32005 when exceeded (0 for no limit, engine API calls authenticated with the JWT secret are not limited)',
+    number: true,
+    default: 0,
+  })
+  .option('rpcCallTimeout', {
+    describe: 'Timeout in ms of a JSON-RPC method call (0 for no timeout)',
+    number: true,
+    default: 30000,
+  })
+  .option('rpcAllowMethods', {
+    describe:
+      'Comma-separated list of methods (e.g. eth_call) or namespaces (e.g. eth) to only expose on the HTTP-RPC server',
+    array: true,
+  })
+  .option('rpcDenyMethods', {
+    describe: 'Comma-separated list of methods or namespaces to not expose on the HTTP-RPC server',
+    array: true,
+  })
+  .option('wsAllowMethods', {
+    describe: 'Comma-separated list of methods or namespaces to only expose on the WS-RPC server',
+    array: true,
+  })
+  .option('wsDenyMethods', {
+    describe: 'Comma-separated list of methods or namespaces to not expose on the WS-RPC server',
+    array: true,
+  })
+  .option('rpcEngineAllowMethods', {
+    describe:
+      'Comma-separated list of methods or namespaces to only expose on the RPC servers for Engine namespace',
+    array: true,
+  })
+  .option('rpcEngineDenyMethods', {
+    describe:
+      'Comma-separated list of methods or namespaces to not expose on the RPC servers for Engine namespace',
+    array: true,
+  })
+  .option('prometheus', {
+    describe: 'Enable the Prometheus metrics endpoint',
+    boolean: true,
+  })
+  .option('prometheusPort', {
+    describe: 'HTTP port of the Prometheus metrics endpoint (serving /metrics)',
+    number: true,
+    default: 8000,
+  })
   .option('maxPerRequest', {
     describe: 'Max items per block or header request',
     number: true,
@@ -217,6 +277,24 @@ const args = yargs(hideBin(process.argv))
       'Debug mode for reexecuting existing blocks (no services will be started), allowed input formats: 5,5-10',
     string: true,
   })
+  .option('import', {
+    describe:
+      'Import blocks from a file of concatenated RLP encoded blocks (e.g. from `geth export`, optionally gzipped) and exit, importing the same file again resumes an interrupted import',
+    string: true,
+  })
+  .option('export', {
+    describe:
+      'Export the blocks of the chain to a file of concatenated RLP encoded blocks (gzipped if ending with `.gz`) and exit',
+    string: true,
+  })
+  .option('exportRange', {
+    describe: 'Range of blocks to export, allowed input formats: 5, 5-10 (default: entire chain)',
+    string: true,
+  })
+  .option('headersOnly', {
+    describe: 'Only export the block headers',
+    boolean: true,
+  })
   .option('debugCode', {
     describe: 'Generate code for local debugging (internal usage mostly)',
     boolean: true,
@@ -230,11 +308,27 @@ const args = yargs(hideBin(process.argv))
     describe: 'Use v4 ("findneighbour" node requests) for peer discovery',
     boolean: true,
   })
+  .option('discV5', {
+    describe:
+      'Use v5 (ENR based "findnode" requests) for peer discovery, listening on UDP port + 1 (combine with --discV4=false for v5 only)',
+    boolean: true,
+  })
   .option('mine', {
     describe: 'Enable private custom network mining (beta)',
     boolean: true,
     default: false,
   })
+  .option('automine', {
+    describe: 'Mine a block as soon as a tx is received instead of on the clique period',
+    boolean: true,
+    default: false,
+  })
+  .option('keystore', {
+    describe:
+      'Manage encrypted accounts in the datadir keystore for the personal_*, eth_sign* and eth_sendTransaction RPC methods (only exposed on localhost)',
+    boolean: true,
+    default: false,
+  })
   .option('unlock', {
     describe: `Path to file where private key (without 0x) is stored or comma separated list of accounts to unlock -
       currently only the first account is used (for sealing PoA blocks and as the default coinbase).
@@ -257,6 +351,49 @@ const args = yargs(hideBin(process.argv))
     boolean: true,
     default: true,
   })
+  .option('txJournal', {
+    describe:
+      'Journal local txs sent with eth_sendRawTransaction to disk and re-add them to the tx pool on restart',
+    boolean: true,
+    default: true,
+  })
+  .option('txPoolMinGasPrice', {
+    describe: 'Minimum gas price (tip for EIP-1559 txs) in wei for remote txs in the tx pool',
+    number: true,
+    default: Number(Config.TXPOOL_MIN_GAS_PRICE_DEFAULT),
+  })
+  .option('txPoolPriceBump', {
+    describe: 'Gas price bump in percent needed to replace a pooled tx with the same nonce',
+    number: true,
+    default: Config.TXPOOL_PRICE_BUMP_DEFAULT,
+  })
+  .option('txPoolMaxDataSize', {
+    describe: 'Maximum tx data size in bytes accepted to the tx pool',
+    number: true,
+    default: Config.TXPOOL_MAX_DATA_SIZE_DEFAULT,
+  })
+  .option('txPoolSlots', {
+    describe:
+      'Maximum number of remote txs in the tx pool (the lowest priced are evicted for higher priced txs)',
+    number: true,
+    default: Config.TXPOOL_SLOTS_DEFAULT,
+  })
+  .option('txPoolLocalSlots', {
+    describe:
+      'Maximum number of local txs (of senders using eth_sendRawTransaction) in the tx pool',
+    number: true,
+    default: Config.TXPOOL_LOCAL_SLOTS_DEFAULT,
+  })
+  .option('txPoolAccountSlots', {
+    describe: 'Maximum number of remote txs per sender in the tx pool',
+    number: true,
+    default: Config.TXPOOL_ACCOUNT_SLOTS_DEFAULT,
+  })
+  .option('txPoolQueueLifetime', {
+    describe: 'Seconds after which queued (non-executable) txs are dropped from the tx pool',
+    number: true,
+    default: Config.TXPOOL_QUEUE_LIFETIME_DEFAULT,
+  })
   .option('disableBeaconSync', {
     describe:
       'Disables beacon (optimistic) sync if the CL provides blocks at the head of the chain',
@@ -272,6 +409,15 @@ const args = yargs(hideBin(process.argv))
     number: true,
     default: 2350000,
   })
+  .option('stateRetention', {
+    describe:
+      'Number of recent executed blocks to keep the full state for, older states are pruned (the state of the finalized block is always kept, state written by snap sync or before pruning was enabled is never pruned)',
+    number: true,
+  })
+  .option('archive', {
+    describe: 'Keep the state of all blocks (overrides `--stateRetention`)',
+    boolean: true,
+  })
   .option('startBlock', {
     describe:
       'Block number to start syncing from. Must be lower than the local chain tip. Note: this is destructive and removes blocks from the blockchain, please back up your datadir before using.',
@@ -337,6 +483,27 @@ async function executeBlocks(client: EthereumClient) {
   await execution.executeBlocks(first, last, txHashes)
 }
 
+/**
+ * Block file import/export mode (no services will be started)
+ */
+async function importExportBlocks(client: EthereumClient) {
+  const { chain, execution } = client.services.find((s) => s.name === 'eth') as FullEthereumService
+  if (typeof args.import === 'string') {
+    await importBlocks(args.import, { chain, execution })
+  } else {
+    let first
+    let last
+    if (typeof args.exportRange === 'string') {
+      const range = args.exportRange.split('-').map((val: string) => BigInt(val))
+      first = range[0]
+      last = range.length === 2 ? range[1] : first
+    }
+    await exportBlocks(args.export, { chain, first, last, headersOnly: args.headersOnly })
+  }
+  await execution?.stop()
+  await chain.close()
+}
+
 /**
  * Starts the client on a specified block number.
  * Note: this is destructive and removes blocks from the blockchain. Please back up your datadir.
@@ -402,6 +569,14 @@ async function startClient(config: Config, customGenesisState?: GenesisState) {
   if (args.executeBlocks !== undefined) {
     // Special block execution debug mode (does not change any state)
     await executeBlocks(client)
+  } else if (typeof args.import === 'string' || typeof args.export === 'string') {
+    try {
+      await importExportBlocks(client)
+    } catch (err: any) {
+      config.logger.error(`Error on block file import/export: ${err.message}`)
+      process.exit(1)
+    }
+    process.exit()
   } else {
     // Regular client start
     await client.start()
@@ -419,7 +594,8 @@ async function setupDevnet(prefundAddress: Address) {
       ? { ethash: true }
       : {
           clique: {
-            period: 10,
+            // Mine on demand when mining a block for every tx
+            period: args.automine === true ? 0 : 10,
             epoch: 30000,
           },
         }
@@ -631,8 +807,11 @@ async function run() {
     common,
     datadir,
     debugCode: args.debugCode,
+    prometheus: args.prometheus,
+    keystore: args.keystore,
     discDns: args.discDns,
     discV4: args.discV4,
+    discV5: args.discV5,
     dnsAddr: args.dnsAddr,
     dnsNetworks: args.dnsNetworks,
     extIP: args.extIP,
@@ -643,11 +822,24 @@ async function run() {
     maxPerRequest: args.maxPerRequest,
     maxFetcherJobs: args.maxFetcherJobs,
     mine: args.mine === true ? args.mine : args.dev,
+    automine: args.automine,
+    dev: args.dev === true || typeof args.dev === 'string',
     minerCoinbase: args.minerCoinbase,
     minPeers: args.minPeers,
     multiaddrs,
     port: args.port,
     saveReceipts: args.saveReceipts,
+    txJournal: args.txJournal,
+    txPoolMinGasPrice:
+      args.txPoolMinGasPrice !== undefined ? BigInt(args.txPoolMinGasPrice) : undefined,
+    txPoolPriceBump: args.txPoolPriceBump,
+    txPoolMaxDataSize: args.txPoolMaxDataSize,
+    txPoolSlots: args.txPoolSlots,
+    txPoolLocalSlots: args.txPoolLocalSlots,
+    txPoolAccountSlots: args.txPoolAccountSlots,
+    txPoolQueueLifetime: args.txPoolQueueLifetime,
+    stateRetention: args.stateRetention,
+    archive: args.archive,
     syncmode: args.syncmode,
     disableBeaconSync: args.disableBeaconSync,
     forceSnapSync: args.forceSnapSync,
@@ -658,12 +850,21 @@ async function run() {
 
   const client = await startClient(config, customGenesisState)
   const servers = args.rpc === true || args.rpcEngine === true ? startRPCServers(client, args) : []
+  let metricsServer: Server | undefined
+  if (config.metrics) {
+    metricsServer = createMetricsServer(config.metrics)
+    metricsServer.listen(args.prometheusPort)
+    config.logger.info(
+      `Started Prometheus metrics server address=http://localhost:${args.prometheusPort}/metrics`
+    )
+  }
 
   process.on('SIGINT', async () => {
     config.logger.info('Caught interrupt signal. Shutting down...')
     for (const s of servers) {
       s.http().close()
     }
+    metricsServer?.close()
     await client.stop()
     config.logger.info('Exiting.')
     process.exit()
@@ -1,12 +1,13 @@
 import { readFileSync, writeFileSync } from 'fs'
 
-import { RPCManager, saveReceiptsMethods } from '../lib/rpc'
+import { RPCManager, keystoreMethods, saveReceiptsMethods } from '../lib/rpc'
 import * as modules from '../lib/rpc/modules'
 import {
   MethodConfig,
   createRPCServer,
   createRPCServerListener,
   createWsRPCServerListener,
+  filterRPCServer,
 } from '../lib/util'
 
 import type { EthereumClient } from '../lib/client'
@@ -30,8 +31,20 @@ type RPCArgs = {
   'jwt-secret'?: string
   rpcEngineAuth: boolean
   rpcCors: string
+  rpcBatchLimit: number
+  rpcMaxBodySize: number
+  rpcRateLimit: number
+  rpcCallTimeout: number
+  rpcAllowMethods?: string[]
+  rpcDenyMethods?: string[]
+  wsAllowMethods?: string[]
+  wsDenyMethods?: string[]
+  rpcEngineAllowMethods?: string[]
+  rpcEngineDenyMethods?: string[]
 }
 
+type RPCServerWithMethods = ReturnType<typeof createRPCServer>
+
 /**
  * Returns a jwt secret from a provided file path, otherwise saves a randomly generated one to datadir
  */
@@ -55,6 +68,27 @@ function parseJwtSecret(config: Config, jwtFilePath?: string): Buffer {
   return jwtSecret
 }
 
+/**
+ * Checks if a server listening on the address is only reachable from the local machine
+ */
+function isLocalhost(address: string) {
+  return ['localhost', '127.0.0.1', '::1'].includes(address)
+}
+
+/**
+ * Returns the server only exposing the methods or namespaces in the comma-separated
+ * allow list and not in the deny list, the server itself if there are no lists
+ */
+function applyMethodFilter(rpcServer: RPCServerWithMethods, allow?: string[], deny?: string[]) {
+  if (allow === undefined && deny === undefined) return rpcServer
+  const parse = (list?: string[]) =>
+    list
+      ?.flatMap((entry) => entry.split(','))
+      .map((entry) => entry.trim())
+      .filter((entry) => entry !== '')
+  return filterRPCServer(rpcServer, { allow: parse(allow), deny: parse(deny) })
+}
+
 /**
  * Starts and returns enabled RPCServers
  */
@@ -77,9 +111,14 @@ export function startRPCServers(client: EthereumClient, args: RPCArgs) {
     rpcEngineAuth,
     rpcCors,
     rpcDebug,
+    rpcBatchLimit,
+    rpcMaxBodySize,
+    rpcRateLimit,
+    rpcCallTimeout,
   } = args
   const manager = new RPCManager(client, config)
   const { logger } = config
+  const limits = { batchLimit: rpcBatchLimit, maxBodySize: rpcMaxBodySize, rateLimit: rpcRateLimit }
   const jwtSecret =
     rpcEngine && rpcEngineAuth ? parseJwtSecret(config, jwtSecretPath) : Buffer.from([])
   let withEngineMethods = false
@@ -93,18 +132,35 @@ export function startRPCServers(client: EthereumClient, args: RPCArgs) {
   if (rpc || ws) {
     let rpcHttpServer
     withEngineMethods = rpcEngine && rpcEnginePort === rpcport && rpcEngineAddr === rpcaddr
+    // Signing with the keystore accounts is not exposed to other machines
+    const withKeystoreMethods = (!rpc || isLocalhost(rpcaddr)) && (!ws || isLocalhost(wsAddr))
+    if (config.keystore && !withKeystoreMethods) {
+      logger.warn(
+        `Keystore methods are only exposed on RPC servers listening on localhost, omitting methods=${keystoreMethods}`
+      )
+    }
 
-    const { server, namespaces, methods } = createRPCServer(manager, {
+    // HTTP and WS share the method instances and with it e.g. the installed filters
+    const rpcServer = createRPCServer(manager, {
       methodConfig: withEngineMethods ? MethodConfig.WithEngine : MethodConfig.WithoutEngine,
       rpcDebug,
       logger,
+      metrics: config.metrics,
+      withKeystoreMethods,
+      callTimeout: rpcCallTimeout,
     })
-    servers.push(server)
 
     if (rpc) {
+      const { server, namespaces, methods } = applyMethodFilter(
+        rpcServer,
+        args.rpcAllowMethods,
+        args.rpcDenyMethods
+      )
+      servers.push(server)
       rpcHttpServer = createRPCServerListener({
         rpcCors,
         server,
+        limits,
         withEngineMiddleware:
           withEngineMethods && rpcEngineAuth
             ? {
@@ -116,22 +172,30 @@ export function startRPCServers(client: EthereumClient, args: RPCArgs) {
               }
             : undefined,
       })
-      rpcHttpServer.listen(rpcport)
-      logger.info(
-        `Started JSON RPC Server address=http://${rpcaddr}:${rpcport} namespaces=${namespaces}${
-          withEngineMethods ? ' rpcEngineAuth=' + rpcEngineAuth.toString() : ''
-        }`
-      )
-      logger.debug(
-        `Methods available at address=http://${rpcaddr}:${rpcport} namespaces=${namespaces} methods=${Object.keys(
-          methods
-        ).join(',')}`
-      )
+      rpcHttpServer.listen(rpcport, rpcaddr, () => {
+        logger.info(
+          `Started JSON RPC Server address=http://${rpcaddr}:${rpcport} namespaces=${namespaces}${
+            withEngineMethods ? ' rpcEngineAuth=' + rpcEngineAuth.toString() : ''
+          }`
+        )
+        logger.debug(
+          `Methods available at address=http://${rpcaddr}:${rpcport} namespaces=${namespaces} methods=${Object.keys(
+            methods
+          ).join(',')}`
+        )
+      })
     }
     if (ws) {
+      const { server, namespaces, methods } = applyMethodFilter(
+        rpcServer,
+        args.wsAllowMethods,
+        args.wsDenyMethods
+      )
+      if (!servers.includes(server)) servers.push(server)
       const opts: any = {
         rpcCors,
         server,
+        limits,
         withEngineMiddleware: withEngineMethods && rpcEngineAuth ? { jwtSecret } : undefined,
       }
       if (rpcaddr === wsAddr && rpcport === wsPort) {
@@ -140,7 +204,7 @@ export function startRPCServers(client: EthereumClient, args: RPCArgs) {
       }
 
       const rpcWsServer = createWsRPCServerListener(opts)
-      if (rpcWsServer) rpcWsServer.listen(wsPort)
+      if (rpcWsServer) rpcWsServer.listen(wsPort, wsAddr)
       logger.info(
         `Started JSON RPC Server address=ws://${wsAddr}:${wsPort} namespaces=${namespaces}${
           withEngineMethods ? ` rpcEngineAuth=${rpcEngineAuth}` : ''
@@ -155,35 +219,44 @@ export function startRPCServers(client: EthereumClient, args: RPCArgs) {
   }
 
   if (rpcEngine && !(rpc && rpcport === rpcEnginePort && rpcaddr === rpcEngineAddr)) {
-    const { server, namespaces, methods } = createRPCServer(manager, {
-      methodConfig: MethodConfig.EngineOnly,
-      rpcDebug,
-      logger,
-    })
+    const { server, namespaces, methods } = applyMethodFilter(
+      createRPCServer(manager, {
+        methodConfig: MethodConfig.EngineOnly,
+        rpcDebug,
+        logger,
+        metrics: config.metrics,
+        callTimeout: rpcCallTimeout,
+      }),
+      args.rpcEngineAllowMethods,
+      args.rpcEngineDenyMethods
+    )
     servers.push(server)
     const rpcHttpServer = createRPCServerListener({
       rpcCors,
       server,
+      limits,
       withEngineMiddleware: rpcEngineAuth
         ? {
             jwtSecret,
           }
         : undefined,
     })
-    rpcHttpServer.listen(rpcEnginePort)
-    logger.info(
-      `Started JSON RPC server address=http://${rpcEngineAddr}:${rpcEnginePort} namespaces=${namespaces} rpcEngineAuth=${rpcEngineAuth}`
-    )
-    logger.debug(
-      `Methods available at address=http://${rpcEngineAddr}:${rpcEnginePort} namespaces=${namespaces} methods=${Object.keys(
-        methods
-      ).join(',')}`
-    )
+    rpcHttpServer.listen(rpcEnginePort, rpcEngineAddr, () => {
+      logger.info(
+        `Started JSON RPC server address=http://${rpcEngineAddr}:${rpcEnginePort} namespaces=${namespaces} rpcEngineAuth=${rpcEngineAuth}`
+      )
+      logger.debug(
+        `Methods available at address=http://${rpcEngineAddr}:${rpcEnginePort} namespaces=${namespaces} methods=${Object.keys(
+          methods
+        ).join(',')}`
+      )
+    })
 
     if (ws) {
       const opts: any = {
         rpcCors,
         server,
+        limits,
         withEngineMiddleware: rpcEngineAuth ? { jwtSecret } : undefined,
       }
 
@@ -193,7 +266,7 @@ export function startRPCServers(client: EthereumClient, args: RPCArgs) {
       }
 
       const rpcWsServer = createWsRPCServerListener(opts)
-      if (rpcWsServer) rpcWsServer.listen(wsEnginePort)
+      if (rpcWsServer) rpcWsServer.listen(wsEnginePort, wsEngineAddr)
       logger.info(
         `Started JSON RPC Server address=ws://${wsEngineAddr}:${wsEnginePort} namespaces=${namespaces} rpcEngineAuth=${rpcEngineAuth}`
       )
@@ -0,0 +1,193 @@
+import { Block } from '@ethereumjs/block'
+import { once } from 'events'
+import { createReadStream, createWriteStream } from 'fs'
+import { createGunzip, createGzip } from 'zlib'
+
+import type { VMExecution } from '../execution'
+import type { Chain } from './chain'
+import type { Writable } from 'stream'
+
+/* Number of blocks put into the blockchain (and executed) at once on import */
+const IMPORT_BATCH_SIZE = 100
+
+const GZIP_MAGIC = Buffer.from([0x1f, 0x8b])
+
+export interface ImportBlocksOptions {
+  /* Blockchain to import the blocks into */
+  chain: Chain
+
+  /* Execution to run the blocks imported with (blocks are only stored if not provided) */
+  execution?: VMExecution
+
+  /* Number of blocks put into the blockchain at once (default: 100) */
+  batchSize?: number
+}
+
+export interface ExportBlocksOptions {
+  /* Blockchain to export the blocks from */
+  chain: Chain
+
+  /* First block to export (default: 0) */
+  first?: bigint
+
+  /* Last block to export (default: latest block) */
+  last?: bigint
+
+  /* Only export the block headers (default: false) */
+  headersOnly?: boolean
+}
+
+/**
+ * Returns the total length of the RLP item at the start of the buffer or
+ * `undefined` if the buffer does not contain the complete item prefix yet
+ */
+function rlpItemLength(buf: Buffer): number | undefined {
+  const prefix = buf[0]
+  if (prefix < 0xc0) {
+    throw new Error(`Invalid block file, expected RLP list but got prefix=${prefix}`)
+  }
+  if (prefix <= 0xf7) {
+    return 1 + prefix - 0xc0
+  }
+  const lengthOfLength = prefix - 0xf7
+  if (buf.length < 1 + lengthOfLength) return
+  return 1 + lengthOfLength + buf.readUIntBE(1, lengthOfLength)
+}
+
+/**
+ * Reads the concatenated RLP items of a (gzip compressed) block file as written by
+ * {@link exportBlocks} or `geth export`
+ * @param file path of the file
+ */
+export async function* readBlockFile(file: string): AsyncGenerator<Buffer> {
+  const magic = Buffer.alloc(2)
+  for await (const chunk of createReadStream(file, { start: 0, end: 1 })) {
+    chunk.copy(magic)
+  }
+  const input = createReadStream(file)
+  const stream = magic.equals(GZIP_MAGIC) ? input.pipe(createGunzip()) : input
+
+  let pending = Buffer.alloc(0)
+  for await (const chunk of stream) {
+    pending = pending.length > 0 ? Buffer.concat([pending, chunk]) : chunk
+    let length
+    while (pending.length > 0 && (length = rlpItemLength(pending)) !== undefined) {
+      if (pending.length < length) break
+      yield pending.subarray(0, length)
+      pending = pending.subarray(length)
+    }
+  }
+  if (pending.length > 0) {
+    throw new Error(`Invalid block file, ${pending.length} trailing bytes`)
+  }
+}
+
+/**
+ * Imports the blocks of a block file into the chain and executes them. Blocks
+ * already part of the canonical chain are skipped, so an interrupted import can be
+ * resumed by importing the same file again.
+ * @param file path of the (gzip compressed) block file
+ * @returns number of blocks imported
+ */
+export async function importBlocks(file: string, options: ImportBlocksOptions): Promise<number> {
+  const { chain, execution, batchSize = IMPORT_BATCH_SIZE } = options
+  const { config } = chain
+  let imported = 0
+  let skipped = 0
+  let batch: Block[] = []
+
+  const putBatch = async () => {
+    if (batch.length === 0) return
+    // Blocks from a file are put regardless of the merge, these are not received from peers
+    await chain.putBlocks(batch, true)
+    imported += batch.length
+    const executed = execution ? await execution.run() : 0
+    const { number } = batch[batch.length - 1].header
+    config.logger.info(
+      `Imported blocks count=${imported} number=${number} executed=${executed} height=${chain.blocks.height}`
+    )
+    batch = []
+  }
+
+  for await (const rlp of readBlockFile(file)) {
+    const block = Block.fromRLPSerializedBlock(rlp, {
+      common: config.chainCommon,
+      hardforkByBlockNumber: true,
+    })
+    const { number } = block.header
+    if (number <= chain.blocks.height) {
+      const canonical = await chain.getBlock(number)
+      if (canonical.hash().equals(block.hash())) {
+        skipped++
+        continue
+      }
+      if (number === BigInt(0)) {
+        throw new Error('Genesis block of the block file does not match the chain')
+      }
+    }
+    batch.push(block)
+    if (batch.length >= batchSize) {
+      await putBatch()
+    }
+  }
+  await putBatch()
+  if (skipped > 0) {
+    config.logger.info(`Skipped blocks already imported count=${skipped}`)
+  }
+  // Resume execution of blocks imported by an interrupted run
+  if (execution && imported === 0) {
+    await execution.run()
+  }
+  return imported
+}
+
+/**
+ * Writes a chunk to the stream, waiting for the stream to drain if needed
+ */
+async function write(stream: Writable, chunk: Buffer) {
+  if (!stream.write(chunk)) {
+    await once(stream, 'drain')
+  }
+}
+
+/**
+ * Exports a range of canonical blocks as concatenated RLP to a block file, which is
+ * gzip compressed if the file name ends with `.gz`. The blocks are verified to form a
+ * chain (and the block bodies to match their headers) while writing.
+ * @param file path of the file
+ * @returns number of blocks exported
+ */
+export async function exportBlocks(file: string, options: ExportBlocksOptions): Promise<number> {
+  const { chain, first = BigInt(0), last = chain.blocks.height, headersOnly = false } = options
+  const { config } = chain
+  if (first > last || last > chain.blocks.height) {
+    throw new Error(`Invalid export range ${first}-${last}, chain height=${chain.blocks.height}`)
+  }
+
+  const output = createWriteStream(file)
+  const stream = file.endsWith('.gz') ? createGzip() : output
+  if (stream !== output) stream.pipe(output)
+
+  let parent: Block | undefined
+  let exported = 0
+  for (let number = first; number <= last; number++) {
+    const block = await chain.getBlock(number)
+    if (parent !== undefined && !block.header.parentHash.equals(parent.hash())) {
+      throw new Error(`Block number=${number} does not link to its parent block`)
+    }
+    if (!headersOnly) {
+      // Throws if the transactions, uncles or withdrawals do not match the header
+      await block.validateData()
+    }
+    await write(stream, headersOnly ? block.header.serialize() : block.serialize())
+    parent = block
+    exported++
+    if (exported % 1000 === 0) {
+      config.logger.info(`Exported blocks count=${exported} number=${number}`)
+    }
+  }
+  stream.end()
+  await once(output, 'finish')
+  config.logger.info(`Exported blocks count=${exported} range=${first}-${last} file=${file}`)
+  return exported
+}
@@ -2,7 +2,9 @@ import { Common, Hardfork } from '@ethereumjs/common'
 import { genPrivateKey } from '@ethereumjs/devp2p'
 import { Level } from 'level'
 
+import { Keystore } from './keystore'
 import { getLogger } from './logging'
+import { Metrics } from './metrics'
 import { Libp2pServer, RlpxServer } from './net/server'
 import { EventBus } from './types'
 import { parseTransports } from './util'
@@ -134,6 +136,69 @@ export interface ConfigOptions {
    */
   txLookupLimit?: number
 
+  /**
+   * Journal local txs (e.g. sent with `eth_sendRawTransaction`) to `transactions.rlp` in the
+   * network directory and re-add them to the tx pool on restart
+   *
+   * Default: false (the client CLI enables it by default, see `--txJournal`)
+   */
+  txJournal?: boolean
+
+  /**
+   * Minimum gas price (tip for EIP-1559 txs) in wei for remote txs to be accepted
+   * to the tx pool (default: 0.1 GWei)
+   */
+  txPoolMinGasPrice?: bigint
+
+  /**
+   * Percentage a tx replacing a pooled tx with the same nonce needs to bump the
+   * gas price by (default: 10)
+   */
+  txPoolPriceBump?: number
+
+  /**
+   * Maximum size of the tx data in bytes (default: 128KB)
+   */
+  txPoolMaxDataSize?: number
+
+  /**
+   * Maximum number of remote txs in the tx pool. If full, the remote tx with the lowest
+   * gas price is evicted for a tx paying more. (default: 5000)
+   */
+  txPoolSlots?: number
+
+  /**
+   * Maximum number of local txs (of senders of txs sent with `eth_sendRawTransaction`)
+   * in the tx pool, local txs are never evicted for remote ones (default: 1000)
+   */
+  txPoolLocalSlots?: number
+
+  /**
+   * Maximum number of remote txs of a single sender in the tx pool (default: 100)
+   */
+  txPoolAccountSlots?: number
+
+  /**
+   * Number of seconds after which queued (non-executable) txs are dropped
+   * from the tx pool (default: 600)
+   */
+  txPoolQueueLifetime?: number
+
+  /**
+   * Number of recent executed blocks to keep the full state for, enables
+   * pruning of the state of older blocks (default: undefined, all states are kept)
+   *
+   * Only the state written by the execution while pruning is enabled is pruned,
+   * state written by snap sync or before pruning was enabled is kept
+   */
+  stateRetention?: number
+
+  /**
+   * Keep the state of all blocks (archive node), takes precedence
+   * over `stateRetention` (default: false)
+   */
+  archive?: boolean
+
   /**
    * A custom winston logger can be provided
    * if setting logging verbosity is not sufficient
@@ -161,6 +226,20 @@ export interface ConfigOptions {
    */
   maxFetcherRequests?: number
 
+  /**
+   * Soft limit for the response size (in bytes) of snap/1 requests
+   *
+   * Default: `50000`
+   */
+  maxRangeBytes?: number
+
+  /**
+   * Size of the account hash range covered by a single snap/1 account range task
+   *
+   * Default: 1/16 of the account hash space
+   */
+  maxAccountRange?: bigint
+
   /**
    * Number of peers needed before syncing
    *
@@ -196,6 +275,23 @@ export interface ConfigOptions {
    */
   debugCode?: boolean
 
+  /**
+   * Collect metrics on sync, execution, peers, txpool and RPC requests
+   * to be exported to Prometheus
+   *
+   * Default: `false`
+   */
+  prometheus?: boolean
+
+  /**
+   * Manage encrypted accounts in the `keystore` directory of the datadir,
+   * used to sign with the `personal_*`, `eth_sign*` and `eth_sendTransaction` RPC methods
+   * (only exposed on RPC servers listening on localhost)
+   *
+   * Default: `false`
+   */
+  keystore?: boolean
+
   /**
    * Query EIP-1459 DNS TXT records for peer discovery
    *
@@ -210,6 +306,14 @@ export interface ConfigOptions {
    */
   discV4?: boolean
 
+  /**
+   * Use discv5 (node discovery v5 with ENRs) for peer discovery, run alongside
+   * v4 discovery on the next higher UDP port (`port + 1`)
+   *
+   * Default: `false`
+   */
+  discV5?: boolean
+
   /**
    * Enable mining
    *
@@ -217,6 +321,22 @@ export interface ConfigOptions {
    */
   mine?: boolean
 
+  /**
+   * Mine a block as soon as a tx is added to the tx pool,
+   * instead of on the clique period
+   *
+   * Default: `false`
+   */
+  automine?: boolean
+
+  /**
+   * Dev mode (see `--dev`): the blocks of the miner are stored as executed right away
+   * and the chain can be controlled with the `evm_*` and `anvil_*` RPC methods
+   *
+   * Default: `false`
+   */
+  dev?: boolean
+
   /**
    * Unlocked accounts of form [address, privateKey]
    * Currently only the first account is used to seal mined PoA blocks
@@ -268,10 +388,19 @@ export class Config {
   public static readonly MAXPERREQUEST_DEFAULT = 50
   public static readonly MAXFETCHERJOBS_DEFAULT = 100
   public static readonly MAXFETCHERREQUESTS_DEFAULT = 5
+  public static readonly MAXRANGEBYTES_DEFAULT = 50000
+  public static readonly MAXACCOUNTRANGE_DEFAULT = BigInt(2) ** BigInt(256) / BigInt(16)
   public static readonly MINPEERS_DEFAULT = 1
   public static readonly MAXPEERS_DEFAULT = 25
   public static readonly DNSADDR_DEFAULT = '8.8.8.8'
   public static readonly DEBUGCODE_DEFAULT = false
+  public static readonly TXPOOL_MIN_GAS_PRICE_DEFAULT = BigInt(100000000)
+  public static readonly TXPOOL_PRICE_BUMP_DEFAULT = 10
+  public static readonly TXPOOL_MAX_DATA_SIZE_DEFAULT = 128 * 1024
+  public static readonly TXPOOL_SLOTS_DEFAULT = 5000
+  public static readonly TXPOOL_LOCAL_SLOTS_DEFAULT = 1000
+  public static readonly TXPOOL_ACCOUNT_SLOTS_DEFAULT = 100
+  public static readonly TXPOOL_QUEUE_LIFETIME_DEFAULT = 600
   public static readonly SAFE_REORG_DISTANCE = 100
   public static readonly SKELETON_FILL_CANONICAL_BACKSTEP = 100
   public static readonly SKELETON_SUBCHAIN_MERGE_MINIMUM = 1000
@@ -289,16 +418,33 @@ export class Config {
   public readonly multiaddrs?: Multiaddr[]
   public readonly saveReceipts: boolean
   public readonly txLookupLimit: number
+  public readonly txJournal: boolean
+  public readonly txPoolMinGasPrice: bigint
+  public readonly txPoolPriceBump: number
+  public readonly txPoolMaxDataSize: number
+  public readonly txPoolSlots: number
+  public readonly txPoolLocalSlots: number
+  public readonly txPoolAccountSlots: number
+  public readonly txPoolQueueLifetime: number
+  public readonly stateRetention?: number
+  public readonly archive: boolean
   public readonly maxPerRequest: number
   public readonly maxFetcherJobs: number
   public readonly maxFetcherRequests: number
+  public readonly maxRangeBytes: number
+  public readonly maxAccountRange: bigint
   public readonly minPeers: number
   public readonly maxPeers: number
   public readonly dnsAddr: string
   public readonly debugCode: boolean
+  public readonly metrics?: Metrics
+  public readonly keystore?: Keystore
   public readonly discDns: boolean
   public readonly discV4: boolean
+  public readonly discV5: boolean
   public readonly mine: boolean
+  public readonly automine: boolean
+  public readonly dev: boolean
   public readonly accounts: [address: Address, privKey: Buffer][]
   public readonly minerCoinbase?: Address
 
@@ -314,6 +460,8 @@ export class Config {
   public lastSyncDate: number
   /** Best known block height */
   public syncTargetHeight?: bigint
+  /** If a snap sync is in progress (writing to the state database) */
+  public snapSyncing = false
 
   public readonly chainCommon: Common
   public readonly execCommon: Common
@@ -335,14 +483,28 @@ export class Config {
     this.key = options.key ?? genPrivateKey()
     this.saveReceipts = options.saveReceipts ?? false
     this.txLookupLimit = options.txLookupLimit ?? 2350000
+    this.txJournal = options.txJournal ?? false
+    this.txPoolMinGasPrice = options.txPoolMinGasPrice ?? Config.TXPOOL_MIN_GAS_PRICE_DEFAULT
+    this.txPoolPriceBump = options.txPoolPriceBump ?? Config.TXPOOL_PRICE_BUMP_DEFAULT
+    this.txPoolMaxDataSize = options.txPoolMaxDataSize ?? Config.TXPOOL_MAX_DATA_SIZE_DEFAULT
+    this.txPoolSlots = options.txPoolSlots ?? Config.TXPOOL_SLOTS_DEFAULT
+    this.txPoolLocalSlots = options.txPoolLocalSlots ?? Config.TXPOOL_LOCAL_SLOTS_DEFAULT
+    this.txPoolAccountSlots = options.txPoolAccountSlots ?? Config.TXPOOL_ACCOUNT_SLOTS_DEFAULT
+    this.txPoolQueueLifetime = options.txPoolQueueLifetime ?? Config.TXPOOL_QUEUE_LIFETIME_DEFAULT
+    this.archive = options.archive ?? false
+    this.stateRetention = this.archive ? undefined : options.stateRetention
     this.maxPerRequest = options.maxPerRequest ?? Config.MAXPERREQUEST_DEFAULT
     this.maxFetcherJobs = options.maxFetcherJobs ?? Config.MAXFETCHERJOBS_DEFAULT
     this.maxFetcherRequests = options.maxPerRequest ?? Config.MAXFETCHERREQUESTS_DEFAULT
+    this.maxRangeBytes = options.maxRangeBytes ?? Config.MAXRANGEBYTES_DEFAULT
+    this.maxAccountRange = options.maxAccountRange ?? Config.MAXACCOUNTRANGE_DEFAULT
     this.minPeers = options.minPeers ?? Config.MINPEERS_DEFAULT
     this.maxPeers = options.maxPeers ?? Config.MAXPEERS_DEFAULT
     this.dnsAddr = options.dnsAddr ?? Config.DNSADDR_DEFAULT
     this.debugCode = options.debugCode ?? Config.DEBUGCODE_DEFAULT
     this.mine = options.mine ?? false
+    this.automine = options.automine ?? false
+    this.dev = options.dev ?? false
     this.accounts = options.accounts ?? []
     this.minerCoinbase = options.minerCoinbase
     this.safeReorgDistance = options.safeReorgDistance ?? Config.SAFE_REORG_DISTANCE
@@ -363,9 +525,17 @@ export class Config {
 
     this.discDns = this.getDnsDiscovery(options.discDns)
     this.discV4 = this.getV4Discovery(options.discV4)
+    this.discV5 = options.discV5 ?? false
 
     this.logger = options.logger ?? getLogger({ loglevel: 'error' })
 
+    if (options.prometheus === true) {
+      this.metrics = new Metrics(this)
+    }
+    if (options.keystore === true) {
+      this.keystore = new Keystore(this)
+    }
+
     if (options.servers) {
       if (options.transports) {
         throw new Error(
@@ -0,0 +1,382 @@
+import { RLP } from '@ethereumjs/rlp'
+import { BaseStateManager } from '@ethereumjs/statemanager'
+import { Cache } from '@ethereumjs/statemanager/dist/cache'
+import { Trie } from '@ethereumjs/trie'
+import {
+  Account,
+  KECCAK256_NULL,
+  KECCAK256_RLP,
+  Lock,
+  arrToBufArr,
+  bufferToHex,
+} from '@ethereumjs/util'
+import { keccak256 } from 'ethereum-cryptography/keccak'
+
+import { short } from '../util'
+
+import type { Chain } from '../blockchain'
+import type { Config } from '../config'
+import type { Peer } from '../net/peer/peer'
+import type { PeerPool } from '../net/peerpool'
+import type { FlowControl } from '../net/protocol/flowcontrol'
+import type { StateManager } from '@ethereumjs/statemanager'
+import type { getCb, putCb } from '@ethereumjs/statemanager/dist/cache'
+import type { StorageDump } from '@ethereumjs/statemanager/dist/interface'
+import type { Address } from '@ethereumjs/util'
+
+/* Number of recent blocks the state can be requested for */
+const STATE_HISTORY = 128
+
+export interface LesStateManagerOptions {
+  /* Config */
+  config: Config
+
+  /* Blockchain providing the headers the state is verified against */
+  chain: Chain
+
+  /* Peer pool to request the state from */
+  pool: PeerPool
+
+  /* Flow control manager. If undefined, the peers' buffer limits are not taken into account. */
+  flow?: FlowControl
+}
+
+/**
+ * State manager for light clients retrieving the state on demand from LES
+ * servers. Accounts and storage slots are verified with the Merkle proofs against
+ * the state root of the header synced, contract code against the code hash of the account.
+ *
+ * State changes (e.g. from an `eth_call`) are only applied to the local caches.
+ * @memberof module:execution
+ */
+export class LesStateManager extends BaseStateManager implements StateManager {
+  private config: Config
+  private chain: Chain
+  private pool: PeerPool
+  private flow: FlowControl | undefined
+  private lock: Lock
+  private contractCache: Map<string, Buffer>
+  private storageCache: Map<string, Map<string, Buffer>>
+  /** Contract code and storage caches of the checkpoints, restored on revert */
+  private checkpoints: [Map<string, Buffer>, Map<string, Map<string, Buffer>>][]
+  private stateRoot: Buffer | undefined
+  private blockHash: Buffer | undefined
+  _cache: Cache
+
+  /**
+   * Create new LES state manager
+   * @param options
+   */
+  constructor(options: LesStateManagerOptions) {
+    super({})
+    this.config = options.config
+    this.chain = options.chain
+    this.pool = options.pool
+    this.flow = options.flow
+    this.lock = new Lock()
+
+    this.contractCache = new Map()
+    this.storageCache = new Map()
+    this.checkpoints = []
+
+    const getCb: getCb = async (address) => {
+      return this.fetchAccount(address)
+    }
+    const putCb: putCb = async (_keyBuf, _accountRlp) => {}
+    const deleteCb = async (_keyBuf: Buffer) => {}
+    this._cache = new Cache({ getCb, putCb, deleteCb })
+  }
+
+  copy(): LesStateManager {
+    const newState = new LesStateManager({
+      config: this.config,
+      chain: this.chain,
+      pool: this.pool,
+      flow: this.flow,
+    })
+    // Requests of all copies go through the same lock since only one request
+    // per message type can be active for a peer
+    newState.lock = this.lock
+    newState.stateRoot = this.stateRoot
+    newState.blockHash = this.blockHash
+    return newState
+  }
+
+  /**
+   * Clears the caches so all accounts, contract code and storage slots will
+   * be requested from the network again
+   */
+  clearCache(): void {
+    this.contractCache.clear()
+    this.storageCache.clear()
+    this._cache.clear()
+  }
+
+  /**
+   * Returns the hash of the recent block with the given state root (if any)
+   */
+  private async findBlockHash(stateRoot: Buffer): Promise<Buffer | undefined> {
+    const headers = await this.chain.getHeaders(this.chain.headers.height, STATE_HISTORY, 0, true)
+    return headers.find((header) => header.stateRoot.equals(stateRoot))?.hash()
+  }
+
+  /**
+   * Returns the block the state is currently requested for, which defaults to the latest header
+   */
+  private state(): { blockHash: Buffer; stateRoot: Buffer } {
+    if (this.blockHash !== undefined && this.stateRoot !== undefined) {
+      return { blockHash: this.blockHash, stateRoot: this.stateRoot }
+    }
+    const latest = this.chain.headers.latest
+    if (!latest) {
+      throw new Error('No header synced to request the state for')
+    }
+    return { blockHash: latest.hash(), stateRoot: latest.stateRoot }
+  }
+
+  /**
+   * Sends a request to a random LES server having enough buffer left for it
+   * @param name name of the request message
+   * @param count number of items requested
+   * @param send sends the request to the peer chosen
+   */
+  private async request<T extends { bv: bigint }>(
+    name: string,
+    count: number,
+    send: (peer: Peer) => Promise<T | undefined>
+  ): Promise<T> {
+    const peers = this.pool.peers.filter(
+      (peer) =>
+        peer.les?.status.serveHeaders === true &&
+        (this.flow === undefined ||
+          peer.les.status.mrc[name] === undefined ||
+          this.flow.maxRequestCount(peer, name) >= count)
+    )
+    if (peers.length === 0) {
+      throw new Error(`No LES server available for ${name} request`)
+    }
+    const peer = peers[Math.floor(Math.random() * peers.length)]
+    await this.lock.acquire()
+    let result
+    try {
+      result = await send(peer)
+    } finally {
+      this.lock.release()
+    }
+    if (result === undefined) {
+      throw new Error(`${name} request to ${peer.id} failed`)
+    }
+    this.flow?.handleReply(peer, Number(result.bv))
+    return result
+  }
+
+  /**
+   * Requests the value of a (hashed) key in the state trie or in the storage trie
+   * of an account and verifies it with the proof returned
+   */
+  private async fetchProven(root: Buffer, key: Buffer, accountKey = Buffer.alloc(0)) {
+    const { blockHash } = this.state()
+    const { proof } = await this.request('GetProofsV2', 1, (peer) =>
+      peer.les!.getProofsV2({ reqs: [{ blockHash, accountKey, key }] })
+    )
+    try {
+      return await new Trie({ useKeyHashing: false }).verifyProof(root, key, proof)
+    } catch (error: any) {
+      throw new Error(`Invalid LES proof for key=${short(key)}: ${error.message}`)
+    }
+  }
+
+  /**
+   * Requests an account from the network
+   * @param address address of the account
+   * @returns the account or `undefined` if not existing
+   */
+  private async fetchAccount(address: Address): Promise<Account | undefined> {
+    const { stateRoot } = this.state()
+    const rlp = await this.fetchProven(stateRoot, Buffer.from(keccak256(address.buf)))
+    return rlp !== null ? Account.fromRlpSerializedAccount(rlp) : undefined
+  }
+
+  /**
+   * Gets the code corresponding to the provided `address`.
+   * @param address - Address to get the `code` for
+   * @returns {Promise<Buffer>} - Resolves with the code corresponding to the provided address.
+   * Returns an empty `Buffer` if the account has no associated code.
+   */
+  async getContractCode(address: Address): Promise<Buffer> {
+    let code = this.contractCache.get(address.toString())
+    if (code !== undefined) return code
+    const { codeHash } = await this.getAccount(address)
+    if (codeHash.equals(KECCAK256_NULL)) return Buffer.alloc(0)
+
+    const { blockHash } = this.state()
+    const accountKey = Buffer.from(keccak256(address.buf))
+    const { codes } = await this.request('GetContractCodes', 1, (peer) =>
+      peer.les!.getContractCodes({ reqs: [{ blockHash, accountKey }] })
+    )
+    code = codes[0]
+    if (code === undefined || !Buffer.from(keccak256(code)).equals(codeHash)) {
+      throw new Error(`Invalid LES contract code for ${address}`)
+    }
+    this.contractCache.set(address.toString(), code)
+    return code
+  }
+
+  /**
+   * Adds `value` to the cache as code of the account corresponding to `address`.
+   * @param address - Address of the `account` to add the `code` for
+   * @param value - The value of the `code`
+   */
+  async putContractCode(address: Address, value: Buffer): Promise<void> {
+    this.contractCache.set(address.toString(), value)
+    await this.modifyAccountFields(address, { codeHash: Buffer.from(keccak256(value)) })
+  }
+
+  /**
+   * Gets the storage value associated with the provided `address` and `key`. This method returns
+   * the shortest representation of the stored value.
+   * @param address - Address of the account to get the storage for
+   * @param key - Key in the account's storage to get the value for. Must be 32 bytes long.
+   * @returns {Buffer} - The storage value for the account
+   * corresponding to the provided address at the provided key.
+   * If this does not exist an empty `Buffer` is returned.
+   */
+  async getContractStorage(address: Address, key: Buffer): Promise<Buffer> {
+    if (key.length !== 32) {
+      throw new Error('Storage key must be 32 bytes long')
+    }
+    const cached = this.storageCache.get(address.toString())?.get(key.toString('hex'))
+    if (cached !== undefined) return cached
+
+    let value = Buffer.alloc(0)
+    const { storageRoot } = await this.getAccount(address)
+    if (!storageRoot.equals(KECCAK256_RLP)) {
+      const rlp = await this.fetchProven(
+        storageRoot,
+        Buffer.from(keccak256(key)),
+        Buffer.from(keccak256(address.buf))
+      )
+      if (rlp !== null) {
+        value = arrToBufArr(RLP.decode(Uint8Array.from(rlp))) as Buffer
+      }
+    }
+    await this.putContractStorage(address, key, value)
+    return value
+  }
+
+  /**
+   * Adds value to the cache for the `account`
+   * corresponding to `address` at the provided `key`.
+   * @param address - Address to set a storage value for
+   * @param key - Key to set the value at. Must be 32 bytes long.
+   * @param value - Value to set at `key` for account corresponding to `address`.
+   */
+  async putContractStorage(address: Address, key: Buffer, value: Buffer): Promise<void> {
+    let accountStorage = this.storageCache.get(address.toString())
+    if (accountStorage === undefined) {
+      accountStorage = new Map<string, Buffer>()
+      this.storageCache.set(address.toString(), accountStorage)
+    }
+    accountStorage.set(key.toString('hex'), value)
+  }
+
+  /**
+   * Clears all storage entries for the account corresponding to `address`.
+   * @param address - Address to clear the storage of
+   */
+  async clearContractStorage(address: Address): Promise<void> {
+    this.storageCache.set(address.toString(), new Map())
+    await this.modifyAccountFields(address, { storageRoot: KECCAK256_RLP })
+  }
+
+  /**
+   * Dumps the storage values retrieved or written so far for an `account` specified by `address`.
+   * @param address - The address of the `account` to return storage for
+   */
+  async dumpStorage(address: Address): Promise<StorageDump> {
+    const dump: StorageDump = {}
+    for (const [key, value] of this.storageCache.get(address.toString()) ?? []) {
+      dump[key] = bufferToHex(value)
+    }
+    return dump
+  }
+
+  /**
+   * Checks if an `account` exists at `address`
+   * @param address - Address of the `account` to check
+   */
+  async accountExists(address: Address): Promise<boolean> {
+    const account = this._cache.lookup(address)
+    if (
+      account &&
+      ((account as any).virtual === undefined || (account as any).virtual === false) &&
+      !this._cache.keyIsDeleted(address)
+    ) {
+      return true
+    }
+    return (await this.fetchAccount(address)) !== undefined
+  }
+
+  /**
+   * Checkpoints the current state, state changes are only written to the caches
+   */
+  async checkpoint(): Promise<void> {
+    const storageCache = new Map<string, Map<string, Buffer>>()
+    for (const [address, storage] of this.storageCache) {
+      storageCache.set(address, new Map(storage))
+    }
+    this.checkpoints.push([new Map(this.contractCache), storageCache])
+    await super.checkpoint()
+  }
+
+  /**
+   * Commits the state changes since the last checkpoint
+   */
+  async commit(): Promise<void> {
+    this.checkpoints.pop()
+    await super.commit()
+  }
+
+  /**
+   * Reverts the state changes since the last checkpoint
+   */
+  async revert(): Promise<void> {
+    const checkpoint = this.checkpoints.pop()
+    if (checkpoint !== undefined) {
+      ;[this.contractCache, this.storageCache] = checkpoint
+    }
+    await super.revert()
+  }
+
+  /**
+   * Gets the state root of the block the state is requested for
+   */
+  async getStateRoot(): Promise<Buffer> {
+    return this.state().stateRoot
+  }
+
+  /**
+   * Sets the state to request to the one of the recent block with the given state root
+   * and clears the caches
+   * @param stateRoot - state root of a recent block
+   */
+  async setStateRoot(stateRoot: Buffer): Promise<void> {
+    if (this.stateRoot?.equals(stateRoot) === true) return
+    const blockHash = await this.findBlockHash(stateRoot)
+    if (blockHash === undefined) {
+      throw new Error(`State root ${short(stateRoot)} is not the root of a recent block`)
+    }
+    this.stateRoot = stateRoot
+    this.blockHash = blockHash
+    this.clearCache()
+  }
+
+  /**
+   * Checks whether the state of the given root can be requested, which is the case
+   * for the last {@link STATE_HISTORY} blocks
+   * @param root - state root to check
+   */
+  async hasStateRoot(root: Buffer): Promise<boolean> {
+    return (await this.findBlockHash(root)) !== undefined
+  }
+}
@@ -0,0 +1,309 @@
+import { RLP } from '@ethereumjs/rlp'
+import { BranchNode, ExtensionNode, LeafNode, decodeNode } from '@ethereumjs/trie'
+import {
+  Account,
+  KECCAK256_RLP,
+  Lock,
+  arrToBufArr,
+  bigIntToBuffer,
+  bufferToInt,
+  intToBuffer,
+  setLengthLeft,
+} from '@ethereumjs/util'
+
+import { short } from '../util'
+
+import { ENCODING_OPTS, LevelDB } from './level'
+
+import type { Config } from '../config'
+import type { Block } from '@ethereumjs/block'
+import type { BatchDBOp, DB, PutBatch } from '@ethereumjs/trie'
+
+// Number of trie nodes to process per db batch (and lock acquisition) when pruning
+const PRUNE_BATCH_SIZE = 1000
+
+// Key prefixes of the reference counts of the trie nodes and of the block journals
+const REFS_PREFIX = Buffer.from('prune:refs:')
+const JOURNAL_PREFIX = Buffer.from('prune:journal:')
+
+type JournalRLP = [Buffer, Buffer[]]
+
+export interface StatePrunerOptions {
+  /* Config */
+  config: Config
+
+  /* State database holding the trie nodes and the contract code */
+  db: LevelDB
+}
+
+/**
+ * DB for the state trie, counting the references of the trie nodes written
+ */
+class RefCountingDB extends LevelDB {
+  private pruner: StatePruner
+
+  constructor(db: LevelDB, pruner: StatePruner) {
+    super(db._leveldb)
+    this.pruner = pruner
+  }
+
+  async put(key: Buffer, value: Buffer): Promise<void> {
+    await this.batch([{ type: 'put', key, value }])
+  }
+
+  async batch(opStack: BatchDBOp[]): Promise<void> {
+    await this.pruner.write(opStack)
+  }
+
+  copy(): DB {
+    // Copies of the trie (e.g. the storage tries) have to count the references as well
+    return this
+  }
+}
+
+/**
+ * Removes the trie nodes of the states no longer retained from the state database.
+ *
+ * The state trie writes through {@link StatePruner.db}, which keeps a reference count of
+ * every trie node: the number of parent nodes (or account storage roots) pointing to it,
+ * plus the number of executed blocks holding it as their state root. The nodes written
+ * by a block are recorded in a journal, which is released by {@link StatePruner.prune}
+ * once the block leaves the retention window. Nodes left without references are then
+ * deleted, releasing their children in turn.
+ *
+ * Nodes not written through {@link StatePruner.db} (e.g. by snap sync, or before pruning
+ * was enabled) are not counted and never removed, as is contract code.
+ */
+export class StatePruner {
+  /** DB to be used by the state trie */
+  public readonly db: LevelDB
+
+  private config: Config
+  private stateDB: LevelDB
+  private lock = new Lock()
+
+  /** Counted nodes written since the last journaled block, not to be removed until journaled */
+  private pending = new Map<string, Buffer>()
+
+  constructor(options: StatePrunerOptions) {
+    this.config = options.config
+    this.stateDB = options.db
+    this.db = new RefCountingDB(options.db, this)
+  }
+
+  /**
+   * Writes the db operations of the state trie, counting the references of the nodes
+   * written for the first time
+   * @param opStack db operations
+   * @hidden
+   */
+  async write(opStack: BatchDBOp[]): Promise<void> {
+    await this.lock.acquire()
+    try {
+      const refs = new Map<string, number>()
+      const created = new Map<string, Buffer>()
+      for (const op of opStack) {
+        // Trie nodes are stored by their 32 bytes hash, contract code keys are prefixed
+        if (op.type !== 'put' || op.key.length !== 32) continue
+        const hash = op.key.toString('hex')
+        if (created.has(hash)) continue
+        const count = await this.getRefs(op.key)
+        if (count === 0) {
+          // Not (or no longer) referenced, to be checked again once journaled
+          this.pending.set(hash, op.key)
+        } else if (count === undefined && (await this.stateDB.get(op.key)) === null) {
+          created.set(hash, op.value)
+          refs.set(hash, 0)
+          this.pending.set(hash, op.key)
+        }
+      }
+      for (const value of created.values()) {
+        for (const child of this.children(value)) {
+          const hash = child.toString('hex')
+          const count = refs.get(hash) ?? (await this.getRefs(child))
+          // Nodes not counted (e.g. written by snap sync) are never removed
+          if (count !== undefined) refs.set(hash, count + 1)
+        }
+      }
+      const ops: BatchDBOp[] = [...opStack]
+      for (const [hash, count] of refs) {
+        ops.push(this.putRefsOp(Buffer.from(hash, 'hex'), count))
+      }
+      await this.stateDB.batch(ops)
+    } finally {
+      this.lock.release()
+    }
+  }
+
+  /**
+   * Records the nodes written since the last journaled block in the journal of the block
+   * and holds the state root of the block until the journal is released
+   * @param block executed block
+   */
+  async journal(block: Block): Promise<void> {
+    const { number, stateRoot } = block.header
+    const key = this.journalKey(number, block.hash())
+    await this.lock.acquire()
+    try {
+      const ops: BatchDBOp[] = []
+      let nodes = [...this.pending.values()]
+      const existing = await this.stateDB.get(key)
+      if (existing !== null) {
+        // Re-executed block, the state root is already held
+        nodes = [...this.decodeJournal(existing)[1], ...nodes]
+      } else {
+        const count = await this.getRefs(stateRoot)
+        if (count !== undefined) ops.push(this.putRefsOp(stateRoot, count + 1))
+      }
+      ops.push({
+        type: 'put',
+        key,
+        value: Buffer.from(RLP.encode([stateRoot, nodes])),
+      })
+      await this.stateDB.batch(ops)
+      this.pending.clear()
+    } finally {
+      this.lock.release()
+    }
+  }
+
+  /**
+   * Releases the journals of the blocks below the given number and removes the trie
+   * nodes no longer referenced, a batch of nodes at a time
+   * @param oldest number of the oldest block to retain
+   * @param retain state root of a block to retain beyond the window (e.g. the finalized block)
+   * @returns number of trie nodes removed
+   */
+  async prune(oldest: bigint, retain?: Buffer): Promise<number> {
+    const journals: [Buffer, Buffer, Buffer[]][] = []
+    for await (const [key, value] of this.stateDB._leveldb.iterator({
+      gte: JOURNAL_PREFIX,
+      lt: this.journalKey(oldest),
+      ...ENCODING_OPTS,
+    })) {
+      const [root, nodes] = this.decodeJournal(value as Buffer)
+      if (retain?.equals(root) !== true) journals.push([key as Buffer, root, nodes])
+    }
+
+    let removed = 0
+    for (const [key, root, nodes] of journals) {
+      await this.lock.acquire()
+      try {
+        // Released by a concurrent pruning
+        if ((await this.stateDB.get(key)) === null) continue
+        const ops: BatchDBOp[] = [{ type: 'del', key }]
+        const count = await this.getRefs(root)
+        if (count !== undefined && count > 0) ops.push(this.putRefsOp(root, count - 1))
+        await this.stateDB.batch(ops)
+      } finally {
+        this.lock.release()
+      }
+      removed += await this.release([root, ...nodes])
+    }
+    return removed
+  }
+
+  /**
+   * Removes the given nodes if no longer referenced, and the children left without
+   * references by the removal
+   * @returns number of trie nodes removed
+   */
+  private async release(hashes: Buffer[]): Promise<number> {
+    const queue = [...hashes]
+    let removed = 0
+    while (queue.length > 0) {
+      await this.lock.acquire()
+      try {
+        // Reference counts changed in this batch, not yet written
+        const refs = new Map<string, number>()
+        const deleted = new Set<string>()
+        const ops: BatchDBOp[] = []
+        for (let i = 0; i < PRUNE_BATCH_SIZE && queue.length > 0; i++) {
+          const node = queue.pop()!
+          const hash = node.toString('hex')
+          if (deleted.has(hash)) continue
+          const count = refs.get(hash) ?? (await this.getRefs(node))
+          // Nodes written again since being queued are removed with their journal
+          if (count !== 0 || this.pending.has(hash)) continue
+          const value = await this.stateDB.get(node)
+          refs.delete(hash)
+          deleted.add(hash)
+          ops.push({ type: 'del', key: node }, { type: 'del', key: this.refsKey(node) })
+          removed++
+          if (value === null) continue
+          for (const child of this.children(value)) {
+            const childHash = child.toString('hex')
+            const childCount = refs.get(childHash) ?? (await this.getRefs(child))
+            if (childCount === undefined || childCount === 0) continue
+            refs.set(childHash, childCount - 1)
+            if (childCount === 1) queue.push(child)
+          }
+        }
+        for (const [hash, count] of refs) {
+          ops.push(this.putRefsOp(Buffer.from(hash, 'hex'), count))
+        }
+        await this.stateDB.batch(ops)
+      } finally {
+        this.lock.release()
+      }
+    }
+    return removed
+  }
+
+  /**
+   * Returns the hashes of the nodes referenced by a trie node, including the storage root
+   * if the node is an account leaf (embedded nodes can't reference hashed nodes)
+   */
+  private children(value: Buffer): Buffer[] {
+    let node
+    try {
+      node = decodeNode(value)
+    } catch (error: any) {
+      this.config.logger.debug(`State pruning skipped invalid trie node value=${short(value)}`)
+      return []
+    }
+    if (node instanceof BranchNode) {
+      return node
+        .getChildren()
+        .map(([, child]) => child)
+        .filter((child): child is Buffer => Buffer.isBuffer(child))
+    } else if (node instanceof ExtensionNode) {
+      const child = node.value()
+      return Buffer.isBuffer(child) ? [child] : []
+    } else if (node instanceof LeafNode) {
+      let storageRoot
+      try {
+        // Storage trie leaves hold RLP encoded values, which don't decode as accounts
+        storageRoot = Account.fromRlpSerializedAccount(node.value()).storageRoot
+      } catch {
+        return []
+      }
+      return storageRoot.equals(KECCAK256_RLP) ? [] : [storageRoot]
+    }
+    return []
+  }
+
+  /**
+   * Returns the reference count of a node, `undefined` for nodes not counted
+   */
+  private async getRefs(hash: Buffer): Promise<number | undefined> {
+    const value = await this.stateDB.get(this.refsKey(hash))
+    return value === null ? undefined : bufferToInt(value)
+  }
+
+  private putRefsOp(hash: Buffer, count: number): PutBatch {
+    return { type: 'put', key: this.refsKey(hash), value: intToBuffer(count) }
+  }
+
+  private refsKey(hash: Buffer) {
+    return Buffer.concat([REFS_PREFIX, hash])
+  }
+
+  private journalKey(number: bigint, hash = Buffer.alloc(0)) {
+    return Buffer.concat([JOURNAL_PREFIX, setLengthLeft(bigIntToBuffer(number), 8), hash])
+  }
+
+  private decodeJournal(value: Buffer): JournalRLP {
+    return arrToBufArr(RLP.decode(Uint8Array.from(value))) as JournalRLP
+  }
+}
@@ -178,46 +178,7 @@ export class ReceiptsManager extends MetaDBManager {
       const block = await this.chain.getBlock(i)
       const receipts = await this.getReceipts(block.hash())
       if (receipts.length === 0) continue
-      let logs: GetLogsReturn = []
-      let logIndex = 0
-      for (const [receiptIndex, receipt] of receipts.entries()) {
-        logs.push(
-          ...receipt.logs.map((log) => ({
-            log,
-            block,
-            tx: block.transactions[receiptIndex],
-            txIndex: receiptIndex,
-            logIndex: logIndex++,
-          }))
-        )
-      }
-      if (addresses && addresses.length > 0) {
-        logs = logs.filter((l) => addresses.some((a) => a.equals(l.log[0])))
-      }
-      if (topics.length > 0) {
-        // From https://ethereum.org/en/developers/docs/apis/json-rpc/#eth_newfilter/:
-        // Topics are order-dependent. A transaction with a log with topics
-        // [A, B] will be matched by the following topic filters:
-        //  * [] - anything
-        //  * [A] - A in first position (and anything after)
-        //  * [null, B] - anything in first position AND B in second position (and anything after)
-        //  * [A, B] - A in first position AND B in second position (and anything after)
-        //  * [[A, B], [A, B]] - (A OR B) in first position AND (A OR B) in second position (and anything after)
-        logs = logs.filter((l) => {
-          for (const [i, topic] of topics.entries()) {
-            if (Array.isArray(topic)) {
-              // Can match any items in this array
-              if (!topic.find((t) => t.equals(l.log[1][i]))) return false
-            } else if (!topic) {
-              // If null then can match any
-            } else {
-              // If a value is specified then it must match
-              if (!topic.equals(l.log[1][i])) return false
-            }
-            return true
-          }
-        })
-      }
+      const logs = this.filterLogs(block, receipts, addresses, topics)
       returnedLogs.push(...logs)
       returnedLogsSize += Buffer.byteLength(JSON.stringify(logs))
       if (
@@ -230,6 +191,62 @@ export class ReceiptsManager extends MetaDBManager {
     return returnedLogs
   }
 
+  /**
+   * Returns the logs of a block matching the given addresses and topics
+   * @param block the block the receipts belong to
+   * @param receipts the receipts of the block
+   * @param addresses addresses to filter the logs by (any of)
+   * @param topics order-dependent topics to filter the logs by
+   */
+  filterLogs(
+    block: Block,
+    receipts: TxReceipt[],
+    addresses?: Buffer[],
+    topics: (Buffer | Buffer[] | null)[] = []
+  ): GetLogsReturn {
+    let logs: GetLogsReturn = []
+    let logIndex = 0
+    for (const [receiptIndex, receipt] of receipts.entries()) {
+      logs.push(
+        ...receipt.logs.map((log) => ({
+          log,
+          block,
+          tx: block.transactions[receiptIndex],
+          txIndex: receiptIndex,
+          logIndex: logIndex++,
+        }))
+      )
+    }
+    if (addresses && addresses.length > 0) {
+      logs = logs.filter((l) => addresses.some((a) => a.equals(l.log[0])))
+    }
+    if (topics.length > 0) {
+      // From https://ethereum.org/en/developers/docs/apis/json-rpc/#eth_newfilter/:
+      // Topics are order-dependent. A transaction with a log with topics
+      // [A, B] will be matched by the following topic filters:
+      //  * [] - anything
+      //  * [A] - A in first position (and anything after)
+      //  * [null, B] - anything in first position AND B in second position (and anything after)
+      //  * [A, B] - A in first position AND B in second position (and anything after)
+      //  * [[A, B], [A, B]] - (A OR B) in first position AND (A OR B) in second position (and anything after)
+      logs = logs.filter((l) => {
+        for (const [i, topic] of topics.entries()) {
+          if (Array.isArray(topic)) {
+            // Can match any items in this array
+            if (!topic.find((t) => t.equals(l.log[1][i]))) return false
+          } else if (!topic) {
+            // If null then can match any
+          } else {
+            // If a value is specified then it must match
+            if (!topic.equals(l.log[1][i])) return false
+          }
+          return true
+        }
+      })
+    }
+    return logs
+  }
+
   /**
    * Saves or deletes an index from the metaDB
    * @param operation the {@link IndexOperation}
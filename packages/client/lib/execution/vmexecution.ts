@@ -1,3 +1,4 @@
+import { Block } from '@ethereumjs/block'
 import {
   DBSaveLookups,
   DBSetBlockOrHeader,
@@ -9,6 +10,7 @@ import { DefaultStateManager } from '@ethereumjs/statemanager'
 import { Trie } from '@ethereumjs/trie'
 import { Lock, bufferToHex } from '@ethereumjs/util'
 import { VM } from '@ethereumjs/vm'
+import { performance } from 'perf_hooks'
 
 import { Event } from '../types'
 import { short } from '../util'
@@ -16,10 +18,11 @@ import { debugCodeReplayBlock } from '../util/debug'
 
 import { Execution } from './execution'
 import { LevelDB } from './level'
+import { StatePruner } from './pruner'
 import { ReceiptsManager } from './receipt'
 
 import type { ExecutionOptions } from './execution'
-import type { Block } from '@ethereumjs/block'
+import type { BlockHeader } from '@ethereumjs/block'
 import type { RunBlockOpts, TxReceipt } from '@ethereumjs/vm'
 
 export class VMExecution extends Execution {
@@ -31,6 +34,10 @@ export class VMExecution extends Execution {
   private pendingReceipts?: Map<string, TxReceipt[]>
   private vmPromise?: Promise<number>
 
+  private pruner?: StatePruner
+  private finalizedRoot?: Buffer
+  private prunePromise?: Promise<void>
+
   /** Number of maximum blocks to run per iteration of {@link VMExecution.run} */
   private NUM_BLOCKS_PER_ITERATION = 50
 
@@ -41,8 +48,12 @@ export class VMExecution extends Execution {
     super(options)
 
     if (this.config.vm === undefined) {
+      const db = new LevelDB(this.stateDB)
+      if (this.config.stateRetention !== undefined) {
+        this.pruner = new StatePruner({ config: this.config, db })
+      }
       const trie = new Trie({
-        db: new LevelDB(this.stateDB),
+        db: this.pruner?.db ?? db,
         useKeyHashing: true,
       })
 
@@ -70,6 +81,81 @@ export class VMExecution extends Execution {
     }
   }
 
+  /**
+   * Saves the receipts of an executed block to the meta db
+   * and announces them once written
+   */
+  private saveReceipts(block: Block, receipts: TxReceipt[]) {
+    if (!this.receiptsManager) return
+    void this.receiptsManager
+      .saveReceipts(block, receipts)
+      .then(() => this.config.events.emit(Event.SYNC_EXECUTION_RECEIPTS_SAVED, block, receipts))
+  }
+
+  /**
+   * Journals the state written by an executed block to retain it on pruning
+   * until the block leaves the retention window
+   */
+  private async trackExecuted(block: Block) {
+    await this.pruner?.journal(block)
+  }
+
+  /**
+   * Records the execution time and gas throughput of a block in the metrics
+   * @param block the executed block
+   * @param start time the execution started at (from `performance.now()`)
+   */
+  private recordExecution(block: Block, start: number) {
+    const { metrics } = this.config
+    if (!metrics) return
+    const seconds = (performance.now() - start) / 1000
+    metrics.blockExecutionTime.observe(seconds)
+    if (seconds > 0) {
+      metrics.executionMgasPerSecond.set(Number(block.header.gasUsed) / 1e6 / seconds)
+    }
+  }
+
+  /**
+   * Sets the finalized block, the state of which is retained on pruning
+   */
+  setFinalized(block: Block) {
+    this.finalizedRoot = block.header.stateRoot
+  }
+
+  /**
+   * Starts pruning the state of the blocks beyond the retention window in the background,
+   * unless a snap sync (writing to the same state database) is running
+   * @param head the executed head
+   */
+  private schedulePrune(head: Block) {
+    if (!this.pruner || this.prunePromise || this.config.snapSyncing) return
+    this.prunePromise = this.prune(head)
+      .catch((error: any) => {
+        this.config.logger.error(`State pruning failed: ${error}`)
+      })
+      .finally(() => (this.prunePromise = undefined))
+  }
+
+  /**
+   * Removes the state of the blocks beyond the retention window, keeping the state of
+   * the last `stateRetention` executed blocks and of the finalized block.
+   *
+   * Pruning doesn't acquire the execution lock, the removal of the nodes no longer
+   * referenced is synchronized with the writes of the execution by the {@link StatePruner}.
+   * @param head the executed head
+   */
+  async prune(head: Block): Promise<void> {
+    if (!this.pruner || this.config.stateRetention === undefined) return
+    const oldest = head.header.number - BigInt(this.config.stateRetention) + BigInt(1)
+    if (oldest <= BigInt(0)) return
+    const removed = await this.pruner.prune(oldest, this.finalizedRoot)
+    if (removed > 0) {
+      this.config.logger.debug(
+        `Pruned state nodes count=${removed} retained=${this.config.stateRetention} blocks head=${head.header.number}`
+      )
+    }
+  }
+
   /**
    * Run a function after acquiring a lock. It is implied that we have already
    * initialized the module (or we are calling this from the init function, like
@@ -110,6 +196,7 @@ export class VMExecution extends Execution {
           throw new Error('cannot get iterator head: blockchain has no genesisState function')
         }
         await this.vm.eei.generateCanonicalGenesis(this.vm.blockchain.genesisState())
+        await this.trackExecuted(headBlock)
       }
       // TODO: Should a run be started to execute any left over blocks?
       // void this.run()
@@ -128,9 +215,12 @@ export class VMExecution extends Execution {
     return this.runWithLock<void>(async () => {
       const { block } = opts
       if (receipts === undefined) {
+        const start = performance.now()
         const result = await this.vm.runBlock(opts)
+        this.recordExecution(block, start)
         receipts = result.receipts
       }
+      await this.trackExecuted(block)
       if (receipts !== undefined) {
         // Save receipts
         this.pendingReceipts?.set(block.hash().toString('hex'), receipts)
@@ -171,11 +261,46 @@ export class VMExecution extends Execution {
       for (const block of blocks) {
         const receipts = this.pendingReceipts?.get(block.hash().toString('hex'))
         if (receipts) {
-          void this.receiptsManager?.saveReceipts(block, receipts)
+          this.saveReceipts(block, receipts)
           this.pendingReceipts?.delete(block.hash().toString('hex'))
         }
       }
       await this.chain.blockchain.setIteratorHead('vm', vmHeadBlock.hash())
+      this.schedulePrune(vmHeadBlock)
+    })
+  }
+
+  /**
+   * Continues the execution from the state of a block synced without executing the
+   * blocks before (the pivot of a snap sync). The header of the block is stored without
+   * its ancestors and body, and set as the head of the execution.
+   * @param header header of the synced block
+   * @param td total difficulty of the synced block
+   */
+  async setSyncedHead(header: BlockHeader, td: bigint): Promise<void> {
+    return this.runWithLock<void>(async () => {
+      const { number, parentHash, stateRoot } = header
+      if (!(await this.vm.stateManager.hasStateRoot(stateRoot))) {
+        throw Error(`Synced stateRoot not found number=${number} root=${short(stateRoot)}`)
+      }
+      const block = new Block(header, undefined, undefined, { common: header._common })
+      const hash = block.hash()
+      await this.chain.blockchain.dbManager.batch([
+        // The lookups and total difficulty of the parent are read along with the block
+        DBSetTD(td - header.difficulty, number - BigInt(1), parentHash),
+        ...DBSaveLookups(parentHash, number - BigInt(1)),
+        DBSetTD(td, number, hash),
+        ...DBSetBlockOrHeader(block),
+        DBSetHashToNumber(hash, number),
+        ...DBSaveLookups(hash, number),
+      ])
+      await this.chain.blockchain.setIteratorHead('vm', hash)
+      await this.vm.stateManager.setStateRoot(stateRoot)
+      this.config.execCommon.setHardforkByBlockNumber(number, td)
+      this.hardfork = this.config.execCommon.hardfork()
+      this.config.logger.info(
+        `Execution continuing from synced state number=${number} root=${short(stateRoot)}`
+      )
     })
   }
 
@@ -259,13 +384,16 @@ export class VMExecution extends Execution {
             await this.runWithLock<void>(async () => {
               // we are skipping header validation because the block has been picked from the
               // blockchain and header should have already been validated while putBlock
+              const start = performance.now()
               const result = await this.vm.runBlock({
                 block,
                 root: parentState,
                 skipBlockValidation,
                 skipHeaderValidation: true,
               })
-              void this.receiptsManager?.saveReceipts(block, result.receipts)
+              this.recordExecution(block, start)
+              this.saveReceipts(block, result.receipts)
+              await this.trackExecuted(block)
             })
             txCounter += block.transactions.length
             // set as new head block
@@ -363,6 +491,7 @@ export class VMExecution extends Execution {
         )
       }
       startHeadBlock = endHeadBlock
+      this.schedulePrune(endHeadBlock)
       if (typeof this.vm.blockchain.getCanonicalHeadBlock !== 'function') {
         throw new Error(
           'cannot get iterator head: blockchain has no getCanonicalHeadBlock function'
@@ -378,6 +507,8 @@ export class VMExecution extends Execution {
    * Stop VM execution. Returns a promise that resolves once its stopped.
    */
   async stop(): Promise<boolean> {
+    // Wait for pruning to finish before closing the state db
+    await this.prunePromise
     await this.runWithLock<void>(async () => {
       if (this.vmPromise) {
         // ensure that we wait that the VM finishes executing the block (and flushing the trie cache)
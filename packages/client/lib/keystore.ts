@@ -0,0 +1,142 @@
+import { Address, isValidPrivate } from '@ethereumjs/util'
+import { getRandomBytesSync } from 'ethereum-cryptography/random'
+import { existsSync, mkdirSync, readFileSync, readdirSync, writeFileSync } from 'fs'
+import * as path from 'path'
+
+import { decryptKey, encryptKey } from './util/keystore'
+
+import type { Config } from './config'
+import type { KeystoreV3 } from './util/keystore'
+
+type UnprefixedAddress = string
+
+/* global NodeJS */
+type UnlockedKey = {
+  privateKey: Buffer
+  timeout?: NodeJS.Timeout
+}
+
+/**
+ * Accounts stored as encrypted key files (Web3 Secret Storage v3) in the
+ * `keystore` directory of the datadir (see `--keystore`).
+ *
+ * Keys have to be unlocked with their password before they can be used for signing.
+ */
+export class Keystore {
+  private config: Config
+  public readonly dir: string
+
+  /**
+   * scrypt cost parameter used to encrypt new keys
+   */
+  public SCRYPT_N = 1 << 18
+
+  /**
+   * Number of seconds a key stays unlocked if no duration is given
+   */
+  public DEFAULT_UNLOCK_DURATION = 300
+
+  private unlocked: Map<UnprefixedAddress, UnlockedKey> = new Map()
+
+  constructor(config: Config) {
+    this.config = config
+    this.dir = path.join(config.datadir, 'keystore')
+  }
+
+  /**
+   * Returns the encrypted keys in the keystore directory, skipping files not
+   * in the Web3 Secret Storage format
+   */
+  private keys(): KeystoreV3[] {
+    if (!existsSync(this.dir)) return []
+    const keys = []
+    for (const name of readdirSync(this.dir).sort()) {
+      const file = path.join(this.dir, name)
+      try {
+        const key = JSON.parse(readFileSync(file, 'utf8'))
+        if (key.version === 3 && typeof key.address === 'string') {
+          keys.push(key)
+        }
+      } catch (e: any) {
+        this.config.logger.debug(`Skipping invalid key file ${file}: ${e.message}`)
+      }
+    }
+    return keys
+  }
+
+  /**
+   * Returns the addresses of the accounts in the keystore
+   */
+  accounts(): Address[] {
+    return this.keys().map((key) => Address.fromString('0x' + key.address.toLowerCase()))
+  }
+
+  /**
+   * Creates a new account with a random private key, stored encrypted with the password
+   * @param password the password to encrypt the key with
+   * @returns the address of the new account
+   */
+  async newAccount(password: string): Promise<Address> {
+    let privateKey: Buffer
+    do {
+      privateKey = Buffer.from(getRandomBytesSync(32))
+    } while (!isValidPrivate(privateKey))
+    const key = await encryptKey(privateKey, password, this.SCRYPT_N)
+    // Same file naming as geth, allowing to move key files between the clients
+    const timestamp = new Date().toISOString().replace(/:/g, '-')
+    mkdirSync(this.dir, { recursive: true })
+    writeFileSync(path.join(this.dir, `UTC--${timestamp}--${key.address}`), JSON.stringify(key), {
+      mode: 0o600,
+    })
+    this.config.logger.info(`Created new account address=0x${key.address}`)
+    return new Address(Buffer.from(key.address, 'hex'))
+  }
+
+  /**
+   * Decrypts the key of an account and keeps it for signing
+   * @param address the address of the account
+   * @param password the password of the key
+   * @param duration number of seconds to keep the key unlocked, 0 to keep it unlocked
+   * until the client is stopped (default: {@link Keystore.DEFAULT_UNLOCK_DURATION})
+   */
+  async unlock(address: Address, password: string, duration = this.DEFAULT_UNLOCK_DURATION) {
+    const unprefixed = address.toString().slice(2)
+    const key = this.keys().find((key) => key.address.toLowerCase() === unprefixed)
+    if (key === undefined) {
+      throw new Error(`no key for given address or file`)
+    }
+    const privateKey = await decryptKey(key, password)
+    this.lock(address)
+    const unlocked: UnlockedKey = { privateKey }
+    if (duration > 0) {
+      unlocked.timeout = setTimeout(() => this.lock(address), duration * 1000)
+      // Do not keep the process alive for locking a key
+      unlocked.timeout.unref()
+    }
+    this.unlocked.set(unprefixed, unlocked)
+  }
+
+  /**
+   * Removes the decrypted key of an account
+   * @param address the address of the account
+   */
+  lock(address: Address) {
+    const unprefixed = address.toString().slice(2)
+    const unlocked = this.unlocked.get(unprefixed)
+    if (unlocked === undefined) return
+    clearTimeout(unlocked.timeout as NodeJS.Timeout)
+    this.unlocked.delete(unprefixed)
+  }
+
+  /**
+   * Returns the private key of an unlocked account
+   * @param address the address of the account
+   */
+  privateKey(address: Address): Buffer {
+    const unlocked = this.unlocked.get(address.toString().slice(2))
+    if (unlocked === undefined) {
+      throw new Error(`authentication needed: password or unlock`)
+    }
+    return unlocked.privateKey
+  }
+}
@@ -0,0 +1,60 @@
+import { Event } from './types'
+import { MetricsRegistry } from './util/metrics'
+
+import type { Config } from './config'
+
+/**
+ * Metrics of the client exported to Prometheus (see `--prometheus`).
+ *
+ * Peer metrics are fed by the events of the {@link Config.events} bus, the others
+ * are recorded by the components (synchronizer, fetchers, execution, txpool and
+ * RPC server) through {@link Config.metrics}.
+ */
+export class Metrics extends MetricsRegistry {
+  public readonly chainHeight = this.gauge(
+    'ethereumjs_chain_height',
+    'Number of the latest header, latest block, safe block and finalized block'
+  )
+  public readonly blockExecutionTime = this.histogram(
+    'ethereumjs_execution_block_seconds',
+    'Time taken to execute a block'
+  )
+  public readonly executionMgasPerSecond = this.gauge(
+    'ethereumjs_execution_mgas_per_second',
+    'Million gas executed per second on the last block'
+  )
+  public readonly fetcherQueue = this.gauge(
+    'ethereumjs_fetcher_queue_length',
+    'Number of jobs waiting to be requested by a fetcher'
+  )
+  public readonly peerResponseTime = this.histogram(
+    'ethereumjs_peer_response_seconds',
+    'Time taken by a peer to respond to a fetcher request'
+  )
+  public readonly peers = this.gauge('ethereumjs_peers', 'Number of peers in the pool')
+  public readonly peerBans = this.counter('ethereumjs_peer_bans_total', 'Number of peers banned')
+  public readonly txpoolTransactions = this.gauge(
+    'ethereumjs_txpool_transactions',
+    'Number of pending (executable) and queued (nonce gapped) txs in the pool'
+  )
+  public readonly txpoolEvictions = this.counter(
+    'ethereumjs_txpool_evictions_total',
+    'Number of txs removed from the pool without being included in a block'
+  )
+  public readonly rpcRequestTime = this.histogram(
+    'ethereumjs_rpc_request_seconds',
+    'Time taken to respond to an RPC request'
+  )
+
+  constructor(config: Config) {
+    super()
+    this.peers.set(0)
+    this.peerBans.inc(0)
+    config.events.on(Event.POOL_PEER_ADDED, () => this.peers.inc())
+    config.events.on(Event.POOL_PEER_REMOVED, (peer) => {
+      this.peers.dec()
+      this.peerResponseTime.remove({ peer: peer.id })
+    })
+    config.events.on(Event.POOL_PEER_BANNED, () => this.peerBans.inc())
+  }
+}
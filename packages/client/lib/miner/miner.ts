@@ -12,6 +12,8 @@ import type { FullSynchronizer } from '../sync'
 import type { CliqueConsensus } from '@ethereumjs/blockchain'
 import type { CliqueConfig } from '@ethereumjs/common'
 import type { Miner as EthashMiner, Solution } from '@ethereumjs/ethash'
+import type { StateManager } from '@ethereumjs/statemanager'
+import type { Address } from '@ethereumjs/util'
 
 export interface MinerOptions {
   /* Config */
@@ -33,6 +35,8 @@ export class Miner {
   private DEFAULT_PERIOD = 10
   private _nextAssemblyTimeoutId: NodeJS.Timeout | undefined /* global NodeJS */
   private _boundChainUpdatedHandler: (() => void) | undefined
+  private _boundTxAddedHandler: (() => void) | undefined
+  private _mining: Promise<void> = Promise.resolve()
   private config: Config
   private service: FullEthereumService
   private execution: VMExecution
@@ -43,6 +47,28 @@ export class Miner {
   private nextSolution: Solution | undefined
   public running: boolean
 
+  /**
+   * Seconds added to the current time for the timestamps of new blocks (see `evm_increaseTime`)
+   */
+  public timeOffset = 0
+
+  /**
+   * Timestamp of the next block (see `evm_setNextBlockTimestamp`)
+   */
+  public nextTimestamp: bigint | undefined
+
+  /**
+   * Accounts which can send txs without their private key (see `anvil_impersonateAccount`),
+   * as 0x-prefixed lowercase addresses
+   */
+  public impersonatedAccounts: Set<string> = new Set()
+
+  /**
+   * Impersonated accounts the txs have been sent from, by 0x-prefixed tx hash. The txs are
+   * signed with throwaway keys, the senders are only known here and not persisted.
+   */
+  public impersonatedTxs: Map<string, Address> = new Map()
+
   /**
    * Create miner
    * @param options constructor parameters
@@ -144,6 +170,61 @@ export class Miner {
     await this.queueNextAssembly(timeout)
   }
 
+  /**
+   * Queues mining a block after the blocks already queued
+   * @param mine assembles the block
+   */
+  private queueMining(mine: () => Promise<void>): Promise<void> {
+    const mined = this._mining.then(async () => {
+      if (this.ethash !== undefined && this.nextSolution === undefined) {
+        await this.findNextSolution()
+      }
+      await mine()
+    })
+    this._mining = mined.catch(() => {})
+    return mined
+  }
+
+  /**
+   * Mines a block right away, after the blocks already queued (see `evm_mine`)
+   * @param modifyState changes the parent state the block is built on (see `anvil_set*`)
+   */
+  async mineBlock(modifyState?: (stateManager: StateManager) => Promise<void>) {
+    await this.queueMining(() => this.assembleBlock(modifyState))
+  }
+
+  /**
+   * Mines a block with a tx added to the tx pool (see `--automine`),
+   * unless it was already included in a queued block
+   */
+  private async txAdded() {
+    try {
+      await this.queueMining(async () => {
+        if (this.service.txPool.status().pending > 0) {
+          await this.assembleBlock()
+        }
+      })
+    } catch (error: any) {
+      this.config.logger.error(`Miner: Error mining block with new tx: ${error.message}`)
+    }
+  }
+
+  /**
+   * Returns the timestamp for a block: the current time moved by {@link Miner.timeOffset}
+   * or {@link Miner.nextTimestamp} if set, but at least the earliest valid timestamp after the parent
+   * @param parent header of the parent block
+   */
+  private nextBlockTimestamp(parent: BlockHeader): bigint {
+    let minInterval = BigInt(1)
+    if (this.config.chainCommon.consensusType() === ConsensusType.ProofOfAuthority) {
+      const period = BigInt(this.period / 1000)
+      if (period > minInterval) minInterval = period
+    }
+    const timestamp = this.nextTimestamp ?? BigInt(Math.round(Date.now() / 1000) + this.timeOffset)
+    const minTimestamp = parent.timestamp + minInterval
+    return timestamp > minTimestamp ? timestamp : minTimestamp
+  }
+
   /**
    * Start miner
    */
@@ -152,6 +233,12 @@ export class Miner {
       return false
     }
     this.running = true
+    if (this.config.automine) {
+      this._boundTxAddedHandler = this.txAdded.bind(this)
+      this.config.events.on(Event.TXPOOL_TX_ADDED, this._boundTxAddedHandler)
+      this.config.logger.info('Miner started. Mining a block for every new tx')
+      return true
+    }
     this._boundChainUpdatedHandler = this.chainUpdated.bind(this)
     this.config.events.on(Event.CHAIN_UPDATED, this._boundChainUpdatedHandler)
     this.config.logger.info(`Miner started. Assembling next block in ${this.period / 1000}s`)
@@ -162,8 +249,9 @@ export class Miner {
   /**
    * Assembles a block from txs in the TxPool and adds it to the chain.
    * If a new block is received while assembling it will abort.
+   * @param modifyState changes the parent state the block is built on (dev mode only)
    */
-  async assembleBlock() {
+  async assembleBlock(modifyState?: (stateManager: StateManager) => Promise<void>) {
     if (this.assembling) {
       return
     }
@@ -217,6 +305,11 @@ export class Miner {
     // Set the state root to ensure the resulting state
     // is based on the parent block's state
     await vmCopy.eei.setStateRoot(parentBlock.header.stateRoot)
+    if (modifyState !== undefined) {
+      await vmCopy.stateManager.checkpoint()
+      await modifyState(vmCopy.stateManager)
+      await vmCopy.stateManager.commit()
+    }
 
     let difficulty
     let cliqueSigner
@@ -258,6 +351,7 @@ export class Miner {
       parentBlock,
       headerData: {
         number,
+        timestamp: this.nextBlockTimestamp(parentBlock.header),
         difficulty,
         gasLimit,
         baseFeePerGas,
@@ -313,12 +407,26 @@ export class Miner {
           : `(${inTurn === true ? 'in turn' : 'not in turn'})`
       }`
     )
+    if (this.nextTimestamp !== undefined) {
+      // Continue from the set timestamp with the following blocks
+      this.timeOffset = Number(block.header.timestamp) - Math.round(Date.now() / 1000)
+      this.nextTimestamp = undefined
+    }
     this.assembling = false
     if (interrupt) return
-    // Put block in blockchain
-    await (this.service.synchronizer as FullSynchronizer).handleNewBlock(block)
+    if (this.config.dev) {
+      // Store the block as executed, since the receipts are known and the parent
+      // state might have been modified outside of txs
+      await this.execution.runWithoutSetHead({ block }, blockBuilder.transactionReceipts)
+      await this.execution.setHead([block])
+      // Move the execution state along as if having run the block
+      await this.execution.vm.stateManager.setStateRoot(block.header.stateRoot)
+    } else {
+      // Put block in blockchain
+      await (this.service.synchronizer as FullSynchronizer).handleNewBlock(block)
+    }
     // Remove included txs from TxPool
-    this.service.txPool.removeNewBlockTxs([block])
+    await this.service.txPool.removeNewBlockTxs([block])
     this.config.events.removeListener(Event.CHAIN_UPDATED, _boundSetInterruptHandler)
   }
 
@@ -329,7 +437,12 @@ export class Miner {
     if (!this.running) {
       return false
     }
-    this.config.events.removeListener(Event.CHAIN_UPDATED, this._boundChainUpdatedHandler!)
+    if (this._boundTxAddedHandler !== undefined) {
+      this.config.events.removeListener(Event.TXPOOL_TX_ADDED, this._boundTxAddedHandler)
+    }
+    if (this._boundChainUpdatedHandler !== undefined) {
+      this.config.events.removeListener(Event.CHAIN_UPDATED, this._boundChainUpdatedHandler)
+    }
     if (this._nextAssemblyTimeoutId) {
       clearTimeout(this._nextAssemblyTimeoutId)
     }
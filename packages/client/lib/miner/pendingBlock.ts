@@ -2,7 +2,7 @@ import { randomBytes } from 'crypto'
 
 import type { Config } from '../config'
 import type { TxPool } from '../service/txpool'
-import type { Block, HeaderData } from '@ethereumjs/block'
+import type { Block, HeaderData, Withdrawal } from '@ethereumjs/block'
 import type { TypedTransaction } from '@ethereumjs/tx'
 import type { TxReceipt, VM } from '@ethereumjs/vm'
 import type { BlockBuilder } from '@ethereumjs/vm/dist/buildBlock'
@@ -34,9 +34,15 @@ export class PendingBlock {
 
   /**
    * Starts building a pending block with the given payload
+   * and the withdrawals to include (if withdrawals are activated)
    * @returns an 8-byte payload identifier to call {@link BlockBuilder.build} with
    */
-  async start(vm: VM, parentBlock: Block, headerData: Partial<HeaderData> = {}) {
+  async start(
+    vm: VM,
+    parentBlock: Block,
+    headerData: Partial<HeaderData> = {},
+    withdrawals?: Withdrawal[]
+  ) {
     const number = parentBlock.header.number + BigInt(1)
     const { gasLimit } = parentBlock.header
     const baseFeePerGas =
@@ -63,6 +69,7 @@ export class PendingBlock {
       blockOpts: {
         putBlockIntoBlockchain: false,
       },
+      withdrawals,
     })
 
     const payloadId = randomBytes(8)
@@ -74,6 +74,14 @@ export class BoundProtocol {
     Object.assign(this._status, status)
   }
 
+  /**
+   * Protocol version negotiated with the peer, falls back
+   * to the highest version supported if not known
+   */
+  get version(): number {
+    return this.sender.version ?? Math.max(...this.versions)
+  }
+
   async handshake(sender: Sender) {
     this._status = await this.protocol.handshake(sender)
   }
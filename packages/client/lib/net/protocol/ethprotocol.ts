@@ -61,6 +61,30 @@ type GetReceiptsOpts = {
   hashes: Buffer[]
 }
 
+/* eth/68 tx announcement: tx types, sizes (of the tx encoding) and hashes */
+export type PooledTransactionAnnouncement = [number[], number[], Buffer[]]
+
+/**
+ * Decodes a receipt as encoded by `encodeReceipt`
+ * @param r legacy RLP encoded receipt or typed receipt prefixed with the tx type
+ */
+export function decodeReceipt(r: Buffer): TxReceipt {
+  // Legacy receipt if r[0] >= 0xc0, otherwise typed receipt with first byte as TransactionType
+  const decoded = arrToBufArr(RLP.decode(bufArrToArr(r[0] >= 0xc0 ? r : r.slice(1)))) as any
+  const [stateRootOrStatus, cumulativeGasUsed, logsBloom, logs] = decoded
+  const receipt = {
+    cumulativeBlockGasUsed: bufferToBigInt(cumulativeGasUsed),
+    bitvector: logsBloom,
+    logs,
+  } as TxReceipt
+  if (stateRootOrStatus.length === 32) {
+    ;(receipt as PreByzantiumTxReceipt).stateRoot = stateRootOrStatus
+  } else {
+    ;(receipt as PostByzantiumTxReceipt).status = bufferToInt(stateRootOrStatus) as 0 | 1
+  }
+  return receipt
+}
+
 /*
  * Messages with responses that are added as
  * methods in camelCase to BoundProtocol.
@@ -73,7 +97,7 @@ export interface EthProtocolMethods {
 }
 
 /**
- * Implements eth/66 protocol
+ * Implements eth/66, eth/67 and eth/68 protocols
  * @memberof module:net/protocol
  */
 export class EthProtocol extends Protocol {
@@ -187,12 +211,23 @@ export class EthProtocol extends Protocol {
           common: this.config.chainCommon,
           hardforkByBlockNumber: true,
         }),
-        td,
+        bufferToBigInt(td),
       ],
     },
     {
       name: 'NewPooledTransactionHashes',
       code: 0x08,
+      // eth/68 announcements additionally carry the tx types and sizes
+      encode: (params: Buffer[] | PooledTransactionAnnouncement) => {
+        if (!Array.isArray(params[0])) return params
+        const [types, sizes, hashes] = params as PooledTransactionAnnouncement
+        return [Buffer.from(types), sizes.map((size) => intToBuffer(size)), hashes]
+      },
+      decode: (payload: Buffer[] | [Buffer, Buffer[], Buffer[]]) => {
+        if (!Array.isArray(payload[1])) return payload
+        const [types, sizes, hashes] = payload as [Buffer, Buffer[], Buffer[]]
+        return [Array.from(types), sizes.map((size) => bufferToInt(size)), hashes]
+      },
     },
     {
       name: 'GetPooledTransactions',
@@ -255,22 +290,7 @@ export class EthProtocol extends Protocol {
       },
       decode: ([reqId, receipts]: [Buffer, Buffer[]]) => [
         bufferToBigInt(reqId),
-        receipts.map((r) => {
-          // Legacy receipt if r[0] >= 0xc0, otherwise typed receipt with first byte as TransactionType
-          const decoded = arrToBufArr(RLP.decode(bufArrToArr(r[0] >= 0xc0 ? r : r.slice(1)))) as any
-          const [stateRootOrStatus, cumulativeGasUsed, logsBloom, logs] = decoded
-          const receipt = {
-            cumulativeBlockGasUsed: bufferToBigInt(cumulativeGasUsed),
-            bitvector: logsBloom,
-            logs,
-          } as TxReceipt
-          if (stateRootOrStatus.length === 32) {
-            ;(receipt as PreByzantiumTxReceipt).stateRoot = stateRootOrStatus
-          } else {
-            ;(receipt as PostByzantiumTxReceipt).status = bufferToInt(stateRootOrStatus) as 0 | 1
-          }
-          return receipt
-        }),
+        receipts.map((r) => decodeReceipt(r)),
       ],
     },
   ]
@@ -299,7 +319,7 @@ export class EthProtocol extends Protocol {
    * Protocol versions supported
    */
   get versions() {
-    return [66]
+    return [68, 67, 66]
   }
 
   /**
@@ -34,6 +34,11 @@ export class FlowControl {
     this.bl = options?.bl ?? 300000000
     this.mrc = options?.mrc ?? {
       GetBlockHeaders: { base: 1000, req: 1000 },
+      GetReceipts: { base: 1000, req: 1500 },
+      GetContractCodes: { base: 1000, req: 2000 },
+      GetProofsV2: { base: 1000, req: 2500 },
+      GetHelperTrieProofs: { base: 1000, req: 2500 },
+      SendTxV2: { base: 1000, req: 5000 },
     }
     this.mrr = options?.mrr ?? 10000
 
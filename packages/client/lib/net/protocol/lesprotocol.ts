@@ -1,12 +1,18 @@
 import { BlockHeader } from '@ethereumjs/block'
+import { TransactionFactory } from '@ethereumjs/tx'
 import { bigIntToBuffer, bufferToBigInt, bufferToInt, intToBuffer } from '@ethereumjs/util'
+import { encodeReceipt } from '@ethereumjs/vm/dist/runBlock'
 
+import { decodeReceipt } from './ethprotocol'
 import { Protocol } from './protocol'
 
 import type { Chain } from '../../blockchain'
+import type { TxReceiptWithType } from '../../execution/receipt'
 import type { FlowControl } from './flowcontrol'
 import type { Message, ProtocolOptions } from './protocol'
 import type { BlockHeaderBuffer } from '@ethereumjs/block'
+import type { TypedTransaction } from '@ethereumjs/tx'
+import type { TxReceipt } from '@ethereumjs/vm'
 
 export interface LesProtocolOptions extends ProtocolOptions {
   /* Blockchain */
@@ -28,6 +34,80 @@ type GetBlockHeadersOpts = {
   /* Fetch blocks in reverse (default: false) */
   reverse?: boolean
 }
+type GetReceiptsOpts = {
+  /* Request id (default: next internal id) */
+  reqId?: bigint
+  /* The block hashes to request receipts for */
+  hashes: Buffer[]
+}
+
+export type ContractCodeRequest = {
+  /* Hash of the block whose state is queried */
+  blockHash: Buffer
+  /* Hashed address of the contract account */
+  accountKey: Buffer
+}
+
+type GetContractCodesOpts = {
+  /* Request id (default: next internal id) */
+  reqId?: bigint
+  reqs: ContractCodeRequest[]
+}
+
+export type ProofRequest = {
+  /* Hash of the block whose state is queried */
+  blockHash: Buffer
+  /* Hashed account address for storage proofs, empty for account proofs */
+  accountKey: Buffer
+  /* Hashed storage slot for storage proofs, hashed account address for account proofs */
+  key: Buffer
+  /* Number of trie levels to omit from the proof (default: 0) */
+  fromLevel?: number
+}
+
+type GetProofsV2Opts = {
+  /* Request id (default: next internal id) */
+  reqId?: bigint
+  reqs: ProofRequest[]
+}
+
+export type HelperTrieProofRequest = {
+  /* 0 for the CHT, 1 for the bloom bits trie */
+  subType: number
+  sectionIdx: number
+  key: Buffer
+  fromLevel?: number
+  /* 0 for no auxiliary data, 1 for the trie root, 2 for the block header */
+  auxReq?: number
+}
+
+type GetHelperTrieProofsOpts = {
+  /* Request id (default: next internal id) */
+  reqId?: bigint
+  reqs: HelperTrieProofRequest[]
+}
+
+type SendTxV2Opts = {
+  /* Request id (default: next internal id) */
+  reqId?: bigint
+  txs: TypedTransaction[]
+}
+
+/* Transaction status codes as defined for the LES TxStatus message */
+export enum LesTxStatus {
+  Unknown = 0,
+  Queued = 1,
+  Pending = 2,
+  Included = 3,
+  Error = 4,
+}
+
+export type TxStatusEntry = {
+  status: LesTxStatus
+  /* [blockHash, blockNumber, txIndex] for included txs, error message for failed ones */
+  data: Buffer | Buffer[]
+}
+
 /*
  * Messages with responses that are added as
  * methods in camelCase to BoundProtocol.
@@ -36,6 +116,17 @@ export interface LesProtocolMethods {
   getBlockHeaders: (
     opts: GetBlockHeadersOpts
   ) => Promise<{ reqId: bigint; bv: bigint; headers: BlockHeader[] }>
+  getReceipts: (
+    opts: GetReceiptsOpts
+  ) => Promise<{ reqId: bigint; bv: bigint; receipts: TxReceipt[][] }>
+  getContractCodes: (
+    opts: GetContractCodesOpts
+  ) => Promise<{ reqId: bigint; bv: bigint; codes: Buffer[] }>
+  getProofsV2: (opts: GetProofsV2Opts) => Promise<{ reqId: bigint; bv: bigint; proof: Buffer[] }>
+  getHelperTrieProofs: (
+    opts: GetHelperTrieProofsOpts
+  ) => Promise<{ reqId: bigint; bv: bigint; proof: Buffer[]; auxData: Buffer[] }>
+  sendTxV2: (opts: SendTxV2Opts) => Promise<{ reqId: bigint; bv: bigint; status: TxStatusEntry[] }>
 }
 
 /**
@@ -103,6 +194,173 @@ export class LesProtocol extends Protocol {
         ),
       }),
     },
+    {
+      name: 'GetReceipts',
+      code: 0x06,
+      response: 0x07,
+      encode: ({ reqId, hashes }: GetReceiptsOpts) => [
+        bigIntToBuffer(reqId ?? ++this.nextReqId),
+        hashes,
+      ],
+      decode: ([reqId, hashes]: any) => ({
+        reqId: bufferToBigInt(reqId),
+        hashes,
+      }),
+    },
+    {
+      name: 'Receipts',
+      code: 0x07,
+      encode: ({ reqId, bv, receipts }: any) => [
+        bigIntToBuffer(reqId),
+        bigIntToBuffer(bv),
+        receipts.map((blockReceipts: TxReceiptWithType[]) =>
+          blockReceipts.map((r) => encodeReceipt(r, r.txType))
+        ),
+      ],
+      decode: ([reqId, bv, receipts]: any) => ({
+        reqId: bufferToBigInt(reqId),
+        bv: bufferToBigInt(bv),
+        receipts: receipts.map((blockReceipts: Buffer[]) =>
+          blockReceipts.map((r) => decodeReceipt(r))
+        ),
+      }),
+    },
+    {
+      name: 'GetContractCodes',
+      code: 0x0a,
+      response: 0x0b,
+      encode: ({ reqId, reqs }: GetContractCodesOpts) => [
+        bigIntToBuffer(reqId ?? ++this.nextReqId),
+        reqs.map(({ blockHash, accountKey }) => [blockHash, accountKey]),
+      ],
+      decode: ([reqId, reqs]: any) => ({
+        reqId: bufferToBigInt(reqId),
+        reqs: reqs.map(([blockHash, accountKey]: Buffer[]) => ({ blockHash, accountKey })),
+      }),
+    },
+    {
+      name: 'ContractCodes',
+      code: 0x0b,
+      encode: ({ reqId, bv, codes }: any) => [bigIntToBuffer(reqId), bigIntToBuffer(bv), codes],
+      decode: ([reqId, bv, codes]: any) => ({
+        reqId: bufferToBigInt(reqId),
+        bv: bufferToBigInt(bv),
+        codes,
+      }),
+    },
+    {
+      name: 'GetProofsV2',
+      code: 0x0f,
+      response: 0x10,
+      encode: ({ reqId, reqs }: GetProofsV2Opts) => [
+        bigIntToBuffer(reqId ?? ++this.nextReqId),
+        reqs.map(({ blockHash, accountKey, key, fromLevel = 0 }) => [
+          blockHash,
+          accountKey,
+          key,
+          intToBuffer(fromLevel),
+        ]),
+      ],
+      decode: ([reqId, reqs]: any) => ({
+        reqId: bufferToBigInt(reqId),
+        reqs: reqs.map(([blockHash, accountKey, key, fromLevel]: Buffer[]) => ({
+          blockHash,
+          accountKey,
+          key,
+          fromLevel: bufferToInt(fromLevel),
+        })),
+      }),
+    },
+    {
+      name: 'ProofsV2',
+      code: 0x10,
+      encode: ({ reqId, bv, proof }: any) => [bigIntToBuffer(reqId), bigIntToBuffer(bv), proof],
+      decode: ([reqId, bv, proof]: any) => ({
+        reqId: bufferToBigInt(reqId),
+        bv: bufferToBigInt(bv),
+        proof,
+      }),
+    },
+    {
+      name: 'GetHelperTrieProofs',
+      code: 0x11,
+      response: 0x12,
+      encode: ({ reqId, reqs }: GetHelperTrieProofsOpts) => [
+        bigIntToBuffer(reqId ?? ++this.nextReqId),
+        reqs.map(({ subType, sectionIdx, key, fromLevel = 0, auxReq = 0 }) => [
+          intToBuffer(subType),
+          intToBuffer(sectionIdx),
+          key,
+          intToBuffer(fromLevel),
+          intToBuffer(auxReq),
+        ]),
+      ],
+      decode: ([reqId, reqs]: any) => ({
+        reqId: bufferToBigInt(reqId),
+        reqs: reqs.map(([subType, sectionIdx, key, fromLevel, auxReq]: Buffer[]) => ({
+          subType: bufferToInt(subType),
+          sectionIdx: bufferToInt(sectionIdx),
+          key,
+          fromLevel: bufferToInt(fromLevel),
+          auxReq: bufferToInt(auxReq),
+        })),
+      }),
+    },
+    {
+      name: 'HelperTrieProofs',
+      code: 0x12,
+      encode: ({ reqId, bv, proof, auxData }: any) => [
+        bigIntToBuffer(reqId),
+        bigIntToBuffer(bv),
+        [proof, auxData],
+      ],
+      decode: ([reqId, bv, [proof, auxData]]: any) => ({
+        reqId: bufferToBigInt(reqId),
+        bv: bufferToBigInt(bv),
+        proof,
+        auxData,
+      }),
+    },
+    {
+      name: 'SendTxV2',
+      code: 0x13,
+      response: 0x15,
+      encode: ({ reqId, txs }: SendTxV2Opts) => [
+        bigIntToBuffer(reqId ?? ++this.nextReqId),
+        txs.map((tx) => tx.serialize()),
+      ],
+      decode: ([reqId, txs]: any) => {
+        const common = this.config.chainCommon.copy()
+        common.setHardforkByBlockNumber(
+          this.chain.headers.latest?.number ?? // Use latest header number if available OR
+            common.hardforkBlock(common.hardfork()) ?? // Use current hardfork block number OR
+            BigInt(0) // Use chainstart
+        )
+        return {
+          reqId: bufferToBigInt(reqId),
+          txs: txs.map((txData: Buffer) =>
+            TransactionFactory.fromSerializedData(txData, { common })
+          ),
+        }
+      },
+    },
+    {
+      name: 'TxStatus',
+      code: 0x15,
+      encode: ({ reqId, bv, status }: any) => [
+        bigIntToBuffer(reqId),
+        bigIntToBuffer(bv),
+        status.map(({ status, data }: TxStatusEntry) => [intToBuffer(status), data]),
+      ],
+      decode: ([reqId, bv, status]: any) => ({
+        reqId: bufferToBigInt(reqId),
+        bv: bufferToBigInt(bv),
+        status: status.map(([status, data]: [Buffer, Buffer | Buffer[]]) => ({
+          status: bufferToInt(status),
+          data,
+        })),
+      }),
+    },
   ]
 
   /**
@@ -161,7 +419,7 @@ export class LesProtocol extends Protocol {
         serveHeaders: 1,
         serveChainSince: 0,
         serveStateSince: 0,
-        // txRelay: 1, TODO: uncomment with client tx pool functionality
+        txRelay: 1,
         'flowControl/BL': intToBuffer(this.flow.bl),
         'flowControl/MRR': intToBuffer(this.flow.mrr),
         'flowControl/MRC': Object.entries(this.flow.mrc).map(([name, { base, req }]) => {
@@ -223,7 +481,7 @@ export class LesProtocol extends Protocol {
       serveHeaders: this.isServer,
       serveChainSince: status.serveChainSince ?? 0,
       serveStateSince: status.serveStateSince ?? 0,
-      txRelay: status.txRelay === true,
+      txRelay: status.txRelay !== undefined && status.txRelay !== false,
       bl:
         status['flowControl/BL'] !== undefined ? bufferToInt(status['flowControl/BL']) : undefined,
       mrr:
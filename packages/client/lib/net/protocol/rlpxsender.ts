@@ -27,6 +27,13 @@ export class RlpxSender extends Sender {
     })
   }
 
+  /**
+   * Protocol version negotiated with the peer
+   */
+  get version(): number {
+    return this.sender.getVersion()
+  }
+
   /**
    * Send a status to peer
    * @param status
@@ -25,6 +25,13 @@ export class Sender extends EventEmitter {
     this.emit('status', status)
   }
 
+  /**
+   * Protocol version negotiated with the peer (if known to the transport)
+   */
+  get version(): number | undefined {
+    return undefined
+  }
+
   /**
    * Send a status to peer
    * @param status
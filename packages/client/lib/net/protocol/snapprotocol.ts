@@ -22,7 +22,7 @@ interface SnapProtocolOptions extends ProtocolOptions {
   convertSlimBody?: boolean
 }
 
-type AccountData = {
+export type AccountData = {
   hash: Buffer
   body: AccountBodyBuffer
 }
@@ -45,7 +45,7 @@ type GetStorageRangesOpts = {
   bytes: bigint
 }
 
-type StorageData = {
+export type StorageData = {
   hash: Buffer
   body: Buffer
 }
@@ -72,10 +72,11 @@ export interface SnapProtocolMethods {
   ) => Promise<{ reqId: bigint; accounts: AccountData[]; proof: Buffer[] }>
   getStorageRanges: (opts: GetStorageRangesOpts) => Promise<{
     reqId: bigint
-    slots: StorageData[]
+    slots: StorageData[][]
     proof: Buffer[]
   }>
   getByteCodes: (opts: GetByteCodesOpts) => Promise<{ reqId: bigint; codes: Buffer[] }>
+  getTrieNodes: (opts: GetTrieNodesOpts) => Promise<{ reqId: bigint; nodes: Buffer[] }>
 }
 
 /**
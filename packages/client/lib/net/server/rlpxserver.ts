@@ -1,4 +1,4 @@
-import { DPT as Devp2pDPT, RLPx as Devp2pRLPx } from '@ethereumjs/devp2p'
+import { DPT as Devp2pDPT, Discv5 as Devp2pDiscv5, RLPx as Devp2pRLPx } from '@ethereumjs/devp2p'
 
 import { Event } from '../../types'
 import { RlpxPeer } from '../peer/rlpxpeer'
@@ -6,7 +6,7 @@ import { RlpxPeer } from '../peer/rlpxpeer'
 import { Server } from './server'
 
 import type { ServerOptions } from './server'
-import type { Peer as Devp2pRLPxPeer } from '@ethereumjs/devp2p'
+import type { Peer as Devp2pRLPxPeer, PeerInfo } from '@ethereumjs/devp2p'
 
 export interface RlpxServerOptions extends ServerOptions {
   /* List of supported clients */
@@ -33,6 +33,10 @@ const ignoredErrors = new RegExp(
     'Timeout error: ping', // connection
     'Peer is banned', // connection
 
+    // discv5 packet handling
+    'Invalid discv5',
+    'Timeout error: findnode',
+
     // ECIES message encryption
     'Invalid MAC',
 
@@ -54,6 +58,7 @@ export class RlpxServer extends Server {
 
   public rlpx: Devp2pRLPx | null = null
   public dpt: Devp2pDPT | null = null
+  public discv5: Devp2pDiscv5 | null = null
   public ip: string = '::'
 
   /**
@@ -63,7 +68,7 @@ export class RlpxServer extends Server {
     super(options)
 
     this.ip = options.config.extIP ?? '::'
-    this.discovery = options.config.discV4 || options.config.discDns
+    this.discovery = options.config.discV4 || options.config.discV5 || options.config.discDns
     this.clientFilter = options.clientFilter ?? [
       'go1.5',
       'go1.6',
@@ -119,6 +124,9 @@ export class RlpxServer extends Server {
     }
     await super.start()
     await this.initDpt()
+    if (this.config.discV5) {
+      await this.initDiscv5()
+    }
     await this.initRlpx()
     this.started = true
 
@@ -132,19 +140,20 @@ export class RlpxServer extends Server {
     const self = this
 
     // Bootnodes
-    let promises = this.bootnodes.map((ma) => {
+    const bootnodes = this.bootnodes.map((ma) => {
       const { address, port } = ma.nodeAddress()
-      const bootnode = {
+      return {
         address,
         udpPort: Number(port),
         tcpPort: Number(port),
       }
-      return this.dpt!.bootstrap(bootnode)
     })
+    let promises = bootnodes.map((bootnode) => this.dpt!.bootstrap(bootnode))
 
     // DNS peers
+    let dnsPeers: PeerInfo[] = []
     if (this.config.discDns) {
-      const dnsPeers = (await this.dpt?.getDnsPeers()) ?? []
+      dnsPeers = (await this.dpt?.getDnsPeers()) ?? []
       promises = promises.concat(dnsPeers.map((node) => self.dpt!.bootstrap(node)))
     }
 
@@ -155,6 +164,17 @@ export class RlpxServer extends Server {
         this.error(e)
       }
     }
+
+    // Bootnode addresses don't come with a node id, so discv5 is
+    // bootstrapped with the peers which answered the v4 ping
+    if (this.discv5 !== null) {
+      for (const node of [...bootnodes, ...dnsPeers]) {
+        const peer = this.dpt?.getPeer(node)
+        if (peer !== null && peer !== undefined) {
+          await this.discv5.bootstrap(peer)
+        }
+      }
+    }
   }
 
   /**
@@ -164,6 +184,7 @@ export class RlpxServer extends Server {
     if (this.started) {
       this.rlpx!.destroy()
       this.dpt!.destroy()
+      this.discv5?.destroy()
       await super.stop()
       this.started = false
     }
@@ -181,6 +202,7 @@ export class RlpxServer extends Server {
       return false
     }
     this.dpt!.banPeer(peerId, maxAge)
+    this.discv5?.banPeer(peerId, maxAge)
     return true
   }
 
@@ -227,6 +249,33 @@ export class RlpxServer extends Server {
     })
   }
 
+  /**
+   * Initializes discv5 for peer discovery, listening on the port next to the v4 discovery port
+   */
+  private async initDiscv5() {
+    return new Promise<void>((resolve) => {
+      const port = typeof this.config.port === 'number' ? this.config.port + 1 : null
+      this.discv5 = new Devp2pDiscv5(this.key, {
+        refreshInterval: this.refreshInterval,
+        endpoint: {
+          address: this.config.extIP,
+          udpPort: port,
+          tcpPort: this.config.port,
+        },
+      })
+
+      this.discv5.on('error', (e: Error) => this.error(e))
+
+      this.discv5.on('listening', () => {
+        resolve()
+      })
+
+      if (port !== null) {
+        this.discv5.bind(port, '0.0.0.0')
+      }
+    })
+  }
+
   /**
    * Initializes RLPx instance for peer management
    */
@@ -234,6 +283,7 @@ export class RlpxServer extends Server {
     return new Promise<void>((resolve) => {
       this.rlpx = new Devp2pRLPx(this.key, {
         dpt: this.dpt!,
+        discv5: this.discv5,
         maxPeers: this.config.maxPeers,
         capabilities: RlpxPeer.capabilities(Array.from(this.protocols)),
         remoteClientIdFilter: this.clientFilter,
@@ -5,3 +5,7 @@ export const INVALID_REQUEST = -32600
 export const METHOD_NOT_FOUND = -32601
 export const INVALID_PARAMS = -32602
 export const INTERNAL_ERROR = -32603
+
+// Non-standard error code from EIP-1474
+// reference: https://eips.ethereum.org/EIPS/eip-1474#error-codes
+export const LIMIT_EXCEEDED = -32005
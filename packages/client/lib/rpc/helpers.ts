@@ -1,17 +1,93 @@
-import { bigIntToHex, bufferToHex, intToHex } from '@ethereumjs/util'
+import { Block } from '@ethereumjs/block'
+import { Capability, TransactionFactory } from '@ethereumjs/tx'
+import { KECCAK256_RLP, bigIntToHex, bufferToHex, intToHex } from '@ethereumjs/util'
 
-import type { Block } from '@ethereumjs/block'
-import type { JsonRpcTx, TypedTransaction } from '@ethereumjs/tx'
+import { SyncMode } from '../config'
+
+import { INVALID_PARAMS } from './error-code'
+
+import type { Chain } from '../blockchain'
+import type { Config } from '../config'
+import type { Keystore } from '../keystore'
+import type { Miner } from '../miner'
+import type { FullEthereumService } from '../service'
+import type { JsonRpcLog } from './types'
+import type { Log } from '@ethereumjs/evm'
+import type {
+  FeeMarketEIP1559Transaction,
+  JsonRpcTx,
+  Transaction,
+  TypedTransaction,
+} from '@ethereumjs/tx'
+import type { Address } from '@ethereumjs/util'
+import type { VM } from '@ethereumjs/vm'
+
+/**
+ * Returns the account a tx has been sent from: the impersonated account for txs sent with
+ * `anvil_impersonateAccount` (dev mode) while impersonating it, otherwise the signer
+ * @param tx the tx
+ * @param miner the miner keeping track of the txs of impersonated accounts
+ */
+export const txSender = (tx: TypedTransaction, miner?: Miner): Address =>
+  miner?.impersonatedTxs.get(bufferToHex(tx.hash())) ?? tx.getSenderAddress()
+
+/**
+ * Returns a copy of a tx signed with a throwaway key, which is run from the impersonated
+ * account instead of the signer (dev mode, see `anvil_impersonateAccount`)
+ * @param tx the signed tx
+ * @param from the impersonated account
+ */
+export const impersonatedTx = (tx: TypedTransaction, from: Address): TypedTransaction => {
+  // Not frozen to allow setting the sender
+  const copy = TransactionFactory.fromSerializedData(tx.serialize(), {
+    common: tx.common,
+    freeze: false,
+  })
+  copy.getSenderAddress = () => from
+  return copy
+}
+
+/**
+ * Returns the block with the txs of impersonated accounts run from these accounts
+ * (see {@link txSender}), to re-execute the block
+ * @param block the block
+ * @param miner the miner keeping track of the txs of impersonated accounts
+ */
+export const withTxSenders = (block: Block, miner?: Miner): Block => {
+  const senders = miner?.impersonatedTxs
+  if (senders === undefined || senders.size === 0) return block
+  let impersonated = false
+  const transactions = block.transactions.map((tx) => {
+    const from = senders.get(bufferToHex(tx.hash()))
+    if (from === undefined) return tx
+    impersonated = true
+    return impersonatedTx(tx, from)
+  })
+  if (!impersonated) return block
+  return new Block(
+    block.header,
+    transactions,
+    block.uncleHeaders,
+    { common: block._common },
+    block.withdrawals
+  )
+}
 
 /**
  * Returns tx formatted to the standard JSON-RPC fields
+ * @param from the account the tx has been sent from (default: the signer, see {@link txSender})
  */
-export const jsonRpcTx = (tx: TypedTransaction, block?: Block, txIndex?: number): JsonRpcTx => {
+export const jsonRpcTx = (
+  tx: TypedTransaction,
+  block?: Block,
+  txIndex?: number,
+  from = tx.getSenderAddress()
+): JsonRpcTx => {
   const txJSON = tx.toJSON()
   return {
     blockHash: block ? bufferToHex(block.hash()) : null,
     blockNumber: block ? bigIntToHex(block.header.number) : null,
-    from: tx.getSenderAddress().toString(),
+    from: from.toString(),
     gas: txJSON.gasLimit!,
     gasPrice: txJSON.gasPrice ?? txJSON.maxFeePerGas!,
     maxFeePerGas: txJSON.maxFeePerGas,
@@ -30,3 +106,116 @@ export const jsonRpcTx = (tx: TypedTransaction, block?: Block, txIndex?: number)
     s: txJSON.s!,
   }
 }
+
+/**
+ * Returns the effective priority fee (tip) per gas a tx pays to the block producer
+ */
+export const getEffectivePriorityFee = (tx: TypedTransaction, baseFee?: bigint): bigint => {
+  if (tx.supports(Capability.EIP1559FeeMarket)) {
+    const { maxFeePerGas, maxPriorityFeePerGas } = tx as FeeMarketEIP1559Transaction
+    const maxTip = maxFeePerGas - (baseFee ?? BigInt(0))
+    return maxPriorityFeePerGas < maxTip ? maxPriorityFeePerGas : maxTip
+  }
+  return (tx as Transaction).gasPrice - (baseFee ?? BigInt(0))
+}
+
+/**
+ * Get block by option
+ */
+export const getBlockByOption = async (blockOpt: string, chain: Chain) => {
+  if (blockOpt === 'pending') {
+    throw {
+      code: INVALID_PARAMS,
+      message: `"pending" is not yet supported`,
+    }
+  }
+
+  let block: Block
+  // Light clients only sync headers, blocks are returned with empty bodies then
+  const latest =
+    chain.config.syncmode === SyncMode.Light
+      ? await chain.getBlock(chain.headers.height)
+      : chain.blocks.latest ?? (await chain.getCanonicalHeadBlock())
+
+  if (blockOpt === 'latest') {
+    block = latest
+  } else if (blockOpt === 'earliest') {
+    block = await chain.getBlock(BigInt(0))
+  } else {
+    const blockNumber = BigInt(blockOpt)
+    if (blockNumber === latest.header.number) {
+      block = latest
+    } else if (blockNumber > latest.header.number) {
+      throw {
+        code: INVALID_PARAMS,
+        message: 'specified block greater than current height',
+      }
+    } else {
+      block = await chain.getBlock(blockNumber)
+    }
+  }
+
+  return block
+}
+
+/**
+ * Sets the state of the (copied) VM to the state after the given block,
+ * throws if the state of the block is not available (any more), e.g. since pruned
+ */
+export const setStateRootOf = async (vm: VM, block: Block) => {
+  const { number, stateRoot } = block.header
+  if (!stateRoot.equals(KECCAK256_RLP) && !(await vm.stateManager.hasStateRoot(stateRoot))) {
+    throw {
+      code: INVALID_PARAMS,
+      message: `state not available for block number=${number}`,
+    }
+  }
+  await vm.stateManager.setStateRoot(stateRoot)
+}
+
+/**
+ * Returns the keystore of the client, throws if not enabled (see `--keystore`)
+ */
+export const getKeystore = (config: Config): Keystore => {
+  if (config.keystore === undefined) {
+    throw {
+      code: INVALID_PARAMS,
+      message: 'keystore not enabled (use --keystore)',
+    }
+  }
+  return config.keystore
+}
+
+/**
+ * Returns the miner of the client, throws if mining is not enabled (see `--mine`)
+ */
+export const getMiner = (service: FullEthereumService): Miner => {
+  if (service.miner === undefined) {
+    throw {
+      code: INVALID_PARAMS,
+      message: 'mining not enabled (use --mine)',
+    }
+  }
+  return service.miner
+}
+
+/**
+ * Returns log formatted to the standard JSON-RPC fields
+ */
+export const jsonRpcLog = async (
+  log: Log,
+  block?: Block,
+  tx?: TypedTransaction,
+  txIndex?: number,
+  logIndex?: number
+): Promise<JsonRpcLog> => ({
+  removed: false, // TODO implement
+  logIndex: logIndex !== undefined ? intToHex(logIndex) : null,
+  transactionIndex: txIndex !== undefined ? intToHex(txIndex) : null,
+  transactionHash: tx ? bufferToHex(tx.hash()) : null,
+  blockHash: block ? bufferToHex(block.hash()) : null,
+  blockNumber: block ? bigIntToHex(block.header.number) : null,
+  address: bufferToHex(log[0]),
+  topics: log[1].map((t) => bufferToHex(t as Buffer)),
+  data: bufferToHex(log[2]),
+})
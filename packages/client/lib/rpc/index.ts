@@ -4,7 +4,33 @@ import * as modules from './modules'
 import type { EthereumClient } from '../client'
 import type { Config } from '../config'
 
-export const saveReceiptsMethods = ['getLogs', 'getTransactionReceipt', 'getTransactionByHash']
+export const saveReceiptsMethods = [
+  'getLogs',
+  'getTransactionReceipt',
+  'getTransactionByHash',
+  'traceTransaction',
+  'newFilter',
+  'getFilterLogs',
+]
+
+/**
+ * Methods using the accounts of the keystore, only available with `--keystore`
+ * and only exposed on RPC servers listening on localhost
+ */
+export const keystoreMethods = [
+  'eth_accounts',
+  'eth_sign',
+  'eth_signTransaction',
+  'eth_sendTransaction',
+  'personal_listAccounts',
+  'personal_newAccount',
+  'personal_unlockAccount',
+]
+
+/**
+ * Modules controlling the chain, only available in dev mode (see `--dev`)
+ */
+export const devModules = ['Evm', 'Anvil']
 
 /**
  * @module rpc
@@ -26,12 +52,18 @@ export class RPCManager {
   /**
    * Returns bound methods for modules concat with underscore `_`
    * @param engine Pass true to return only `engine_` API endpoints (default: false)
+   * @param keystore Pass true to include the methods using the keystore accounts if
+   * enabled or in dev mode (for impersonated accounts), only for servers listening
+   * on localhost (default: false)
    */
-  getMethods(engine = false) {
+  getMethods(engine = false, keystore = false) {
     const methods: { [key: string]: Function } = {}
-    const mods = modules.list.filter((name: string) =>
-      engine ? name === 'Engine' : name !== 'Engine'
+    const mods = modules.list.filter(
+      (name: string) =>
+        (engine ? name === 'Engine' : name !== 'Engine') &&
+        (this._config.dev || !devModules.includes(name))
     )
+    const withAccounts = keystore && (this._config.keystore !== undefined || this._config.dev)
 
     for (const modName of mods) {
       const mod = new (modules as any)[modName](this._client)
@@ -41,6 +73,9 @@ export class RPCManager {
           continue
         }
         const concatedMethodName = `${modName.toLowerCase()}_${methodName}`
+        if (!withAccounts && keystoreMethods.includes(concatedMethodName)) {
+          continue
+        }
         methods[concatedMethodName] = mod[methodName].bind((...params: any[]) => {
           try {
             mod(...params)
@@ -0,0 +1,153 @@
+import { Address, bigIntToBuffer, setLengthLeft, toBuffer } from '@ethereumjs/util'
+
+import { INVALID_PARAMS } from '../error-code'
+import { getMiner } from '../helpers'
+import { middleware, validators } from '../validation'
+
+import type { EthereumClient } from '../..'
+import type { FullEthereumService } from '../../service'
+
+/**
+ * Returns a storage slot or value as 32 bytes, throws if larger
+ * @param value hex quantity
+ */
+function toWord(value: string) {
+  const word = bigIntToBuffer(BigInt(value))
+  if (word.length > 32) {
+    throw {
+      code: INVALID_PARAMS,
+      message: `storage slots and values can not be larger than 32 bytes: ${value}`,
+    }
+  }
+  return setLengthLeft(word, 32)
+}
+
+/**
+ * anvil_* RPC module, modifying the state of a dev chain (only available with `--dev`)
+ *
+ * State modifications are applied by mining a new block on top of the modified state.
+ * @memberof module:rpc/modules
+ */
+export class Anvil {
+  private _service: FullEthereumService
+
+  /**
+   * Create anvil_* RPC module
+   * @param client Client to which the module binds
+   */
+  constructor(client: EthereumClient) {
+    this._service = client.services.find((s) => s.name === 'eth') as FullEthereumService
+    this.setBalance = middleware(this.setBalance.bind(this), 2, [
+      [validators.address],
+      [validators.hex],
+    ])
+    this.setCode = middleware(this.setCode.bind(this), 2, [[validators.address], [validators.hex]])
+    this.setNonce = middleware(this.setNonce.bind(this), 2, [
+      [validators.address],
+      [validators.hex],
+    ])
+    this.setStorageAt = middleware(this.setStorageAt.bind(this), 3, [
+      [validators.address],
+      [validators.hex],
+      [validators.hex],
+    ])
+    this.impersonateAccount = middleware(this.impersonateAccount.bind(this), 1, [
+      [validators.address],
+    ])
+    this.stopImpersonatingAccount = middleware(this.stopImpersonatingAccount.bind(this), 1, [
+      [validators.address],
+    ])
+  }
+
+  /**
+   * Sets the balance of an account
+   * @param params An array of two parameters:
+   *   1. address of the account
+   *   2. the balance in wei
+   */
+  async setBalance(params: [string, string]) {
+    const [address, balance] = params
+    await getMiner(this._service).mineBlock((stateManager) =>
+      stateManager.modifyAccountFields(Address.fromString(address), { balance: BigInt(balance) })
+    )
+    return null
+  }
+
+  /**
+   * Sets the code of an account
+   * @param params An array of two parameters:
+   *   1. address of the account
+   *   2. the bytecode
+   */
+  async setCode(params: [string, string]) {
+    const [address, code] = params
+    await getMiner(this._service).mineBlock((stateManager) =>
+      stateManager.putContractCode(Address.fromString(address), toBuffer(code))
+    )
+    return null
+  }
+
+  /**
+   * Sets the nonce of an account
+   * @param params An array of two parameters:
+   *   1. address of the account
+   *   2. the nonce
+   */
+  async setNonce(params: [string, string]) {
+    const [address, nonce] = params
+    await getMiner(this._service).mineBlock((stateManager) =>
+      stateManager.modifyAccountFields(Address.fromString(address), { nonce: BigInt(nonce) })
+    )
+    return null
+  }
+
+  /**
+   * Sets a storage slot of an account
+   * @param params An array of three parameters:
+   *   1. address of the account
+   *   2. the storage slot
+   *   3. the value
+   * @returns true if set
+   */
+  async setStorageAt(params: [string, string, string]) {
+    const [address, slot, value] = params
+    const key = toWord(slot)
+    const word = toWord(value)
+    await getMiner(this._service).mineBlock((stateManager) =>
+      stateManager.putContractStorage(Address.fromString(address), key, word)
+    )
+    return true
+  }
+
+  /**
+   * Lets `eth_sendTransaction` send txs from an account without its private key. The txs are
+   * signed with a throwaway key and run from the account on this node only, they are not
+   * broadcasted. The accounts the txs are sent from are kept in memory only: RPC methods report
+   * them as `from` and can re-execute the blocks with these txs (e.g. for receipts or traces)
+   * until the impersonation is stopped or the client is restarted.
+   * @param params An array of one parameter:
+   *   1. address of the account
+   */
+  impersonateAccount(params: [string]) {
+    getMiner(this._service).impersonatedAccounts.add(params[0].toLowerCase())
+    return null
+  }
+
+  /**
+   * Stops impersonating an account (see {@link Anvil.impersonateAccount}), forgetting the txs
+   * sent from it and removing the ones still pooled
+   * @param params An array of one parameter:
+   *   1. address of the account
+   */
+  stopImpersonatingAccount(params: [string]) {
+    const address = params[0].toLowerCase()
+    const miner = getMiner(this._service)
+    miner.impersonatedAccounts.delete(address)
+    for (const [hash, from] of miner.impersonatedTxs) {
+      if (from.toString() !== address) continue
+      miner.impersonatedTxs.delete(hash)
+      this._service.txPool.removeByHash(hash.slice(2))
+    }
+    return null
+  }
+}
@@ -0,0 +1,285 @@
+import { CallTracer, FourByteTracer, PrestateTracer, StructLogger } from '@ethereumjs/evm'
+import { TransactionFactory } from '@ethereumjs/tx'
+import { Address, bufferToHex, toBuffer } from '@ethereumjs/util'
+
+import { INTERNAL_ERROR, INVALID_PARAMS } from '../error-code'
+import { getBlockByOption, setStateRootOf, withTxSenders } from '../helpers'
+import { middleware, validators } from '../validation'
+
+import type { EthereumClient } from '../..'
+import type { Chain } from '../../blockchain'
+import type { ReceiptsManager } from '../../execution/receipt'
+import type { FullEthereumService } from '../../service'
+import type { RpcTx } from '../types'
+import type { Block } from '@ethereumjs/block'
+import type { CallTracerConfig, PrestateTracerConfig } from '@ethereumjs/evm'
+import type { TypedTransaction } from '@ethereumjs/tx'
+import type { VM } from '@ethereumjs/vm'
+
+export type TraceOpts = {
+  tracer?: string // name of the built-in tracer: "callTracer", "prestateTracer" or "4byteTracer" (default: struct logger)
+  tracerConfig?: CallTracerConfig & PrestateTracerConfig // config of the built-in tracer
+  disableStack?: boolean // don't include the stack in the struct logs (default: false)
+  disableMemory?: boolean // don't include the memory in the struct logs (default: false)
+  disableStorage?: boolean // don't include the storage in the struct logs (default: false)
+  enableReturnData?: boolean // include the return data in the struct logs (default: false)
+}
+
+const tracerNames = ['callTracer', 'prestateTracer', '4byteTracer']
+
+/**
+ * Creates the built-in tracer selected by the trace options
+ */
+const createTracer = (opts: TraceOpts) => {
+  switch (opts.tracer) {
+    case 'callTracer':
+      return new CallTracer(opts.tracerConfig)
+    case 'prestateTracer':
+      return new PrestateTracer(opts.tracerConfig)
+    case '4byteTracer':
+      return new FourByteTracer()
+    default:
+      return new StructLogger(opts)
+  }
+}
+
+/**
+ * Runs a tx on the passed in VM with a tracer attached
+ */
+const traceTx = async (
+  vm: VM,
+  block: Block,
+  tx: TypedTransaction,
+  opts: TraceOpts,
+  skipChecks = false
+) => {
+  const tracer = createTracer(opts)
+  await vm.runTx({
+    tx,
+    block,
+    skipNonce: skipChecks,
+    skipBalance: skipChecks,
+    skipBlockGasLimitValidation: true,
+    tracer,
+  })
+  return tracer.getResult()
+}
+
+/**
+ * Returns a copy of the VM set to the state and hardfork at which the given block is executed
+ */
+const vmForBlock = async (vm: VM, chain: Chain, block: Block) => {
+  const parentBlock = await chain.getBlock(block.header.parentHash)
+  const vmCopy = await vm.copy()
+  await setStateRootOf(vmCopy, parentBlock)
+  const td = await chain.getTd(block.header.parentHash, parentBlock.header.number)
+  vmCopy._common.setHardforkByBlockNumber(block.header.number, td)
+  return vmCopy
+}
+
+/**
+ * Re-executes all transactions of a block, tracing each of them
+ */
+const traceBlock = async (vm: VM | undefined, chain: Chain, block: Block, opts: TraceOpts) => {
+  if (vm === undefined) {
+    throw new Error('missing vm')
+  }
+  if (block.header.number === BigInt(0)) {
+    throw {
+      code: INVALID_PARAMS,
+      message: 'genesis is not traceable',
+    }
+  }
+
+  try {
+    const vmCopy = await vmForBlock(vm, chain, block)
+    const traces = []
+    for (const tx of block.transactions) {
+      const result = await traceTx(vmCopy, block, tx, opts)
+      traces.push({ txHash: bufferToHex(tx.hash()), result })
+    }
+    return traces
+  } catch (error: any) {
+    throw {
+      code: INTERNAL_ERROR,
+      message: error.message.toString(),
+    }
+  }
+}
+
+/**
+ * debug_* RPC module
+ * @memberof module:rpc/modules
+ */
+export class Debug {
+  private service: FullEthereumService
+  private receiptsManager: ReceiptsManager | undefined
+  private _chain: Chain
+  private _vm: VM | undefined
+
+  /**
+   * Create debug_* RPC module
+   * @param client Client to which the module binds
+   */
+  constructor(client: EthereumClient) {
+    this.service = client.services.find((s) => s.name === 'eth') as FullEthereumService
+    this._chain = this.service.chain
+    this._vm = this.service.execution?.vm
+    this.receiptsManager = this.service.execution?.receiptsManager
+
+    const traceOpts = validators.optional(
+      validators.object({
+        tracer: validators.optional(validators.values(tracerNames)),
+        tracerConfig: validators.optional(
+          validators.object({
+            onlyTopCall: validators.optional(validators.bool),
+            withLog: validators.optional(validators.bool),
+            diffMode: validators.optional(validators.bool),
+          })
+        ),
+        disableStack: validators.optional(validators.bool),
+        disableMemory: validators.optional(validators.bool),
+        disableStorage: validators.optional(validators.bool),
+        enableReturnData: validators.optional(validators.bool),
+      })
+    )
+
+    this.traceTransaction = middleware(this.traceTransaction.bind(this), 1, [
+      [validators.hex],
+      [traceOpts],
+    ])
+
+    this.traceCall = middleware(this.traceCall.bind(this), 2, [
+      [validators.transaction()],
+      [validators.blockOption],
+      [traceOpts],
+    ])
+
+    this.traceBlockByNumber = middleware(this.traceBlockByNumber.bind(this), 1, [
+      [validators.blockOption],
+      [traceOpts],
+    ])
+
+    this.traceBlockByHash = middleware(this.traceBlockByHash.bind(this), 1, [
+      [validators.blockHash],
+      [traceOpts],
+    ])
+  }
+
+  /**
+   * Re-executes a transaction and returns its trace.
+   * Only available with `--saveReceipts` enabled
+   * @param params An array of two parameters:
+   *   1. hash of the transaction
+   *   2. (optional) trace options {@link TraceOpts}
+   * @returns The struct logs or the result of the selected built-in tracer
+   */
+  async traceTransaction(params: [string, TraceOpts?]) {
+    const [txHash, opts] = params
+
+    if (this._vm === undefined) {
+      throw new Error('missing vm')
+    }
+    if (!this.receiptsManager) throw new Error('missing receiptsManager')
+
+    const result = await this.receiptsManager.getReceiptByTxHash(toBuffer(txHash))
+    if (!result) {
+      throw {
+        code: INVALID_PARAMS,
+        message: 'transaction not found',
+      }
+    }
+    const [_receipt, blockHash, txIndex] = result
+
+    try {
+      const block = withTxSenders(await this._chain.getBlock(blockHash), this.service.miner)
+      const vm = await vmForBlock(this._vm, this._chain, block)
+      // Replay all txs preceding the traced one to get to the correct state
+      for (const tx of block.transactions.slice(0, txIndex)) {
+        await vm.runTx({ tx, block, skipBlockGasLimitValidation: true })
+      }
+      return await traceTx(vm, block, block.transactions[txIndex], opts ?? {})
+    } catch (error: any) {
+      throw {
+        code: INTERNAL_ERROR,
+        message: error.message.toString(),
+      }
+    }
+  }
+
+  /**
+   * Executes a call on top of the state of the given block and returns its trace.
+   * @param params An array of three parameters:
+   *   1. The transaction object, see `eth_call`
+   *   2. integer block number, or the string "latest" or "earliest"
+   *   3. (optional) trace options {@link TraceOpts}
+   * @returns The struct logs or the result of the selected built-in tracer
+   */
+  async traceCall(params: [RpcTx, string, TraceOpts?]) {
+    const [transaction, blockOpt, opts] = params
+    const block = await getBlockByOption(blockOpt, this._chain)
+
+    if (this._vm === undefined) {
+      throw new Error('missing vm')
+    }
+
+    const vm = await this._vm.copy()
+    await setStateRootOf(vm, block)
+
+    const txData = {
+      ...transaction,
+      gasLimit: transaction.gas ?? block.header.gasLimit,
+    }
+    const tx = TransactionFactory.fromTxData(txData, { common: vm._common, freeze: false })
+
+    // set from address
+    const from =
+      transaction.from !== undefined ? Address.fromString(transaction.from) : Address.zero()
+    tx.getSenderAddress = () => {
+      return from
+    }
+
+    try {
+      return await traceTx(vm, block, tx, opts ?? {}, true)
+    } catch (error: any) {
+      throw {
+        code: INTERNAL_ERROR,
+        message: error.message.toString(),
+      }
+    }
+  }
+
+  /**
+   * Re-executes all transactions of a block and returns their traces.
+   * @param params An array of two parameters:
+   *   1. integer block number, or the string "latest" or "earliest"
+   *   2. (optional) trace options {@link TraceOpts}
+   * @returns Array of objects with the tx hash and the trace of each transaction
+   */
+  async traceBlockByNumber(params: [string, TraceOpts?]) {
+    const [blockOpt, opts] = params
+    const block = await getBlockByOption(blockOpt, this._chain)
+    return traceBlock(this._vm, this._chain, withTxSenders(block, this.service.miner), opts ?? {})
+  }
+
+  /**
+   * Re-executes all transactions of a block and returns their traces.
+   * @param params An array of two parameters:
+   *   1. a block hash
+   *   2. (optional) trace options {@link TraceOpts}
+   * @returns Array of objects with the tx hash and the trace of each transaction
+   */
+  async traceBlockByHash(params: [string, TraceOpts?]) {
+    const [blockHash, opts] = params
+    let block
+    try {
+      block = await this._chain.getBlock(toBuffer(blockHash))
+    } catch (error) {
+      throw {
+        code: INVALID_PARAMS,
+        message: 'Unknown block',
+      }
+    }
+    return traceBlock(this._vm, this._chain, withTxSenders(block, this.service.miner), opts ?? {})
+  }
+}
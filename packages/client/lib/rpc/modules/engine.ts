@@ -3,11 +3,20 @@ import { Hardfork } from '@ethereumjs/common'
 import { RLP } from '@ethereumjs/rlp'
 import { Trie } from '@ethereumjs/trie'
 import { TransactionFactory } from '@ethereumjs/tx'
-import { bufferToHex, toBuffer, zeros } from '@ethereumjs/util'
+import {
+  Address,
+  TypeOutput,
+  bigIntToHex,
+  bufferToHex,
+  toBuffer,
+  toType,
+  zeros,
+} from '@ethereumjs/util'
 
 import { PendingBlock } from '../../miner'
 import { short } from '../../util'
 import { INTERNAL_ERROR, INVALID_PARAMS } from '../error-code'
+import { getEffectivePriorityFee } from '../helpers'
 import { CLConnectionManager, middleware as cmMiddleware } from '../util/CLConnectionManager'
 import { middleware, validators } from '../validation'
 
@@ -16,9 +25,9 @@ import type { EthereumClient } from '../../client'
 import type { Config } from '../../config'
 import type { VMExecution } from '../../execution'
 import type { FullEthereumService } from '../../service'
-import type { HeaderData } from '@ethereumjs/block'
+import type { HeaderData, Withdrawal } from '@ethereumjs/block'
 import type { TypedTransaction } from '@ethereumjs/tx'
-import type { VM } from '@ethereumjs/vm'
+import type { TxReceipt, VM } from '@ethereumjs/vm'
 
 export enum Status {
   ACCEPTED = 'ACCEPTED',
@@ -48,6 +57,17 @@ export type ExecutionPayloadV1 = {
   // as defined in EIP-2718.
 }
 
+export type WithdrawalV1 = {
+  index: string // QUANTITY, 64 Bits
+  validatorIndex: string // QUANTITY, 64 Bits
+  address: string // DATA, 20 Bytes
+  amount: string // QUANTITY, 256 Bits
+}
+
+export type ExecutionPayloadV2 = ExecutionPayloadV1 & {
+  withdrawals: WithdrawalV1[] // Array of withdrawal objects
+}
+
 export type ForkchoiceStateV1 = {
   headBlockHash: string
   safeBlockHash: string
@@ -60,6 +80,10 @@ type PayloadAttributesV1 = {
   suggestedFeeRecipient: string
 }
 
+type PayloadAttributesV2 = PayloadAttributesV1 & {
+  withdrawals: WithdrawalV1[]
+}
+
 export type PayloadStatusV1 = {
   status: Status
   latestValidHash: string | null
@@ -71,12 +95,30 @@ export type ForkchoiceResponseV1 = {
   payloadId: string | null
 }
 
+export type ExecutionPayloadEnvelopeV2 = {
+  executionPayload: ExecutionPayloadV1 | ExecutionPayloadV2
+  blockValue: string // QUANTITY, 256 Bits
+}
+
 type TransitionConfigurationV1 = {
   terminalTotalDifficulty: string
   terminalBlockHash: string
   terminalBlockNumber: string
 }
 
+/**
+ * Engine API methods supported by the client, announced in `engine_exchangeCapabilities`
+ */
+const CAPABILITIES = [
+  'engine_newPayloadV1',
+  'engine_newPayloadV2',
+  'engine_forkchoiceUpdatedV1',
+  'engine_forkchoiceUpdatedV2',
+  'engine_getPayloadV1',
+  'engine_getPayloadV2',
+  'engine_exchangeTransitionConfigurationV1',
+]
+
 const EngineError = {
   UnknownPayload: {
     code: -32001,
@@ -84,13 +126,113 @@ const EngineError = {
   },
 }
 
+const executionPayloadV1FieldValidators = {
+  parentHash: validators.blockHash,
+  feeRecipient: validators.address,
+  stateRoot: validators.hex,
+  receiptsRoot: validators.hex,
+  logsBloom: validators.hex,
+  prevRandao: validators.hex,
+  blockNumber: validators.hex,
+  gasLimit: validators.hex,
+  gasUsed: validators.hex,
+  timestamp: validators.hex,
+  extraData: validators.hex,
+  baseFeePerGas: validators.hex,
+  blockHash: validators.blockHash,
+  transactions: validators.array(validators.hex),
+}
+
+const withdrawalsValidator = validators.array(
+  validators.object({
+    index: validators.hex,
+    validatorIndex: validators.hex,
+    address: validators.address,
+    amount: validators.hex,
+  })
+)
+
+const forkchoiceStateValidator = validators.object({
+  headBlockHash: validators.blockHash,
+  safeBlockHash: validators.blockHash,
+  finalizedBlockHash: validators.blockHash,
+})
+
+const payloadAttributesV1FieldValidators = {
+  timestamp: validators.hex,
+  prevRandao: validators.hex,
+  suggestedFeeRecipient: validators.address,
+}
+
+/**
+ * Converts withdrawals of the JSON-RPC format to {@link Withdrawal}s
+ */
+const toWithdrawals = (withdrawals: WithdrawalV1[]): Withdrawal[] =>
+  withdrawals.map(({ index, validatorIndex, address, amount }) => ({
+    index: BigInt(index),
+    validatorIndex: BigInt(validatorIndex),
+    address: Address.fromString(address),
+    amount: BigInt(amount),
+  }))
+
+/**
+ * Formats {@link Withdrawal}s to the JSON-RPC format
+ */
+const toWithdrawalsV1 = (withdrawals: Withdrawal[]): WithdrawalV1[] =>
+  withdrawals.map(({ index, validatorIndex, address, amount }) => ({
+    index: bigIntToHex(toType(index, TypeOutput.BigInt)),
+    validatorIndex: bigIntToHex(toType(validatorIndex, TypeOutput.BigInt)),
+    address: bufferToHex(toBuffer(address)),
+    amount: bigIntToHex(toType(amount, TypeOutput.BigInt)),
+  }))
+
 /**
- * Formats a block to {@link ExecutionPayloadV1}.
+ * Returns whether withdrawals (EIP-4895) are expected in the block of the given number
+ */
+const withdrawalsActive = (chain: Chain, number: bigint) => {
+  const common = chain.config.chainCommon.copy()
+  const ttd = common.hardforkTTD(Hardfork.Merge)
+  common.setHardforkByBlockNumber(number, ttd !== null ? ttd : undefined)
+  return common.isActivatedEIP(4895)
+}
+
+/**
+ * Throws an invalid params error if withdrawals are missing
+ * for, or provided before withdrawals are activated for, the block
+ */
+const validateWithdrawals = (chain: Chain, number: bigint, withdrawals?: WithdrawalV1[]) => {
+  const active = withdrawalsActive(chain, number)
+  if (active && withdrawals === undefined) {
+    throw { code: INVALID_PARAMS, message: 'missing withdrawals after withdrawals activation' }
+  }
+  if (!active && withdrawals !== undefined) {
+    throw { code: INVALID_PARAMS, message: 'withdrawals provided before withdrawals activation' }
+  }
+}
+
+/**
+ * Returns the value of a built block to the fee recipient, i.e. the sum of the
+ * priority fees paid by its txs
+ */
+const blockValue = (block: Block, receipts: TxReceipt[]) => {
+  let value = BigInt(0)
+  let cumulativeGasUsed = BigInt(0)
+  for (const [i, tx] of block.transactions.entries()) {
+    const gasUsed = receipts[i].cumulativeBlockGasUsed - cumulativeGasUsed
+    cumulativeGasUsed = receipts[i].cumulativeBlockGasUsed
+    value += getEffectivePriorityFee(tx, block.header.baseFeePerGas) * gasUsed
+  }
+  return value
+}
+
+/**
+ * Formats a block to {@link ExecutionPayloadV1}, or to
+ * {@link ExecutionPayloadV2} for blocks with withdrawals.
  */
 const blockToExecutionPayload = (block: Block) => {
   const header = block.toJSON().header!
   const transactions = block.transactions.map((tx) => bufferToHex(tx.serialize())) ?? []
-  const payload: ExecutionPayloadV1 = {
+  const payload: ExecutionPayloadV1 | ExecutionPayloadV2 = {
     blockNumber: header.number!,
     parentHash: header.parentHash!,
     feeRecipient: header.coinbase!,
@@ -105,6 +247,7 @@ const blockToExecutionPayload = (block: Block) => {
     blockHash: bufferToHex(block.hash()),
     prevRandao: header.mixHash!,
     transactions,
+    ...(block.withdrawals !== undefined && { withdrawals: toWithdrawalsV1(block.withdrawals) }),
   }
   return payload
 }
@@ -183,7 +326,7 @@ const validateTerminalBlock = async (block: Block, chain: Chain): Promise<boolea
  * If errors, returns {@link PayloadStatusV1}
  */
 const assembleBlock = async (
-  payload: ExecutionPayloadV1,
+  payload: ExecutionPayloadV1 | ExecutionPayloadV2,
   chain: Chain
 ): Promise<{ block?: Block; error?: PayloadStatusV1 }> => {
   const {
@@ -192,7 +335,9 @@ const assembleBlock = async (
     prevRandao: mixHash,
     feeRecipient: coinbase,
     transactions,
-  } = payload
+    withdrawals: withdrawalsData,
+    ...headerFields
+  } = payload as ExecutionPayloadV2
   const { config } = chain
   const common = config.chainCommon.copy()
 
@@ -215,20 +360,24 @@ const assembleBlock = async (
   }
 
   const transactionsTrie = await txsTrieRoot(txs)
+  const withdrawals = withdrawalsData !== undefined ? toWithdrawals(withdrawalsData) : undefined
+  const withdrawalsRoot =
+    withdrawals !== undefined ? await Block.genWithdrawalsTrieRoot(withdrawals) : undefined
   const header: HeaderData = {
-    ...payload,
+    ...headerFields,
     number,
     receiptTrie,
     transactionsTrie,
     mixHash,
     coinbase,
+    withdrawalsRoot,
   }
 
   let block: Block
   try {
     // we are not setting hardforkByBlockNumber or hardforkByTTD as common is already
     // correctly set to the correct hf
-    block = Block.fromBlockData({ header, transactions: txs }, { common })
+    block = Block.fromBlockData({ header, transactions: txs, withdrawals }, { common })
 
     // Verify blockHash matches payload
     if (!block.hash().equals(toBuffer(payload.blockHash))) {
@@ -286,57 +435,59 @@ export class Engine {
 
     this.newPayloadV1 = cmMiddleware(
       middleware(this.newPayloadV1.bind(this), 1, [
+        [validators.object(executionPayloadV1FieldValidators)],
+      ]),
+      ([payload], response) => this.connectionManager.lastNewPayload({ payload, response })
+    )
+
+    this.newPayloadV2 = cmMiddleware(
+      middleware(this.newPayloadV2.bind(this), 1, [
         [
           validators.object({
-            parentHash: validators.blockHash,
-            feeRecipient: validators.address,
-            stateRoot: validators.hex,
-            receiptsRoot: validators.hex,
-            logsBloom: validators.hex,
-            prevRandao: validators.hex,
-            blockNumber: validators.hex,
-            gasLimit: validators.hex,
-            gasUsed: validators.hex,
-            timestamp: validators.hex,
-            extraData: validators.hex,
-            baseFeePerGas: validators.hex,
-            blockHash: validators.blockHash,
-            transactions: validators.array(validators.hex),
+            ...executionPayloadV1FieldValidators,
+            withdrawals: validators.optional(withdrawalsValidator),
           }),
         ],
       ]),
       ([payload], response) => this.connectionManager.lastNewPayload({ payload, response })
     )
 
+    const forkchoiceUpdatedResponse = (
+      [state]: any[],
+      response?: ForkchoiceResponseV1 & { headBlock?: Block },
+      error?: string
+    ) => {
+      this.connectionManager.lastForkchoiceUpdate({
+        state,
+        response,
+        headBlock: response?.headBlock,
+        error,
+      })
+      // Remove the headBlock from the response object as headBlock is bundled only for connectionManager
+      delete response?.headBlock
+    }
+
     this.forkchoiceUpdatedV1 = cmMiddleware(
       middleware(this.forkchoiceUpdatedV1.bind(this), 1, [
-        [
-          validators.object({
-            headBlockHash: validators.blockHash,
-            safeBlockHash: validators.blockHash,
-            finalizedBlockHash: validators.blockHash,
-          }),
-        ],
+        [forkchoiceStateValidator],
+        [validators.optional(validators.object(payloadAttributesV1FieldValidators))],
+      ]),
+      forkchoiceUpdatedResponse
+    )
+
+    this.forkchoiceUpdatedV2 = cmMiddleware(
+      middleware(this.forkchoiceUpdatedV2.bind(this), 1, [
+        [forkchoiceStateValidator],
         [
           validators.optional(
             validators.object({
-              timestamp: validators.hex,
-              prevRandao: validators.hex,
-              suggestedFeeRecipient: validators.address,
+              ...payloadAttributesV1FieldValidators,
+              withdrawals: validators.optional(withdrawalsValidator),
             })
           ),
         ],
       ]),
-      ([state], response, error) => {
-        this.connectionManager.lastForkchoiceUpdate({
-          state,
-          response,
-          headBlock: response?.headBlock,
-          error,
-        })
-        // Remove the headBlock from the response object as headBlock is bundled only for connectionManager
-        delete response?.headBlock
-      }
+      forkchoiceUpdatedResponse
     )
 
     this.getPayloadV1 = cmMiddleware(
@@ -344,6 +495,11 @@ export class Engine {
       () => this.connectionManager.updateStatus()
     )
 
+    this.getPayloadV2 = cmMiddleware(
+      middleware(this.getPayloadV2.bind(this), 1, [[validators.hex]]),
+      () => this.connectionManager.updateStatus()
+    )
+
     this.exchangeTransitionConfigurationV1 = cmMiddleware(
       middleware(this.exchangeTransitionConfigurationV1.bind(this), 1, [
         [
@@ -356,6 +512,11 @@ export class Engine {
       ]),
       () => this.connectionManager.updateStatus()
     )
+
+    this.exchangeCapabilities = cmMiddleware(
+      middleware(this.exchangeCapabilities.bind(this), 0, []),
+      () => this.connectionManager.updateStatus()
+    )
   }
 
   /**
@@ -376,8 +537,31 @@ export class Engine {
    *   3. validationError: String|null - validation error message
    */
   async newPayloadV1(params: [ExecutionPayloadV1]): Promise<PayloadStatusV1> {
+    return this.newPayload(params)
+  }
+
+  /**
+   * Verifies the payload like {@link Engine.newPayloadV1}, additionally
+   * accepting the withdrawals of payloads after withdrawals activation (Shanghai).
+   *
+   * @param params An array of one parameter:
+   *   1. An object as an instance of {@link ExecutionPayloadV1} or {@link ExecutionPayloadV2}
+   * @returns An object of shape {@link PayloadStatusV1}
+   */
+  async newPayloadV2(params: [ExecutionPayloadV1 | ExecutionPayloadV2]): Promise<PayloadStatusV1> {
+    return this.newPayload(params)
+  }
+
+  private async newPayload(
+    params: [ExecutionPayloadV1 | ExecutionPayloadV2]
+  ): Promise<PayloadStatusV1> {
     const [payload] = params
     const { parentHash, blockHash } = payload
+    validateWithdrawals(
+      this.chain,
+      BigInt(payload.blockNumber),
+      (payload as ExecutionPayloadV2).withdrawals
+    )
 
     const { block, error } = await assembleBlock(payload, this.chain)
     if (!block || error) {
@@ -497,6 +681,34 @@ export class Engine {
    */
   async forkchoiceUpdatedV1(
     params: [forkchoiceState: ForkchoiceStateV1, payloadAttributes: PayloadAttributesV1 | undefined]
+  ): Promise<ForkchoiceResponseV1 & { headBlock?: Block }> {
+    return this.forkchoiceUpdated(params)
+  }
+
+  /**
+   * Propagates the change in the fork choice like {@link Engine.forkchoiceUpdatedV1},
+   * additionally passing on the withdrawals of the payload attributes to the block
+   * built after withdrawals activation (Shanghai).
+   *
+   * @param params An array of two parameters:
+   *   1. An object - The state of the fork choice, see {@link ForkchoiceStateV1}
+   *   2. An object or null - instance of {@link PayloadAttributesV1} or {@link PayloadAttributesV2}
+   * @returns An object of shape {@link ForkchoiceResponseV1}
+   */
+  async forkchoiceUpdatedV2(
+    params: [
+      forkchoiceState: ForkchoiceStateV1,
+      payloadAttributes: PayloadAttributesV1 | PayloadAttributesV2 | undefined
+    ]
+  ): Promise<ForkchoiceResponseV1 & { headBlock?: Block }> {
+    return this.forkchoiceUpdated(params)
+  }
+
+  private async forkchoiceUpdated(
+    params: [
+      forkchoiceState: ForkchoiceStateV1,
+      payloadAttributes: PayloadAttributesV1 | PayloadAttributesV2 | undefined
+    ]
   ): Promise<ForkchoiceResponseV1 & { headBlock?: Block }> {
     const { headBlockHash, finalizedBlockHash, safeBlockHash } = params[0]
     const payloadAttributes = params[1]
@@ -594,7 +806,7 @@ export class Engine {
 
       const blocks = [...parentBlocks, headBlock]
       await this.execution.setHead(blocks)
-      this.service.txPool.removeNewBlockTxs(blocks)
+      await this.service.txPool.removeNewBlockTxs(blocks)
 
       const timeDiff = new Date().getTime() / 1000 - Number(headBlock.header.timestamp)
       if (
@@ -616,9 +828,12 @@ export class Engine {
      */
     const zeroBlockHash = zeros(32)
     const safe = toBuffer(safeBlockHash)
-    if (!safe.equals(headBlock.hash()) && !safe.equals(zeroBlockHash)) {
+    if (safe.equals(headBlock.hash())) {
+      this.config.metrics?.chainHeight.set(Number(headBlock.header.number), { block: 'safe' })
+    } else if (!safe.equals(zeroBlockHash)) {
       try {
-        await this.chain.getBlock(safe)
+        const safeBlock = await this.chain.getBlock(safe)
+        this.config.metrics?.chainHeight.set(Number(safeBlock.header.number), { block: 'safe' })
       } catch (error) {
         const message = 'safe block not available'
         throw {
@@ -630,7 +845,11 @@ export class Engine {
     const finalized = toBuffer(finalizedBlockHash)
     if (!finalized.equals(zeroBlockHash)) {
       try {
-        await this.chain.getBlock(finalized)
+        const finalizedBlock = await this.chain.getBlock(finalized)
+        this.execution.setFinalized(finalizedBlock)
+        this.config.metrics?.chainHeight.set(Number(finalizedBlock.header.number), {
+          block: 'finalized',
+        })
       } catch (error) {
         throw {
           message: 'finalized block not available',
@@ -644,12 +863,19 @@ export class Engine {
      */
     if (payloadAttributes) {
       const { timestamp, prevRandao, suggestedFeeRecipient } = payloadAttributes
+      const { withdrawals } = payloadAttributes as PayloadAttributesV2
       const parentBlock = this.chain.blocks.latest!
-      const payloadId = await this.pendingBlock.start(await this.vm.copy(), parentBlock, {
-        timestamp,
-        mixHash: prevRandao,
-        coinbase: suggestedFeeRecipient,
-      })
+      validateWithdrawals(this.chain, parentBlock.header.number + BigInt(1), withdrawals)
+      const payloadId = await this.pendingBlock.start(
+        await this.vm.copy(),
+        parentBlock,
+        {
+          timestamp,
+          mixHash: prevRandao,
+          coinbase: suggestedFeeRecipient,
+        },
+        withdrawals !== undefined ? toWithdrawals(withdrawals) : undefined
+      )
       const latestValidHash = await validHash(headBlock.hash(), this.chain)
       const payloadStatus = { status: Status.VALID, latestValidHash, validationError: null }
       const response = { payloadStatus, payloadId: bufferToHex(payloadId), headBlock }
@@ -671,6 +897,23 @@ export class Engine {
    * @returns Instance of {@link ExecutionPayloadV1} or an error
    */
   async getPayloadV1(params: [string]) {
+    const { executionPayload } = await this.getPayload(params)
+    return executionPayload
+  }
+
+  /**
+   * Given payloadId, returns the most recent version of an execution payload
+   * along with the value it yields to the fee recipient.
+   *
+   * @param params An array of one parameter:
+   *   1. payloadId: DATA, 8 bytes - identifier of the payload building process
+   * @returns Instance of {@link ExecutionPayloadEnvelopeV2} or an error
+   */
+  async getPayloadV2(params: [string]): Promise<ExecutionPayloadEnvelopeV2> {
+    return this.getPayload(params)
+  }
+
+  private async getPayload(params: [string]): Promise<ExecutionPayloadEnvelopeV2> {
     const payloadId = toBuffer(params[0])
     try {
       const built = await this.pendingBlock.build(payloadId)
@@ -679,7 +922,10 @@ export class Engine {
       }
       const [block, receipts] = built
       await this.execution.runWithoutSetHead({ block }, receipts)
-      return blockToExecutionPayload(block)
+      return {
+        executionPayload: blockToExecutionPayload(block),
+        blockValue: bigIntToHex(blockValue(block, receipts)),
+      }
     } catch (error: any) {
       if (error === EngineError.UnknownPayload) throw error
       throw {
@@ -719,4 +965,15 @@ export class Engine {
     // since we are not yet fast enough to run along tip-of-chain mainnet execution
     return { terminalTotalDifficulty, terminalBlockHash, terminalBlockNumber }
   }
+
+  /**
+   * Exchanges the Engine API methods supported by the consensus and execution clients.
+   *
+   * @param params An array of one parameter:
+   *   1. An array of strings - the methods supported by the consensus client
+   * @returns An array of strings - the methods supported by the client
+   */
+  async exchangeCapabilities(_params: [string[]]): Promise<string[]> {
+    return CAPABILITIES
+  }
 }
@@ -1,39 +1,63 @@
 import { ConsensusType } from '@ethereumjs/common'
-import { RLP } from '@ethereumjs/rlp'
 import { Capability, TransactionFactory } from '@ethereumjs/tx'
 import {
   Address,
   TypeOutput,
   bigIntToHex,
   bufferToHex,
+  ecsign,
+  hashPersonalMessage,
   intToHex,
   setLengthLeft,
   toBuffer,
+  toRpcSig,
   toType,
 } from '@ethereumjs/util'
+import { randomBytes } from 'crypto'
 
-import { INTERNAL_ERROR, INVALID_PARAMS, PARSE_ERROR } from '../error-code'
-import { jsonRpcTx } from '../helpers'
+import { INTERNAL_ERROR, INVALID_PARAMS, METHOD_NOT_FOUND, PARSE_ERROR } from '../error-code'
+import {
+  getBlockByOption,
+  getEffectivePriorityFee,
+  getKeystore,
+  impersonatedTx,
+  jsonRpcLog,
+  jsonRpcTx,
+  setStateRootOf,
+  txSender,
+  withTxSenders,
+} from '../helpers'
+import { FilterManager, FilterType } from '../util/FilterManager'
+import { SubscriptionManager, SubscriptionType } from '../util/SubscriptionManager'
 import { middleware, validators } from '../validation'
 
 import type { EthereumClient } from '../..'
 import type { Chain } from '../../blockchain'
+import type { Config } from '../../config'
 import type { ReceiptsManager } from '../../execution/receipt'
+import type { Miner } from '../../miner'
 import type { EthProtocol } from '../../net/protocol'
-import type { EthereumService, FullEthereumService } from '../../service'
-import type { RpcTx } from '../types'
+import type { EthereumService, FullEthereumService, LightEthereumService } from '../../service'
+import type { TxPool } from '../../service/txpool'
+import type { JsonRpcLog, RpcContext, RpcTx } from '../types'
+import type { LogFilterCriteria } from '../util/FilterManager'
 import type { Block, JsonRpcBlock } from '@ethereumjs/block'
-import type { Log } from '@ethereumjs/evm'
+import type { Common } from '@ethereumjs/common'
 import type { Proof } from '@ethereumjs/statemanager'
-import type { FeeMarketEIP1559Transaction, Transaction, TypedTransaction } from '@ethereumjs/tx'
+import type {
+  AccessList,
+  FeeMarketEIP1559Transaction,
+  Transaction,
+  TypedTransaction,
+} from '@ethereumjs/tx'
 import type { Account } from '@ethereumjs/util'
 import type { PostByzantiumTxReceipt, PreByzantiumTxReceipt, TxReceipt, VM } from '@ethereumjs/vm'
 
 type GetLogsParams = {
   fromBlock?: string // QUANTITY, block number or "earliest" or "latest" (default: "latest")
   toBlock?: string // QUANTITY, block number or "latest" (default: "latest")
-  address?: string // DATA, 20 Bytes, contract address from which logs should originate
-  topics?: string[] // DATA, array, topics are order-dependent
+  address?: string | string[] // DATA, 20 Bytes, contract address(es) from which logs should originate
+  topics?: (string | string[] | null)[] // DATA, array, topics are order-dependent
   blockHash?: string // DATA, 32 Bytes. With the addition of EIP-234,
   // blockHash restricts the logs returned to the single block with
   // the 32-byte hash blockHash. Using blockHash is equivalent to
@@ -59,32 +83,21 @@ type JsonRpcReceipt = {
   root?: string // DATA, 32 bytes of post-transaction stateroot (pre Byzantium)
   status?: string // QUANTITY, either 1 (success) or 0 (failure)
 }
-type JsonRpcLog = {
-  removed: boolean // TAG - true when the log was removed, due to a chain reorganization. false if it's a valid log.
-  logIndex: string | null // QUANTITY - integer of the log index position in the block. null when it's pending.
-  transactionIndex: string | null // QUANTITY - integer of the transactions index position log was created from. null when it's pending.
-  transactionHash: string | null // DATA, 32 Bytes - hash of the transactions this log was created from. null when it's pending.
-  blockHash: string | null // DATA, 32 Bytes - hash of the block where this log was in. null when it's pending.
-  blockNumber: string | null // QUANTITY - the block number where this log was in. null when it's pending.
-  address: string // DATA, 20 Bytes - address from which this log originated.
-  data: string // DATA - contains one or more 32 Bytes non-indexed arguments of the log.
-  topics: string[] // Array of DATA - Array of 0 to 4 32 Bytes DATA of indexed log arguments.
-  // (In solidity: The first topic is the hash of the signature of the event
-  // (e.g. Deposit(address,bytes32,uint256)), except you declared the event with the anonymous specifier.)
-}
-
 /**
  * Returns block formatted to the standard JSON-RPC fields
  */
 const jsonRpcBlock = async (
   block: Block,
   chain: Chain,
-  includeTransactions: boolean
+  includeTransactions: boolean,
+  miner?: Miner
 ): Promise<JsonRpcBlock> => {
   const json = block.toJSON()
   const header = json!.header!
   const transactions = block.transactions.map((tx, txIndex) =>
-    includeTransactions ? jsonRpcTx(tx, block, txIndex) : bufferToHex(tx.hash())
+    includeTransactions
+      ? jsonRpcTx(tx, block, txIndex, txSender(tx, miner))
+      : bufferToHex(tx.hash())
   )
   const td = await chain.getTd(block.hash(), block.header.number)
   return {
@@ -112,27 +125,6 @@ const jsonRpcBlock = async (
   }
 }
 
-/**
- * Returns log formatted to the standard JSON-RPC fields
- */
-const jsonRpcLog = async (
-  log: Log,
-  block?: Block,
-  tx?: TypedTransaction,
-  txIndex?: number,
-  logIndex?: number
-): Promise<JsonRpcLog> => ({
-  removed: false, // TODO implement
-  logIndex: logIndex !== undefined ? intToHex(logIndex) : null,
-  transactionIndex: txIndex !== undefined ? intToHex(txIndex) : null,
-  transactionHash: tx ? bufferToHex(tx.hash()) : null,
-  blockHash: block ? bufferToHex(block.hash()) : null,
-  blockNumber: block ? bigIntToHex(block.header.number) : null,
-  address: bufferToHex(log[0]),
-  topics: log[1].map((t) => bufferToHex(t as Buffer)),
-  data: bufferToHex(log[2]),
-})
-
 /**
  * Returns receipt formatted to the standard JSON-RPC fields
  */
@@ -169,40 +161,204 @@ const jsonRpcReceipt = async (
 })
 
 /**
- * Get block by option
+ * Returns the gas price per gas a tx effectively pays (including the base fee)
+ */
+const getEffectiveGasPrice = (tx: TypedTransaction, baseFee?: bigint): bigint => {
+  if (tx.supports(Capability.EIP1559FeeMarket)) {
+    return getEffectivePriorityFee(tx, baseFee) + (baseFee ?? BigInt(0))
+  }
+  return (tx as Transaction).gasPrice
+}
+
+/**
+ * Returns the effective priority fees per gas paid at the given percentiles
+ * of the block's gas used, with txs sorted by ascending priority fee
+ * @param block the block
+ * @param percentiles ascending list of percentiles
+ * @param receiptsManager the receipts manager to get the gas used of the txs from
  */
-const getBlockByOption = async (blockOpt: string, chain: Chain) => {
-  if (blockOpt === 'pending') {
+const getBlockRewards = async (
+  block: Block,
+  percentiles: number[],
+  receiptsManager: ReceiptsManager
+): Promise<bigint[]> => {
+  if (block.transactions.length === 0) {
+    return percentiles.map(() => BigInt(0))
+  }
+  const receipts = await receiptsManager.getReceipts(block.hash())
+  if (receipts.length !== block.transactions.length) {
+    throw {
+      code: INTERNAL_ERROR,
+      message: `receipts not available for block number=${block.header.number}`,
+    }
+  }
+
+  const txs = block.transactions
+    .map((tx, i) => ({
+      reward: getEffectivePriorityFee(tx, block.header.baseFeePerGas),
+      gasUsed:
+        receipts[i].cumulativeBlockGasUsed -
+        (i > 0 ? receipts[i - 1].cumulativeBlockGasUsed : BigInt(0)),
+    }))
+    .sort((a, b) => (a.reward < b.reward ? -1 : a.reward > b.reward ? 1 : 0))
+
+  const rewards = []
+  let txIndex = 0
+  let sumGasUsed = txs[0].gasUsed
+  for (const percentile of percentiles) {
+    const thresholdGasUsed = BigInt(Math.floor((Number(block.header.gasUsed) * percentile) / 100))
+    while (sumGasUsed < thresholdGasUsed && txIndex < txs.length - 1) {
+      txIndex++
+      sumGasUsed += txs[txIndex].gasUsed
+    }
+    rewards.push(txs[txIndex].reward)
+  }
+  return rewards
+}
+
+/**
+ * Converts the address and topics of a log filter to buffers
+ */
+const formatLogFilter = (
+  address?: string | string[],
+  topics?: (string | string[] | null)[]
+): Pick<LogFilterCriteria, 'addresses' | 'topics'> => {
+  const formattedTopics = topics?.map((t) => {
+    if (t === null) {
+      return null
+    } else if (Array.isArray(t)) {
+      return t.map((x) => toBuffer(x))
+    } else {
+      return toBuffer(t)
+    }
+  })
+  let addresses
+  if (address !== undefined) {
+    if (Array.isArray(address)) {
+      addresses = address.map((a) => toBuffer(a))
+    } else {
+      addresses = [toBuffer(address)]
+    }
+  }
+  return { addresses, topics: formattedTopics }
+}
+
+/**
+ * Installs a filter, surfacing filter limit errors as RPC errors
+ */
+const installFilter = (
+  filterManager: FilterManager,
+  type: FilterType,
+  criteria?: LogFilterCriteria,
+  params?: GetLogsParams
+) => {
+  try {
+    return filterManager.install(type, criteria, params)
+  } catch (error: any) {
+    throw {
+      code: INTERNAL_ERROR,
+      message: error.message.toString(),
+    }
+  }
+}
+
+/**
+ * Checks if two access lists contain the same addresses and storage keys (regardless of order)
+ */
+const accessListsEqual = (a: AccessList, b: AccessList) => {
+  const toKeys = (list: AccessList) =>
+    list.flatMap(({ address, storageKeys }) => [
+      address.toLowerCase(),
+      ...storageKeys.map((key) => `${address}:${key}`.toLowerCase()),
+    ])
+  const keysA = new Set(toKeys(a))
+  const keysB = new Set(toKeys(b))
+  return keysA.size === keysB.size && [...keysA].every((key) => keysB.has(key))
+}
+
+/**
+ * Returns the private key of an unlocked keystore account
+ */
+const unlockedKey = (config: Config, address: string) => {
+  const keystore = getKeystore(config)
+  try {
+    return keystore.privateKey(Address.fromString(address))
+  } catch (error: any) {
     throw {
       code: INVALID_PARAMS,
-      message: `"pending" is not yet supported`,
+      message: error.message,
     }
   }
+}
 
-  let block: Block
-  const latest = chain.blocks.latest ?? (await chain.getCanonicalHeadBlock())
+/**
+ * Fills in the fields of a tx sent from a keystore account which are not set (nonce,
+ * fees and gas limit) and signs it. Txs without a gas price are built as EIP-1559 txs
+ * if the fee market is activated.
+ * @param eth the eth module to look up the missing fields with
+ * @param transaction the tx object
+ * @param privateKey the private key of the sender
+ * @param common common to build the tx with
+ * @param txPool pool with the pending txs of the sender
+ */
+const signTransaction = async (
+  eth: Eth,
+  transaction: RpcTx,
+  privateKey: Buffer,
+  common: Common,
+  txPool?: TxPool
+): Promise<TypedTransaction> => {
+  const from = transaction.from!
+
+  let nonce = transaction.nonce
+  if (nonce === undefined) {
+    // Continue after the pending txs of the sender
+    const accountNonce = BigInt(await eth.getTransactionCount([from, 'latest']))
+    const pending = txPool?.pool.get(from.slice(2).toLowerCase()) ?? []
+    const last = pending[pending.length - 1]
+    nonce = bigIntToHex(
+      last !== undefined && last.tx.nonce >= accountNonce ? last.tx.nonce + BigInt(1) : accountNonce
+    )
+  }
 
-  if (blockOpt === 'latest') {
-    block = latest
-  } else if (blockOpt === 'earliest') {
-    block = await chain.getBlock(BigInt(0))
-  } else {
-    const blockNumber = BigInt(blockOpt)
-    if (blockNumber === latest.header.number) {
-      block = latest
-    } else if (blockNumber > latest.header.number) {
-      throw {
-        code: INVALID_PARAMS,
-        message: 'specified block greater than current height',
-      }
+  let type = transaction.type
+  if (type === undefined) {
+    if (transaction.gasPrice === undefined && common.isActivatedEIP(1559)) {
+      type = '0x2'
     } else {
-      block = await chain.getBlock(blockNumber)
+      type = transaction.accessList !== undefined ? '0x1' : '0x0'
+    }
+  }
+  const txData: RpcTx = { ...transaction, nonce, type }
+  if (parseInt(type) === 2) {
+    txData.maxPriorityFeePerGas ??= await eth.maxPriorityFeePerGas()
+    if (txData.maxFeePerGas === undefined) {
+      // Leave room for the base fee to double, as geth does
+      const latest = await eth.getBlockByNumber(['latest', false])
+      const baseFee = BigInt(latest.baseFeePerGas ?? 0)
+      txData.maxFeePerGas = bigIntToHex(BigInt(2) * baseFee + BigInt(txData.maxPriorityFeePerGas))
     }
+  } else {
+    txData.gasPrice ??= await eth.gasPrice()
   }
+  // Copy since the gas estimation fills in missing fields of the tx object
+  txData.gas ??= await eth.estimateGas([{ ...txData }])
 
-  return block
+  const tx = TransactionFactory.fromTxData({ ...txData, gasLimit: txData.gas }, { common })
+  return tx.sign(privateKey)
 }
 
+/**
+ * Filter managers by client, shared by the eth modules created for the different
+ * RPC servers (a manager listens to the client events for its whole lifetime)
+ */
+const filterManagers = new WeakMap<EthereumClient, FilterManager>()
+
+/**
+ * Subscription managers by client, shared the same way as the filter managers
+ */
+const subscriptionManagers = new WeakMap<EthereumClient, SubscriptionManager>()
+
 /**
  * eth_* RPC module
  * @memberof module:rpc/modules
@@ -213,6 +369,9 @@ export class Eth {
   private receiptsManager: ReceiptsManager | undefined
   private _chain: Chain
   private _vm: VM | undefined
+  private _miner: Miner | undefined
+  private filterManager: FilterManager
+  private subscriptionManager: SubscriptionManager
   public ethVersion: number
 
   /**
@@ -223,8 +382,32 @@ export class Eth {
     this.client = client
     this.service = client.services.find((s) => s.name === 'eth') as EthereumService
     this._chain = this.service.chain
-    this._vm = (this.service as FullEthereumService).execution?.vm
+    this._vm =
+      (this.service as FullEthereumService).execution?.vm ??
+      (this.service as LightEthereumService).vm
     this.receiptsManager = (this.service as FullEthereumService).execution?.receiptsManager
+    this._miner = (this.service as FullEthereumService).miner
+    let filterManager = filterManagers.get(client)
+    if (filterManager === undefined) {
+      filterManager = new FilterManager({
+        config: client.config,
+        chain: this._chain,
+        receiptsManager: this.receiptsManager,
+      })
+      filterManagers.set(client, filterManager)
+    }
+    this.filterManager = filterManager
+    let subscriptionManager = subscriptionManagers.get(client)
+    if (subscriptionManager === undefined) {
+      subscriptionManager = new SubscriptionManager({
+        config: client.config,
+        chain: this._chain,
+        receiptsManager: this.receiptsManager,
+        synchronizer: this.service.synchronizer,
+      })
+      subscriptionManagers.set(client, subscriptionManager)
+    }
+    this.subscriptionManager = subscriptionManager
 
     const ethProtocol = this.service.protocols.find((p) => p.name === 'eth') as EthProtocol
     this.ethVersion = Math.max(...ethProtocol.versions)
@@ -243,6 +426,11 @@ export class Eth {
       [validators.blockOption],
     ])
 
+    this.createAccessList = middleware(this.createAccessList.bind(this), 1, [
+      [validators.transaction()],
+      [validators.blockOption],
+    ])
+
     this.getBalance = middleware(this.getBalance.bind(this), 2, [
       [validators.address],
       [validators.blockOption],
@@ -296,28 +484,40 @@ export class Eth {
       [validators.hex],
     ])
 
-    this.getLogs = middleware(this.getLogs.bind(this), 1, [
-      [
-        validators.object({
-          fromBlock: validators.optional(validators.blockOption),
-          toBlock: validators.optional(validators.blockOption),
-          address: validators.optional(
-            validators.either(validators.array(validators.address), validators.address)
-          ),
-          topics: validators.optional(
-            validators.array(
-              validators.optional(
-                validators.either(validators.hex, validators.array(validators.hex))
-              )
-            )
-          ),
-          blockHash: validators.optional(validators.blockHash),
-        }),
-      ],
+    const logFilter = validators.object({
+      fromBlock: validators.optional(validators.blockOption),
+      toBlock: validators.optional(validators.blockOption),
+      address: validators.optional(
+        validators.either(validators.array(validators.address), validators.address)
+      ),
+      topics: validators.optional(
+        validators.array(
+          validators.optional(validators.either(validators.hex, validators.array(validators.hex)))
+        )
+      ),
+      blockHash: validators.optional(validators.blockHash),
+    })
+
+    this.getLogs = middleware(this.getLogs.bind(this), 1, [[logFilter]])
+
+    this.getBlockReceipts = middleware(this.getBlockReceipts.bind(this), 1, [
+      [validators.blockOption],
     ])
 
     this.sendRawTransaction = middleware(this.sendRawTransaction.bind(this), 1, [[validators.hex]])
 
+    this.accounts = middleware(this.accounts.bind(this), 0, [])
+
+    this.sign = middleware(this.sign.bind(this), 2, [[validators.address], [validators.hex]])
+
+    this.signTransaction = middleware(this.signTransaction.bind(this), 1, [
+      [validators.transaction(['from'])],
+    ])
+
+    this.sendTransaction = middleware(this.sendTransaction.bind(this), 1, [
+      [validators.transaction(['from'])],
+    ])
+
     this.protocolVersion = middleware(this.protocolVersion.bind(this), 0, [])
 
     this.syncing = middleware(this.syncing.bind(this), 0, [])
@@ -335,6 +535,50 @@ export class Eth {
     )
 
     this.gasPrice = middleware(this.gasPrice.bind(this), 0, [])
+
+    this.feeHistory = middleware(this.feeHistory.bind(this), 2, [
+      [validators.blockCount],
+      [validators.blockOption],
+      [validators.rewardPercentiles],
+    ])
+
+    this.maxPriorityFeePerGas = middleware(this.maxPriorityFeePerGas.bind(this), 0, [])
+
+    this.newFilter = middleware(this.newFilter.bind(this), 1, [[logFilter]])
+
+    this.newBlockFilter = middleware(this.newBlockFilter.bind(this), 0, [])
+
+    this.newPendingTransactionFilter = middleware(
+      this.newPendingTransactionFilter.bind(this),
+      0,
+      []
+    )
+
+    this.getFilterChanges = middleware(this.getFilterChanges.bind(this), 1, [[validators.hex]])
+
+    this.getFilterLogs = middleware(this.getFilterLogs.bind(this), 1, [[validators.hex]])
+
+    this.uninstallFilter = middleware(this.uninstallFilter.bind(this), 1, [[validators.hex]])
+
+    this.subscribe = middleware(this.subscribe.bind(this), 1, [
+      [validators.values(Object.values(SubscriptionType))],
+      [
+        validators.object({
+          address: validators.optional(
+            validators.either(validators.array(validators.address), validators.address)
+          ),
+          topics: validators.optional(
+            validators.array(
+              validators.optional(
+                validators.either(validators.hex, validators.array(validators.hex))
+              )
+            )
+          ),
+        }),
+      ],
+    ])
+
+    this.unsubscribe = middleware(this.unsubscribe.bind(this), 1, [[validators.hex]])
   }
 
   /**
@@ -367,7 +611,7 @@ export class Eth {
     }
 
     const vm = await this._vm.copy()
-    await vm.stateManager.setStateRoot(block.header.stateRoot)
+    await setStateRootOf(vm, block)
 
     const { from, to, gas: gasLimit, gasPrice, value, data } = transaction
 
@@ -425,7 +669,7 @@ export class Eth {
     }
 
     const vm = await this._vm.copy()
-    await vm.stateManager.setStateRoot(block.header.stateRoot)
+    await setStateRootOf(vm, block)
 
     if (transaction.gas === undefined) {
       // If no gas limit is specified use the last block gas limit as an upper bound.
@@ -473,6 +717,110 @@ export class Eth {
     }
   }
 
+  /**
+   * Creates an EIP-2930 access list for a transaction, based on the state of the given block.
+   * The transaction is run repeatedly with the resulting access list applied until the list
+   * does not change anymore, since the list can change the gas and thus the execution path.
+   * The transaction will not be added to the blockchain.
+   * @param params An array of two parameters:
+   *   1. The transaction object (see {@link Eth.estimateGas}), optionally with an initial `accessList`
+   *   2. integer block number, or the string "latest", "earliest" or "pending" (optional)
+   * @returns An object with the `accessList`, the `gasUsed` with the list applied and an
+   * `error` message if the execution failed
+   */
+  async createAccessList(params: [RpcTx, string?]) {
+    const [transaction, blockOpt] = params
+    const block = await getBlockByOption(blockOpt ?? 'latest', this._chain)
+
+    if (this._vm === undefined) {
+      throw new Error('missing vm')
+    }
+
+    const vm = await this._vm.copy()
+    await setStateRootOf(vm, block)
+
+    if (vm._common.isActivatedEIP(2930) !== true) {
+      throw {
+        code: INVALID_PARAMS,
+        message: 'access lists are not supported before the berlin hardfork',
+      }
+    }
+
+    if (transaction.gas === undefined) {
+      // If no gas limit is specified use the last block gas limit as an upper bound.
+      const latest = await this._chain.getCanonicalHeadHeader()
+      transaction.gas = latest.gasLimit as any
+    }
+
+    const isFeeMarketTx =
+      (transaction.type !== undefined && parseInt(transaction.type) === 2) ||
+      transaction.maxFeePerGas !== undefined ||
+      transaction.maxPriorityFeePerGas !== undefined
+    if (transaction.gasPrice === undefined && transaction.maxFeePerGas === undefined) {
+      // If no gas price or maxFeePerGas provided, use current block base fee
+      if (block.header.baseFeePerGas !== undefined) {
+        const baseFee = bigIntToHex(block.header.baseFeePerGas)
+        if (isFeeMarketTx) {
+          transaction.maxFeePerGas = baseFee
+        } else {
+          transaction.gasPrice = baseFee
+        }
+      }
+    }
+
+    const from =
+      transaction.from !== undefined ? Address.fromString(transaction.from) : Address.zero()
+
+    let accessList: AccessList = transaction.accessList ?? []
+    // Guard against lists which never stabilize (geth loops until the list is stable)
+    for (let i = 0; i < 10; i++) {
+      const txData = {
+        ...transaction,
+        type: isFeeMarketTx ? 2 : 1,
+        gasLimit: transaction.gas,
+        accessList,
+      }
+      const tx = TransactionFactory.fromTxData(txData, { common: vm._common, freeze: false })
+      tx.getSenderAddress = () => {
+        return from
+      }
+
+      let result
+      await vm.stateManager.checkpoint()
+      try {
+        result = await vm.runTx({
+          tx,
+          skipNonce: true,
+          skipBalance: true,
+          skipBlockGasLimitValidation: true,
+          reportAccessList: true,
+          block,
+        })
+      } catch (error: any) {
+        throw {
+          code: INTERNAL_ERROR,
+          message: error.message.toString(),
+        }
+      } finally {
+        await vm.stateManager.revert()
+      }
+
+      const newAccessList = result.accessList ?? []
+      if (accessListsEqual(accessList, newAccessList)) {
+        return {
+          accessList: newAccessList,
+          gasUsed: bigIntToHex(result.totalGasSpent),
+          error: result.execResult.exceptionError?.error,
+        }
+      }
+      accessList = newAccessList
+    }
+    throw {
+      code: INTERNAL_ERROR,
+      message: 'access list did not stabilize',
+    }
+  }
+
   /**
    * Returns the balance of the account at the given address.
    * @param params An array of two parameters:
@@ -489,7 +837,7 @@ export class Eth {
     }
 
     const vm = await this._vm.copy()
-    await vm.stateManager.setStateRoot(block.header.stateRoot)
+    await setStateRootOf(vm, block)
     const account = await vm.stateManager.getAccount(address)
     return bigIntToHex(account.balance)
   }
@@ -505,7 +853,7 @@ export class Eth {
 
     try {
       const block = await this._chain.getBlock(toBuffer(blockHash))
-      return await jsonRpcBlock(block, this._chain, includeTransactions)
+      return await jsonRpcBlock(block, this._chain, includeTransactions, this._miner)
     } catch (error) {
       throw {
         code: INVALID_PARAMS,
@@ -523,7 +871,7 @@ export class Eth {
   async getBlockByNumber(params: [string, boolean]) {
     const [blockOpt, includeTransactions] = params
     const block = await getBlockByOption(blockOpt, this._chain)
-    return jsonRpcBlock(block, this._chain, includeTransactions)
+    return jsonRpcBlock(block, this._chain, includeTransactions, this._miner)
   }
 
   /**
@@ -558,7 +906,7 @@ export class Eth {
     }
 
     const vm = await this._vm.copy()
-    await vm.stateManager.setStateRoot(block.header.stateRoot)
+    await setStateRootOf(vm, block)
 
     const address = Address.fromString(addressHex)
     const code = await vm.stateManager.getContractCode(address)
@@ -581,17 +929,12 @@ export class Eth {
     }
 
     const vm = await this._vm.copy()
-    await vm.stateManager.setStateRoot(block.header.stateRoot)
+    await setStateRootOf(vm, block)
 
     const address = Address.fromString(addressHex)
-    const storageTrie = await (vm.stateManager as any)._getStorageTrie(address)
     const position = setLengthLeft(toBuffer(positionHex), 32)
-    const storage = await storageTrie.get(position)
-    return storage !== null && storage !== undefined
-      ? bufferToHex(
-          setLengthLeft(Buffer.from(RLP.decode(Uint8Array.from(storage)) as Uint8Array), 32)
-        )
-      : '0x'
+    const storage = await vm.stateManager.getContractStorage(address, position)
+    return storage.length > 0 ? bufferToHex(setLengthLeft(storage, 32)) : '0x'
   }
 
   /**
@@ -609,7 +952,7 @@ export class Eth {
       const [_receipt, blockHash, txIndex] = result
       const block = await this._chain.getBlock(blockHash)
       const tx = block.transactions[txIndex]
-      return jsonRpcTx(tx, block, txIndex)
+      return jsonRpcTx(tx, block, txIndex, txSender(tx, this._miner))
     } catch (error: any) {
       throw {
         code: INTERNAL_ERROR,
@@ -633,7 +976,7 @@ export class Eth {
     }
 
     const vm = await this._vm.copy()
-    await vm.stateManager.setStateRoot(block.header.stateRoot)
+    await setStateRootOf(vm, block)
 
     const address = Address.fromString(addressHex)
     const account: Account = await vm.stateManager.getAccount(address)
@@ -687,17 +1030,10 @@ export class Eth {
       const result = await this.receiptsManager.getReceiptByTxHash(toBuffer(txHash))
       if (!result) return null
       const [receipt, blockHash, txIndex, logIndex] = result
-      const block = await this._chain.getBlock(blockHash)
+      const block = withTxSenders(await this._chain.getBlock(blockHash), this._miner)
       const parentBlock = await this._chain.getBlock(block.header.parentHash)
       const tx = block.transactions[txIndex]
-      const effectiveGasPrice = tx.supports(Capability.EIP1559FeeMarket)
-        ? (tx as FeeMarketEIP1559Transaction).maxPriorityFeePerGas <
-          (tx as FeeMarketEIP1559Transaction).maxFeePerGas - block.header.baseFeePerGas!
-          ? (tx as FeeMarketEIP1559Transaction).maxPriorityFeePerGas
-          : (tx as FeeMarketEIP1559Transaction).maxFeePerGas -
-            block.header.baseFeePerGas! +
-            block.header.baseFeePerGas!
-        : (tx as Transaction).gasPrice
+      const effectiveGasPrice = getEffectiveGasPrice(tx, block.header.baseFeePerGas)
       // Run tx through copied vm to get tx gasUsed and createdAddress
       const runBlockResult = await (
         await this._vm!.copy()
@@ -725,6 +1061,75 @@ export class Eth {
     }
   }
 
+  /**
+   * Returns the receipts of all transactions in a block.
+   * Only available with `--saveReceipts` enabled
+   * @param params An array of one parameter:
+   *   1. integer block number, or the string "latest", "earliest" or "pending", or the block hash
+   * @returns The receipts (see {@link Eth.getTransactionReceipt}) or null if the block or its receipts are not found
+   */
+  async getBlockReceipts(params: [string]) {
+    const [blockOpt] = params
+    if (!this.receiptsManager) {
+      throw {
+        code: INTERNAL_ERROR,
+        message: 'receipts are not available, enable receipt saving with --saveReceipts',
+      }
+    }
+
+    let block: Block
+    if (blockOpt.length === 66) {
+      try {
+        block = await this._chain.getBlock(toBuffer(blockOpt))
+      } catch (error: any) {
+        return null
+      }
+    } else {
+      block = await getBlockByOption(blockOpt, this._chain)
+    }
+    if (block.transactions.length === 0) return []
+    block = withTxSenders(block, this._miner)
+
+    try {
+      const receipts = await this.receiptsManager.getReceipts(block.hash(), true)
+      if (receipts.length === 0) return null
+      const parentBlock = await this._chain.getBlock(block.header.parentHash)
+      // Run block through copied vm to get the txs gasUsed and createdAddress
+      const runBlockResult = await (
+        await this._vm!.copy()
+      ).runBlock({
+        block,
+        root: parentBlock.header.stateRoot,
+        skipBlockValidation: true,
+      })
+
+      let logIndex = 0
+      return await Promise.all(
+        receipts.map((receipt, txIndex) => {
+          const tx = block.transactions[txIndex]
+          const { totalGasSpent, createdAddress } = runBlockResult.results[txIndex]
+          const result = jsonRpcReceipt(
+            receipt,
+            totalGasSpent,
+            getEffectiveGasPrice(tx, block.header.baseFeePerGas),
+            block,
+            tx,
+            txIndex,
+            logIndex,
+            createdAddress
+          )
+          logIndex += receipt.logs.length
+          return result
+        })
+      )
+    } catch (error: any) {
+      throw {
+        code: INTERNAL_ERROR,
+        message: error.message.toString(),
+      }
+    }
+  }
+
   /**
    * Returns an array of all logs matching a given filter object.
    * Only available with `--saveReceipts` enabled
@@ -789,24 +1194,8 @@ export class Eth {
       }
     }
     try {
-      const formattedTopics = topics?.map((t) => {
-        if (t === null) {
-          return null
-        } else if (Array.isArray(t)) {
-          return t.map((x) => toBuffer(x))
-        } else {
-          return toBuffer(t)
-        }
-      })
-      let addrs
-      if (address !== undefined) {
-        if (Array.isArray(address)) {
-          addrs = address.map((a) => toBuffer(a))
-        } else {
-          addrs = [toBuffer(address)]
-        }
-      }
-      const logs = await this.receiptsManager.getLogs(from, to, addrs, formattedTopics)
+      const { addresses, topics: formattedTopics } = formatLogFilter(address, topics)
+      const logs = await this.receiptsManager.getLogs(from, to, addresses, formattedTopics)
       return await Promise.all(
         logs.map(({ log, block, tx, txIndex, logIndex }) =>
           jsonRpcLog(log, block, tx, txIndex, logIndex)
@@ -891,6 +1280,87 @@ export class Eth {
     return bufferToHex(tx.hash())
   }
 
+  /**
+   * Returns the addresses of the accounts in the keystore (only with `--keystore`)
+   * @param params An empty array
+   */
+  accounts(_params = []) {
+    return getKeystore(this.client.config)
+      .accounts()
+      .map((address) => address.toString())
+  }
+
+  /**
+   * Signs a message with an unlocked keystore account, prefixed with
+   * `"\x19Ethereum Signed Message:\n" + message.length` (only with `--keystore`)
+   * @param params An array of two parameters:
+   *   1. address of the account
+   *   2. the message to sign
+   * @returns the 65 bytes signature
+   */
+  sign(params: [string, string]) {
+    const [address, message] = params
+    const privateKey = unlockedKey(this.client.config, address)
+    const { v, r, s } = ecsign(hashPersonalMessage(toBuffer(message)), privateKey)
+    return toRpcSig(v, r, s)
+  }
+
+  /**
+   * Signs a transaction with an unlocked keystore account without sending it,
+   * filling in the nonce, fees and gas limit if not provided (only with `--keystore`)
+   * @param params An array of one parameter:
+   *   1. The transaction object (see {@link Eth.estimateGas}), `from` is required
+   * @returns the signed transaction data
+   */
+  async signTransaction(params: [RpcTx]) {
+    if (this._vm === undefined) {
+      throw new Error('missing vm')
+    }
+    const [transaction] = params
+    const privateKey = unlockedKey(this.client.config, transaction.from!)
+    const { txPool } = this.service as FullEthereumService
+    const common = this._vm._common.copy()
+    const tx = await signTransaction(this, transaction, privateKey, common, txPool)
+    return bufferToHex(tx.serialize())
+  }
+
+  /**
+   * Signs a transaction with an unlocked keystore account (see {@link Eth.signTransaction})
+   * and sends it (see {@link Eth.sendRawTransaction}) (only with `--keystore`).
+   * In dev mode also sends transactions of impersonated accounts (see `anvil_impersonateAccount`).
+   * @param params An array of one parameter:
+   *   1. The transaction object (see {@link Eth.estimateGas}), `from` is required
+   * @returns the tx hash
+   */
+  async sendTransaction(params: [RpcTx]) {
+    const [transaction] = params
+    const { miner, txPool } = this.service as FullEthereumService
+    const from = Address.fromString(transaction.from!)
+    if (miner?.impersonatedAccounts.has(from.toString()) !== true) {
+      return this.sendRawTransaction([await this.signTransaction(params)])
+    }
+    if (this._vm === undefined) {
+      throw new Error('missing vm')
+    }
+    // Sign with a throwaway key to pass the signature checks, the tx is only valid
+    // with the sender set here and can therefore not be broadcasted
+    const common = this._vm._common.copy()
+    const signed = await signTransaction(this, transaction, randomBytes(32), common, txPool)
+    const tx = impersonatedTx(signed, from)
+    const hash = bufferToHex(tx.hash())
+    miner.impersonatedTxs.set(hash, from)
+    try {
+      await txPool.add(tx, true)
+    } catch (error: any) {
+      miner.impersonatedTxs.delete(hash)
+      throw {
+        code: INVALID_PARAMS,
+        message: error.message ?? error.toString(),
+      }
+    }
+    return hash
+  }
+
   /**
    * Returns an account object along with data about the proof.
    * @param params An array of three parameters:
@@ -912,7 +1382,7 @@ export class Eth {
     if (!('getProof' in vm.stateManager)) {
       throw new Error('getProof RPC method not supported with the StateManager provided')
     }
-    await vm.stateManager.setStateRoot(block.header.stateRoot)
+    await setStateRootOf(vm, block)
 
     const address = Address.fromString(addressHex)
     const slots = slotsHex.map((slotHex) => setLengthLeft(toBuffer(slotHex), 32))
@@ -1026,4 +1496,269 @@ export class Eth {
 
     return bigIntToHex(gasPrice)
   }
+
+  /**
+   * Returns the base fee per gas, the gas used ratio and the requested
+   * reward percentiles for a range of blocks ending with the given block.
+   * Reward percentiles are only available with `--saveReceipts` enabled
+   * @param params An array of three parameters:
+   *   1. number of blocks in the requested range (between 1 and 1024)
+   *   2. integer of the newest block, or the string "latest" or "earliest"
+   *   3. (optional) ascending list of percentiles (0-100) to sample the effective
+   *      priority fees per gas of each block with, weighted by gas used
+   * @returns An object with:
+   *   * oldestBlock - Lowest block number of the returned range
+   *   * baseFeePerGas - Base fees per gas of the blocks, including the projected base fee of the block after the newest one
+   *   * gasUsedRatio - Ratios of gas used to gas limit of the blocks
+   *   * reward - (only with percentiles) Effective priority fees per gas at the requested percentiles for each block
+   */
+  async feeHistory(params: [string | number, string, number[]?]) {
+    const [blockCount, newestBlockOpt, rewardPercentiles] = params
+    const newestBlock = await getBlockByOption(newestBlockOpt, this._chain)
+
+    if (rewardPercentiles !== undefined && !this.receiptsManager) {
+      throw {
+        code: INTERNAL_ERROR,
+        message: 'reward percentiles are only available with --saveReceipts enabled',
+      }
+    }
+
+    let count = BigInt(blockCount)
+    if (count > newestBlock.header.number + BigInt(1)) {
+      count = newestBlock.header.number + BigInt(1)
+    }
+    const oldestBlock = newestBlock.header.number - count + BigInt(1)
+
+    const baseFeePerGas: bigint[] = []
+    const gasUsedRatio: number[] = []
+    const reward: bigint[][] = []
+    for (let number = oldestBlock; number <= newestBlock.header.number; number++) {
+      const block =
+        number === newestBlock.header.number ? newestBlock : await this._chain.getBlock(number)
+      const { baseFeePerGas: baseFee, gasUsed, gasLimit } = block.header
+      baseFeePerGas.push(baseFee ?? BigInt(0))
+      gasUsedRatio.push(Number(gasUsed) / Number(gasLimit))
+
+      if (rewardPercentiles !== undefined) {
+        reward.push(await getBlockRewards(block, rewardPercentiles, this.receiptsManager!))
+      }
+    }
+    // Projected base fee of the block following the newest one
+    const { header } = newestBlock
+    baseFeePerGas.push(header._common.isActivatedEIP(1559) ? header.calcNextBaseFee() : BigInt(0))
+
+    return {
+      oldestBlock: bigIntToHex(oldestBlock),
+      baseFeePerGas: baseFeePerGas.map(bigIntToHex),
+      gasUsedRatio,
+      reward: rewardPercentiles !== undefined ? reward.map((r) => r.map(bigIntToHex)) : undefined,
+    }
+  }
+
+  /**
+   * Priority fee oracle.
+   *
+   * Returns a suggested priority fee per gas (tip) for EIP-1559 txs,
+   * based on the effective priority fees paid in the last 20 blocks.
+   * @returns a hex code of an integer representing the suggested priority fee per gas in wei.
+   */
+  async maxPriorityFeePerGas(_params = []) {
+    const latest = await this._chain.getCanonicalHeadHeader()
+    const blockIterations = 20 < latest.number ? 20 : latest.number + BigInt(1)
+    const priorityFees: bigint[] = []
+    for (let i = BigInt(0); i < blockIterations; i++) {
+      const block = await this._chain.getBlock(latest.number - i)
+      for (const tx of block.transactions) {
+        priorityFees.push(getEffectivePriorityFee(tx, block.header.baseFeePerGas))
+      }
+    }
+
+    if (priorityFees.length === 0) {
+      return bigIntToHex(BigInt(1))
+    }
+    priorityFees.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+    // Use the 60th percentile of the sampled priority fees (as geth does)
+    const priorityFee = priorityFees[Math.floor(((priorityFees.length - 1) * 60) / 100)]
+    return bigIntToHex(priorityFee > BigInt(0) ? priorityFee : BigInt(1))
+  }
+
+  /**
+   * Creates a filter object, based on filter options, to notify when the state changes (logs).
+   * To check if the state has changed, call {@link Eth.getFilterChanges}.
+   * Only available with `--saveReceipts` enabled
+   * @param params An object of the filter options {@link GetLogsParams}
+   * @returns The filter id
+   */
+  async newFilter(params: [GetLogsParams]) {
+    const { fromBlock, toBlock, blockHash, address, topics } = params[0]
+    let from, to
+    if (blockHash !== undefined) {
+      if (fromBlock !== undefined || toBlock !== undefined) {
+        throw {
+          code: INVALID_PARAMS,
+          message: `Can only specify a blockHash if fromBlock or toBlock are not provided`,
+        }
+      }
+      let block
+      try {
+        block = await this._chain.getBlock(toBuffer(blockHash))
+      } catch (error: any) {
+        throw {
+          code: INVALID_PARAMS,
+          message: 'unknown blockHash',
+        }
+      }
+      from = to = block.header.number
+    } else {
+      const toNumber = (blockOpt?: string) =>
+        blockOpt === undefined || blockOpt === 'latest' || blockOpt === 'pending'
+          ? undefined
+          : blockOpt === 'earliest'
+          ? BigInt(0)
+          : BigInt(blockOpt)
+      from = toNumber(fromBlock)
+      to = toNumber(toBlock)
+    }
+    return installFilter(
+      this.filterManager,
+      FilterType.Log,
+      { fromBlock: from, toBlock: to, ...formatLogFilter(address, topics) },
+      params[0]
+    )
+  }
+
+  /**
+   * Creates a filter in the node, to notify when a new block arrives.
+   * To check if the state has changed, call {@link Eth.getFilterChanges}.
+   * @param params An empty array
+   * @returns The filter id
+   */
+  async newBlockFilter(_params = []) {
+    return installFilter(this.filterManager, FilterType.Block)
+  }
+
+  /**
+   * Creates a filter in the node, to notify when new pending transactions arrive.
+   * To check if the state has changed, call {@link Eth.getFilterChanges}.
+   * @param params An empty array
+   * @returns The filter id
+   */
+  async newPendingTransactionFilter(_params = []) {
+    return installFilter(this.filterManager, FilterType.PendingTransaction)
+  }
+
+  /**
+   * Polling method for a filter, which returns an array of logs (log filters)
+   * or hashes (block and pending transaction filters) which occurred since the last poll.
+   * @param params An array of one parameter:
+   *   1. the filter id
+   */
+  async getFilterChanges(params: [string]) {
+    const [id] = params
+    const filter = this.filterManager.get(id)
+    if (!filter) {
+      throw {
+        code: INVALID_PARAMS,
+        message: 'filter not found',
+      }
+    }
+    if (filter.type !== FilterType.Log) {
+      return this.filterManager.getHashChanges(filter).map((hash) => bufferToHex(hash))
+    }
+    try {
+      const logs = await this.filterManager.getLogChanges(filter)
+      return await Promise.all(
+        logs.map(({ log, block, tx, txIndex, logIndex }) =>
+          jsonRpcLog(log, block, tx, txIndex, logIndex)
+        )
+      )
+    } catch (error: any) {
+      throw {
+        code: INTERNAL_ERROR,
+        message: error.message.toString(),
+      }
+    }
+  }
+
+  /**
+   * Returns an array of all logs matching the filter with the given id.
+   * Only available with `--saveReceipts` enabled
+   * @param params An array of one parameter:
+   *   1. the id of a filter created with {@link Eth.newFilter}
+   */
+  async getFilterLogs(params: [string]) {
+    const [id] = params
+    const filter = this.filterManager.get(id)
+    if (!filter || filter.type !== FilterType.Log) {
+      throw {
+        code: INVALID_PARAMS,
+        message: 'filter not found',
+      }
+    }
+    return this.getLogs([filter.params])
+  }
+
+  /**
+   * Uninstalls a filter with the given id.
+   * Filters are also removed automatically when not polled for some time.
+   * @param params An array of one parameter:
+   *   1. the filter id
+   * @returns true if the filter was successfully uninstalled, otherwise false
+   */
+  async uninstallFilter(params: [string]) {
+    const [id] = params
+    return this.filterManager.uninstall(id)
+  }
+
+  /**
+   * Subscribes to notifications which are pushed as `eth_subscription` messages.
+   * Only available over WebSocket connections
+   * @param params An array of one or two parameters:
+   *   1. the subscription type: "newHeads", "logs", "newPendingTransactions" or "syncing"
+   *   2. (optional, only for "logs") an object with the `address` and `topics` to filter the logs by
+   * @param context the RPC call context
+   * @returns The subscription id
+   */
+  async subscribe(
+    params: [SubscriptionType, Pick<GetLogsParams, 'address' | 'topics'>?],
+    context?: RpcContext
+  ) {
+    const [type, filter] = params
+    const connection = context?.connection
+    if (!connection) {
+      throw {
+        code: METHOD_NOT_FOUND,
+        message: 'notifications not supported',
+      }
+    }
+    const criteria =
+      type === SubscriptionType.Logs ? formatLogFilter(filter?.address, filter?.topics) : undefined
+    try {
+      return this.subscriptionManager.subscribe(connection, type, criteria)
+    } catch (error: any) {
+      throw {
+        code: INTERNAL_ERROR,
+        message: error.message.toString(),
+      }
+    }
+  }
+
+  /**
+   * Cancels a subscription created on the same connection with {@link Eth.subscribe}
+   * @param params An array of one parameter:
+   *   1. the subscription id
+   * @param context the RPC call context
+   * @returns true if the subscription was successfully cancelled, otherwise false
+   */
+  async unsubscribe(params: [string], context?: RpcContext) {
+    const [id] = params
+    const connection = context?.connection
+    if (!connection) {
+      throw {
+        code: METHOD_NOT_FOUND,
+        message: 'notifications not supported',
+      }
+    }
+    return this.subscriptionManager.unsubscribe(connection, id)
+  }
 }
@@ -0,0 +1,159 @@
+import { bigIntToHex, intToHex } from '@ethereumjs/util'
+
+import { INVALID_PARAMS } from '../error-code'
+import { getMiner } from '../helpers'
+import { middleware, validators } from '../validation'
+
+import type { EthereumClient } from '../..'
+import type { Chain } from '../../blockchain'
+import type { FullEthereumService } from '../../service'
+import type { TxPoolSnapshot } from '../../service/txpool'
+import type { Address } from '@ethereumjs/util'
+
+type Snapshot = {
+  number: bigint
+  timeOffset: number
+  impersonatedAccounts: Set<string>
+  impersonatedTxs: Map<string, Address>
+  txPool: TxPoolSnapshot
+}
+
+/**
+ * Sets the timestamp of the next block, throws if not after the latest block
+ * @param service the service with the miner
+ * @param timestamp the timestamp
+ */
+function setNextBlockTimestamp(service: FullEthereumService, timestamp: bigint) {
+  const latest = service.chain.headers.latest!.timestamp
+  if (timestamp <= latest) {
+    throw {
+      code: INVALID_PARAMS,
+      message: `timestamp ${timestamp} is not after the timestamp ${latest} of the latest block`,
+    }
+  }
+  getMiner(service).nextTimestamp = timestamp
+}
+
+/**
+ * evm_* RPC module, controlling the mining of a dev chain (only available with `--dev`)
+ * @memberof module:rpc/modules
+ */
+export class Evm {
+  private _service: FullEthereumService
+  private _chain: Chain
+  private _snapshots: Map<number, Snapshot> = new Map()
+  private _nextSnapshotId = 1
+
+  /**
+   * Create evm_* RPC module
+   * @param client Client to which the module binds
+   */
+  constructor(client: EthereumClient) {
+    this._service = client.services.find((s) => s.name === 'eth') as FullEthereumService
+    this._chain = this._service.chain
+    const timestamp = validators.either(validators.integer, validators.hex)
+    this.mine = middleware(this.mine.bind(this), 0, [[validators.optional(timestamp)]])
+    this.increaseTime = middleware(this.increaseTime.bind(this), 1, [[timestamp]])
+    this.setNextBlockTimestamp = middleware(this.setNextBlockTimestamp.bind(this), 1, [[timestamp]])
+    this.snapshot = middleware(this.snapshot.bind(this), 0, [])
+    this.revert = middleware(this.revert.bind(this), 1, [[validators.hex]])
+  }
+
+  /**
+   * Mines a block with the txs of the tx pool
+   * @param params An array of one parameter:
+   *   1. (optional) timestamp of the block (integer or hex), see {@link Evm.setNextBlockTimestamp}
+   */
+  async mine(params: [(number | string)?] = []) {
+    const [timestamp] = params
+    if (timestamp !== undefined) {
+      setNextBlockTimestamp(this._service, BigInt(timestamp))
+    }
+    await getMiner(this._service).mineBlock()
+    return '0x0'
+  }
+
+  /**
+   * Moves the time used for the timestamps of new blocks forward
+   * @param params An array of one parameter:
+   *   1. number of seconds (integer or hex)
+   * @returns the total number of seconds the time has been moved by
+   */
+  increaseTime(params: [number | string]) {
+    const miner = getMiner(this._service)
+    miner.timeOffset += Number(params[0])
+    return intToHex(miner.timeOffset)
+  }
+
+  /**
+   * Sets the timestamp of the next block, the following blocks continue from it
+   * @param params An array of one parameter:
+   *   1. the timestamp (integer or hex), which has to be after the latest block
+   * @returns the timestamp
+   */
+  setNextBlockTimestamp(params: [number | string]) {
+    const timestamp = BigInt(params[0])
+    setNextBlockTimestamp(this._service, timestamp)
+    return bigIntToHex(timestamp)
+  }
+
+  /**
+   * Takes a snapshot of the chain to return to with {@link Evm.revert}: the state is
+   * checkpointed, the head block, the time of the miner, the impersonated accounts
+   * and the pooled txs are recorded
+   * @param params An empty array
+   * @returns the id of the snapshot
+   */
+  async snapshot(_params = []) {
+    const miner = getMiner(this._service)
+    await this._service.execution.vm.stateManager.checkpoint()
+    const id = this._nextSnapshotId++
+    this._snapshots.set(id, {
+      number: this._chain.blocks.height,
+      timeOffset: miner.timeOffset,
+      impersonatedAccounts: new Set(miner.impersonatedAccounts),
+      impersonatedTxs: new Map(miner.impersonatedTxs),
+      txPool: this._service.txPool.snapshot(),
+    })
+    return intToHex(id)
+  }
+
+  /**
+   * Returns to a snapshot: the state is reverted to the checkpoint, the head is reset to
+   * the block of the snapshot (deleting the blocks mined since) and the time of the miner,
+   * the impersonated accounts and the pooled txs are restored. The snapshot and all
+   * snapshots taken after it can not be reverted to again.
+   * @param params An array of one parameter:
+   *   1. the id of the snapshot
+   * @returns true if reverted, false if there is no snapshot with the id
+   */
+  async revert(params: [string]) {
+    const id = Number(params[0])
+    if (!this._snapshots.has(id)) {
+      return false
+    }
+    const miner = getMiner(this._service)
+    const { execution, txPool } = this._service
+    // Revert the checkpoints of the snapshots taken after it along, latest first
+    let snapshot: Snapshot | undefined
+    for (const snapshotId of [...this._snapshots.keys()].reverse()) {
+      if (snapshotId < id) break
+      snapshot = this._snapshots.get(snapshotId)!
+      this._snapshots.delete(snapshotId)
+      await execution.vm.stateManager.revert()
+    }
+    const { number, timeOffset, impersonatedAccounts, impersonatedTxs } = snapshot!
+    if (this._chain.blocks.height > number) {
+      // Deletes the following blocks along, resetting the head and the execution head
+      const block = await this._chain.getBlock(number + BigInt(1))
+      await this._chain.blockchain.delBlock(block.hash())
+      await this._chain.update()
+    }
+    miner.timeOffset = timeOffset
+    miner.nextTimestamp = undefined
+    miner.impersonatedAccounts = impersonatedAccounts
+    miner.impersonatedTxs = impersonatedTxs
+    txPool.restore(snapshot!.txPool)
+    return true
+  }
+}
@@ -1,8 +1,23 @@
-export const list = ['Eth', 'Engine', 'Web3', 'Net', 'Admin', 'TxPool']
+export const list = [
+  'Eth',
+  'Engine',
+  'Web3',
+  'Net',
+  'Admin',
+  'TxPool',
+  'Debug',
+  'Personal',
+  'Evm',
+  'Anvil',
+]
 
 export * from './admin'
+export * from './anvil'
+export * from './debug'
 export * from './engine'
 export * from './eth'
+export * from './evm'
 export * from './net'
+export * from './personal'
 export * from './txpool'
 export * from './web3'
@@ -0,0 +1,80 @@
+import { Address } from '@ethereumjs/util'
+
+import { INVALID_PARAMS } from '../error-code'
+import { getKeystore } from '../helpers'
+import { middleware, validators } from '../validation'
+
+import type { EthereumClient } from '../..'
+import type { Config } from '../../config'
+
+/**
+ * personal_* RPC module, managing the accounts of the keystore
+ * (only available with `--keystore`)
+ * @memberof module:rpc/modules
+ */
+export class Personal {
+  private _config: Config
+
+  /**
+   * Create personal_* RPC module
+   * @param client Client to which the module binds
+   */
+  constructor(client: EthereumClient) {
+    this._config = client.config
+    this.listAccounts = middleware(this.listAccounts.bind(this), 0, [])
+    this.newAccount = middleware(this.newAccount.bind(this), 1, [[validators.string]])
+    this.unlockAccount = middleware(this.unlockAccount.bind(this), 2, [
+      [validators.address],
+      [validators.string],
+      [validators.optional(validators.integer)],
+    ])
+  }
+
+  /**
+   * Returns the addresses of the accounts in the keystore
+   * @param params An empty array
+   */
+  listAccounts(_params = []) {
+    return getKeystore(this._config)
+      .accounts()
+      .map((address) => address.toString())
+  }
+
+  /**
+   * Creates a new account in the keystore
+   * @param params An array of one parameter:
+   *   1. the password to encrypt the key of the account with
+   * @returns the address of the new account
+   */
+  async newAccount(params: [string]) {
+    const address = await getKeystore(this._config).newAccount(params[0])
+    return address.toString()
+  }
+
+  /**
+   * Unlocks an account of the keystore for signing
+   * @param params An array of three parameters:
+   *   1. address of the account
+   *   2. the password of the account
+   *   3. (optional) number of seconds to keep the account unlocked, 0 to keep it
+   *      unlocked until the client is stopped (default: 300)
+   * @returns true if the account was unlocked
+   */
+  async unlockAccount(params: [string, string, number?]) {
+    const [address, password, duration] = params
+    const keystore = getKeystore(this._config)
+    try {
+      await keystore.unlock(
+        Address.fromString(address),
+        password,
+        duration ?? keystore.DEFAULT_UNLOCK_DURATION
+      )
+    } catch (error: any) {
+      throw {
+        code: INVALID_PARAMS,
+        message: error.message,
+      }
+    }
+    return true
+  }
+}
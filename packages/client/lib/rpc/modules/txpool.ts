@@ -1,20 +1,63 @@
+import { Capability } from '@ethereumjs/tx'
+import { intToHex } from '@ethereumjs/util'
+
 import { jsonRpcTx } from '../helpers'
-import { middleware } from '../validation'
+import { middleware, validators } from '../validation'
 
 import type { EthereumClient } from '../..'
 import type { FullEthereumService } from '../../service'
 import type { TxPool as Pool } from '../../service/txpool'
+import type { FeeMarketEIP1559Transaction, Transaction, TypedTransaction } from '@ethereumjs/tx'
 import type { VM } from '@ethereumjs/vm'
 
+type PoolObjects = Map<string, { tx: TypedTransaction }[]>
+
 /**
- * web3_* RPC module
+ * Returns the txs mapped by nonce
+ * @param txs pooled txs of a sender
+ * @param format formats a tx for the response
+ */
+function byNonce<T>(txs: { tx: TypedTransaction }[], format: (tx: TypedTransaction) => T) {
+  const result: { [nonce: string]: T } = {}
+  for (const { tx } of txs) {
+    result[tx.nonce.toString()] = format(tx)
+  }
+  return result
+}
+
+/**
+ * Returns the txs of each sender mapped by nonce
+ * @param objects pending or queued txs of the pool
+ * @param format formats a tx for the response
+ */
+function bySender<T>(objects: PoolObjects, format: (tx: TypedTransaction) => T) {
+  const result: { [address: string]: { [nonce: string]: T } } = {}
+  for (const [address, txs] of objects) {
+    if (txs.length > 0) result['0x' + address] = byNonce(txs, format)
+  }
+  return result
+}
+
+/**
+ * Summarizes a tx in the format used by `txpool_inspect`
+ */
+function inspectTx(tx: TypedTransaction) {
+  const to = tx.to !== undefined ? tx.to.toString() : 'contract creation'
+  const gasPrice = tx.supports(Capability.EIP1559FeeMarket)
+    ? (tx as FeeMarketEIP1559Transaction).maxFeePerGas
+    : (tx as Transaction).gasPrice
+  return `${to}: ${tx.value} wei + ${tx.gasLimit} gas × ${gasPrice} wei`
+}
+
+/**
+ * txpool_* RPC module
  * @memberof module:rpc/modules
  */
 export class TxPool {
   private _txpool: Pool
   private _vm: VM
   /**
-   * Create web3_* RPC module
+   * Create txpool_* RPC module
    * @param client Client to which the module binds
    */
   constructor(client: EthereumClient) {
@@ -22,6 +65,9 @@ export class TxPool {
     this._txpool = service.txPool
     this._vm = service.execution.vm
     this.content = middleware(this.content.bind(this), 0, [])
+    this.contentFrom = middleware(this.contentFrom.bind(this), 1, [[validators.address]])
+    this.inspect = middleware(this.inspect.bind(this), 0, [])
+    this.status = middleware(this.status.bind(this), 0, [])
   }
 
   /**
@@ -29,16 +75,42 @@ export class TxPool {
    * @param params An empty array
    */
   content(_params = []) {
-    const pending = new Map()
-    for (const pool of this._txpool.pool) {
-      const pendingForAcct = new Map<bigint, any>()
-      for (const tx of pool[1]) {
-        pendingForAcct.set(tx.tx.nonce, jsonRpcTx(tx.tx))
-      }
-      if (pendingForAcct.size > 0) pending.set('0x' + pool[0], Object.fromEntries(pendingForAcct))
+    return {
+      pending: bySender(this._txpool.pool, jsonRpcTx),
+      queued: bySender(this._txpool.queued, jsonRpcTx),
     }
+  }
+
+  /**
+   * Returns the transactions of an account in the transaction pool
+   * @param params An array of one parameter:
+   *   1. address of the account
+   */
+  contentFrom(params: [string]) {
+    const address = params[0].slice(2).toLowerCase()
+    return {
+      pending: byNonce(this._txpool.pool.get(address) ?? [], jsonRpcTx),
+      queued: byNonce(this._txpool.queued.get(address) ?? [], jsonRpcTx),
+    }
+  }
+
+  /**
+   * Returns a textual summary of the transactions in the transaction pool
+   * @param params An empty array
+   */
+  inspect(_params = []) {
     return {
-      pending: Object.fromEntries(pending),
+      pending: bySender(this._txpool.pool, inspectTx),
+      queued: bySender(this._txpool.queued, inspectTx),
     }
   }
+
+  /**
+   * Returns the number of pending and queued transactions in the transaction pool
+   * @param params An empty array
+   */
+  status(_params = []) {
+    const { pending, queued } = this._txpool.status()
+    return { pending: intToHex(pending), queued: intToHex(queued) }
+  }
 }
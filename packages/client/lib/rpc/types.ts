@@ -1,3 +1,5 @@
+import type { SubscriptionConnection } from './util/SubscriptionManager'
+
 export interface RpcTx {
   from?: string
   to?: string
@@ -5,7 +7,31 @@ export interface RpcTx {
   gasPrice?: string
   value?: string
   data?: string
+  nonce?: string
   maxPriorityFeePerGas?: string
   maxFeePerGas?: string
   type?: string
+  accessList?: { address: string; storageKeys: string[] }[]
+}
+
+export type JsonRpcLog = {
+  removed: boolean // TAG - true when the log was removed, due to a chain reorganization. false if it's a valid log.
+  logIndex: string | null // QUANTITY - integer of the log index position in the block. null when it's pending.
+  transactionIndex: string | null // QUANTITY - integer of the transactions index position log was created from. null when it's pending.
+  transactionHash: string | null // DATA, 32 Bytes - hash of the transactions this log was created from. null when it's pending.
+  blockHash: string | null // DATA, 32 Bytes - hash of the block where this log was in. null when it's pending.
+  blockNumber: string | null // QUANTITY - the block number where this log was in. null when it's pending.
+  address: string // DATA, 20 Bytes - address from which this log originated.
+  data: string // DATA - contains one or more 32 Bytes non-indexed arguments of the log.
+  topics: string[] // Array of DATA - Array of 0 to 4 32 Bytes DATA of indexed log arguments.
+  // (In solidity: The first topic is the hash of the signature of the event
+  // (e.g. Deposit(address,bytes32,uint256)), except you declared the event with the anonymous specifier.)
+}
+
+/**
+ * Context passed to the RPC methods, `connection` is only set
+ * for calls made over a persistent (WebSocket) connection
+ */
+export interface RpcContext {
+  connection?: SubscriptionConnection
 }
@@ -0,0 +1,268 @@
+import { randomBytes } from 'crypto'
+
+import { Event } from '../../types'
+
+import type { Chain } from '../../blockchain'
+import type { Config } from '../../config'
+import type { ReceiptsManager } from '../../execution/receipt'
+import type { Block } from '@ethereumjs/block'
+import type { Log } from '@ethereumjs/evm'
+import type { TypedTransaction } from '@ethereumjs/tx'
+
+export enum FilterType {
+  Log = 'log',
+  Block = 'block',
+  PendingTransaction = 'pendingTransaction',
+}
+
+/**
+ * Log filter criteria with resolved block numbers,
+ * undefined block numbers follow the chain head
+ */
+export type LogFilterCriteria = {
+  fromBlock?: bigint
+  toBlock?: bigint
+  addresses?: Buffer[]
+  topics?: (Buffer | Buffer[] | null)[]
+}
+
+export type Filter = {
+  id: string
+  type: FilterType
+  /* Timestamp (ms) of the filter creation or last poll, used for expiry */
+  lastPolled: number
+  /* Block or tx hashes collected since the last poll */
+  hashes: Buffer[]
+  /* Log filter criteria */
+  criteria?: LogFilterCriteria
+  /* Next block number to search for logs from on the next poll */
+  nextBlock: bigint
+  /* Original filter params as passed to `eth_newFilter` */
+  params?: any
+}
+
+type FilterManagerOpts = {
+  config: Config
+  chain: Chain
+  receiptsManager?: ReceiptsManager
+}
+
+type GetLogChangesReturn = {
+  log: Log
+  block: Block
+  tx: TypedTransaction
+  txIndex: number
+  logIndex: number
+}[]
+
+/**
+ * Manages the polling filters created with `eth_newFilter`,
+ * `eth_newBlockFilter` and `eth_newPendingTransactionFilter`
+ */
+export class FilterManager {
+  private config: Config
+  private chain: Chain
+  private receiptsManager?: ReceiptsManager
+
+  private filters: Map<string, Filter> = new Map()
+
+  /* Number of the latest block announced to block filters */
+  private lastHead: bigint | undefined
+
+  private _cleanupInterval?: NodeJS.Timeout /* global NodeJS */
+
+  /** Time (in ms) after which a filter which is not polled is removed */
+  public FILTER_TIMEOUT = 5 * 60 * 1000
+
+  /** Maximum number of hashes kept per filter between polls */
+  public MAX_HASHES_PER_FILTER = 10000
+
+  /** Maximum number of installed filters */
+  public MAX_FILTERS = 1000
+
+  constructor(opts: FilterManagerOpts) {
+    this.config = opts.config
+    this.chain = opts.chain
+    this.receiptsManager = opts.receiptsManager
+
+    this.onChainUpdated = this.onChainUpdated.bind(this)
+    this.onTxAdded = this.onTxAdded.bind(this)
+    this.config.events.on(Event.CHAIN_UPDATED, this.onChainUpdated)
+    this.config.events.on(Event.TXPOOL_TX_ADDED, this.onTxAdded)
+    this.config.events.once(Event.CLIENT_SHUTDOWN, () => this.stopCleanup())
+  }
+
+  /**
+   * Number of currently installed filters
+   */
+  get size() {
+    return this.filters.size
+  }
+
+  /**
+   * Installs a new filter and returns its id
+   * @param type type of the filter
+   * @param criteria log filter criteria (only for {@link FilterType.Log})
+   * @param params original filter params (only for {@link FilterType.Log})
+   */
+  install(type: FilterType, criteria?: LogFilterCriteria, params?: any): string {
+    if (this.filters.size >= this.MAX_FILTERS) {
+      throw new Error(`filter limit of ${this.MAX_FILTERS} reached`)
+    }
+    const id = '0x' + randomBytes(16).toString('hex')
+    const head = this.chain.blocks.height
+    if (this.lastHead === undefined) {
+      this.lastHead = head
+    }
+    this.filters.set(id, {
+      id,
+      type,
+      lastPolled: Date.now(),
+      hashes: [],
+      criteria,
+      nextBlock: head + BigInt(1),
+      params,
+    })
+    this.startCleanup()
+    return id
+  }
+
+  /**
+   * Removes a filter
+   * @param id the filter id
+   * @returns true if the filter existed
+   */
+  uninstall(id: string): boolean {
+    const deleted = this.filters.delete(id)
+    if (this.filters.size === 0) {
+      this.stopCleanup()
+    }
+    return deleted
+  }
+
+  /**
+   * Returns the filter for the given id and resets its expiry
+   * @param id the filter id
+   */
+  get(id: string): Filter | undefined {
+    const filter = this.filters.get(id)
+    if (filter) {
+      filter.lastPolled = Date.now()
+    }
+    return filter
+  }
+
+  /**
+   * Returns the block or tx hashes collected since the last poll and clears them
+   * @param filter a block or pending tx filter
+   */
+  getHashChanges(filter: Filter): Buffer[] {
+    const hashes = filter.hashes
+    filter.hashes = []
+    return hashes
+  }
+
+  /**
+   * Returns the logs matching the filter in the blocks added since the last poll
+   * @param filter a log filter
+   */
+  async getLogChanges(filter: Filter): Promise<GetLogChangesReturn> {
+    if (!this.receiptsManager) throw new Error('missing receiptsManager')
+    const { fromBlock, toBlock, addresses, topics } = filter.criteria ?? {}
+    const head = this.chain.blocks.height
+
+    let from = filter.nextBlock
+    if (fromBlock !== undefined && fromBlock > from) {
+      from = fromBlock
+    }
+    let to = head
+    if (toBlock !== undefined && toBlock < to) {
+      to = toBlock
+    }
+    if (from > to) return []
+
+    const limit = BigInt(this.receiptsManager.GET_LOGS_BLOCK_RANGE_LIMIT)
+    if (to - from > limit) {
+      to = from + limit
+    }
+    const logs = await this.receiptsManager.getLogs(
+      await this.chain.getBlock(from),
+      await this.chain.getBlock(to),
+      addresses,
+      topics
+    )
+    filter.nextBlock = to + BigInt(1)
+    return logs
+  }
+
+  /**
+   * Collects the hashes of new canonical blocks for the block filters
+   */
+  private async onChainUpdated() {
+    const head = this.chain.blocks.latest?.header
+    if (!head || this.lastHead === undefined) return
+    const from = this.lastHead + BigInt(1)
+    this.lastHead = head.number
+    if (head.number < from) return
+
+    const blockFilters = [...this.filters.values()].filter((f) => f.type === FilterType.Block)
+    if (blockFilters.length === 0) return
+
+    const count = head.number - from + BigInt(1)
+    const max = count > this.MAX_HASHES_PER_FILTER ? this.MAX_HASHES_PER_FILTER : Number(count)
+    try {
+      const headers = await this.chain.getHeaders(head.number - BigInt(max - 1), max, 0, false)
+      for (const filter of blockFilters) {
+        this.addHashes(filter, ...headers.map((h) => h.hash()))
+      }
+    } catch (error: any) {
+      this.config.logger.debug(`Error collecting new block hashes for filters: ${error.message}`)
+    }
+  }
+
+  /**
+   * Collects the hashes of txs added to the tx pool for the pending tx filters
+   */
+  private onTxAdded(tx: TypedTransaction) {
+    for (const filter of this.filters.values()) {
+      if (filter.type === FilterType.PendingTransaction) {
+        this.addHashes(filter, tx.hash())
+      }
+    }
+  }
+
+  private addHashes(filter: Filter, ...hashes: Buffer[]) {
+    filter.hashes.push(...hashes)
+    if (filter.hashes.length > this.MAX_HASHES_PER_FILTER) {
+      filter.hashes = filter.hashes.slice(-this.MAX_HASHES_PER_FILTER)
+    }
+  }
+
+  /**
+   * Removes filters which have not been polled within {@link FilterManager.FILTER_TIMEOUT}
+   */
+  cleanup() {
+    const now = Date.now()
+    for (const [id, filter] of this.filters) {
+      if (now - filter.lastPolled > this.FILTER_TIMEOUT) {
+        this.filters.delete(id)
+      }
+    }
+    if (this.filters.size === 0) {
+      this.stopCleanup()
+    }
+  }
+
+  private startCleanup() {
+    if (this._cleanupInterval) return
+    this._cleanupInterval = setInterval(this.cleanup.bind(this), this.FILTER_TIMEOUT / 5)
+    this._cleanupInterval.unref?.()
+  }
+
+  private stopCleanup() {
+    if (this._cleanupInterval) {
+      clearInterval(this._cleanupInterval)
+      this._cleanupInterval = undefined
+    }
+  }
+}
@@ -0,0 +1,274 @@
+import { bigIntToHex, bufferToHex, intToHex } from '@ethereumjs/util'
+import { randomBytes } from 'crypto'
+
+import { Event } from '../../types'
+import { jsonRpcLog } from '../helpers'
+
+import type { Chain } from '../../blockchain'
+import type { Config } from '../../config'
+import type { ReceiptsManager } from '../../execution/receipt'
+import type { Synchronizer } from '../../sync'
+import type { LogFilterCriteria } from './FilterManager'
+import type { Block, BlockHeader } from '@ethereumjs/block'
+import type { TypedTransaction } from '@ethereumjs/tx'
+import type { TxReceipt } from '@ethereumjs/vm'
+
+export enum SubscriptionType {
+  NewHeads = 'newHeads',
+  Logs = 'logs',
+  NewPendingTransactions = 'newPendingTransactions',
+  Syncing = 'syncing',
+}
+
+/**
+ * A persistent connection (e.g. a WebSocket) notifications can be pushed to
+ */
+export interface SubscriptionConnection {
+  send(data: string): void
+  once(event: 'close', listener: () => void): any
+}
+
+type Subscription = {
+  id: string
+  type: SubscriptionType
+  connection: SubscriptionConnection
+  /* Log filter criteria (only for {@link SubscriptionType.Logs}) */
+  criteria?: Pick<LogFilterCriteria, 'addresses' | 'topics'>
+}
+
+type SubscriptionManagerOpts = {
+  config: Config
+  chain: Chain
+  receiptsManager?: ReceiptsManager
+  synchronizer?: Synchronizer
+}
+
+/**
+ * Returns header formatted to the standard JSON-RPC fields (as sent for `newHeads`)
+ */
+const jsonRpcHeader = (header: BlockHeader) => {
+  const json = header.toJSON()
+  return {
+    number: json.number!,
+    hash: bufferToHex(header.hash()),
+    parentHash: json.parentHash!,
+    mixHash: json.mixHash,
+    nonce: json.nonce!,
+    sha3Uncles: json.uncleHash!,
+    logsBloom: json.logsBloom!,
+    transactionsRoot: json.transactionsTrie!,
+    stateRoot: json.stateRoot!,
+    receiptsRoot: json.receiptTrie!,
+    miner: json.coinbase!,
+    difficulty: json.difficulty!,
+    extraData: json.extraData!,
+    gasLimit: json.gasLimit!,
+    gasUsed: json.gasUsed!,
+    timestamp: json.timestamp!,
+    baseFeePerGas: json.baseFeePerGas,
+  }
+}
+
+/**
+ * Manages the subscriptions created with `eth_subscribe` and pushes
+ * `eth_subscription` notifications to the subscribed connections
+ */
+export class SubscriptionManager {
+  private config: Config
+  private chain: Chain
+  private receiptsManager?: ReceiptsManager
+  private synchronizer?: Synchronizer
+
+  private subscriptions: Map<string, Subscription> = new Map()
+
+  /* Number of the latest block announced to newHeads subscriptions */
+  private lastHead: bigint | undefined
+
+  /* Syncing status last announced to syncing subscriptions */
+  private syncing: boolean
+
+  /** Maximum number of subscriptions per connection */
+  public MAX_SUBSCRIPTIONS_PER_CONNECTION = 100
+
+  /** Maximum number of headers announced to newHeads subscriptions per chain update */
+  public MAX_HEADS_PER_UPDATE = 256
+
+  constructor(opts: SubscriptionManagerOpts) {
+    this.config = opts.config
+    this.chain = opts.chain
+    this.receiptsManager = opts.receiptsManager
+    this.synchronizer = opts.synchronizer
+    this.syncing = !this.config.synchronized
+
+    this.onChainUpdated = this.onChainUpdated.bind(this)
+    this.onReceiptsSaved = this.onReceiptsSaved.bind(this)
+    this.onTxAdded = this.onTxAdded.bind(this)
+    this.onSyncStatus = this.onSyncStatus.bind(this)
+    this.config.events.on(Event.CHAIN_UPDATED, this.onChainUpdated)
+    this.config.events.on(Event.SYNC_EXECUTION_RECEIPTS_SAVED, this.onReceiptsSaved)
+    this.config.events.on(Event.TXPOOL_TX_ADDED, this.onTxAdded)
+    this.config.events.on(Event.SYNC_SYNCHRONIZED, this.onSyncStatus)
+    this.config.events.on(Event.SYNC_FETCHED_BLOCKS, this.onSyncStatus)
+    this.config.events.on(Event.SYNC_FETCHED_HEADERS, this.onSyncStatus)
+  }
+
+  /**
+   * Number of currently active subscriptions
+   */
+  get size() {
+    return this.subscriptions.size
+  }
+
+  /**
+   * Subscribes a connection to notifications and returns the subscription id
+   * @param connection connection to push the notifications to
+   * @param type type of the subscription
+   * @param criteria log filter criteria (only for {@link SubscriptionType.Logs})
+   */
+  subscribe(
+    connection: SubscriptionConnection,
+    type: SubscriptionType,
+    criteria?: Pick<LogFilterCriteria, 'addresses' | 'topics'>
+  ): string {
+    if (type === SubscriptionType.Logs && !this.receiptsManager) {
+      throw new Error('logs subscriptions require receipts saving (--saveReceipts)')
+    }
+    const connectionSubscriptions = this.forConnection(connection)
+    if (connectionSubscriptions.length >= this.MAX_SUBSCRIPTIONS_PER_CONNECTION) {
+      throw new Error(`subscription limit of ${this.MAX_SUBSCRIPTIONS_PER_CONNECTION} reached`)
+    }
+    if (connectionSubscriptions.length === 0) {
+      connection.once('close', () => this.removeConnection(connection))
+    }
+    if (type === SubscriptionType.NewHeads && this.lastHead === undefined) {
+      this.lastHead = this.chain.blocks.height
+    }
+    const id = '0x' + randomBytes(16).toString('hex')
+    this.subscriptions.set(id, { id, type, connection, criteria })
+    return id
+  }
+
+  /**
+   * Cancels a subscription of a connection
+   * @param connection the connection the subscription was created on
+   * @param id the subscription id
+   * @returns true if the subscription existed
+   */
+  unsubscribe(connection: SubscriptionConnection, id: string): boolean {
+    const subscription = this.subscriptions.get(id)
+    if (!subscription || subscription.connection !== connection) return false
+    return this.subscriptions.delete(id)
+  }
+
+  /**
+   * Cancels all subscriptions of a (closed) connection
+   * @param connection the connection
+   */
+  removeConnection(connection: SubscriptionConnection) {
+    for (const subscription of this.forConnection(connection)) {
+      this.subscriptions.delete(subscription.id)
+    }
+  }
+
+  private forConnection(connection: SubscriptionConnection) {
+    return [...this.subscriptions.values()].filter((s) => s.connection === connection)
+  }
+
+  private ofType(type: SubscriptionType) {
+    return [...this.subscriptions.values()].filter((s) => s.type === type)
+  }
+
+  private notify(subscription: Subscription, result: any) {
+    const notification = {
+      jsonrpc: '2.0',
+      method: 'eth_subscription',
+      params: { subscription: subscription.id, result },
+    }
+    try {
+      subscription.connection.send(JSON.stringify(notification))
+    } catch (error: any) {
+      this.config.logger.debug(`Error sending subscription notification: ${error.message}`)
+    }
+  }
+
+  /**
+   * Announces the headers of new canonical blocks to newHeads subscriptions
+   */
+  private async onChainUpdated() {
+    const head = this.chain.blocks.latest?.header
+    if (!head || this.lastHead === undefined) return
+    let from = this.lastHead + BigInt(1)
+    this.lastHead = head.number
+    if (head.number < from) return
+
+    const subscriptions = this.ofType(SubscriptionType.NewHeads)
+    if (subscriptions.length === 0) return
+
+    if (head.number - from >= BigInt(this.MAX_HEADS_PER_UPDATE)) {
+      from = head.number - BigInt(this.MAX_HEADS_PER_UPDATE - 1)
+    }
+    try {
+      const headers = await this.chain.getHeaders(from, Number(head.number - from) + 1, 0, false)
+      for (const header of headers) {
+        const result = jsonRpcHeader(header)
+        for (const subscription of subscriptions) {
+          this.notify(subscription, result)
+        }
+      }
+    } catch (error: any) {
+      this.config.logger.debug(`Error announcing new heads to subscriptions: ${error.message}`)
+    }
+  }
+
+  /**
+   * Announces the matching logs of an executed block to logs subscriptions
+   */
+  private async onReceiptsSaved(block: Block, receipts: TxReceipt[]) {
+    if (!this.receiptsManager) return
+    for (const subscription of this.ofType(SubscriptionType.Logs)) {
+      const { addresses, topics } = subscription.criteria ?? {}
+      const logs = this.receiptsManager.filterLogs(block, receipts, addresses, topics)
+      for (const { log, tx, txIndex, logIndex } of logs) {
+        this.notify(subscription, await jsonRpcLog(log, block, tx, txIndex, logIndex))
+      }
+    }
+  }
+
+  /**
+   * Announces the hashes of txs added to the tx pool to newPendingTransactions subscriptions
+   */
+  private onTxAdded(tx: TypedTransaction) {
+    const hash = bufferToHex(tx.hash())
+    for (const subscription of this.ofType(SubscriptionType.NewPendingTransactions)) {
+      this.notify(subscription, hash)
+    }
+  }
+
+  /**
+   * Announces changes of the sync status to syncing subscriptions
+   */
+  private onSyncStatus() {
+    const syncing = !this.config.synchronized
+    if (syncing === this.syncing) return
+    this.syncing = syncing
+
+    let result
+    if (syncing) {
+      const { syncTargetHeight } = this.config
+      result = {
+        syncing,
+        status: {
+          startingBlock: bigIntToHex(this.synchronizer?.startingBlock ?? BigInt(0)),
+          currentBlock: bigIntToHex(this.chain.headers.height),
+          highestBlock:
+            syncTargetHeight !== undefined ? bigIntToHex(syncTargetHeight) : intToHex(0),
+        },
+      }
+    } else {
+      result = false
+    }
+    for (const subscription of this.ofType(SubscriptionType.Syncing)) {
+      this.notify(subscription, result)
+    }
+  }
+}
@@ -8,7 +8,7 @@ import { INVALID_PARAMS } from './error-code'
  * @param validators array of validators
  */
 export function middleware(method: any, requiredParamsCount: number, validators: any[] = []): any {
-  return function (params: any[] = []) {
+  return function (params: any[] = [], context?: any) {
     return new Promise((resolve, reject) => {
       if (params.length < requiredParamsCount) {
         const error = {
@@ -32,7 +32,7 @@ export function middleware(method: any, requiredParamsCount: number, validators:
         }
       }
 
-      resolve(method(params))
+      resolve(method(params, context))
     })
   }
 }
@@ -163,6 +163,38 @@ export const validators = {
     }
   },
 
+  /**
+   * string validator to check if type is string
+   * @param params parameters of method
+   * @param index index of parameter
+   */
+  get string() {
+    return (params: any[], index: number) => {
+      if (typeof params[index] !== 'string') {
+        return {
+          code: INVALID_PARAMS,
+          message: `invalid argument ${index}: argument is not string`,
+        }
+      }
+    }
+  },
+
+  /**
+   * integer validator to check if type is a non-negative integer number
+   * @param params parameters of method
+   * @param index index of parameter
+   */
+  get integer() {
+    return (params: any[], index: number) => {
+      if (!Number.isSafeInteger(params[index]) || params[index] < 0) {
+        return {
+          code: INVALID_PARAMS,
+          message: `invalid argument ${index}: argument is not a non-negative integer`,
+        }
+      }
+    }
+  },
+
   /**
    * bool validator to check if type is boolean
    * @param params parameters of method
@@ -179,6 +211,70 @@ export const validators = {
     }
   },
 
+  /**
+   * validator to ensure a valid block count (hex or integer) between 1 and 1024
+   * @param params parameters of method
+   * @param index index of parameter
+   */
+  get blockCount() {
+    return (params: any[], index: number) => {
+      const blockCount = params[index]
+      if (typeof blockCount === 'string') {
+        const v = this.hex([blockCount], 0)
+        if (v !== undefined) {
+          return {
+            code: INVALID_PARAMS,
+            message: `invalid argument ${index}:${v.message.split(':')[1]}`,
+          }
+        }
+      } else if (typeof blockCount !== 'number' || !Number.isInteger(blockCount)) {
+        return {
+          code: INVALID_PARAMS,
+          message: `invalid argument ${index}: argument must be a hex string or integer`,
+        }
+      }
+
+      const count = Number(blockCount)
+      if (Number.isNaN(count) || count < 1 || count > 1024) {
+        return {
+          code: INVALID_PARAMS,
+          message: `invalid argument ${index}: block count must be between 1 and 1024`,
+        }
+      }
+    }
+  },
+
+  /**
+   * validator to ensure reward percentiles are numbers between 0 and 100 in ascending order
+   * @param params parameters of method
+   * @param index index of parameter
+   */
+  get rewardPercentiles() {
+    return (params: any[], index: number) => {
+      const percentiles = params[index]
+      if (!Array.isArray(percentiles)) {
+        return {
+          code: INVALID_PARAMS,
+          message: `invalid argument ${index}: argument is not array`,
+        }
+      }
+      for (const [i, percentile] of percentiles.entries()) {
+        if (typeof percentile !== 'number' || percentile < 0 || percentile > 100) {
+          return {
+            code: INVALID_PARAMS,
+            message: `invalid argument ${index}: percentiles must be numbers between 0 and 100`,
+          }
+        }
+        if (i > 0 && percentile < percentiles[i - 1]) {
+          return {
+            code: INVALID_PARAMS,
+            message: `invalid argument ${index}: percentiles must be in ascending order`,
+          }
+        }
+      }
+    }
+  },
+
   /**
    * validator to ensure required transaction fields are present, and checks for valid address and hex values.
    * @param requiredFields array of required fields
@@ -220,7 +316,13 @@ export const validators = {
         }
 
         // validate hex
-        const hexFields = { gas: tx.gas, gasPrice: tx.gasPrice, value: tx.value, data: tx.data }
+        const hexFields = {
+          gas: tx.gas,
+          gasPrice: tx.gasPrice,
+          value: tx.value,
+          data: tx.data,
+          nonce: tx.nonce,
+        }
         for (const field of Object.entries(hexFields)) {
           const v = validate(field[1], this.hex)
           if (v !== undefined) {
@@ -10,6 +10,8 @@ import { BeaconSynchronizer, FullSynchronizer, SnapSynchronizer } from '../sync'
 import { Skeleton } from '../sync/skeleton'
 
 import { EthereumService } from './ethereumservice'
+import { LesServer } from './lesserver'
+import { SnapServer } from './snapserver'
 import { TxPool } from './txpool'
 
 import type { Peer } from '../net/peer/peer'
@@ -32,6 +34,8 @@ export class FullEthereumService extends EthereumService {
   public miner: Miner | undefined
   public execution: VMExecution
   public txPool: TxPool
+  public snapServer: SnapServer
+  public lesServer: LesServer
 
   /**
    * Create new ETH service
@@ -55,6 +59,18 @@ export class FullEthereumService extends EthereumService {
       service: this,
     })
 
+    this.snapServer = new SnapServer({
+      config: this.config,
+      execution: this.execution,
+    })
+
+    this.lesServer = new LesServer({
+      config: this.config,
+      chain: this.chain,
+      execution: this.execution,
+      txPool: this.txPool,
+    })
+
     // This flag is just to run and test snap sync, when fully ready, this needs to
     // be replaced by a more sophisticated condition based on how far back we are
     // from the head, and how to run it in conjuction with the beacon sync
@@ -64,6 +80,9 @@ export class FullEthereumService extends EthereumService {
         pool: this.pool,
         chain: this.chain,
         interval: this.interval,
+        stateDB: options.stateDB,
+        metaDB: options.metaDB,
+        execution: this.execution,
       })
     } else {
       if (this.config.chainCommon.gteHardfork(Hardfork.Merge) === true) {
@@ -215,6 +234,8 @@ export class FullEthereumService extends EthereumService {
   async handle(message: any, protocol: string, peer: Peer): Promise<any> {
     if (protocol === 'eth') {
       return this.handleEth(message, peer)
+    } else if (protocol === 'snap') {
+      return this.handleSnap(message, peer)
     } else {
       return this.handleLes(message, peer)
     }
@@ -277,8 +298,16 @@ export class FullEthereumService extends EthereumService {
             `Dropping peer ${peer.id} for sending NewBlock after merge (EIP-3675)`
           )
           this.pool.ban(peer, 9000000)
-        } else if (this.synchronizer instanceof FullSynchronizer) {
-          await this.synchronizer.handleNewBlock(message.data[0], peer)
+        } else {
+          const [block, td] = message.data
+          // Track the head announced by the peer, for the syncs to follow it (e.g. the snap
+          // sync pivot), NewBlockHashes don't carry the total difficulty to compare heads
+          if (peer?.eth !== undefined && td > peer.eth.status.td) {
+            peer.eth.status = { bestHash: block.hash(), td }
+          }
+          if (this.synchronizer instanceof FullSynchronizer) {
+            await this.synchronizer.handleNewBlock(block, peer)
+          }
         }
         break
       }
@@ -316,19 +345,77 @@ export class FullEthereumService extends EthereumService {
     }
   }
 
+  /**
+   * Handles incoming SNAP message from connected peer
+   * @param message message object
+   * @param peer peer
+   */
+  async handleSnap(message: any, peer: Peer): Promise<void> {
+    switch (message.name) {
+      case 'GetAccountRange': {
+        const { reqId, ...opts } = message.data
+        const { accounts, proof } = await this.snapServer.getAccountRange(opts)
+        peer.snap!.send('AccountRange', { reqId, accounts, proof })
+        break
+      }
+      case 'GetStorageRanges': {
+        const { reqId, ...opts } = message.data
+        const { slots, proof } = await this.snapServer.getStorageRanges(opts)
+        peer.snap!.send('StorageRanges', { reqId, slots, proof })
+        break
+      }
+      case 'GetByteCodes': {
+        const { reqId, ...opts } = message.data
+        const codes = await this.snapServer.getByteCodes(opts)
+        peer.snap!.send('ByteCodes', { reqId, codes })
+        break
+      }
+      case 'GetTrieNodes': {
+        const { reqId, ...opts } = message.data
+        const nodes = await this.snapServer.getTrieNodes(opts)
+        peer.snap!.send('TrieNodes', { reqId, nodes })
+        break
+      }
+    }
+  }
+
   /**
    * Handles incoming LES message from connected peer
    * @param message message object
    * @param peer peer
    */
   async handleLes(message: any, peer: Peer): Promise<void> {
-    if (message.name === 'GetBlockHeaders' && this.config.lightserv) {
-      const { reqId, block, max, skip, reverse } = message.data
-      const bv = this.flow.handleRequest(peer, message.name, max)
-      if (bv < 0) {
-        this.pool.ban(peer, 300000)
-        this.config.logger.debug(`Dropping peer for violating flow control ${peer}`)
-      } else {
+    if (!this.config.lightserv) return
+    const { data } = message
+    let count
+    switch (message.name) {
+      case 'GetBlockHeaders':
+        count = data.max
+        break
+      case 'GetReceipts':
+        count = data.hashes.length
+        break
+      case 'SendTxV2':
+        count = data.txs.length
+        break
+      case 'GetContractCodes':
+      case 'GetProofsV2':
+      case 'GetHelperTrieProofs':
+        count = data.reqs.length
+        break
+      default:
+        return
+    }
+    const bv = this.flow.handleRequest(peer, message.name, count)
+    if (bv < 0) {
+      this.pool.ban(peer, 300000)
+      this.config.logger.debug(`Dropping peer for violating flow control ${peer}`)
+      return
+    }
+    const { reqId } = data
+    switch (message.name) {
+      case 'GetBlockHeaders': {
+        const { block, max, skip, reverse } = data
         if (typeof block === 'bigint') {
           if (
             (reverse === true && block > this.chain.headers.height) ||
@@ -340,6 +427,32 @@ export class FullEthereumService extends EthereumService {
         }
         const headers = await this.chain.getHeaders(block, max, skip, reverse)
         peer.les!.send('BlockHeaders', { reqId, bv, headers })
+        break
+      }
+      case 'GetReceipts': {
+        const receipts = await this.lesServer.getReceipts(data.hashes)
+        peer.les!.send('Receipts', { reqId, bv, receipts })
+        break
+      }
+      case 'GetContractCodes': {
+        const codes = await this.lesServer.getContractCodes(data.reqs)
+        peer.les!.send('ContractCodes', { reqId, bv, codes })
+        break
+      }
+      case 'GetProofsV2': {
+        const proof = await this.lesServer.getProofs(data.reqs)
+        peer.les!.send('ProofsV2', { reqId, bv, proof })
+        break
+      }
+      case 'GetHelperTrieProofs': {
+        const { proof, auxData } = await this.lesServer.getHelperTrieProofs(data.reqs)
+        peer.les!.send('HelperTrieProofs', { reqId, bv, proof, auxData })
+        break
+      }
+      case 'SendTxV2': {
+        const status = await this.lesServer.sendTx(data.txs, this.pool.peers)
+        peer.les!.send('TxStatus', { reqId, bv, status })
+        break
       }
     }
   }
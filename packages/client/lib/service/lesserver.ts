@@ -0,0 +1,194 @@
+import { Trie } from '@ethereumjs/trie'
+import { Account, bigIntToBuffer, intToBuffer } from '@ethereumjs/util'
+
+import { LesTxStatus } from '../net/protocol/lesprotocol'
+import { short } from '../util'
+
+import type { Chain } from '../blockchain'
+import type { Config } from '../config'
+import type { VMExecution } from '../execution'
+import type { TxReceiptWithType } from '../execution/receipt'
+import type { Peer } from '../net/peer/peer'
+import type {
+  ContractCodeRequest,
+  HelperTrieProofRequest,
+  ProofRequest,
+  TxStatusEntry,
+} from '../net/protocol/lesprotocol'
+import type { TxPool } from './txpool'
+import type { DefaultStateManager } from '@ethereumjs/statemanager'
+import type { DB } from '@ethereumjs/trie'
+import type { TypedTransaction } from '@ethereumjs/tx'
+
+const CODEHASH_PREFIX = Buffer.from('c')
+
+export interface LesServerOptions {
+  /* Config */
+  config: Config
+
+  /* Blockchain */
+  chain: Chain
+
+  /* VMExecution holding the state and receipts served */
+  execution: VMExecution
+
+  /* Transaction pool receiving relayed txs */
+  txPool: TxPool
+}
+
+/**
+ * @module service
+ */
+
+/**
+ * Serves the LES state access requests (receipts, contract codes, Merkle proofs
+ * and transaction relay) from the local state of the executed chain. Requests for
+ * blocks or states not available are skipped in the response.
+ * @memberof module:service
+ */
+export class LesServer {
+  private config: Config
+  private chain: Chain
+  private execution: VMExecution
+  private txPool: TxPool
+
+  /**
+   * Create new LES server
+   * @param options
+   */
+  constructor(options: LesServerOptions) {
+    this.config = options.config
+    this.chain = options.chain
+    this.execution = options.execution
+    this.txPool = options.txPool
+  }
+
+  /**
+   * Database holding the (committed) state trie nodes and the contract code
+   */
+  private get db(): DB {
+    return (this.execution.vm.stateManager as DefaultStateManager)._trie.database().db
+  }
+
+  /**
+   * Returns the state trie (operating on already hashed keys) of the given block
+   * or `undefined` if the block or its state is not available
+   */
+  private async stateTrieAt(blockHash: Buffer): Promise<Trie | undefined> {
+    let root
+    try {
+      root = (await this.chain.getBlock(blockHash)).header.stateRoot
+    } catch {
+      this.config.logger.debug(`Unknown block hash=${short(blockHash)} requested over les`)
+      return
+    }
+    const trie = new Trie({ db: this.db, root, useKeyHashing: false })
+    if (!(await trie.checkRoot(root))) {
+      this.config.logger.debug(`Unavailable state root=${short(root)} requested over les`)
+      return
+    }
+    return trie
+  }
+
+  /**
+   * Serves GetReceipts requests
+   * @returns the receipts per block, empty for blocks not known
+   */
+  async getReceipts(hashes: Buffer[]): Promise<TxReceiptWithType[][]> {
+    const { receiptsManager } = this.execution
+    const receipts: TxReceiptWithType[][] = []
+    if (!receiptsManager) return receipts
+    for (const hash of hashes) {
+      receipts.push(await receiptsManager.getReceipts(hash, true, true))
+    }
+    return receipts
+  }
+
+  /**
+   * Serves GetContractCodes requests
+   * @returns the codes in the order requested, stopping at the first code not available
+   */
+  async getContractCodes(reqs: ContractCodeRequest[]): Promise<Buffer[]> {
+    const codes: Buffer[] = []
+    for (const { blockHash, accountKey } of reqs) {
+      const trie = await this.stateTrieAt(blockHash)
+      if (!trie) break
+      const rlp = await trie.get(accountKey)
+      if (rlp === null) break
+      const { codeHash } = Account.fromRlpSerializedAccount(rlp)
+      const code = await this.db.get(Buffer.concat([CODEHASH_PREFIX, codeHash]))
+      codes.push(code ?? Buffer.alloc(0))
+    }
+    return codes
+  }
+
+  /**
+   * Serves GetProofsV2 requests. Account proofs are requested with an empty `accountKey`,
+   * storage proofs with the hashed address of the account as `accountKey`.
+   * @returns the deduplicated set of trie nodes of all proofs
+   */
+  async getProofs(reqs: ProofRequest[]): Promise<Buffer[]> {
+    const nodes: Buffer[] = []
+    for (const { blockHash, accountKey, key, fromLevel = 0 } of reqs) {
+      let trie = await this.stateTrieAt(blockHash)
+      if (!trie) break
+      if (accountKey.length > 0) {
+        const rlp = await trie.get(accountKey)
+        if (rlp === null) break
+        trie = new Trie({
+          db: this.db,
+          root: Account.fromRlpSerializedAccount(rlp).storageRoot,
+          useKeyHashing: false,
+        })
+      }
+      const proof = await trie.createProof(key)
+      for (const node of proof.slice(fromLevel)) {
+        if (!nodes.some((n) => n.equals(node))) nodes.push(node)
+      }
+    }
+    return nodes
+  }
+
+  /**
+   * Serves GetHelperTrieProofs requests. No CHT or bloom bits tries are maintained
+   * by the client, so the proofs and auxiliary data are always empty.
+   */
+  async getHelperTrieProofs(
+    _reqs: HelperTrieProofRequest[]
+  ): Promise<{ proof: Buffer[]; auxData: Buffer[] }> {
+    return { proof: [], auxData: [] }
+  }
+
+  /**
+   * Serves SendTxV2 requests by adding the txs to the pool and relaying them to the
+   * connected eth peers
+   * @returns the status of each tx
+   */
+  async sendTx(txs: TypedTransaction[], peers: Peer[]): Promise<TxStatusEntry[]> {
+    const status: TxStatusEntry[] = []
+    const added: TypedTransaction[] = []
+    for (const tx of txs) {
+      const included = await this.execution.receiptsManager?.getReceiptByTxHash(tx.hash())
+      if (included) {
+        const [, blockHash, txIndex] = included
+        const { header } = await this.chain.getBlock(blockHash)
+        status.push({
+          status: LesTxStatus.Included,
+          data: [blockHash, bigIntToBuffer(header.number), intToBuffer(txIndex)],
+        })
+        continue
+      }
+      try {
+        await this.txPool.add(tx)
+        added.push(tx)
+        status.push({ status: LesTxStatus.Pending, data: Buffer.alloc(0) })
+      } catch (error: any) {
+        status.push({ status: LesTxStatus.Error, data: Buffer.from(error.message) })
+      }
+    }
+    if (added.length > 0) {
+      this.txPool.sendTransactions(added, peers)
+    }
+    return status
+  }
+}
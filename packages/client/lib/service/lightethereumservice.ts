@@ -1,3 +1,6 @@
+import { VM } from '@ethereumjs/vm'
+
+import { LesStateManager } from '../execution/lesstatemanager'
 import { LesProtocol } from '../net/protocol/lesprotocol'
 import { LightSynchronizer } from '../sync/lightsync'
 
@@ -12,6 +15,7 @@ import type { EthereumServiceOptions } from './ethereumservice'
  */
 export class LightEthereumService extends EthereumService {
   public synchronizer: LightSynchronizer
+  public vm!: VM
 
   /**
    * Create new LES service
@@ -29,6 +33,28 @@ export class LightEthereumService extends EthereumService {
     })
   }
 
+  /**
+   * Open light ethereum service. Must be called before service is started
+   */
+  async open() {
+    if (this.opened) {
+      return false
+    }
+    await super.open()
+    // VM for serving the read-only RPC methods from the state requested on demand
+    this.vm = await VM.create({
+      common: this.config.execCommon,
+      blockchain: this.chain.blockchain,
+      stateManager: new LesStateManager({
+        config: this.config,
+        chain: this.chain,
+        pool: this.pool,
+        flow: this.flow,
+      }),
+    })
+    return true
+  }
+
   /**
    * Returns all protocols required by this service
    */
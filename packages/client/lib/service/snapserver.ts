@@ -0,0 +1,326 @@
+import { BranchNode, ExtensionNode, LeafNode, Trie } from '@ethereumjs/trie'
+import { removeHexPrefix } from '@ethereumjs/trie/dist/util/hex'
+import {
+  bufferToNibbles,
+  nibblesCompare,
+  nibblesToBuffer,
+} from '@ethereumjs/trie/dist/util/nibbles'
+import { Account, setLengthLeft } from '@ethereumjs/util'
+
+import { short } from '../util'
+
+import type { Config } from '../config'
+import type { VMExecution } from '../execution'
+import type { AccountData, StorageData } from '../net/protocol/snapprotocol'
+import type { DefaultStateManager } from '@ethereumjs/statemanager'
+import type { DB } from '@ethereumjs/trie'
+import type { AccountBodyBuffer } from '@ethereumjs/util'
+
+// Configuration constants
+const MAX_RESPONSE_BYTES = 2 * 1024 * 1024 // Upper bound of the requested soft limit (2MiB)
+const CODEHASH_PREFIX = Buffer.from('c')
+const MAX_HASH = Buffer.alloc(32, 0xff)
+
+export interface SnapServerOptions {
+  /* Config */
+  config: Config
+
+  /* VMExecution holding the state served */
+  execution: VMExecution
+}
+
+type RangeEntry = {
+  hash: Buffer
+  body: Buffer
+}
+
+/**
+ * @module service
+ */
+
+/**
+ * Serves snap/1 requests from the state of the executed chain. Responses are
+ * cut off once the requested (soft) byte limit is reached, requests for state
+ * roots not available (any more) are answered with empty responses.
+ * @memberof module:service
+ */
+export class SnapServer {
+  private config: Config
+  private execution: VMExecution
+
+  /**
+   * Create new snap server
+   * @param options
+   */
+  constructor(options: SnapServerOptions) {
+    this.config = options.config
+    this.execution = options.execution
+  }
+
+  /**
+   * Database holding the (committed) state trie nodes and the contract code
+   */
+  private get db(): DB {
+    return (this.execution.vm.stateManager as DefaultStateManager)._trie.database().db
+  }
+
+  /**
+   * Returns a trie (operating on already hashed keys) at the given root
+   * or `undefined` if the root is not available
+   */
+  private async trieAt(root: Buffer): Promise<Trie | undefined> {
+    const trie = new Trie({ db: this.db, root, useKeyHashing: false })
+    if (!(await trie.checkRoot(root))) {
+      this.config.logger.debug(`Unavailable state root=${short(root)} requested over snap`)
+      return
+    }
+    return trie
+  }
+
+  /**
+   * Returns the byte limit to respect for a response
+   */
+  private responseLimit(bytes: bigint) {
+    return bytes < BigInt(MAX_RESPONSE_BYTES) ? Number(bytes) : MAX_RESPONSE_BYTES
+  }
+
+  /**
+   * Collects the leaves of a trie in key order starting at `origin`, up to and including the
+   * first leaf at or beyond `limit`, or until the byte limit is reached
+   */
+  private async collectRange(
+    trie: Trie,
+    origin: Buffer,
+    limit: Buffer,
+    bytes: number
+  ): Promise<RangeEntry[]> {
+    const originNibbles = bufferToNibbles(origin)
+    const limitNibbles = bufferToNibbles(limit)
+    // Subtrees with paths entirely before the origin can be skipped
+    const beforeOrigin = (path: number[]) =>
+      nibblesCompare(path, originNibbles.slice(0, path.length)) < 0
+
+    const entries: RangeEntry[] = []
+    if (trie.root().equals(trie.EMPTY_TRIE_ROOT)) {
+      return entries
+    }
+    let size = 0
+    // Returns true once the range is complete
+    const walk = async (ref: Buffer | Buffer[], path: number[]): Promise<boolean> => {
+      const node = await trie.lookupNode(ref)
+      if (node instanceof BranchNode) {
+        for (const [i, child] of node.getChildren()) {
+          const childPath = [...path, i]
+          if (beforeOrigin(childPath)) continue
+          if (await walk(child, childPath)) return true
+        }
+      } else if (node instanceof ExtensionNode) {
+        const childPath = [...path, ...node.key()]
+        if (!beforeOrigin(childPath)) {
+          return walk(node.value(), childPath)
+        }
+      } else if (node instanceof LeafNode) {
+        const key = [...path, ...node.key()]
+        if (nibblesCompare(key, originNibbles) < 0) return false
+        const hash = nibblesToBuffer(key)
+        entries.push({ hash, body: node.value() })
+        size += hash.length + node.value().length
+        return nibblesCompare(key, limitNibbles) >= 0 || size >= bytes
+      }
+      return false
+    }
+
+    await walk(trie.root(), [])
+    return entries
+  }
+
+  /**
+   * Serves GetAccountRange requests
+   * @returns accounts of the range and the proof for its boundaries
+   */
+  async getAccountRange({
+    root,
+    origin,
+    limit,
+    bytes,
+  }: {
+    root: Buffer
+    origin: Buffer
+    limit: Buffer
+    bytes: bigint
+  }): Promise<{ accounts: AccountData[]; proof: Buffer[] }> {
+    const trie = await this.trieAt(root)
+    if (!trie) {
+      return { accounts: [], proof: [] }
+    }
+    const start = setLengthLeft(origin, 32)
+    const entries = await this.collectRange(
+      trie,
+      start,
+      setLengthLeft(limit, 32),
+      this.responseLimit(bytes)
+    )
+    const accounts = entries.map(({ hash, body }) => ({
+      hash,
+      body: Account.fromRlpSerializedAccount(body).raw() as AccountBodyBuffer,
+    }))
+    return { accounts, proof: await this.rangeProof(trie, start, entries) }
+  }
+
+  /**
+   * Serves GetStorageRanges requests. The origin and limit only apply to the first account,
+   * a proof is only attached if the range of the last account served is not complete.
+   * @returns slots per account served and the proof for the boundaries of the last range
+   */
+  async getStorageRanges({
+    root,
+    accounts,
+    origin,
+    limit,
+    bytes,
+  }: {
+    root: Buffer
+    accounts: Buffer[]
+    origin: Buffer
+    limit: Buffer
+    bytes: bigint
+  }): Promise<{ slots: StorageData[][]; proof: Buffer[] }> {
+    const trie = await this.trieAt(root)
+    if (!trie) {
+      return { slots: [], proof: [] }
+    }
+    let remaining = this.responseLimit(bytes)
+    const slots: StorageData[][] = []
+    let proof: Buffer[] = []
+    for (const [i, accountHash] of accounts.entries()) {
+      const rlp = await trie.get(accountHash)
+      if (rlp === null) break
+      const storageTrie = new Trie({
+        db: this.db,
+        root: Account.fromRlpSerializedAccount(rlp).storageRoot,
+        useKeyHashing: false,
+      })
+      const start = i === 0 && origin.length > 0 ? setLengthLeft(origin, 32) : Buffer.alloc(32)
+      const end = i === 0 && limit.length > 0 ? setLengthLeft(limit, 32) : MAX_HASH
+      const entries = await this.collectRange(storageTrie, start, end, remaining)
+      slots.push(entries)
+      remaining -= entries.reduce((size, { hash, body }) => size + hash.length + body.length, 0)
+
+      // Ranges which are bounded or got cut off by the byte limit need to be proven
+      const last = entries[entries.length - 1]
+      const cut = remaining <= 0 && last !== undefined && last.hash.compare(end) < 0
+      const bounded = !start.equals(Buffer.alloc(32)) || !end.equals(MAX_HASH)
+      proof = cut || bounded ? await this.rangeProof(storageTrie, start, entries) : []
+      if (remaining <= 0) break
+    }
+    return { slots, proof }
+  }
+
+  /**
+   * Creates the proof for the origin and the last entry of a range
+   */
+  private async rangeProof(trie: Trie, origin: Buffer, entries: RangeEntry[]) {
+    const proof = await trie.createProof(origin)
+    if (entries.length > 0) {
+      const lastProof = await trie.createProof(entries[entries.length - 1].hash)
+      for (const node of lastProof) {
+        if (!proof.some((n) => n.equals(node))) proof.push(node)
+      }
+    }
+    return proof
+  }
+
+  /**
+   * Serves GetByteCodes requests
+   * @returns the codes found in the order requested, skipping unknown hashes
+   */
+  async getByteCodes({ hashes, bytes }: { hashes: Buffer[]; bytes: bigint }): Promise<Buffer[]> {
+    const limit = this.responseLimit(bytes)
+    const codes: Buffer[] = []
+    let size = 0
+    for (const hash of hashes) {
+      const code = await this.db.get(Buffer.concat([CODEHASH_PREFIX, hash]))
+      if (code === null) continue
+      codes.push(code)
+      size += code.length
+      if (size >= limit) break
+    }
+    return codes
+  }
+
+  /**
+   * Serves GetTrieNodes requests. Paths consist of the compact encoded path of an account trie
+   * node, or of the account hash followed by compact encoded paths of its storage trie nodes.
+   * @returns the nodes found, stopping at the first node not available
+   */
+  async getTrieNodes({
+    root,
+    paths,
+    bytes,
+  }: {
+    root: Buffer
+    paths: Buffer[][]
+    bytes: bigint
+  }): Promise<Buffer[]> {
+    const trie = await this.trieAt(root)
+    if (!trie) {
+      return []
+    }
+    const limit = this.responseLimit(bytes)
+    const nodes: Buffer[] = []
+    let size = 0
+    for (const [accountPath, ...storagePaths] of paths) {
+      let found: (Buffer | undefined)[]
+      if (storagePaths.length === 0) {
+        found = [await this.nodeAt(trie, accountPath)]
+      } else {
+        const rlp = await trie.get(accountPath)
+        if (rlp === null) break
+        const storageTrie = new Trie({
+          db: this.db,
+          root: Account.fromRlpSerializedAccount(rlp).storageRoot,
+          useKeyHashing: false,
+        })
+        found = []
+        for (const path of storagePaths) {
+          found.push(await this.nodeAt(storageTrie, path))
+        }
+      }
+      for (const node of found) {
+        if (node === undefined) return nodes
+        nodes.push(node)
+        size += node.length
+        if (size >= limit) return nodes
+      }
+    }
+    return nodes
+  }
+
+  /**
+   * Looks up the (serialized) node at a compact encoded path of a trie
+   */
+  private async nodeAt(trie: Trie, compact: Buffer): Promise<Buffer | undefined> {
+    let path = removeHexPrefix(bufferToNibbles(compact))
+    try {
+      let node = await trie.lookupNode(trie.root())
+      while (path.length > 0) {
+        let child
+        if (node instanceof BranchNode) {
+          child = node.getBranch(path[0])
+          path = path.slice(1)
+        } else if (node instanceof ExtensionNode) {
+          const key = node.key()
+          if (nibblesCompare(key, path.slice(0, key.length)) !== 0) return
+          child = node.value()
+          path = path.slice(key.length)
+        }
+        if (child === undefined || child === null || child.length === 0) return
+        node = await trie.lookupNode(child)
+      }
+      return node?.serialize()
+    } catch (e: any) {
+      if (e.message === 'Missing node in DB') return
+      throw e
+    }
+  }
+}
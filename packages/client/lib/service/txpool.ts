@@ -1,12 +1,18 @@
-import { Capability } from '@ethereumjs/tx'
-import { Address, bufferToHex } from '@ethereumjs/util'
+import { RLP } from '@ethereumjs/rlp'
+import { Capability, TransactionFactory } from '@ethereumjs/tx'
+import { Address, arrToBufArr, bufferToHex } from '@ethereumjs/util'
+import { appendFileSync, existsSync, readFileSync, renameSync, writeFileSync } from 'fs'
 import Heap = require('qheap')
 
+import { Event } from '../types'
+
 import type { Config } from '../config'
 import type { Peer } from '../net/peer'
 import type { PeerPool } from '../net/peerpool'
+import type { PooledTransactionAnnouncement } from '../net/protocol'
 import type { FullEthereumService } from './fullethereumservice'
 import type { Block } from '@ethereumjs/block'
+import type { StateManager } from '@ethereumjs/statemanager'
 import type {
   AccessListEIP2930Transaction,
   FeeMarketEIP1559Transaction,
@@ -15,12 +21,9 @@ import type {
 } from '@ethereumjs/tx'
 import type { VM } from '@ethereumjs/vm'
 
-// Configuration constants
-const MIN_GAS_PRICE_BUMP_PERCENT = 10
-const MIN_GAS_PRICE = BigInt(100000000) // .1 GWei
-const TX_MAX_DATA_SIZE = 128 * 1024 // 128KB
-const MAX_POOL_SIZE = 5000
-const MAX_TXS_PER_ACCOUNT = 100
+// Configuration constants (pool limits are configured with the `txPool*` config options)
+const TX_ANNOUNCED_OVERHEAD = 4 * 1024 // Announced size allowed on top of the max data size for the remaining tx fields
+const TX_RETRIEVAL_SIZE = 128 * 1024 // Max announced size of the txs requested at once (eth/68)
 
 export interface TxPoolOptions {
   /* Config */
@@ -46,10 +49,26 @@ type SentObject = {
   added: number
 }
 
+type AnnouncedObject = {
+  type: number
+  size: number
+}
+
 type UnprefixedAddress = string
 type UnprefixedHash = string
 type PeerId = string
 
+/**
+ * The txs pooled at some point, to return to with {@link TxPool.restore}
+ */
+export type TxPoolSnapshot = {
+  pool: Map<UnprefixedAddress, TxPoolObject[]>
+  queued: Map<UnprefixedAddress, TxPoolObject[]>
+  txsInPool: number
+  locals: Set<UnprefixedAddress>
+  handled: Map<UnprefixedHash, HandledObject>
+}
+
 type GasPrice = {
   tip: bigint
   maxFee: bigint
@@ -82,17 +101,36 @@ export class TxPool {
   private pending: UnprefixedHash[] = []
 
   /**
-   * The central pool dataset.
+   * The central pool dataset of the pending txs, which are executable
+   * in nonce order (without a nonce gap) on the current state.
    *
-   * Maps an address to a `TxPoolObject`
+   * Maps an address to its `TxPoolObject`s sorted by nonce
    */
   public pool: Map<UnprefixedAddress, TxPoolObject[]>
 
   /**
-   * The number of txs currently in the pool
+   * The queued txs, which follow a nonce gap and are moved to the
+   * pending txs once the gap is closed.
+   *
+   * Maps an address to its `TxPoolObject`s sorted by nonce
+   */
+  public queued: Map<UnprefixedAddress, TxPoolObject[]>
+
+  /**
+   * The number of txs currently in the pool (pending and queued)
    */
   public txsInPool: number
 
+  /**
+   * Senders of local txs (e.g. sent with `eth_sendRawTransaction`)
+   */
+  private locals: Set<UnprefixedAddress>
+
+  /**
+   * File the local txs are journaled to (if enabled)
+   */
+  private journal: string | undefined
+
   /**
    * Map for handled tx hashes
    * (have been added to the pool at some point)
@@ -153,7 +191,12 @@ export class TxPool {
     this.vm = this.service.execution.vm
 
     this.pool = new Map<UnprefixedAddress, TxPoolObject[]>()
+    this.queued = new Map<UnprefixedAddress, TxPoolObject[]>()
     this.txsInPool = 0
+    this.locals = new Set<UnprefixedAddress>()
+    this.journal = this.config.txJournal
+      ? `${this.config.getNetworkDirectory()}/transactions.rlp`
+      : undefined
     this.handled = new Map<UnprefixedHash, HandledObject>()
     this.knownByPeer = new Map<PeerId, SentObject[]>()
 
@@ -169,6 +212,9 @@ export class TxPool {
       return false
     }
     this.opened = true
+    if (this.config.metrics) {
+      this.config.metrics.txpoolTransactions.collect = () => this.collectMetrics()
+    }
 
     return true
   }
@@ -182,11 +228,12 @@ export class TxPool {
     }
     this._cleanupInterval = setInterval(
       this.cleanup.bind(this),
-      this.POOLED_STORAGE_TIME_LIMIT * 1000 * 60
+      Math.min(this.POOLED_STORAGE_TIME_LIMIT * 60, this.config.txPoolQueueLifetime) * 1000
     )
     this._logInterval = setInterval(this._logPoolStats.bind(this), this.LOG_STATISTICS_INTERVAL)
     this.running = true
     this.config.logger.info('TxPool started.')
+    void this.loadJournal()
     return true
   }
 
@@ -212,62 +259,64 @@ export class TxPool {
   private validateTxGasBump(existingTx: TypedTransaction, addedTx: TypedTransaction) {
     const existingTxGasPrice = this.txGasPrice(existingTx)
     const newGasPrice = this.txGasPrice(addedTx)
-    const minTipCap =
-      existingTxGasPrice.tip +
-      (existingTxGasPrice.tip * BigInt(MIN_GAS_PRICE_BUMP_PERCENT)) / BigInt(100)
+    const priceBump = BigInt(this.config.txPoolPriceBump)
+    const minTipCap = existingTxGasPrice.tip + (existingTxGasPrice.tip * priceBump) / BigInt(100)
 
     const minFeeCap =
-      existingTxGasPrice.maxFee +
-      (existingTxGasPrice.maxFee * BigInt(MIN_GAS_PRICE_BUMP_PERCENT)) / BigInt(100)
+      existingTxGasPrice.maxFee + (existingTxGasPrice.maxFee * priceBump) / BigInt(100)
     if (newGasPrice.tip < minTipCap || newGasPrice.maxFee < minFeeCap) {
       throw new Error('replacement gas too low')
     }
   }
 
+  /**
+   * Returns a state manager set to the state of the canonical head, not affected by
+   * the blocks the VMExecution module may be concurrently running
+   */
+  private async headState(): Promise<StateManager> {
+    const block = await this.service.chain.getCanonicalHeadHeader()
+    const vmCopy = await this.vm.copy()
+    await vmCopy.stateManager.setStateRoot(block.stateRoot)
+    return vmCopy.stateManager
+  }
+
   /**
    * Validates a transaction against the pool and other constraints
    * @param tx The tx to validate
+   * @returns the account of the sender at the head state
    */
   private async validate(tx: TypedTransaction, isLocalTransaction: boolean = false) {
     if (!tx.isSigned()) {
       throw new Error('Attempting to add tx to txpool which is not signed')
     }
-    if (tx.data.length > TX_MAX_DATA_SIZE) {
+    const { txPoolMaxDataSize, txPoolMinGasPrice, txPoolAccountSlots } = this.config
+    if (tx.data.length > txPoolMaxDataSize) {
       throw new Error(
-        `Tx is too large (${tx.data.length} bytes) and exceeds the max data size of ${TX_MAX_DATA_SIZE} bytes`
+        `Tx is too large (${tx.data.length} bytes) and exceeds the max data size of ${txPoolMaxDataSize} bytes`
       )
     }
     const currentGasPrice = this.txGasPrice(tx)
     // This is the tip which the miner receives: miner does not want
     // to mine underpriced txs where miner gets almost no fees
     const currentTip = currentGasPrice.tip
-    if (!isLocalTransaction) {
-      const txsInPool = this.txsInPool
-      if (txsInPool >= MAX_POOL_SIZE) {
-        throw new Error('Cannot add tx: pool is full')
-      }
-      // Local txs are not checked against MIN_GAS_PRICE
-      if (currentTip < MIN_GAS_PRICE) {
-        throw new Error(`Tx does not pay the minimum gas price of ${MIN_GAS_PRICE}`)
-      }
+    // Local txs are not checked against the minimum gas price
+    if (!isLocalTransaction && currentTip < txPoolMinGasPrice) {
+      throw new Error(`Tx does not pay the minimum gas price of ${txPoolMinGasPrice}`)
     }
     const senderAddress = tx.getSenderAddress()
     const sender: UnprefixedAddress = senderAddress.toString().slice(2)
-    const inPool = this.pool.get(sender)
-    if (inPool) {
-      if (!isLocalTransaction && inPool.length >= MAX_TXS_PER_ACCOUNT) {
-        throw new Error(
-          `Cannot add tx for ${senderAddress}: already have max amount of txs for this account`
-        )
-      }
-      // Replace pooled txs with the same nonce
-      const existingTxn = inPool.find((poolObj) => poolObj.tx.nonce === tx.nonce)
-      if (existingTxn) {
-        if (existingTxn.tx.hash().equals(tx.hash())) {
-          throw new Error(`${bufferToHex(tx.hash())}: this transaction is already in the TxPool`)
-        }
-        this.validateTxGasBump(existingTxn.tx, tx)
+    const inPool = this.senderTxs(sender)
+    // Replace pooled txs with the same nonce
+    const existingTxn = inPool.find((poolObj) => poolObj.tx.nonce === tx.nonce)
+    if (existingTxn) {
+      if (existingTxn.tx.hash().equals(tx.hash())) {
+        throw new Error(`${bufferToHex(tx.hash())}: this transaction is already in the TxPool`)
       }
+      this.validateTxGasBump(existingTxn.tx, tx)
+    } else if (!isLocalTransaction && inPool.length >= txPoolAccountSlots) {
+      throw new Error(
+        `Cannot add tx for ${senderAddress}: already have max amount of txs for this account`
+      )
     }
     const block = await this.service.chain.getCanonicalHeadHeader()
     if (typeof block.baseFeePerGas === 'bigint' && block.baseFeePerGas !== BigInt(0)) {
@@ -283,11 +332,7 @@ export class TxPool {
       )
     }
 
-    // Copy VM in order to not overwrite the state root of the VMExecution module which may be concurrently running blocks
-    const vmCopy = await this.vm.copy()
-    // Set state root to latest block so that account balance is correct when doing balance check
-    await vmCopy.stateManager.setStateRoot(block.stateRoot)
-    const account = await this.vm.stateManager.getAccount(senderAddress)
+    const account = await (await this.headState()).getAccount(senderAddress)
     if (account.nonce > tx.nonce) {
       throw new Error(
         `0x${sender} tries to send a tx with nonce ${tx.nonce}, but account has nonce ${account.nonce} (tx nonce too low)`
@@ -299,6 +344,7 @@ export class TxPool {
         `0x${sender} does not have enough balance to cover transaction costs, need ${minimumBalance}, but have ${account.balance} (insufficient balance)`
       )
     }
+    return account
   }
 
   /**
@@ -307,24 +353,168 @@ export class TxPool {
    * If there is a tx in the pool with the same address and
    * nonce it will be replaced by the new tx, if it has a sufficient gas bump.
    * This also verifies certain constraints, if these are not met, tx will not be added to the pool.
+   *
+   * The tx is added to the pending txs if it continues the nonce sequence of the sender
+   * and to the queued txs otherwise. Local txs are journaled if enabled.
+   *
+   * If the remote slots of the pool are full, the lowest priced remote tx is evicted
+   * in favor of a tx paying more. Txs of local senders have their own slots and are
+   * never evicted.
    * @param tx Transaction
    * @param isLocalTransaction if this is a local transaction (loosens some constraints) (default: false)
    */
   async add(tx: TypedTransaction, isLocalTransaction: boolean = false) {
-    await this.validate(tx, isLocalTransaction)
+    const { nonce } = await this.validate(tx, isLocalTransaction)
     const address: UnprefixedAddress = tx.getSenderAddress().toString().slice(2)
-    let add: TxPoolObject[] = this.pool.get(address) ?? []
-    const inPool = this.pool.get(address)
-    if (inPool) {
-      // Replace pooled txs with the same nonce
-      add = inPool.filter((poolObj) => poolObj.tx.nonce !== tx.nonce)
+    if (!this.senderTxs(address).some((poolObj) => poolObj.tx.nonce === tx.nonce)) {
+      // Only txs not replacing a pooled tx take up a new slot
+      this.ensureSlot(tx, isLocalTransaction || this.locals.has(address))
+    }
+    const inPool = this.senderTxs(address)
+    // Replace pooled txs with the same nonce
+    const add = inPool.filter((poolObj) => poolObj.tx.nonce !== tx.nonce)
+    if (add.length < inPool.length) {
+      this.txsInPool -= inPool.length - add.length
+      this.config.metrics?.txpoolEvictions.inc(1, { reason: 'replaced' })
     }
     const hash: UnprefixedHash = tx.hash().toString('hex')
     const added = Date.now()
     add.push({ tx, added, hash })
-    this.pool.set(address, add)
-    this.handled.set(hash, { address, added })
     this.txsInPool++
+    this.setSenderTxs(address, add, nonce)
+    this.handled.set(hash, { address, added })
+    if (isLocalTransaction) {
+      this.locals.add(address)
+      // Txs of impersonated accounts (dev mode) are only valid with the sender kept in memory
+      if (this.service.miner?.impersonatedTxs.has(bufferToHex(tx.hash())) !== true) {
+        this.journalTx(tx)
+      }
+    }
+    this.config.events.emit(Event.TXPOOL_TX_ADDED, tx)
+  }
+
+  /**
+   * Makes sure there is a free slot in the pool for a tx, evicting the lowest
+   * priced remote tx if the remote slots are full and the tx pays more
+   * @param tx the tx to add
+   * @param isLocal if the tx is from a local sender
+   */
+  private ensureSlot(tx: TypedTransaction, isLocal: boolean) {
+    const localTxs = this.localTxs()
+    if (isLocal) {
+      if (localTxs >= this.config.txPoolLocalSlots) {
+        throw new Error('Cannot add local tx: local slots of the pool are full')
+      }
+      return
+    }
+    if (this.txsInPool - localTxs < this.config.txPoolSlots) {
+      return
+    }
+    const cheapest = this.cheapestRemoteTx()
+    if (cheapest === undefined || this.comparePrice(cheapest.tx, tx) >= 0) {
+      throw new Error('Cannot add tx: pool is full')
+    }
+    this.config.logger.debug(
+      `TxPool: evicting underpriced tx to make room (tx hash: ${bufferToHex(cheapest.tx.hash())})`
+    )
+    this.removeByHash(cheapest.hash)
+    this.config.metrics?.txpoolEvictions.inc(1, { reason: 'underpriced' })
+  }
+
+  /**
+   * Returns the number of pooled txs of local senders
+   */
+  private localTxs(): number {
+    let count = 0
+    for (const address of this.locals) {
+      count += this.senderTxs(address).length
+    }
+    return count
+  }
+
+  /**
+   * Returns the lowest priced remote tx which can be evicted.
+   *
+   * Only the tx with the highest nonce of each sender is considered, so the eviction
+   * does not leave a nonce gap. On equal prices the most recently added tx is returned.
+   */
+  private cheapestRemoteTx(): TxPoolObject | undefined {
+    let cheapest: TxPoolObject | undefined
+    for (const address of new Set([...this.pool.keys(), ...this.queued.keys()])) {
+      if (this.locals.has(address)) continue
+      const objects = this.senderTxs(address)
+      const last = objects[objects.length - 1]
+      if (cheapest === undefined) {
+        cheapest = last
+        continue
+      }
+      const cmp = this.comparePrice(last.tx, cheapest.tx)
+      if (cmp < 0 || (cmp === 0 && last.added > cheapest.added)) {
+        cheapest = last
+      }
+    }
+    return cheapest
+  }
+
+  /**
+   * Compares the gas prices of two txs by tip and then by max fee
+   * @returns a negative number if `a` pays less than `b`, a positive one if it pays more, 0 otherwise
+   */
+  private comparePrice(a: TypedTransaction, b: TypedTransaction): number {
+    const priceA = this.txGasPrice(a)
+    const priceB = this.txGasPrice(b)
+    if (priceA.tip !== priceB.tip) {
+      return priceA.tip < priceB.tip ? -1 : 1
+    }
+    if (priceA.maxFee !== priceB.maxFee) {
+      return priceA.maxFee < priceB.maxFee ? -1 : 1
+    }
+    return 0
+  }
+
+  /**
+   * Returns the pending and queued txs of a sender
+   * @param address unprefixed address of the sender
+   */
+  private senderTxs(address: UnprefixedAddress): TxPoolObject[] {
+    return [...(this.pool.get(address) ?? []), ...(this.queued.get(address) ?? [])]
+  }
+
+  /**
+   * Sets the txs of a sender, sorted into the pending txs continuing the nonce sequence
+   * from `nextNonce` and the queued txs following a nonce gap. Txs with a nonce lower
+   * than `nextNonce` cannot be executed anymore and are dropped.
+   * @param address unprefixed address of the sender
+   * @param objects pending and queued txs of the sender
+   * @param nextNonce nonce of the next executable tx, all txs are queued if not known
+   */
+  private setSenderTxs(
+    address: UnprefixedAddress,
+    objects: TxPoolObject[],
+    nextNonce: bigint | undefined
+  ) {
+    const pending: TxPoolObject[] = []
+    const queued: TxPoolObject[] = []
+    for (const obj of objects.sort((a, b) => (a.tx.nonce < b.tx.nonce ? -1 : 1))) {
+      if (nextNonce !== undefined && obj.tx.nonce < nextNonce) {
+        this.txsInPool--
+      } else if (queued.length === 0 && obj.tx.nonce === nextNonce) {
+        pending.push(obj)
+        nextNonce++
+      } else {
+        queued.push(obj)
+      }
+    }
+    for (const [map, txs] of [
+      [this.pool, pending],
+      [this.queued, queued],
+    ] as const) {
+      if (txs.length > 0) {
+        map.set(address, txs)
+      } else {
+        map.delete(address)
+      }
+    }
   }
 
   /**
@@ -338,8 +528,8 @@ export class TxPool {
       const txHashStr = txHash.toString('hex')
       const handled = this.handled.get(txHashStr)
       if (!handled) continue
-      const inPool = this.pool.get(handled.address)?.filter((poolObj) => poolObj.hash === txHashStr)
-      if (inPool && inPool.length === 1) {
+      const inPool = this.senderTxs(handled.address).filter((poolObj) => poolObj.hash === txHashStr)
+      if (inPool.length === 1) {
         found.push(inPool[0].tx)
       }
     }
@@ -354,17 +544,12 @@ export class TxPool {
     const handled = this.handled.get(txHash)
     if (!handled) return
     const { address } = handled
-    const poolObjects = this.pool.get(address)
-    if (!poolObjects) return
+    const poolObjects = this.senderTxs(address)
     const newPoolObjects = poolObjects.filter((poolObj) => poolObj.hash !== txHash)
+    if (newPoolObjects.length === poolObjects.length) return
     this.txsInPool--
-    if (newPoolObjects.length === 0) {
-      // List of txs for address is now empty, can delete
-      this.pool.delete(address)
-    } else {
-      // There are more txs from this address
-      this.pool.set(address, newPoolObjects)
-    }
+    // Pending txs following the removed tx become queued, a gap is left at its nonce
+    this.setSenderTxs(address, newPoolObjects, this.pool.get(address)?.[0].tx.nonce)
   }
 
   /**
@@ -400,14 +585,20 @@ export class TxPool {
 
   /**
    * Send (broadcast) tx hashes from the pool to connected
-   * peers.
+   * peers. Peers on eth/68 or later are additionally sent
+   * the tx types and sizes.
    *
    * Double sending is avoided by compare towards the
    * `SentTxHashes` map.
-   * @param txHashes Array with transactions to send
+   * @param txs Array with transactions to announce
    * @param peers
    */
-  async sendNewTxHashes(txHashes: Buffer[], peers: Peer[]) {
+  async sendNewTxHashes(txs: TypedTransaction[], peers: Peer[]) {
+    const txHashes = txs.map((tx) => tx.hash())
+    const announced = new Map<UnprefixedHash, AnnouncedObject>()
+    for (const tx of txs) {
+      announced.set(tx.hash().toString('hex'), { type: tx.type, size: tx.serialize().length })
+    }
     for (const peer of peers) {
       // Make sure data structure is initialized
       if (!this.knownByPeer.has(peer.id)) {
@@ -418,7 +609,17 @@ export class TxPool {
 
       // Broadcast to peer if at least 1 new tx hash to announce
       if (hashesToSend.length > 0) {
-        peer.eth?.send('NewPooledTransactionHashes', hashesToSend)
+        if ((peer.eth?.version ?? 0) >= 68) {
+          const objects = hashesToSend.map((hash) => announced.get(hash.toString('hex'))!)
+          const announcement: PooledTransactionAnnouncement = [
+            objects.map(({ type }) => type),
+            objects.map(({ size }) => size),
+            hashesToSend,
+          ]
+          peer.eth?.send('NewPooledTransactionHashes', announcement)
+        } else {
+          peer.eth?.send('NewPooledTransactionHashes', hashesToSend)
+        }
       }
     }
   }
@@ -459,11 +660,11 @@ export class TxPool {
       peer
     )
 
-    const newTxHashes = []
+    const newTxs = []
     for (const tx of txs) {
       try {
         await this.add(tx)
-        newTxHashes.push(tx.hash())
+        newTxs.push(tx)
       } catch (error: any) {
         this.config.logger.debug(
           `Error adding tx to TxPool: ${error.message} (tx hash: ${bufferToHex(tx.hash())})`
@@ -474,26 +675,77 @@ export class TxPool {
     const numPeers = peers.length
     const sendFull = Math.max(1, Math.floor(numPeers / this.NUM_PEERS_REBROADCAST_QUOTIENT))
     this.sendTransactions(txs, peers.slice(0, sendFull))
-    await this.sendNewTxHashes(newTxHashes, peers.slice(sendFull))
+    await this.sendNewTxHashes(newTxs, peers.slice(sendFull))
+  }
+
+  /**
+   * Checks if a tx with the announced type and size can be added to the pool
+   * @param announced Announced tx type and size
+   */
+  private isFetchable({ type, size }: AnnouncedObject) {
+    if (size > this.config.txPoolMaxDataSize + TX_ANNOUNCED_OVERHEAD) {
+      return false
+    }
+    switch (type) {
+      case 0:
+        return true
+      case 1:
+        return this.config.chainCommon.isActivatedEIP(2930)
+      case 2:
+        return this.config.chainCommon.isActivatedEIP(1559)
+      default:
+        return false
+    }
   }
 
   /**
    * Request new pooled txs from tx hashes announced and include them in the pool
-   * and re-broadcast to other peers
-   * @param txHashes new tx hashes announced
+   * and re-broadcast to other peers.
+   *
+   * For eth/68 announcements txs with unsupported types or exceeding the size limit
+   * are not requested, and received txs not matching the announced type and size
+   * are dropped.
+   * @param announcement new tx hashes announced (eth/68: tx types, sizes and hashes)
    * @param peer Announcing peer
    * @param peerPool Reference to the peer pool
    */
-  async handleAnnouncedTxHashes(txHashes: Buffer[], peer: Peer, peerPool: PeerPool) {
+  async handleAnnouncedTxHashes(
+    announcement: Buffer[] | PooledTransactionAnnouncement,
+    peer: Peer,
+    peerPool: PeerPool
+  ) {
+    let txHashes = announcement as Buffer[]
+    const announced = new Map<UnprefixedHash, AnnouncedObject>()
+    if (Array.isArray(announcement[0])) {
+      const [types, sizes, hashes] = announcement as PooledTransactionAnnouncement
+      txHashes = hashes
+      for (const [i, hash] of hashes.entries()) {
+        announced.set(hash.toString('hex'), { type: types[i], size: sizes[i] })
+      }
+    }
     if (!this.running || txHashes.length === 0) return
     this.addToKnownByPeer(txHashes, peer)
 
     const reqHashes = []
+    let reqSize = 0
     for (const txHash of txHashes) {
       const txHashStr: UnprefixedHash = txHash.toString('hex')
       if (this.pending.includes(txHashStr) || this.handled.has(txHashStr)) {
         continue
       }
+      const announcedTx = announced.get(txHashStr)
+      if (announcedTx !== undefined) {
+        if (!this.isFetchable(announcedTx)) {
+          this.config.logger.debug(
+            `TxPool: skipping announced tx type=${announcedTx.type} size=${announcedTx.size} (tx hash: ${txHashStr})`
+          )
+          continue
+        }
+        if (reqHashes.length > 0 && reqSize + announcedTx.size > TX_RETRIEVAL_SIZE) {
+          break
+        }
+        reqSize += announcedTx.size
+      }
       reqHashes.push(txHash)
     }
 
@@ -519,8 +771,20 @@ export class TxPool {
     const [_, txs] = getPooledTxs
     this.config.logger.debug(`TxPool: received requested txs number=${txs.length}`)
 
-    const newTxHashes = []
+    const newTxs = []
     for (const tx of txs) {
+      const announcedTx = announced.get(tx.hash().toString('hex'))
+      if (
+        announcedTx !== undefined &&
+        (announcedTx.type !== tx.type || announcedTx.size !== tx.serialize().length)
+      ) {
+        this.config.logger.debug(
+          `TxPool: dropping tx not matching the announced type and size (tx hash: ${bufferToHex(
+            tx.hash()
+          )})`
+        )
+        continue
+      }
       try {
         await this.add(tx)
       } catch (error: any) {
@@ -528,22 +792,35 @@ export class TxPool {
           `Error adding tx to TxPool: ${error.message} (tx hash: ${bufferToHex(tx.hash())})`
         )
       }
-      newTxHashes.push(tx.hash())
+      newTxs.push(tx)
     }
-    await this.sendNewTxHashes(newTxHashes, peerPool.peers)
+    await this.sendNewTxHashes(newTxs, peerPool.peers)
   }
 
   /**
-   * Remove txs included in the latest blocks from the tx pool
+   * Remove txs included in the latest blocks from the tx pool and sort the txs of all
+   * senders into pending and queued txs again, against the nonces at the head state
+   * (queued txs become executable once the nonce gap is closed by a tx not from the pool)
    */
-  removeNewBlockTxs(newBlocks: Block[]) {
+  async removeNewBlockTxs(newBlocks: Block[]) {
     if (!this.running) return
     for (const block of newBlocks) {
       for (const tx of block.transactions) {
-        const txHash: UnprefixedHash = tx.hash().toString('hex')
-        this.removeByHash(txHash)
+        this.removeByHash(tx.hash().toString('hex'))
       }
     }
+    let state
+    try {
+      state = await this.headState()
+    } catch (error: any) {
+      // The head state is not available before the blocks are executed
+      this.config.logger.debug(`TxPool: head state not available for sorting txs: ${error}`)
+      return
+    }
+    for (const address of new Set([...this.pool.keys(), ...this.queued.keys()])) {
+      const { nonce } = await state.getAccount(new Address(Buffer.from(address, 'hex')))
+      this.setSenderTxs(address, this.senderTxs(address), nonce)
+    }
   }
 
   /**
@@ -551,21 +828,34 @@ export class TxPool {
    */
   cleanup() {
     // Remove txs older than POOLED_STORAGE_TIME_LIMIT from the pool
-    // as well as the list of txs being known by a peer
+    // as well as the list of txs being known by a peer.
+    // Queued txs are removed once they exceed the (shorter) queue lifetime.
     let compDate = Date.now() - this.POOLED_STORAGE_TIME_LIMIT * 1000 * 60
-    for (const [i, mapToClean] of [this.pool, this.knownByPeer].entries()) {
-      for (const [key, objects] of mapToClean) {
-        const updatedObjects = objects.filter((obj) => obj.added >= compDate)
-        if (updatedObjects.length < objects.length) {
-          if (i === 0) this.txsInPool -= objects.length - updatedObjects.length
-          if (updatedObjects.length === 0) {
-            mapToClean.delete(key)
-          } else {
-            mapToClean.set(key, updatedObjects)
-          }
+    const queuedCompDate = Date.now() - this.config.txPoolQueueLifetime * 1000
+    for (const address of new Set([...this.pool.keys(), ...this.queued.keys()])) {
+      const objects = this.senderTxs(address)
+      const queued = this.queued.get(address) ?? []
+      const updatedObjects = objects.filter(
+        (obj) => obj.added >= compDate && (obj.added >= queuedCompDate || !queued.includes(obj))
+      )
+      if (updatedObjects.length < objects.length) {
+        const expired = objects.length - updatedObjects.length
+        this.txsInPool -= expired
+        this.config.metrics?.txpoolEvictions.inc(expired, { reason: 'expired' })
+        this.setSenderTxs(address, updatedObjects, this.pool.get(address)?.[0].tx.nonce)
+      }
+    }
+    for (const [key, objects] of this.knownByPeer) {
+      const updatedObjects = objects.filter((obj) => obj.added >= compDate)
+      if (updatedObjects.length < objects.length) {
+        if (updatedObjects.length === 0) {
+          this.knownByPeer.delete(key)
+        } else {
+          this.knownByPeer.set(key, updatedObjects)
         }
       }
     }
+    this.rotateJournal()
 
     // Cleanup handled txs
     compDate = Date.now() - this.HANDLED_CLEANUP_TIME_LIMIT * 1000 * 60
@@ -647,17 +937,21 @@ export class TxPool {
     const txs: TypedTransaction[] = []
     // Separate the transactions by account and sort by nonce
     const byNonce = new Map<string, TypedTransaction[]>()
-    for (const [address, poolObjects] of this.pool) {
-      let txsSortedByNonce = poolObjects
-        .map((obj) => obj.tx)
-        .sort((a, b) => Number(a.nonce - b.nonce))
-      // Check if the account nonce matches the lowest known tx nonce
-      const { nonce } = await vm.eei.getAccount(new Address(Buffer.from(address, 'hex')))
-      if (txsSortedByNonce[0].nonce !== nonce) {
-        // Account nonce does not match the lowest known tx nonce,
-        // therefore no txs from this address are currently executable
-        continue
+    for (const address of new Set([...this.pool.keys(), ...this.queued.keys()])) {
+      // The executable txs are derived from the state the block is built on, since
+      // the pending and queued txs might not reflect the nonce of the account yet
+      let { nonce } = await vm.eei.getAccount(new Address(Buffer.from(address, 'hex')))
+      let txsSortedByNonce: TypedTransaction[] = []
+      for (const { tx } of this.senderTxs(address).sort((a, b) =>
+        Number(a.tx.nonce - b.tx.nonce)
+      )) {
+        if (tx.nonce < nonce) continue
+        // Txs following a nonce gap are not executable
+        if (tx.nonce > nonce) break
+        txsSortedByNonce.push(tx)
+        nonce++
       }
+      if (txsSortedByNonce.length === 0) continue
       if (typeof baseFee === 'bigint' && baseFee !== BigInt(0)) {
         // If any tx has an insufficient gasPrice,
         // remove all txs after that since they cannot be executed
@@ -707,19 +1001,139 @@ export class TxPool {
     return true
   }
 
+  /**
+   * Returns the currently pooled txs, to return to with {@link TxPool.restore} (see `evm_snapshot`)
+   */
+  snapshot(): TxPoolSnapshot {
+    return {
+      pool: new Map([...this.pool].map(([address, objects]) => [address, [...objects]])),
+      queued: new Map([...this.queued].map(([address, objects]) => [address, [...objects]])),
+      txsInPool: this.txsInPool,
+      locals: new Set(this.locals),
+      handled: new Map(this.handled),
+    }
+  }
+
+  /**
+   * Replaces the pooled txs with the ones of a snapshot (see `evm_revert`),
+   * the snapshot is taken over and can not be restored again
+   * @param snapshot the snapshot taken with {@link TxPool.snapshot}
+   */
+  restore(snapshot: TxPoolSnapshot) {
+    const { pool, queued, txsInPool, locals, handled } = snapshot
+    this.pool = pool
+    this.queued = queued
+    this.txsInPool = txsInPool
+    this.locals = locals
+    this.handled = handled
+  }
+
   /**
    * Close pool
    */
   close() {
     this.pool.clear()
+    this.queued.clear()
+    this.locals.clear()
     this.handled.clear()
     this.txsInPool = 0
     this.opened = false
   }
 
+  /**
+   * Returns the number of pending and queued txs
+   */
+  status(): { pending: number; queued: number } {
+    let pending = 0
+    let queued = 0
+    for (const objects of this.pool.values()) pending += objects.length
+    for (const objects of this.queued.values()) queued += objects.length
+    return { pending, queued }
+  }
+
+  /**
+   * Updates the tx counts of the metrics
+   */
+  private collectMetrics() {
+    const { pending, queued } = this.status()
+    this.config.metrics?.txpoolTransactions.set(pending, { state: 'pending' })
+    this.config.metrics?.txpoolTransactions.set(queued, { state: 'queued' })
+  }
+
+  /**
+   * Returns the journal entry of a tx, which is RLP encoded as in a block body
+   */
+  private journalEntry(tx: TypedTransaction): Uint8Array {
+    return RLP.encode(tx.supports(Capability.EIP2718TypedTransaction) ? tx.serialize() : tx.raw())
+  }
+
+  /**
+   * Appends a local tx to the journal
+   */
+  private journalTx(tx: TypedTransaction) {
+    if (this.journal === undefined) return
+    try {
+      appendFileSync(this.journal, this.journalEntry(tx))
+    } catch (error: any) {
+      this.config.logger.warn(`Failed to journal local tx hash=${bufferToHex(tx.hash())}: ${error}`)
+    }
+  }
+
+  /**
+   * Re-adds the local txs of the journal to the pool (e.g. after a restart), dropping
+   * the ones which are no longer valid, and rewrites the journal with the txs added
+   */
+  async loadJournal() {
+    if (this.journal === undefined || !existsSync(this.journal)) return
+    const common = this.config.chainCommon.copy()
+    common.setHardforkByBlockNumber(this.service.chain.headers.height)
+    let data: Uint8Array = readFileSync(this.journal)
+    let loaded = 0
+    let dropped = 0
+    try {
+      while (data.length > 0) {
+        const decoded = RLP.decode(data, true)
+        data = decoded.remainder
+        try {
+          const values = arrToBufArr(decoded.data) as Buffer | Buffer[]
+          await this.add(TransactionFactory.fromBlockBodyData(values, { common }), true)
+          loaded++
+        } catch (error: any) {
+          this.config.logger.debug(`Dropping journaled tx: ${error.message}`)
+          dropped++
+        }
+      }
+    } catch (error: any) {
+      this.config.logger.warn(`Invalid tx journal file=${this.journal}: ${error.message}`)
+    }
+    this.config.logger.info(`Loaded local txs from journal count=${loaded} dropped=${dropped}`)
+    this.rotateJournal()
+  }
+
+  /**
+   * Rewrites the journal with the pooled txs of local senders
+   */
+  private rotateJournal() {
+    if (this.journal === undefined) return
+    const entries = []
+    for (const address of this.locals) {
+      for (const { tx } of this.senderTxs(address)) {
+        entries.push(this.journalEntry(tx))
+      }
+    }
+    try {
+      writeFileSync(`${this.journal}.new`, Buffer.concat(entries))
+      renameSync(`${this.journal}.new`, this.journal)
+    } catch (error: any) {
+      this.config.logger.warn(`Failed to rotate tx journal file=${this.journal}: ${error}`)
+    }
+  }
+
   _logPoolStats() {
     this.config.logger.info(
-      `TxPool Statistics txs=${this.txsInPool} senders=${this.pool.size} peers=${this.service.pool.peers.length}`
+      `TxPool Statistics txs=${this.txsInPool} queued=${this.status().queued} senders=${
+        this.pool.size
+      } peers=${this.service.pool.peers.length}`
     )
   }
 }
@@ -0,0 +1,224 @@
+import { accountBodyToRLP, bigIntToBuffer, bufferToBigInt, setLengthLeft } from '@ethereumjs/util'
+
+import { Event } from '../../types'
+
+import { Fetcher } from './fetcher'
+
+import type { Peer } from '../../net/peer'
+import type { AccountData } from '../../net/protocol/snapprotocol'
+import type { FetcherOptions } from './fetcher'
+import type { Job } from './types'
+import type { Trie } from '@ethereumjs/trie'
+
+/** Highest possible account hash */
+const MAX_HASH = BigInt(2) ** BigInt(256) - BigInt(1)
+
+export interface AccountFetcherOptions extends FetcherOptions {
+  /** State root to fetch the accounts of */
+  root: Buffer
+
+  /** Account trie (without key hashing) the fetched accounts are written to */
+  trie: Trie
+
+  /** Account hash to start fetching from (default: 0) */
+  origin?: bigint
+
+  /** Number of account hashes to cover starting from (and including) `origin` */
+  count?: bigint
+}
+
+export type AccountJobTask = {
+  /** First account hash of the range */
+  origin: bigint
+  /** Last account hash of the range */
+  limit: bigint
+}
+
+export type AccountRangeResult = {
+  accounts: AccountData[]
+  /** If the peer has more accounts in the requested range than it returned */
+  more: boolean
+}
+
+/**
+ * Encodes a hash (or hash fragment) as 32-byte buffer
+ */
+const hashToBuffer = (hash: bigint) => setLengthLeft(bigIntToBuffer(hash), 32)
+
+/**
+ * Implements a snap/1 based fetcher for the account ranges of a state trie.
+ * Every range returned by a peer is verified against the state root with
+ * {@link Trie.verifyRangeProof} before it is written to the account trie.
+ * @memberof module:sync/fetcher
+ */
+export class AccountFetcher extends Fetcher<AccountJobTask, AccountRangeResult, AccountData> {
+  /** State root the account ranges are requested for, updated once the pivot moves */
+  root: Buffer
+
+  protected trie: Trie
+
+  /**
+   * Where the fetcher starts apart from the tasks already in the `in` queue.
+   */
+  origin: bigint
+
+  /**
+   * Number of account hashes left to create tasks for starting from (and including) `origin`.
+   */
+  count: bigint
+
+  /**
+   * Create new account fetcher
+   */
+  constructor(options: AccountFetcherOptions) {
+    super(options)
+
+    this.root = options.root
+    this.trie = options.trie
+    this.origin = options.origin ?? BigInt(0)
+    this.count = options.count ?? MAX_HASH - this.origin + BigInt(1)
+    this.debug(
+      `Account fetcher instantiated root=${this.root.toString('hex')} origin=${this.origin} count=${
+        this.count
+      }`
+    )
+  }
+
+  /**
+   * Requests the account range associated with this job and verifies the returned proof
+   * @param job
+   */
+  async request(
+    job: Job<AccountJobTask, AccountRangeResult, AccountData>
+  ): Promise<AccountRangeResult | undefined> {
+    const { task, peer, partialResult } = job
+    const origin =
+      partialResult && partialResult.length > 0
+        ? bufferToBigInt(partialResult[partialResult.length - 1].hash) + BigInt(1)
+        : task.origin
+    const originBuf = hashToBuffer(origin)
+
+    const rangeResult = await peer!.snap!.getAccountRange({
+      root: this.root,
+      origin: originBuf,
+      limit: hashToBuffer(task.limit),
+      bytes: BigInt(this.config.maxRangeBytes),
+    })
+    if (rangeResult.accounts.length === 0 && rangeResult.proof.length === 0) {
+      // Peer does not (or no longer) serve the requested state root
+      this.debug(`Peer ${peer?.id.slice(0, 8)} returned no accounts for origin=${origin}`)
+      return
+    }
+
+    const { accounts } = rangeResult
+    const keys = accounts.map((account) => account.hash)
+    const values = accounts.map((account) => accountBodyToRLP(account.body))
+    let more
+    if (rangeResult.proof.length === 0) {
+      // Peer returned the whole (remaining) trie without a boundary proof
+      more = await this.trie.verifyRangeProof(this.root, null, null, keys, values, null)
+    } else {
+      more = await this.trie.verifyRangeProof(
+        this.root,
+        originBuf,
+        keys.length > 0 ? keys[keys.length - 1] : originBuf,
+        keys,
+        values,
+        rangeResult.proof
+      )
+    }
+    return { accounts, more }
+  }
+
+  /**
+   * Process the verified account range
+   * @param job fetch job
+   * @param result fetch result
+   * @returns the accounts of the completed range or undefined if more accounts are to be fetched
+   */
+  process(
+    job: Job<AccountJobTask, AccountRangeResult, AccountData>,
+    result: AccountRangeResult
+  ): AccountData[] | undefined {
+    const accounts = (job.partialResult ?? []).concat(result.accounts)
+    job.partialResult = undefined
+    const last = accounts[accounts.length - 1]
+    if (result.more && last !== undefined && bufferToBigInt(last.hash) < job.task.limit) {
+      // Save partial result to request the rest of the range
+      job.partialResult = accounts
+      this.debug(`Partial account range received=${accounts.length}`)
+      return
+    }
+    return accounts
+  }
+
+  /**
+   * Store the accounts of a completed range in the account trie
+   * @param accounts fetch result
+   */
+  async store(accounts: AccountData[]): Promise<void> {
+    for (const { hash, body } of accounts) {
+      await this.trie.put(hash, accountBodyToRLP(body))
+    }
+    this.debug(`Stored accounts num=${accounts.length}`)
+    this.config.events.emit(Event.SYNC_FETCHED_ACCOUNTS, accounts)
+  }
+
+  /**
+   * Generate list of tasks to fetch. Modifies `origin` and `count` to indicate
+   * the remaining range apart from the tasks it pushes in the queue
+   */
+  tasks(maxTasks = this.config.maxFetcherJobs): AccountJobTask[] {
+    const max = this.config.maxAccountRange
+    const tasks: AccountJobTask[] = []
+    while (this.count > BigInt(0) && tasks.length < maxTasks) {
+      const count = this.count < max ? this.count : max
+      tasks.push({ origin: this.origin, limit: this.origin + count - BigInt(1) })
+      this.origin += count
+      this.count -= count
+    }
+    this.debug(`Created new tasks num=${tasks.length} origin=${this.origin} count=${this.count}`)
+    return tasks
+  }
+
+  nextTasks(): void {
+    if (
+      this.in.length === 0 &&
+      this.count > BigInt(0) &&
+      this.processed - this.finished < this.config.maxFetcherRequests
+    ) {
+      for (const task of this.tasks()) {
+        this.enqueueTask(task)
+      }
+    }
+  }
+
+  /**
+   * Clears all outstanding tasks from the fetcher
+   */
+  clear() {
+    while (this.in.length > 0) {
+      const job = this.in.remove()
+      if (!job) break
+      if (job.task.origin < this.origin) {
+        this.count += this.origin - job.task.origin
+        this.origin = job.task.origin
+      }
+    }
+    super.clear()
+  }
+
+  processStoreError(
+    _error: Error,
+    _task: AccountJobTask
+  ): { destroyFetcher: boolean; banPeer: boolean; stepBack: bigint } {
+    return { destroyFetcher: true, banPeer: false, stepBack: BigInt(0) }
+  }
+
+  /**
+   * Returns an idle peer that can process a next job.
+   */
+  peer(): Peer | undefined {
+    return this.pool.idle((peer) => peer.snap !== undefined)
+  }
+}
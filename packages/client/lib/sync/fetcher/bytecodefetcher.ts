@@ -0,0 +1,160 @@
+import { keccak256 } from 'ethereum-cryptography/keccak'
+
+import { Fetcher } from './fetcher'
+
+import type { Peer } from '../../net/peer'
+import type { FetcherOptions } from './fetcher'
+import type { Job } from './types'
+import type { DB } from '@ethereumjs/trie'
+
+/** Prefix of the code hash keys, see `DefaultStateManager.putContractCode` */
+const CODEHASH_PREFIX = Buffer.from('c')
+
+export interface ByteCodeFetcherOptions extends FetcherOptions {
+  /** Database the contract codes are written to */
+  db: DB
+
+  /** Hashes of the contract codes to fetch */
+  hashes?: Buffer[]
+}
+
+export type ByteCodeJobTask = {
+  hashes: Buffer[]
+}
+
+export type ByteCode = {
+  hash: Buffer
+  code: Buffer
+}
+
+/**
+ * Implements a snap/1 based fetcher for contract codes
+ * @memberof module:sync/fetcher
+ */
+export class ByteCodeFetcher extends Fetcher<ByteCodeJobTask, ByteCode[], ByteCode> {
+  protected db: DB
+
+  /** Code hashes not yet turned into tasks */
+  protected hashes: Buffer[]
+
+  /**
+   * Create new bytecode fetcher
+   */
+  constructor(options: ByteCodeFetcherOptions) {
+    super(options)
+
+    this.db = options.db
+    this.hashes = [...(options.hashes ?? [])]
+    this.debug(`Bytecode fetcher instantiated hashes=${this.hashes.length}`)
+  }
+
+  /**
+   * Requests the contract codes associated with this job
+   * @param job
+   */
+  async request(job: Job<ByteCodeJobTask, ByteCode[], ByteCode>): Promise<ByteCode[] | undefined> {
+    const { task, peer } = job
+    const result = await peer!.snap!.getByteCodes({
+      hashes: task.hashes,
+      bytes: BigInt(this.config.maxRangeBytes),
+    })
+    if (result.codes.length === 0) {
+      this.debug(`Peer ${peer?.id.slice(0, 8)} returned no bytecodes`)
+      return
+    }
+
+    // Codes are returned in request order, but hashes unknown to the peer are skipped
+    const codes: ByteCode[] = []
+    let i = 0
+    for (const code of result.codes) {
+      const hash = Buffer.from(keccak256(code))
+      while (i < task.hashes.length && !task.hashes[i].equals(hash)) i++
+      if (i === task.hashes.length) {
+        throw new Error('bytecode response contains unrequested codes')
+      }
+      codes.push({ hash, code })
+      i++
+    }
+    const received = new Set(codes.map(({ hash }) => hash.toString('hex')))
+    const remaining = task.hashes.filter((hash) => !received.has(hash.toString('hex')))
+    if (remaining.length > 0) {
+      this.enqueueTask({ hashes: remaining })
+    }
+    return codes
+  }
+
+  /**
+   * Process fetch result
+   * @param _job fetch job
+   * @param result fetch result
+   */
+  process(_job: Job<ByteCodeJobTask, ByteCode[], ByteCode>, result: ByteCode[]) {
+    return result
+  }
+
+  /**
+   * Store the fetched contract codes
+   * @param codes fetch result
+   */
+  async store(codes: ByteCode[]): Promise<void> {
+    await this.db.batch(
+      codes.map(({ hash, code }) => ({
+        type: 'put',
+        key: Buffer.concat([CODEHASH_PREFIX, hash]),
+        value: code,
+      }))
+    )
+    this.debug(`Stored bytecodes num=${codes.length}`)
+  }
+
+  /**
+   * Generate list of tasks to fetch from the pending code hashes
+   */
+  tasks(maxTasks = this.config.maxFetcherJobs): ByteCodeJobTask[] {
+    const max = this.config.maxPerRequest
+    const tasks: ByteCodeJobTask[] = []
+    while (this.hashes.length > 0 && tasks.length < maxTasks) {
+      tasks.push({ hashes: this.hashes.splice(0, max) })
+    }
+    this.debug(`Created new tasks num=${tasks.length} remaining=${this.hashes.length}`)
+    return tasks
+  }
+
+  nextTasks(): void {
+    if (
+      this.in.length === 0 &&
+      this.hashes.length > 0 &&
+      this.processed - this.finished < this.config.maxFetcherRequests
+    ) {
+      for (const task of this.tasks()) {
+        this.enqueueTask(task)
+      }
+    }
+  }
+
+  /**
+   * Clears all outstanding tasks from the fetcher
+   */
+  clear() {
+    while (this.in.length > 0) {
+      const job = this.in.remove()
+      if (!job) break
+      this.hashes.push(...job.task.hashes)
+    }
+    super.clear()
+  }
+
+  processStoreError(
+    _error: Error,
+    _task: ByteCodeJobTask
+  ): { destroyFetcher: boolean; banPeer: boolean; stepBack: bigint } {
+    return { destroyFetcher: true, banPeer: false, stepBack: BigInt(0) }
+  }
+
+  /**
+   * Returns an idle peer that can process a next job.
+   */
+  peer(): Peer | undefined {
+    return this.pool.idle((peer) => peer.snap !== undefined)
+  }
+}
@@ -308,6 +308,7 @@ export abstract class Fetcher<JobTask, JobResult, StorageItem> extends Readable
    */
   next() {
     this.nextTasks()
+    this.config.metrics?.fetcherQueue.set(this.in.length, { fetcher: this.constructor.name })
     const job = this.in.peek()
     if (!job) {
       if (this.finished !== this.total) {
@@ -347,8 +348,14 @@ export abstract class Fetcher<JobTask, JobResult, StorageItem> extends Readable
       const timeout = setTimeout(() => {
         this.expire(job)
       }, this.timeout)
+      const start = Date.now()
       this.request(job, peer)
-        .then((result?: JobResult) => this.success(job, result))
+        .then((result?: JobResult) => {
+          this.config.metrics?.peerResponseTime.observe((Date.now() - start) / 1000, {
+            peer: peer.id,
+          })
+          return this.success(job, result)
+        })
         .catch((error: Error) => this.failure(job, error))
         .finally(() => clearTimeout(timeout))
       return job
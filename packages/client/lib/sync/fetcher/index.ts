@@ -1,7 +1,11 @@
 /**
  * @module sync/fetcher
  */
+export * from './accountfetcher'
 export * from './blockfetcher'
+export * from './bytecodefetcher'
 export * from './fetcher'
 export * from './headerfetcher'
 export * from './reverseblockfetcher'
+export * from './storagefetcher'
+export * from './trienodefetcher'
@@ -0,0 +1,244 @@
+import { Trie } from '@ethereumjs/trie'
+import { KECCAK256_RLP, bigIntToBuffer, bufferToBigInt, setLengthLeft } from '@ethereumjs/util'
+
+import { Fetcher } from './fetcher'
+
+import type { Peer } from '../../net/peer'
+import type { StorageData } from '../../net/protocol/snapprotocol'
+import type { FetcherOptions } from './fetcher'
+import type { Job } from './types'
+import type { DB } from '@ethereumjs/trie'
+
+/** Highest possible storage slot hash */
+const MAX_HASH = Buffer.alloc(32, 0xff)
+
+/**
+ * Request for the storage slots of a single account
+ */
+export type StorageRequest = {
+  accountHash: Buffer
+  storageRoot: Buffer
+  /** Slot hash to continue from if the storage has already been fetched partially */
+  origin?: bigint
+}
+
+export interface StorageFetcherOptions extends FetcherOptions {
+  /** State root to fetch the storage ranges of */
+  root: Buffer
+
+  /** Database the storage tries are written to */
+  db: DB
+
+  /** Storage requests to fetch */
+  storageRequests?: StorageRequest[]
+}
+
+export type StorageJobTask = {
+  storageRequests: StorageRequest[]
+}
+
+export type StorageRangeResult = {
+  request: StorageRequest
+  slots: StorageData[]
+  /** If the storage trie of the account has slots beyond the returned ones */
+  more: boolean
+}
+
+/**
+ * Implements a snap/1 based fetcher for the storage ranges of the accounts of a state trie.
+ * Accounts with small storage tries are requested in batches, large storage tries are fetched
+ * in consecutive chunks. Storage ranges not matching their account's storage root (e.g. after
+ * the pivot moved) are skipped and left to the healing phase.
+ * @memberof module:sync/fetcher
+ */
+export class StorageFetcher extends Fetcher<
+  StorageJobTask,
+  StorageRangeResult[],
+  StorageRangeResult
+> {
+  /** State root the storage ranges are requested for, updated once the pivot moves */
+  root: Buffer
+
+  protected db: DB
+
+  /** Storage requests not yet turned into tasks */
+  protected storageRequests: StorageRequest[]
+
+  /** Roots of the storage tries fetched partially so far by account hash */
+  private partialRoots: Map<string, Buffer> = new Map()
+
+  /**
+   * Create new storage fetcher
+   */
+  constructor(options: StorageFetcherOptions) {
+    super(options)
+
+    this.root = options.root
+    this.db = options.db
+    this.storageRequests = [...(options.storageRequests ?? [])]
+    this.debug(
+      `Storage fetcher instantiated root=${this.root.toString('hex')} requests=${
+        this.storageRequests.length
+      }`
+    )
+  }
+
+  /**
+   * Requests the storage ranges associated with this job and verifies the returned proofs
+   * @param job
+   */
+  async request(
+    job: Job<StorageJobTask, StorageRangeResult[], StorageRangeResult>
+  ): Promise<StorageRangeResult[] | undefined> {
+    const { task, peer } = job
+    const { storageRequests } = task
+    // Origin only applies to the first (and for continuations only) account of the request
+    const origin = setLengthLeft(bigIntToBuffer(storageRequests[0].origin ?? BigInt(0)), 32)
+
+    const rangeResult = await peer!.snap!.getStorageRanges({
+      root: this.root,
+      accounts: storageRequests.map((req) => req.accountHash),
+      origin,
+      limit: MAX_HASH,
+      bytes: BigInt(this.config.maxRangeBytes),
+    })
+    if (rangeResult.slots.length === 0) {
+      this.debug(`Peer ${peer?.id.slice(0, 8)} returned no storage ranges`)
+      return
+    }
+
+    const results: StorageRangeResult[] = []
+    for (const [i, slots] of rangeResult.slots.entries()) {
+      const request = storageRequests[i]
+      const keys = slots.map((slot) => slot.hash)
+      const values = slots.map((slot) => slot.body)
+      // Only the last returned range can be incomplete and come with a proof
+      const proof =
+        i === rangeResult.slots.length - 1 && rangeResult.proof.length > 0
+          ? rangeResult.proof
+          : null
+      try {
+        const trie = new Trie({ useKeyHashing: false })
+        const more =
+          proof === null
+            ? await trie.verifyRangeProof(request.storageRoot, null, null, keys, values, null)
+            : await trie.verifyRangeProof(
+                request.storageRoot,
+                origin,
+                keys.length > 0 ? keys[keys.length - 1] : origin,
+                keys,
+                values,
+                proof
+              )
+        results.push({ request, slots, more })
+      } catch (error: any) {
+        // Left to the healing phase, so a stale pivot does not stall the fetcher
+        this.debug(
+          `Skipping storage range of account=${request.accountHash.toString('hex')}: ${
+            error.message
+          }`
+        )
+        results.push({ request, slots: [], more: false })
+      }
+    }
+    // Requeue the accounts the peer did not serve because of the response size limit
+    const remaining = storageRequests.slice(rangeResult.slots.length)
+    if (remaining.length > 0) {
+      this.enqueueTask({ storageRequests: remaining })
+    }
+    return results
+  }
+
+  /**
+   * Process the verified storage ranges, continuing incomplete storage tries with a new task
+   * @param _job fetch job
+   * @param results fetch result
+   */
+  process(
+    _job: Job<StorageJobTask, StorageRangeResult[], StorageRangeResult>,
+    results: StorageRangeResult[]
+  ): StorageRangeResult[] | undefined {
+    for (const { request, slots, more } of results) {
+      if (more && slots.length > 0) {
+        const origin = bufferToBigInt(slots[slots.length - 1].hash) + BigInt(1)
+        this.enqueueTask({ storageRequests: [{ ...request, origin }] })
+      }
+    }
+    return results
+  }
+
+  /**
+   * Store the fetched slots in the storage tries of the accounts
+   * @param results fetch result
+   */
+  async store(results: StorageRangeResult[]): Promise<void> {
+    for (const { request, slots, more } of results) {
+      const key = request.accountHash.toString('hex')
+      const trie = new Trie({
+        db: this.db,
+        root: this.partialRoots.get(key) ?? KECCAK256_RLP,
+        useKeyHashing: false,
+      })
+      for (const { hash, body } of slots) {
+        await trie.put(hash, body)
+      }
+      if (more) {
+        this.partialRoots.set(key, trie.root())
+      } else {
+        this.partialRoots.delete(key)
+      }
+    }
+    this.debug(`Stored storage ranges num=${results.length}`)
+  }
+
+  /**
+   * Generate list of tasks to fetch from the pending storage requests
+   */
+  tasks(maxTasks = this.config.maxFetcherJobs): StorageJobTask[] {
+    const max = this.config.maxPerRequest
+    const tasks: StorageJobTask[] = []
+    while (this.storageRequests.length > 0 && tasks.length < maxTasks) {
+      tasks.push({ storageRequests: this.storageRequests.splice(0, max) })
+    }
+    this.debug(`Created new tasks num=${tasks.length} remaining=${this.storageRequests.length}`)
+    return tasks
+  }
+
+  nextTasks(): void {
+    if (
+      this.in.length === 0 &&
+      this.storageRequests.length > 0 &&
+      this.processed - this.finished < this.config.maxFetcherRequests
+    ) {
+      for (const task of this.tasks()) {
+        this.enqueueTask(task)
+      }
+    }
+  }
+
+  /**
+   * Clears all outstanding tasks from the fetcher
+   */
+  clear() {
+    while (this.in.length > 0) {
+      const job = this.in.remove()
+      if (!job) break
+      this.storageRequests.push(...job.task.storageRequests)
+    }
+    super.clear()
+  }
+
+  processStoreError(
+    _error: Error,
+    _task: StorageJobTask
+  ): { destroyFetcher: boolean; banPeer: boolean; stepBack: bigint } {
+    return { destroyFetcher: true, banPeer: false, stepBack: BigInt(0) }
+  }
+
+  /**
+   * Returns an idle peer that can process a next job.
+   */
+  peer(): Peer | undefined {
+    return this.pool.idle((peer) => peer.snap !== undefined)
+  }
+}
@@ -0,0 +1,348 @@
+import { BranchNode, ExtensionNode, LeafNode, decodeNode } from '@ethereumjs/trie'
+import { Account, KECCAK256_NULL, KECCAK256_RLP } from '@ethereumjs/util'
+import { keccak256 } from 'ethereum-cryptography/keccak'
+
+import { Fetcher } from './fetcher'
+
+import type { Peer } from '../../net/peer'
+import type { FetcherOptions } from './fetcher'
+import type { Job } from './types'
+import type { BatchDBOp, DB } from '@ethereumjs/trie'
+
+/** Prefix of the code hash keys, see `DefaultStateManager.putContractCode` */
+const CODEHASH_PREFIX = Buffer.from('c')
+
+/**
+ * Request for a trie node missing in the local state
+ */
+export type TrieNodeRequest = {
+  /** Hash of the node */
+  hash: Buffer
+  /** Path (in nibbles) of the node within its trie */
+  path: number[]
+  /** Hash of the account the storage trie of the node belongs to (only for storage nodes) */
+  accountHash?: Buffer
+}
+
+export interface TrieNodeFetcherOptions extends FetcherOptions {
+  /** State root to heal the local state towards */
+  root: Buffer
+
+  /** Database the trie nodes are written to */
+  db: DB
+
+  /**
+   * Walk the whole local trie instead of only the fetched nodes, to find the missing
+   * storage and code of accounts fetched before a restart (default: false)
+   */
+  walkAll?: boolean
+}
+
+export type TrieNodeJobTask = {
+  requests: TrieNodeRequest[]
+}
+
+export type FetchedTrieNode = {
+  request: TrieNodeRequest
+  node: Buffer
+}
+
+/**
+ * Fetched trie node waiting for its missing children to be stored
+ */
+type PendingTrieNode = {
+  node: Buffer
+  /** Number of missing children (including the storage root of account leaves) */
+  missing: number
+}
+
+/**
+ * Converts a nibble path to a buffer (the path must have an even length)
+ */
+const nibblesToBuffer = (nibbles: number[]) => {
+  const buf = Buffer.alloc(nibbles.length / 2)
+  for (let i = 0; i < buf.length; i++) {
+    buf[i] = (nibbles[i * 2] << 4) + nibbles[i * 2 + 1]
+  }
+  return buf
+}
+
+/**
+ * Compact (hex-prefix) encodes a nibble path as expected by GetTrieNodes
+ */
+const nibblesToCompact = (nibbles: number[]) =>
+  nibblesToBuffer(nibbles.length % 2 === 1 ? [1, ...nibbles] : [0, 0, ...nibbles])
+
+/**
+ * Implements the snap/1 based healing of the local state. Starting from the root, nodes
+ * missing locally (e.g. since they changed after the pivot moved) are requested by path
+ * with GetTrieNodes, and the children of the fetched nodes missing locally in turn, until
+ * the trie is complete. A fetched node is only stored once all its children are, so that
+ * a node present locally is the root of a complete subtree, which is not descended into.
+ * Code hashes of contracts with missing code are collected in {@link codeHashes}.
+ * @memberof module:sync/fetcher
+ */
+export class TrieNodeFetcher extends Fetcher<TrieNodeJobTask, FetchedTrieNode[], FetchedTrieNode> {
+  root: Buffer
+
+  protected db: DB
+
+  private walkAll: boolean
+
+  /** Code hashes of contracts with missing code found while walking the trie */
+  codeHashes: Map<string, Buffer> = new Map()
+
+  /** Missing nodes not yet turned into tasks */
+  protected requests: TrieNodeRequest[] = []
+
+  /** Hashes of all nodes requested so far */
+  private requested: Set<string> = new Set()
+
+  /** Fetched nodes not yet stored, by hash */
+  private pending: Map<string, PendingTrieNode> = new Map()
+
+  /** Hashes of the pending nodes waiting for a missing node, by hash of the missing node */
+  private parents: Map<string, string[]> = new Map()
+
+  /**
+   * Create new trie node fetcher
+   */
+  constructor(options: TrieNodeFetcherOptions) {
+    super(options)
+
+    this.root = options.root
+    this.db = options.db
+    this.walkAll = options.walkAll ?? false
+    this.debug(`Trie node fetcher instantiated root=${this.root.toString('hex')}`)
+  }
+
+  /**
+   * Requests the trie nodes associated with this job by path
+   * @param job
+   */
+  async request(
+    job: Job<TrieNodeJobTask, FetchedTrieNode[], FetchedTrieNode>
+  ): Promise<FetchedTrieNode[] | undefined> {
+    const { task, peer } = job
+    const paths = task.requests.map(({ path, accountHash }) =>
+      accountHash ? [accountHash, nibblesToCompact(path)] : [nibblesToCompact(path)]
+    )
+    const result = await peer!.snap!.getTrieNodes({
+      root: this.root,
+      paths,
+      bytes: BigInt(this.config.maxRangeBytes),
+    })
+    if (result.nodes.length === 0) {
+      this.debug(`Peer ${peer?.id.slice(0, 8)} returned no trie nodes`)
+      return
+    }
+    if (result.nodes.length > task.requests.length) {
+      throw new Error('trie nodes response contains unrequested nodes')
+    }
+
+    const nodes: FetchedTrieNode[] = []
+    for (const [i, node] of result.nodes.entries()) {
+      const request = task.requests[i]
+      if (!Buffer.from(keccak256(node)).equals(request.hash)) {
+        throw new Error(`invalid trie node for path=${request.path.join('')}`)
+      }
+      nodes.push({ request, node })
+    }
+    const remaining = task.requests.slice(nodes.length)
+    if (remaining.length > 0) {
+      this.enqueueTask({ requests: remaining })
+    }
+    return nodes
+  }
+
+  /**
+   * Process fetch result
+   * @param _job fetch job
+   * @param result fetch result
+   */
+  process(
+    _job: Job<TrieNodeJobTask, FetchedTrieNode[], FetchedTrieNode>,
+    result: FetchedTrieNode[]
+  ) {
+    return result
+  }
+
+  /**
+   * Store the fetched trie nodes with all their children present locally, and queue
+   * the missing children of the others
+   * @param nodes fetch result
+   */
+  async store(nodes: FetchedTrieNode[]): Promise<void> {
+    for (const { request, node } of nodes) {
+      const key = request.hash.toString('hex')
+      const missing = await this.walk(request, node, key)
+      if (missing > 0) {
+        this.pending.set(key, { node, missing })
+      } else {
+        await this.commit(request.hash, node)
+      }
+    }
+    this.debug(
+      `Fetched trie nodes num=${nodes.length} pending=${this.pending.size} missing=${this.requests.length}`
+    )
+  }
+
+  /**
+   * Stores a node with all its children present locally, along with the pending
+   * parents completed by it
+   */
+  private async commit(hash: Buffer, node: Buffer) {
+    const ops: BatchDBOp[] = []
+    const queue: [Buffer, Buffer][] = [[hash, node]]
+    while (queue.length > 0) {
+      const [hash, node] = queue.pop()!
+      ops.push({ type: 'put', key: hash, value: node })
+      const key = hash.toString('hex')
+      for (const parentKey of this.parents.get(key) ?? []) {
+        const parent = this.pending.get(parentKey)!
+        parent.missing--
+        if (parent.missing === 0) {
+          this.pending.delete(parentKey)
+          queue.push([Buffer.from(parentKey, 'hex'), parent.node])
+        }
+      }
+      this.parents.delete(key)
+    }
+    await this.db.batch(ops)
+  }
+
+  /**
+   * Queues the root for fetching if it is missing (or walks the local trie if all of it
+   * is to be walked) before fetching the missing nodes
+   */
+  async fetch() {
+    if (this.running) {
+      return false
+    }
+    await this.visit({ hash: this.root, path: [] })
+    this.debug(`Found missing trie nodes num=${this.requests.length}`)
+    return super.fetch()
+  }
+
+  /**
+   * Queues the node for fetching if it is missing, a node present locally is only
+   * walked if the whole local trie is to be walked
+   * @param request the node
+   * @param parent hash of the fetched node waiting for the node, if any
+   * @returns if the node is missing
+   */
+  private async visit(request: TrieNodeRequest, parent?: string): Promise<boolean> {
+    const node = await this.db.get(request.hash)
+    if (node !== null) {
+      if (this.walkAll) await this.walk(request, node)
+      return false
+    }
+    const key = request.hash.toString('hex')
+    if (parent !== undefined) {
+      this.parents.set(key, [...(this.parents.get(key) ?? []), parent])
+    }
+    if (!this.requested.has(key)) {
+      this.requested.add(key)
+      this.requests.push(request)
+    }
+    return true
+  }
+
+  /**
+   * Visits the children of a node, as well as the storage trie and code of account leaves
+   * @param request the node
+   * @param raw the encoded node
+   * @param key hash of the node if fetched, to wait for its missing children
+   * @returns number of missing children
+   */
+  private async walk(
+    { path, accountHash }: TrieNodeRequest,
+    raw: Buffer,
+    key?: string
+  ): Promise<number> {
+    const node = decodeNode(raw)
+    const children: TrieNodeRequest[] = []
+    if (node instanceof BranchNode) {
+      for (const [i, child] of node.getChildren()) {
+        // Embedded nodes are part of their parent
+        if (Buffer.isBuffer(child)) {
+          children.push({ hash: child, path: [...path, i], accountHash })
+        }
+      }
+    } else if (node instanceof ExtensionNode) {
+      const child = node.value()
+      if (Buffer.isBuffer(child)) {
+        children.push({ hash: child, path: [...path, ...node.key()], accountHash })
+      }
+    } else if (node instanceof LeafNode && accountHash === undefined) {
+      const account = Account.fromRlpSerializedAccount(node.value())
+      if (!account.storageRoot.equals(KECCAK256_RLP)) {
+        children.push({
+          hash: account.storageRoot,
+          path: [],
+          accountHash: nibblesToBuffer([...path, ...node.key()]),
+        })
+      }
+      const codeKey = Buffer.concat([CODEHASH_PREFIX, account.codeHash])
+      if (!account.codeHash.equals(KECCAK256_NULL) && (await this.db.get(codeKey)) === null) {
+        this.codeHashes.set(account.codeHash.toString('hex'), account.codeHash)
+      }
+    }
+    let missing = 0
+    for (const child of children) {
+      if (await this.visit(child, key)) missing++
+    }
+    return missing
+  }
+
+  /**
+   * Generate list of tasks to fetch from the missing nodes found so far
+   */
+  tasks(maxTasks = this.config.maxFetcherJobs): TrieNodeJobTask[] {
+    const max = this.config.maxPerRequest
+    const tasks: TrieNodeJobTask[] = []
+    while (this.requests.length > 0 && tasks.length < maxTasks) {
+      tasks.push({ requests: this.requests.splice(0, max) })
+    }
+    this.debug(`Created new tasks num=${tasks.length} remaining=${this.requests.length}`)
+    return tasks
+  }
+
+  nextTasks(): void {
+    if (
+      this.in.length === 0 &&
+      this.requests.length > 0 &&
+      this.processed - this.finished < this.config.maxFetcherRequests
+    ) {
+      for (const task of this.tasks()) {
+        this.enqueueTask(task)
+      }
+    }
+  }
+
+  /**
+   * Clears all outstanding tasks from the fetcher
+   */
+  clear() {
+    while (this.in.length > 0) {
+      const job = this.in.remove()
+      if (!job) break
+      this.requests.push(...job.task.requests)
+    }
+    super.clear()
+  }
+
+  processStoreError(
+    _error: Error,
+    _task: TrieNodeJobTask
+  ): { destroyFetcher: boolean; banPeer: boolean; stepBack: bigint } {
+    return { destroyFetcher: true, banPeer: false, stepBack: BigInt(0) }
+  }
+
+  /**
+   * Returns an idle peer that can process a next job.
+   */
+  peer(): Peer | undefined {
+    return this.pool.idle((peer) => peer.snap !== undefined)
+  }
+}
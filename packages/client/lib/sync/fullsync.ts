@@ -251,15 +251,18 @@ export class FullSynchronizer extends Synchronizer {
       { attentionHF }
     )
 
-    this.txPool.removeNewBlockTxs(blocks)
-
-    if (!this.running) return
+    if (!this.running) {
+      await this.txPool.removeNewBlockTxs(blocks)
+      return
+    }
     // Batch the execution if we are not close to the head
     const shouldRunOnlyBatched =
       typeof this.config.syncTargetHeight === 'bigint' &&
       this.config.syncTargetHeight !== BigInt(0) &&
       this.chain.blocks.height <= this.config.syncTargetHeight - BigInt(50)
     await this.execution.run(true, shouldRunOnlyBatched)
+    // Remove the included txs once executed, for the txs to be sorted against the new head state
+    await this.txPool.removeNewBlockTxs(blocks)
     this.txPool.checkRunState()
     return true
   }
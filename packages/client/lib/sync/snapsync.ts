@@ -1,14 +1,119 @@
+import { BlockHeader } from '@ethereumjs/block'
+import { RLP } from '@ethereumjs/rlp'
+import { Trie } from '@ethereumjs/trie'
+import {
+  Account,
+  KECCAK256_NULL,
+  KECCAK256_RLP,
+  accountBodyToRLP,
+  arrToBufArr,
+  bigIntToBuffer,
+  bufferToBigInt,
+  intToBuffer,
+} from '@ethereumjs/util'
+
+import { LevelDB } from '../execution/level'
+import { Event } from '../types'
+import { short } from '../util'
+import { DBKey, MetaDBManager } from '../util/metaDBManager'
+
+import { AccountFetcher, ByteCodeFetcher, StorageFetcher, TrieNodeFetcher } from './fetcher'
 import { Synchronizer } from './sync'
 
+import type { VMExecution } from '../execution'
 import type { Peer } from '../net/peer/peer'
+import type { AccountData } from '../net/protocol/snapprotocol'
+import type { StorageRequest } from './fetcher'
 import type { SynchronizerOptions } from './sync'
+import type { AbstractLevel } from 'abstract-level'
+
+interface SnapSynchronizerOptions extends SynchronizerOptions {
+  /* State database the fetched state is written to */
+  stateDB?: AbstractLevel<string | Buffer | Uint8Array, string | Buffer, string | Buffer>
 
-interface SnapSynchronizerOptions extends SynchronizerOptions {}
+  /* Meta database the sync progress is persisted to */
+  metaDB?: AbstractLevel<string | Buffer | Uint8Array, string | Buffer, string | Buffer>
 
+  /* Execution continuing from the synced state once the sync is done */
+  execution?: VMExecution
+}
+
+/**
+ * Phases of the snap sync, in the order they are run
+ */
+export enum SnapSyncPhase {
+  Accounts,
+  Storage,
+  Healing,
+  ByteCodes,
+  Done,
+}
+
+type SnapSyncStatus = {
+  phase: SnapSyncPhase
+  /** Header of the pivot block */
+  pivot: BlockHeader
+  /** Total difficulty of the pivot block */
+  td: bigint
+  /** Root of the account trie fetched so far */
+  accountRoot: Buffer
+  /** Account hash to continue fetching the account ranges from */
+  origin: bigint
+}
+
+type SnapSyncStatusRLP = [Buffer, Buffer, Buffer, Buffer, Buffer]
+
+/**
+ * Implements a snap/1 based state synchronizer. The state of a recent pivot block is
+ * downloaded in phases: account ranges, storage ranges of the fetched accounts, healing
+ * of the trie nodes which changed while the pivot moved, and finally the contract codes.
+ * The progress is persisted, so that a restarted client resumes the sync. Once done, the
+ * execution continues from the state of the pivot block.
+ * @memberof module:sync
+ */
 export class SnapSynchronizer extends Synchronizer {
   public running = false
+
+  private stateDB: LevelDB
+  private progressDB?: MetaDBManager
+  private execution?: VMExecution
+  private status?: SnapSyncStatus
+
+  /** Account trie the account ranges are written to */
+  private accountTrie?: Trie
+  /** Accounts with storage found in the account phase (not persisted, healing catches up) */
+  private storageRequests: StorageRequest[] = []
+  /** Contract codes to fetch */
+  private codeHashes: Map<string, Buffer> = new Map()
+  /** Contract codes found missing by the healing fetchers */
+  private healingCodeHashes: Map<string, Buffer> = new Map()
+  /** If healing walks the whole local trie, to recover the storage and codes lost on restart */
+  private healingWalkAll = false
+
+  /** If the running fetcher got interrupted instead of completing its phase */
+  private interrupted = false
+  private pivotCheck: NodeJS.Timeout | undefined /* global NodeJS */
+
+  /** Number of blocks the head of the peer can advance before the pivot is moved */
+  private PIVOT_RENEWAL_DISTANCE = BigInt(64)
+  /** How often the head of the peer is checked while fetching (in ms) */
+  private PIVOT_CHECK_INTERVAL = 30000
+
   constructor(options: SnapSynchronizerOptions) {
     super(options)
+
+    this.stateDB = new LevelDB(options.stateDB)
+    this.execution = options.execution
+    if (options.metaDB) {
+      this.progressDB = new MetaDBManager({
+        chain: this.chain,
+        config: this.config,
+        metaDB: options.metaDB,
+      })
+    }
+
+    this.onAccountsFetched = this.onAccountsFetched.bind(this)
+    this.config.events.on(Event.SYNC_FETCHED_ACCOUNTS, this.onAccountsFetched)
   }
 
   /**
@@ -18,10 +123,46 @@ export class SnapSynchronizer extends Synchronizer {
     return 'snap'
   }
 
+  get fetcher(): AccountFetcher | StorageFetcher | TrieNodeFetcher | ByteCodeFetcher | null {
+    if (
+      this._fetcher !== null &&
+      !(this._fetcher instanceof AccountFetcher) &&
+      !(this._fetcher instanceof StorageFetcher) &&
+      !(this._fetcher instanceof TrieNodeFetcher) &&
+      !(this._fetcher instanceof ByteCodeFetcher)
+    ) {
+      throw Error(`Invalid Fetcher, expected a snap fetcher`)
+    }
+    return this._fetcher
+  }
+
+  set fetcher(fetcher: AccountFetcher | StorageFetcher | TrieNodeFetcher | ByteCodeFetcher | null) {
+    this._fetcher = fetcher
+  }
+
   /**
    * Open synchronizer. Must be called before sync() is called
    */
-  async open(): Promise<void> {}
+  async open(): Promise<void> {
+    await super.open()
+    await this.readSyncStatus()
+    this.config.snapSyncing = this.status?.phase !== SnapSyncPhase.Done
+    if (this.status) {
+      // Storage requests and code hashes are only kept in memory, healing recovers them
+      this.healingWalkAll = this.status.phase !== SnapSyncPhase.Done
+      if (
+        this.status.phase === SnapSyncPhase.Storage ||
+        this.status.phase === SnapSyncPhase.ByteCodes
+      ) {
+        this.status.phase = SnapSyncPhase.Healing
+      }
+      this.config.logger.info(
+        `Resuming snap sync phase=${SnapSyncPhase[this.status.phase]} pivot=${
+          this.status.pivot.number
+        } root=${short(this.status.pivot.stateRoot)}`
+      )
+    }
+  }
 
   /**
    * Returns true if peer can be used for syncing
@@ -64,48 +205,237 @@ export class SnapSynchronizer extends Synchronizer {
   }
 
   /**
-   * Called from `sync()` to sync blocks and state from peer starting from current height.
+   * Runs the fetcher of the current phase and moves on to the next phase once it completes
+   */
+  async sync(): Promise<boolean> {
+    this.interrupted = false
+    let synced
+    try {
+      synced = await super.sync()
+    } finally {
+      clearInterval(this.pivotCheck as NodeJS.Timeout)
+    }
+    if (synced && !this.interrupted) {
+      await this.nextPhase()
+    }
+    return synced
+  }
+
+  /**
+   * Called from `sync()` to set up the fetcher of the current phase
    * @param peer remote peer to sync with
    * @returns a boolean if the setup was successful
    */
   async syncWithPeer(peer?: Peer): Promise<boolean> {
     const latest = peer ? await this.latest(peer) : undefined
     if (!latest) return false
+    if (this.status?.phase === SnapSyncPhase.Done) return false
+
+    await this.updatePivot(latest, peer!.eth!.status.td)
+    this.fetcher = this.createFetcher()
+    this.pivotCheck = setInterval(() => void this.checkPivot(peer!), this.PIVOT_CHECK_INTERVAL)
+    return true
+  }
+
+  /**
+   * Checks if the pivot needs to be moved while the fetcher is running
+   */
+  private async checkPivot(peer: Peer) {
+    try {
+      const latest = await this.latest(peer)
+      if (latest) await this.updatePivot(latest, peer.eth!.status.td)
+    } catch (error: any) {
+      this.config.logger.debug(`Error checking snap sync pivot: ${error.message}`)
+    }
+  }
 
-    // Just a small snippet to test out the methods manually
-    // From/for g11tech:
-    //  Clean it up, once we have a full fetcher implemented, else let them
-    //  stay commented for easy reference and manual testing
-    //
-    // const stateRoot = latest.stateRoot
-    // const rangeResult = await peer!.snap!.getAccountRange({
-    //   root: stateRoot,
-    //   origin: Buffer.from(
-    //     '0000000000000000000000000000000000000000000000000000000000000000',
-    //     'hex'
-    //   ),
-    //   limit: Buffer.from('0000000000000000000000000f00000000000000000000000000000000000010', 'hex'),
-    //   bytes: BigInt(5000000),
-    // })
-
-    // console.log({ rangeResult: rangeResult?.accounts[0] })
-    // if (rangeResult) {
-    //   process.exit()
-    // }
-
-    // const height = latest.number
-    // if (!this.config.syncTargetHeight || this.config.syncTargetHeight < latest.number) {
-    //   this.config.syncTargetHeight = height
-    //   this.config.logger.info(`New sync target height=${height} hash=${short(latest.hash())}`)
-    // }
-
-    return false
+  /**
+   * Creates the fetcher for the current phase
+   */
+  private createFetcher() {
+    const { phase, pivot, accountRoot, origin } = this.status!
+    const root = pivot.stateRoot
+    const options = { config: this.config, pool: this.pool, interval: this.interval }
+    switch (phase) {
+      case SnapSyncPhase.Accounts:
+        this.accountTrie = new Trie({ db: this.stateDB, root: accountRoot, useKeyHashing: false })
+        return new AccountFetcher({ ...options, root, trie: this.accountTrie, origin })
+      case SnapSyncPhase.Storage:
+        return new StorageFetcher({
+          ...options,
+          root,
+          db: this.stateDB,
+          storageRequests: this.storageRequests.splice(0),
+        })
+      case SnapSyncPhase.Healing:
+        return new TrieNodeFetcher({
+          ...options,
+          root,
+          db: this.stateDB,
+          walkAll: this.healingWalkAll,
+        })
+      default:
+        return new ByteCodeFetcher({
+          ...options,
+          db: this.stateDB,
+          hashes: [...this.codeHashes.values()],
+        })
+    }
+  }
+
+  /**
+   * Moves on to the next phase after the fetcher of the current phase completed
+   */
+  private async nextPhase() {
+    if (!this.status) return
+    const { phase } = this.status
+    if (phase === SnapSyncPhase.Healing) {
+      this.codeHashes = new Map([...this.codeHashes, ...this.healingCodeHashes])
+      this.healingCodeHashes.clear()
+      this.healingWalkAll = false
+    } else if (phase === SnapSyncPhase.ByteCodes) {
+      this.codeHashes.clear()
+    }
+    this.status.phase = phase + 1
+    if (this.status.phase === SnapSyncPhase.Done) {
+      const { pivot, td } = this.status
+      this.config.logger.info(
+        `Snap sync completed pivot=${pivot.number} root=${short(pivot.stateRoot)}`
+      )
+      // Handed over before persisting the completion, for a failed hand-off to be retried on restart
+      await this.execution?.setSyncedHead(pivot, td)
+      this.config.snapSyncing = false
+    } else {
+      this.config.logger.info(`Snap sync entering phase=${SnapSyncPhase[this.status.phase]}`)
+    }
+    await this.writeSyncStatus()
+  }
+
+  /**
+   * Clears and removes the fetcher, remembering the missing codes found while healing
+   */
+  clearFetcher() {
+    if (this._fetcher instanceof TrieNodeFetcher) {
+      // Subtrees completed by an interrupted healing are not walked again
+      for (const [key, hash] of this._fetcher.codeHashes) {
+        this.healingCodeHashes.set(key, hash)
+      }
+    }
+    super.clearFetcher()
+  }
+
+  /**
+   * Sets up the sync status for a new pivot or moves the pivot once the head of the
+   * peer advanced far enough for the pivot state to be pruned by the network
+   * @param latest latest header of the peer
+   * @param td total difficulty of the latest header
+   */
+  private async updatePivot(latest: BlockHeader, td: bigint) {
+    if (
+      this.config.syncTargetHeight === undefined ||
+      this.config.syncTargetHeight < latest.number
+    ) {
+      this.config.syncTargetHeight = latest.number
+    }
+
+    if (!this.status) {
+      this.status = {
+        phase: SnapSyncPhase.Accounts,
+        pivot: latest,
+        td,
+        accountRoot: KECCAK256_RLP,
+        origin: BigInt(0),
+      }
+      this.config.logger.info(
+        `Starting snap sync pivot=${latest.number} root=${short(latest.stateRoot)}`
+      )
+    } else if (latest.number - this.status.pivot.number >= this.PIVOT_RENEWAL_DISTANCE) {
+      this.status.pivot = latest
+      this.status.td = td
+      this.config.logger.info(
+        `Moved snap sync pivot=${latest.number} root=${short(latest.stateRoot)}`
+      )
+
+      const fetcher = this._fetcher
+      if (fetcher instanceof AccountFetcher || fetcher instanceof StorageFetcher) {
+        // Ranges fetched for the old root are repaired by the healing phase
+        fetcher.root = latest.stateRoot
+      } else if (fetcher instanceof TrieNodeFetcher) {
+        // Restart healing towards the new root
+        this.interrupted = true
+        this.clearFetcher()
+      }
+    } else {
+      return
+    }
+    await this.writeSyncStatus()
+  }
+
+  /**
+   * Collects the storage and code of fetched accounts and persists the account progress
+   * @param accounts accounts stored by the {@link AccountFetcher}
+   */
+  private async onAccountsFetched(accounts: AccountData[]) {
+    if (!this.status || accounts.length === 0) return
+    for (const { hash, body } of accounts) {
+      const { storageRoot, codeHash } = Account.fromRlpSerializedAccount(accountBodyToRLP(body))
+      if (!storageRoot.equals(KECCAK256_RLP)) {
+        this.storageRequests.push({ accountHash: hash, storageRoot })
+      }
+      if (!codeHash.equals(KECCAK256_NULL)) {
+        this.codeHashes.set(codeHash.toString('hex'), codeHash)
+      }
+    }
+    this.status.origin = bufferToBigInt(accounts[accounts.length - 1].hash) + BigInt(1)
+    this.status.accountRoot = this.accountTrie!.root()
+    await this.writeSyncStatus()
+  }
+
+  /**
+   * Writes the {@link SnapSyncStatus} to db
+   */
+  private async writeSyncStatus() {
+    if (!this.progressDB || !this.status) return
+    const { phase, pivot, td, accountRoot, origin } = this.status
+    const encodedStatus = Buffer.from(
+      RLP.encode([
+        intToBuffer(phase),
+        pivot.serialize(),
+        bigIntToBuffer(td),
+        accountRoot,
+        bigIntToBuffer(origin),
+      ])
+    )
+    await this.progressDB.put(DBKey.SnapSyncStatus, Buffer.alloc(0), encodedStatus)
+  }
+
+  /**
+   * Reads the {@link SnapSyncStatus} from db
+   */
+  private async readSyncStatus() {
+    const rawStatus = await this.progressDB?.get(DBKey.SnapSyncStatus, Buffer.alloc(0))
+    if (!rawStatus) return
+    const [phase, pivot, td, accountRoot, origin] = arrToBufArr(
+      RLP.decode(Uint8Array.from(rawStatus))
+    ) as SnapSyncStatusRLP
+    this.status = {
+      phase: Number(bufferToBigInt(phase)),
+      pivot: BlockHeader.fromRLPSerializedHeader(pivot, {
+        common: this.config.chainCommon,
+        hardforkByTTD: bufferToBigInt(td),
+      }),
+      td: bufferToBigInt(td),
+      accountRoot,
+      origin: bufferToBigInt(origin),
+    }
   }
 
   /**
    * Stop synchronization. Returns a promise that resolves once its stopped.
    */
   async stop(): Promise<boolean> {
+    this.interrupted = true
+    clearInterval(this.pivotCheck as NodeJS.Timeout)
     return super.stop()
   }
 
@@ -114,6 +444,7 @@ export class SnapSynchronizer extends Synchronizer {
    */
   async close() {
     if (!this.opened) return
+    this.config.events.removeListener(Event.SYNC_FETCHED_ACCOUNTS, this.onAccountsFetched)
     await super.close()
   }
 }
@@ -8,7 +8,15 @@ import type { Chain } from '../blockchain'
 import type { Config } from '../config'
 import type { Peer } from '../net/peer/peer'
 import type { PeerPool } from '../net/peerpool'
-import type { BlockFetcher, HeaderFetcher, ReverseBlockFetcher } from './fetcher'
+import type {
+  AccountFetcher,
+  BlockFetcher,
+  ByteCodeFetcher,
+  HeaderFetcher,
+  ReverseBlockFetcher,
+  StorageFetcher,
+  TrieNodeFetcher,
+} from './fetcher'
 
 export interface SynchronizerOptions {
   /* Config */
@@ -40,7 +48,15 @@ export abstract class Synchronizer {
   protected interval: number
   protected forceSync: boolean
 
-  public _fetcher: BlockFetcher | HeaderFetcher | ReverseBlockFetcher | null
+  public _fetcher:
+    | BlockFetcher
+    | HeaderFetcher
+    | ReverseBlockFetcher
+    | AccountFetcher
+    | StorageFetcher
+    | TrieNodeFetcher
+    | ByteCodeFetcher
+    | null
   public opened: boolean
   public running: boolean
   public startingBlock: bigint
@@ -73,6 +89,8 @@ export abstract class Synchronizer {
 
     this.config.events.on(Event.CHAIN_UPDATED, () => {
       this.updateSynchronizedState()
+      this.config.metrics?.chainHeight.set(Number(this.chain.headers.height), { block: 'header' })
+      this.config.metrics?.chainHeight.set(Number(this.chain.blocks.height), { block: 'latest' })
     })
   }
 
@@ -83,11 +101,29 @@ export abstract class Synchronizer {
     return 'sync'
   }
 
-  get fetcher(): BlockFetcher | HeaderFetcher | ReverseBlockFetcher | null {
+  get fetcher():
+    | BlockFetcher
+    | HeaderFetcher
+    | ReverseBlockFetcher
+    | AccountFetcher
+    | StorageFetcher
+    | TrieNodeFetcher
+    | ByteCodeFetcher
+    | null {
     return this._fetcher
   }
 
-  set fetcher(fetcher: BlockFetcher | HeaderFetcher | ReverseBlockFetcher | null) {
+  set fetcher(
+    fetcher:
+      | BlockFetcher
+      | HeaderFetcher
+      | ReverseBlockFetcher
+      | AccountFetcher
+      | StorageFetcher
+      | TrieNodeFetcher
+      | ByteCodeFetcher
+      | null
+  ) {
     this._fetcher = fetcher
   }
 
@@ -3,8 +3,11 @@ import { EventEmitter } from 'events'
 import type Connection = require('../../../node_modules/libp2p-interfaces/dist/src/connection/connection')
 import type { MuxedStream } from '../../../node_modules/libp2p-interfaces/dist/src/stream-muxer/types'
 import type { Peer } from './net/peer'
+import type { AccountData } from './net/protocol/snapprotocol'
 import type { Server } from './net/server'
 import type { Block, BlockHeader } from '@ethereumjs/block'
+import type { TypedTransaction } from '@ethereumjs/tx'
+import type { TxReceipt } from '@ethereumjs/vm'
 import type { Multiaddr } from 'multiaddr'
 
 /**
@@ -15,8 +18,10 @@ export enum Event {
   CHAIN_UPDATED = 'blockchain:chain:updated',
   CLIENT_SHUTDOWN = 'client:shutdown',
   SYNC_EXECUTION_VM_ERROR = 'sync:execution:vm:error',
+  SYNC_EXECUTION_RECEIPTS_SAVED = 'sync:execution:receipts:saved',
   SYNC_FETCHED_BLOCKS = 'sync:fetcher:fetched_blocks',
   SYNC_FETCHED_HEADERS = 'sync:fetcher:fetched_headers',
+  SYNC_FETCHED_ACCOUNTS = 'sync:fetcher:fetched_accounts',
   SYNC_SYNCHRONIZED = 'sync:synchronized',
   SYNC_ERROR = 'sync:error',
   SYNC_FETCHER_ERROR = 'sync:fetcher:error',
@@ -30,13 +35,16 @@ export enum Event {
   POOL_PEER_BANNED = 'pool:peer:banned',
   PROTOCOL_ERROR = 'protocol:error',
   PROTOCOL_MESSAGE = 'protocol:message',
+  TXPOOL_TX_ADDED = 'txpool:tx:added',
 }
 export interface EventParams {
   [Event.CHAIN_UPDATED]: []
   [Event.CLIENT_SHUTDOWN]: []
   [Event.SYNC_EXECUTION_VM_ERROR]: [vmError: Error]
+  [Event.SYNC_EXECUTION_RECEIPTS_SAVED]: [block: Block, receipts: TxReceipt[]]
   [Event.SYNC_FETCHED_BLOCKS]: [blocks: Block[]]
   [Event.SYNC_FETCHED_HEADERS]: [headers: BlockHeader[]]
+  [Event.SYNC_FETCHED_ACCOUNTS]: [accounts: AccountData[]]
   [Event.SYNC_SYNCHRONIZED]: [chainHeight: bigint]
   [Event.SYNC_ERROR]: [syncError: Error]
   [Event.SYNC_FETCHER_ERROR]: [fetchError: Error, task: any, peer: Peer | null | undefined]
@@ -50,6 +58,7 @@ export interface EventParams {
   [Event.POOL_PEER_BANNED]: [bannedPeer: Peer]
   [Event.PROTOCOL_ERROR]: [boundProtocolError: Error, peerCausingError: Peer]
   [Event.PROTOCOL_MESSAGE]: [messageDetails: any, protocolName: string, sendingPeer: Peer]
+  [Event.TXPOOL_TX_ADDED]: [addedTx: TypedTransaction]
 }
 
 export declare interface EventBus<T extends Event> {
@@ -62,8 +71,10 @@ export class EventBus<T extends Event> extends EventEmitter {}
 export type EventBusType = EventBus<Event.CHAIN_UPDATED> &
   EventBus<Event.CLIENT_SHUTDOWN> &
   EventBus<Event.SYNC_EXECUTION_VM_ERROR> &
+  EventBus<Event.SYNC_EXECUTION_RECEIPTS_SAVED> &
   EventBus<Event.SYNC_FETCHED_BLOCKS> &
   EventBus<Event.SYNC_FETCHED_HEADERS> &
+  EventBus<Event.SYNC_FETCHED_ACCOUNTS> &
   EventBus<Event.SYNC_SYNCHRONIZED> &
   EventBus<Event.SYNC_FETCHER_ERROR> &
   EventBus<Event.PEER_CONNECTED> &
@@ -76,7 +87,8 @@ export type EventBusType = EventBus<Event.CHAIN_UPDATED> &
   EventBus<Event.POOL_PEER_REMOVED> &
   EventBus<Event.POOL_PEER_BANNED> &
   EventBus<Event.PROTOCOL_ERROR> &
-  EventBus<Event.PROTOCOL_MESSAGE>
+  EventBus<Event.PROTOCOL_MESSAGE> &
+  EventBus<Event.TXPOOL_TX_ADDED>
 
 /**
  * Like types
@@ -0,0 +1,144 @@
+import { privateToAddress, stripHexPrefix } from '@ethereumjs/util'
+import { decrypt, encrypt } from 'ethereum-cryptography/aes'
+import { keccak256 } from 'ethereum-cryptography/keccak'
+import { pbkdf2 } from 'ethereum-cryptography/pbkdf2'
+import { getRandomBytesSync } from 'ethereum-cryptography/random'
+import { scrypt } from 'ethereum-cryptography/scrypt'
+
+export type ScryptParams = { dklen: number; n: number; p: number; r: number; salt: string }
+export type PBKDF2Params = { c: number; dklen: number; prf: 'hmac-sha256'; salt: string }
+
+/**
+ * Encrypted key in the Web3 Secret Storage (v3) format
+ * (see https://github.com/ethereum/wiki/wiki/Web3-Secret-Storage-Definition)
+ */
+export type KeystoreV3 = {
+  version: 3
+  id: string
+  address: string
+  crypto: {
+    cipher: 'aes-128-ctr'
+    ciphertext: string
+    cipherparams: { iv: string }
+    kdf: 'scrypt' | 'pbkdf2'
+    kdfparams: ScryptParams | PBKDF2Params
+    mac: string
+  }
+}
+
+/* Default scrypt cost parameters, same as used by geth */
+const SCRYPT_N = 1 << 18
+const SCRYPT_P = 1
+const SCRYPT_R = 8
+
+async function deriveKey(password: string, kdf: string, params: ScryptParams | PBKDF2Params) {
+  const passwordBytes = Buffer.from(password, 'utf8')
+  const salt = Buffer.from(params.salt, 'hex')
+  if (kdf === 'scrypt') {
+    const { n, p, r, dklen } = params as ScryptParams
+    return Buffer.from(await scrypt(passwordBytes, salt, n, p, r, dklen))
+  }
+  if (kdf === 'pbkdf2') {
+    const { c, dklen, prf } = params as PBKDF2Params
+    if (prf !== 'hmac-sha256') {
+      throw new Error(`Unsupported pbkdf2 prf ${prf}`)
+    }
+    return Buffer.from(await pbkdf2(passwordBytes, salt, c, dklen, 'sha256'))
+  }
+  throw new Error(`Unsupported key derivation function ${kdf}`)
+}
+
+function mac(derivedKey: Buffer, ciphertext: Buffer) {
+  return Buffer.from(keccak256(Buffer.concat([derivedKey.subarray(16, 32), ciphertext])))
+}
+
+function uuid() {
+  const bytes = Buffer.from(getRandomBytesSync(16))
+  bytes[6] = (bytes[6] & 0x0f) | 0x40 // version 4
+  bytes[8] = (bytes[8] & 0x3f) | 0x80 // RFC 4122 variant
+  const hex = bytes.toString('hex')
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20),
+  ].join('-')
+}
+
+/**
+ * Encrypts a private key with a password into the Web3 Secret Storage (v3) format,
+ * using scrypt for the key derivation
+ * @param privateKey the private key
+ * @param password the password
+ * @param n scrypt cost parameter (default: 2^18)
+ */
+export async function encryptKey(
+  privateKey: Buffer,
+  password: string,
+  n = SCRYPT_N
+): Promise<KeystoreV3> {
+  const kdfparams: ScryptParams = {
+    dklen: 32,
+    n,
+    p: SCRYPT_P,
+    r: SCRYPT_R,
+    salt: Buffer.from(getRandomBytesSync(32)).toString('hex'),
+  }
+  const derivedKey = await deriveKey(password, 'scrypt', kdfparams)
+  const iv = Buffer.from(getRandomBytesSync(16))
+  const ciphertext = Buffer.from(
+    await encrypt(privateKey, derivedKey.subarray(0, 16), iv, 'aes-128-ctr', false)
+  )
+  return {
+    version: 3,
+    id: uuid(),
+    address: privateToAddress(privateKey).toString('hex'),
+    crypto: {
+      cipher: 'aes-128-ctr',
+      ciphertext: ciphertext.toString('hex'),
+      cipherparams: { iv: iv.toString('hex') },
+      kdf: 'scrypt',
+      kdfparams,
+      mac: mac(derivedKey, ciphertext).toString('hex'),
+    },
+  }
+}
+
+/**
+ * Decrypts the private key of a key in the Web3 Secret Storage (v3) format
+ * @param keystore the encrypted key
+ * @param password the password
+ */
+export async function decryptKey(keystore: KeystoreV3, password: string): Promise<Buffer> {
+  if (keystore.version !== 3) {
+    throw new Error(`Unsupported keystore version ${keystore.version}`)
+  }
+  const { cipher, ciphertext, cipherparams, kdf, kdfparams } = keystore.crypto
+  if (cipher !== 'aes-128-ctr') {
+    throw new Error(`Unsupported cipher ${cipher}`)
+  }
+  const derivedKey = await deriveKey(password, kdf, kdfparams)
+  const ciphertextBytes = Buffer.from(ciphertext, 'hex')
+  if (!mac(derivedKey, ciphertextBytes).equals(Buffer.from(keystore.crypto.mac, 'hex'))) {
+    throw new Error('could not decrypt key with given password')
+  }
+  const privateKey = Buffer.from(
+    await decrypt(
+      ciphertextBytes,
+      derivedKey.subarray(0, 16),
+      Buffer.from(cipherparams.iv, 'hex'),
+      'aes-128-ctr',
+      false
+    )
+  )
+  // The address is optional in the format, but if present it has to belong to the key
+  // so that a mislabeled file can't sign for another account
+  if (
+    typeof keystore.address === 'string' &&
+    privateToAddress(privateKey).toString('hex') !== stripHexPrefix(keystore.address).toLowerCase()
+  ) {
+    throw new Error('decrypted key does not match the keystore address')
+  }
+  return privateKey
+}
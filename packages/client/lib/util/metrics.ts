@@ -0,0 +1,235 @@
+import { createServer } from 'http'
+
+import type { Server } from 'http'
+
+export type Labels = { [name: string]: string | number }
+
+/* Default histogram buckets (in seconds), same as used by the official Prometheus clients */
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8'
+
+function labelsKey(labels: Labels) {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => (a < b ? -1 : 1)))
+}
+
+function formatLabels(labels: Labels) {
+  const entries = Object.entries(labels)
+  if (entries.length === 0) return ''
+  const escape = (value: string | number) =>
+    value.toString().replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+  return `{${entries.map(([name, value]) => `${name}="${escape(value)}"`).join(',')}}`
+}
+
+function formatValue(value: number) {
+  if (value === Infinity) return '+Inf'
+  if (value === -Infinity) return '-Inf'
+  return value.toString()
+}
+
+/**
+ * Base class of the metrics, holding a value per label combination
+ */
+abstract class Metric<T> {
+  public readonly name: string
+  public readonly help: string
+  public abstract readonly type: string
+
+  /**
+   * Called before the metric is rendered, allows to update the values
+   * from the state of a component on scraping
+   */
+  public collect?: () => void
+
+  protected values: Map<string, { labels: Labels; value: T }> = new Map()
+
+  constructor(name: string, help: string) {
+    this.name = name
+    this.help = help
+  }
+
+  protected entry(labels: Labels, init: () => T) {
+    const key = labelsKey(labels)
+    let entry = this.values.get(key)
+    if (entry === undefined) {
+      entry = { labels, value: init() }
+      this.values.set(key, entry)
+    }
+    return entry
+  }
+
+  /**
+   * Removes the value of a label combination (e.g. of a disconnected peer)
+   */
+  remove(labels: Labels) {
+    this.values.delete(labelsKey(labels))
+  }
+
+  /**
+   * Removes the values of all label combinations
+   */
+  reset() {
+    this.values.clear()
+  }
+
+  protected abstract lines(): string[]
+
+  /**
+   * Renders the metric in the Prometheus text exposition format
+   */
+  render(): string {
+    this.collect?.()
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`]
+      .concat(this.lines())
+      .join('\n')
+  }
+}
+
+/**
+ * Base class of the metrics with a single number value
+ */
+abstract class ValueMetric extends Metric<number> {
+  protected add(value: number, labels: Labels) {
+    this.entry(labels, () => 0).value += value
+  }
+
+  get(labels: Labels = {}): number | undefined {
+    return this.values.get(labelsKey(labels))?.value
+  }
+
+  protected lines() {
+    return [...this.values.values()].map(
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`
+    )
+  }
+}
+
+/**
+ * Metric with a value which can go up and down
+ */
+export class Gauge extends ValueMetric {
+  public readonly type = 'gauge'
+
+  set(value: number, labels: Labels = {}) {
+    this.entry(labels, () => 0).value = value
+  }
+
+  inc(value = 1, labels: Labels = {}) {
+    this.add(value, labels)
+  }
+
+  dec(value = 1, labels: Labels = {}) {
+    this.add(-value, labels)
+  }
+}
+
+/**
+ * Metric with a value which only goes up
+ */
+export class Counter extends ValueMetric {
+  public readonly type = 'counter'
+
+  inc(value = 1, labels: Labels = {}) {
+    if (value < 0) {
+      throw new Error(`Counter ${this.name} can only be increased`)
+    }
+    this.add(value, labels)
+  }
+}
+
+type HistogramValue = { counts: number[]; sum: number; count: number }
+
+/**
+ * Metric counting the observed values in buckets
+ */
+export class Histogram extends Metric<HistogramValue> {
+  public readonly type = 'histogram'
+  public readonly buckets: number[]
+
+  constructor(name: string, help: string, buckets: number[] = DEFAULT_BUCKETS) {
+    super(name, help)
+    this.buckets = [...buckets].sort((a, b) => a - b)
+  }
+
+  observe(value: number, labels: Labels = {}) {
+    const entry = this.entry(labels, () => ({
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    })).value
+    for (const [i, bucket] of this.buckets.entries()) {
+      if (value <= bucket) entry.counts[i]++
+    }
+    entry.sum += value
+    entry.count++
+  }
+
+  get(labels: Labels = {}): { sum: number; count: number } | undefined {
+    const entry = this.values.get(labelsKey(labels))?.value
+    return entry && { sum: entry.sum, count: entry.count }
+  }
+
+  protected lines() {
+    const lines = []
+    for (const { labels, value } of this.values.values()) {
+      for (const [i, bucket] of this.buckets.entries()) {
+        const le = formatLabels({ ...labels, le: formatValue(bucket) })
+        lines.push(`${this.name}_bucket${le} ${value.counts[i]}`)
+      }
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`)
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(value.sum)}`)
+      lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`)
+    }
+    return lines
+  }
+}
+
+/**
+ * Registry of metrics rendered together
+ */
+export class MetricsRegistry {
+  private metrics: Map<string, Metric<any>> = new Map()
+
+  private register<T extends Metric<any>>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} already registered`)
+    }
+    this.metrics.set(metric.name, metric)
+    return metric
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(name, help))
+  }
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help))
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets))
+  }
+
+  /**
+   * Renders all metrics in the Prometheus text exposition format
+   */
+  render(): string {
+    return [...this.metrics.values()].map((metric) => metric.render() + '\n').join('')
+  }
+}
+
+/**
+ * Creates an HTTP server serving the metrics of the registry at `/metrics`
+ * @param registry the metrics registry
+ */
+export function createMetricsServer(registry: MetricsRegistry): Server {
+  return createServer((req, res) => {
+    if (req.method !== 'GET' || req.url?.split('?')[0] !== '/metrics') {
+      res.writeHead(404)
+      res.end()
+      return
+    }
+    res.writeHead(200, { 'Content-Type': METRICS_CONTENT_TYPE })
+    res.end(registry.render())
+  })
+}
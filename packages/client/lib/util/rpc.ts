@@ -4,9 +4,19 @@ import * as cors from 'cors'
 import { createServer } from 'http'
 import { Server as RPCServer } from 'jayson/promise'
 import { decode } from 'jwt-simple'
+import { performance } from 'perf_hooks'
 import { inspect } from 'util'
 
+import {
+  INTERNAL_ERROR,
+  INVALID_REQUEST,
+  LIMIT_EXCEEDED,
+  METHOD_NOT_FOUND,
+  PARSE_ERROR,
+} from '../rpc/error-code'
+
 import type { Logger } from '../logging'
+import type { Metrics } from '../metrics'
 import type { RPCManager } from '../rpc'
 import type { HttpServer } from 'jayson/promise'
 import type { TAlgorithm } from 'jwt-simple'
@@ -18,6 +28,10 @@ type CreateRPCServerOpts = {
   methodConfig: MethodConfig
   rpcDebug: boolean
   logger?: Logger
+  metrics?: Metrics
+  withKeystoreMethods?: boolean
+  /** Timeout of a method call in ms, no timeout if 0 or not set */
+  callTimeout?: number
 }
 type CreateRPCServerReturn = {
   server: RPCServer
@@ -28,16 +42,63 @@ type CreateRPCServerListenerOpts = {
   rpcCors?: string
   server: RPCServer
   withEngineMiddleware?: WithEngineMiddleware
+  limits?: RPCLimits
 }
 type CreateWSServerOpts = CreateRPCServerListenerOpts & { httpServer?: HttpServer }
 type WithEngineMiddleware = { jwtSecret: Buffer; unlessFn?: (req: IncomingMessage) => boolean }
 
+/**
+ * Method names (e.g. `eth_call`) or namespaces (e.g. `eth`) to expose on an RPC server,
+ * methods in `deny` are removed from the ones in `allow` (all methods if not set)
+ */
+export type MethodFilter = { allow?: string[]; deny?: string[] }
+
+/**
+ * Limits on the requests accepted by an RPC server listener
+ */
+export type RPCLimits = {
+  /** Max number of requests in a batch */
+  batchLimit?: number
+  /** Max size in bytes of a request body (HTTP) or message (WS) */
+  maxBodySize?: number
+  /**
+   * Max number of requests per minute from a client IP, requests of a batch count separately.
+   * Requests authenticated with the JWT secret (the engine API calls of the CL) are not limited.
+   */
+  rateLimit?: number
+}
+
+// GOSSIP_MAX_SIZE_BELLATRIX is proposed to be 10MiB
+export const RPC_MAX_BODY_SIZE_DEFAULT = 11 * 1024 * 1024
+
 export enum MethodConfig {
   WithEngine = 'withengine',
   WithoutEngine = 'withoutengine',
   EngineOnly = 'engineonly',
 }
 
+/**
+ * Position of the password in the params of the keystore methods,
+ * passwords are redacted before the params are logged
+ */
+const passwordParams: { [method: string]: number } = {
+  personal_newAccount: 0,
+  personal_unlockAccount: 1,
+}
+
+/**
+ * Returns the params of a request with any password replaced for logging
+ */
+export function redactParams(method: string, params: any) {
+  const position = passwordParams[method]
+  if (position === undefined || !Array.isArray(params) || params.length <= position) {
+    return params
+  }
+  const redacted = [...params]
+  redacted[position] = '<redacted>'
+  return redacted
+}
+
 /**
  * Internal util to pretty print params for logging.
  */
@@ -55,18 +116,50 @@ export function inspectParams(params: any, shorten?: number) {
   return inspected
 }
 
+/**
+ * Wraps a method to fail calls not finished within the timeout
+ * (the call itself is not aborted)
+ */
+function withCallTimeout(name: string, method: Function, timeout: number) {
+  return async (params: any, context: any) => {
+    let timer: NodeJS.Timeout | undefined /* global NodeJS */
+    const timedOut = new Promise((_resolve, reject) => {
+      timer = setTimeout(
+        () => reject({ code: INTERNAL_ERROR, message: `${name} timed out after ${timeout}ms` }),
+        timeout
+      )
+    })
+    try {
+      return await Promise.race([method(params, context), timedOut])
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+}
+
+/**
+ * Returns the namespaces of the methods as a comma-separated list
+ */
+function getNamespaces(methods: { [key: string]: Function }) {
+  return [...new Set(Object.keys(methods).map((m) => m.split('_')[0]))].join(',')
+}
+
 export function createRPCServer(
   manager: RPCManager,
   opts: CreateRPCServerOpts
 ): CreateRPCServerReturn {
-  const { methodConfig, rpcDebug, logger } = opts
+  const { methodConfig, rpcDebug, logger, metrics, withKeystoreMethods, callTimeout } = opts
+  // Start times of the requests being processed to record the request latency
+  const requestStarts = new WeakMap<object, number>()
 
   const onRequest = (request: any) => {
+    if (metrics) requestStarts.set(request, performance.now())
+    const params = redactParams(request.method, request.params)
     let msg = ''
     if (rpcDebug) {
-      msg += `${request.method} called with params:\n${inspectParams(request.params)}`
+      msg += `${request.method} called with params:\n${inspectParams(params)}`
     } else {
-      msg += `${request.method} called with params: ${inspectParams(request.params, 125)}`
+      msg += `${request.method} called with params: ${inspectParams(params, 125)}`
     }
     logger?.debug(msg)
   }
@@ -99,11 +192,18 @@ export function createRPCServer(
       }
     } else {
       handleResponse(request, response)
+      const start = requestStarts.get(request)
+      // Unknown methods are not recorded to not create a time series per method name sent
+      if (start !== undefined && response.error?.code !== METHOD_NOT_FOUND) {
+        metrics!.rpcRequestTime.observe((performance.now() - start) / 1000, {
+          method: request.method,
+        })
+      }
     }
   }
 
   let methods
-  const ethMethods = manager.getMethods()
+  const ethMethods = manager.getMethods(false, withKeystoreMethods)
 
   switch (methodConfig) {
     case MethodConfig.WithEngine:
@@ -137,14 +237,95 @@ export function createRPCServer(
     }
   }
 
-  const server = new RPCServer(methods)
+  if (callTimeout !== undefined && callTimeout > 0) {
+    for (const [name, method] of Object.entries(methods)) {
+      methods[name] = withCallTimeout(name, method, callTimeout)
+    }
+  }
+
+  // Methods are called with a context, carrying the connection for calls over WebSocket
+  const server = new RPCServer(methods, { useContext: true })
   server.on('request', onRequest)
   server.on('response', onBatchResponse)
-  const namespaces = [...new Set(Object.keys(methods).map((m) => m.split('_')[0]))].join(',')
+  const namespaces = getNamespaces(methods)
 
   return { server, methods, namespaces }
 }
 
+/**
+ * Returns a server only exposing the methods passing the filter, sharing the method
+ * instances (and with it their state, e.g. installed filters) and logging with the server
+ * @param rpcServer return value of {@link createRPCServer}
+ * @param filter the methods to expose
+ */
+export function filterRPCServer(
+  rpcServer: CreateRPCServerReturn,
+  filter: MethodFilter
+): CreateRPCServerReturn {
+  const { allow, deny } = filter
+  const matches = (method: string, entries: string[]) =>
+    entries.includes(method) || entries.includes(method.split('_')[0])
+
+  const methods: { [key: string]: Function } = {}
+  for (const [name, method] of Object.entries(rpcServer.methods)) {
+    if (allow !== undefined && !matches(name, allow)) continue
+    if (deny !== undefined && matches(name, deny)) continue
+    methods[name] = method
+  }
+
+  const server = new RPCServer(methods, { useContext: true })
+  for (const event of ['request', 'response']) {
+    for (const listener of rpcServer.server.listeners(event)) {
+      server.on(event, listener as (...args: any[]) => void)
+    }
+  }
+  return { server, methods, namespaces: getNamespaces(methods) }
+}
+
+/**
+ * Returns a check of the batch and rate limits, returning an error response
+ * for a request (or batch) exceeding a limit
+ * @param limits the limits to check
+ */
+function createLimitsCheck(limits: RPCLimits = {}) {
+  const { batchLimit, rateLimit } = limits
+  // Requests per client IP in the current minute
+  const requestCounts = new Map<string, number>()
+  let windowStart = Date.now()
+
+  return (request: any, ip = '', rateLimited = true): object | undefined => {
+    const isBatch = Array.isArray(request)
+    const errorResponse = (code: number, message: string) => ({
+      jsonrpc: '2.0',
+      id: isBatch ? null : request?.id ?? null,
+      error: { code, message },
+    })
+
+    if (isBatch && batchLimit !== undefined && batchLimit > 0 && request.length > batchLimit) {
+      return errorResponse(
+        INVALID_REQUEST,
+        `batch of ${request.length} requests exceeds the limit of ${batchLimit}`
+      )
+    }
+
+    if (rateLimited && rateLimit !== undefined && rateLimit > 0) {
+      const now = Date.now()
+      if (now - windowStart >= 60000) {
+        requestCounts.clear()
+        windowStart = now
+      }
+      const count = (requestCounts.get(ip) ?? 0) + (isBatch ? request.length : 1)
+      requestCounts.set(ip, count)
+      if (count > rateLimit) {
+        return errorResponse(
+          LIMIT_EXCEEDED,
+          `rate limit of ${rateLimit} requests per minute exceeded`
+        )
+      }
+    }
+  }
+}
+
 function checkHeaderAuth(req: any, jwtSecret: Buffer): void {
   const header = (req.headers['Authorization'] ?? req.headers['authorization']) as string
   if (!header) throw Error(`Missing auth header`)
@@ -157,19 +338,20 @@ function checkHeaderAuth(req: any, jwtSecret: Buffer): void {
 }
 
 export function createRPCServerListener(opts: CreateRPCServerListenerOpts): HttpServer {
-  const { server, withEngineMiddleware, rpcCors } = opts
+  const { server, withEngineMiddleware, rpcCors, limits } = opts
+  const checkLimits = createLimitsCheck(limits)
 
   const app = Connect()
   if (typeof rpcCors === 'string') app.use(cors({ origin: rpcCors }))
-  // GOSSIP_MAX_SIZE_BELLATRIX is proposed to be 10MiB
-  app.use(jsonParser({ limit: '11mb' }))
+  app.use(jsonParser({ limit: limits?.maxBodySize ?? RPC_MAX_BODY_SIZE_DEFAULT }))
 
   if (withEngineMiddleware) {
     const { jwtSecret, unlessFn } = withEngineMiddleware
-    app.use((req, res, next) => {
+    app.use((req: any, res, next) => {
       try {
         if (unlessFn && unlessFn(req)) return next()
         checkHeaderAuth(req, jwtSecret)
+        req.jwtAuthenticated = true
         return next()
       } catch (error) {
         if (error instanceof Error) {
@@ -182,13 +364,23 @@ export function createRPCServerListener(opts: CreateRPCServerListenerOpts): Http
     })
   }
 
+  app.use((req: any, res, next) => {
+    // The authenticated engine API calls of the CL are not rate limited
+    const rateLimited = req.jwtAuthenticated !== true
+    const response = checkLimits(req.body, req.socket.remoteAddress, rateLimited)
+    if (response === undefined) return next()
+    res.writeHead(200, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify(response))
+  })
+
   app.use(server.middleware())
   const httpServer = createServer(app)
   return httpServer
 }
 
 export function createWsRPCServerListener(opts: CreateWSServerOpts): HttpServer | undefined {
-  const { server, withEngineMiddleware, rpcCors } = opts
+  const { server, withEngineMiddleware, rpcCors, limits } = opts
+  const checkLimits = createLimitsCheck(limits)
 
   // Get the server to hookup upgrade request on
   let httpServer = opts.httpServer
@@ -200,7 +392,42 @@ export function createWsRPCServerListener(opts: CreateWSServerOpts): HttpServer
     httpServer = createServer(app)
   }
 
-  const wss = server.websocket({ noServer: true })
+  // Messages exceeding the max size close the connection
+  const wss = server.websocket({
+    noServer: true,
+    maxPayload: limits?.maxBodySize ?? RPC_MAX_BODY_SIZE_DEFAULT,
+  })
+
+  // Handle the connection messages here (instead of in jayson) to pass the
+  // connection on to the RPC methods for per-connection subscriptions
+  const onConnection = (ws: any, req: IncomingMessage) => {
+    const ip = req.socket.remoteAddress
+    ws.on('message', (data: Buffer | string) => {
+      let request
+      try {
+        request = JSON.parse(data.toString())
+      } catch (error: any) {
+        const response = {
+          jsonrpc: '2.0',
+          id: null,
+          error: { code: PARSE_ERROR, message: `Parse error: ${error.message}` },
+        }
+        ws.send(JSON.stringify(response))
+        return
+      }
+      // Connections to an engine server are authenticated on upgrade, not rate limited
+      const limitResponse = checkLimits(request, ip, withEngineMiddleware === undefined)
+      if (limitResponse !== undefined) {
+        ws.send(JSON.stringify(limitResponse))
+        return
+      }
+      server.call(request, { connection: ws }, (error: any, success: any) => {
+        const response = error ?? success
+        // No response for notifications
+        if (response !== undefined && response !== null) ws.send(JSON.stringify(response))
+      })
+    })
+  }
 
   httpServer.on('upgrade', (req, socket, head) => {
     if (withEngineMiddleware) {
@@ -210,11 +437,10 @@ export function createWsRPCServerListener(opts: CreateWSServerOpts): HttpServer
       } catch (error) {
         socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n')
         socket.destroy()
+        return
       }
     }
-    ;(wss as any).handleUpgrade(req, socket, head, (ws: any) => {
-      ;(wss as any).emit('connection', ws, req)
-    })
+    ;(wss as any).handleUpgrade(req, socket, head, onConnection)
   })
   // Only return something if a new server was created
   return !opts.httpServer ? httpServer : undefined
@@ -0,0 +1,121 @@
+import { BlockHeader } from '@ethereumjs/block'
+import { Blockchain } from '@ethereumjs/blockchain'
+import { RLP } from '@ethereumjs/rlp'
+import { mkdtempSync, readFileSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import * as path from 'path'
+import * as tape from 'tape'
+import { gunzipSync } from 'zlib'
+
+import { Chain } from '../../lib/blockchain'
+import { exportBlocks, importBlocks, readBlockFile } from '../../lib/blockchain/blockfile'
+import { Config } from '../../lib/config'
+import { VMExecution } from '../../lib/execution'
+import blocksDataMainnet = require('../testdata/blocks/mainnet.json')
+
+tape('[Block file import/export]', async (t) => {
+  const dir = mkdtempSync(path.join(tmpdir(), 'blockfile-'))
+  const config = new Config({ transports: [] })
+  const blockchain = await Blockchain.fromBlocksData(blocksDataMainnet, {
+    validateBlocks: true,
+    validateConsensus: false,
+  })
+  const source = new Chain({ config, blockchain })
+  await source.open()
+
+  const readAll = async (file: string) => {
+    const items = []
+    for await (const item of readBlockFile(file)) items.push(item)
+    return items
+  }
+
+  const setup = async () => {
+    const config = new Config({ transports: [] })
+    const chain = new Chain({ config })
+    const execution = new VMExecution({ config, chain })
+    await chain.open()
+    await execution.open()
+    return { chain, execution }
+  }
+
+  t.test('should export blocks', async (t) => {
+    const file = path.join(dir, 'blocks.rlp')
+    t.equal(await exportBlocks(file, { chain: source }), 6, 'exported genesis and 5 blocks')
+    const items = await readAll(file)
+    t.equal(items.length, 6, 'read back all blocks')
+    const block = await source.getBlock(BigInt(3))
+    t.ok(items[3].equals(block.serialize()), 'wrote the RLP serialized block')
+
+    const range = path.join(dir, 'range.rlp')
+    await exportBlocks(range, { chain: source, first: BigInt(2), last: BigInt(4) })
+    t.equal((await readAll(range)).length, 3, 'exported the range')
+
+    const headers = path.join(dir, 'headers.rlp')
+    await exportBlocks(headers, { chain: source, headersOnly: true })
+    const header = BlockHeader.fromValuesArray(RLP.decode((await readAll(headers))[3]) as any, {
+      common: config.chainCommon,
+      hardforkByBlockNumber: true,
+    })
+    t.ok(header.hash().equals(block.hash()), 'wrote the RLP serialized header')
+
+    try {
+      await exportBlocks(range, { chain: source, first: BigInt(4), last: BigInt(10) })
+      t.fail('should have thrown')
+    } catch (e: any) {
+      t.ok(e.message.includes('Invalid export range'), 'throws on a range beyond the height')
+    }
+    t.end()
+  })
+
+  t.test('should export gzip compressed', async (t) => {
+    const file = path.join(dir, 'blocks.rlp.gz')
+    await exportBlocks(file, { chain: source })
+    const raw = readFileSync(path.join(dir, 'blocks.rlp'))
+    t.ok(gunzipSync(readFileSync(file)).equals(raw), 'compressed the RLP blocks')
+    t.equal((await readAll(file)).length, 6, 'read back the compressed file')
+    t.end()
+  })
+
+  t.test('should import and execute blocks', async (t) => {
+    const { chain, execution } = await setup()
+    const file = path.join(dir, 'blocks.rlp.gz')
+    t.equal(await importBlocks(file, { chain, execution, batchSize: 2 }), 5, 'imported blocks')
+    t.equal(chain.blocks.height, BigInt(5), 'updated the chain height')
+    const head = await execution.vm.blockchain.getIteratorHead!()
+    t.equal(head.header.number, BigInt(5), 'executed the blocks')
+
+    t.equal(await importBlocks(file, { chain, execution }), 0, 'skipped blocks already imported')
+    t.end()
+  })
+
+  t.test('should resume an interrupted import', async (t) => {
+    const { chain, execution } = await setup()
+    await importBlocks(path.join(dir, 'range.rlp'), { chain }).catch(() => {})
+    t.equal(chain.blocks.height, BigInt(0), 'did not import blocks not linking to the chain')
+
+    const file = path.join(dir, 'blocks.rlp')
+    const partial = path.join(dir, 'partial.rlp')
+    const items = await readAll(file)
+    writeFileSync(partial, Buffer.concat(items.slice(0, 3)))
+    await importBlocks(partial, { chain })
+    t.equal(chain.blocks.height, BigInt(2), 'imported the first blocks')
+
+    t.equal(await importBlocks(file, { chain, execution }), 3, 'imported the remaining blocks')
+    const head = await execution.vm.blockchain.getIteratorHead!()
+    t.equal(head.header.number, BigInt(5), 'executed all blocks')
+    t.end()
+  })
+
+  t.test('should reject invalid files', async (t) => {
+    const file = path.join(dir, 'invalid.rlp')
+    const items = await readAll(path.join(dir, 'blocks.rlp'))
+    writeFileSync(file, Buffer.concat([items[0], items[1].subarray(0, 10)]))
+    try {
+      await readAll(file)
+      t.fail('should have thrown')
+    } catch (e: any) {
+      t.ok(e.message.includes('trailing bytes'), 'throws on a truncated block')
+    }
+    t.end()
+  })
+})
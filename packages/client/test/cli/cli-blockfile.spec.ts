@@ -0,0 +1,44 @@
+import { spawn } from 'child_process'
+import { existsSync, mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import * as tape from 'tape'
+
+const file = require.resolve('../../dist/bin/cli.js')
+
+const run = (args: string[]): Promise<number | null> => {
+  const child = spawn(process.execPath, [file, ...args])
+  // log output for easier debugging
+  // eslint-disable-next-line no-console
+  child.stdout.on('data', (data) => console.log(data.toString()))
+  return new Promise((resolve) => child.on('close', resolve))
+}
+
+tape('[CLI] block file import/export', (t) => {
+  t.test('should exit with status 0 on a successful export', { timeout: 60000 }, async (st) => {
+    const datadir = mkdtempSync(join(tmpdir(), 'ethereumjs-'))
+    const output = join(datadir, 'blocks.rlp')
+    const code = await run([`--datadir=${datadir}`, `--export=${output}`, '--exportRange=0'])
+    st.equal(code, 0, 'exited with status 0')
+    st.ok(existsSync(output), 'wrote the block file')
+    rmSync(datadir, { recursive: true, force: true })
+    st.end()
+  })
+
+  t.test('should exit with status 1 on a failed import', { timeout: 60000 }, async (st) => {
+    const datadir = mkdtempSync(join(tmpdir(), 'ethereumjs-'))
+    const code = await run([`--datadir=${datadir}`, `--import=${join(datadir, 'missing.rlp')}`])
+    st.equal(code, 1, 'exited with status 1')
+    rmSync(datadir, { recursive: true, force: true })
+    st.end()
+  })
+
+  t.test('should exit with status 1 on a failed export', { timeout: 60000 }, async (st) => {
+    const datadir = mkdtempSync(join(tmpdir(), 'ethereumjs-'))
+    const output = join(datadir, 'blocks.rlp')
+    const code = await run([`--datadir=${datadir}`, `--export=${output}`, '--exportRange=5-10'])
+    st.equal(code, 1, 'exited with status 1')
+    rmSync(datadir, { recursive: true, force: true })
+    st.end()
+  })
+})
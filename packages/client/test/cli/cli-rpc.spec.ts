@@ -1,5 +1,6 @@
 import { spawn } from 'child_process'
 import { Client } from 'jayson/promise'
+import { networkInterfaces } from 'os'
 import * as tape from 'tape'
 
 import type { ChildProcessWithoutNullStreams } from 'child_process'
@@ -57,6 +58,55 @@ tape('[CLI] rpc', (t) => {
     })
   })
 
+  t.test('should not expose the keystore methods on other interfaces', (st) => {
+    const file = require.resolve('../../dist/bin/cli.js')
+    // Other ports than the client of the previous test, which might still be shutting down
+    const args = ['--keystore', '--port=30304', '--rpcport=8546', '--wsPort=8546']
+    const child = spawn(process.execPath, [file, ...cliArgs, ...args])
+    const hasEnded = false
+
+    child.stdout.on('data', async (data) => {
+      const message: string = data.toString()
+      if (message.includes('http://')) {
+        try {
+          const client = Client.http({ port: 8546 })
+          const res = await client.request('personal_listAccounts', [], 2.0)
+          st.ok(Array.isArray(res.result), 'keystore methods exposed on localhost')
+
+          const external = Object.values(networkInterfaces())
+            .flat()
+            .find((iface) => iface !== undefined && !iface.internal && iface.family === 'IPv4')
+          if (external === undefined) {
+            st.skip('no non-loopback interface to connect through')
+          } else {
+            const remoteClient = Client.http({ host: external.address, port: 8546 })
+            const error = await remoteClient.request('personal_listAccounts', [], 2.0).then(
+              () => undefined,
+              (error: any) => error
+            )
+            st.equal(error?.code, 'ECONNREFUSED', `not listening on address=${external.address}`)
+          }
+        } catch (error: any) {
+          st.error(error)
+        }
+        end(child, hasEnded, st)
+      }
+    })
+
+    child.stderr.on('data', (data) => {
+      const message: string = data.toString()
+      st.fail(`stderr: ${message}`)
+      end(child, hasEnded, st)
+    })
+
+    child.on('close', (code) => {
+      if (typeof code === 'number' && code > 0) {
+        st.fail(`child process exited with code ${code}`)
+        end(child, hasEnded, st)
+      }
+    })
+  })
+
   t.test('http and ws endpoints should not start when cli args omitted', (st) => {
     const file = require.resolve('../../dist/bin/cli.js')
     const rpcDisabledArgs = cliArgs.filter((arg) => !['--rpc', '--ws'].includes(arg))
@@ -83,4 +83,12 @@ tape('[Config]', (t) => {
     t.equal(config.discDns, true, `default discV4 setting can be overridden to true`)
     t.end()
   })
+
+  t.test('--discV5=true/false', (t) => {
+    let config = new Config()
+    t.equal(config.discV5, false, 'v5 peer discovery disabled by default')
+    config = new Config({ discV5: true })
+    t.equal(config.discV5, true, 'v5 peer discovery can be enabled')
+    t.end()
+  })
 })
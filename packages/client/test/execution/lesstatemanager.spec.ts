@@ -0,0 +1,160 @@
+import { DefaultStateManager } from '@ethereumjs/statemanager'
+import { Trie } from '@ethereumjs/trie'
+import { Account, Address, setLengthLeft } from '@ethereumjs/util'
+import * as tape from 'tape'
+
+import { Config } from '../../lib/config'
+import { LesStateManager } from '../../lib/execution/lesstatemanager'
+import { LevelDB } from '../../lib/execution/level'
+import { LesServer } from '../../lib/service/lesserver'
+
+tape('[LesStateManager]', async (t) => {
+  const stateManager = new DefaultStateManager({
+    trie: new Trie({ db: new LevelDB(), useKeyHashing: true }),
+  })
+  const address = new Address(setLengthLeft(Buffer.from([1]), 20))
+  const code = Buffer.from('6001', 'hex')
+  const slot = setLengthLeft(Buffer.from([1]), 32)
+  await stateManager.putAccount(address, Account.fromAccountData({ balance: BigInt(10) }))
+  await stateManager.putContractCode(address, code)
+  await stateManager.putContractStorage(address, slot, Buffer.from([0x2a]))
+  const stateRoot = await stateManager.getStateRoot()
+
+  const header = { hash: () => Buffer.alloc(32, 1), stateRoot, number: BigInt(1) }
+  const chain = {
+    headers: { latest: header, height: BigInt(1) },
+    getHeaders: async () => [header],
+    getBlock: async () => ({ header }),
+  }
+  const config = new Config({ transports: [] })
+  const server = new LesServer({
+    config,
+    chain: chain as any,
+    execution: { vm: { stateManager } } as any,
+    txPool: {} as any,
+  })
+
+  let requests = 0
+  let tamper = false
+  const peer = {
+    id: 'peer',
+    les: {
+      status: { serveHeaders: true, mrc: {} },
+      getProofsV2: async ({ reqs }: any) => {
+        requests++
+        const proof = await server.getProofs(reqs)
+        return { reqId: BigInt(1), bv: BigInt(1000), proof: tamper ? proof.slice(1) : proof }
+      },
+      getContractCodes: async ({ reqs }: any) => {
+        requests++
+        const codes = await server.getContractCodes(reqs)
+        return { reqId: BigInt(1), bv: BigInt(1000), codes: tamper ? [Buffer.from('00')] : codes }
+      },
+    },
+  }
+  const pool = { peers: [peer] }
+  const create = () => new LesStateManager({ config, chain: chain as any, pool: pool as any })
+
+  t.test('should retrieve and verify accounts, code and storage', async (t) => {
+    const les = create()
+    t.ok((await les.getStateRoot()).equals(stateRoot), 'defaults to the latest header state')
+    const account = await les.getAccount(address)
+    t.equal(account.balance, BigInt(10), 'retrieved the account')
+    t.ok((await les.getContractCode(address)).equals(code), 'retrieved the code')
+    const value = await les.getContractStorage(address, slot)
+    t.ok(value.equals(Buffer.from([0x2a])), 'retrieved the storage value')
+
+    const before = requests
+    await les.getAccount(address)
+    await les.getContractStorage(address, slot)
+    t.equal(requests, before, 'served repeated lookups from the cache')
+
+    const other = new Address(setLengthLeft(Buffer.from([2]), 20))
+    t.notOk(await les.accountExists(other), 'proved the absence of an account')
+    t.end()
+  })
+
+  t.test('should reject invalid responses', async (t) => {
+    tamper = true
+    const les = create()
+    try {
+      await les.getAccount(address)
+      t.fail('should have thrown')
+    } catch (e: any) {
+      t.ok(e.message.includes('Invalid LES proof'), 'rejected an incomplete proof')
+    }
+    tamper = false
+    await les.getAccount(address)
+    tamper = true
+    try {
+      await les.getContractCode(address)
+      t.fail('should have thrown')
+    } catch (e: any) {
+      t.ok(e.message.includes('Invalid LES contract code'), 'rejected code not matching the hash')
+    }
+    tamper = false
+    t.end()
+  })
+
+  t.test('should only set recent state roots', async (t) => {
+    const les = create()
+    t.ok(await les.hasStateRoot(stateRoot), 'has the state of a recent header')
+    t.notOk(await les.hasStateRoot(Buffer.alloc(32)), 'does not have an unknown state')
+    await les.setStateRoot(stateRoot)
+    try {
+      await les.setStateRoot(Buffer.alloc(32))
+      t.fail('should have thrown')
+    } catch (e: any) {
+      t.ok(e.message.includes('not the root of a recent block'), 'throws on an unknown root')
+    }
+    t.end()
+  })
+
+  t.test('should only apply writes to a copy', async (t) => {
+    const les = create()
+    const copy = les.copy()
+    await copy.putContractStorage(address, slot, Buffer.from([1]))
+    t.ok(
+      (await copy.getContractStorage(address, slot)).equals(Buffer.from([1])),
+      'copy has the written value'
+    )
+    t.ok(
+      (await les.getContractStorage(address, slot)).equals(Buffer.from([0x2a])),
+      'original still retrieves the proven value'
+    )
+    t.end()
+  })
+
+  t.test('should revert the code and storage written since a checkpoint', async (t) => {
+    const les = create()
+    await les.getContractStorage(address, slot)
+    await les.checkpoint()
+    await les.putContractStorage(address, slot, Buffer.from([1]))
+    await les.putContractCode(address, Buffer.from('6002', 'hex'))
+    await les.checkpoint()
+    await les.clearContractStorage(address)
+    await les.commit()
+    t.ok(
+      (await les.getContractStorage(address, slot)).equals(Buffer.alloc(0)),
+      'committed the storage cleared'
+    )
+    await les.revert()
+    t.ok(
+      (await les.getContractStorage(address, slot)).equals(Buffer.from([0x2a])),
+      'reverted the storage value'
+    )
+    t.ok((await les.getContractCode(address)).equals(code), 'reverted the code')
+    t.end()
+  })
+
+  t.test('should fail without LES servers', async (t) => {
+    const les = new LesStateManager({ config, chain: chain as any, pool: { peers: [] } as any })
+    try {
+      await les.getAccount(address)
+      t.fail('should have thrown')
+    } catch (e: any) {
+      t.ok(e.message.includes('No LES server available'), 'throws without peers')
+    }
+    t.end()
+  })
+})
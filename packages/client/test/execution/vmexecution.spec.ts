@@ -1,11 +1,17 @@
+import { Block } from '@ethereumjs/block'
 import { Blockchain } from '@ethereumjs/blockchain'
 import { Chain as ChainEnum, Common, Hardfork } from '@ethereumjs/common'
+import { DefaultStateManager } from '@ethereumjs/statemanager'
+import { Trie } from '@ethereumjs/trie'
+import { Account, Address } from '@ethereumjs/util'
 import { VM } from '@ethereumjs/vm'
 import * as tape from 'tape'
 
 import { Chain } from '../../lib/blockchain'
 import { Config } from '../../lib/config'
 import { VMExecution } from '../../lib/execution'
+import { LevelDB } from '../../lib/execution/level'
+import { StatePruner } from '../../lib/execution/pruner'
 import blocksDataGoerli = require('../testdata/blocks/goerli.json')
 import blocksDataMainnet = require('../testdata/blocks/mainnet.json')
 import testnet = require('../testdata/common/testnet.json')
@@ -82,4 +88,123 @@ tape('[VMExecution]', async (t) => {
 
     t.end()
   })
+
+  t.test('State pruning', async (t) => {
+    const blockchain = await Blockchain.fromBlocksData(blocksDataMainnet, {
+      validateBlocks: true,
+      validateConsensus: false,
+    })
+    const config = new Config({ transports: [], stateRetention: 2 })
+    const chain = new Chain({ config, blockchain })
+    const exec = new VMExecution({ config, chain })
+    await chain.open()
+    await exec.open()
+    exec.setFinalized(await chain.getBlock(BigInt(1)))
+    await exec.run()
+    const head = await exec.vm.blockchain.getIteratorHead!()
+    // Wait for the pruning started in the background
+    await exec.prune(head)
+
+    const stateRoot = async (number: number) =>
+      (await chain.getBlock(BigInt(number))).header.stateRoot
+    const { stateManager } = exec.vm
+    t.ok(await stateManager.hasStateRoot(head.header.stateRoot), 'should keep head state')
+    t.ok(await stateManager.hasStateRoot(await stateRoot(4)), 'should keep state within window')
+    t.ok(await stateManager.hasStateRoot(await stateRoot(1)), 'should keep finalized state')
+    t.notOk(await stateManager.hasStateRoot(await stateRoot(3)), 'should prune older state')
+    t.notOk(await stateManager.hasStateRoot(await stateRoot(0)), 'should prune genesis state')
+
+    await stateManager.setStateRoot(head.header.stateRoot)
+    const account = await stateManager.getAccount(head.header.coinbase)
+    t.ok(account.balance > BigInt(0), 'should keep head state complete')
+
+    await (exec as any).prunePromise
+    config.snapSyncing = true
+    const nextHead = Block.fromBlockData(
+      { header: { number: head.header.number + BigInt(3) } },
+      { common: config.execCommon }
+    )
+    ;(exec as any).schedulePrune(nextHead)
+    t.equal((exec as any).prunePromise, undefined, 'should not prune while snap syncing')
+
+    const archiveConfig = new Config({ transports: [], stateRetention: 2, archive: true })
+    t.equal(archiveConfig.stateRetention, undefined, 'archive mode should disable pruning')
+    t.end()
+  })
+
+  t.test('State pruning of shared trie nodes', async (t) => {
+    const config = new Config({ transports: [], stateRetention: 1 })
+    const pruner = new StatePruner({ config, db: new LevelDB() })
+    const stateManager = new DefaultStateManager({
+      trie: new Trie({ db: pruner.db, useKeyHashing: true }),
+    })
+    const [a, b] = ['aa', 'bb'].map((byte) => new Address(Buffer.from(byte.repeat(20), 'hex')))
+    const slot = Buffer.alloc(32)
+    const journal = async (number: number) => {
+      await stateManager.commit()
+      const stateRoot = await stateManager.getStateRoot()
+      await pruner.journal(Block.fromBlockData({ header: { number, stateRoot } }))
+      return stateRoot
+    }
+
+    // Both accounts share the same storage trie
+    await stateManager.checkpoint()
+    for (const address of [a, b]) {
+      await stateManager.putAccount(address, new Account())
+      await stateManager.putContractStorage(address, slot, Buffer.from('01', 'hex'))
+    }
+    const root1 = await journal(1)
+    await stateManager.checkpoint()
+    await stateManager.putContractStorage(a, slot, Buffer.from('02', 'hex'))
+    const root2 = await journal(2)
+
+    t.ok((await pruner.prune(BigInt(2))) > 0, 'should remove nodes')
+    t.notOk(await stateManager.hasStateRoot(root1), 'should prune the released state')
+    await stateManager.setStateRoot(root2)
+    t.deepEqual(
+      await stateManager.getContractStorage(b, slot),
+      Buffer.from('01', 'hex'),
+      'should keep the storage trie still referenced'
+    )
+    t.deepEqual(
+      await stateManager.getContractStorage(a, slot),
+      Buffer.from('02', 'hex'),
+      'should keep the updated storage trie'
+    )
+    t.equal(await pruner.prune(BigInt(2)), 0, 'should release journals only once')
+    t.end()
+  })
+
+  t.test('State pruning of trie nodes not counted', async (t) => {
+    const config = new Config({ transports: [], stateRetention: 1 })
+    const db = new LevelDB()
+    const address = new Address(Buffer.from('aa'.repeat(20), 'hex'))
+
+    // State written to the db directly (e.g. by snap sync, or before pruning was enabled)
+    const syncedState = new DefaultStateManager({ trie: new Trie({ db, useKeyHashing: true }) })
+    await syncedState.checkpoint()
+    await syncedState.putAccount(address, new Account(BigInt(0), BigInt(1)))
+    await syncedState.commit()
+    const root0 = await syncedState.getStateRoot()
+
+    const pruner = new StatePruner({ config, db })
+    const stateManager = new DefaultStateManager({
+      trie: new Trie({ db: pruner.db, useKeyHashing: true, root: root0 }),
+    })
+    const journal = async (number: number, balance: bigint) => {
+      await stateManager.checkpoint()
+      await stateManager.putAccount(address, new Account(BigInt(0), balance))
+      await stateManager.commit()
+      const stateRoot = await stateManager.getStateRoot()
+      await pruner.journal(Block.fromBlockData({ header: { number, stateRoot } }))
+      return stateRoot
+    }
+    const root1 = await journal(1, BigInt(2))
+    await journal(2, BigInt(3))
+
+    t.ok((await pruner.prune(BigInt(2))) > 0, 'should remove nodes')
+    t.notOk(await stateManager.hasStateRoot(root1), 'should prune the journaled state')
+    t.ok(await stateManager.hasStateRoot(root0), 'should never remove the nodes not counted')
+    t.end()
+  })
 })
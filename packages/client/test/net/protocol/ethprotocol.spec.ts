@@ -94,6 +94,7 @@ tape('[EthProtocol]', (t) => {
       td,
     ])
     t.deepEquals(res[0].hash(), block.hash(), 'correctly decoded block')
+    t.equal(res[1], td, 'correctly decoded td')
     t.equal(bufferToBigInt(res2[1]), td, 'correctly encoded td')
     t.end()
   })
@@ -249,4 +250,20 @@ tape('[EthProtocol]', (t) => {
     st.deepEqual(decoded[0], fakeHash, 'decoded hash correctly')
     st.end()
   })
+
+  t.test('verify that eth/68 NewPooledTransactionHashes encodes/decodes correctly', (st) => {
+    const config = new Config({ transports: [] })
+    const chain = new Chain({ config })
+    const p = new EthProtocol({ config, chain })
+    const message = p.messages.filter((message) => message.name === 'NewPooledTransactionHashes')[0]
+    const fakeHashes = [randomBytes(32), randomBytes(32)]
+    const res = p.encode(message, [[0, 2], [110, 300], fakeHashes])
+    st.deepEqual(res[0], Buffer.from([0, 2]), 'encoded tx types correctly')
+    st.deepEqual(res[1], [Buffer.from([110]), Buffer.from([1, 44])], 'encoded tx sizes correctly')
+    st.deepEqual(res[2], fakeHashes, 'encoded hashes correctly')
+
+    const decoded = p.decode(message, res)
+    st.deepEqual(decoded, [[0, 2], [110, 300], fakeHashes], 'decoded announcement correctly')
+    st.end()
+  })
 })
@@ -1,8 +1,13 @@
+import { Common, Hardfork } from '@ethereumjs/common'
+import { FeeMarketEIP1559Transaction } from '@ethereumjs/tx'
+import { bufferToBigInt } from '@ethereumjs/util'
+import { randomBytes } from 'crypto'
 import * as tape from 'tape'
 
 import { Chain } from '../../../lib/blockchain'
 import { Config } from '../../../lib/config'
 import { FlowControl, LesProtocol } from '../../../lib/net/protocol'
+import { LesTxStatus } from '../../../lib/net/protocol/lesprotocol'
 
 tape('[LesProtocol]', (t) => {
   t.test('should get properties', (t) => {
@@ -77,7 +82,7 @@ tape('[LesProtocol]', (t) => {
         status.serveHeaders === 1 &&
         status.serveChainSince === 0 &&
         status.serveStateSince === 0 &&
-        //status.txRelay === 1 && TODO: uncomment with client tx pool functionality
+        status.txRelay === 1 &&
         status['flowControl/BL'].toString('hex') === '03e8' &&
         status['flowControl/MRR'].toString('hex') === '0a' &&
         status['flowControl/MRC'][0][0].toString('hex') === '02' &&
@@ -99,7 +104,7 @@ tape('[LesProtocol]', (t) => {
         status.serveHeaders === true &&
         status.serveChainSince === 0 &&
         status.serveStateSince === 0 &&
-        //status.txRelay === true && TODO: uncomment with client tx pool functionality
+        status.txRelay === true &&
         status.bl === 1000 &&
         status.mrr === 10 &&
         status.mrc['2'].base === 10 &&
@@ -110,4 +115,105 @@ tape('[LesProtocol]', (t) => {
     )
     t.end()
   })
+
+  t.test('should encode/decode GetProofsV2 and ProofsV2', (t) => {
+    const config = new Config({ transports: [] })
+    const chain = new Chain({ config })
+    const p = new LesProtocol({ config, chain })
+    const getProofs = p.messages.find((m) => m.name === 'GetProofsV2')!
+    const req = {
+      blockHash: Buffer.alloc(32, 1),
+      accountKey: Buffer.alloc(32, 2),
+      key: Buffer.alloc(32, 3),
+      fromLevel: 1,
+    }
+    const encoded = p.encode(getProofs, { reqId: BigInt(1), reqs: [req] })
+    t.equal(bufferToBigInt(encoded[0]), BigInt(1), 'encoded reqId')
+    t.deepEqual(p.decode(getProofs, encoded), { reqId: BigInt(1), reqs: [req] }, 'round-tripped')
+    t.equal(getProofs.response, 0x10, 'answered by ProofsV2')
+
+    const proofs = p.messages.find((m) => m.name === 'ProofsV2')!
+    const proof = [Buffer.from('c0', 'hex')]
+    t.deepEqual(
+      p.decode(proofs, p.encode(proofs, { reqId: BigInt(1), bv: BigInt(1000), proof })),
+      { reqId: BigInt(1), bv: BigInt(1000), proof },
+      'round-tripped ProofsV2'
+    )
+    t.end()
+  })
+
+  t.test('should encode/decode GetContractCodes and ContractCodes', (t) => {
+    const config = new Config({ transports: [] })
+    const chain = new Chain({ config })
+    const p = new LesProtocol({ config, chain })
+    const getCodes = p.messages.find((m) => m.name === 'GetContractCodes')!
+    const reqs = [{ blockHash: Buffer.alloc(32, 1), accountKey: Buffer.alloc(32, 2) }]
+    t.deepEqual(
+      p.decode(getCodes, p.encode(getCodes, { reqId: BigInt(2), reqs })),
+      { reqId: BigInt(2), reqs },
+      'round-tripped GetContractCodes'
+    )
+    const codes = p.messages.find((m) => m.name === 'ContractCodes')!
+    const code = [Buffer.from('6001', 'hex')]
+    t.deepEqual(
+      p.decode(codes, p.encode(codes, { reqId: BigInt(2), bv: BigInt(10), codes: code })),
+      { reqId: BigInt(2), bv: BigInt(10), codes: code },
+      'round-tripped ContractCodes'
+    )
+    t.end()
+  })
+
+  t.test('should encode/decode Receipts per block', (t) => {
+    const config = new Config({ transports: [] })
+    const chain = new Chain({ config })
+    const p = new LesProtocol({ config, chain })
+    const receipt = {
+      status: 1 as 0 | 1,
+      cumulativeBlockGasUsed: BigInt(100),
+      bitvector: Buffer.alloc(256),
+      logs: [],
+    }
+    const receipts = p.messages.find((m) => m.name === 'Receipts')!
+    const res = p.decode(
+      receipts,
+      p.encode(receipts, {
+        reqId: BigInt(3),
+        bv: BigInt(10),
+        receipts: [[{ ...receipt, txType: 2 }], []],
+      })
+    )
+    t.equal(res.receipts.length, 2, 'decoded receipts of both blocks')
+    t.deepEqual(res.receipts[0], [receipt], 'decoded typed receipt')
+    t.deepEqual(res.receipts[1], [], 'decoded block without receipts')
+    t.end()
+  })
+
+  t.test('should encode/decode SendTxV2 and TxStatus', (t) => {
+    const config = new Config({
+      transports: [],
+      common: new Common({ chain: Config.CHAIN_DEFAULT, hardfork: Hardfork.London }),
+    })
+    const chain = new Chain({ config })
+    const p = new LesProtocol({ config, chain })
+    const tx = FeeMarketEIP1559Transaction.fromTxData(
+      { maxFeePerGas: 10, maxPriorityFeePerGas: 8, gasLimit: 100 },
+      { common: config.chainCommon }
+    ).sign(randomBytes(32))
+    const sendTx = p.messages.find((m) => m.name === 'SendTxV2')!
+    const decoded = p.decode(sendTx, p.encode(sendTx, { reqId: BigInt(4), txs: [tx] }))
+    t.ok(decoded.txs[0].hash().equals(tx.hash()), 'round-tripped tx')
+    t.equal(sendTx.response, 0x15, 'answered by TxStatus')
+
+    const txStatus = p.messages.find((m) => m.name === 'TxStatus')!
+    const status = [
+      { status: LesTxStatus.Pending, data: Buffer.alloc(0) },
+      { status: LesTxStatus.Error, data: Buffer.from('nonce too low') },
+    ]
+    t.deepEqual(
+      p.decode(txStatus, p.encode(txStatus, { reqId: BigInt(4), bv: BigInt(10), status })).status,
+      status,
+      'round-tripped tx status'
+    )
+    t.end()
+  })
 })
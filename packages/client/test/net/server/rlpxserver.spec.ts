@@ -35,7 +35,12 @@ tape('[RlpxServer]', async (t) => {
   DPT.prototype.bind = td.func<any>()
   DPT.prototype.getDnsPeers = td.func<any>()
 
-  td.replace('@ethereumjs/devp2p', { DPT, RLPx })
+  class Discv5 extends EventEmitter {
+    bind(_: any, _2: any) {}
+  }
+  Discv5.prototype.bind = td.func<any>()
+
+  td.replace('@ethereumjs/devp2p', { DPT, Discv5, RLPx })
 
   const { RlpxServer } = await import('../../../lib/net/server/rlpxserver')
 
@@ -109,6 +114,36 @@ tape('[RlpxServer]', async (t) => {
     t.end()
   })
 
+  t.test('should bootstrap discv5 with bootnodes answering the v4 ping', async (t) => {
+    const peerInfo = { id: Buffer.from('01', 'hex'), address: '10.0.0.1', udpPort: 1234 }
+    const config = new Config({ transports: [], discV5: true })
+    const server = new RlpxServer({
+      config,
+      bootnodes: '10.0.0.1:1234,10.0.0.2:1234',
+    })
+    t.ok(server.discovery, 'discovery enabled')
+    ;(server as any).initDpt = td.func<typeof server['initDpt']>()
+    ;(server as any).initDiscv5 = td.func<typeof server['initDiscv5']>()
+    ;(server as any).initRlpx = td.func<typeof server['initRlpx']>()
+    server.rlpx = td.object()
+    server.dpt = td.object<typeof server['dpt']>()
+    server.discv5 = td.object<typeof server['discv5']>()
+    td.when(server.dpt!.getPeer({ address: '10.0.0.1', udpPort: 1234, tcpPort: 1234 })).thenReturn(
+      peerInfo
+    )
+    td.when(server.dpt!.getPeer({ address: '10.0.0.2', udpPort: 1234, tcpPort: 1234 })).thenReturn(
+      null
+    )
+    await server.start()
+    td.verify((server as any).initDiscv5())
+    await server.bootstrap()
+    td.verify(server.discv5!.bootstrap(peerInfo))
+    td.verify(server.discv5!.bootstrap(td.matchers.anything()), { times: 1 })
+    await server.stop()
+    td.verify(server.discv5!.destroy())
+    t.end()
+  })
+
   t.test('should return rlpx server info', async (t) => {
     const config = new Config({ transports: [] })
     const mockId = '123'
@@ -173,6 +208,9 @@ tape('[RlpxServer]', async (t) => {
     server.dpt = td.object()
     server.ban('peer0', 1234)
     td.verify(server.dpt!.banPeer('peer0', 1234))
+    server.discv5 = td.object()
+    server.ban('peer1', 1234)
+    td.verify(server.discv5!.banPeer('peer1', 1234))
     t.end()
   })
 
@@ -188,6 +226,18 @@ tape('[RlpxServer]', async (t) => {
     ;(server.dpt as any).emit('error', new Error('err0'))
   })
 
+  t.test('should init discv5', (t) => {
+    t.plan(1)
+    const config = new Config({ transports: [], discV5: true })
+    const server = new RlpxServer({ config })
+    ;(server as any).initDiscv5().catch((error: Error) => {
+      throw error
+    })
+    td.verify((server.discv5 as any).bind(server.config.port! + 1, '0.0.0.0'))
+    config.events.on(Event.SERVER_ERROR, (err) => t.equals(err.message, 'err0', 'got error'))
+    ;(server.discv5 as any).emit('error', new Error('err0'))
+  })
+
   t.test('should init rlpx', async (t) => {
     t.plan(4)
     const config = new Config({ transports: [] })
@@ -0,0 +1,93 @@
+import * as tape from 'tape'
+
+import { INVALID_PARAMS } from '../../../lib/rpc/error-code'
+import { Event } from '../../../lib/types'
+import { baseRequest, params, setupDevChain } from '../helpers'
+import { checkError } from '../util'
+
+const method = 'anvil_impersonateAccount'
+
+tape(`${method}: send txs without the key, mined right away`, async (t) => {
+  const { server, chain, client, miner, service } = await setupDevChain({ automine: true })
+  service.txPool.start()
+  miner.start()
+  const address = '0x' + '12'.repeat(20)
+  const to = '0x' + '34'.repeat(20)
+  const balanceReq = params('anvil_setBalance', [address, '0xde0b6b3a7640000'])
+  await baseRequest(t, server, balanceReq, 200, () => {}, false)
+
+  const req = params(method, [address])
+  const expectRes = (res: any) => {
+    t.equal(res.body.result, null, 'should return null')
+  }
+  await baseRequest(t, server, req, 200, expectRes, false)
+
+  const mined = new Promise((resolve) => client.config.events.once(Event.CHAIN_UPDATED, resolve))
+  const tx = { from: address, to, value: '0x2a' }
+  let hash = ''
+  const expectHash = (res: any) => {
+    hash = res.body.result
+    t.ok(/^0x[0-9a-f]{64}$/.test(hash), 'should return the tx hash')
+  }
+  await baseRequest(t, server, params('eth_sendTransaction', [tx]), 200, expectHash, false)
+  await mined
+  t.equal(chain.blocks.latest!.transactions.length, 1, 'should mine a block with the tx')
+
+  const expectBalance = (res: any) => {
+    t.equal(res.body.result, '0x2a', 'should execute the tx from the impersonated account')
+  }
+  await baseRequest(t, server, params('eth_getBalance', [to, 'latest']), 200, expectBalance, false)
+  const expectNonce = (res: any) => {
+    t.equal(res.body.result, '0x1', 'should increase the nonce of the impersonated account')
+  }
+  const countReq = params('eth_getTransactionCount', [address, 'latest'])
+  await baseRequest(t, server, countReq, 200, expectNonce, false)
+
+  t.equal(service.txPool.status().pending, 0, 'should remove the tx from the pool')
+
+  const expectFrom = (res: any) => {
+    t.equal(res.body.result.from, address, 'should report the impersonated account as sender')
+  }
+  const txReq = params('eth_getTransactionByHash', [hash])
+  await baseRequest(t, server, txReq, 200, expectFrom, false)
+  const receiptReq = params('eth_getTransactionReceipt', [hash])
+  await baseRequest(t, server, receiptReq, 200, expectFrom, false)
+
+  miner.stop()
+  service.txPool.stop()
+  t.end()
+})
+
+tape(`${method}: stop impersonating, forgetting the txs`, async (t) => {
+  const { server, miner, service } = await setupDevChain()
+  service.txPool.start()
+  const address = '0x' + '12'.repeat(20)
+  const balanceReq = params('anvil_setBalance', [address, '0xde0b6b3a7640000'])
+  await baseRequest(t, server, balanceReq, 200, () => {}, false)
+  await baseRequest(t, server, params(method, [address]), 200, () => {}, false)
+
+  const tx = { from: address, to: '0x' + '34'.repeat(20), value: '0x2a' }
+  await baseRequest(t, server, params('eth_sendTransaction', [tx]), 200, () => {}, false)
+  t.equal(service.txPool.status().pending, 1, 'should pool the tx')
+
+  const req = params('anvil_stopImpersonatingAccount', [address])
+  const expectRes = (res: any) => {
+    t.equal(res.body.result, null, 'should return null')
+  }
+  await baseRequest(t, server, req, 200, expectRes, false)
+  t.equal(miner.impersonatedAccounts.size, 0, 'should stop impersonating the account')
+  t.equal(miner.impersonatedTxs.size, 0, 'should forget the txs of the account')
+  t.equal(service.txPool.status().pending, 0, 'should remove the pooled txs of the account')
+
+  const expectError = checkError(t, INVALID_PARAMS, 'keystore not enabled')
+  await baseRequest(t, server, params('eth_sendTransaction', [tx]), 200, expectError)
+  service.txPool.stop()
+})
+
+tape(`${method}: call with invalid address`, async (t) => {
+  const { server } = await setupDevChain()
+
+  const req = params(method, ['0x12'])
+  const expectRes = checkError(t, INVALID_PARAMS, 'invalid argument 0')
+  await baseRequest(t, server, req, 200, expectRes)
+})
@@ -0,0 +1,32 @@
+import * as tape from 'tape'
+
+import { INVALID_PARAMS } from '../../../lib/rpc/error-code'
+import { baseRequest, params, setupDevChain } from '../helpers'
+import { checkError } from '../util'
+
+const method = 'anvil_setBalance'
+
+tape(`${method}: call with valid arguments`, async (t) => {
+  const { server, chain } = await setupDevChain()
+  const address = '0x' + '12'.repeat(20)
+
+  const req = params(method, [address, '0xde0b6b3a7640000'])
+  const expectRes = (res: any) => {
+    t.equal(res.body.result, null, 'should return null')
+    t.equal(chain.blocks.height, BigInt(1), 'should mine a block with the modified state')
+  }
+  await baseRequest(t, server, req, 200, expectRes, false)
+
+  const expectBalance = (res: any) => {
+    t.equal(res.body.result, '0xde0b6b3a7640000', 'should set the balance')
+  }
+  await baseRequest(t, server, params('eth_getBalance', [address, 'latest']), 200, expectBalance)
+})
+
+tape(`${method}: call with invalid address`, async (t) => {
+  const { server } = await setupDevChain()
+
+  const req = params(method, ['0x12', '0x1'])
+  const expectRes = checkError(t, INVALID_PARAMS, 'invalid argument 0')
+  await baseRequest(t, server, req, 200, expectRes)
+})
@@ -0,0 +1,22 @@
+import * as tape from 'tape'
+
+import { baseRequest, params, setupDevChain } from '../helpers'
+
+const method = 'anvil_setCode'
+
+tape(`${method}: call with valid arguments`, async (t) => {
+  const { server } = await setupDevChain()
+  const address = '0x' + '12'.repeat(20)
+  const code = '0x6001600055'
+
+  const req = params(method, [address, code])
+  const expectRes = (res: any) => {
+    t.equal(res.body.result, null, 'should return null')
+  }
+  await baseRequest(t, server, req, 200, expectRes, false)
+
+  const expectCode = (res: any) => {
+    t.equal(res.body.result, code, 'should set the code')
+  }
+  await baseRequest(t, server, params('eth_getCode', [address, 'latest']), 200, expectCode)
+})
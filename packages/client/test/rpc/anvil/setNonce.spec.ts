@@ -0,0 +1,27 @@
+import * as tape from 'tape'
+
+import { baseRequest, dummy, params, setupDevChain } from '../helpers'
+
+const method = 'anvil_setNonce'
+
+tape(`${method}: call with valid arguments`, async (t) => {
+  const { server } = await setupDevChain()
+  const address = dummy.addr.toString()
+
+  const req = params(method, [address, '0x2a'])
+  const expectRes = (res: any) => {
+    t.equal(res.body.result, null, 'should return null')
+  }
+  await baseRequest(t, server, req, 200, expectRes, false)
+
+  const expectNonce = (res: any) => {
+    t.equal(res.body.result, '0x2a', 'should set the nonce')
+  }
+  const countReq = params('eth_getTransactionCount', [address, 'latest'])
+  await baseRequest(t, server, countReq, 200, expectNonce, false)
+
+  const expectBalance = (res: any) => {
+    t.notEqual(res.body.result, '0x0', 'should keep the balance')
+  }
+  await baseRequest(t, server, params('eth_getBalance', [address, 'latest']), 200, expectBalance)
+})
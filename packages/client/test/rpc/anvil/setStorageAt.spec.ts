@@ -0,0 +1,32 @@
+import * as tape from 'tape'
+
+import { INVALID_PARAMS } from '../../../lib/rpc/error-code'
+import { baseRequest, params, setupDevChain } from '../helpers'
+import { checkError } from '../util'
+
+const method = 'anvil_setStorageAt'
+
+tape(`${method}: call with valid arguments`, async (t) => {
+  const { server } = await setupDevChain()
+  const address = '0x' + '12'.repeat(20)
+
+  const req = params(method, [address, '0x1', '0x2a'])
+  const expectRes = (res: any) => {
+    t.equal(res.body.result, true, 'should return true')
+  }
+  await baseRequest(t, server, req, 200, expectRes, false)
+
+  const expectValue = (res: any) => {
+    t.equal(res.body.result, '0x' + '2a'.padStart(64, '0'), 'should set the storage slot')
+  }
+  const storageReq = params('eth_getStorageAt', [address, '0x1', 'latest'])
+  await baseRequest(t, server, storageReq, 200, expectValue)
+})
+
+tape(`${method}: call with value larger than 32 bytes`, async (t) => {
+  const { server } = await setupDevChain()
+
+  const req = params(method, ['0x' + '12'.repeat(20), '0x1', '0x1' + '00'.repeat(32)])
+  const expectRes = checkError(t, INVALID_PARAMS, 'can not be larger than 32 bytes')
+  await baseRequest(t, server, req, 200, expectRes)
+})
@@ -0,0 +1,83 @@
+import { Blockchain } from '@ethereumjs/blockchain'
+import * as tape from 'tape'
+
+import { INVALID_PARAMS } from '../../../lib/rpc/error-code'
+import { baseRequest, createClient, createManager, params, startRPC } from '../helpers'
+import { checkError } from '../util'
+
+import type { FullEthereumService } from '../../../lib/service'
+
+const method = 'debug_traceCall'
+
+// CALL to the identity precompile with all zero arguments and 0xffff gas, followed by STOP
+const callCode = '0x600060006000600060006004' + '61fffff100'
+
+tape(`${method}: call with callTracer`, async (t) => {
+  const blockchain = await Blockchain.create()
+
+  const client = createClient({ blockchain, includeVM: true })
+  const manager = createManager(client)
+  const server = startRPC(manager.getMethods())
+
+  const { execution } = client.services.find((s) => s.name === 'eth') as FullEthereumService
+  t.notEqual(execution, undefined, 'should have valid execution')
+  await execution.open()
+
+  const from = '0xccfd725760a68823ff1e062f4cc97e1360e8d997'
+  const req = params(method, [
+    { from, data: callCode, gas: '0x100000' },
+    'latest',
+    { tracer: 'callTracer' },
+  ])
+  const expectRes = (res: any) => {
+    const frame = res.body.result
+    t.equal(frame.type, 'CREATE', 'should return the top level frame')
+    t.equal(frame.from, from, 'should return the caller')
+    t.equal(frame.gas, '0x100000', 'should return the provided gas')
+    t.equal(frame.calls.length, 1, 'should include the sub-call')
+    t.equal(frame.calls[0].type, 'CALL', 'should return the sub-call type')
+    t.equal(
+      frame.calls[0].to,
+      '0x0000000000000000000000000000000000000004',
+      'should return the sub-call target'
+    )
+    t.equal(frame.calls[0].from, frame.to, 'should use the created contract as sub-call sender')
+  }
+  await baseRequest(t, server, req, 200, expectRes)
+})
+
+tape(`${method}: call with struct logger`, async (t) => {
+  const blockchain = await Blockchain.create()
+
+  const client = createClient({ blockchain, includeVM: true })
+  const manager = createManager(client)
+  const server = startRPC(manager.getMethods())
+
+  const { execution } = client.services.find((s) => s.name === 'eth') as FullEthereumService
+  await execution.open()
+
+  const req = params(method, [{ data: callCode, gas: '0x100000' }, 'latest'])
+  const expectRes = (res: any) => {
+    const { structLogs } = res.body.result
+    const ops = structLogs.map((l: any) => l.op)
+    t.equal(ops[ops.length - 1], 'STOP', 'should end with STOP')
+    t.ok(ops.includes('CALL'), 'should include the CALL opcode')
+    t.ok(
+      structLogs.every((l: any) => l.depth === 1),
+      'should not include precompile steps'
+    )
+  }
+  await baseRequest(t, server, req, 200, expectRes)
+})
+
+tape(`${method}: call with unsupported block argument`, async (t) => {
+  const blockchain = await Blockchain.create()
+
+  const client = createClient({ blockchain, includeVM: true })
+  const manager = createManager(client)
+  const server = startRPC(manager.getMethods())
+
+  const req = params(method, [{ data: callCode }, 'pending'])
+  const expectRes = checkError(t, INVALID_PARAMS, '"pending" is not yet supported')
+  await baseRequest(t, server, req, 200, expectRes)
+})
@@ -0,0 +1,150 @@
+import { Transaction } from '@ethereumjs/tx'
+import { Address, bufferToHex } from '@ethereumjs/util'
+import * as tape from 'tape'
+
+import { INVALID_PARAMS } from '../../../lib/rpc/error-code'
+import { baseRequest, dummy, params, runBlockWithTxs, setupChain } from '../helpers'
+import { checkError } from '../util'
+
+import pow = require('./../../testdata/geth-genesis/pow.json')
+
+const method = 'debug_traceTransaction'
+
+// PUSH1 0x01 PUSH1 0x00 SSTORE STOP
+const storeCode = '0x600160005500'
+
+tape(`${method}: call with struct logger`, async (t) => {
+  const { chain, common, execution, server } = await setupChain(pow, 'pow')
+
+  const tx = Transaction.fromTxData(
+    { gasLimit: 2000000, gasPrice: 100, data: storeCode },
+    { common }
+  ).sign(dummy.privKey)
+  await runBlockWithTxs(chain, execution, [tx])
+
+  const req = params(method, [bufferToHex(tx.hash())])
+  const expectRes = (res: any) => {
+    const { failed, structLogs } = res.body.result
+    t.equal(failed, false, 'should not have failed')
+    t.deepEqual(
+      structLogs.map((l: any) => l.op),
+      ['PUSH1', 'PUSH1', 'SSTORE', 'STOP'],
+      'should return one struct log per executed opcode'
+    )
+    t.deepEqual(structLogs[2].stack, ['0x1', '0x0'], 'should include the stack')
+    t.deepEqual(
+      structLogs[2].storage,
+      { ['00'.repeat(32)]: '00'.repeat(31) + '01' },
+      'should include the accessed storage'
+    )
+    t.equal(structLogs[0].depth, 1, 'should start with depth 1')
+  }
+  await baseRequest(t, server, req, 200, expectRes)
+})
+
+tape(`${method}: call with trace options`, async (t) => {
+  const { chain, common, execution, server } = await setupChain(pow, 'pow')
+
+  const tx = Transaction.fromTxData(
+    { gasLimit: 2000000, gasPrice: 100, data: storeCode },
+    { common }
+  ).sign(dummy.privKey)
+  await runBlockWithTxs(chain, execution, [tx])
+
+  const req = params(method, [
+    bufferToHex(tx.hash()),
+    { disableStack: true, disableMemory: true, disableStorage: true },
+  ])
+  const expectRes = (res: any) => {
+    const log = res.body.result.structLogs[2]
+    t.equal(log.op, 'SSTORE', 'should return the struct logs')
+    t.equal(log.stack, undefined, 'should omit the stack')
+    t.equal(log.memory, undefined, 'should omit the memory')
+    t.equal(log.storage, undefined, 'should omit the storage')
+  }
+  await baseRequest(t, server, req, 200, expectRes)
+})
+
+tape(`${method}: call with callTracer`, async (t) => {
+  const { chain, common, execution, server } = await setupChain(pow, 'pow')
+
+  const tx = Transaction.fromTxData(
+    { gasLimit: 2000000, gasPrice: 100, data: storeCode },
+    { common }
+  ).sign(dummy.privKey)
+  await runBlockWithTxs(chain, execution, [tx])
+
+  const req = params(method, [bufferToHex(tx.hash()), { tracer: 'callTracer' }])
+  const expectRes = (res: any) => {
+    const frame = res.body.result
+    t.equal(frame.type, 'CREATE', 'should return the frame type')
+    t.equal(frame.from, dummy.addr.toString(), 'should return the sender')
+    t.equal(
+      frame.to,
+      Address.generate(dummy.addr, BigInt(0)).toString(),
+      'should return the created contract address'
+    )
+    t.equal(frame.gas, '0x1e8480', 'should return the tx gas limit')
+    t.equal(frame.input, storeCode, 'should return the init code as input')
+  }
+  await baseRequest(t, server, req, 200, expectRes)
+})
+
+tape(`${method}: call with prestateTracer`, async (t) => {
+  const { chain, common, execution, server } = await setupChain(pow, 'pow')
+
+  const tx = Transaction.fromTxData(
+    { gasLimit: 2000000, gasPrice: 100, data: storeCode },
+    { common }
+  ).sign(dummy.privKey)
+  await runBlockWithTxs(chain, execution, [tx])
+
+  const created = Address.generate(dummy.addr, BigInt(0)).toString()
+  let req = params(method, [bufferToHex(tx.hash()), { tracer: 'prestateTracer' }])
+  let expectRes = (res: any) => {
+    const pre = res.body.result
+    t.ok(pre[dummy.addr.toString()].balance !== undefined, 'should include the sender')
+    t.equal(pre[dummy.addr.toString()].nonce, undefined, 'should omit a zero nonce')
+    t.equal(pre[created], undefined, 'should not include the created contract')
+  }
+  await baseRequest(t, server, req, 200, expectRes, false)
+
+  req = params(method, [
+    bufferToHex(tx.hash()),
+    { tracer: 'prestateTracer', tracerConfig: { diffMode: true } },
+  ])
+  expectRes = (res: any) => {
+    const { pre, post } = res.body.result
+    t.equal(post[dummy.addr.toString()].nonce, 1, 'should return the sender nonce after the tx')
+    t.equal(pre[created], undefined, 'should not include the created contract in the pre state')
+    t.deepEqual(
+      post[created].storage,
+      { ['0x' + '00'.repeat(32)]: '0x' + '00'.repeat(31) + '01' },
+      'should return the written storage'
+    )
+  }
+  await baseRequest(t, server, req, 200, expectRes)
+})
+
+tape(`${method}: call with unknown tx hash`, async (t) => {
+  const { server } = await setupChain(pow, 'pow')
+
+  const req = params(method, ['0x89ea5b54111befb936851660a72b686a21bc2fc4889a9a308196ff99d08925a0'])
+  const expectRes = checkError(t, INVALID_PARAMS, 'transaction not found')
+  await baseRequest(t, server, req, 200, expectRes)
+})
+
+tape(`${method}: call with unsupported tracer`, async (t) => {
+  const { server } = await setupChain(pow, 'pow')
+
+  const req = params(method, [
+    '0x89ea5b54111befb936851660a72b686a21bc2fc4889a9a308196ff99d08925a0',
+    { tracer: 'jsTracer' },
+  ])
+  const expectRes = checkError(
+    t,
+    INVALID_PARAMS,
+    'argument is not one of ["callTracer", "prestateTracer", "4byteTracer"]'
+  )
+  await baseRequest(t, server, req, 200, expectRes)
+})
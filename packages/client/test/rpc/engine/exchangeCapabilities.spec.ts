@@ -0,0 +1,17 @@
+import * as tape from 'tape'
+
+import { baseRequest, baseSetup, params } from '../helpers'
+
+const method = 'engine_exchangeCapabilities'
+
+tape(`${method}: call with consensus client capabilities`, async (t) => {
+  const { server } = baseSetup({ engine: true, includeVM: true })
+
+  const req = params(method, [['engine_newPayloadV1', 'engine_newPayloadV3']])
+  const expectRes = (res: any) => {
+    const capabilities = res.body.result
+    t.ok(capabilities.includes('engine_newPayloadV2'), 'announced supported methods')
+    t.notOk(capabilities.includes(method), 'did not announce itself')
+  }
+  await baseRequest(t, server, req, 200, expectRes)
+})
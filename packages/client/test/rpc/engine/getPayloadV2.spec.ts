@@ -0,0 +1,91 @@
+import * as tape from 'tape'
+
+import { INVALID_PARAMS } from '../../../lib/rpc/error-code'
+import genesisJSON = require('../../testdata/geth-genesis/post-merge.json')
+import { baseRequest, baseSetup, params, setupChain } from '../helpers'
+import { checkError } from '../util'
+
+import { validPayload } from './forkchoiceUpdatedV1.spec'
+
+const method = 'engine_getPayloadV2'
+
+const withdrawals = [
+  {
+    index: '0x0',
+    validatorIndex: '0x1',
+    address: '0xa94f5374fce5edbc8e2a8697c15331677e6ebf0b',
+    amount: '0x3e8',
+  },
+]
+
+tape(`${method}: call with invalid payloadId`, async (t) => {
+  const { server } = baseSetup({ engine: true, includeVM: true })
+
+  const req = params(method, [1])
+  const expectRes = checkError(
+    t,
+    INVALID_PARAMS,
+    'invalid argument 0: argument must be a hex string'
+  )
+  await baseRequest(t, server, req, 200, expectRes)
+})
+
+tape(`${method}: call with unknown payloadId`, async (t) => {
+  const { server } = baseSetup({ engine: true, includeVM: true })
+
+  const req = params(method, ['0x123'])
+  const expectRes = checkError(t, -32001, 'Unknown payload')
+  await baseRequest(t, server, req, 200, expectRes)
+})
+
+tape(`${method}: call with known payload`, async (t) => {
+  const { server } = await setupChain(genesisJSON, 'post-merge', { engine: true })
+  let req = params('engine_forkchoiceUpdatedV2', validPayload)
+  let payloadId
+  let expectRes = (res: any) => {
+    payloadId = res.body.result.payloadId
+  }
+  await baseRequest(t, server, req, 200, expectRes, false)
+
+  req = params(method, [payloadId])
+  expectRes = (res: any) => {
+    const { executionPayload, blockValue } = res.body.result
+    t.equal(executionPayload.blockNumber, '0x1', 'returned the execution payload')
+    t.equal(executionPayload.withdrawals, undefined, 'no withdrawals before activation')
+    t.equal(blockValue, '0x0', 'returned the block value')
+  }
+  await baseRequest(t, server, req, 200, expectRes)
+})
+
+tape(`${method}: call with known payload including withdrawals`, async (t) => {
+  const { server, chain, execution } = await setupChain(genesisJSON, 'post-merge', {
+    engine: true,
+  })
+  // Activate withdrawals for the blocks following the genesis block
+  chain.config.chainCommon.setEIPs([4895])
+  execution.vm._common.setEIPs([4895])
+
+  let req = params('engine_forkchoiceUpdatedV2', [
+    validPayload[0],
+    { ...validPayload[1], withdrawals },
+  ])
+  let payloadId
+  let expectRes = (res: any) => {
+    payloadId = res.body.result.payloadId
+  }
+  await baseRequest(t, server, req, 200, expectRes, false)
+
+  let executionPayload: any
+  req = params(method, [payloadId])
+  expectRes = (res: any) => {
+    executionPayload = res.body.result.executionPayload
+    t.deepEqual(executionPayload.withdrawals, withdrawals, 'included the withdrawals')
+  }
+  await baseRequest(t, server, req, 200, expectRes, false)
+
+  req = params('engine_newPayloadV2', [executionPayload])
+  expectRes = (res: any) => {
+    t.equal(res.body.result.status, 'VALID', 'built payload is valid')
+  }
+  await baseRequest(t, server, req, 200, expectRes)
+})
@@ -0,0 +1,69 @@
+import * as tape from 'tape'
+
+import { INVALID_PARAMS } from '../../../lib/rpc/error-code'
+import blocks = require('../../testdata/blocks/beacon.json')
+import genesisJSON = require('../../testdata/geth-genesis/post-merge.json')
+import { baseRequest, baseSetup, params, setupChain } from '../helpers'
+import { checkError } from '../util'
+
+const method = 'engine_newPayloadV2'
+
+const [blockData] = blocks
+
+const withdrawals = [
+  {
+    index: '0x0',
+    validatorIndex: '0x1',
+    address: '0xa94f5374fce5edbc8e2a8697c15331677e6ebf0b',
+    amount: '0x3e8',
+  },
+]
+
+tape(`${method}: call with invalid withdrawals`, async (t) => {
+  const { server } = baseSetup({ engine: true, includeVM: true })
+
+  const req = params(method, [
+    { ...blockData, withdrawals: [{ ...withdrawals[0], address: '0xinvalid' }] },
+  ])
+  const expectRes = checkError(
+    t,
+    INVALID_PARAMS,
+    "invalid argument 0 for key 'withdrawals': invalid address"
+  )
+  await baseRequest(t, server, req, 200, expectRes)
+})
+
+tape(`${method}: call with payload before withdrawals activation`, async (t) => {
+  const { server } = await setupChain(genesisJSON, 'post-merge', { engine: true })
+
+  const req = params(method, [blockData])
+  const expectRes = (res: any) => {
+    t.equal(res.body.result.status, 'VALID')
+  }
+  await baseRequest(t, server, req, 200, expectRes)
+})
+
+tape(`${method}: call with withdrawals before withdrawals activation`, async (t) => {
+  const { server } = await setupChain(genesisJSON, 'post-merge', { engine: true })
+
+  const req = params(method, [{ ...blockData, withdrawals }])
+  const expectRes = checkError(
+    t,
+    INVALID_PARAMS,
+    'withdrawals provided before withdrawals activation'
+  )
+  await baseRequest(t, server, req, 200, expectRes)
+})
+
+tape(`${method}: call without withdrawals after withdrawals activation`, async (t) => {
+  const { server, chain } = await setupChain(genesisJSON, 'post-merge', { engine: true })
+  chain.config.chainCommon.setEIPs([4895])
+
+  const req = params(method, [blockData])
+  const expectRes = checkError(
+    t,
+    INVALID_PARAMS,
+    'missing withdrawals after withdrawals activation'
+  )
+  await baseRequest(t, server, req, 200, expectRes)
+})
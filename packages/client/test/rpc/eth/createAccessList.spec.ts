@@ -0,0 +1,81 @@
+import { FeeMarketEIP1559Transaction } from '@ethereumjs/tx'
+import { Address, setLengthLeft } from '@ethereumjs/util'
+import * as tape from 'tape'
+
+import { INVALID_PARAMS } from '../../../lib/rpc/error-code'
+import {
+  baseRequest,
+  dummy,
+  gethGenesisStartLondon,
+  params,
+  runBlockWithTxs,
+  setupChain,
+} from '../helpers'
+import { checkError } from '../util'
+
+import pow = require('./../../testdata/geth-genesis/pow.json')
+
+const method = 'eth_createAccessList'
+
+tape(`${method}: call with valid arguments`, async (t) => {
+  const { chain, common, execution, server } = await setupChain(
+    gethGenesisStartLondon(pow),
+    'powLondon'
+  )
+
+  // contract A reading storage slot 1: PUSH1 0x01, SLOAD, STOP
+  const contractA = Address.generate(dummy.addr, BigInt(0))
+  const initA = '0x63600154006000526004601cf3'
+  // contract B calling contract A:
+  // PUSH1 0x00 (x5), PUSH20 <contract A>, GAS, CALL, STOP
+  const contractB = Address.generate(dummy.addr, BigInt(1))
+  const runtimeB = '6000600060006000600073' + contractA.toString().slice(2) + '5af100'
+  const initB = '0x6022600c60003960226000f3' + runtimeB
+
+  const txData = { gasLimit: 100000, maxFeePerGas: 1000000000 }
+  const txs = [initA, initB].map((data, nonce) =>
+    FeeMarketEIP1559Transaction.fromTxData({ ...txData, data, nonce }, { common }).sign(
+      dummy.privKey
+    )
+  )
+  await runBlockWithTxs(chain, execution, txs)
+
+  const callData = { from: dummy.addr.toString(), to: contractB.toString() }
+
+  let gasWithoutList = BigInt(0)
+  let req = params('eth_estimateGas', [callData])
+  let expectRes = (res: any) => {
+    gasWithoutList = BigInt(res.body.result)
+  }
+  await baseRequest(t, server, req, 200, expectRes, false)
+
+  req = params(method, [callData, 'latest'])
+  expectRes = (res: any) => {
+    const { accessList, gasUsed, error } = res.body.result
+    t.deepEqual(
+      accessList,
+      [
+        {
+          address: contractA.toString(),
+          storageKeys: ['0x' + setLengthLeft(Buffer.from([1]), 32).toString('hex')],
+        },
+      ],
+      'should return the accessed address and storage slot'
+    )
+    t.ok(BigInt(gasUsed) < gasWithoutList, 'should return the gas used with the list applied')
+    t.equal(error, undefined, 'should not return an error')
+  }
+  await baseRequest(t, server, req, 200, expectRes)
+})
+
+tape(`${method}: call before berlin`, async (t) => {
+  const { server } = await setupChain(pow, 'pow')
+
+  const req = params(method, [{ to: '0x' + '11'.repeat(20) }])
+  const expectRes = checkError(
+    t,
+    INVALID_PARAMS,
+    'access lists are not supported before the berlin hardfork'
+  )
+  await baseRequest(t, server, req, 200, expectRes)
+})
@@ -0,0 +1,97 @@
+import { FeeMarketEIP1559Transaction } from '@ethereumjs/tx'
+import { bigIntToHex } from '@ethereumjs/util'
+import * as tape from 'tape'
+
+import { INVALID_PARAMS } from '../../../lib/rpc/error-code'
+import {
+  baseRequest,
+  dummy,
+  gethGenesisStartLondon,
+  params,
+  runBlockWithTxs,
+  setupChain,
+} from '../helpers'
+import { checkError } from '../util'
+
+import pow = require('./../../testdata/geth-genesis/pow.json')
+
+const method = 'eth_feeHistory'
+
+tape(`${method}: call with valid arguments`, async (t) => {
+  const { chain, common, execution, server } = await setupChain(
+    gethGenesisStartLondon(pow),
+    'powLondon'
+  )
+
+  const txData = {
+    gasLimit: 21000,
+    maxFeePerGas: 975000000,
+    to: '0x1230000000000000000000000000000000000321',
+  }
+  const tx1 = FeeMarketEIP1559Transaction.fromTxData(
+    { ...txData, nonce: 0, maxPriorityFeePerGas: 10 },
+    { common }
+  ).sign(dummy.privKey)
+  const tx2 = FeeMarketEIP1559Transaction.fromTxData(
+    { ...txData, nonce: 1, maxPriorityFeePerGas: 20 },
+    { common }
+  ).sign(dummy.privKey)
+  await runBlockWithTxs(chain, execution, [tx1, tx2])
+
+  const latest = await chain.getCanonicalHeadBlock()
+  const req = params(method, ['0x2', 'latest', [0, 50, 100]])
+  const expectRes = (res: any) => {
+    const { oldestBlock, baseFeePerGas, gasUsedRatio, reward } = res.body.result
+    t.equal(oldestBlock, '0x0', 'should return the oldest block')
+    t.equal(baseFeePerGas.length, 3, 'should include the base fee of the next block')
+    t.equal(
+      baseFeePerGas[1],
+      bigIntToHex(latest.header.baseFeePerGas!),
+      'should return the base fee of the newest block'
+    )
+    t.equal(
+      baseFeePerGas[2],
+      bigIntToHex(latest.header.calcNextBaseFee()),
+      'should return the projected base fee'
+    )
+    t.equal(gasUsedRatio.length, 2, 'should return the gas used ratios')
+    t.equal(
+      gasUsedRatio[1],
+      Number(latest.header.gasUsed) / Number(latest.header.gasLimit),
+      'should return the correct gas used ratio'
+    )
+    t.deepEqual(reward[0], ['0x0', '0x0', '0x0'], 'should return zero rewards for empty blocks')
+    t.deepEqual(reward[1], ['0xa', '0xa', '0x14'], 'should return the reward percentiles')
+  }
+  await baseRequest(t, server, req, 200, expectRes)
+})
+
+tape(`${method}: call with block count exceeding chain length`, async (t) => {
+  const { server } = await setupChain(gethGenesisStartLondon(pow), 'powLondon')
+
+  const req = params(method, ['0x10', 'latest'])
+  const expectRes = (res: any) => {
+    const { oldestBlock, baseFeePerGas, gasUsedRatio, reward } = res.body.result
+    t.equal(oldestBlock, '0x0', 'should start at genesis')
+    t.equal(gasUsedRatio.length, 1, 'should only return the available blocks')
+    t.equal(baseFeePerGas.length, 2, 'should return the base fees')
+    t.equal(reward, undefined, 'should not return rewards without percentiles')
+  }
+  await baseRequest(t, server, req, 200, expectRes)
+})
+
+tape(`${method}: call with invalid block count`, async (t) => {
+  const { server } = await setupChain(gethGenesisStartLondon(pow), 'powLondon')
+
+  const req = params(method, ['0x0', 'latest'])
+  const expectRes = checkError(t, INVALID_PARAMS, 'block count must be between 1 and 1024')
+  await baseRequest(t, server, req, 200, expectRes)
+})
+
+tape(`${method}: call with invalid percentiles`, async (t) => {
+  const { server } = await setupChain(gethGenesisStartLondon(pow), 'powLondon')
+
+  const req = params(method, ['0x1', 'latest', [50, 10]])
+  const expectRes = checkError(t, INVALID_PARAMS, 'percentiles must be in ascending order')
+  await baseRequest(t, server, req, 200, expectRes)
+})
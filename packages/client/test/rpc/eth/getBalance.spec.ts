@@ -95,3 +95,37 @@ tape(`${method}: call with unsupported block argument`, async (t) => {
   const expectRes = checkError(t, INVALID_PARAMS, '"pending" is not yet supported')
   await baseRequest(t, server, req, 200, expectRes)
 })
+
+tape(`${method}: call with pruned state`, async (t) => {
+  const common = new Common({ chain: Chain.Mainnet, hardfork: Hardfork.Istanbul })
+  const blockchain = await Blockchain.create({ common })
+
+  const client = createClient({
+    blockchain,
+    commonChain: common,
+    includeVM: true,
+    stateRetention: 1,
+  })
+  const manager = createManager(client)
+  const server = startRPC(manager.getMethods())
+
+  const { execution } = client.services.find((s) => s.name === 'eth') as FullEthereumService
+  // generate and journal the genesis state
+  await execution.open()
+
+  // run (and journal) a block changing the genesis state and prune the genesis state
+  const address = Address.fromString('0xccfd725760a68823ff1e062f4cc97e1360e8d997')
+  const tx = Transaction.fromTxData({ gasLimit: 53000 }, { common, freeze: false })
+  tx.getSenderAddress = () => {
+    return address
+  }
+  const block = Block.fromBlockData({ header: { number: 1 } }, { common })
+  block.transactions[0] = tx
+  await execution.runWithoutSetHead({ block, generate: true, skipBlockValidation: true })
+  const stateRoot = await execution.vm.stateManager.getStateRoot()
+  await execution.prune(Block.fromBlockData({ header: { number: 1, stateRoot } }, { common }))
+
+  const req = params(method, [address.toString(), 'earliest'])
+  const expectRes = checkError(t, INVALID_PARAMS, 'state not available for block number=0')
+  await baseRequest(t, server, req, 200, expectRes)
+})
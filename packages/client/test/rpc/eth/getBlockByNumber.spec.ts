@@ -2,6 +2,7 @@ import { Block } from '@ethereumjs/block'
 import { Transaction } from '@ethereumjs/tx'
 import * as tape from 'tape'
 
+import { Config } from '../../../lib/config'
 import { INVALID_PARAMS } from '../../../lib/rpc/error-code'
 import { baseRequest, createClient, createManager, dummy, params, startRPC } from '../helpers'
 import { checkError } from '../util'
@@ -43,6 +44,7 @@ function createChain() {
     uncleHeaders: [],
   }
   return {
+    config: new Config({ transports: [] }),
     blocks: { latest: block },
     getBlock: () => genesisBlock,
     getCanonicalHeadBlock: () => block,
@@ -0,0 +1,89 @@
+import { FeeMarketEIP1559Transaction } from '@ethereumjs/tx'
+import { Address, bufferToHex } from '@ethereumjs/util'
+import * as tape from 'tape'
+
+import { INTERNAL_ERROR } from '../../../lib/rpc/error-code'
+import {
+  baseRequest,
+  baseSetup,
+  dummy,
+  gethGenesisStartLondon,
+  params,
+  runBlockWithTxs,
+  setupChain,
+} from '../helpers'
+import { checkError } from '../util'
+
+import pow = require('./../../testdata/geth-genesis/pow.json')
+
+const method = 'eth_getBlockReceipts'
+
+// Contract creation code emitting a single LOG1 with topic 0xaa:
+// PUSH1 0xaa, PUSH1 0x00, PUSH1 0x00, LOG1, STOP
+const logData = Buffer.from('60aa60006000a100', 'hex')
+
+tape(`${method}: call with valid arguments`, async (t) => {
+  const { chain, common, execution, server } = await setupChain(
+    gethGenesisStartLondon(pow),
+    'powLondon'
+  )
+
+  const txData = { gasLimit: 100000, maxFeePerGas: 975000000, maxPriorityFeePerGas: 10 }
+  const txs = [0, 1].map((nonce) =>
+    FeeMarketEIP1559Transaction.fromTxData({ ...txData, data: logData, nonce }, { common }).sign(
+      dummy.privKey
+    )
+  )
+  await runBlockWithTxs(chain, execution, txs)
+  const block = await chain.getCanonicalHeadBlock()
+
+  let req = params(method, ['0x1'])
+  const expectRes = (res: any) => {
+    const receipts = res.body.result
+    t.equal(receipts.length, 2, 'should return the receipts of all txs')
+    t.deepEqual(
+      receipts.map((r: any) => r.transactionHash),
+      txs.map((tx) => bufferToHex(tx.hash())),
+      'should return the receipts in tx order'
+    )
+    t.equal(
+      receipts[1].contractAddress,
+      Address.generate(dummy.addr, BigInt(1)).toString(),
+      'should populate the contract address'
+    )
+    t.equal(receipts[1].logs[0].logIndex, '0x1', 'should count log indexes across the block')
+    t.equal(
+      BigInt(receipts[0].effectiveGasPrice),
+      block.header.baseFeePerGas! + BigInt(10),
+      'should return the effective gas price'
+    )
+  }
+  await baseRequest(t, server, req, 200, expectRes, false)
+
+  req = params(method, [bufferToHex(block.hash())])
+  await baseRequest(
+    t,
+    server,
+    req,
+    200,
+    (res: any) => t.equal(res.body.result.length, 2, 'should return the receipts by block hash'),
+    false
+  )
+
+  req = params(method, ['0x' + '11'.repeat(32)])
+  await baseRequest(t, server, req, 200, (res: any) =>
+    t.equal(res.body.result, null, 'should return null for an unknown block')
+  )
+})
+
+tape(`${method}: call without receipt saving`, async (t) => {
+  const { server } = baseSetup({ includeVM: true })
+
+  const req = params(method, ['latest'])
+  const expectRes = checkError(
+    t,
+    INTERNAL_ERROR,
+    'receipts are not available, enable receipt saving with --saveReceipts'
+  )
+  await baseRequest(t, server, req, 200, expectRes)
+})
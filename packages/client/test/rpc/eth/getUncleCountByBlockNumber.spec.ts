@@ -1,5 +1,6 @@
 import * as tape from 'tape'
 
+import { Config } from '../../../lib/config'
 import { INVALID_PARAMS } from '../../../lib/rpc/error-code'
 import { baseRequest, createClient, createManager, params, startRPC } from '../helpers'
 import { checkError } from '../util'
@@ -14,6 +15,7 @@ function createChain() {
     },
   }
   return {
+    config: new Config({ transports: [] }),
     blocks: { latest: block },
     headers: { latest: block.header },
     getBlock: () => block,
@@ -0,0 +1,52 @@
+import { FeeMarketEIP1559Transaction } from '@ethereumjs/tx'
+import * as tape from 'tape'
+
+import {
+  baseRequest,
+  dummy,
+  gethGenesisStartLondon,
+  params,
+  runBlockWithTxs,
+  setupChain,
+} from '../helpers'
+
+import pow = require('./../../testdata/geth-genesis/pow.json')
+
+const method = 'eth_maxPriorityFeePerGas'
+
+tape(`${method}: should return the suggested priority fee`, async (t) => {
+  const { chain, common, execution, server } = await setupChain(
+    gethGenesisStartLondon(pow),
+    'powLondon'
+  )
+
+  const txs = [10, 20, 30].map((maxPriorityFeePerGas, nonce) =>
+    FeeMarketEIP1559Transaction.fromTxData(
+      {
+        gasLimit: 21000,
+        maxFeePerGas: 975000000,
+        maxPriorityFeePerGas,
+        nonce,
+        to: '0x1230000000000000000000000000000000000321',
+      },
+      { common }
+    ).sign(dummy.privKey)
+  )
+  await runBlockWithTxs(chain, execution, txs)
+
+  const req = params(method, [])
+  const expectRes = (res: any) => {
+    t.equal(res.body.result, '0x14', 'should return the 60th percentile priority fee')
+  }
+  await baseRequest(t, server, req, 200, expectRes)
+})
+
+tape(`${method}: should return the minimum priority fee without txs`, async (t) => {
+  const { server } = await setupChain(gethGenesisStartLondon(pow), 'powLondon')
+
+  const req = params(method, [])
+  const expectRes = (res: any) => {
+    t.equal(res.body.result, '0x1', 'should return the minimum priority fee')
+  }
+  await baseRequest(t, server, req, 200, expectRes)
+})
@@ -0,0 +1,62 @@
+import * as tape from 'tape'
+
+import {
+  baseRequest,
+  createManager,
+  params,
+  runBlockWithTxs,
+  setupChain,
+  startRPC,
+} from '../helpers'
+
+import pow = require('./../../testdata/geth-genesis/pow.json')
+
+const method = 'eth_newBlockFilter'
+
+tape(`${method}: call with valid arguments`, async (t) => {
+  const { chain, execution, server } = await setupChain(pow, 'pow')
+
+  let filterId = ''
+  let req = params(method, [])
+  let expectRes = (res: any) => {
+    filterId = res.body.result
+    t.equal(filterId.length, 34, 'should return a 16 byte filter id')
+  }
+  await baseRequest(t, server, req, 200, expectRes, false)
+
+  await runBlockWithTxs(chain, execution, [])
+  await runBlockWithTxs(chain, execution, [])
+  const head = await chain.getCanonicalHeadBlock()
+
+  req = params('eth_getFilterChanges', [filterId])
+  expectRes = (res: any) => {
+    t.equal(res.body.result.length, 2, 'should return the hashes of the new blocks')
+    t.equal(res.body.result[1], '0x' + head.hash().toString('hex'), 'should return the head hash')
+  }
+  await baseRequest(t, server, req, 200, expectRes, false)
+
+  expectRes = (res: any) => {
+    t.deepEqual(res.body.result, [], 'should not return block hashes again on the next poll')
+  }
+  await baseRequest(t, server, req, 200, expectRes)
+})
+
+tape(`${method}: share the filters between the RPC servers of a client`, async (t) => {
+  const { chain, client, execution, server } = await setupChain(pow, 'pow')
+  const otherServer = startRPC(createManager(client).getMethods(), {})
+
+  let filterId = ''
+  let req = params(method, [])
+  let expectRes = (res: any) => {
+    filterId = res.body.result
+  }
+  await baseRequest(t, server, req, 200, expectRes, false)
+
+  await runBlockWithTxs(chain, execution, [])
+
+  req = params('eth_getFilterChanges', [filterId])
+  expectRes = (res: any) => {
+    t.equal(res.body.result.length, 1, 'should poll the filter installed on another server')
+  }
+  await baseRequest(t, otherServer, req, 200, expectRes)
+})
@@ -0,0 +1,107 @@
+import { Transaction } from '@ethereumjs/tx'
+import { Address } from '@ethereumjs/util'
+import * as tape from 'tape'
+
+import { INVALID_PARAMS } from '../../../lib/rpc/error-code'
+import { baseRequest, dummy, params, runBlockWithTxs, setupChain } from '../helpers'
+import { checkError } from '../util'
+
+import pow = require('./../../testdata/geth-genesis/pow.json')
+
+const method = 'eth_newFilter'
+
+// Contract creation code emitting a single LOG1 with topic 0xaa:
+// PUSH1 0xaa, PUSH1 0x00, PUSH1 0x00, LOG1, STOP
+const logData = Buffer.from('60aa60006000a100', 'hex')
+const topic = '0x' + '00'.repeat(31) + 'aa'
+
+tape(`${method}: call with valid arguments`, async (t) => {
+  const { chain, common, execution, server } = await setupChain(pow, 'pow')
+
+  let filterId = ''
+  let req = params(method, [{ topics: [topic] }])
+  let expectRes = (res: any) => {
+    filterId = res.body.result
+    t.equal(filterId.length, 34, 'should return a 16 byte filter id')
+  }
+  await baseRequest(t, server, req, 200, expectRes, false)
+
+  const txs = [0, 1].map((nonce) =>
+    Transaction.fromTxData(
+      { gasLimit: 100000, gasPrice: 100, data: logData, nonce },
+      { common }
+    ).sign(dummy.privKey)
+  )
+  await runBlockWithTxs(chain, execution, txs)
+
+  req = params('eth_getFilterChanges', [filterId])
+  expectRes = (res: any) => {
+    const logs = res.body.result
+    t.equal(logs.length, 2, 'should return the logs of the new block')
+    t.equal(
+      logs[0].address,
+      Address.generate(dummy.addr, BigInt(0)).toString(),
+      'should return the correct log address'
+    )
+    t.deepEqual(logs[1].topics, [topic], 'should return the correct log topics')
+  }
+  await baseRequest(t, server, req, 200, expectRes, false)
+
+  expectRes = (res: any) => {
+    t.equal(res.body.result.length, 0, 'should not return logs again on the next poll')
+  }
+  await baseRequest(t, server, req, 200, expectRes, false)
+
+  req = params('eth_getFilterLogs', [filterId])
+  expectRes = (res: any) => {
+    t.equal(res.body.result.length, 2, 'should return all logs matching the filter')
+  }
+  await baseRequest(t, server, req, 200, expectRes)
+})
+
+tape(`${method}: call with block range`, async (t) => {
+  const { chain, common, execution, server } = await setupChain(pow, 'pow')
+
+  let filterId = ''
+  let req = params(method, [{ fromBlock: '0x2' }])
+  let expectRes = (res: any) => {
+    filterId = res.body.result
+  }
+  await baseRequest(t, server, req, 200, expectRes, false)
+
+  for (const nonce of [0, 1]) {
+    const tx = Transaction.fromTxData(
+      { gasLimit: 100000, gasPrice: 100, data: logData, nonce },
+      { common }
+    ).sign(dummy.privKey)
+    await runBlockWithTxs(chain, execution, [tx])
+  }
+
+  req = params('eth_getFilterChanges', [filterId])
+  expectRes = (res: any) => {
+    const logs = res.body.result
+    t.equal(logs.length, 1, 'should only return logs from fromBlock on')
+    t.equal(logs[0].blockNumber, '0x2', 'should return the log of the correct block')
+  }
+  await baseRequest(t, server, req, 200, expectRes)
+})
+
+tape(`${method}: call with invalid params`, async (t) => {
+  const { server } = await setupChain(pow, 'pow')
+
+  const req = params(method, [{ fromBlock: 'invalid' }])
+  const expectRes = checkError(
+    t,
+    INVALID_PARAMS,
+    `invalid argument 0 for key 'fromBlock': block option must be a valid 0x-prefixed block hash or hex integer, or "latest", "earliest" or "pending"`
+  )
+  await baseRequest(t, server, req, 200, expectRes)
+})
+
+tape(`${method}: call with unknown filter id`, async (t) => {
+  const { server } = await setupChain(pow, 'pow')
+
+  const req = params('eth_getFilterChanges', ['0x' + '00'.repeat(16)])
+  const expectRes = checkError(t, INVALID_PARAMS, 'filter not found')
+  await baseRequest(t, server, req, 200, expectRes)
+})
@@ -0,0 +1,50 @@
+import { Chain, Common, Hardfork } from '@ethereumjs/common'
+import { DefaultStateManager } from '@ethereumjs/statemanager'
+import { Transaction } from '@ethereumjs/tx'
+import * as tape from 'tape'
+
+import { baseRequest, baseSetup, params } from '../helpers'
+
+const method = 'eth_newPendingTransactionFilter'
+
+tape(`${method}: call with valid arguments`, async (t) => {
+  // Disable stateroot validation in TxPool since valid state root isn't available
+  const originalSetStateRoot = DefaultStateManager.prototype.setStateRoot
+  DefaultStateManager.prototype.setStateRoot = (): any => {}
+  const syncTargetHeight = new Common({ chain: Chain.Mainnet }).hardforkBlock(Hardfork.London)
+  const { server } = baseSetup({ syncTargetHeight, includeVM: true })
+
+  let filterId = ''
+  let req = params(method, [])
+  let expectRes = (res: any) => {
+    filterId = res.body.result
+    t.equal(filterId.length, 34, 'should return a 16 byte filter id')
+  }
+  await baseRequest(t, server, req, 200, expectRes, false)
+
+  // local tx with zero gas price, which is accepted into the pool without a funded account
+  const transaction = Transaction.fromTxData({
+    gasLimit: 21000,
+    gasPrice: 0,
+    nonce: 0,
+  }).sign(Buffer.from('42'.repeat(32), 'hex'))
+  req = params('eth_sendRawTransaction', ['0x' + transaction.serialize().toString('hex')])
+  await baseRequest(t, server, req, 200, () => {}, false)
+
+  req = params('eth_getFilterChanges', [filterId])
+  expectRes = (res: any) => {
+    t.deepEqual(
+      res.body.result,
+      ['0x' + transaction.hash().toString('hex')],
+      'should return the hash of the pending tx'
+    )
+  }
+  await baseRequest(t, server, req, 200, expectRes, false)
+
+  expectRes = (res: any) => {
+    t.deepEqual(res.body.result, [], 'should not return tx hashes again on the next poll')
+  }
+  await baseRequest(t, server, req, 200, expectRes)
+  // Restore setStateRoot
+  DefaultStateManager.prototype.setStateRoot = originalSetStateRoot
+})
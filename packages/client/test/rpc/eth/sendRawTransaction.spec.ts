@@ -31,6 +31,8 @@ tape(`${method}: call with valid arguments`, async (t) => {
   const account = await vm.stateManager.getAccount(address)
   account.balance = BigInt('40100000')
   await vm.stateManager.putAccount(address, account)
+  // Write the balance to the trie, the tx pool validates against a copy of the head state
+  await vm.stateManager.flush()
 
   const req = params(method, [txData])
   const expectRes = (res: any) => {
@@ -169,6 +171,8 @@ tape(`${method}: call with no peers`, async (t) => {
   const account = await vm.stateManager.getAccount(address)
   account.balance = BigInt('40100000')
   await vm.stateManager.putAccount(address, account)
+  // Write the balance to the trie, the tx pool validates against a copy of the head state
+  await vm.stateManager.flush()
 
   const req = params(method, [txData])
 
@@ -0,0 +1,41 @@
+import * as tape from 'tape'
+
+import {
+  baseRequest,
+  dummy,
+  gethGenesisStartLondon,
+  keystoreDatadir,
+  params,
+  setupChain,
+} from '../helpers'
+
+import pow = require('./../../testdata/geth-genesis/pow.json')
+
+import type { FullEthereumService } from '../../../lib/service'
+
+const method = 'eth_sendTransaction'
+
+tape(`${method}: signs and sends txs with consecutive nonces`, async (t) => {
+  const datadir = await keystoreDatadir()
+  const { server, client } = await setupChain(gethGenesisStartLondon(pow), 'powLondon', {
+    keystore: true,
+    datadir,
+    syncTargetHeight: BigInt(1),
+  })
+  await client.config.keystore!.unlock(dummy.addr, 'password')
+  const { txPool } = client.services.find((s) => s.name === 'eth') as FullEthereumService
+
+  const tx = { from: dummy.addr.toString(), to: '0x1230000000000000000000000000000000000321' }
+  for (const nonce of [0, 1]) {
+    const req = params(method, [tx])
+    const expectRes = (res: any) => {
+      const pooled = txPool.pool.get(dummy.addr.toString().slice(2))!
+      t.equal(pooled.length, nonce + 1, 'should add the tx to the pool')
+      t.equal(res.body.result, '0x' + pooled[nonce].hash, 'should return the tx hash')
+      t.equal(pooled[nonce].tx.nonce, BigInt(nonce), 'should continue after the pending txs')
+    }
+    await baseRequest(t, server, req, 200, expectRes, false)
+  }
+  client.config.keystore!.lock(dummy.addr)
+  t.end()
+})
@@ -0,0 +1,31 @@
+import { ecsign, hashPersonalMessage, toRpcSig } from '@ethereumjs/util'
+import * as tape from 'tape'
+
+import { INVALID_PARAMS } from '../../../lib/rpc/error-code'
+import { baseRequest, baseSetup, dummy, keystoreDatadir, params } from '../helpers'
+import { checkError } from '../util'
+
+const method = 'eth_sign'
+
+tape(`${method}: call with valid arguments`, async (t) => {
+  const { server, client } = baseSetup({ keystore: true, datadir: await keystoreDatadir() })
+  await client.config.keystore!.unlock(dummy.addr, 'password')
+
+  const message = Buffer.from('hello')
+  const { v, r, s } = ecsign(hashPersonalMessage(message), dummy.privKey)
+  const req = params(method, [dummy.addr.toString(), '0x' + message.toString('hex')])
+  const expectRes = (res: any) => {
+    t.equal(res.body.result, toRpcSig(v, r, s), 'should return the prefixed message signature')
+  }
+  await baseRequest(t, server, req, 200, expectRes, false)
+  client.config.keystore!.lock(dummy.addr)
+  t.end()
+})
+
+tape(`${method}: call with locked account`, async (t) => {
+  const { server } = baseSetup({ keystore: true, datadir: await keystoreDatadir() })
+
+  const req = params(method, [dummy.addr.toString(), '0x00'])
+  const expectRes = checkError(t, INVALID_PARAMS, 'authentication needed: password or unlock')
+  await baseRequest(t, server, req, 200, expectRes)
+})
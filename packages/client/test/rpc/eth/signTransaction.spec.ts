@@ -0,0 +1,90 @@
+import { TransactionFactory } from '@ethereumjs/tx'
+import { bigIntToHex, toBuffer } from '@ethereumjs/util'
+import * as tape from 'tape'
+
+import { INVALID_PARAMS } from '../../../lib/rpc/error-code'
+import {
+  baseRequest,
+  dummy,
+  gethGenesisStartLondon,
+  keystoreDatadir,
+  params,
+  setupChain,
+} from '../helpers'
+import { checkError } from '../util'
+
+import pow = require('./../../testdata/geth-genesis/pow.json')
+
+import type { FeeMarketEIP1559Transaction, Transaction } from '@ethereumjs/tx'
+
+const method = 'eth_signTransaction'
+const to = '0x1230000000000000000000000000000000000321'
+
+tape(`${method}: fills in missing fields of an EIP-1559 tx`, async (t) => {
+  const datadir = await keystoreDatadir()
+  const { chain, common, server, client } = await setupChain(
+    gethGenesisStartLondon(pow),
+    'powLondon',
+    { keystore: true, datadir }
+  )
+  await client.config.keystore!.unlock(dummy.addr, 'password')
+  const { baseFeePerGas } = (await chain.getCanonicalHeadHeader()) as any
+
+  const req = params(method, [{ from: dummy.addr.toString(), to, value: '0x1' }])
+  const expectRes = (res: any) => {
+    const tx = TransactionFactory.fromSerializedData(toBuffer(res.body.result), {
+      common,
+    }) as FeeMarketEIP1559Transaction
+    t.equal(tx.type, 2, 'should build an EIP-1559 tx')
+    t.ok(tx.getSenderAddress().equals(dummy.addr), 'should be signed by the account')
+    t.equal(tx.nonce, BigInt(0), 'should fill in the nonce')
+    t.equal(tx.gasLimit, BigInt(21000), 'should estimate the gas limit')
+    t.equal(tx.maxPriorityFeePerGas, BigInt(1), 'should fill in the suggested tip')
+    t.equal(tx.maxFeePerGas, BigInt(2) * baseFeePerGas + BigInt(1), 'should fill in the max fee')
+  }
+  await baseRequest(t, server, req, 200, expectRes, false)
+  client.config.keystore!.lock(dummy.addr)
+  t.end()
+})
+
+tape(`${method}: keeps provided fields of a legacy tx`, async (t) => {
+  const datadir = await keystoreDatadir()
+  const { common, server, client } = await setupChain(gethGenesisStartLondon(pow), 'powLondon', {
+    keystore: true,
+    datadir,
+  })
+  await client.config.keystore!.unlock(dummy.addr, 'password')
+
+  const gasPrice = bigIntToHex(BigInt(2000000000))
+  const req = params(method, [
+    { from: dummy.addr.toString(), to, gas: '0x7530', gasPrice, nonce: '0x5' },
+  ])
+  const expectRes = (res: any) => {
+    const tx = TransactionFactory.fromSerializedData(toBuffer(res.body.result), {
+      common,
+    }) as Transaction
+    t.equal(tx.type, 0, 'should build a legacy tx with a gas price')
+    t.equal(tx.nonce, BigInt(5), 'should keep the nonce')
+    t.equal(tx.gasLimit, BigInt(30000), 'should keep the gas limit')
+    t.equal(bigIntToHex(tx.gasPrice), gasPrice, 'should keep the gas price')
+  }
+  await baseRequest(t, server, req, 200, expectRes, false)
+  client.config.keystore!.lock(dummy.addr)
+  t.end()
+})
+
+tape(`${method}: call with invalid arguments`, async (t) => {
+  const datadir = await keystoreDatadir()
+  const { server } = await setupChain(gethGenesisStartLondon(pow), 'powLondon', {
+    keystore: true,
+    datadir,
+  })
+
+  let req = params(method, [{ to }])
+  let expectRes = checkError(t, INVALID_PARAMS, 'required field from')
+  await baseRequest(t, server, req, 200, expectRes, false)
+
+  req = params(method, [{ from: dummy.addr.toString(), to }])
+  expectRes = checkError(t, INVALID_PARAMS, 'authentication needed')
+  await baseRequest(t, server, req, 200, expectRes)
+})
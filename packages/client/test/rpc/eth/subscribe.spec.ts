@@ -0,0 +1,170 @@
+import { Transaction } from '@ethereumjs/tx'
+import * as tape from 'tape'
+
+import { METHOD_NOT_FOUND } from '../../../lib/rpc/error-code'
+import { Event } from '../../../lib/types'
+import {
+  baseRequest,
+  closeRPC,
+  createManager,
+  dummy,
+  params,
+  runBlockWithTxs,
+  setupChain,
+} from '../helpers'
+import { checkError } from '../util'
+
+import pow = require('./../../testdata/geth-genesis/pow.json')
+
+const request = require('superwstest')
+
+const method = 'eth_subscribe'
+const wsPort = 3000
+
+// Contract creation code emitting a single LOG1 with topic 0xaa:
+// PUSH1 0xaa, PUSH1 0x00, PUSH1 0x00, LOG1, STOP
+const logData = Buffer.from('60aa60006000a100', 'hex')
+const topic = '0x' + '00'.repeat(31) + 'aa'
+
+const listen = (server: any) =>
+  new Promise<void>((resolve) => server.listen(wsPort, 'localhost', resolve))
+
+tape(`${method}: newHeads`, async (t) => {
+  const { chain, execution, server } = await setupChain(pow, 'pow', { wsServer: true })
+  await listen(server)
+  let id = ''
+  try {
+    await request(server)
+      .ws('/')
+      .sendJson({ jsonrpc: '2.0', id: 1, method, params: ['newHeads'] })
+      .expectJson((res: any) => {
+        id = res.result
+        return id.length === 34
+      })
+      .exec(() => runBlockWithTxs(chain, execution, []))
+      .expectJson(
+        (res: any) =>
+          res.method === 'eth_subscription' &&
+          res.params.subscription === id &&
+          res.params.result.number === '0x1'
+      )
+      // send via exec since the subscription id is only known at this point
+      .exec((ws: any) =>
+        ws.send(JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'eth_unsubscribe', params: [id] }))
+      )
+      .expectJson((res: any) => res.result === true)
+      .close()
+      .expectClosed()
+    t.pass('should notify about new heads')
+    t.end()
+  } catch (err) {
+    t.end(err)
+  } finally {
+    closeRPC(server)
+  }
+})
+
+tape(`${method}: logs`, async (t) => {
+  const { chain, common, execution, server } = await setupChain(pow, 'pow', { wsServer: true })
+  const tx = Transaction.fromTxData(
+    { gasLimit: 100000, gasPrice: 100, data: logData, nonce: 0 },
+    { common }
+  ).sign(dummy.privKey)
+  await listen(server)
+  try {
+    await request(server)
+      .ws('/')
+      .sendJson({ jsonrpc: '2.0', id: 1, method, params: ['logs', { topics: [topic] }] })
+      .expectJson((res: any) => typeof res.result === 'string')
+      .sendJson({
+        jsonrpc: '2.0',
+        id: 2,
+        method,
+        params: ['logs', { topics: ['0x' + '00'.repeat(31) + 'bb'] }],
+      })
+      .expectJson((res: any) => typeof res.result === 'string')
+      .exec(() => runBlockWithTxs(chain, execution, [tx]))
+      .expectJson(
+        (res: any) =>
+          res.method === 'eth_subscription' &&
+          res.params.result.topics[0] === topic &&
+          res.params.result.transactionHash === '0x' + tx.hash().toString('hex')
+      )
+      .close()
+      .expectClosed()
+    t.pass('should only notify about matching logs')
+    t.end()
+  } catch (err) {
+    t.end(err)
+  } finally {
+    closeRPC(server)
+  }
+})
+
+tape(`${method}: newPendingTransactions`, async (t) => {
+  const { common, server } = await setupChain(pow, 'pow', {
+    wsServer: true,
+    syncTargetHeight: BigInt(1),
+  })
+  const tx = Transaction.fromTxData(
+    { gasLimit: 21000, gasPrice: 1000000000, to: dummy.addr, nonce: 0 },
+    { common }
+  ).sign(dummy.privKey)
+  await listen(server)
+  let id = ''
+  try {
+    await request(server)
+      .ws('/')
+      .sendJson({ jsonrpc: '2.0', id: 1, method, params: ['newPendingTransactions'] })
+      .expectJson((res: any) => {
+        id = res.result
+        return typeof id === 'string'
+      })
+      .sendJson({
+        jsonrpc: '2.0',
+        id: 2,
+        method: 'eth_sendRawTransaction',
+        params: ['0x' + tx.serialize().toString('hex')],
+      })
+      .expectJson(
+        (res: any) =>
+          res.method === 'eth_subscription' &&
+          res.params.subscription === id &&
+          res.params.result === '0x' + tx.hash().toString('hex')
+      )
+      .expectJson((res: any) => res.id === 2)
+      .close()
+      .expectClosed()
+    t.pass('should notify about new pending txs')
+    t.end()
+  } catch (err) {
+    t.end(err)
+  } finally {
+    closeRPC(server)
+  }
+})
+
+tape(`${method}: call over HTTP`, async (t) => {
+  const { server } = await setupChain(pow, 'pow')
+
+  const req = params(method, ['newHeads'])
+  const expectRes = checkError(t, METHOD_NOT_FOUND, 'notifications not supported')
+  await baseRequest(t, server, req, 200, expectRes)
+})
+
+tape(`${method}: share the subscriptions between the RPC servers of a client`, async (t) => {
+  const { client, server } = await setupChain(pow, 'pow')
+  const events = [
+    Event.CHAIN_UPDATED,
+    Event.SYNC_EXECUTION_RECEIPTS_SAVED,
+    Event.TXPOOL_TX_ADDED,
+    Event.SYNC_SYNCHRONIZED,
+  ]
+  const count = () => events.map((event) => client.config.events.listenerCount(event))
+  const listeners = count()
+  createManager(client).getMethods()
+  createManager(client).getMethods()
+  t.deepEqual(count(), listeners, 'should not add event listeners for other servers')
+  closeRPC(server)
+  t.end()
+})
@@ -0,0 +1,35 @@
+import * as tape from 'tape'
+
+import { INVALID_PARAMS } from '../../../lib/rpc/error-code'
+import { baseRequest, params, setupChain } from '../helpers'
+import { checkError } from '../util'
+
+import pow = require('./../../testdata/geth-genesis/pow.json')
+
+const method = 'eth_uninstallFilter'
+
+tape(`${method}: call with valid arguments`, async (t) => {
+  const { server } = await setupChain(pow, 'pow')
+
+  let filterId = ''
+  let req = params('eth_newBlockFilter', [])
+  let expectRes = (res: any) => {
+    filterId = res.body.result
+  }
+  await baseRequest(t, server, req, 200, expectRes, false)
+
+  req = params(method, [filterId])
+  expectRes = (res: any) => {
+    t.equal(res.body.result, true, 'should uninstall an existing filter')
+  }
+  await baseRequest(t, server, req, 200, expectRes, false)
+
+  expectRes = (res: any) => {
+    t.equal(res.body.result, false, 'should return false for an unknown filter')
+  }
+  await baseRequest(t, server, req, 200, expectRes, false)
+
+  req = params('eth_getFilterChanges', [filterId])
+  expectRes = checkError(t, INVALID_PARAMS, 'filter not found')
+  await baseRequest(t, server, req, 200, expectRes)
+})
@@ -0,0 +1,39 @@
+import * as tape from 'tape'
+
+import { INVALID_PARAMS } from '../../../lib/rpc/error-code'
+import { baseRequest, params, setupDevChain } from '../helpers'
+import { checkError } from '../util'
+
+const method = 'evm_increaseTime'
+
+tape(`${method}: call with valid arguments`, async (t) => {
+  const { server, chain, miner } = await setupDevChain()
+
+  for (const [param, total] of [
+    [3600, '0xe10'],
+    ['0x3c', '0xe4c'],
+  ]) {
+    const req = params(method, [param])
+    const expectRes = (res: any) => {
+      t.equal(res.body.result, total, 'should return the total time increase')
+    }
+    await baseRequest(t, server, req, 200, expectRes, false)
+  }
+
+  await miner.mineBlock()
+  const now = Math.round(Date.now() / 1000)
+  const timestamp = Number(chain.blocks.latest!.header.timestamp)
+  t.ok(
+    timestamp >= now + 3660 - 1 && timestamp <= now + 3660,
+    'should mine blocks with the increased time'
+  )
+  t.end()
+})
+
+tape(`${method}: call with invalid seconds`, async (t) => {
+  const { server } = await setupDevChain()
+
+  const req = params(method, [-1])
+  const expectRes = checkError(t, INVALID_PARAMS, 'invalid argument 0')
+  await baseRequest(t, server, req, 200, expectRes)
+})
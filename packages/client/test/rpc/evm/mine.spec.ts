@@ -0,0 +1,58 @@
+import * as tape from 'tape'
+
+import { INVALID_PARAMS, METHOD_NOT_FOUND } from '../../../lib/rpc/error-code'
+import { baseRequest, baseSetup, params, setupDevChain } from '../helpers'
+import { checkError } from '../util'
+
+const method = 'evm_mine'
+
+tape(`${method}: call without timestamp`, async (t) => {
+  const { server, chain } = await setupDevChain()
+
+  const req = params(method, [])
+  const expectRes = (res: any) => {
+    t.equal(res.body.result, '0x0', 'should return 0x0')
+    t.equal(chain.blocks.height, BigInt(1), 'should mine a block')
+    t.ok(
+      chain.blocks.latest!.header.timestamp >= BigInt(Math.floor(Date.now() / 1000) - 1),
+      'should use the current time'
+    )
+  }
+  await baseRequest(t, server, req, 200, expectRes)
+})
+
+tape(`${method}: call with timestamp`, async (t) => {
+  const { server, chain } = await setupDevChain()
+  const timestamp = Math.floor(Date.now() / 1000) + 3600
+
+  for (const [i, param] of [timestamp, '0x' + (timestamp + 10).toString(16)].entries()) {
+    const req = params(method, [param])
+    const expectRes = (res: any) => {
+      t.equal(res.body.result, '0x0', 'should return 0x0')
+      t.equal(
+        chain.blocks.latest!.header.timestamp,
+        BigInt(timestamp + i * 10),
+        'should mine the block with the timestamp'
+      )
+    }
+    await baseRequest(t, server, req, 200, expectRes, false)
+  }
+  t.end()
+})
+
+tape(`${method}: call with timestamp not after the latest block`, async (t) => {
+  const { server, chain } = await setupDevChain()
+  const genesisTimestamp = Number(chain.blocks.latest!.header.timestamp)
+
+  const req = params(method, [genesisTimestamp])
+  const expectRes = checkError(t, INVALID_PARAMS, 'is not after the timestamp')
+  await baseRequest(t, server, req, 200, expectRes)
+})
+
+tape(`${method}: not available without dev mode`, async (t) => {
+  const { server } = baseSetup()
+
+  const req = params(method, [])
+  const expectRes = checkError(t, METHOD_NOT_FOUND)
+  await baseRequest(t, server, req, 200, expectRes)
+})
@@ -0,0 +1,85 @@
+import { Account, Address } from '@ethereumjs/util'
+import * as tape from 'tape'
+
+import { baseRequest, dummy, params, setupDevChain } from '../helpers'
+
+const method = 'evm_revert'
+
+tape(`${method}: call with valid arguments`, async (t) => {
+  const { server, chain, miner, service } = await setupDevChain()
+
+  await miner.mineBlock()
+  const snapshotBlock = chain.blocks.latest!
+  let snapshotId = ''
+  await baseRequest(
+    t,
+    server,
+    params('evm_snapshot', []),
+    200,
+    (res: any) => (snapshotId = res.body.result),
+    false
+  )
+  miner.timeOffset = 3600
+  await miner.mineBlock()
+  await miner.mineBlock()
+  t.equal(chain.blocks.height, BigInt(3), 'mined blocks after the snapshot')
+
+  const req = params(method, [snapshotId])
+  const expectRes = (res: any) => {
+    t.equal(res.body.result, true, 'should revert')
+    t.equal(chain.blocks.height, BigInt(1), 'should delete the blocks mined after the snapshot')
+    t.ok(chain.blocks.latest!.hash().equals(snapshotBlock.hash()), 'should return to the block')
+    t.equal(miner.timeOffset, 0, 'should reset the time offset')
+  }
+  await baseRequest(t, server, req, 200, expectRes, false)
+  const stateRoot = await service.execution.vm.stateManager.getStateRoot()
+  t.ok(stateRoot.equals(snapshotBlock.header.stateRoot), 'should revert the state')
+
+  await miner.mineBlock()
+  t.equal(chain.blocks.height, BigInt(2), 'should continue mining on the snapshot block')
+
+  const expectFalse = (res: any) => {
+    t.equal(res.body.result, false, 'should not revert to the same snapshot twice')
+  }
+  await baseRequest(t, server, req, 200, expectFalse, false)
+  t.end()
+})
+
+tape(`${method}: revert state changes and pooled txs made without mining`, async (t) => {
+  const { server, chain, miner, service } = await setupDevChain()
+  service.txPool.start()
+  const { stateManager } = service.execution.vm
+  const address = new Address(Buffer.from('12'.repeat(20), 'hex'))
+  const stateRoot = await stateManager.getStateRoot()
+  await baseRequest(t, server, params('evm_snapshot', []), 200, () => {}, false)
+
+  await stateManager.putAccount(address, Account.fromAccountData({ balance: 42 }))
+  const from = dummy.addr.toString()
+  await baseRequest(t, server, params('anvil_impersonateAccount', [from]), 200, () => {}, false)
+  const tx = { from, to: address.toString(), value: '0x2a' }
+  await baseRequest(t, server, params('eth_sendTransaction', [tx]), 200, () => {}, false)
+  t.equal(service.txPool.status().pending, 1, 'pooled a tx after the snapshot')
+
+  const expectRes = (res: any) => {
+    t.equal(res.body.result, true, 'should revert')
+  }
+  await baseRequest(t, server, params(method, ['0x1']), 200, expectRes, false)
+  t.equal(chain.blocks.height, BigInt(0), 'should keep the head')
+  t.ok((await stateManager.getStateRoot()).equals(stateRoot), 'should revert the state root')
+  t.equal((await stateManager.getAccount(address)).balance, BigInt(0), 'should revert the state')
+  t.equal(service.txPool.status().pending, 0, 'should restore the pooled txs')
+  t.equal(miner.impersonatedAccounts.size, 0, 'should restore the impersonated accounts')
+  t.equal(miner.impersonatedTxs.size, 0, 'should forget the txs of impersonated accounts')
+  service.txPool.stop()
+  t.end()
+})
+
+tape(`${method}: call with unknown snapshot id`, async (t) => {
+  const { server } = await setupDevChain()
+
+  const req = params(method, ['0x5'])
+  const expectRes = (res: any) => {
+    t.equal(res.body.result, false, 'should return false')
+  }
+  await baseRequest(t, server, req, 200, expectRes)
+})
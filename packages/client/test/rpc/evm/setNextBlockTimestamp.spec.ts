@@ -0,0 +1,38 @@
+import * as tape from 'tape'
+
+import { INVALID_PARAMS } from '../../../lib/rpc/error-code'
+import { baseRequest, params, setupDevChain } from '../helpers'
+import { checkError } from '../util'
+
+const method = 'evm_setNextBlockTimestamp'
+
+tape(`${method}: call with valid arguments`, async (t) => {
+  const { server, chain, miner } = await setupDevChain()
+  const timestamp = Math.round(Date.now() / 1000) + 86400
+
+  const req = params(method, [timestamp])
+  const expectRes = (res: any) => {
+    t.equal(res.body.result, '0x' + timestamp.toString(16), 'should return the timestamp')
+  }
+  await baseRequest(t, server, req, 200, expectRes, false)
+
+  await miner.mineBlock()
+  t.equal(
+    chain.blocks.latest!.header.timestamp,
+    BigInt(timestamp),
+    'should mine the next block with the timestamp'
+  )
+  await miner.mineBlock()
+  const next = Number(chain.blocks.latest!.header.timestamp)
+  t.ok(next > timestamp && next <= timestamp + 2, 'should continue from the timestamp')
+  t.end()
+})
+
+tape(`${method}: call with timestamp not after the latest block`, async (t) => {
+  const { server, chain } = await setupDevChain()
+  const latest = chain.blocks.latest!.header.timestamp
+
+  const req = params(method, ['0x' + (latest - BigInt(1)).toString(16)])
+  const expectRes = checkError(t, INVALID_PARAMS, 'is not after the timestamp')
+  await baseRequest(t, server, req, 200, expectRes)
+})
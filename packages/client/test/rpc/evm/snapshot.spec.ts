@@ -0,0 +1,18 @@
+import * as tape from 'tape'
+
+import { baseRequest, params, setupDevChain } from '../helpers'
+
+const method = 'evm_snapshot'
+
+tape(`${method}: call with valid arguments`, async (t) => {
+  const { server } = await setupDevChain()
+
+  for (const id of ['0x1', '0x2']) {
+    const req = params(method, [])
+    const expectRes = (res: any) => {
+      t.equal(res.body.result, id, 'should return consecutive snapshot ids')
+    }
+    await baseRequest(t, server, req, 200, expectRes, false)
+  }
+  t.end()
+})
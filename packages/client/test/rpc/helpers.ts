@@ -2,19 +2,25 @@ import { BlockHeader } from '@ethereumjs/block'
 import { Blockchain, parseGethGenesisState } from '@ethereumjs/blockchain'
 import { Chain as ChainEnum, Common, parseGethGenesis } from '@ethereumjs/common'
 import { Address } from '@ethereumjs/util'
+import { mkdirSync, mkdtempSync, writeFileSync } from 'fs'
 import { Server as RPCServer } from 'jayson/promise'
 import { MemoryLevel } from 'memory-level'
+import { tmpdir } from 'os'
+import * as path from 'path'
 
 import { Chain } from '../../lib/blockchain/chain'
 import { Config } from '../../lib/config'
 import { VMExecution } from '../../lib/execution'
 import { getLogger } from '../../lib/logging'
+import { Miner } from '../../lib/miner'
 import { RlpxServer } from '../../lib/net/server/rlpxserver'
 import { RPCManager as Manager } from '../../lib/rpc'
 import { TxPool } from '../../lib/service/txpool'
 import { Event } from '../../lib/types'
 import { createRPCServerListener, createWsRPCServerListener } from '../../lib/util'
+import { encryptKey } from '../../lib/util/keystore'
 
+import pow = require('./../testdata/geth-genesis/pow.json')
 import { mockBlockchain } from './mockBlockchain'
 
 import type { EthereumClient } from '../../lib/client'
@@ -38,7 +44,7 @@ export function startRPC(
   withEngineMiddleware?: WithEngineMiddleware
 ) {
   const { port, wsServer } = opts
-  const server = new RPCServer(methods)
+  const server = new RPCServer(methods, { useContext: true })
   const httpServer =
     wsServer === true
       ? createWsRPCServerListener({ server, withEngineMiddleware })
@@ -63,6 +69,13 @@ export function createClient(clientOpts: any = {}) {
     common,
     saveReceipts: clientOpts.enableMetaDB,
     txLookupLimit: clientOpts.txLookupLimit,
+    stateRetention: clientOpts.stateRetention,
+    datadir: clientOpts.datadir,
+    keystore: clientOpts.keystore,
+    accounts: clientOpts.accounts,
+    mine: clientOpts.mine,
+    automine: clientOpts.automine,
+    dev: clientOpts.dev,
   })
   const blockchain = clientOpts.blockchain ?? mockBlockchain()
 
@@ -77,7 +90,10 @@ export function createClient(clientOpts: any = {}) {
 
   chain.getTd = async (_hash: Buffer, _num: bigint) => BigInt(1000)
   if (chain._headers !== undefined) {
-    chain._headers.latest = BlockHeader.fromHeaderData({}, { common })
+    chain._headers.latest = BlockHeader.fromHeaderData(
+      {},
+      { common, skipConsensusFormatValidation: true }
+    )
   }
 
   config.synchronized = true
@@ -144,6 +160,9 @@ export function createClient(clientOpts: any = {}) {
 
   if (clientOpts.includeVM === true) {
     client.services[0].txPool = new TxPool({ config, service: client.services[0] })
+    if (clientOpts.mine === true) {
+      client.services[0].miner = new Miner({ config, service: client.services[0] })
+    }
   }
 
   return client as EthereumClient
@@ -152,7 +171,9 @@ export function createClient(clientOpts: any = {}) {
 export function baseSetup(clientOpts: any = {}) {
   const client = createClient(clientOpts)
   const manager = createManager(client)
-  const server = startRPC(manager.getMethods(clientOpts.engine === true))
+  const server = startRPC(
+    manager.getMethods(clientOpts.engine === true, clientOpts.keystore === true)
+  )
   server.once('close', () => {
     client.config.events.emit(Event.CLIENT_SHUTDOWN)
   })
@@ -221,7 +242,10 @@ export async function setupChain(genesisFile: any, chainName = 'dev', clientOpts
     enableMetaDB: true,
   })
   const manager = createManager(client)
-  const server = startRPC(manager.getMethods(clientOpts.engine))
+  const server = startRPC(
+    manager.getMethods(clientOpts.engine, clientOpts.keystore === true || clientOpts.dev === true),
+    clientOpts.wsServer === true ? { wsServer: true } : undefined
+  )
   server.once('close', () => {
     client.config.events.emit(Event.CLIENT_SHUTDOWN)
   })
@@ -233,7 +257,7 @@ export async function setupChain(genesisFile: any, chainName = 'dev', clientOpts
   await execution?.open()
   await chain.update()
 
-  return { chain, common, execution: execution!, server }
+  return { chain, common, execution: execution!, server, client }
 }
 
 /**
@@ -289,3 +313,36 @@ export const dummy = {
   addr: Address.fromString('0xcde098d93535445768e8a2345a2f869139f45641'),
   privKey: Buffer.from('5831aac354d13ff96a0c051af0d44c0931c2a20bdacee034ffbaa2354d84f5f8', 'hex'),
 }
+
+/**
+ * Creates a temporary datadir with the {@link dummy} account in the keystore,
+ * encrypted with the password `password` (with a low scrypt cost to keep tests fast)
+ */
+export async function keystoreDatadir() {
+  const datadir = mkdtempSync(path.join(tmpdir(), 'keystore-'))
+  const key = await encryptKey(dummy.privKey, 'password', 1024)
+  mkdirSync(path.join(datadir, 'keystore'))
+  writeFileSync(path.join(datadir, 'keystore', `key-${key.address}`), JSON.stringify(key))
+  return datadir
+}
+
+/**
+ * Sets up a dev chain (see `--dev`) on the {@link dummy} funded genesis of `pow.json`,
+ * with clique mining on demand signed by the {@link dummy} account
+ */
+export async function setupDevChain(clientOpts: any = {}) {
+  const { config } = gethGenesisStartLondon(pow)
+  const genesis = {
+    ...pow,
+    config: { ...config, clique: { period: 0, epoch: 30000 } },
+    extraData: '0x' + '0'.repeat(64) + dummy.addr.toString().slice(2) + '0'.repeat(130),
+  }
+  const setup = await setupChain(genesis, 'dev', {
+    ...clientOpts,
+    accounts: [[dummy.addr, dummy.privKey]],
+    mine: true,
+    dev: true,
+  })
+  const service = setup.client.services.find((s) => s.name === 'eth') as FullEthereumService
+  return { ...setup, service, miner: service.miner! }
+}
@@ -0,0 +1,53 @@
+import { mkdtempSync } from 'fs'
+import { tmpdir } from 'os'
+import * as path from 'path'
+import * as tape from 'tape'
+
+import { METHOD_NOT_FOUND } from '../../../lib/rpc/error-code'
+import { baseRequest, baseSetup, params } from '../helpers'
+import { checkError } from '../util'
+
+const method = 'personal_newAccount'
+
+tape(`${method}: call with valid arguments`, async (t) => {
+  const datadir = mkdtempSync(path.join(tmpdir(), 'keystore-'))
+  const { server, client } = baseSetup({ keystore: true, datadir })
+  client.config.keystore!.SCRYPT_N = 1024
+
+  let address: string
+  let req = params(method, ['password'])
+  let expectRes = (res: any) => {
+    address = res.body.result
+    t.ok(/^0x[0-9a-f]{40}$/.test(address), 'should return the address of the new account')
+  }
+  await baseRequest(t, server, req, 200, expectRes, false)
+
+  req = params('personal_listAccounts', [])
+  expectRes = (res: any) => {
+    t.deepEqual(res.body.result, [address], 'should list the new account')
+  }
+  await baseRequest(t, server, req, 200, expectRes, false)
+
+  req = params('eth_accounts', [])
+  expectRes = (res: any) => {
+    t.deepEqual(res.body.result, [address], 'should return the new account in eth_accounts')
+  }
+  await baseRequest(t, server, req, 200, expectRes)
+})
+
+tape(`${method}: call with invalid arguments`, async (t) => {
+  const datadir = mkdtempSync(path.join(tmpdir(), 'keystore-'))
+  const { server } = baseSetup({ keystore: true, datadir })
+
+  const req = params(method, [1])
+  const expectRes = checkError(t, -32602, 'invalid argument 0: argument is not string')
+  await baseRequest(t, server, req, 200, expectRes)
+})
+
+tape(`${method}: not available without keystore`, async (t) => {
+  const { server } = baseSetup({ keystore: false })
+
+  const req = params(method, ['password'])
+  const expectRes = checkError(t, METHOD_NOT_FOUND)
+  await baseRequest(t, server, req, 200, expectRes)
+})
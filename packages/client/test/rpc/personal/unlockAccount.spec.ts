@@ -0,0 +1,46 @@
+import * as tape from 'tape'
+
+import { INVALID_PARAMS } from '../../../lib/rpc/error-code'
+import { baseRequest, baseSetup, dummy, keystoreDatadir, params } from '../helpers'
+import { checkError } from '../util'
+
+const method = 'personal_unlockAccount'
+
+tape(`${method}: call with valid arguments`, async (t) => {
+  const { server, client } = baseSetup({ keystore: true, datadir: await keystoreDatadir() })
+  const keystore = client.config.keystore!
+  t.throws(() => keystore.privateKey(dummy.addr), /authentication needed/, 'locked before')
+
+  const req = params(method, [dummy.addr.toString(), 'password', 60])
+  const expectRes = (res: any) => {
+    t.equal(res.body.result, true, 'should unlock the account')
+    t.deepEqual(keystore.privateKey(dummy.addr), dummy.privKey, 'should keep the private key')
+  }
+  await baseRequest(t, server, req, 200, expectRes, false)
+  keystore.lock(dummy.addr)
+  t.end()
+})
+
+tape(`${method}: call with wrong password`, async (t) => {
+  const { server } = baseSetup({ keystore: true, datadir: await keystoreDatadir() })
+
+  const req = params(method, [dummy.addr.toString(), 'wrong'])
+  const expectRes = checkError(t, INVALID_PARAMS, 'could not decrypt key with given password')
+  await baseRequest(t, server, req, 200, expectRes)
+})
+
+tape(`${method}: call with unknown account`, async (t) => {
+  const { server } = baseSetup({ keystore: true, datadir: await keystoreDatadir() })
+
+  const req = params(method, ['0x' + '11'.repeat(20), 'password'])
+  const expectRes = checkError(t, INVALID_PARAMS, 'no key for given address')
+  await baseRequest(t, server, req, 200, expectRes)
+})
+
+tape(`${method}: call with invalid duration`, async (t) => {
+  const { server } = baseSetup({ keystore: true, datadir: await keystoreDatadir() })
+
+  const req = params(method, [dummy.addr.toString(), 'password', -1])
+  const expectRes = checkError(t, INVALID_PARAMS, 'argument is not a non-negative integer')
+  await baseRequest(t, server, req, 200, expectRes)
+})
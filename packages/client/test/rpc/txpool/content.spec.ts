@@ -2,6 +2,7 @@ import { Block, BlockHeader } from '@ethereumjs/block'
 import { Blockchain } from '@ethereumjs/blockchain'
 import { Chain, Common, Hardfork } from '@ethereumjs/common'
 import { TransactionFactory } from '@ethereumjs/tx'
+import { Account } from '@ethereumjs/util'
 import { randomBytes } from 'crypto'
 import * as tape from 'tape'
 
@@ -68,7 +69,7 @@ tape(`${method}: call with valid arguments`, async (t) => {
   vm.events.once('afterBlock', (result: any) => (ranBlock = result.block))
   await vm.runBlock({ block: londonBlock, generate: true, skipBlockValidation: true })
   await vm.blockchain.putBlock(ranBlock!)
-  ;(service.txPool as any).validate = () => {}
+  ;(service.txPool as any).validate = async () => new Account()
   await service.txPool.add(TransactionFactory.fromTxData({ type: 2 }, {}).sign(randomBytes(32)))
 
   const req = params(method, [])
@@ -0,0 +1,43 @@
+import { Transaction } from '@ethereumjs/tx'
+import { Account, Address, bufferToHex } from '@ethereumjs/util'
+import { randomBytes } from 'crypto'
+import * as tape from 'tape'
+
+import { INVALID_PARAMS } from '../../../lib/rpc/error-code'
+import { baseRequest, baseSetup, params } from '../helpers'
+import { checkError } from '../util'
+
+import type { FullEthereumService } from '../../../lib/service'
+
+const method = 'txpool_contentFrom'
+
+tape(`${method}: call with valid arguments`, async (t) => {
+  const { server, client } = baseSetup({ includeVM: true })
+  const { txPool } = client.services[0] as FullEthereumService
+  ;(txPool as any).validate = async () => new Account()
+  const privateKey = randomBytes(32)
+  const sender = Address.fromPrivateKey(privateKey).toString()
+  const pendingTx = Transaction.fromTxData({ nonce: 0, gasLimit: 21000 }).sign(privateKey)
+  const queuedTx = Transaction.fromTxData({ nonce: 2, gasLimit: 21000 }).sign(privateKey)
+  await txPool.add(pendingTx)
+  await txPool.add(queuedTx)
+  await txPool.add(Transaction.fromTxData({ gasLimit: 21000 }).sign(randomBytes(32)))
+
+  let req = params(method, [sender])
+  let expectRes = (res: any) => {
+    const { pending, queued } = res.body.result
+    t.deepEqual(Object.keys(pending), ['0'], 'returned the pending tx by nonce')
+    t.equal(pending['0'].hash, bufferToHex(pendingTx.hash()), 'returned the pending tx')
+    t.equal(queued['2'].hash, bufferToHex(queuedTx.hash()), 'returned the queued tx')
+  }
+  await baseRequest(t, server, req, 200, expectRes, false)
+
+  req = params(method, [Address.zero().toString()])
+  expectRes = (res: any) => {
+    t.deepEqual(res.body.result, { pending: {}, queued: {} }, 'returned no txs')
+  }
+  await baseRequest(t, server, req, 200, expectRes, false)
+
+  req = params(method, ['0xabc'])
+  await baseRequest(t, server, req, 200, checkError(t, INVALID_PARAMS, 'invalid argument 0'))
+})
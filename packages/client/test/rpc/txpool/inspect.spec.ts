@@ -0,0 +1,38 @@
+import { Transaction } from '@ethereumjs/tx'
+import { Account, Address, privateToAddress } from '@ethereumjs/util'
+import { randomBytes } from 'crypto'
+import * as tape from 'tape'
+
+import { baseRequest, baseSetup, params } from '../helpers'
+
+import type { FullEthereumService } from '../../../lib/service'
+
+const method = 'txpool_inspect'
+
+tape(`${method}: call with valid arguments`, async (t) => {
+  const { server, client } = baseSetup({ includeVM: true })
+  const { txPool } = client.services[0] as FullEthereumService
+  ;(txPool as any).validate = async () => new Account()
+  const privateKey = randomBytes(32)
+  const sender = Address.fromPrivateKey(privateKey).toString()
+  const to = new Address(privateToAddress(randomBytes(32)))
+  await txPool.add(
+    Transaction.fromTxData({ nonce: 0, to, value: 5, gasLimit: 21000, gasPrice: 10 }).sign(
+      privateKey
+    )
+  )
+  await txPool.add(Transaction.fromTxData({ nonce: 2, gasLimit: 90000 }).sign(privateKey))
+
+  const req = params(method, [])
+  const expectRes = (res: any) => {
+    t.deepEqual(
+      res.body.result,
+      {
+        pending: { [sender]: { '0': `${to}: 5 wei + 21000 gas × 10 wei` } },
+        queued: { [sender]: { '2': 'contract creation: 0 wei + 90000 gas × 0 wei' } },
+      },
+      'returned tx summaries'
+    )
+  }
+  await baseRequest(t, server, req, 200, expectRes)
+})
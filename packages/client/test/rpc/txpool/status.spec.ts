@@ -0,0 +1,26 @@
+import { Transaction } from '@ethereumjs/tx'
+import { Account } from '@ethereumjs/util'
+import { randomBytes } from 'crypto'
+import * as tape from 'tape'
+
+import { baseRequest, baseSetup, params } from '../helpers'
+
+import type { FullEthereumService } from '../../../lib/service'
+
+const method = 'txpool_status'
+
+tape(`${method}: call with valid arguments`, async (t) => {
+  const { server, client } = baseSetup({ includeVM: true })
+  const { txPool } = client.services[0] as FullEthereumService
+  ;(txPool as any).validate = async () => new Account()
+  const privateKey = randomBytes(32)
+  for (const nonce of [0, 1, 3]) {
+    await txPool.add(Transaction.fromTxData({ nonce, gasLimit: 21000 }).sign(privateKey))
+  }
+
+  const req = params(method, [])
+  const expectRes = (res: any) => {
+    t.deepEqual(res.body.result, { pending: '0x2', queued: '0x1' }, 'returned tx counts')
+  }
+  await baseRequest(t, server, req, 200, expectRes)
+})
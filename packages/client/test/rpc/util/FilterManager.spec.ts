@@ -0,0 +1,39 @@
+import * as tape from 'tape'
+
+import { Config } from '../../../lib'
+import { FilterManager, FilterType } from '../../../lib/rpc/util/FilterManager'
+import { Event } from '../../../lib/types'
+
+import type { Chain } from '../../../lib/blockchain'
+
+tape('[FilterManager]', (t) => {
+  const config = new Config({ transports: [] })
+  const chain = { blocks: { height: BigInt(0) } } as Chain
+
+  t.test('should install and uninstall filters', (st) => {
+    const manager = new FilterManager({ config, chain })
+    const id = manager.install(FilterType.Block)
+    st.ok(manager.get(id), 'filter installed')
+    st.ok(manager.uninstall(id), 'filter uninstalled')
+    st.notOk(manager.get(id), 'filter removed')
+    st.end()
+  })
+
+  t.test('should remove filters which are not polled', (st) => {
+    const manager = new FilterManager({ config, chain })
+    const id = manager.install(FilterType.PendingTransaction)
+    manager.get(id)!.lastPolled = Date.now() - manager.FILTER_TIMEOUT - 1
+    manager.cleanup()
+    st.equal(manager.size, 0, 'expired filter removed')
+    st.end()
+  })
+
+  t.test('should enforce the filter limit', (st) => {
+    const manager = new FilterManager({ config, chain })
+    manager.MAX_FILTERS = 1
+    manager.install(FilterType.Block)
+    st.throws(() => manager.install(FilterType.Block), /filter limit/, 'throws on limit')
+    config.events.emit(Event.CLIENT_SHUTDOWN)
+    st.end()
+  })
+})
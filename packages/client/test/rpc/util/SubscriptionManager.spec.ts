@@ -0,0 +1,84 @@
+import { EventEmitter } from 'events'
+import * as tape from 'tape'
+
+import { Config } from '../../../lib'
+import { SubscriptionManager, SubscriptionType } from '../../../lib/rpc/util/SubscriptionManager'
+import { Event } from '../../../lib/types'
+
+import type { Chain } from '../../../lib/blockchain'
+
+class MockConnection extends EventEmitter {
+  messages: any[] = []
+  send(data: string) {
+    this.messages.push(JSON.parse(data))
+  }
+}
+
+tape('[SubscriptionManager]', (t) => {
+  const chain = { blocks: { height: BigInt(0) }, headers: { height: BigInt(5) } } as Chain
+
+  t.test('should only unsubscribe subscriptions of the same connection', (st) => {
+    const config = new Config({ transports: [] })
+    const manager = new SubscriptionManager({ config, chain })
+    const connection = new MockConnection()
+    const id = manager.subscribe(connection, SubscriptionType.NewPendingTransactions)
+    st.notOk(manager.unsubscribe(new MockConnection(), id), 'other connection cannot unsubscribe')
+    st.ok(manager.unsubscribe(connection, id), 'subscription cancelled')
+    st.equal(manager.size, 0, 'no subscriptions left')
+    st.end()
+  })
+
+  t.test('should remove the subscriptions of a closed connection', (st) => {
+    const config = new Config({ transports: [] })
+    const manager = new SubscriptionManager({ config, chain })
+    const connection = new MockConnection()
+    manager.subscribe(connection, SubscriptionType.NewHeads)
+    manager.subscribe(connection, SubscriptionType.Syncing)
+    manager.subscribe(new MockConnection(), SubscriptionType.NewHeads)
+    connection.emit('close')
+    st.equal(manager.size, 1, 'subscriptions of the closed connection removed')
+    st.end()
+  })
+
+  t.test('should require receipts saving for logs subscriptions', (st) => {
+    const config = new Config({ transports: [] })
+    const manager = new SubscriptionManager({ config, chain })
+    st.throws(
+      () => manager.subscribe(new MockConnection(), SubscriptionType.Logs),
+      /--saveReceipts/,
+      'throws without receipts manager'
+    )
+    st.end()
+  })
+
+  t.test('should announce sync status changes', (st) => {
+    const config = new Config({ transports: [] })
+    config.syncTargetHeight = BigInt(10)
+    const manager = new SubscriptionManager({ config, chain })
+    const connection = new MockConnection()
+    const id = manager.subscribe(connection, SubscriptionType.Syncing)
+
+    config.events.emit(Event.SYNC_FETCHED_HEADERS, [])
+    st.equal(connection.messages.length, 0, 'no notification without status change')
+
+    config.synchronized = true
+    config.events.emit(Event.SYNC_SYNCHRONIZED, BigInt(10))
+    st.deepEqual(
+      connection.messages[0],
+      { jsonrpc: '2.0', method: 'eth_subscription', params: { subscription: id, result: false } },
+      'announces end of sync'
+    )
+
+    config.synchronized = false
+    config.events.emit(Event.SYNC_FETCHED_HEADERS, [])
+    st.deepEqual(
+      connection.messages[1].params.result,
+      {
+        syncing: true,
+        status: { startingBlock: '0x0', currentBlock: '0x5', highestBlock: '0xa' },
+      },
+      'announces start of sync'
+    )
+    st.end()
+  })
+})
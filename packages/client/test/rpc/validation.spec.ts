@@ -184,6 +184,64 @@ tape(`${prefix} bool`, (t) => {
   t.end()
 })
 
+tape(`${prefix} string`, (t) => {
+  // valid
+  t.ok(validatorResult(validators.string(['password'], 0)))
+  t.ok(validatorResult(validators.string([''], 0)))
+
+  // invalid
+  t.notOk(validatorResult(validators.string([1], 0)))
+  t.notOk(validatorResult(validators.string([null], 0)))
+
+  t.end()
+})
+
+tape(`${prefix} integer`, (t) => {
+  // valid
+  t.ok(validatorResult(validators.integer([0], 0)))
+  t.ok(validatorResult(validators.integer([300], 0)))
+
+  // invalid
+  t.notOk(validatorResult(validators.integer([-1], 0)))
+  t.notOk(validatorResult(validators.integer([1.5], 0)))
+  t.notOk(validatorResult(validators.integer(['300'], 0)))
+
+  t.end()
+})
+
+tape(`${prefix} blockCount`, (t) => {
+  // valid
+  t.ok(validatorResult(validators.blockCount(['0x1'], 0)))
+  t.ok(validatorResult(validators.blockCount(['0x400'], 0)))
+  t.ok(validatorResult(validators.blockCount([10], 0)))
+
+  // invalid
+  t.notOk(validatorResult(validators.blockCount(['0x0'], 0)))
+  t.notOk(validatorResult(validators.blockCount(['0x401'], 0)))
+  t.notOk(validatorResult(validators.blockCount(['10'], 0)))
+  t.notOk(validatorResult(validators.blockCount([0], 0)))
+  t.notOk(validatorResult(validators.blockCount([1.5], 0)))
+  t.notOk(validatorResult(validators.blockCount([true], 0)))
+
+  t.end()
+})
+
+tape(`${prefix} rewardPercentiles`, (t) => {
+  // valid
+  t.ok(validatorResult(validators.rewardPercentiles([[]], 0)))
+  t.ok(validatorResult(validators.rewardPercentiles([[0, 25.5, 50, 100]], 0)))
+  t.ok(validatorResult(validators.rewardPercentiles([[10, 10]], 0)))
+
+  // invalid
+  t.notOk(validatorResult(validators.rewardPercentiles([[50, 25]], 0)))
+  t.notOk(validatorResult(validators.rewardPercentiles([[101]], 0)))
+  t.notOk(validatorResult(validators.rewardPercentiles([[-1]], 0)))
+  t.notOk(validatorResult(validators.rewardPercentiles([['50']], 0)))
+  t.notOk(validatorResult(validators.rewardPercentiles([50], 0)))
+
+  t.end()
+})
+
 tape(`${prefix} hex`, (t) => {
   // valid
   t.ok(validatorResult(validators.hex(['0x0'], 0)))
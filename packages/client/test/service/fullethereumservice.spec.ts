@@ -1,5 +1,6 @@
 import { Common, Hardfork } from '@ethereumjs/common'
 import { TransactionFactory } from '@ethereumjs/tx'
+import { Account } from '@ethereumjs/util'
 import { randomBytes } from 'crypto'
 import * as tape from 'tape'
 import * as td from 'testdouble'
@@ -206,6 +207,20 @@ tape('[FullEthereumService]', async (t) => {
     }
   )
 
+  t.test('should track the head announced with NewBlock', async (t) => {
+    const config = new Config({ transports: [] })
+    const chain = new Chain({ config })
+    const service = new FullEthereumService({ config, chain })
+    const peer = { eth: { status: { bestHash: Buffer.alloc(32), td: BigInt(10) } } } as any
+    const block = { hash: () => Buffer.alloc(32, 1) }
+    await service.handle({ name: 'NewBlock', data: [block, BigInt(9)] }, 'eth', peer)
+    t.ok(peer.eth.status.bestHash.equals(Buffer.alloc(32)), 'ignored lower announced head')
+    await service.handle({ name: 'NewBlock', data: [block, BigInt(11)] }, 'eth', peer)
+    t.ok(peer.eth.status.bestHash.equals(block.hash()), 'updated best hash of the peer')
+    t.equal(peer.eth.status.td, BigInt(11), 'updated total difficulty of the peer')
+    t.end()
+  })
+
   t.test('should ban peer for sending NewBlock/NewBlockHashes after merge', async (t) => {
     t.plan(2)
     const common = new Common({ chain: 'mainnet', hardfork: Hardfork.Merge })
@@ -303,7 +318,7 @@ tape('[FullEthereumService]', async (t) => {
     const config = new Config({ transports: [] })
     const chain = new Chain({ config })
     const service = new FullEthereumService({ config, chain })
-    ;(service.txPool as any).validate = () => {}
+    ;(service.txPool as any).validate = async () => new Account()
 
     const tx = TransactionFactory.fromTxData({ type: 2 }).sign(randomBytes(32))
     await service.txPool.add(tx)
@@ -322,6 +337,63 @@ tape('[FullEthereumService]', async (t) => {
     )
   })
 
+  t.test('should handle snap requests', async (st) => {
+    const config = new Config({ transports: [] })
+    const chain = new Chain({ config })
+    const service = new FullEthereumService({ config, chain })
+    const code = Buffer.from('6001', 'hex')
+    service.snapServer.getByteCodes = td.func<any>()
+    td.when(service.snapServer.getByteCodes({ hashes: [], bytes: BigInt(100) })).thenResolve([code])
+
+    await service.handle(
+      { name: 'GetByteCodes', data: { reqId: BigInt(1), hashes: [], bytes: BigInt(100) } },
+      'snap',
+      {
+        snap: {
+          send: (name: string, data: any): any => {
+            st.equal(name, 'ByteCodes', 'responded with ByteCodes')
+            st.deepEqual(data, { reqId: BigInt(1), codes: [code] }, 'sent served codes')
+            st.end()
+          },
+        } as any,
+      } as any
+    )
+  })
+
+  t.test('should handle les state requests with flow control', async (st) => {
+    const config = new Config({ transports: [], lightserv: true })
+    const chain = new Chain({ config })
+    const service = new FullEthereumService({ config, chain })
+    const node = Buffer.from('c0', 'hex')
+    const reqs = [
+      { blockHash: Buffer.alloc(32), accountKey: Buffer.alloc(0), key: Buffer.alloc(32) },
+    ]
+    service.lesServer.getProofs = td.func<any>()
+    td.when(service.lesServer.getProofs(reqs)).thenResolve([node])
+    const peer = {
+      id: '01',
+      les: {
+        send: (name: string, data: any): any => {
+          st.equal(name, 'ProofsV2', 'responded with ProofsV2')
+          st.deepEqual(data.proof, [node], 'sent served proof')
+          st.ok(data.bv < service.flow.bl, 'charged the request to the buffer')
+        },
+      },
+    } as any
+    await service.handle({ name: 'GetProofsV2', data: { reqId: BigInt(1), reqs } }, 'les', peer)
+
+    service.pool.ban = td.func<any>()
+    const { req } = service.flow.mrc.GetProofsV2
+    const tooMany = Array(Math.ceil(service.flow.bl / req)).fill(reqs[0])
+    await service.handle(
+      { name: 'GetProofsV2', data: { reqId: BigInt(2), reqs: tooMany } },
+      'les',
+      peer
+    )
+    td.verify(service.pool.ban(peer, 300000))
+    st.end()
+  })
+
   t.test('should start on beacon sync when past merge', async (t) => {
     const common = Common.fromGethGenesis(genesisJSON, { chain: 'post-merge' })
     common.setHardforkByBlockNumber(BigInt(0), BigInt(0))
@@ -0,0 +1,110 @@
+import { DefaultStateManager } from '@ethereumjs/statemanager'
+import { Trie } from '@ethereumjs/trie'
+import { Account, Address, setLengthLeft } from '@ethereumjs/util'
+import { keccak256 } from 'ethereum-cryptography/keccak'
+import * as tape from 'tape'
+
+import { Config } from '../../lib/config'
+import { LevelDB } from '../../lib/execution/level'
+import { LesTxStatus } from '../../lib/net/protocol/lesprotocol'
+import { LesServer } from '../../lib/service/lesserver'
+
+tape('[LesServer]', async (t) => {
+  const stateManager = new DefaultStateManager({
+    trie: new Trie({ db: new LevelDB(), useKeyHashing: true }),
+  })
+  const address = new Address(setLengthLeft(Buffer.from([1]), 20))
+  const accountKey = Buffer.from(keccak256(address.buf))
+  const code = Buffer.from('6001', 'hex')
+  const slot = setLengthLeft(Buffer.from([1]), 32)
+  await stateManager.putAccount(address, Account.fromAccountData({ balance: BigInt(10) }))
+  await stateManager.putContractCode(address, code)
+  await stateManager.putContractStorage(address, slot, Buffer.from([0x2a]))
+  const root = await stateManager.getStateRoot()
+  const { storageRoot } = await stateManager.getAccount(address)
+
+  const blockHash = Buffer.alloc(32, 1)
+  const unknownHash = Buffer.alloc(32, 2)
+  const chain = {
+    getBlock: async (hash: Buffer) => {
+      if (!hash.equals(blockHash)) throw new Error('not found')
+      return { header: { stateRoot: root, number: BigInt(1) } }
+    },
+  }
+  const config = new Config({ transports: [] })
+  const added: any[] = []
+  const relayed: any[] = []
+  const txPool = {
+    add: async (tx: any) => {
+      if (tx.invalid === true) throw new Error('invalid tx')
+      added.push(tx)
+    },
+    sendTransactions: (txs: any[]) => relayed.push(...txs),
+  }
+  const receiptsManager = {
+    getReceipts: async (hash: Buffer) => (hash.equals(blockHash) ? [{ txType: 0 }] : []),
+    getReceiptByTxHash: async (hash: Buffer) =>
+      hash.equals(blockHash) ? [{}, blockHash, 0, 0] : null,
+  }
+  const server = new LesServer({
+    config,
+    chain: chain as any,
+    execution: { vm: { stateManager }, receiptsManager } as any,
+    txPool: txPool as any,
+  })
+
+  t.test('should serve account and storage proofs', async (t) => {
+    const proof = await server.getProofs([
+      { blockHash, accountKey: Buffer.alloc(0), key: accountKey },
+      { blockHash, accountKey, key: Buffer.from(keccak256(slot)) },
+    ])
+    const trie = new Trie({ useKeyHashing: false })
+    const account = await trie.verifyProof(root, accountKey, proof)
+    t.equal(Account.fromRlpSerializedAccount(account!).balance, BigInt(10), 'proved account')
+    const value = await trie.verifyProof(storageRoot, Buffer.from(keccak256(slot)), proof)
+    t.ok(value !== null, 'proved storage slot')
+
+    const accountReq = { blockHash, accountKey: Buffer.alloc(0), key: accountKey }
+    const accountProof = await server.getProofs([accountReq])
+    const skipped = await server.getProofs([{ ...accountReq, fromLevel: 1 }])
+    t.deepEqual(skipped, accountProof.slice(1), 'omitted the levels requested')
+
+    t.deepEqual(
+      await server.getProofs([
+        { blockHash: unknownHash, accountKey: Buffer.alloc(0), key: accountKey },
+      ]),
+      [],
+      'no proof for an unknown block'
+    )
+    t.end()
+  })
+
+  t.test('should serve contract codes', async (t) => {
+    const codes = await server.getContractCodes([
+      { blockHash, accountKey },
+      { blockHash: unknownHash, accountKey },
+    ])
+    t.deepEqual(codes, [code], 'served the code, stopping at the unknown block')
+    t.end()
+  })
+
+  t.test('should serve receipts', async (t) => {
+    const receipts = await server.getReceipts([blockHash, unknownHash])
+    t.deepEqual(receipts, [[{ txType: 0 }], []], 'served receipts per block')
+    t.end()
+  })
+
+  t.test('should relay txs', async (t) => {
+    const tx = { hash: () => Buffer.alloc(32, 3) }
+    const invalid = { hash: () => Buffer.alloc(32, 4), invalid: true }
+    const included = { hash: () => blockHash }
+    const status = await server.sendTx([tx, invalid, included] as any, [])
+    t.equal(status[0].status, LesTxStatus.Pending, 'added tx is pending')
+    t.equal(status[1].status, LesTxStatus.Error, 'invalid tx errored')
+    t.equal(status[1].data.toString(), 'invalid tx', 'with the error message')
+    t.equal(status[2].status, LesTxStatus.Included, 'known tx is included')
+    t.deepEqual(added, [tx], 'only the valid tx added to the pool')
+    t.deepEqual(relayed, [tx], 'relayed the added tx')
+    t.end()
+  })
+})
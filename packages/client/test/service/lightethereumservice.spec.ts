@@ -3,6 +3,7 @@ import * as td from 'testdouble'
 
 import { Chain } from '../../lib/blockchain'
 import { Config } from '../../lib/config'
+import { LesStateManager } from '../../lib/execution/lesstatemanager'
 import { Event } from '../../lib/types'
 
 tape('[LightEthereumService]', async (t) => {
@@ -50,12 +51,13 @@ tape('[LightEthereumService]', async (t) => {
   })
 
   t.test('should open', async (t) => {
-    t.plan(3)
+    t.plan(4)
     const server = td.object() as any
     const config = new Config({ servers: [server] })
     const chain = new Chain({ config })
     const service = new LightEthereumService({ config, chain })
     await service.open()
+    t.ok(service.vm.stateManager instanceof LesStateManager, 'created the VM on the LES state')
     td.verify(service.synchronizer.open())
     td.verify(server.addProtocols(td.matchers.anything()))
     service.config.events.on(Event.SYNC_SYNCHRONIZED, () => t.pass('synchronized'))
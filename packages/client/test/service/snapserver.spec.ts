@@ -0,0 +1,152 @@
+import { DefaultStateManager } from '@ethereumjs/statemanager'
+import { Trie } from '@ethereumjs/trie'
+import { Account, Address, accountBodyToRLP, setLengthLeft } from '@ethereumjs/util'
+import { keccak256 } from 'ethereum-cryptography/keccak'
+import * as tape from 'tape'
+
+import { Config } from '../../lib/config'
+import { LevelDB } from '../../lib/execution/level'
+import { SnapServer } from '../../lib/service/snapserver'
+import { AccountFetcher } from '../../lib/sync/fetcher'
+
+const MAX_HASH = Buffer.alloc(32, 0xff)
+
+tape('[SnapServer]', async (t) => {
+  const stateManager = new DefaultStateManager({
+    trie: new Trie({ db: new LevelDB(), useKeyHashing: true }),
+  })
+  for (let i = 1; i <= 20; i++) {
+    const address = new Address(setLengthLeft(Buffer.from([i]), 20))
+    await stateManager.putAccount(address, Account.fromAccountData({ balance: BigInt(i) }))
+  }
+  const contract = new Address(setLengthLeft(Buffer.from([1]), 20))
+  const contractHash = Buffer.from(keccak256(contract.buf))
+  const code = Buffer.from('6001', 'hex')
+  await stateManager.putContractCode(contract, code)
+  for (let i = 1; i <= 10; i++) {
+    await stateManager.putContractStorage(
+      contract,
+      setLengthLeft(Buffer.from([i]), 32),
+      Buffer.from([i])
+    )
+  }
+  const root = await stateManager.getStateRoot()
+  const storageRoot = (await stateManager.getAccount(contract)).storageRoot
+
+  const config = new Config({ transports: [] })
+  const server = new SnapServer({ config, execution: { vm: { stateManager } } as any })
+  const origin = Buffer.alloc(32)
+
+  t.test('should serve account ranges with proofs', async (t) => {
+    const { accounts, proof } = await server.getAccountRange({
+      root,
+      origin,
+      limit: MAX_HASH,
+      bytes: BigInt(50000),
+    })
+    t.equal(accounts.length, 20, 'served all accounts')
+    const keys = accounts.map((account) => account.hash)
+    const values = accounts.map((account) => accountBodyToRLP(account.body))
+    const more = await new Trie({ useKeyHashing: false }).verifyRangeProof(
+      root,
+      origin,
+      keys[keys.length - 1],
+      keys,
+      values,
+      proof
+    )
+    t.notOk(more, 'verified complete range')
+
+    const limited = await server.getAccountRange({
+      root,
+      origin,
+      limit: MAX_HASH,
+      bytes: BigInt(1),
+    })
+    t.equal(limited.accounts.length, 1, 'respects byte limit')
+
+    const unknown = await server.getAccountRange({
+      root: Buffer.alloc(32, 1),
+      origin,
+      limit: MAX_HASH,
+      bytes: BigInt(50000),
+    })
+    t.deepEqual(unknown, { accounts: [], proof: [] }, 'empty response for unknown root')
+    t.end()
+  })
+
+  t.test('should serve accounts verifiable by the account fetcher', async (t) => {
+    const fetcher = new AccountFetcher({
+      config,
+      pool: {} as any,
+      root,
+      trie: new Trie({ useKeyHashing: false }),
+    })
+    const peer = {
+      id: 'random',
+      snap: { getAccountRange: async (opts: any) => server.getAccountRange(opts) },
+    }
+    const task = { origin: BigInt(0), limit: BigInt(2) ** BigInt(255) }
+    const result = (await fetcher.request({ peer, task } as any))!
+    t.ok(result.accounts.length > 0, 'fetched accounts')
+    t.ok(result.more, 'proved accounts beyond the range')
+    t.end()
+  })
+
+  t.test('should serve storage ranges', async (t) => {
+    const { slots, proof } = await server.getStorageRanges({
+      root,
+      accounts: [contractHash],
+      origin: Buffer.alloc(0),
+      limit: Buffer.alloc(0),
+      bytes: BigInt(50000),
+    })
+    t.equal(slots[0].length, 10, 'served all slots')
+    t.equal(proof.length, 0, 'complete range not proven')
+
+    const limited = await server.getStorageRanges({
+      root,
+      accounts: [contractHash],
+      origin: Buffer.alloc(0),
+      limit: Buffer.alloc(0),
+      bytes: BigInt(1),
+    })
+    t.equal(limited.slots[0].length, 1, 'respects byte limit')
+    const keys = limited.slots[0].map((slot) => slot.hash)
+    const more = await new Trie({ useKeyHashing: false }).verifyRangeProof(
+      storageRoot,
+      origin,
+      keys[0],
+      keys,
+      limited.slots[0].map((slot) => slot.body),
+      limited.proof
+    )
+    t.ok(more, 'proved partial range')
+    t.end()
+  })
+
+  t.test('should serve bytecodes and trie nodes', async (t) => {
+    const codes = await server.getByteCodes({
+      hashes: [Buffer.alloc(32), Buffer.from(keccak256(code))],
+      bytes: BigInt(50000),
+    })
+    t.deepEqual(codes, [code], 'served known code')
+
+    const nodes = await server.getTrieNodes({
+      root,
+      paths: [[Buffer.from([0])], [contractHash, Buffer.from([0])]],
+      bytes: BigInt(50000),
+    })
+    t.equal(nodes.length, 2, 'served nodes')
+    t.ok(Buffer.from(keccak256(nodes[0])).equals(root), 'served state root node')
+    t.ok(Buffer.from(keccak256(nodes[1])).equals(storageRoot), 'served storage root node')
+
+    const missing = await server.getTrieNodes({
+      root,
+      paths: [[Buffer.from([0])], [Buffer.concat([Buffer.from([0]), MAX_HASH])]],
+      bytes: BigInt(50000),
+    })
+    t.equal(missing.length, 1, 'stops at the first node not available')
+    t.end()
+  })
+})
@@ -0,0 +1,129 @@
+import { Trie } from '@ethereumjs/trie'
+import { Account, bigIntToBuffer, setLengthLeft } from '@ethereumjs/util'
+import * as tape from 'tape'
+import * as td from 'testdouble'
+
+import { Config } from '../../../lib/config'
+import { Event } from '../../../lib/types'
+
+import type { AccountBodyBuffer } from '@ethereumjs/util'
+
+const hash = (n: number) => setLengthLeft(bigIntToBuffer(BigInt(n) << BigInt(240)), 32)
+
+/**
+ * Returns a trie (without key hashing) with accounts at the hashes `0x0100…` to `0x0a00…`
+ */
+async function accountTrie() {
+  const trie = new Trie({ useKeyHashing: false })
+  const accounts = []
+  for (let i = 1; i <= 10; i++) {
+    const account = Account.fromAccountData({ nonce: i, balance: i * 100 })
+    await trie.put(hash(i), account.serialize())
+    accounts.push({ hash: hash(i), body: account.raw() as AccountBodyBuffer })
+  }
+  return { trie, accounts }
+}
+
+tape('[AccountFetcher]', async (t) => {
+  class PeerPool {
+    idle() {}
+    ban() {}
+  }
+  PeerPool.prototype.idle = td.func<any>()
+  PeerPool.prototype.ban = td.func<any>()
+
+  const { AccountFetcher } = await import('../../../lib/sync/fetcher/accountfetcher')
+
+  t.test('should create tasks covering the account hash range', (t) => {
+    const config = new Config({ transports: [], maxAccountRange: BigInt(2) ** BigInt(254) })
+    const fetcher = new AccountFetcher({
+      config,
+      pool: new PeerPool() as any,
+      root: Buffer.alloc(32),
+      trie: new Trie({ useKeyHashing: false }),
+    })
+    const tasks = fetcher.tasks()
+    t.equal(tasks.length, 4, 'split into tasks of maxAccountRange')
+    t.equal(tasks[0].origin, BigInt(0), 'first task starts at zero')
+    t.equal(tasks[3].limit, BigInt(2) ** BigInt(256) - BigInt(1), 'last task ends at max hash')
+    t.equal(fetcher.count, BigInt(0), 'no range left')
+    t.end()
+  })
+
+  t.test('should request and verify account ranges', async (t) => {
+    const config = new Config({ transports: [] })
+    const { trie, accounts } = await accountTrie()
+    const fetcher = new AccountFetcher({
+      config,
+      pool: new PeerPool() as any,
+      root: trie.root(),
+      trie: new Trie({ useKeyHashing: false }),
+    })
+    const proof = [...(await trie.createProof(hash(0))), ...(await trie.createProof(hash(5)))]
+    const getAccountRange = td.func<any>()
+    td.when(getAccountRange(td.matchers.anything())).thenResolve({
+      reqId: BigInt(1),
+      accounts: accounts.slice(0, 5),
+      proof,
+    })
+    const peer = { snap: { getAccountRange }, id: 'random', address: 'random' }
+    const job = { peer, task: { origin: BigInt(0), limit: BigInt(2) ** BigInt(256) - BigInt(1) } }
+    const result = (await fetcher.request(job as any))!
+    t.equal(result.accounts.length, 5, 'returned the accounts')
+    t.ok(result.more, 'detected accounts beyond the range')
+    t.equal(fetcher.process(job as any, result), undefined, 'partial range is not processed')
+    t.equal((job as any).partialResult.length, 5, 'partial result saved')
+
+    const getInvalidAccountRange = td.func<any>()
+    td.when(getInvalidAccountRange(td.matchers.anything())).thenResolve({
+      reqId: BigInt(2),
+      accounts: accounts.slice(1, 5),
+      proof: [],
+    })
+    const invalidPeer = { ...peer, snap: { getAccountRange: getInvalidAccountRange } }
+    try {
+      await fetcher.request({ peer: invalidPeer, task: job.task } as any)
+      t.fail('should throw')
+    } catch (e: any) {
+      t.pass('rejects accounts not matching the state root')
+    }
+    t.end()
+  })
+
+  t.test('should store accounts', async (t) => {
+    const config = new Config({ transports: [] })
+    const { trie, accounts } = await accountTrie()
+    const localTrie = new Trie({ useKeyHashing: false })
+    const fetcher = new AccountFetcher({
+      config,
+      pool: new PeerPool() as any,
+      root: trie.root(),
+      trie: localTrie,
+    })
+    config.events.once(Event.SYNC_FETCHED_ACCOUNTS, (stored) =>
+      t.equal(stored.length, 10, 'announced stored accounts')
+    )
+    await fetcher.store(accounts)
+    t.ok(localTrie.root().equals(trie.root()), 'rebuilt the account trie')
+    t.end()
+  })
+
+  t.test('should find a fetchable peer', async (t) => {
+    const config = new Config({ transports: [] })
+    const pool = new PeerPool() as any
+    const fetcher = new AccountFetcher({
+      config,
+      pool,
+      root: Buffer.alloc(32),
+      trie: new Trie({ useKeyHashing: false }),
+    })
+    td.when((fetcher as any).pool.idle(td.matchers.anything())).thenReturn('peer0')
+    t.equals(fetcher.peer(), 'peer0', 'found peer')
+    t.end()
+  })
+
+  t.test('should reset td', (t) => {
+    td.reset()
+    t.end()
+  })
+})
@@ -0,0 +1,72 @@
+import { keccak256 } from 'ethereum-cryptography/keccak'
+import * as tape from 'tape'
+import * as td from 'testdouble'
+
+import { Config } from '../../../lib/config'
+import { LevelDB } from '../../../lib/execution/level'
+
+tape('[ByteCodeFetcher]', async (t) => {
+  class PeerPool {
+    idle() {}
+    ban() {}
+  }
+  PeerPool.prototype.idle = td.func<any>()
+  PeerPool.prototype.ban = td.func<any>()
+
+  const { ByteCodeFetcher } = await import('../../../lib/sync/fetcher/bytecodefetcher')
+
+  const codes = ['6001', '6002', '6003'].map((code) => Buffer.from(code, 'hex'))
+  const hashes = codes.map((code) => Buffer.from(keccak256(code)))
+
+  t.test('should request and store bytecodes', async (t) => {
+    const config = new Config({ transports: [] })
+    const db = new LevelDB()
+    const fetcher = new ByteCodeFetcher({ config, pool: new PeerPool() as any, db, hashes })
+    ;(fetcher as any).running = true
+    const task = fetcher.tasks()[0]
+    t.equal(task.hashes.length, 3, 'created task')
+
+    const getByteCodes = td.func<any>()
+    td.when(getByteCodes(td.matchers.anything())).thenResolve({
+      reqId: BigInt(1),
+      codes: [codes[0], codes[2]],
+    })
+    const peer = { snap: { getByteCodes }, id: 'random', address: 'random' }
+    const result = (await fetcher.request({ peer, task } as any))!
+    t.equal(result.length, 2, 'returned the served codes')
+    t.ok(
+      (fetcher as any).in.peek().task.hashes[0].equals(hashes[1]),
+      'requeued the code not served'
+    )
+
+    await fetcher.store(fetcher.process({ task } as any, result))
+    t.ok(
+      (await db.get(Buffer.concat([Buffer.from('c'), hashes[2]])))!.equals(codes[2]),
+      'stored code by prefixed code hash'
+    )
+    t.end()
+  })
+
+  t.test('should reject unrequested bytecodes', async (t) => {
+    const config = new Config({ transports: [] })
+    const fetcher = new ByteCodeFetcher({ config, pool: new PeerPool() as any, db: new LevelDB() })
+    const getByteCodes = td.func<any>()
+    td.when(getByteCodes(td.matchers.anything())).thenResolve({
+      reqId: BigInt(1),
+      codes: [Buffer.from('6004', 'hex')],
+    })
+    const peer = { snap: { getByteCodes }, id: 'random', address: 'random' }
+    try {
+      await fetcher.request({ peer, task: { hashes } } as any)
+      t.fail('should throw')
+    } catch (e: any) {
+      t.equal(e.message, 'bytecode response contains unrequested codes', 'throws')
+    }
+    t.end()
+  })
+
+  t.test('should reset td', (t) => {
+    td.reset()
+    t.end()
+  })
+})
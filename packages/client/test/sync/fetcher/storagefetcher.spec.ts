@@ -0,0 +1,118 @@
+import { RLP } from '@ethereumjs/rlp'
+import { Trie } from '@ethereumjs/trie'
+import { bigIntToBuffer, setLengthLeft } from '@ethereumjs/util'
+import * as tape from 'tape'
+import * as td from 'testdouble'
+
+import { Config } from '../../../lib/config'
+import { LevelDB } from '../../../lib/execution/level'
+
+const hash = (n: number) => setLengthLeft(bigIntToBuffer(BigInt(n) << BigInt(240)), 32)
+
+/**
+ * Returns a storage trie (without key hashing) with `count` slots
+ */
+async function storageTrie(count: number) {
+  const trie = new Trie({ useKeyHashing: false })
+  const slots = []
+  for (let i = 1; i <= count; i++) {
+    const body = Buffer.from(RLP.encode(bigIntToBuffer(BigInt(i))))
+    await trie.put(hash(i), body)
+    slots.push({ hash: hash(i), body })
+  }
+  return { trie, slots }
+}
+
+tape('[StorageFetcher]', async (t) => {
+  class PeerPool {
+    idle() {}
+    ban() {}
+  }
+  PeerPool.prototype.idle = td.func<any>()
+  PeerPool.prototype.ban = td.func<any>()
+
+  const { StorageFetcher } = await import('../../../lib/sync/fetcher/storagefetcher')
+
+  t.test('should batch storage requests into tasks', (t) => {
+    const config = new Config({ transports: [], maxPerRequest: 2 })
+    const storageRequests = [1, 2, 3].map((i) => ({ accountHash: hash(i), storageRoot: hash(i) }))
+    const fetcher = new StorageFetcher({
+      config,
+      pool: new PeerPool() as any,
+      root: Buffer.alloc(32),
+      db: new LevelDB(),
+      storageRequests,
+    })
+    const tasks = fetcher.tasks()
+    t.equal(tasks.length, 2, 'created tasks')
+    t.equal(tasks[0].storageRequests.length, 2, 'requests batched up to maxPerRequest')
+    t.end()
+  })
+
+  t.test('should request, verify and store storage ranges', async (t) => {
+    const config = new Config({ transports: [] })
+    const small = await storageTrie(2)
+    const large = await storageTrie(10)
+    const db = new LevelDB()
+    const fetcher = new StorageFetcher({ config, pool: new PeerPool() as any, root: hash(0), db })
+    ;(fetcher as any).running = true
+
+    const getStorageRanges = td.func<any>()
+    td.when(getStorageRanges(td.matchers.anything())).thenResolve({
+      reqId: BigInt(1),
+      slots: [small.slots, large.slots.slice(0, 5)],
+      proof: [
+        ...(await large.trie.createProof(hash(0))),
+        ...(await large.trie.createProof(hash(5))),
+      ],
+    })
+    const peer = { snap: { getStorageRanges }, id: 'random', address: 'random' }
+    const task = {
+      storageRequests: [
+        { accountHash: hash(1), storageRoot: small.trie.root() },
+        { accountHash: hash(2), storageRoot: large.trie.root() },
+      ],
+    }
+    const results = (await fetcher.request({ peer, task } as any))!
+    t.equal(results.length, 2, 'returned both storage ranges')
+    t.notOk(results[0].more, 'first range is complete')
+    t.ok(results[1].more, 'second range is incomplete')
+
+    fetcher.process({ task } as any, results)
+    const continuation = (fetcher as any).in.peek().task.storageRequests[0]
+    t.equal(continuation.origin, (BigInt(5) << BigInt(240)) + BigInt(1), 'continues the range')
+
+    await fetcher.store(results)
+    await fetcher.store([{ request: continuation, slots: large.slots.slice(5), more: false }])
+    const stored = new Trie({ db, root: large.trie.root(), useKeyHashing: false })
+    t.deepEqual(await stored.get(hash(10)), large.slots[9].body, 'storage trie stored')
+    t.end()
+  })
+
+  t.test('should skip storage ranges not matching the storage root', async (t) => {
+    const config = new Config({ transports: [] })
+    const { slots } = await storageTrie(2)
+    const fetcher = new StorageFetcher({
+      config,
+      pool: new PeerPool() as any,
+      root: hash(0),
+      db: new LevelDB(),
+    })
+    const getStorageRanges = td.func<any>()
+    td.when(getStorageRanges(td.matchers.anything())).thenResolve({
+      reqId: BigInt(1),
+      slots: [slots],
+      proof: [],
+    })
+    const peer = { snap: { getStorageRanges }, id: 'random', address: 'random' }
+    const task = { storageRequests: [{ accountHash: hash(1), storageRoot: hash(1) }] }
+    const results = (await fetcher.request({ peer, task } as any))!
+    t.equal(results[0].slots.length, 0, 'range left to healing')
+    t.end()
+  })
+
+  t.test('should reset td', (t) => {
+    td.reset()
+    t.end()
+  })
+})
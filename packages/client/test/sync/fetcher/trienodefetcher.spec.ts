@@ -0,0 +1,186 @@
+import { Trie } from '@ethereumjs/trie'
+import { Account, bigIntToBuffer, setLengthLeft } from '@ethereumjs/util'
+import { keccak256 } from 'ethereum-cryptography/keccak'
+import * as tape from 'tape'
+import * as td from 'testdouble'
+
+import { Config } from '../../../lib/config'
+import { ENCODING_OPTS, LevelDB } from '../../../lib/execution/level'
+
+const hash = (n: number) => setLengthLeft(bigIntToBuffer(BigInt(n) << BigInt(240)), 32)
+
+tape('[TrieNodeFetcher]', async (t) => {
+  class PeerPool {
+    idle() {}
+    ban() {}
+  }
+  PeerPool.prototype.idle = td.func<any>()
+  PeerPool.prototype.ban = td.func<any>()
+
+  const { TrieNodeFetcher } = await import('../../../lib/sync/fetcher/trienodefetcher')
+
+  // Remote state with a contract account with storage and a few plain accounts
+  const remoteDB = new LevelDB()
+  const storage = new Trie({ db: remoteDB, useKeyHashing: false })
+  for (let i = 1; i <= 20; i++) {
+    await storage.put(hash(i), bigIntToBuffer(BigInt(i)))
+  }
+  const code = Buffer.from('6001', 'hex')
+  const codeHash = Buffer.from(keccak256(code))
+  const state = new Trie({ db: remoteDB, useKeyHashing: false })
+  await state.put(
+    hash(1),
+    Account.fromAccountData({ nonce: 1, storageRoot: storage.root(), codeHash }).serialize()
+  )
+  for (let i = 2; i <= 20; i++) {
+    await state.put(hash(i), Account.fromAccountData({ balance: i }).serialize())
+  }
+
+  const getTrieNodes = td.func<any>()
+  const peer = { snap: { getTrieNodes }, id: 'random', address: 'random' }
+
+  t.test('should heal the local state', async (t) => {
+    const config = new Config({ transports: [] })
+    const db = new LevelDB()
+    const fetcher = new TrieNodeFetcher({
+      config,
+      pool: new PeerPool() as any,
+      root: state.root(),
+      db,
+    })
+    ;(fetcher as any).running = true
+    await (fetcher as any).visit({ hash: state.root(), path: [] })
+    t.equal((fetcher as any).requests.length, 1, 'root node missing')
+
+    let rounds = 0
+    while ((fetcher as any).requests.length > 0) {
+      const task = fetcher.tasks()[0]
+      const nodes = await Promise.all(task.requests.map(({ hash }) => remoteDB.get(hash)))
+      td.when(getTrieNodes(td.matchers.anything())).thenResolve({ reqId: BigInt(1), nodes })
+      const result = (await fetcher.request({ peer, task } as any))!
+      await fetcher.store(fetcher.process({ task } as any, result))
+      rounds++
+    }
+    t.ok(rounds > 1, 'fetched the trie level by level')
+
+    const local = new Trie({ db, root: state.root(), useKeyHashing: false })
+    t.ok((await local.get(hash(20)))!.equals((await state.get(hash(20)))!), 'state trie healed')
+    const localStorage = new Trie({ db, root: storage.root(), useKeyHashing: false })
+    t.ok((await localStorage.get(hash(20)))!.equals(bigIntToBuffer(BigInt(20))), 'storage healed')
+    t.deepEqual([...fetcher.codeHashes.values()], [codeHash], 'collected missing code')
+    t.end()
+  })
+
+  // Local db with the nodes of the remote state, except the root node
+  const copyState = async () => {
+    const db = new LevelDB()
+    for await (const [key, value] of remoteDB._leveldb.iterator(ENCODING_OPTS)) {
+      if (!state.root().equals(key as Buffer)) await db.put(key as Buffer, value as Buffer)
+    }
+    return db
+  }
+
+  const fetchRound = async (fetcher: any) => {
+    const task = fetcher.tasks()[0]
+    const nodes = await Promise.all(task.requests.map(({ hash }: any) => remoteDB.get(hash)))
+    td.when(getTrieNodes(td.matchers.anything())).thenResolve({ reqId: BigInt(1), nodes })
+    const result = (await fetcher.request({ peer, task } as any))!
+    await fetcher.store(fetcher.process({ task } as any, result))
+    return task.requests.length
+  }
+
+  t.test('should not descend into subtrees present locally', async (t) => {
+    const config = new Config({ transports: [] })
+    const db = await copyState()
+    const fetcher = new TrieNodeFetcher({
+      config,
+      pool: new PeerPool() as any,
+      root: state.root(),
+      db,
+    })
+    ;(fetcher as any).running = true
+    await (fetcher as any).visit({ hash: state.root(), path: [] })
+    t.equal(await fetchRound(fetcher), 1, 'fetched the root node')
+    t.equal((fetcher as any).requests.length, 0, 'found no other missing nodes')
+    t.ok((await db.get(state.root())) !== null, 'stored the root node')
+    t.equal(fetcher.codeHashes.size, 0, 'did not walk the accounts present locally')
+    t.end()
+  })
+
+  t.test('should walk the whole local trie if requested', async (t) => {
+    const config = new Config({ transports: [] })
+    const fetcher = new TrieNodeFetcher({
+      config,
+      pool: new PeerPool() as any,
+      root: state.root(),
+      db: await copyState(),
+      walkAll: true,
+    })
+    ;(fetcher as any).running = true
+    await (fetcher as any).visit({ hash: state.root(), path: [] })
+    await fetchRound(fetcher)
+    t.deepEqual([...fetcher.codeHashes.values()], [codeHash], 'collected missing code')
+    t.end()
+  })
+
+  t.test('should only store nodes once their children are stored', async (t) => {
+    const config = new Config({ transports: [] })
+    const db = new LevelDB()
+    const fetcher = new TrieNodeFetcher({
+      config,
+      pool: new PeerPool() as any,
+      root: state.root(),
+      db,
+    })
+    ;(fetcher as any).running = true
+    await (fetcher as any).visit({ hash: state.root(), path: [] })
+    await fetchRound(fetcher)
+    t.ok((fetcher as any).requests.length > 0, 'found missing children')
+    t.equal(await db.get(state.root()), null, 'root node not stored with missing children')
+
+    while ((fetcher as any).requests.length > 0) {
+      await fetchRound(fetcher)
+    }
+    t.ok((await db.get(state.root())) !== null, 'root node stored once the trie is complete')
+    t.equal((fetcher as any).pending.size, 0, 'no pending nodes left')
+    t.end()
+  })
+
+  t.test('should request nodes by path', async (t) => {
+    const config = new Config({ transports: [] })
+    const fetcher = new TrieNodeFetcher({
+      config,
+      pool: new PeerPool() as any,
+      root: state.root(),
+      db: new LevelDB(),
+    })
+    const requests = [
+      { hash: state.root(), path: [] },
+      { hash: storage.root(), path: [1, 2, 3], accountHash: hash(1) },
+    ]
+    const nodes = [(await remoteDB.get(state.root()))!, Buffer.from('00', 'hex')]
+    let paths
+    const getPathNodes = async (opts: any) => {
+      paths = opts.paths
+      return { reqId: BigInt(1), nodes }
+    }
+    const pathPeer = { ...peer, snap: { getTrieNodes: getPathNodes } }
+    try {
+      await fetcher.request({ peer: pathPeer, task: { requests } } as any)
+      t.fail('should throw')
+    } catch (e: any) {
+      t.ok(e.message.includes('invalid trie node'), 'rejects nodes not matching the hash')
+    }
+    t.deepEqual(
+      paths,
+      [[Buffer.from('00', 'hex')], [hash(1), Buffer.from('1123', 'hex')]],
+      'requested compact encoded paths'
+    )
+    t.end()
+  })
+
+  t.test('should reset td', (t) => {
+    td.reset()
+    t.end()
+  })
+})
@@ -1,9 +1,17 @@
 import { BlockHeader } from '@ethereumjs/block'
+import { Trie } from '@ethereumjs/trie'
+import { Account, KECCAK256_RLP, bigIntToBuffer, setLengthLeft } from '@ethereumjs/util'
+import { MemoryLevel } from 'memory-level'
 import * as tape from 'tape'
 import * as td from 'testdouble'
 
 import { Chain } from '../../lib/blockchain'
 import { Config } from '../../lib/config'
+import { VMExecution } from '../../lib/execution'
+import { LevelDB } from '../../lib/execution/level'
+import { Event } from '../../lib/types'
+
+import type { AccountBodyBuffer } from '@ethereumjs/util'
 
 tape('[SnapSynchronizer]', async (t) => {
   class PeerPool {
@@ -63,4 +71,174 @@ tape('[SnapSynchronizer]', async (t) => {
     t.equal(await sync.best(), peers[1], 'found best')
     t.end()
   })
+
+  const { AccountFetcher, StorageFetcher } = await import('../../lib/sync/fetcher')
+  const { SnapSyncPhase } = await import('../../lib/sync/snapsync')
+
+  const peerWithHead = (number: number) => {
+    const getBlockHeaders = td.func<any>()
+    td.when(getBlockHeaders(td.matchers.anything())).thenReturn([
+      BigInt(1),
+      [
+        BlockHeader.fromHeaderData(
+          { number, stateRoot: Buffer.alloc(32, number) },
+          { hardforkByBlockNumber: true }
+        ),
+      ],
+    ])
+    const status = { bestHash: '0xaa', td: BigInt(number) }
+    return { snap: {}, eth: { status, getBlockHeaders } } as any
+  }
+
+  t.test('should set up the account fetcher for a new pivot', async (t) => {
+    const config = new Config({ transports: [] })
+    const chain = new Chain({ config })
+    const sync = new SnapSynchronizer({ config, pool: new PeerPool() as any, chain })
+    t.ok(await sync.syncWithPeer(peerWithHead(100)), 'set up sync')
+    clearInterval((sync as any).pivotCheck)
+    t.equal(config.syncTargetHeight, BigInt(100), 'updated sync target')
+    const fetcher = sync.fetcher as InstanceType<typeof AccountFetcher>
+    t.ok(fetcher instanceof AccountFetcher, 'created account fetcher')
+    t.ok(fetcher.root.equals(Buffer.alloc(32, 100)), 'fetches the pivot state')
+
+    await (sync as any).updatePivot(BlockHeader.fromHeaderData({ number: 120 }), BigInt(120))
+    t.ok(fetcher.root.equals(Buffer.alloc(32, 100)), 'keeps pivot close to the head')
+    await (sync as any).updatePivot(
+      BlockHeader.fromHeaderData({ number: 164, stateRoot: Buffer.alloc(32, 164) }),
+      BigInt(164)
+    )
+    t.ok(fetcher.root.equals(Buffer.alloc(32, 164)), 'moved the pivot')
+
+    await (sync as any).nextPhase()
+    t.ok(await sync.syncWithPeer(peerWithHead(164)), 'set up next phase')
+    clearInterval((sync as any).pivotCheck)
+    t.ok(sync.fetcher instanceof StorageFetcher, 'created storage fetcher')
+    t.end()
+  })
+
+  t.test('should move the pivot along the head announced by the peer', async (t) => {
+    const config = new Config({ transports: [] })
+    const chain = new Chain({ config })
+    const sync = new SnapSynchronizer({ config, pool: new PeerPool() as any, chain })
+    const [head, newHead] = [100, 164].map((number) =>
+      BlockHeader.fromHeaderData(
+        { number, stateRoot: Buffer.alloc(32, number) },
+        { hardforkByBlockNumber: true }
+      )
+    )
+    const getBlockHeaders = async ({ block }: any) => [
+      BigInt(1),
+      [head, newHead].filter((header) => header.hash().equals(block)),
+    ]
+    const status = { bestHash: head.hash(), td: BigInt(100) }
+    const peer = { snap: {}, eth: { status, getBlockHeaders } } as any
+    t.ok(await sync.syncWithPeer(peer), 'set up sync')
+    clearInterval((sync as any).pivotCheck)
+    const fetcher = sync.fetcher as InstanceType<typeof AccountFetcher>
+
+    await (sync as any).checkPivot(peer)
+    t.equal((sync as any).status.pivot.number, BigInt(100), 'kept pivot without a new head')
+    // New head announced with a NewBlock message
+    peer.eth.status = { bestHash: newHead.hash(), td: BigInt(164) }
+    await (sync as any).checkPivot(peer)
+    t.equal((sync as any).status.pivot.number, BigInt(164), 'moved the pivot to the new head')
+    t.equal((sync as any).status.td, BigInt(164), 'took over the total difficulty of the head')
+    t.ok(fetcher.root.equals(newHead.stateRoot), 'fetches the state of the new pivot')
+    t.end()
+  })
+
+  t.test('should persist and resume the sync progress', async (t) => {
+    const config = new Config({ transports: [] })
+    const chain = new Chain({ config })
+    const metaDB: any = new MemoryLevel()
+    const sync = new SnapSynchronizer({ config, pool: new PeerPool() as any, chain, metaDB })
+    await sync.open()
+    await sync.syncWithPeer(peerWithHead(100))
+    clearInterval((sync as any).pivotCheck)
+
+    const accountHash = setLengthLeft(bigIntToBuffer(BigInt(0x1234)), 32)
+    const body = Account.fromAccountData({ balance: 1 }).raw() as AccountBodyBuffer
+    await (sync.fetcher as any).store([{ hash: accountHash, body }])
+    // Wait for the progress to be written
+    await new Promise((resolve) => setTimeout(resolve, 10))
+    await sync.close()
+
+    const resumed = new SnapSynchronizer({ config, pool: new PeerPool() as any, chain, metaDB })
+    await resumed.open()
+    await resumed.syncWithPeer(peerWithHead(110))
+    clearInterval((resumed as any).pivotCheck)
+    const status = (resumed as any).status
+    t.equal(status.phase, SnapSyncPhase.Accounts, 'resumed account phase')
+    t.equal(status.pivot.number, BigInt(100), 'resumed pivot')
+    t.equal(status.td, BigInt(100), 'resumed pivot total difficulty')
+    t.equal(
+      (resumed.fetcher as InstanceType<typeof AccountFetcher>).origin,
+      BigInt(0x1234) + BigInt(1),
+      'resumed after the last fetched account'
+    )
+
+    status.phase = SnapSyncPhase.Storage
+    await (resumed as any).writeSyncStatus()
+    await resumed.close()
+    const restarted = new SnapSynchronizer({ config, pool: new PeerPool() as any, chain, metaDB })
+    await restarted.open()
+    t.equal(
+      (restarted as any).status.phase,
+      SnapSyncPhase.Healing,
+      'storage phase resumed by healing'
+    )
+    t.ok((restarted as any).healingWalkAll, 'heals walking the whole local trie once')
+    await restarted.close()
+    config.events.removeAllListeners(Event.SYNC_FETCHED_ACCOUNTS)
+    t.end()
+  })
+
+  t.test('should hand the pivot over to the execution once done', async (t) => {
+    const config = new Config({ transports: [] })
+    const chain = new Chain({ config })
+    await chain.open()
+    const stateDB: any = new MemoryLevel()
+    const execution = new VMExecution({ config, chain, stateDB })
+    const sync = new SnapSynchronizer({
+      config,
+      pool: new PeerPool() as any,
+      chain,
+      stateDB,
+      execution,
+    })
+
+    // State of the pivot written by the fetchers
+    const trie = new Trie({ db: new LevelDB(stateDB), useKeyHashing: true })
+    await trie.put(Buffer.from('aa', 'hex'), Buffer.from('01', 'hex'))
+    const pivot = BlockHeader.fromHeaderData(
+      { number: 100, stateRoot: trie.root(), difficulty: 10 },
+      { common: config.chainCommon }
+    )
+    ;(sync as any).status = {
+      phase: SnapSyncPhase.ByteCodes,
+      pivot,
+      td: BigInt(1000),
+      accountRoot: KECCAK256_RLP,
+      origin: BigInt(0),
+    }
+    config.snapSyncing = true
+    await (sync as any).nextPhase()
+
+    t.equal((sync as any).status.phase, SnapSyncPhase.Done, 'completed the sync')
+    t.notOk(config.snapSyncing, 'not snap syncing anymore')
+    t.ok(
+      (await execution.vm.stateManager.getStateRoot()).equals(pivot.stateRoot),
+      'set the state root of the pivot'
+    )
+    const head = await chain.blockchain.getIteratorHead()
+    t.ok(head.hash().equals(pivot.hash()), 'set the pivot as head of the execution')
+    t.equal(
+      await chain.getTd(pivot.hash(), pivot.number),
+      BigInt(1000),
+      'stored the total difficulty of the pivot'
+    )
+    await sync.close()
+    await chain.close()
+    t.end()
+  })
 })
@@ -1,18 +1,29 @@
 import { Block } from '@ethereumjs/block'
 import { Chain, Common, Hardfork } from '@ethereumjs/common'
 import { DefaultStateManager } from '@ethereumjs/statemanager'
-import { AccessListEIP2930Transaction, FeeMarketEIP1559Transaction } from '@ethereumjs/tx'
+import {
+  AccessListEIP2930Transaction,
+  FeeMarketEIP1559Transaction,
+  Transaction,
+} from '@ethereumjs/tx'
 import { Account, privateToAddress } from '@ethereumjs/util'
+import { existsSync, mkdirSync, mkdtempSync, readFileSync } from 'fs'
+import { tmpdir } from 'os'
+import * as path from 'path'
 import * as tape from 'tape'
 
 import { Config } from '../../lib/config'
 import { PeerPool } from '../../lib/net/peerpool'
 import { TxPool } from '../../lib/service/txpool'
 
+import type { ConfigOptions } from '../../lib/config'
 import type { StateManager } from '@ethereumjs/statemanager'
+import type { Address } from '@ethereumjs/util'
 
-const setup = () => {
-  const config = new Config({ transports: [] })
+const setup = (options: ConfigOptions = {}) => {
+  const config = new Config({ transports: [], ...options })
+  // Account nonces of the head state
+  const accountNonces = new Map<string, bigint>()
   const service: any = {
     chain: {
       headers: { height: BigInt(0) },
@@ -21,7 +32,11 @@ const setup = () => {
     execution: {
       vm: {
         stateManager: {
-          getAccount: () => new Account(BigInt(0), BigInt('50000000000000000000')),
+          getAccount: (address: Address) =>
+            new Account(
+              accountNonces.get(address.toString()) ?? BigInt(0),
+              BigInt('50000000000000000000')
+            ),
           setStateRoot: async (_root: Buffer) => {},
         },
         copy: () => service.execution.vm,
@@ -29,7 +44,7 @@ const setup = () => {
     },
   }
   const pool = new TxPool({ config, service })
-  return { pool }
+  return { pool, accountNonces }
 }
 
 const common = new Common({ chain: Chain.Mainnet, hardfork: Hardfork.London })
@@ -247,6 +262,64 @@ tape('[TxPool]', async (t) => {
     pool.close()
   })
 
+  t.test('announcedTxHashes() -> eth/68 announcements with tx types and sizes', async (t) => {
+    const { pool } = setup()
+    ;(pool as any).config.chainCommon.setHardfork(Hardfork.London)
+
+    pool.open()
+    pool.start()
+    const txA01Size = txA01.serialize().length
+    let requested: Buffer[] = []
+    const peer: any = {
+      id: '1',
+      eth: {
+        getPooledTransactions: (res: any) => {
+          requested = res['hashes']
+          return [null, [txA01, txB01]]
+        },
+      },
+    }
+    let sent: any
+    const peer2: any = {
+      id: '2',
+      eth: {
+        version: 68,
+        send: (_name: string, announcement: any) => {
+          sent = announcement
+        },
+      },
+    }
+    const peerPool = new PeerPool({ config })
+    peerPool.add(peer)
+    peerPool.add(peer2)
+
+    const unknownType = Buffer.alloc(32, 1)
+    const tooLarge = Buffer.alloc(32, 2)
+    await pool.handleAnnouncedTxHashes(
+      [
+        [2, 5, 2, 2],
+        [txA01Size, 100, 1024 * 1024, txB01.serialize().length + 1],
+        [txA01.hash(), unknownType, tooLarge, txB01.hash()],
+      ],
+      peer,
+      peerPool
+    )
+    t.deepEqual(
+      requested,
+      [txA01.hash(), txB01.hash()],
+      'should not request txs with unsupported type or size'
+    )
+    t.equal(pool.pool.size, 1, 'should drop tx not matching the announced size')
+    t.deepEqual(
+      sent,
+      [[2], [txA01Size], [txA01.hash()]],
+      'should announce tx types and sizes to eth/68 peers'
+    )
+
+    pool.stop()
+    pool.close()
+  })
+
   t.test('announcedTxHashes() -> add two txs (different sender)', async (t) => {
     const { pool } = setup()
 
@@ -624,7 +697,7 @@ tape('[TxPool]', async (t) => {
   })
 
   t.test('newBlocks() -> should remove included txs', async (t) => {
-    const { pool } = setup()
+    const { pool, accountNonces } = setup()
 
     pool.open()
     pool.start()
@@ -642,12 +715,13 @@ tape('[TxPool]', async (t) => {
 
     // Craft block with tx not in pool
     let block = Block.fromBlockData({ transactions: [txA02] }, { common })
-    pool.removeNewBlockTxs([block])
+    await pool.removeNewBlockTxs([block])
     t.equal(pool.pool.size, 1, 'pool size 1')
 
     // Craft block with tx in pool
     block = Block.fromBlockData({ transactions: [txA01] }, { common })
-    pool.removeNewBlockTxs([block])
+    accountNonces.set(`0x${A.address.toString('hex')}`, BigInt(1))
+    await pool.removeNewBlockTxs([block])
     t.equal(pool.pool.size, 0, 'pool should be empty')
 
     peer = {
@@ -665,20 +739,22 @@ tape('[TxPool]', async (t) => {
 
     // Craft block with tx not in pool
     block = Block.fromBlockData({ transactions: [txA02] }, { common })
-    pool.removeNewBlockTxs([block])
+    await pool.removeNewBlockTxs([block])
     t.equal(pool.pool.size, 1, 'pool size 1')
     poolContent = pool.pool.get(address)!
     t.equal(poolContent.length, 2, 'two txs')
 
     // Craft block with tx in pool
     block = Block.fromBlockData({ transactions: [txB01] }, { common })
-    pool.removeNewBlockTxs([block])
+    accountNonces.set(`0x${address}`, BigInt(1))
+    await pool.removeNewBlockTxs([block])
     poolContent = pool.pool.get(address)!
     t.equal(poolContent.length, 1, 'only one tx')
 
     // Craft block with tx in pool
     block = Block.fromBlockData({ transactions: [txB02] }, { common })
-    pool.removeNewBlockTxs([block])
+    accountNonces.set(`0x${address}`, BigInt(2))
+    await pool.removeNewBlockTxs([block])
     t.equal(pool.pool.size, 0, 'pool size 0')
 
     pool.stop()
@@ -759,5 +835,256 @@ tape('[TxPool]', async (t) => {
     pool.stop()
     pool.close()
   })
+
+  t.test('should sort txs into pending and queued', async (t) => {
+    const { pool, accountNonces } = setup()
+    pool.open()
+    pool.start()
+    const address = A.address.toString('hex')
+    const nonces = (map: Map<string, any[]>) => map.get(address)?.map((obj) => Number(obj.tx.nonce))
+    const txs = [0, 1, 2, 3].map((nonce) => createTx(A, B, nonce))
+
+    await pool.add(txs[0])
+    await pool.add(txs[2])
+    t.deepEqual(nonces(pool.pool), [0], 'executable tx is pending')
+    t.deepEqual(nonces(pool.queued), [2], 'nonce gapped tx is queued')
+    t.deepEqual(pool.status(), { pending: 1, queued: 1 }, 'status counts txs')
+
+    await pool.add(txs[1])
+    t.deepEqual(nonces(pool.pool), [0, 1, 2], 'closing the gap promoted the queued tx')
+    t.equal(pool.queued.size, 0, 'no queued txs left')
+
+    await pool.add(txs[3])
+    accountNonces.set(`0x${address}`, BigInt(1))
+    await pool.removeNewBlockTxs([{ transactions: [txs[0]] } as any])
+    t.deepEqual(nonces(pool.pool), [1, 2, 3], 'removed the included tx')
+
+    pool.removeByHash(txs[2].hash().toString('hex'))
+    t.deepEqual(nonces(pool.pool), [1], 'txs after a removed tx are not executable')
+    t.deepEqual(nonces(pool.queued), [3], 'txs after a removed tx are queued')
+    t.equal(pool.txsInPool, 2, 'counted the remaining txs')
+
+    accountNonces.set(`0x${address}`, BigInt(3))
+    await pool.removeNewBlockTxs([{ transactions: [txs[1], txs[2]] } as any])
+    t.deepEqual(nonces(pool.pool), [3], 'promoted queued tx after gap included')
+    t.equal(pool.queued.size, 0, 'no queued txs left')
+
+    // The gap is closed by a tx not from the pool
+    const later = [5, 6].map((nonce) => createTx(A, B, nonce))
+    await pool.add(later[0])
+    await pool.add(later[1])
+    t.deepEqual(nonces(pool.queued), [5, 6], 'nonce gapped txs are queued')
+    const vm: any = {
+      eei: { getAccount: async () => new Account(BigInt(5), BigInt('50000000000000000000')) },
+    }
+    t.deepEqual(
+      (await pool.txsByPriceAndNonce(vm)).map((tx) => Number(tx.nonce)),
+      [5, 6],
+      'queued txs executable at the state built on are included'
+    )
+    accountNonces.set(`0x${address}`, BigInt(5))
+    await pool.removeNewBlockTxs([{ transactions: [] } as any])
+    t.deepEqual(nonces(pool.pool), [5, 6], 'promoted queued txs against the head state')
+    t.equal(pool.queued.size, 0, 'no queued txs left')
+    pool.stop()
+    pool.close()
+  })
+
+  t.test('should journal local txs', async (t) => {
+    const datadir = mkdtempSync(path.join(tmpdir(), 'txpool-'))
+    const options = { datadir, txJournal: true, common: common.copy() }
+    const { pool } = setup(options)
+    const journal = path.join((pool as any).config.getNetworkDirectory(), 'transactions.rlp')
+    mkdirSync(path.dirname(journal), { recursive: true })
+    ;(pool as any).service.chain.headers.height = BigInt(12965000)
+    pool.open()
+
+    const legacyTx = Transaction.fromTxData(
+      { nonce: 1, gasPrice: 1000000000, gasLimit: 100000, to: B.address, value: 1 },
+      { common }
+    ).sign(A.privateKey)
+    await pool.add(txA01, true)
+    await pool.add(legacyTx, true)
+    await pool.add(txB01)
+    t.ok(existsSync(journal), 'created the journal')
+
+    const { pool: restarted } = setup(options)
+    ;(restarted as any).service.chain.headers.height = BigInt(12965000)
+    restarted.open()
+    await restarted.loadJournal()
+    const txs = restarted.pool.get(A.address.toString('hex'))!.map((obj) => obj.tx.hash())
+    t.deepEqual(txs, [txA01.hash(), legacyTx.hash()], 're-added the local txs')
+    t.equal(restarted.pool.size, 1, 'did not journal remote txs')
+
+    restarted.removeByHash(txA01.hash().toString('hex'))
+    restarted.removeByHash(legacyTx.hash().toString('hex'))
+    restarted.cleanup()
+    t.equal(readFileSync(journal).length, 0, 'rotated the journal to the pooled txs')
+    restarted.close()
+  })
+
+  const account = (index: number) => {
+    const privateKey = Buffer.from(index.toString(16).padStart(64, 'c'), 'hex')
+    return { address: privateToAddress(privateKey), privateKey }
+  }
+
+  t.test('should evict the lowest priced remote txs if the pool is full', async (t) => {
+    const { pool } = setup({ txPoolSlots: 3, txPoolLocalSlots: 1, prometheus: true })
+    const [C, D, E, F] = [1, 2, 3, 4].map(account)
+    const hashes = (address: Buffer) =>
+      (pool as any).senderTxs(address.toString('hex')).map((obj: any) => obj.tx.hash())
+    pool.open()
+    pool.start()
+
+    const txA02_Bumped = createTx(A, B, 1, 1, 50)
+    await pool.add(txA01)
+    await pool.add(txA02_Bumped)
+    await pool.add(txB01)
+    const txC01 = createTx(C, A, 0, 1, 20)
+    await pool.add(txC01)
+    t.deepEqual(hashes(B.address), [], 'evicted the lowest priced tx')
+    t.deepEqual(
+      hashes(A.address),
+      [txA01.hash(), txA02_Bumped.hash()],
+      'did not evict a lower priced tx preceding a higher priced one of the same sender'
+    )
+    t.equal(pool.txsInPool, 3, 'kept the number of txs')
+    t.equal(
+      (pool as any).config.metrics.txpoolEvictions.get({ reason: 'underpriced' }),
+      1,
+      'counted the eviction'
+    )
+
+    for (const [tx, msg] of [
+      [createTx(D, A, 0, 1, 10), 'rejected tx paying less than the pooled txs'],
+      [createTx(D, A, 0, 1, 20), 'rejected tx paying the same as the lowest priced tx'],
+    ] as const) {
+      try {
+        await pool.add(tx)
+        t.fail(msg)
+      } catch (e: any) {
+        t.ok(e.message.includes('pool is full'), msg)
+      }
+    }
+
+    await pool.add(createTx(E, A), true)
+    t.equal(pool.txsInPool, 4, 'added local tx to the separate local slots')
+    try {
+      await pool.add(createTx(F, A), true)
+      t.fail('should reject local tx')
+    } catch (e: any) {
+      t.ok(e.message.includes('local slots of the pool are full'), 'rejected if local slots full')
+    }
+    await pool.add(createTx(D, A, 0, 1, 100))
+    t.equal(hashes(E.address).length, 1, 'did not evict the lower priced local tx')
+    t.deepEqual(hashes(C.address), [], 'evicted the lowest priced remote tx')
+    pool.stop()
+    pool.close()
+  })
+
+  t.test('should handle replacements at the pool limits', async (t) => {
+    const { pool } = setup({ txPoolSlots: 2, txPoolAccountSlots: 2, txPoolPriceBump: 20 })
+    pool.open()
+    pool.start()
+    await pool.add(txA01)
+    await pool.add(createTx(A, B, 1))
+    try {
+      await pool.add(createTx(A, B, 2))
+      t.fail('should reject tx exceeding the account slots')
+    } catch (e: any) {
+      t.ok(e.message.includes('already have max amount of txs'), 'rejected if account slots full')
+    }
+    try {
+      await pool.add(txA02)
+      t.fail('should reject replacement with 10% bump')
+    } catch (e: any) {
+      t.ok(e.message.includes('replacement gas too low'), 'applied the configured price bump')
+    }
+    const replacement = createTx(A, B, 0, 2, 20)
+    await pool.add(replacement)
+    t.deepEqual(
+      pool.pool.get(A.address.toString('hex'))!.map((obj) => obj.tx.hash()),
+      [replacement.hash(), createTx(A, B, 1).hash()],
+      'replaced tx although pool and account slots are full'
+    )
+    t.equal(pool.txsInPool, 2, 'replacement did not take up a slot')
+    pool.stop()
+    pool.close()
+  })
+
+  t.test('should apply the configured price and size limits', async (t) => {
+    const { pool } = setup({
+      txPoolMinGasPrice: BigInt(1500000000),
+      txPoolMaxDataSize: 16,
+    })
+    pool.open()
+    pool.start()
+    try {
+      await pool.add(txA01)
+      t.fail('should reject underpriced tx')
+    } catch (e: any) {
+      t.ok(e.message.includes('minimum gas price of 1500000000'), 'rejected underpriced tx')
+    }
+    await pool.add(txA01, true)
+    t.equal(pool.txsInPool, 1, 'local txs are not checked against the minimum gas price')
+    const bigTx = FeeMarketEIP1559Transaction.fromTxData(
+      {
+        maxFeePerGas: 2000000000,
+        maxPriorityFeePerGas: 2000000000,
+        gasLimit: 100000,
+        data: Buffer.alloc(17),
+      },
+      { common }
+    ).sign(B.privateKey)
+    try {
+      await pool.add(bigTx)
+      t.fail('should reject tx exceeding the max data size')
+    } catch (e: any) {
+      t.ok(e.message.includes('max data size of 16 bytes'), 'rejected tx exceeding max data size')
+    }
+    pool.stop()
+    pool.close()
+  })
+
+  t.test('should drop queued txs after the queue lifetime', async (t) => {
+    const { pool } = setup({ txPoolQueueLifetime: 60 })
+    pool.open()
+    pool.start()
+    await pool.add(txA01)
+    await pool.add(createTx(A, B, 2))
+    for (const objects of [...pool.pool.values(), ...pool.queued.values()]) {
+      for (const obj of objects) obj.added = Date.now() - 61 * 1000
+    }
+    pool.cleanup()
+    t.equal(pool.pool.get(A.address.toString('hex'))!.length, 1, 'kept the pending tx')
+    t.equal(pool.queued.size, 0, 'dropped the queued tx')
+    t.equal(pool.txsInPool, 1, 'counted the remaining txs')
+    pool.stop()
+    pool.close()
+  })
+
+  t.test('should record metrics', async (t) => {
+    const { pool } = setup({ prometheus: true })
+    const metrics = (pool as any).config.metrics
+    pool.open()
+    pool.start()
+    await pool.add(txA01)
+    await pool.add(txA02)
+    await pool.add(txB01)
+    await pool.add(createTx(B, A, 2))
+    metrics.render()
+    t.equal(metrics.txpoolTransactions.get({ state: 'pending' }), 2, 'counted pending txs')
+    t.equal(metrics.txpoolTransactions.get({ state: 'queued' }), 1, 'counted nonce gapped txs')
+    t.equal(metrics.txpoolEvictions.get({ reason: 'replaced' }), 1, 'counted replaced tx')
+
+    for (const objects of [...pool.pool.values(), ...pool.queued.values()]) {
+      for (const obj of objects)
+        obj.added = Date.now() - pool.POOLED_STORAGE_TIME_LIMIT * 1000 * 60 - 1
+    }
+    pool.cleanup()
+    t.equal(metrics.txpoolEvictions.get({ reason: 'expired' }), 3, 'counted expired txs')
+    pool.stop()
+    pool.close()
+  })
   DefaultStateManager.prototype.setStateRoot = ogStateManagerSetStateRoot
 })
@@ -0,0 +1,68 @@
+import { privateToAddress } from '@ethereumjs/util'
+import * as tape from 'tape'
+
+import { decryptKey, encryptKey } from '../../lib/util/keystore'
+
+tape('[Util/Keystore]', (t) => {
+  t.test(
+    'should decrypt the pbkdf2 test vector of the Web3 Secret Storage definition',
+    async (st) => {
+      const key: any = {
+        crypto: {
+          cipher: 'aes-128-ctr',
+          cipherparams: { iv: '6087dab2f9fdbbfaddc31a909735c1e6' },
+          ciphertext: '5318b4d5bcd28de64ee5559e671353e16f075ecae9f99c7a79a38af5f869aa46',
+          kdf: 'pbkdf2',
+          kdfparams: {
+            c: 262144,
+            dklen: 32,
+            prf: 'hmac-sha256',
+            salt: 'ae3cd4e7013836a3df6bd7241b12db061dbe2c6785853cce422d148a624ce0bd',
+          },
+          mac: '517ead924a9d0dc3124507e3393d175ce3ff7c1e96529c6c555ce9e51205e9b2',
+        },
+        id: '3198bc9c-6672-5ab3-d995-4942343ae5b6',
+        version: 3,
+      }
+      const privateKey = await decryptKey(key, 'testpassword')
+      st.equal(
+        privateKey.toString('hex'),
+        '7a28b5ba57c53603b0b07b56bba752f7784bf506fa95edc395f5cf6c7514fe9d',
+        'decrypted the private key'
+      )
+      st.end()
+    }
+  )
+
+  t.test('should encrypt and decrypt keys with scrypt', async (st) => {
+    const privateKey = Buffer.from('42'.repeat(32), 'hex')
+    const key = await encryptKey(privateKey, 'password', 1024)
+    st.equal(key.version, 3, 'v3 format')
+    st.equal(key.crypto.kdf, 'scrypt', 'used scrypt')
+    st.equal(key.address, privateToAddress(privateKey).toString('hex'), 'stored the address')
+    st.ok(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/.test(key.id),
+      'uuid'
+    )
+    st.deepEqual(await decryptKey(key, 'password'), privateKey, 'decrypted the private key')
+    try {
+      await decryptKey(key, 'wrong')
+      st.fail('should throw')
+    } catch (e: any) {
+      st.ok(e.message.includes('could not decrypt key with given password'), 'wrong password')
+    }
+    st.end()
+  })
+
+  t.test('should reject keys not matching the keystore address', async (st) => {
+    const key = await encryptKey(Buffer.from('42'.repeat(32), 'hex'), 'password', 1024)
+    key.address = privateToAddress(Buffer.from('43'.repeat(32), 'hex')).toString('hex')
+    try {
+      await decryptKey(key, 'password')
+      st.fail('should throw')
+    } catch (e: any) {
+      st.ok(e.message.includes('does not match the keystore address'), 'mismatched address')
+    }
+    st.end()
+  })
+})
@@ -0,0 +1,106 @@
+import * as tape from 'tape'
+
+import { EthereumClient } from '../../lib/client'
+import { Config } from '../../lib/config'
+import { RPCManager } from '../../lib/rpc'
+import { METHOD_NOT_FOUND } from '../../lib/rpc/error-code'
+import { Event } from '../../lib/types'
+import { METRICS_CONTENT_TYPE, MetricsRegistry, createMetricsServer } from '../../lib/util/metrics'
+import { MethodConfig, createRPCServer } from '../../lib/util/rpc'
+
+const request = require('supertest')
+
+tape('[Util/Metrics]', (t) => {
+  t.test('should render metrics in the text exposition format', (st) => {
+    const registry = new MetricsRegistry()
+    const gauge = registry.gauge('test_gauge', 'A gauge')
+    const counter = registry.counter('test_total', 'A counter')
+    const histogram = registry.histogram('test_seconds', 'A histogram', [0.1, 1])
+    gauge.set(5, { block: 'latest' })
+    gauge.inc(2, { block: 'latest' })
+    gauge.set(1, { block: 'say "hi"' })
+    counter.inc()
+    histogram.observe(0.05, { method: 'eth_call' })
+    histogram.observe(0.5, { method: 'eth_call' })
+    histogram.observe(2, { method: 'eth_call' })
+
+    const expected = [
+      '# HELP test_gauge A gauge',
+      '# TYPE test_gauge gauge',
+      'test_gauge{block="latest"} 7',
+      'test_gauge{block="say \\"hi\\""} 1',
+      '# HELP test_total A counter',
+      '# TYPE test_total counter',
+      'test_total 1',
+      '# HELP test_seconds A histogram',
+      '# TYPE test_seconds histogram',
+      'test_seconds_bucket{method="eth_call",le="0.1"} 1',
+      'test_seconds_bucket{method="eth_call",le="1"} 2',
+      'test_seconds_bucket{method="eth_call",le="+Inf"} 3',
+      'test_seconds_sum{method="eth_call"} 2.55',
+      'test_seconds_count{method="eth_call"} 3',
+      '',
+    ].join('\n')
+    st.equal(registry.render(), expected, 'rendered all metrics')
+
+    st.throws(() => counter.inc(-1), /can only be increased/, 'counter cannot be decreased')
+    st.throws(
+      () => registry.gauge('test_gauge', 'Again'),
+      /already registered/,
+      'throws on duplicate names'
+    )
+    histogram.remove({ method: 'eth_call' })
+    st.equal(histogram.get({ method: 'eth_call' }), undefined, 'removed the label values')
+
+    gauge.collect = () => gauge.set(42, { block: 'latest' })
+    st.ok(registry.render().includes('test_gauge{block="latest"} 42'), 'collected on render')
+    st.end()
+  })
+
+  t.test('should serve metrics over http', async (st) => {
+    const registry = new MetricsRegistry()
+    registry.gauge('test_gauge', 'A gauge').set(1)
+    const server = createMetricsServer(registry)
+    await request(server)
+      .get('/metrics')
+      .expect('Content-Type', METRICS_CONTENT_TYPE)
+      .expect(200)
+      .then((res: any) => st.ok(res.text.includes('test_gauge 1'), 'served the metrics'))
+    await request(server).get('/').expect(404)
+    st.pass('does not serve other paths')
+    st.end()
+  })
+
+  t.test('should record client metrics', (st) => {
+    st.equal(new Config({ transports: [] }).metrics, undefined, 'disabled by default')
+
+    const config = new Config({ transports: [], prometheus: true })
+    const metrics = config.metrics!
+    const peer: any = { id: 'peer' }
+    config.events.emit(Event.POOL_PEER_ADDED, peer)
+    config.events.emit(Event.POOL_PEER_ADDED, { id: 'other' } as any)
+    metrics.peerResponseTime.observe(0.1, { peer: peer.id })
+    config.events.emit(Event.POOL_PEER_REMOVED, peer)
+    config.events.emit(Event.POOL_PEER_BANNED, peer)
+    st.equal(metrics.peers.get(), 1, 'counted the peers in the pool')
+    st.equal(metrics.peerBans.get(), 1, 'counted the bans')
+    st.equal(metrics.peerResponseTime.get({ peer: peer.id }), undefined, 'removed peer metrics')
+
+    const client = new EthereumClient({ config })
+    const manager = new RPCManager(client, config)
+    const { server } = createRPCServer(manager, {
+      methodConfig: MethodConfig.WithoutEngine,
+      rpcDebug: false,
+      metrics,
+    })
+    const req = { id: 1, method: 'eth_chainId', params: [] }
+    server.emit('request', req)
+    server.emit('response', req, { id: 1, result: '0x1' })
+    const unknown = { id: 2, method: 'eth_unknown', params: [] }
+    server.emit('request', unknown)
+    server.emit('response', unknown, { id: 2, error: { code: METHOD_NOT_FOUND } })
+    st.equal(metrics.rpcRequestTime.get({ method: 'eth_chainId' })?.count, 1, 'recorded rpc')
+    st.equal(metrics.rpcRequestTime.get({ method: 'eth_unknown' }), undefined, 'skipped unknown')
+    st.end()
+  })
+})
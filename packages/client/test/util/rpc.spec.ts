@@ -1,17 +1,28 @@
+import { encode } from 'jwt-simple'
 import * as tape from 'tape'
 
 import { EthereumClient } from '../../lib/client'
 import { Config } from '../../lib/config'
 import { RPCManager } from '../../lib/rpc'
-import { METHOD_NOT_FOUND } from '../../lib/rpc/error-code'
+import {
+  INTERNAL_ERROR,
+  INVALID_REQUEST,
+  LIMIT_EXCEEDED,
+  METHOD_NOT_FOUND,
+} from '../../lib/rpc/error-code'
 import {
   MethodConfig,
   createRPCServer,
   createRPCServerListener,
   createWsRPCServerListener,
+  filterRPCServer,
+  redactParams,
 } from '../../lib/util/rpc'
 
+import type { RPCManager as Manager } from '../../lib/rpc'
+
 const request = require('supertest')
+const wsRequest = require('superwstest')
 
 tape('[Util/RPC]', (t) => {
   t.test('should return enabled RPC servers', (st) => {
@@ -50,6 +61,21 @@ tape('[Util/RPC]', (t) => {
     }
     st.end()
   })
+
+  t.test('should redact passwords from logged params', (st) => {
+    st.deepEqual(
+      redactParams('personal_unlockAccount', ['0x01', 'secret', 300]),
+      ['0x01', '<redacted>', 300],
+      'should redact the password of personal_unlockAccount'
+    )
+    st.deepEqual(
+      redactParams('personal_newAccount', ['secret']),
+      ['<redacted>'],
+      'should redact the password of personal_newAccount'
+    )
+    st.deepEqual(redactParams('eth_call', ['secret']), ['secret'], 'should keep other params')
+    st.end()
+  })
 })
 
 tape('[Util/RPC/Engine eth methods]', async (t) => {
@@ -95,3 +121,157 @@ tape('[Util/RPC/Engine eth methods]', async (t) => {
     })
   }
 })
+
+tape('[Util/RPC/Limits]', (t) => {
+  const manager = {
+    getMethods: () => ({
+      test_echo: async (params: any) => params[0],
+      test_slow: () => new Promise((resolve) => setTimeout(() => resolve('0x1'), 200)),
+      debug_echo: async (params: any) => params[0],
+    }),
+  } as unknown as Manager
+  const echo = (id: number) => ({ jsonrpc: '2.0', method: 'test_echo', params: [id], id })
+  const post = (httpServer: any, body: any) =>
+    request(httpServer).post('/').set('Content-Type', 'application/json').send(body)
+
+  t.test('should limit the batch size', async (st) => {
+    const { server } = createRPCServer(manager, {
+      methodConfig: MethodConfig.WithoutEngine,
+      rpcDebug: false,
+    })
+    const httpServer = createRPCServerListener({ server, limits: { batchLimit: 2 } })
+    let res = await post(httpServer, [echo(1), echo(2)])
+    st.deepEqual(
+      res.body.map((r: any) => r.result),
+      [1, 2],
+      'should respond to batch within limit'
+    )
+    res = await post(httpServer, [echo(1), echo(2), echo(3)])
+    st.equal(res.body.error.code, INVALID_REQUEST, 'should reject batch exceeding limit')
+    st.end()
+  })
+
+  t.test('should limit the body size', async (st) => {
+    const { server } = createRPCServer(manager, {
+      methodConfig: MethodConfig.WithoutEngine,
+      rpcDebug: false,
+    })
+    const httpServer = createRPCServerListener({ server, limits: { maxBodySize: 100 } })
+    let res = await post(httpServer, echo(1))
+    st.equal(res.body.result, 1, 'should respond to request within limit')
+    res = await post(httpServer, { ...echo(1), params: ['0x' + '00'.repeat(100)] })
+    st.equal(res.status, 413, 'should reject request exceeding limit')
+    st.end()
+  })
+
+  t.test('should limit the requests per client', async (st) => {
+    const { server } = createRPCServer(manager, {
+      methodConfig: MethodConfig.WithoutEngine,
+      rpcDebug: false,
+    })
+    const httpServer = createRPCServerListener({ server, limits: { rateLimit: 3 } })
+    let res = await post(httpServer, [echo(1), echo(2)])
+    st.equal(res.body.length, 2, 'should respond to requests within limit')
+    res = await post(httpServer, echo(3))
+    st.equal(res.body.result, 3, 'should respond to requests within limit')
+    res = await post(httpServer, echo(4))
+    st.equal(res.body.error.code, LIMIT_EXCEEDED, 'should reject request exceeding limit')
+    st.equal(res.body.id, 4, 'should respond with request id')
+    st.end()
+  })
+
+  t.test('should not rate limit requests authenticated with the JWT secret', async (st) => {
+    const { server } = createRPCServer(manager, {
+      methodConfig: MethodConfig.WithoutEngine,
+      rpcDebug: false,
+    })
+    const jwtSecret = Buffer.alloc(32)
+    const httpServer = createRPCServerListener({
+      server,
+      limits: { rateLimit: 1 },
+      withEngineMiddleware: { jwtSecret, unlessFn: (req: any) => req.body.id > 2 },
+    })
+    const authPost = (body: any) => {
+      const token = encode({ iat: Math.floor(Date.now() / 1000) }, jwtSecret as never as string)
+      return post(httpServer, body).set('Authorization', `Bearer ${token}`)
+    }
+    let res = await authPost(echo(1))
+    st.equal(res.body.result, 1, 'should respond to authenticated request')
+    res = await authPost(echo(2))
+    st.equal(res.body.result, 2, 'should not limit authenticated requests')
+    res = await post(httpServer, echo(3))
+    st.equal(res.body.result, 3, 'should respond to unauthenticated request within limit')
+    res = await post(httpServer, echo(4))
+    st.equal(res.body.error.code, LIMIT_EXCEEDED, 'should limit unauthenticated requests')
+    st.end()
+  })
+
+  t.test('should apply limits over WebSocket', async (st) => {
+    const { server } = createRPCServer(manager, {
+      methodConfig: MethodConfig.WithoutEngine,
+      rpcDebug: false,
+    })
+    const wsServer = createWsRPCServerListener({
+      server,
+      limits: { batchLimit: 2, rateLimit: 3 },
+    })!
+    await new Promise<void>((resolve) => wsServer.listen(3000, 'localhost', resolve))
+    try {
+      await wsRequest(wsServer)
+        .ws('/')
+        .sendJson([echo(1), echo(2), echo(3)])
+        .expectJson((res: any) => res.error.code === INVALID_REQUEST)
+        .sendJson([echo(1), echo(2)])
+        .expectJson((res: any) => res.length === 2)
+        .sendJson(echo(3))
+        .expectJson((res: any) => res.result === 3)
+        .sendJson(echo(4))
+        .expectJson((res: any) => res.error.code === LIMIT_EXCEEDED)
+        .close()
+        .expectClosed()
+      st.pass('should limit batch size and requests per client')
+    } finally {
+      wsServer.close()
+    }
+    st.end()
+  })
+
+  t.test('should time out calls', async (st) => {
+    const { server } = createRPCServer(manager, {
+      methodConfig: MethodConfig.WithoutEngine,
+      rpcDebug: false,
+      callTimeout: 50,
+    })
+    const httpServer = createRPCServerListener({ server })
+    let res = await post(httpServer, echo(1))
+    st.equal(res.body.result, 1, 'should respond to call within timeout')
+    res = await post(httpServer, { jsonrpc: '2.0', method: 'test_slow', params: [], id: 2 })
+    st.equal(res.body.error.code, INTERNAL_ERROR, 'should fail call exceeding timeout')
+    st.equal(res.body.error.message, 'test_slow timed out after 50ms', 'should name the method')
+    st.end()
+  })
+
+  t.test('should filter methods', async (st) => {
+    const rpcServer = createRPCServer(manager, {
+      methodConfig: MethodConfig.WithoutEngine,
+      rpcDebug: false,
+    })
+    let filtered = filterRPCServer(rpcServer, { allow: ['test'], deny: ['test_slow'] })
+    st.deepEqual(Object.keys(filtered.methods), ['test_echo'], 'should allow and deny methods')
+    st.equal(filtered.namespaces, 'test', 'should return namespaces of filtered methods')
+    filtered = filterRPCServer(rpcServer, { deny: ['debug'] })
+    st.deepEqual(
+      Object.keys(filtered.methods),
+      ['test_echo', 'test_slow'],
+      'should deny namespaces'
+    )
+    st.equal(Object.keys(rpcServer.methods).length, 3, 'should not change the original server')
+
+    const httpServer = createRPCServerListener({ server: filtered.server })
+    let res = await post(httpServer, { ...echo(1), method: 'debug_echo' })
+    st.equal(res.body.error.code, METHOD_NOT_FOUND, 'should not expose denied methods')
+    res = await post(httpServer, echo(1))
+    st.equal(res.body.result, 1, 'should expose allowed methods')
+    st.end()
+  })
+})
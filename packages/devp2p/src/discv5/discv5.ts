@@ -0,0 +1,420 @@
+import { randomBytes } from 'crypto'
+import { EventEmitter } from 'events'
+import ms = require('ms')
+
+import { BanList } from '../dpt/ban-list'
+import { buffer2int, devp2pDebug, id2pk, keccak256 } from '../util'
+
+import { NodeRecord } from './enr'
+import { Discv5Server } from './server'
+
+import type { PeerInfo } from '../dpt'
+import type { Discv5Contact } from './server'
+import type { Debugger } from 'debug'
+
+const DEBUG_BASE_NAME = 'discv5'
+
+// Max number of records kept per log distance
+const BUCKET_SIZE = 16
+
+export type TalkHandler = (request: Buffer, peer: PeerInfo) => Buffer | Promise<Buffer>
+
+export interface Discv5Options {
+  /**
+   * Timeout for peer requests
+   *
+   * Default: 10s
+   */
+  timeout?: number
+
+  /**
+   * Network info advertised in the local node record
+   *
+   * Default: no ip or ports set
+   */
+  endpoint?: PeerInfo
+
+  /**
+   * Function for socket creation
+   *
+   * Default: dgram-created socket
+   */
+  createSocket?: Function
+
+  /**
+   * Interval for peer table refresh
+   *
+   * Default: 60s
+   */
+  refreshInterval?: number
+
+  /**
+   * Toggles whether or not peers should be queried with `FINDNODE`
+   * to discover more peers
+   *
+   * Default: true
+   */
+  shouldFindNodes?: boolean
+}
+
+type Discv5Peer = {
+  record: NodeRecord
+  contact: Discv5Contact
+}
+
+/**
+ * Log2 distance of two node ids (number of the highest differing bit, 0 for equal ids)
+ */
+export function logDistance(a: Buffer, b: Buffer): number {
+  for (let i = 0; i < a.length; i++) {
+    const x = a[i] ^ b[i]
+    if (x !== 0) return (a.length - i) * 8 - (Math.clz32(x) - 24)
+  }
+  return 0
+}
+
+/**
+ * Node discovery v5 (https://github.com/ethereum/devp2p/blob/master/discv5/discv5.md)
+ */
+export class Discv5 extends EventEmitter {
+  privateKey: Buffer
+  record: NodeRecord
+  banlist: BanList
+  _debug: Debugger
+
+  private _server: Discv5Server
+  private _peers: Map<string, Discv5Peer>
+  private _talkHandlers: Map<string, TalkHandler>
+  private _refreshIntervalId: NodeJS.Timeout
+  private _addPeerTimeouts: Set<NodeJS.Timeout>
+  private _refreshIntervalSelectionCounter: number = 0
+  private _shouldFindNodes: boolean
+
+  constructor(privateKey: Buffer, options: Discv5Options = {}) {
+    super()
+
+    this.privateKey = Buffer.from(privateKey)
+    this.record = NodeRecord.create(this.privateKey, options.endpoint)
+    this.banlist = new BanList()
+    this._peers = new Map()
+    this._talkHandlers = new Map()
+    this._addPeerTimeouts = new Set()
+    this._shouldFindNodes = options.shouldFindNodes ?? true
+
+    this._server = new Discv5Server(this, this.privateKey, {
+      timeout: options.timeout,
+      createSocket: options.createSocket,
+    })
+    this._server.once('listening', () => this.emit('listening'))
+    this._server.once('close', () => this.emit('close'))
+    this._server.on('error', (err) => this.emit('error', err))
+    this._server.on('peers', (records: NodeRecord[]) => {
+      if (!this._shouldFindNodes) return
+      this._addPeerBatch(records)
+    })
+    this._debug = devp2pDebug.extend(DEBUG_BASE_NAME)
+
+    // By default calls refresh every 6s
+    const refreshIntervalSubdivided = Math.floor((options.refreshInterval ?? ms('60s')) / 10)
+    this._refreshIntervalId = setInterval(() => this.refresh(), refreshIntervalSubdivided)
+  }
+
+  /**
+   * Node id of the local node (keccak256 hash of the public key)
+   */
+  get nodeId(): Buffer {
+    return this.record.nodeId
+  }
+
+  bind(...args: any[]): void {
+    this._server.bind(...args)
+  }
+
+  destroy(...args: any[]): void {
+    clearInterval(this._refreshIntervalId)
+    for (const timeoutId of this._addPeerTimeouts) clearTimeout(timeoutId)
+    this._server.destroy(...args)
+  }
+
+  async bootstrap(peer: PeerInfo | NodeRecord): Promise<void> {
+    let added: Discv5Peer
+    try {
+      added = await this._addPeer(peer)
+    } catch (error: any) {
+      this.emit('error', error)
+      return
+    }
+    if (this._shouldFindNodes) {
+      this._findNodes(added.contact, this.nodeId)
+    }
+  }
+
+  /**
+   * Adds a peer to the table after a successful handshake and `PING`,
+   * the node record is requested if not known or outdated
+   * @param obj Peer with `id` (public key), `address` and `udpPort` or node record
+   * @returns Peer info of the added peer
+   */
+  async addPeer(obj: PeerInfo | NodeRecord): Promise<PeerInfo> {
+    const peer = await this._addPeer(obj)
+    return this._toPeerInfo(peer)
+  }
+
+  /**
+   * Pings a peer from the table and updates its record if a higher sequence
+   * number is announced, peers not responding are removed
+   */
+  async revalidatePeer(obj: string | Buffer | PeerInfo | NodeRecord): Promise<void> {
+    const peer = this._getPeer(obj)
+    if (peer === undefined) throw new Error('Peer not in table')
+    try {
+      const pong = await this._server.ping(peer.contact)
+      if (pong.enrSeq > peer.record.seq) {
+        peer.record = await this._requestRecord(peer.contact)
+        this._debug(`updated record of ${peer.contact.address}:${peer.contact.udpPort}`)
+      }
+    } catch (err: any) {
+      this.removePeer(obj)
+      throw err
+    }
+  }
+
+  /**
+   * Requests the records of a peer at the given log distances
+   */
+  async findNode(obj: PeerInfo | NodeRecord, distances: number[]): Promise<NodeRecord[]> {
+    return this._server.findNode(this._toContact(obj), distances)
+  }
+
+  /**
+   * Sends a `TALKREQ` for a sub-protocol, resolving with the `TALKRESP` response
+   * (empty if the protocol is not supported by the peer)
+   */
+  async talkReq(obj: PeerInfo | NodeRecord, protocol: string, request: Buffer): Promise<Buffer> {
+    return this._server.talkReq(this._toContact(obj), Buffer.from(protocol), request)
+  }
+
+  /**
+   * Registers a handler answering `TALKREQ` requests for a sub-protocol
+   */
+  registerTalkProtocol(protocol: string, handler: TalkHandler) {
+    this._talkHandlers.set(protocol, handler)
+  }
+
+  async handleTalkRequest(
+    protocol: Buffer,
+    request: Buffer,
+    contact: Discv5Contact
+  ): Promise<Buffer> {
+    const handler = this._talkHandlers.get(protocol.toString())
+    if (handler === undefined) return Buffer.alloc(0)
+    const peer = this._peers.get(contact.nodeId.toString('hex'))
+    const peerInfo =
+      peer !== undefined
+        ? this._toPeerInfo(peer)
+        : { address: contact.address, udpPort: contact.udpPort }
+    return handler(request, peerInfo)
+  }
+
+  /**
+   * Sets key/value pairs on the local node record, the updated record
+   * (with incremented sequence number) is announced on the next `PONG`
+   */
+  updateRecord(kvs: { [key: string]: Buffer }) {
+    this.record.update(kvs, this.privateKey)
+  }
+
+  getRecord(nodeId: Buffer): NodeRecord | undefined {
+    if (nodeId.equals(this.nodeId)) return this.record
+    return this._peers.get(nodeId.toString('hex'))?.record
+  }
+
+  /**
+   * Returns the records from the table at the given log distances
+   * (distance 0 being the local record)
+   */
+  getRecordsAtDistances(distances: number[]): NodeRecord[] {
+    const records = []
+    for (const distance of new Set(distances)) {
+      if (distance === 0) {
+        records.push(this.record)
+        continue
+      }
+      for (const { record } of this._peers.values()) {
+        if (logDistance(this.nodeId, record.nodeId) === distance) records.push(record)
+      }
+    }
+    return records
+  }
+
+  getPeer(obj: string | Buffer | PeerInfo | NodeRecord): PeerInfo | undefined {
+    const peer = this._getPeer(obj)
+    return peer !== undefined ? this._toPeerInfo(peer) : undefined
+  }
+
+  getPeers(): PeerInfo[] {
+    return [...this._peers.values()].map((peer) => this._toPeerInfo(peer))
+  }
+
+  removePeer(obj: string | Buffer | PeerInfo | NodeRecord) {
+    const peer = this._getPeer(obj)
+    if (peer === undefined) return
+    this._peers.delete(peer.record.nodeId.toString('hex'))
+    this.emit('peer:removed', this._toPeerInfo(peer))
+  }
+
+  banPeer(obj: string | Buffer | PeerInfo | NodeRecord, maxAge?: number) {
+    const peer = this._getPeer(obj)
+    if (peer !== undefined) {
+      this.banlist.add(this._toPeerInfo(peer), maxAge)
+      this.removePeer(obj)
+    } else if (!(obj instanceof NodeRecord)) {
+      this.banlist.add(obj, maxAge)
+    }
+  }
+
+  async refresh(): Promise<void> {
+    if (!this._shouldFindNodes) return
+    // Rotating selection counter going in loop from 0..9
+    this._refreshIntervalSelectionCounter = (this._refreshIntervalSelectionCounter + 1) % 10
+
+    const peers = [...this._peers.values()]
+    this._debug(
+      `call .refresh() (selector ${this._refreshIntervalSelectionCounter}) (${peers.length} peers in table)`
+    )
+
+    for (const peer of peers) {
+      // Randomly distributed selector based on node id
+      // to decide on subdivided execution
+      const selector = buffer2int(peer.record.nodeId.slice(0, 1)) % 10
+      if (selector === this._refreshIntervalSelectionCounter) {
+        this.revalidatePeer(peer.record)
+          .then(() => this._findNodes(peer.contact, randomBytes(32)))
+          .catch((error) => this._debug(`revalidation failed: ${error.message}`))
+      }
+    }
+  }
+
+  async _addPeer(obj: PeerInfo | NodeRecord): Promise<Discv5Peer> {
+    const peerInfo = obj instanceof NodeRecord ? obj.peerInfo : obj
+    if (this.banlist.has(peerInfo)) throw new Error('Peer is banned')
+    this._debug(`attempt adding peer ${peerInfo.address}:${peerInfo.udpPort}`)
+
+    const contact = this._toContact(obj)
+    const known = this._peers.get(contact.nodeId.toString('hex'))
+    if (known !== undefined) return known
+
+    // check that peer is alive
+    try {
+      const pong = await this._server.ping(contact)
+      let record = obj instanceof NodeRecord ? obj : this.getRecord(contact.nodeId)
+      if (record === undefined || pong.enrSeq > record.seq) {
+        record = await this._requestRecord(contact)
+      }
+      const peer = { record, contact }
+      this.emit('peer:new', this._toPeerInfo(peer))
+      this._addToTable(peer)
+      return peer
+    } catch (err: any) {
+      this.banlist.add(peerInfo, ms('5m'))
+      throw err
+    }
+  }
+
+  _addToTable(peer: Discv5Peer) {
+    const nodeIdHex = peer.record.nodeId.toString('hex')
+    if (this._peers.has(nodeIdHex)) return
+    const distance = logDistance(this.nodeId, peer.record.nodeId)
+    if (this.getRecordsAtDistances([distance]).length >= BUCKET_SIZE) return
+    this._peers.set(nodeIdHex, peer)
+    this.emit('peer:added', this._toPeerInfo(peer))
+  }
+
+  async _requestRecord(contact: Discv5Contact): Promise<NodeRecord> {
+    const [record] = await this._server.findNode(contact, [0])
+    if (record === undefined || !record.nodeId.equals(contact.nodeId)) {
+      throw new Error('Invalid discv5 record received for node')
+    }
+    return record
+  }
+
+  /**
+   * Queries a peer for records close to the target (at the log distance of the
+   * target to the peer and the adjacent ones) and adds the new ones to the table
+   */
+  _findNodes(contact: Discv5Contact, target: Buffer) {
+    const distance = logDistance(contact.nodeId, target)
+    const distances = [distance, distance + 1, distance - 1].filter((d) => d > 0 && d <= 256)
+    this._server
+      .findNode(contact, distances)
+      .then((records) => {
+        this._addPeerBatch(
+          records.filter(
+            (record) =>
+              !record.nodeId.equals(this.nodeId) && this.getRecord(record.nodeId) === undefined
+          )
+        )
+      })
+      .catch((error) => this.emit('error', error))
+  }
+
+  _addPeerBatch(records: NodeRecord[]): void {
+    const DIFF_TIME_MS = 200
+    let ms = 0
+    for (const record of records) {
+      // Records without endpoint info can't be contacted
+      const { address, udpPort } = record.peerInfo
+      if (address === undefined || typeof udpPort !== 'number') continue
+      const timeoutId = setTimeout(() => {
+        this._addPeerTimeouts.delete(timeoutId)
+        this.addPeer(record).catch((error) => {
+          this.emit('error', error)
+        })
+      }, ms)
+      this._addPeerTimeouts.add(timeoutId)
+      ms += DIFF_TIME_MS
+    }
+  }
+
+  _getPeer(obj: string | Buffer | PeerInfo | NodeRecord): Discv5Peer | undefined {
+    let id: Buffer | undefined
+    if (obj instanceof NodeRecord) id = obj.nodeId
+    else if (typeof obj === 'string') id = Buffer.from(obj, 'hex')
+    else if (Buffer.isBuffer(obj)) id = obj
+    else if (obj.id !== undefined) id = Buffer.from(obj.id)
+    if (id === undefined) return
+    // 64 bytes public key ids (as used by DPT and RLPx) are hashed to the node id
+    const nodeId = id.length === 64 ? keccak256(id) : id
+    return this._peers.get(nodeId.toString('hex'))
+  }
+
+  _toContact(obj: PeerInfo | NodeRecord): Discv5Contact {
+    if (obj instanceof NodeRecord) {
+      const known = this._peers.get(obj.nodeId.toString('hex'))
+      if (known !== undefined) return known.contact
+      const { address, udpPort } = obj.peerInfo
+      if (address === undefined || typeof udpPort !== 'number') {
+        throw new Error('Node record without ip or udp port')
+      }
+      return { nodeId: obj.nodeId, publicKey: obj.publicKey, address, udpPort }
+    }
+    if (obj.id === undefined || obj.address === undefined || typeof obj.udpPort !== 'number') {
+      throw new Error('Peer id, address and udp port required for discv5')
+    }
+    const id = Buffer.from(obj.id)
+    return {
+      nodeId: keccak256(id),
+      publicKey: id2pk(id),
+      address: obj.address,
+      udpPort: obj.udpPort,
+    }
+  }
+
+  _toPeerInfo({ record, contact }: Discv5Peer): PeerInfo {
+    return {
+      ...record.peerInfo,
+      address: contact.address,
+      udpPort: contact.udpPort,
+    }
+  }
+}
@@ -0,0 +1,199 @@
+import { RLP } from '@ethereumjs/rlp'
+import { arrToBufArr, bigIntToUnpaddedBuffer, bufArrToArr, bufferToBigInt } from '@ethereumjs/util'
+import { base64url } from '@scure/base'
+import {
+  ecdsaSign,
+  ecdsaVerify,
+  publicKeyConvert,
+  publicKeyCreate,
+} from 'ethereum-cryptography/secp256k1-compat'
+import * as ip from 'ip'
+
+import { buffer2int, int2buffer, keccak256, pk2id } from '../util'
+
+import type { PeerInfo } from '../dpt'
+
+// Max size of an encoded record (EIP-778)
+const MAX_RECORD_SIZE = 300
+
+function endpointToKvs(endpoint: PeerInfo) {
+  const kvs: { [key: string]: Buffer } = {}
+  if (endpoint.address !== undefined) {
+    kvs[ip.isV4Format(endpoint.address) ? 'ip' : 'ip6'] = ip.toBuffer(endpoint.address)
+  }
+  if (typeof endpoint.tcpPort === 'number') kvs.tcp = int2buffer(endpoint.tcpPort)
+  if (typeof endpoint.udpPort === 'number') kvs.udp = int2buffer(endpoint.udpPort)
+  return kvs
+}
+
+function padBase64(value: string) {
+  return value + '='.repeat((4 - (value.length % 4)) % 4)
+}
+
+/**
+ * Signed Ethereum Node Record (EIP-778) using the "v4" identity scheme
+ */
+export class NodeRecord {
+  public static readonly RECORD_PREFIX = 'enr:'
+
+  seq: bigint
+  signature: Buffer
+  private _kvs: Map<string, Buffer>
+
+  private constructor(seq: bigint, kvs: Map<string, Buffer>, signature: Buffer) {
+    this.seq = seq
+    this._kvs = kvs
+    this.signature = signature
+  }
+
+  /**
+   * Creates a new record (with sequence number 1) signed with the private key
+   * @param privateKey Private key of the node
+   * @param endpoint Network info to advertise (ip and ports are only set if provided)
+   */
+  static create(privateKey: Buffer, endpoint: PeerInfo = {}): NodeRecord {
+    const kvs = new Map<string, Buffer>()
+    kvs.set('id', Buffer.from('v4'))
+    kvs.set('secp256k1', Buffer.from(publicKeyCreate(privateKey, true)))
+    const record = new NodeRecord(BigInt(0), kvs, Buffer.alloc(0))
+    record.update(endpointToKvs(endpoint), privateKey)
+    return record
+  }
+
+  /**
+   * Decodes an RLP encoded record and verifies its signature
+   * @param raw RLP encoded record
+   */
+  static decode(raw: Buffer): NodeRecord {
+    if (raw.length > MAX_RECORD_SIZE) {
+      throw new Error(`Invalid ENR: record exceeds max size of ${MAX_RECORD_SIZE} bytes`)
+    }
+    const decoded = arrToBufArr(RLP.decode(Uint8Array.from(raw))) as Buffer[]
+    if (!Array.isArray(decoded) || decoded.length < 2 || decoded.length % 2 !== 0) {
+      throw new Error('Invalid ENR: malformed record')
+    }
+    const [signature, seq, ...kvs] = decoded
+    const map = new Map<string, Buffer>()
+    for (let i = 0; i < kvs.length; i += 2) {
+      const key = kvs[i].toString()
+      if (i > 0 && key <= kvs[i - 2].toString()) {
+        throw new Error('Invalid ENR: keys not sorted or not unique')
+      }
+      map.set(key, kvs[i + 1])
+    }
+    const record = new NodeRecord(bufferToBigInt(seq), map, signature)
+    if (record.get('id')?.toString() !== 'v4') {
+      throw new Error('Invalid ENR: unsupported identity scheme')
+    }
+    if (!record.verify()) {
+      throw new Error('Unable to verify ENR signature')
+    }
+    return record
+  }
+
+  /**
+   * Decodes a text encoded (`enr:` prefixed, base64 url-safe) record
+   * @param enr Text encoded record
+   */
+  static decodeTxt(enr: string): NodeRecord {
+    if (!enr.startsWith(this.RECORD_PREFIX))
+      throw new Error(`String encoded ENR must start with '${this.RECORD_PREFIX}'`)
+    return this.decode(
+      Buffer.from(base64url.decode(padBase64(enr.slice(this.RECORD_PREFIX.length))))
+    )
+  }
+
+  /**
+   * Returns the value of a record key (e.g. `ip`, `udp`)
+   */
+  get(key: string): Buffer | undefined {
+    return this._kvs.get(key)
+  }
+
+  /**
+   * Sets the given key/value pairs, increments the sequence
+   * number and re-signs the record
+   * @param kvs Key/value pairs to set
+   * @param privateKey Private key of the node
+   */
+  update(kvs: { [key: string]: Buffer }, privateKey: Buffer) {
+    const publicKey = Buffer.from(publicKeyCreate(privateKey, true))
+    if (!publicKey.equals(this.publicKey)) {
+      throw new Error('Private key does not match the ENR public key')
+    }
+    for (const [key, value] of Object.entries(kvs)) {
+      this._kvs.set(key, value)
+    }
+    this.seq += BigInt(1)
+    const sig = ecdsaSign(keccak256(this._encodeContent()), privateKey)
+    this.signature = Buffer.from(sig.signature)
+  }
+
+  /**
+   * Verifies the record signature against the public key of the record
+   */
+  verify(): boolean {
+    const publicKey = this.get('secp256k1')
+    if (publicKey === undefined || this.signature.length !== 64) return false
+    try {
+      return ecdsaVerify(this.signature, keccak256(this._encodeContent()), publicKey)
+    } catch (e: any) {
+      return false
+    }
+  }
+
+  /**
+   * Returns the RLP encoded record
+   */
+  encode(): Buffer {
+    return Buffer.from(RLP.encode(bufArrToArr([this.signature, ...this._content()])))
+  }
+
+  /**
+   * Returns the text encoded (`enr:` prefixed, base64 url-safe) record
+   */
+  encodeTxt(): string {
+    return NodeRecord.RECORD_PREFIX + base64url.encode(this.encode()).replace(/=+$/, '')
+  }
+
+  /**
+   * Compressed public key of the node
+   */
+  get publicKey(): Buffer {
+    return this.get('secp256k1')!
+  }
+
+  /**
+   * Node id (keccak256 hash of the uncompressed public key)
+   */
+  get nodeId(): Buffer {
+    return keccak256(Buffer.from(publicKeyConvert(this.publicKey, false)).slice(1))
+  }
+
+  /**
+   * Returns the record as `PeerInfo` with the (64 bytes) public key as id
+   */
+  get peerInfo(): PeerInfo {
+    const address = this.get('ip') ?? this.get('ip6')
+    const udp = this.get('udp')
+    const tcp = this.get('tcp')
+    return {
+      id: pk2id(this.publicKey),
+      address: address !== undefined ? ip.toString(address) : undefined,
+      udpPort: udp !== undefined ? buffer2int(udp) : null,
+      tcpPort: tcp !== undefined ? buffer2int(tcp) : null,
+    }
+  }
+
+  private _content(): Buffer[] {
+    const content = [bigIntToUnpaddedBuffer(this.seq)]
+    for (const key of [...this._kvs.keys()].sort()) {
+      content.push(Buffer.from(key), this._kvs.get(key)!)
+    }
+    return content
+  }
+
+  private _encodeContent(): Buffer {
+    return Buffer.from(RLP.encode(bufArrToArr(this._content())))
+  }
+}
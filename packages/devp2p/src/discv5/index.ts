@@ -0,0 +1,5 @@
+export * from './discv5'
+export * from './enr'
+export * from './message'
+export * from './packet'
+export * from './server'
@@ -0,0 +1,177 @@
+import { RLP } from '@ethereumjs/rlp'
+import { arrToBufArr, bigIntToUnpaddedBuffer, bufArrToArr, bufferToBigInt } from '@ethereumjs/util'
+import * as ip from 'ip'
+
+import { buffer2int, int2buffer } from '../util'
+
+import { NodeRecord } from './enr'
+
+export enum Discv5MessageType {
+  PING = 0x01,
+  PONG = 0x02,
+  FINDNODE = 0x03,
+  NODES = 0x04,
+  TALKREQ = 0x05,
+  TALKRESP = 0x06,
+}
+
+export type PingMessage = {
+  type: Discv5MessageType.PING
+  reqId: Buffer
+  enrSeq: bigint
+}
+
+export type PongMessage = {
+  type: Discv5MessageType.PONG
+  reqId: Buffer
+  enrSeq: bigint
+  address: string
+  udpPort: number
+}
+
+export type FindNodeMessage = {
+  type: Discv5MessageType.FINDNODE
+  reqId: Buffer
+  distances: number[]
+}
+
+export type NodesMessage = {
+  type: Discv5MessageType.NODES
+  reqId: Buffer
+  total: number
+  records: NodeRecord[]
+}
+
+export type TalkReqMessage = {
+  type: Discv5MessageType.TALKREQ
+  reqId: Buffer
+  protocol: Buffer
+  request: Buffer
+}
+
+export type TalkRespMessage = {
+  type: Discv5MessageType.TALKRESP
+  reqId: Buffer
+  response: Buffer
+}
+
+export type Discv5Message =
+  | PingMessage
+  | PongMessage
+  | FindNodeMessage
+  | NodesMessage
+  | TalkReqMessage
+  | TalkRespMessage
+
+const ping = {
+  encode(msg: PingMessage) {
+    return [msg.reqId, bigIntToUnpaddedBuffer(msg.enrSeq)]
+  },
+  decode([reqId, enrSeq]: Buffer[]): PingMessage {
+    return { type: Discv5MessageType.PING, reqId, enrSeq: bufferToBigInt(enrSeq) }
+  },
+}
+
+const pong = {
+  encode(msg: PongMessage) {
+    return [
+      msg.reqId,
+      bigIntToUnpaddedBuffer(msg.enrSeq),
+      ip.toBuffer(msg.address),
+      int2buffer(msg.udpPort),
+    ]
+  },
+  decode([reqId, enrSeq, address, udpPort]: Buffer[]): PongMessage {
+    return {
+      type: Discv5MessageType.PONG,
+      reqId,
+      enrSeq: bufferToBigInt(enrSeq),
+      address: ip.toString(address),
+      udpPort: buffer2int(udpPort),
+    }
+  },
+}
+
+const findnode = {
+  encode(msg: FindNodeMessage) {
+    return [msg.reqId, msg.distances.map((distance) => bigIntToUnpaddedBuffer(BigInt(distance)))]
+  },
+  decode([reqId, distances]: [Buffer, Buffer[]]): FindNodeMessage {
+    return {
+      type: Discv5MessageType.FINDNODE,
+      reqId,
+      // Distance 0 (the node's own record) is encoded as empty byte array
+      distances: distances.map((distance) => (distance.length === 0 ? 0 : buffer2int(distance))),
+    }
+  },
+}
+
+const nodes = {
+  encode(msg: NodesMessage) {
+    return [
+      msg.reqId,
+      bigIntToUnpaddedBuffer(BigInt(msg.total)),
+      msg.records.map((record) => arrToBufArr(RLP.decode(Uint8Array.from(record.encode())))),
+    ]
+  },
+  decode([reqId, total, records]: [Buffer, Buffer, any[]]): NodesMessage {
+    return {
+      type: Discv5MessageType.NODES,
+      reqId,
+      total: buffer2int(total),
+      records: records.map((record) =>
+        NodeRecord.decode(Buffer.from(RLP.encode(bufArrToArr(record))))
+      ),
+    }
+  },
+}
+
+const talkreq = {
+  encode(msg: TalkReqMessage) {
+    return [msg.reqId, msg.protocol, msg.request]
+  },
+  decode([reqId, protocol, request]: Buffer[]): TalkReqMessage {
+    return { type: Discv5MessageType.TALKREQ, reqId, protocol, request }
+  },
+}
+
+const talkresp = {
+  encode(msg: TalkRespMessage) {
+    return [msg.reqId, msg.response]
+  },
+  decode([reqId, response]: Buffer[]): TalkRespMessage {
+    return { type: Discv5MessageType.TALKRESP, reqId, response }
+  },
+}
+
+const messages: any = {
+  [Discv5MessageType.PING]: ping,
+  [Discv5MessageType.PONG]: pong,
+  [Discv5MessageType.FINDNODE]: findnode,
+  [Discv5MessageType.NODES]: nodes,
+  [Discv5MessageType.TALKREQ]: talkreq,
+  [Discv5MessageType.TALKRESP]: talkresp,
+}
+
+// [0] message type
+// [1, length) RLP encoded message data
+
+/**
+ * Encodes a message to its plaintext (message type || message data)
+ */
+export function encodeMessage(msg: Discv5Message): Buffer {
+  const data = messages[msg.type].encode(msg)
+  return Buffer.concat([Buffer.from([msg.type]), Buffer.from(RLP.encode(bufArrToArr(data)))])
+}
+
+/**
+ * Decodes a message from its plaintext (message type || message data)
+ */
+export function decodeMessage(buffer: Buffer): Discv5Message {
+  const type = buffer[0]
+  const message = messages[type]
+  if (message === undefined) throw new Error(`Invalid discv5 message type: ${type}`)
+  const data = arrToBufArr(RLP.decode(Uint8Array.from(buffer.slice(1))))
+  if (!Array.isArray(data)) throw new Error(`Invalid discv5 message data for type: ${type}`)
+  return message.decode(data)
+}
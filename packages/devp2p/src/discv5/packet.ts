@@ -0,0 +1,251 @@
+import { hkdf } from '@noble/hashes/hkdf'
+import { sha256 } from '@noble/hashes/sha256'
+import * as crypto from 'crypto'
+import { getSharedSecret } from 'ethereum-cryptography/secp256k1'
+import { ecdsaSign, ecdsaVerify } from 'ethereum-cryptography/secp256k1-compat'
+
+const PROTOCOL_ID = Buffer.from('discv5')
+const VERSION = Buffer.from([0x00, 0x01])
+const MASKING_IV_SIZE = 16
+const STATIC_HEADER_SIZE = 23
+const GCM_TAG_SIZE = 16
+const ID_SIGNATURE_TEXT = Buffer.from('discovery v5 identity proof')
+const KEY_AGREEMENT_TEXT = Buffer.from('discovery v5 key agreement')
+
+export const MIN_PACKET_SIZE = 63
+export const MAX_PACKET_SIZE = 1280
+
+export enum PacketFlag {
+  MESSAGE = 0,
+  WHOAREYOU = 1,
+  HANDSHAKE = 2,
+}
+
+export interface PacketHeader {
+  flag: PacketFlag
+  nonce: Buffer
+  authdata: Buffer
+}
+
+export interface Packet {
+  maskingIv: Buffer
+  header: PacketHeader
+  /* Unmasked header (static header || authdata) */
+  headerData: Buffer
+  /* Encrypted message */
+  message: Buffer
+}
+
+export interface WhoareyouAuthdata {
+  idNonce: Buffer
+  enrSeq: bigint
+}
+
+export interface HandshakeAuthdata {
+  srcId: Buffer
+  signature: Buffer
+  ephPublicKey: Buffer
+  /* RLP encoded record (empty if not sent along) */
+  record: Buffer
+}
+
+export interface SessionKeys {
+  initiatorKey: Buffer
+  recipientKey: Buffer
+}
+
+// static-header = protocol-id || version || flag || nonce || authdata-size
+
+/**
+ * Encodes the (unmasked) packet header
+ */
+export function encodeHeader(header: PacketHeader): Buffer {
+  const authdataSize = Buffer.alloc(2)
+  authdataSize.writeUInt16BE(header.authdata.length)
+  return Buffer.concat([
+    PROTOCOL_ID,
+    VERSION,
+    Buffer.from([header.flag]),
+    header.nonce,
+    authdataSize,
+    header.authdata,
+  ])
+}
+
+/**
+ * Assembles a packet, masking the header with the first 16 bytes of the destination node id
+ * @param destId Node id of the recipient
+ * @param maskingIv Random masking IV (also part of the message associated data)
+ * @param headerData Encoded header
+ * @param message Encrypted message
+ */
+export function encodePacket(
+  destId: Buffer,
+  maskingIv: Buffer,
+  headerData: Buffer,
+  message: Buffer
+): Buffer {
+  const cipher = crypto.createCipheriv('aes-128-ctr', destId.slice(0, 16), maskingIv)
+  return Buffer.concat([maskingIv, cipher.update(headerData), cipher.final(), message])
+}
+
+/**
+ * Unmasks and decodes a packet received
+ * @param localId Node id of the recipient (own node id)
+ * @param data Packet data
+ */
+export function decodePacket(localId: Buffer, data: Buffer): Packet {
+  if (data.length < MIN_PACKET_SIZE || data.length > MAX_PACKET_SIZE) {
+    throw new Error(`Invalid discv5 packet size: ${data.length}`)
+  }
+  const maskingIv = data.slice(0, MASKING_IV_SIZE)
+  const decipher = crypto.createDecipheriv('aes-128-ctr', localId.slice(0, 16), maskingIv)
+  const staticHeader = decipher.update(
+    data.slice(MASKING_IV_SIZE, MASKING_IV_SIZE + STATIC_HEADER_SIZE)
+  )
+  if (!staticHeader.slice(0, 6).equals(PROTOCOL_ID) || !staticHeader.slice(6, 8).equals(VERSION)) {
+    throw new Error('Invalid discv5 packet header')
+  }
+  const authdataEnd = MASKING_IV_SIZE + STATIC_HEADER_SIZE + staticHeader.readUInt16BE(21)
+  if (authdataEnd > data.length) {
+    throw new Error('Invalid discv5 packet authdata size')
+  }
+  const authdata = decipher.update(data.slice(MASKING_IV_SIZE + STATIC_HEADER_SIZE, authdataEnd))
+  return {
+    maskingIv,
+    header: { flag: staticHeader[8], nonce: staticHeader.slice(9, 21), authdata },
+    headerData: Buffer.concat([staticHeader, authdata]),
+    message: data.slice(authdataEnd),
+  }
+}
+
+// WHOAREYOU authdata = id-nonce || enr-seq
+
+export const whoareyouAuthdata = {
+  encode({ idNonce, enrSeq }: WhoareyouAuthdata): Buffer {
+    const seq = Buffer.alloc(8)
+    seq.writeBigUInt64BE(enrSeq)
+    return Buffer.concat([idNonce, seq])
+  },
+  decode(authdata: Buffer): WhoareyouAuthdata {
+    if (authdata.length !== 24) throw new Error('Invalid discv5 WHOAREYOU authdata')
+    return { idNonce: authdata.slice(0, 16), enrSeq: authdata.readBigUInt64BE(16) }
+  },
+}
+
+// Handshake authdata = src-id || sig-size || eph-key-size || id-signature || eph-pubkey || record
+
+export const handshakeAuthdata = {
+  encode({ srcId, signature, ephPublicKey, record }: HandshakeAuthdata): Buffer {
+    return Buffer.concat([
+      srcId,
+      Buffer.from([signature.length, ephPublicKey.length]),
+      signature,
+      ephPublicKey,
+      record,
+    ])
+  },
+  decode(authdata: Buffer): HandshakeAuthdata {
+    if (authdata.length < 34) throw new Error('Invalid discv5 handshake authdata')
+    const sigEnd = 34 + authdata[32]
+    const keyEnd = sigEnd + authdata[33]
+    if (keyEnd > authdata.length) throw new Error('Invalid discv5 handshake authdata')
+    return {
+      srcId: authdata.slice(0, 32),
+      signature: authdata.slice(34, sigEnd),
+      ephPublicKey: authdata.slice(sigEnd, keyEnd),
+      record: authdata.slice(keyEnd),
+    }
+  },
+}
+
+/**
+ * Encrypts a message with AES-GCM, the tag is appended to the ciphertext
+ * @param key Session key
+ * @param nonce Packet nonce
+ * @param pt Message plaintext
+ * @param ad Associated data (masking IV || header)
+ */
+export function encryptMessage(key: Buffer, nonce: Buffer, pt: Buffer, ad: Buffer): Buffer {
+  const cipher = crypto.createCipheriv('aes-128-gcm', key, nonce)
+  cipher.setAAD(ad)
+  return Buffer.concat([cipher.update(pt), cipher.final(), cipher.getAuthTag()])
+}
+
+/**
+ * Decrypts and authenticates a message encrypted with AES-GCM
+ * @param key Session key
+ * @param nonce Packet nonce
+ * @param ct Message ciphertext (with appended tag)
+ * @param ad Associated data (masking IV || header)
+ */
+export function decryptMessage(key: Buffer, nonce: Buffer, ct: Buffer, ad: Buffer): Buffer {
+  if (ct.length < GCM_TAG_SIZE) throw new Error('Invalid discv5 message size')
+  const decipher = crypto.createDecipheriv('aes-128-gcm', key, nonce)
+  decipher.setAAD(ad)
+  decipher.setAuthTag(ct.slice(ct.length - GCM_TAG_SIZE))
+  return Buffer.concat([decipher.update(ct.slice(0, ct.length - GCM_TAG_SIZE)), decipher.final()])
+}
+
+/**
+ * Returns the shared secret as compressed point (publicKey * privateKey)
+ */
+export function ecdhCompressed(publicKey: Buffer, privateKey: Buffer): Buffer {
+  return Buffer.from(getSharedSecret(privateKey, publicKey, true))
+}
+
+/**
+ * Derives the session keys from the shared secret of the handshake (HKDF)
+ * @param secret Shared secret of the ephemeral and the recipient static key
+ * @param nodeIdA Node id of the handshake initiator
+ * @param nodeIdB Node id of the handshake recipient
+ * @param challengeData WHOAREYOU challenge (masking IV || static header || authdata)
+ */
+export function deriveKeys(
+  secret: Buffer,
+  nodeIdA: Buffer,
+  nodeIdB: Buffer,
+  challengeData: Buffer
+): SessionKeys {
+  const info = Buffer.concat([KEY_AGREEMENT_TEXT, nodeIdA, nodeIdB])
+  const keyData = Buffer.from(hkdf(sha256, secret, challengeData, info, 32))
+  return { initiatorKey: keyData.slice(0, 16), recipientKey: keyData.slice(16) }
+}
+
+function idSignatureInput(challengeData: Buffer, ephPublicKey: Buffer, nodeIdB: Buffer) {
+  return crypto
+    .createHash('sha256')
+    .update(Buffer.concat([ID_SIGNATURE_TEXT, challengeData, ephPublicKey, nodeIdB]))
+    .digest()
+}
+
+/**
+ * Creates the id nonce signature proving the static key ownership in the handshake
+ */
+export function idSign(
+  privateKey: Buffer,
+  challengeData: Buffer,
+  ephPublicKey: Buffer,
+  nodeIdB: Buffer
+): Buffer {
+  const input = idSignatureInput(challengeData, ephPublicKey, nodeIdB)
+  return Buffer.from(ecdsaSign(input, privateKey).signature)
+}
+
+/**
+ * Verifies the id nonce signature of a handshake
+ */
+export function idVerify(
+  publicKey: Buffer,
+  signature: Buffer,
+  challengeData: Buffer,
+  ephPublicKey: Buffer,
+  nodeIdB: Buffer
+): boolean {
+  const input = idSignatureInput(challengeData, ephPublicKey, nodeIdB)
+  try {
+    return ecdsaVerify(signature, input, publicKey)
+  } catch (e: any) {
+    return false
+  }
+}
@@ -0,0 +1,535 @@
+import { randomBytes } from 'crypto'
+import { debug as createDebugLogger } from 'debug'
+import * as dgram from 'dgram'
+import { publicKeyCreate } from 'ethereum-cryptography/secp256k1-compat'
+import { EventEmitter } from 'events'
+import LRUCache = require('lru-cache')
+import ms = require('ms')
+
+import { createDeferred, devp2pDebug, formatLogId, genPrivateKey } from '../util'
+
+import { NodeRecord } from './enr'
+import { Discv5MessageType, decodeMessage, encodeMessage } from './message'
+import {
+  PacketFlag,
+  decodePacket,
+  decryptMessage,
+  deriveKeys,
+  ecdhCompressed,
+  encodeHeader,
+  encodePacket,
+  encryptMessage,
+  handshakeAuthdata,
+  idSign,
+  idVerify,
+  whoareyouAuthdata,
+} from './packet'
+
+import type { Deferred } from '../util'
+import type { Discv5 } from './discv5'
+import type { Discv5Message, PongMessage, TalkRespMessage } from './message'
+import type { Packet } from './packet'
+import type { Debugger } from 'debug'
+import type { Socket as DgramSocket, RemoteInfo } from 'dgram'
+
+const DEBUG_BASE_NAME = 'discv5:server'
+const verbose = createDebugLogger('verbose').enabled
+
+// Max number of records served for a FINDNODE request
+const MAX_NODES_RESPONSE = 16
+// Number of records per NODES message to stay below the max packet size
+const NODES_PER_MESSAGE = 3
+// Max number of sessions kept, the least recently used ones are dropped first
+const MAX_SESSIONS = 1000
+// Sessions not used for this long are dropped, a new handshake is done on the next message
+const SESSION_TIMEOUT = ms('30m')
+
+export interface Discv5Contact {
+  nodeId: Buffer
+  /* Public key (required for initiating a handshake) */
+  publicKey?: Buffer
+  address: string
+  udpPort: number
+}
+
+export interface Discv5ServerOptions {
+  /**
+   * Timeout for peer requests
+   *
+   * Default: 10s
+   */
+  timeout?: number
+
+  /**
+   * Function for socket creation
+   *
+   * Default: dgram-created socket
+   */
+  createSocket?: Function
+}
+
+type Session = {
+  writeKey: Buffer
+  readKey: Buffer
+}
+
+type Challenge = {
+  /* masking IV || static header || authdata of the WHOAREYOU packet sent */
+  challengeData: Buffer
+  /* Record of the remote node known when sending the challenge */
+  record?: NodeRecord
+}
+
+type SentMessage = {
+  contact: Discv5Contact
+  /* Message plaintext to resend along a handshake */
+  message: Buffer
+}
+
+type Request = {
+  contact: Discv5Contact
+  responseType: Discv5MessageType
+  deferred: Deferred<any>
+  timeoutId: NodeJS.Timeout
+  /* Records received for FINDNODE requests answered with multiple NODES messages */
+  records: NodeRecord[]
+  received: number
+}
+
+function sessionKey(contact: Discv5Contact) {
+  return `${contact.nodeId.toString('hex')}@${contact.address}:${contact.udpPort}`
+}
+
+function associatedData(maskingIv: Buffer, headerData: Buffer) {
+  return Buffer.concat([maskingIv, headerData])
+}
+
+export class Discv5Server extends EventEmitter {
+  _discv5: Discv5
+  _privateKey: Buffer
+  _timeout: number
+  _sessions: LRUCache<string, Session>
+  _challenges: Map<string, Challenge>
+  _sent: Map<string, SentMessage>
+  _requests: Map<string, Request>
+  _socket: DgramSocket | null
+  _debug: Debugger
+
+  constructor(discv5: Discv5, privateKey: Buffer, options: Discv5ServerOptions) {
+    super()
+
+    this._discv5 = discv5
+    this._privateKey = privateKey
+
+    this._timeout = options.timeout ?? ms('10s')
+    this._sessions = new LRUCache({
+      max: MAX_SESSIONS,
+      maxAge: SESSION_TIMEOUT,
+      updateAgeOnGet: true,
+    })
+    this._challenges = new Map()
+    this._sent = new Map()
+    this._requests = new Map()
+
+    const createSocket = options.createSocket ?? dgram.createSocket.bind(null, { type: 'udp4' })
+    this._socket = createSocket()
+    this._debug = devp2pDebug.extend(DEBUG_BASE_NAME)
+    if (this._socket) {
+      this._socket.once('listening', () => this.emit('listening'))
+      this._socket.once('close', () => this.emit('close'))
+      this._socket.on('error', (err) => this.emit('error', err))
+      this._socket.on('message', (msg: Buffer, rinfo: RemoteInfo) => {
+        try {
+          this._handler(msg, rinfo)
+        } catch (err: any) {
+          this.emit('error', err)
+        }
+      })
+    }
+  }
+
+  bind(...args: any[]) {
+    this._isAliveCheck()
+    this._debug('call .bind')
+
+    if (this._socket) this._socket.bind(...args)
+  }
+
+  destroy(...args: any[]) {
+    this._isAliveCheck()
+    this._debug('call .destroy')
+
+    for (const request of this._requests.values()) {
+      clearTimeout(request.timeoutId)
+    }
+    this._requests.clear()
+    if (this._socket) {
+      this._socket.close(...args)
+      this._socket = null
+    }
+  }
+
+  async ping(contact: Discv5Contact): Promise<PongMessage> {
+    return this._request(
+      contact,
+      { type: Discv5MessageType.PING, reqId: randomBytes(8), enrSeq: this._discv5.record.seq },
+      Discv5MessageType.PONG
+    )
+  }
+
+  async findNode(contact: Discv5Contact, distances: number[]): Promise<NodeRecord[]> {
+    return this._request(
+      contact,
+      { type: Discv5MessageType.FINDNODE, reqId: randomBytes(8), distances },
+      Discv5MessageType.NODES
+    )
+  }
+
+  async talkReq(contact: Discv5Contact, protocol: Buffer, request: Buffer): Promise<Buffer> {
+    const response: TalkRespMessage = await this._request(
+      contact,
+      { type: Discv5MessageType.TALKREQ, reqId: randomBytes(8), protocol, request },
+      Discv5MessageType.TALKRESP
+    )
+    return response.response
+  }
+
+  _isAliveCheck() {
+    if (this._socket === null) throw new Error('Server already destroyed')
+  }
+
+  _request(
+    contact: Discv5Contact,
+    message: Discv5Message,
+    responseType: Discv5MessageType
+  ): Promise<any> {
+    this._isAliveCheck()
+
+    const typename = Discv5MessageType[message.type].toLowerCase()
+    const deferred = createDeferred<any>()
+    const rkey = message.reqId.toString('hex')
+    this._requests.set(rkey, {
+      contact,
+      responseType,
+      deferred,
+      records: [],
+      received: 0,
+      timeoutId: setTimeout(() => {
+        if (this._requests.get(rkey) !== undefined) {
+          this._debug(
+            `${typename} timeout: ${contact.address}:${contact.udpPort} ${formatLogId(
+              contact.nodeId.toString('hex'),
+              verbose
+            )}`
+          )
+          this._requests.delete(rkey)
+          deferred.reject(
+            new Error(`Timeout error: ${typename} ${contact.address}:${contact.udpPort}`)
+          )
+        }
+      }, this._timeout),
+    })
+    this._send(contact, message)
+    return deferred.promise
+  }
+
+  /**
+   * Sends a message packet, encrypted with the session keys if a session with
+   * the node is established or with random content otherwise (which is answered
+   * with a WHOAREYOU challenge initiating the handshake)
+   */
+  _send(contact: Discv5Contact, message: Discv5Message) {
+    const typename = Discv5MessageType[message.type].toLowerCase()
+    this.debug(
+      typename,
+      `send ${typename} to ${contact.address}:${contact.udpPort} (peerId: ${formatLogId(
+        contact.nodeId.toString('hex'),
+        verbose
+      )})`
+    )
+
+    const pt = encodeMessage(message)
+    const nonce = randomBytes(12)
+    const maskingIv = randomBytes(16)
+    const headerData = encodeHeader({
+      flag: PacketFlag.MESSAGE,
+      nonce,
+      authdata: this._discv5.nodeId,
+    })
+    const session = this._sessions.get(sessionKey(contact))
+    const ct =
+      session !== undefined
+        ? encryptMessage(session.writeKey, nonce, pt, associatedData(maskingIv, headerData))
+        : randomBytes(20)
+
+    const skey = nonce.toString('hex')
+    this._sent.set(skey, { contact, message: pt })
+    setTimeout(() => this._sent.delete(skey), this._timeout)
+
+    this._sendPacket(contact, encodePacket(contact.nodeId, maskingIv, headerData, ct))
+  }
+
+  _sendPacket(contact: Discv5Contact, packet: Buffer) {
+    if (this._socket) this._socket.send(packet, 0, packet.length, contact.udpPort, contact.address)
+  }
+
+  _handler(msg: Buffer, rinfo: RemoteInfo) {
+    const packet = decodePacket(this._discv5.nodeId, msg)
+    switch (packet.header.flag) {
+      case PacketFlag.MESSAGE:
+        return this._handleMessagePacket(packet, rinfo)
+      case PacketFlag.WHOAREYOU:
+        return this._handleWhoareyou(packet, rinfo)
+      case PacketFlag.HANDSHAKE:
+        return this._handleHandshake(packet, rinfo)
+      default:
+        throw new Error(`Invalid discv5 packet flag: ${packet.header.flag}`)
+    }
+  }
+
+  _handleMessagePacket(packet: Packet, rinfo: RemoteInfo) {
+    const srcId = packet.header.authdata
+    if (srcId.length !== 32) throw new Error('Invalid discv5 message authdata')
+    const contact: Discv5Contact = { nodeId: srcId, address: rinfo.address, udpPort: rinfo.port }
+
+    const session = this._sessions.get(sessionKey(contact))
+    let pt: Buffer | undefined
+    if (session !== undefined) {
+      try {
+        pt = decryptMessage(
+          session.readKey,
+          packet.header.nonce,
+          packet.message,
+          associatedData(packet.maskingIv, packet.headerData)
+        )
+      } catch (e: any) {
+        this._debug(`session with ${rinfo.address}:${rinfo.port} outdated, renewing handshake`)
+      }
+    }
+    if (pt === undefined) {
+      this._sendWhoareyou(contact, packet.header.nonce)
+      return
+    }
+    this._handleMessage(contact, decodeMessage(pt))
+  }
+
+  _sendWhoareyou(contact: Discv5Contact, nonce: Buffer) {
+    const record = this._discv5.getRecord(contact.nodeId)
+    const maskingIv = randomBytes(16)
+    const headerData = encodeHeader({
+      flag: PacketFlag.WHOAREYOU,
+      nonce,
+      authdata: whoareyouAuthdata.encode({
+        idNonce: randomBytes(16),
+        enrSeq: record?.seq ?? BigInt(0),
+      }),
+    })
+
+    const ckey = sessionKey(contact)
+    const challenge = { challengeData: associatedData(maskingIv, headerData), record }
+    this._challenges.set(ckey, challenge)
+    setTimeout(() => {
+      if (this._challenges.get(ckey) === challenge) this._challenges.delete(ckey)
+    }, this._timeout)
+
+    this.debug('whoareyou', `send whoareyou to ${contact.address}:${contact.udpPort}`)
+    this._sendPacket(contact, encodePacket(contact.nodeId, maskingIv, headerData, Buffer.alloc(0)))
+  }
+
+  _handleWhoareyou(packet: Packet, rinfo: RemoteInfo) {
+    // The WHOAREYOU nonce is the nonce of the message packet challenged
+    const skey = packet.header.nonce.toString('hex')
+    const sent = this._sent.get(skey)
+    if (sent === undefined) {
+      this._debug(`unsolicited whoareyou from ${rinfo.address}:${rinfo.port}`)
+      return
+    }
+    this._sent.delete(skey)
+    const { contact, message } = sent
+    if (contact.publicKey === undefined) {
+      throw new Error('Unable to answer discv5 challenge: remote public key unknown')
+    }
+    this.debug('whoareyou', `received whoareyou from ${rinfo.address}:${rinfo.port}`)
+
+    const { enrSeq } = whoareyouAuthdata.decode(packet.header.authdata)
+    const challengeData = associatedData(packet.maskingIv, packet.headerData)
+    const ephPrivateKey = genPrivateKey()
+    const ephPublicKey = Buffer.from(publicKeyCreate(ephPrivateKey, true))
+    const keys = deriveKeys(
+      ecdhCompressed(contact.publicKey, ephPrivateKey),
+      this._discv5.nodeId,
+      contact.nodeId,
+      challengeData
+    )
+    const record = this._discv5.record
+    const nonce = randomBytes(12)
+    const maskingIv = randomBytes(16)
+    const headerData = encodeHeader({
+      flag: PacketFlag.HANDSHAKE,
+      nonce,
+      authdata: handshakeAuthdata.encode({
+        srcId: this._discv5.nodeId,
+        signature: idSign(this._privateKey, challengeData, ephPublicKey, contact.nodeId),
+        ephPublicKey,
+        // Only send the record along if the remote node doesn't know the latest one
+        record: enrSeq < record.seq ? record.encode() : Buffer.alloc(0),
+      }),
+    })
+    const ct = encryptMessage(
+      keys.initiatorKey,
+      nonce,
+      message,
+      associatedData(maskingIv, headerData)
+    )
+    this._sessions.set(sessionKey(contact), {
+      writeKey: keys.initiatorKey,
+      readKey: keys.recipientKey,
+    })
+
+    this.debug('handshake', `send handshake to ${contact.address}:${contact.udpPort}`)
+    this._sendPacket(contact, encodePacket(contact.nodeId, maskingIv, headerData, ct))
+  }
+
+  _handleHandshake(packet: Packet, rinfo: RemoteInfo) {
+    const auth = handshakeAuthdata.decode(packet.header.authdata)
+    const contact: Discv5Contact = {
+      nodeId: auth.srcId,
+      address: rinfo.address,
+      udpPort: rinfo.port,
+    }
+    const ckey = sessionKey(contact)
+    const challenge = this._challenges.get(ckey)
+    if (challenge === undefined) {
+      this._debug(`unsolicited handshake from ${rinfo.address}:${rinfo.port}`)
+      return
+    }
+    this._challenges.delete(ckey)
+    this.debug('handshake', `received handshake from ${rinfo.address}:${rinfo.port}`)
+
+    const record = auth.record.length > 0 ? NodeRecord.decode(auth.record) : challenge.record
+    if (record === undefined || !record.nodeId.equals(auth.srcId)) {
+      throw new Error('Invalid discv5 handshake: node record missing or not matching')
+    }
+    if (
+      !idVerify(
+        record.publicKey,
+        auth.signature,
+        challenge.challengeData,
+        auth.ephPublicKey,
+        this._discv5.nodeId
+      )
+    ) {
+      throw new Error('Invalid discv5 handshake: id signature verification failed')
+    }
+    const keys = deriveKeys(
+      ecdhCompressed(auth.ephPublicKey, this._privateKey),
+      auth.srcId,
+      this._discv5.nodeId,
+      challenge.challengeData
+    )
+    const pt = decryptMessage(
+      keys.initiatorKey,
+      packet.header.nonce,
+      packet.message,
+      associatedData(packet.maskingIv, packet.headerData)
+    )
+    this._sessions.set(ckey, { writeKey: keys.recipientKey, readKey: keys.initiatorKey })
+
+    contact.publicKey = record.publicKey
+    if (this._discv5.getRecord(auth.srcId) === undefined) {
+      this.emit('peers', [record])
+    }
+    this._handleMessage(contact, decodeMessage(pt))
+  }
+
+  _handleMessage(contact: Discv5Contact, message: Discv5Message) {
+    const typename = Discv5MessageType[message.type].toLowerCase()
+    this.debug(
+      typename,
+      `received ${typename} from ${contact.address}:${contact.udpPort} (peerId: ${formatLogId(
+        contact.nodeId.toString('hex'),
+        verbose
+      )})`
+    )
+
+    switch (message.type) {
+      case Discv5MessageType.PING: {
+        this._send(contact, {
+          type: Discv5MessageType.PONG,
+          reqId: message.reqId,
+          enrSeq: this._discv5.record.seq,
+          address: contact.address,
+          udpPort: contact.udpPort,
+        })
+        break
+      }
+
+      case Discv5MessageType.FINDNODE: {
+        const records = this._discv5
+          .getRecordsAtDistances(message.distances)
+          .slice(0, MAX_NODES_RESPONSE)
+        // Always respond, also with an empty list
+        const total = Math.max(1, Math.ceil(records.length / NODES_PER_MESSAGE))
+        for (let i = 0; i < total; i++) {
+          this._send(contact, {
+            type: Discv5MessageType.NODES,
+            reqId: message.reqId,
+            total,
+            records: records.slice(i * NODES_PER_MESSAGE, (i + 1) * NODES_PER_MESSAGE),
+          })
+        }
+        break
+      }
+
+      case Discv5MessageType.TALKREQ: {
+        this._discv5
+          .handleTalkRequest(message.protocol, message.request, contact)
+          .then((response) => {
+            this._send(contact, {
+              type: Discv5MessageType.TALKRESP,
+              reqId: message.reqId,
+              response,
+            })
+          })
+          .catch((err) => this.emit('error', err))
+        break
+      }
+
+      default:
+        this._handleResponse(contact, message)
+    }
+  }
+
+  _handleResponse(contact: Discv5Contact, message: Discv5Message) {
+    const rkey = message.reqId.toString('hex')
+    const request = this._requests.get(rkey)
+    if (
+      request === undefined ||
+      request.responseType !== message.type ||
+      !request.contact.nodeId.equals(contact.nodeId)
+    ) {
+      return
+    }
+    if (message.type === Discv5MessageType.NODES) {
+      request.records.push(...message.records)
+      // Responses might be split up into several NODES messages
+      request.received++
+      if (request.received < Math.min(message.total, MAX_NODES_RESPONSE)) return
+      request.deferred.resolve(request.records)
+    } else {
+      request.deferred.resolve(message)
+    }
+    clearTimeout(request.timeoutId)
+    this._requests.delete(rkey)
+  }
+
+  /**
+   * Debug message both on the generic as well as the
+   * per-message debug logger
+   * @param messageName Lower capital message name (e.g. `findnode`)
+   * @param msg Message text to debug
+   */
+  private debug(messageName: string, msg: string) {
+    this._debug.extend(messageName)(msg)
+  }
+}
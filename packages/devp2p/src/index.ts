@@ -1,3 +1,4 @@
+export * from './discv5'
 export * from './dns'
 export * from './dpt'
 export * from './protocol'
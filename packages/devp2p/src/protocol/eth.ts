@@ -52,6 +52,8 @@ export class ETH extends Protocol {
   static eth64 = { name: 'eth', version: 64, length: 17, constructor: ETH }
   static eth65 = { name: 'eth', version: 65, length: 17, constructor: ETH }
   static eth66 = { name: 'eth', version: 66, length: 17, constructor: ETH }
+  static eth67 = { name: 'eth', version: 67, length: 17, constructor: ETH }
+  static eth68 = { name: 'eth', version: 68, length: 17, constructor: ETH }
 
   _handleMessage(code: ETH.MESSAGE_CODES, data: any) {
     const payload = arrToBufArr(RLP.decode(bufArrToArr(data)))
@@ -94,14 +96,24 @@ export class ETH extends Protocol {
         if (this._version >= ETH.eth62.version) break
         return
 
-      case ETH.MESSAGE_CODES.GET_NODE_DATA:
-      case ETH.MESSAGE_CODES.NODE_DATA:
       case ETH.MESSAGE_CODES.GET_RECEIPTS:
       case ETH.MESSAGE_CODES.RECEIPTS:
         if (this._version >= ETH.eth63.version) break
         return
 
+      // Removed with eth67
+      case ETH.MESSAGE_CODES.GET_NODE_DATA:
+      case ETH.MESSAGE_CODES.NODE_DATA:
+        if (this._version >= ETH.eth63.version && this._version < ETH.eth67.version) break
+        return
+
       case ETH.MESSAGE_CODES.NEW_POOLED_TRANSACTION_HASHES:
+        if (this._version >= ETH.eth65.version) {
+          this._validatePooledTransactionHashes(payload)
+          break
+        }
+        return
+
       case ETH.MESSAGE_CODES.GET_POOLED_TRANSACTIONS:
       case ETH.MESSAGE_CODES.POOLED_TRANSACTIONS:
         if (this._version >= ETH.eth65.version) break
@@ -114,6 +126,31 @@ export class ETH extends Protocol {
     this.emit('message', code, payload)
   }
 
+  /**
+   * Validates the format of a NewPooledTransactionHashes payload, which is a list of
+   * tx hashes before eth68 and the tx types, sizes and hashes from eth68 on (EIP-5793)
+   * @param payload Decoded message payload
+   */
+  _validatePooledTransactionHashes(payload: any) {
+    if (this._version < ETH.eth68.version) {
+      if (!Array.isArray(payload) || !payload.every((hash: any) => Buffer.isBuffer(hash))) {
+        throw new Error(`Invalid NewPooledTransactionHashes format for eth${this._version}`)
+      }
+      return
+    }
+    const [types, sizes, hashes] = payload
+    if (
+      payload.length !== 3 ||
+      !Buffer.isBuffer(types) ||
+      !Array.isArray(sizes) ||
+      !Array.isArray(hashes) ||
+      types.length !== hashes.length ||
+      sizes.length !== hashes.length
+    ) {
+      throw new Error(`Invalid NewPooledTransactionHashes format for eth${this._version}`)
+    }
+  }
+
   /**
    * Eth 64 Fork ID validation (EIP-2124)
    * @param forkId Remote fork ID
@@ -319,14 +356,24 @@ export class ETH extends Protocol {
         if (this._version >= ETH.eth62.version) break
         throw new Error(`Code ${code} not allowed with version ${this._version}`)
 
-      case ETH.MESSAGE_CODES.GET_NODE_DATA:
-      case ETH.MESSAGE_CODES.NODE_DATA:
       case ETH.MESSAGE_CODES.GET_RECEIPTS:
       case ETH.MESSAGE_CODES.RECEIPTS:
         if (this._version >= ETH.eth63.version) break
         throw new Error(`Code ${code} not allowed with version ${this._version}`)
 
+      // Removed with eth67
+      case ETH.MESSAGE_CODES.GET_NODE_DATA:
+      case ETH.MESSAGE_CODES.NODE_DATA:
+        if (this._version >= ETH.eth63.version && this._version < ETH.eth67.version) break
+        throw new Error(`Code ${code} not allowed with version ${this._version}`)
+
       case ETH.MESSAGE_CODES.NEW_POOLED_TRANSACTION_HASHES:
+        if (this._version >= ETH.eth65.version) {
+          this._validatePooledTransactionHashes(payload)
+          break
+        }
+        throw new Error(`Code ${code} not allowed with version ${this._version}`)
+
       case ETH.MESSAGE_CODES.GET_POOLED_TRANSACTIONS:
       case ETH.MESSAGE_CODES.POOLED_TRANSACTIONS:
         if (this._version >= ETH.eth65.version) break
@@ -378,7 +425,7 @@ export namespace ETH {
     GET_RECEIPTS = 0x0f,
     RECEIPTS = 0x10,
 
-    // eth65
+    // eth65 (eth68: with tx types and sizes)
     NEW_POOLED_TRANSACTION_HASHES = 0x08,
     GET_POOLED_TRANSACTIONS = 0x09,
     POOLED_TRANSACTIONS = 0x0a,
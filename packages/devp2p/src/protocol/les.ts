@@ -65,13 +65,8 @@ export class LES extends Protocol {
       case LES.MESSAGE_CODES.BLOCK_BODIES:
       case LES.MESSAGE_CODES.GET_RECEIPTS:
       case LES.MESSAGE_CODES.RECEIPTS:
-      case LES.MESSAGE_CODES.GET_PROOFS:
-      case LES.MESSAGE_CODES.PROOFS:
       case LES.MESSAGE_CODES.GET_CONTRACT_CODES:
       case LES.MESSAGE_CODES.CONTRACT_CODES:
-      case LES.MESSAGE_CODES.GET_HEADER_PROOFS:
-      case LES.MESSAGE_CODES.HEADER_PROOFS:
-      case LES.MESSAGE_CODES.SEND_TX:
       case LES.MESSAGE_CODES.GET_PROOFS_V2:
       case LES.MESSAGE_CODES.PROOFS_V2:
       case LES.MESSAGE_CODES.GET_HELPER_TRIE_PROOFS:
@@ -82,6 +77,15 @@ export class LES extends Protocol {
         if (this._version >= LES.les2.version) break
         return
 
+      // Replaced by GET_PROOFS_V2, GET_HELPER_TRIE_PROOFS and SEND_TX_V2 with LES/2
+      case LES.MESSAGE_CODES.GET_PROOFS:
+      case LES.MESSAGE_CODES.PROOFS:
+      case LES.MESSAGE_CODES.GET_HEADER_PROOFS:
+      case LES.MESSAGE_CODES.HEADER_PROOFS:
+      case LES.MESSAGE_CODES.SEND_TX:
+        if (this._version < LES.les2.version) break
+        return
+
       case LES.MESSAGE_CODES.STOP_MSG:
       case LES.MESSAGE_CODES.RESUME_MSG:
         if (this._version >= LES.les3.version) break
@@ -215,13 +219,8 @@ export class LES extends Protocol {
       case LES.MESSAGE_CODES.BLOCK_BODIES:
       case LES.MESSAGE_CODES.GET_RECEIPTS:
       case LES.MESSAGE_CODES.RECEIPTS:
-      case LES.MESSAGE_CODES.GET_PROOFS:
-      case LES.MESSAGE_CODES.PROOFS:
       case LES.MESSAGE_CODES.GET_CONTRACT_CODES:
       case LES.MESSAGE_CODES.CONTRACT_CODES:
-      case LES.MESSAGE_CODES.GET_HEADER_PROOFS:
-      case LES.MESSAGE_CODES.HEADER_PROOFS:
-      case LES.MESSAGE_CODES.SEND_TX:
       case LES.MESSAGE_CODES.GET_PROOFS_V2: // LES/2
       case LES.MESSAGE_CODES.PROOFS_V2:
       case LES.MESSAGE_CODES.GET_HELPER_TRIE_PROOFS:
@@ -232,6 +231,15 @@ export class LES extends Protocol {
         if (this._version >= LES.les2.version) break
         throw new Error(`Code ${code} not allowed with version ${this._version}`)
 
+      // Replaced by GET_PROOFS_V2, GET_HELPER_TRIE_PROOFS and SEND_TX_V2 with LES/2
+      case LES.MESSAGE_CODES.GET_PROOFS:
+      case LES.MESSAGE_CODES.PROOFS:
+      case LES.MESSAGE_CODES.GET_HEADER_PROOFS:
+      case LES.MESSAGE_CODES.HEADER_PROOFS:
+      case LES.MESSAGE_CODES.SEND_TX:
+        if (this._version < LES.les2.version) break
+        throw new Error(`Code ${code} not allowed with version ${this._version}`)
+
       case LES.MESSAGE_CODES.STOP_MSG:
       case LES.MESSAGE_CODES.RESUME_MSG:
         if (this._version >= LES.les3.version) break
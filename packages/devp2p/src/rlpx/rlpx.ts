@@ -10,6 +10,7 @@ import { buffer2int, createDeferred, devp2pDebug, formatLogId, pk2id } from '../
 
 import { DISCONNECT_REASONS, Peer } from './peer'
 
+import type { Discv5 } from '../discv5'
 import type { DPT, PeerInfo } from '../dpt'
 import type { Capabilities } from './peer'
 import type { Common } from '@ethereumjs/common'
@@ -26,6 +27,7 @@ export interface RLPxOptions {
   /* Timeout (default: 10s) */
   timeout?: number
   dpt?: DPT | null
+  discv5?: Discv5 | null
   /* Max peers (default: 10) */
   maxPeers?: number
   remoteClientIdFilter?: string[]
@@ -46,6 +48,7 @@ export class RLPx extends EventEmitter {
   _common: Common
   _listenPort: number | null
   _dpt: DPT | null
+  _discv5: Discv5 | null
 
   _peersLRU: LRUCache<string, boolean>
   _peersQueue: { peer: PeerInfo; ts: number }[]
@@ -74,12 +77,14 @@ export class RLPx extends EventEmitter {
     this._common = options.common
     this._listenPort = options.listenPort ?? null
 
-    // DPT
+    // DPT / discv5
     this._dpt = options.dpt ?? null
-    if (this._dpt !== null) {
-      this._dpt.on('peer:new', (peer: PeerInfo) => {
+    this._discv5 = options.discv5 ?? null
+    for (const discovery of [this._dpt, this._discv5]) {
+      if (discovery === null) continue
+      discovery.on('peer:new', (peer: PeerInfo) => {
         if (peer.tcpPort === null || peer.tcpPort === undefined) {
-          this._dpt!.banPeer(peer, ms('5m'))
+          discovery.banPeer(peer, ms('5m'))
           this._debug(`banning peer with missing tcp port: ${peer.address}`)
           return
         }
@@ -93,7 +98,7 @@ export class RLPx extends EventEmitter {
           this._peersQueue.push({ peer, ts: 0 }) // save to queue
         }
       })
-      this._dpt.on('peer:removed', (peer: PeerInfo) => {
+      discovery.on('peer:removed', (peer: PeerInfo) => {
         // remove from queue
         this._peersQueue = this._peersQueue.filter(
           (item) => !(item.peer.id! as Buffer).equals(peer.id as Buffer)
@@ -193,9 +198,9 @@ export class RLPx extends EventEmitter {
 
   _connectToPeer(peer: PeerInfo) {
     this.connect(peer).catch((err) => {
-      if (this._dpt === null) return
       if (err.code === 'ECONNRESET' || (err.toString() as string).includes('Connection timeout')) {
-        this._dpt.banPeer(peer, ms('5m'))
+        this._dpt?.banPeer(peer, ms('5m'))
+        this._discv5?.banPeer(peer, ms('5m'))
       }
     })
   }
@@ -0,0 +1,236 @@
+import { randomBytes } from 'crypto'
+import { publicKeyCreate } from 'ethereum-cryptography/secp256k1-compat'
+import * as test from 'tape'
+
+import {
+  Discv5MessageType,
+  NodeRecord,
+  PacketFlag,
+  decodeMessage,
+  decodePacket,
+  decryptMessage,
+  deriveKeys,
+  ecdhCompressed,
+  encodeHeader,
+  encodeMessage,
+  encodePacket,
+  encryptMessage,
+  genPrivateKey,
+  idSign,
+  idVerify,
+  logDistance,
+  whoareyouAuthdata,
+} from '../src'
+
+import type { NodesMessage, PongMessage } from '../src'
+
+// Test vectors from the discv5 wire spec and EIP-778
+
+const privateKey = Buffer.from(
+  'b71c71a67e1177ad4e901695e1b4b9ee17ae16c6668d313eac2f96dbcda3f291',
+  'hex'
+)
+const enrTxt =
+  'enr:-IS4QHCYrYZbAKWCBRlAy5zzaDZXJBGkcnh4MHcBFZntXNFrdvJjX04jRzjzCBOonrkTfj499SZuOh8R33Ls8RRcy5wBgmlkgnY0gmlwhH8AAAGJc2VjcDI1NmsxoQPKY0yuDUmstAHYpMa2_oxVtw0RW_QAdpzBQA8yWM0xOIN1ZHCCdl8'
+const nodeId = 'a448f24c6d18e575453db13171562b71999873db5b286df957af199ec94617f7'
+
+const ephemeralKey = Buffer.from(
+  'fb757dc581730490a1d7a00deea65e9b1936924caaea8f44d476014856b68736',
+  'hex'
+)
+const ephemeralPubkey = Buffer.from(
+  '039961e4c2356d61bedb83052c115d311acb3a96f5777296dcf297351130266231',
+  'hex'
+)
+const nodeIdA = Buffer.from(
+  'aaaa8419e9f49d0083561b48287df592939a8d19947d8c0ef88f2a4856a69fbb',
+  'hex'
+)
+const nodeIdB = Buffer.from(
+  'bbbb9d047f0488c0b5a93c1c3f2d8bafc7c8ff337024a55434a0d0555de64db9',
+  'hex'
+)
+const challengeData = Buffer.from(
+  '000000000000000000000000000000006469736376350001010102030405060708090a0b0c00180102030405060708090a0b0c0d0e0f100000000000000000',
+  'hex'
+)
+
+test('ENR: should create the record from the EIP-778 example', (t) => {
+  const record = NodeRecord.create(privateKey, { address: '127.0.0.1', udpPort: 30303 })
+  t.equal(record.seq, BigInt(1), 'should start with sequence number 1')
+  t.equal(record.encodeTxt(), enrTxt, 'should encode the record text')
+  t.equal(record.nodeId.toString('hex'), nodeId, 'should derive the node id')
+  t.end()
+})
+
+test('ENR: should decode and verify a text encoded record', (t) => {
+  const record = NodeRecord.decodeTxt(enrTxt)
+  t.ok(record.verify(), 'should verify the signature')
+  t.equal(record.peerInfo.address, '127.0.0.1', 'should decode the ip')
+  t.equal(record.peerInfo.udpPort, 30303, 'should decode the udp port')
+  t.equal(record.peerInfo.tcpPort, null, 'should have no tcp port')
+  t.ok(NodeRecord.decode(record.encode()).encode().equals(record.encode()), 'should round-trip')
+  t.end()
+})
+
+test('ENR: should update and re-sign a record', (t) => {
+  const record = NodeRecord.create(privateKey, { address: '127.0.0.1', udpPort: 30303 })
+  record.update({ tcp: Buffer.from([0x76, 0x5f]) }, privateKey)
+  t.equal(record.seq, BigInt(2), 'should increment the sequence number')
+  const decoded = NodeRecord.decode(record.encode())
+  t.equal(decoded.peerInfo.tcpPort, 30303, 'should contain the updated key')
+  t.throws(
+    () => record.update({ udp: Buffer.from([0x01]) }, genPrivateKey()),
+    /Private key does not match/,
+    'should throw on a foreign private key'
+  )
+  t.end()
+})
+
+test('ENR: should reject invalid records', (t) => {
+  const raw = NodeRecord.decodeTxt(enrTxt).encode()
+  // Flip a bit of the signature
+  raw[5] ^= 0x01
+  t.throws(() => NodeRecord.decode(raw), /Unable to verify ENR signature/, 'bad signature')
+  t.throws(() => NodeRecord.decodeTxt(enrTxt.slice(4)), /must start with 'enr:'/, 'bad prefix')
+  t.end()
+})
+
+test('discv5 crypto: ECDH', (t) => {
+  const publicKey = Buffer.from(
+    '039961e4c2356d61bedb83052c115d311acb3a96f5777296dcf297351130266231',
+    'hex'
+  )
+  const secretKey = Buffer.from(
+    'fb757dc581730490a1d7a00deea65e9b1936924caaea8f44d476014856b68736',
+    'hex'
+  )
+  t.equal(
+    ecdhCompressed(publicKey, secretKey).toString('hex'),
+    '033b11a2a1f214567e1537ce5e509ffd9b21373247f2a3ff6841f4976f53165e7e',
+    'should compute the shared secret'
+  )
+  t.end()
+})
+
+test('discv5 crypto: key derivation', (t) => {
+  const destPubkey = Buffer.from(
+    '0317931e6e0840220642f230037d285d122bc59063221ef3226b1f403ddc69ca91',
+    'hex'
+  )
+  const secret = ecdhCompressed(destPubkey, ephemeralKey)
+  const keys = deriveKeys(secret, nodeIdA, nodeIdB, challengeData)
+  t.equal(
+    keys.initiatorKey.toString('hex'),
+    'dccc82d81bd610f4f76d3ebe97a40571',
+    'should derive the initiator key'
+  )
+  t.equal(
+    keys.recipientKey.toString('hex'),
+    'ac74bb8773749920b0d3a8881c173ec5',
+    'should derive the recipient key'
+  )
+  t.end()
+})
+
+test('discv5 crypto: id nonce signing', (t) => {
+  const signature = idSign(ephemeralKey, challengeData, ephemeralPubkey, nodeIdB)
+  t.equal(
+    signature.toString('hex'),
+    '94852a1e2318c4e5e9d422c98eaf19d1d90d876b29cd06ca7cb7546d0fff7b484fe86c09a064fe72bdbef73ba8e9c34df0cd2b53e9d65528c2c7f336d5dfc6e6',
+    'should create the id signature'
+  )
+  const staticPubkey = Buffer.from(publicKeyCreate(ephemeralKey, true))
+  t.ok(
+    idVerify(staticPubkey, signature, challengeData, ephemeralPubkey, nodeIdB),
+    'should verify the id signature'
+  )
+  t.notOk(
+    idVerify(staticPubkey, signature, challengeData, ephemeralPubkey, nodeIdA),
+    'should not verify for another node id'
+  )
+  t.end()
+})
+
+test('discv5 crypto: AES-GCM message encryption', (t) => {
+  const key = Buffer.from('9f2d77db7004bf8a1a85107ac686990b', 'hex')
+  const nonce = Buffer.from('27b5af763c446acd2749fe8e', 'hex')
+  const pt = Buffer.from('01c20101', 'hex')
+  const ad = Buffer.from('93a7400fa0d6a694ebc24d5cf570f65d04215b6ac00757875e3f3a5f42107903', 'hex')
+  const ct = encryptMessage(key, nonce, pt, ad)
+  t.equal(ct.toString('hex'), 'a5d12a2d94b8ccb3ba55558229867dc13bfa3648', 'should encrypt')
+  t.ok(decryptMessage(key, nonce, ct, ad).equals(pt), 'should decrypt')
+  t.throws(
+    () => decryptMessage(key, nonce, ct, randomBytes(32)),
+    'should fail authentication on other associated data'
+  )
+  t.end()
+})
+
+test('discv5 messages: should round-trip messages', (t) => {
+  const reqId = Buffer.from('00000001', 'hex')
+  const pong = decodeMessage(
+    encodeMessage({
+      type: Discv5MessageType.PONG,
+      reqId,
+      enrSeq: BigInt(3),
+      address: '127.0.0.1',
+      udpPort: 30303,
+    })
+  ) as PongMessage
+  t.equal(pong.type, Discv5MessageType.PONG, 'should decode the message type')
+  t.equal(pong.enrSeq, BigInt(3), 'should decode the sequence number')
+  t.equal(pong.address, '127.0.0.1', 'should decode the address')
+  t.equal(pong.udpPort, 30303, 'should decode the port')
+
+  t.deepEqual(
+    decodeMessage(encodeMessage({ type: Discv5MessageType.FINDNODE, reqId, distances: [0, 255] })),
+    { type: Discv5MessageType.FINDNODE, reqId, distances: [0, 255] },
+    'should round-trip FINDNODE distances'
+  )
+
+  const record = NodeRecord.decodeTxt(enrTxt)
+  const nodes = decodeMessage(
+    encodeMessage({ type: Discv5MessageType.NODES, reqId, total: 1, records: [record] })
+  ) as NodesMessage
+  t.equal(nodes.records[0].encodeTxt(), enrTxt, 'should round-trip NODES records')
+
+  t.throws(() => decodeMessage(Buffer.from('ffc0', 'hex')), /Invalid discv5 message type/)
+  t.end()
+})
+
+test('discv5 packets: should mask and unmask packets', (t) => {
+  const nonce = randomBytes(12)
+  const maskingIv = randomBytes(16)
+  const idNonce = randomBytes(16)
+  const headerData = encodeHeader({
+    flag: PacketFlag.WHOAREYOU,
+    nonce,
+    authdata: whoareyouAuthdata.encode({ idNonce, enrSeq: BigInt(2) }),
+  })
+  const data = encodePacket(nodeIdB, maskingIv, headerData, Buffer.alloc(0))
+  t.equal(data.length, 63, 'should encode a WHOAREYOU packet with min packet size')
+
+  const packet = decodePacket(nodeIdB, data)
+  t.equal(packet.header.flag, PacketFlag.WHOAREYOU, 'should decode the flag')
+  t.ok(packet.header.nonce.equals(nonce), 'should decode the nonce')
+  t.ok(packet.headerData.equals(headerData), 'should unmask the header')
+  t.deepEqual(
+    whoareyouAuthdata.decode(packet.header.authdata),
+    { idNonce, enrSeq: BigInt(2) },
+    'should decode the authdata'
+  )
+  t.throws(() => decodePacket(nodeIdA, data), /Invalid discv5 packet header/, 'wrong dest id')
+  t.end()
+})
+
+test('discv5: log distance', (t) => {
+  t.equal(logDistance(nodeIdA, nodeIdA), 0, 'equal ids')
+  t.equal(logDistance(nodeIdA, nodeIdB), 253, 'differing in the first byte')
+  const id = Buffer.from(nodeIdA)
+  id[31] ^= 0x01
+  t.equal(logDistance(nodeIdA, id), 1, 'lowest bit differing')
+  id[0] ^= 0x80
+  t.equal(logDistance(nodeIdA, id), 256, 'highest bit differing')
+  t.end()
+})
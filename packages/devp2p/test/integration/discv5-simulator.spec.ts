@@ -0,0 +1,110 @@
+import * as test from 'tape'
+
+import { Discv5, genPrivateKey, logDistance } from '../../src'
+
+import * as util from './util'
+
+const basePort = util.basePort + 20
+
+function getTestDiscv5s(numNodes: number) {
+  const nodes = []
+  for (let i = 0; i < numNodes; ++i) {
+    const discv5 = new Discv5(genPrivateKey(), {
+      endpoint: {
+        address: util.localhost,
+        udpPort: basePort + i,
+        tcpPort: basePort + i,
+      },
+      timeout: 500,
+    })
+    discv5.bind(basePort + i)
+    nodes.push(discv5)
+  }
+  return nodes
+}
+
+function destroyDiscv5s(nodes: Discv5[]) {
+  for (const node of nodes) node.destroy()
+}
+
+test('discv5: add peer with WHOAREYOU handshake', async (t) => {
+  const nodes = getTestDiscv5s(2)
+
+  const peer = await nodes[0].addPeer(nodes[1].record)
+  t.equal(peer.address, util.localhost, 'should return the peer info')
+  t.equal(peer.tcpPort, basePort + 1, 'should take the tcp port from the record')
+  t.equal(nodes[0].getPeers().length, 1, 'should have added the peer to the table')
+
+  await util.delay(300)
+  t.ok(
+    nodes[1].getRecord(nodes[0].nodeId) !== undefined,
+    'should have added the handshake initiator on the remote side'
+  )
+  destroyDiscv5s(nodes)
+  t.end()
+})
+
+test('discv5: find nodes by distance', async (t) => {
+  const nodes = getTestDiscv5s(3)
+
+  await nodes[1].addPeer(nodes[2].record)
+  const own = await nodes[0].findNode(nodes[1].record, [0])
+  t.equal(own.length, 1, 'should return the record at distance 0')
+  t.ok(own[0].nodeId.equals(nodes[1].nodeId), 'should return the own record of the peer')
+
+  const distance = logDistance(nodes[1].nodeId, nodes[2].nodeId)
+  const records = await nodes[0].findNode(nodes[1].record, [distance])
+  t.equal(records.length, 1, 'should return the records at the requested distance')
+  t.ok(records[0].nodeId.equals(nodes[2].nodeId), 'should return the record of the third node')
+
+  destroyDiscv5s(nodes)
+  t.end()
+})
+
+test('discv5: talk request', async (t) => {
+  const nodes = getTestDiscv5s(2)
+
+  nodes[1].registerTalkProtocol('echo', (request, peer) => {
+    t.equal(peer.address, util.localhost, 'should pass the requesting peer to the handler')
+    return Buffer.concat([Buffer.from('echo:'), request])
+  })
+  const response = await nodes[0].talkReq(nodes[1].record, 'echo', Buffer.from('hello'))
+  t.equal(response.toString(), 'echo:hello', 'should receive the handler response')
+
+  const unknown = await nodes[0].talkReq(nodes[1].record, 'unknown', Buffer.from('hello'))
+  t.equal(unknown.length, 0, 'should receive an empty response for an unknown protocol')
+
+  destroyDiscv5s(nodes)
+  t.end()
+})
+
+test('discv5: record updates are picked up on revalidation', async (t) => {
+  const nodes = getTestDiscv5s(2)
+
+  await nodes[0].addPeer(nodes[1].record)
+  nodes[1].updateRecord({ tcp: Buffer.from([0x76, 0x5f]) })
+  await nodes[0].revalidatePeer(nodes[1].record)
+  const record = nodes[0].getRecord(nodes[1].nodeId)!
+  t.equal(record.seq, BigInt(2), 'should have fetched the updated record')
+  t.equal(record.peerInfo.tcpPort, 30303, 'should contain the updated value')
+
+  destroyDiscv5s(nodes)
+  t.end()
+})
+
+test('discv5: unreachable peer is banned', async (t) => {
+  const nodes = getTestDiscv5s(2)
+  const record = nodes[1].record
+  nodes[1].destroy()
+
+  try {
+    await nodes[0].addPeer(record)
+    t.fail('should have thrown')
+  } catch (e: any) {
+    t.ok(e.message.includes('Timeout error: ping'), 'should time out')
+  }
+  t.ok(nodes[0].banlist.has(record.peerInfo), 'should have banned the peer')
+
+  nodes[0].destroy()
+  t.end()
+})
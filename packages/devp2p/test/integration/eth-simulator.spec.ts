@@ -138,6 +138,48 @@ test('ETH: send not-allowed eth64', (t) => {
   sendNotAllowed(t, 64, [devp2p.ETH.eth64], ETH.MESSAGE_CODES.POOLED_TRANSACTIONS)
 })
 
+test('ETH: should work with allowed eth67', (t) => {
+  const cap = [devp2p.ETH.eth67]
+  sendWithProtocolVersion(t, 67, cap)
+})
+
+test('ETH: send not-allowed eth67', (t) => {
+  sendNotAllowed(t, 67, [devp2p.ETH.eth67], ETH.MESSAGE_CODES.GET_NODE_DATA)
+})
+
+test('ETH: should work with allowed eth68', (t) => {
+  const cap = [devp2p.ETH.eth68]
+  sendWithProtocolVersion(t, 68, cap)
+})
+
+test('ETH -> Eth68 -> send NewPooledTransactionHashes with tx types and sizes', (t) => {
+  const opts: any = {}
+  const hashes = [Buffer.alloc(32, 1), Buffer.alloc(32, 2)]
+  opts.status0 = Object.assign({}, status)
+  opts.status1 = Object.assign({}, status)
+  opts.onOnceStatus0 = function (rlpxs: any, eth: any) {
+    t.throws(
+      () => eth.sendMessage(ETH.MESSAGE_CODES.NEW_POOLED_TRANSACTION_HASHES, hashes),
+      /Invalid NewPooledTransactionHashes format for eth68/,
+      'should throw on eth65 format'
+    )
+    eth.sendMessage(ETH.MESSAGE_CODES.NEW_POOLED_TRANSACTION_HASHES, [
+      Buffer.from([0, 2]),
+      [devp2p.int2buffer(100), devp2p.int2buffer(200)],
+      hashes,
+    ])
+  }
+  opts.onOnMsg1 = function (rlpxs: any, eth: any, code: any, payload: any) {
+    if (code === ETH.MESSAGE_CODES.NEW_POOLED_TRANSACTION_HASHES) {
+      t.deepEqual(payload[0], Buffer.from([0, 2]), 'should receive tx types')
+      t.deepEqual(payload[2], hashes, 'should receive tx hashes')
+      util.destroyRLPXs(rlpxs)
+      t.end()
+    }
+  }
+  util.twoPeerMsgExchange(t, opts, [devp2p.ETH.eth68])
+})
+
 test('ETH -> Eth64 -> ForkId validation 1a)', (t) => {
   const opts: any = {}
   const cap = [devp2p.ETH.eth64]
@@ -100,6 +100,44 @@ test('LES: send valid message', (t) => {
   util.twoPeerMsgExchange(t, opts, capabilities)
 })
 
+test('LES: send not-allowed LES/1 message', (t) => {
+  const opts: any = {}
+  opts.status0 = Object.assign({}, status)
+  opts.status1 = Object.assign({}, status)
+  opts.onOnceStatus0 = function (rlpxs: any, les: any) {
+    try {
+      les.sendMessage(devp2p.LES.MESSAGE_CODES.GET_PROOFS, [1, []])
+    } catch (err: any) {
+      const msg = 'Error: Code 8 not allowed with version 4'
+      t.equal(err.toString(), msg, `should emit error: ${msg}`)
+      util.destroyRLPXs(rlpxs)
+      t.end()
+    }
+  }
+  util.twoPeerMsgExchange(t, opts, capabilities)
+})
+
+test('LES: send valid proof request', (t) => {
+  const opts: any = {}
+  opts.status0 = Object.assign({}, status)
+  opts.status1 = Object.assign({}, status)
+  opts.onOnceStatus0 = function (rlpxs: any, les: any) {
+    les.sendMessage(devp2p.LES.MESSAGE_CODES.GET_PROOFS_V2, [
+      1,
+      [[Buffer.alloc(32), Buffer.alloc(0), Buffer.alloc(32), 0]],
+    ])
+    t.pass('should send GET_PROOFS_V2 message')
+  }
+  opts.onOnMsg1 = function (rlpxs: any, les: any, code: any) {
+    if (code === devp2p.LES.MESSAGE_CODES.GET_PROOFS_V2) {
+      t.pass('should receive GET_PROOFS_V2 message')
+      util.destroyRLPXs(rlpxs)
+      t.end()
+    }
+  }
+  util.twoPeerMsgExchange(t, opts, capabilities)
+})
+
 test('LES: send unknown message code', (t) => {
   const opts: any = {}
   opts.status0 = Object.assign({}, status)
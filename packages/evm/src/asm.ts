@@ -0,0 +1,226 @@
+import { Chain, Common } from '@ethereumjs/common'
+import { bigIntToBuffer, setLengthLeft, toBuffer } from '@ethereumjs/util'
+
+import { codeAnalysis, instructionSize } from './eof'
+import { getOpcodesForHF } from './opcodes'
+
+import type { OpcodeList } from './opcodes'
+import type { CustomOpcode } from './types'
+
+/**
+ * Instruction returned by {@link disassemble}
+ */
+export interface Instruction {
+  /** Position in the code (relative to the code section for EOF containers) */
+  pc: number
+  opcode: number
+  /** Name of the opcode (e.g. `PUSH1`), `INVALID` for opcodes not active for the hardfork */
+  name: string
+  /** Push data or immediate arguments of the EOF opcodes (truncated if the code ends early) */
+  data?: Buffer
+  /**
+   * True if the instruction can be jumped to: a `JUMPDEST` in legacy code
+   * or the target of a relative jump in an EOF code section
+   */
+  isJumpDest: boolean
+  /** Index of the code section for EOF containers */
+  section?: number
+}
+
+const getOpcodes = (common?: Common, customOpcodes?: CustomOpcode[]): OpcodeList =>
+  getOpcodesForHF(common ?? new Common({ chain: Chain.Mainnet }), customOpcodes).opcodes
+
+const disassembleLegacy = (code: Buffer, opcodes: OpcodeList): Instruction[] => {
+  const instructions: Instruction[] = []
+  for (let pc = 0; pc < code.length; pc++) {
+    const opcode = code[pc]
+    const instruction: Instruction = {
+      pc,
+      opcode,
+      name: opcodes.get(opcode)?.fullName ?? 'INVALID',
+      isJumpDest: opcode === 0x5b,
+    }
+    if (opcode >= 0x60 && opcode <= 0x7f) {
+      instruction.data = code.slice(pc + 1, pc + opcode - 0x5e)
+      pc += opcode - 0x5f
+    }
+    instructions.push(instruction)
+  }
+  return instructions
+}
+
+const disassembleSection = (code: Buffer, opcodes: OpcodeList, section: number): Instruction[] => {
+  const instructions: Instruction[] = []
+  const jumpDests = new Set<number>()
+  for (let pc = 0; pc < code.length; ) {
+    const opcode = code[pc]
+    const size = instructionSize(code, pc)
+    const instruction: Instruction = {
+      pc,
+      opcode,
+      name: opcodes.get(opcode)?.fullName ?? 'INVALID',
+      isJumpDest: false,
+      section,
+    }
+    if (size > 1) {
+      instruction.data = code.slice(pc + 1, pc + size)
+    }
+    // Relative jump offsets (EIP-4200) are signed and relative to the next instruction
+    if (opcode === 0x5c || opcode === 0x5d) {
+      if (pc + 3 <= code.length) jumpDests.add(pc + 3 + code.readInt16BE(pc + 1))
+    } else if (opcode === 0x5e) {
+      for (let i = 0; i < code[pc + 1] && pc + 4 + i * 2 <= code.length; i++) {
+        jumpDests.add(pc + size + code.readInt16BE(pc + 2 + i * 2))
+      }
+    }
+    instructions.push(instruction)
+    pc += size
+  }
+  for (const instruction of instructions) {
+    instruction.isJumpDest = jumpDests.has(instruction.pc)
+  }
+  return instructions
+}
+
+/**
+ * Disassembles bytecode into its instructions, using the opcodes of the hardfork
+ * and EIPs active in `common` (default: mainnet with the default hardfork).
+ *
+ * EOF containers (with EIP-3540 activated) are disassembled by code section,
+ * the header and the data section are not part of the result.
+ * @param code The bytecode
+ * @param common Common providing the active hardfork and EIPs
+ * @param customOpcodes Custom opcodes, see the `customOpcodes` option of the {@link EVM}
+ */
+export function disassemble(
+  code: Buffer,
+  common?: Common,
+  customOpcodes?: CustomOpcode[]
+): Instruction[] {
+  const opcodes = getOpcodes(common, customOpcodes)
+  const container = common?.isActivatedEIP(3540) === true ? codeAnalysis(code, common) : undefined
+  if (container === undefined) {
+    return disassembleLegacy(code, opcodes)
+  }
+  return container.codeSections.flatMap((section, i) => disassembleSection(section, opcodes, i))
+}
+
+interface LabelReference {
+  label: string
+  /** Width of the push data the label position is written to */
+  width: number
+  line: number
+}
+
+// Width of the push data for label positions, large enough for the maximum initcode size
+const LABEL_WIDTH = 2
+
+/**
+ * Assembles the text of an assembly program into bytecode, the program consists of
+ * whitespace separated tokens (`//` starts a comment until the end of the line):
+ *
+ * - Opcode names (case insensitive), e.g. `ADD` or `PUSH1 0x01`
+ * - `PUSH <value>`, pushing the value with the smallest `PUSHn` fitting it
+ * - Labels defined as `name:` and referenced as `@name` by `JUMP`, `JUMPI` and `PUSHn`,
+ *   e.g. `JUMP @loop` assembles to `PUSH2 <position of loop> JUMP`
+ *   (labels don't add a `JUMPDEST`, it has to be written after the label)
+ * - Hex values (e.g. `0x5c0001`), which are added as raw bytes (e.g. for data or EOF immediates)
+ *
+ * Push values are either decimal or hex numbers, hex values keep their leading zeros.
+ * @param text The assembly program
+ * @param common Common providing the opcodes of the active hardfork and EIPs (default: mainnet)
+ * @param customOpcodes Custom opcodes, see the `customOpcodes` option of the {@link EVM}
+ */
+export function assemble(text: string, common?: Common, customOpcodes?: CustomOpcode[]): Buffer {
+  const codes = new Map<string, number>()
+  for (const opcode of getOpcodes(common, customOpcodes).values()) {
+    codes.set(opcode.fullName, opcode.code)
+  }
+
+  const chunks: (Buffer | LabelReference)[] = []
+  const labels = new Map<string, number>()
+  let size = 0
+  const emit = (chunk: Buffer | LabelReference) => {
+    chunks.push(chunk)
+    size += Buffer.isBuffer(chunk) ? chunk.length : chunk.width
+  }
+
+  const lines = text.split('\n')
+  for (let line = 1; line <= lines.length; line++) {
+    const tokens = lines[line - 1]
+      .split('//')[0]
+      .trim()
+      .split(/\s+/)
+      .filter((t) => t !== '')
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i]
+      const error = (msg: string) => new Error(`${msg} at line ${line}: ${token}`)
+
+      if (token.endsWith(':')) {
+        const label = token.slice(0, -1)
+        if (!/^\w+$/.test(label)) throw error('Invalid label')
+        if (labels.has(label)) throw error('Duplicate label')
+        labels.set(label, size)
+        continue
+      }
+      if (token.startsWith('0x')) {
+        if (!/^0x[0-9a-fA-F]*$/.test(token)) throw error('Invalid hex value')
+        emit(toBuffer(token))
+        continue
+      }
+
+      const name = token.toUpperCase()
+      const operand = tokens[i + 1]
+      if (name === 'PUSH' || /^PUSH([1-9]|[12][0-9]|3[0-2])$/.test(name)) {
+        if (operand === undefined) throw error('Missing push value')
+        i++
+        const isLabel = operand.startsWith('@')
+        const value = isLabel ? undefined : parseValue(operand)
+        if (!isLabel && value === undefined) throw error(`Invalid push value ${operand}`)
+        const width = name === 'PUSH' ? value?.length ?? LABEL_WIDTH : Number(name.slice(4))
+        if (width > 32 || (value !== undefined && value.length > width)) {
+          throw error(`Push value ${operand} too large`)
+        }
+        emit(Buffer.from([0x5f + width]))
+        emit(isLabel ? { label: operand.slice(1), width, line } : setLengthLeft(value!, width))
+        continue
+      }
+      if ((name === 'JUMP' || name === 'JUMPI') && operand?.startsWith('@') === true) {
+        i++
+        emit(Buffer.from([0x5f + LABEL_WIDTH]))
+        emit({ label: operand.slice(1), width: LABEL_WIDTH, line })
+      }
+
+      const code = codes.get(name)
+      if (code === undefined) throw error('Unknown opcode')
+      emit(Buffer.from([code]))
+    }
+  }
+
+  return Buffer.concat(
+    chunks.map((chunk) => {
+      if (Buffer.isBuffer(chunk)) {
+        return chunk
+      }
+      const position = labels.get(chunk.label)
+      if (position === undefined) {
+        throw new Error(`Undefined label at line ${chunk.line}: @${chunk.label}`)
+      }
+      const data = bigIntToBuffer(BigInt(position))
+      if (data.length > chunk.width) {
+        throw new Error(`Label position too large at line ${chunk.line}: @${chunk.label}`)
+      }
+      return setLengthLeft(data, chunk.width)
+    })
+  )
+}
+
+// Parses a decimal or hex push value, hex values keep their length
+const parseValue = (value: string): Buffer | undefined => {
+  if (/^0x[0-9a-fA-F]+$/.test(value)) {
+    return toBuffer(value)
+  }
+  if (/^\d+$/.test(value)) {
+    return bigIntToBuffer(BigInt(value))
+  }
+}
@@ -1,75 +1,153 @@
 import { handlers } from './opcodes'
 
+import type { Common } from '@ethereumjs/common'
+
 export const FORMAT = 0xef
 export const MAGIC = 0x00
 export const VERSION = 0x01
 
+const KIND_TERMINATOR = 0x00
+const KIND_CODE = 0x01
+const KIND_DATA = 0x02
+const KIND_TYPE = 0x03
+
+// EIP-4750 limits
+const MAX_CODE_SECTIONS = 1024
+const MAX_FUNCTION_IO = 0x7f
+// EIP-5450 data stack limit
+const MAX_STACK_HEIGHT = 1024
+
+/**
+ * Number of stack items a function takes and returns (EIP-4750)
+ */
+export interface EOFFunctionType {
+  inputs: number
+  outputs: number
+}
+
+export interface EOFContainer {
+  /** Combined size of all code sections */
+  code: number
+  /** Size of the data section */
+  data: number
+  /** Function type of each code section */
+  types: EOFFunctionType[]
+  codeSections: Buffer[]
+}
+
 /**
  *
  * @param container A `Buffer` containing bytecode to be checked for EOF1 compliance
- * @returns an object containing the size of the code section and data sections for a valid
- * EOF1 container or else undefined if `container` is not valid EOF1 bytecode
+ * @param common Multiple code sections and the type section are only parsed with EIP-4750 being activated
+ * @returns an object containing the size of the code and data sections, the function types and code
+ * sections for a valid EOF1 container or else undefined if `container` is not valid EOF1 bytecode
  *
- * Note: See https://eips.ethereum.org/EIPS/eip-3540 for further details
+ * Note: See https://eips.ethereum.org/EIPS/eip-3540 and https://eips.ethereum.org/EIPS/eip-4750
+ * for further details
  */
-export const codeAnalysis = (container: Buffer) => {
-  const secCode = 0x01
-  const secData = 0x02
-  const secTerminator = 0x00
-  let computedContainerSize = 0
-  const sectionSizes = {
-    code: 0,
-    data: 0,
-  }
+export const codeAnalysis = (container: Buffer, common?: Common): EOFContainer | undefined => {
   if (container[0] !== FORMAT || container[1] !== MAGIC || container[2] !== VERSION)
     // Bytecode does not contain EOF1 "magic" or version number in expected positions
     return
 
-  if (
-    // EOF1 bytecode must be more than 7 bytes long for EOF1 header plus code section (but no data section)
-    container.length > 7 &&
-    // EOF1 code section indicator
-    container[3] === secCode &&
-    // EOF1 header terminator
-    container[6] === secTerminator
-  ) {
-    sectionSizes.code = (container[4] << 8) | container[5]
-    // Calculate expected length of EOF1 container based on code section
-    computedContainerSize = 7 + sectionSizes.code
-    // EOF1 code section must be at least 1 byte long
-    if (sectionSizes.code < 1) return
-  } else if (
-    // EOF1 container must be more than 10 bytes long if data section is included
-    container.length > 10 &&
-    // EOF1 code section indicator
-    container[3] === secCode &&
-    // EOF1 data section indicator
-    container[6] === secData &&
-    // EOF1 header terminator
-    container[9] === secTerminator
-  ) {
-    sectionSizes.code = (container[4] << 8) | container[5]
-    sectionSizes.data = (container[7] << 8) | container[8]
-    // Calculate expected length of EOF1 container based on code and data sections
-    computedContainerSize = 10 + sectionSizes.code + sectionSizes.data
-    // Code & Data sizes cannot be 0
-    if (sectionSizes.code < 1 || sectionSizes.data < 1) return
-  }
-  if (container.length !== computedContainerSize) {
+  const functions = common?.isActivatedEIP(4750) === true
+  let pos = 3
+  // Reads the 2-byte size of the section with the kind at the current position
+  const readSectionSize = () => {
+    if (pos + 3 > container.length) return
+    const size = container.readUInt16BE(pos + 1)
+    pos += 3
+    return size
+  }
+
+  let typeSize: number | undefined
+  if (functions && container[pos] === KIND_TYPE) {
+    typeSize = readSectionSize()
+    if (typeSize === undefined) return
+  }
+  const codeSizes: number[] = []
+  while (container[pos] === KIND_CODE) {
+    const codeSize = readSectionSize()
+    // EOF1 code sections must be at least 1 byte long
+    if (codeSize === undefined || codeSize < 1) return
+    codeSizes.push(codeSize)
+  }
+  if (codeSizes.length === 0 || codeSizes.length > (functions ? MAX_CODE_SECTIONS : 1)) return
+  let dataSize = 0
+  if (container[pos] === KIND_DATA) {
+    const size = readSectionSize()
+    // Data section cannot be 0 if included
+    if (size === undefined || size < 1) return
+    dataSize = size
+  }
+  if (container[pos] !== KIND_TERMINATOR) return
+  pos++
+
+  const codeSize = codeSizes.reduce((acc, size) => acc + size, 0)
+  if (container.length !== pos + (typeSize ?? 0) + codeSize + dataSize) {
     // Computed container length based on section details does not match length of actual bytecode
     return
   }
-  return sectionSizes
+
+  const types: EOFFunctionType[] = []
+  if (typeSize === undefined) {
+    // The type section can only be omitted for a single code section
+    if (codeSizes.length > 1) return
+    types.push({ inputs: 0, outputs: 0 })
+  } else {
+    if (typeSize !== codeSizes.length * 2) return
+    for (let i = 0; i < codeSizes.length; i++) {
+      const inputs = container[pos + i * 2]
+      const outputs = container[pos + i * 2 + 1]
+      if (inputs > MAX_FUNCTION_IO || outputs > MAX_FUNCTION_IO) return
+      types.push({ inputs, outputs })
+    }
+    pos += typeSize
+    // The first code section is the entry point and cannot take or return stack items
+    if (types[0].inputs !== 0 || types[0].outputs !== 0) return
+  }
+
+  const codeSections = []
+  for (const size of codeSizes) {
+    codeSections.push(container.slice(pos, pos + size))
+    pos += size
+  }
+
+  return { code: codeSize, data: dataSize, types, codeSections }
 }
 
-export const validOpcodes = (code: Buffer) => {
+/**
+ * Validates the opcodes of an EOF1 code section
+ * @param code The code section
+ * @param common Relative jumps (EIP-4200) and function calls (EIP-4750) are only validated with the EIPs being activated
+ * @param numCodeSections The number of code sections of the container, used to validate `CALLF` targets
+ */
+export const validOpcodes = (code: Buffer, common?: Common, numCodeSections = 1) => {
   // EIP-3670 - validate all opcodes
   const opcodes = new Set(handlers.keys())
   opcodes.add(0xfe) // Add INVALID opcode to set
+  const terminatingOpcodes = new Set([0x00, 0xf3, 0xfd, 0xfe, 0xff])
 
+  const relativeJumps = common?.isActivatedEIP(4200) === true
+  const functions = common?.isActivatedEIP(4750) === true
+  if (relativeJumps) {
+    // EOF code is not analyzed for jump destinations, dynamic jumps are replaced by RJUMP/RJUMPI/RJUMPV
+    opcodes.delete(0x56) // JUMP
+    opcodes.delete(0x57) // JUMPI
+    opcodes.delete(0x58) // PC
+    terminatingOpcodes.add(0x5c) // RJUMP
+  }
+  if (functions) {
+    terminatingOpcodes.add(0xb1) // RETF
+  }
+
+  const instructions = new Set<number>()
+  const jumpDests: number[] = []
+  let opcode = 0
   let x = 0
   while (x < code.length) {
-    const opcode = code[x]
+    instructions.add(x)
+    opcode = code[x]
     x++
     if (!opcodes.has(opcode)) {
       // No invalid/undefined opcodes
@@ -82,13 +160,205 @@ export const validOpcodes = (code: Buffer) => {
         // Push blocks must not exceed end of code section
         return false
       }
+    } else if (relativeJumps && (opcode === 0x5c || opcode === 0x5d)) {
+      // RJUMP/RJUMPI - 2-byte signed offset relative to the next instruction
+      if (x + 2 > code.length) return false
+      jumpDests.push(x + 2 + code.readInt16BE(x))
+      x += 2
+    } else if (relativeJumps && opcode === 0x5e) {
+      // RJUMPV - 1-byte jump table size followed by 2-byte signed offsets
+      const count = code[x]
+      if (count === undefined || count === 0 || x + 1 + count * 2 > code.length) return false
+      const next = x + 1 + count * 2
+      for (let i = 0; i < count; i++) {
+        jumpDests.push(next + code.readInt16BE(x + 1 + i * 2))
+      }
+      x = next
+    } else if (functions && opcode === 0xb0) {
+      // CALLF - 2-byte index of the code section to call
+      if (x + 2 > code.length || code.readUInt16BE(x) >= numCodeSections) return false
+      x += 2
     }
   }
-  const terminatingOpcodes = new Set([0x00, 0xf3, 0xfd, 0xfe, 0xff])
   // Per EIP-3670, the final opcode of a code section must be STOP, RETURN, REVERT, INVALID, or SELFDESTRUCT
-  if (!terminatingOpcodes.has(code[code.length - 1])) {
+  // (or RJUMP/RETF with EIP-4200/EIP-4750)
+  if (!terminatingOpcodes.has(opcode)) {
     return false
   }
+  // Per EIP-4200, relative jumps must point to the start of an instruction within the code section
+  for (const dest of jumpDests) {
+    if (!instructions.has(dest)) {
+      return false
+    }
+  }
+  return true
+}
+
+// Number of stack items taken and returned by the opcodes, not including PUSH, DUP, SWAP, LOG and CALLF
+const stackIO = new Map<number, [number, number]>()
+for (const [io, codes] of [
+  [
+    [0, 1],
+    [
+      0x30, 0x32, 0x33, 0x34, 0x36, 0x38, 0x3a, 0x3d, 0x41, 0x42, 0x43, 0x44, 0x45, 0x46, 0x47,
+      0x48, 0x58, 0x59, 0x5a, 0x5f,
+    ],
+  ],
+  [
+    [1, 1],
+    [0x15, 0x19, 0x31, 0x35, 0x3b, 0x3f, 0x40, 0x49, 0x51, 0x54, 0xb3],
+  ],
+  [
+    [2, 1],
+    [
+      0x01, 0x02, 0x03, 0x04, 0x05, 0x06, 0x07, 0x0a, 0x0b, 0x10, 0x11, 0x12, 0x13, 0x14, 0x16,
+      0x17, 0x18, 0x1a, 0x1b, 0x1c, 0x1d, 0x20,
+    ],
+  ],
+  [
+    [3, 1],
+    [0x08, 0x09, 0xf0, 0xf6],
+  ],
+  [[4, 1], [0xf5]],
+  [
+    [6, 1],
+    [0xf4, 0xfa],
+  ],
+  [
+    [7, 1],
+    [0xf1, 0xf2],
+  ],
+  [[8, 1], [0xf7]],
+  [
+    [1, 0],
+    [0x50, 0x56, 0x5d, 0x5e, 0xff],
+  ],
+  [
+    [2, 0],
+    [0x52, 0x53, 0x55, 0x57, 0xb4, 0xf3, 0xfd],
+  ],
+  [
+    [3, 0],
+    [0x37, 0x39, 0x3e],
+  ],
+  [[4, 0], [0x3c]],
+] as [[number, number], number[]][]) {
+  for (const code of codes) {
+    stackIO.set(code, io)
+  }
+}
+
+/**
+ * Size of the instruction at `pos` including its immediate data (EIP-4200/EIP-4750 opcodes included)
+ */
+export const instructionSize = (code: Buffer, pos: number) => {
+  const opcode = code[pos]
+  if (opcode >= 0x60 && opcode <= 0x7f) return 1 + opcode - 0x5f
+  if (opcode === 0x5c || opcode === 0x5d || opcode === 0xb0) return 3
+  if (opcode === 0x5e) return 2 + code[pos + 1] * 2
+  return 1
+}
+
+const getStackIO = (opcode: number): [number, number] => {
+  if (opcode >= 0x60 && opcode <= 0x7f) return [0, 1] // PUSH
+  if (opcode >= 0x80 && opcode <= 0x8f) return [opcode - 0x7f, opcode - 0x7e] // DUP
+  if (opcode >= 0x90 && opcode <= 0x9f) return [opcode - 0x8e, opcode - 0x8e] // SWAP
+  if (opcode >= 0xa0 && opcode <= 0xa4) return [opcode - 0x9e, 0] // LOG
+  return stackIO.get(opcode) ?? [0, 0]
+}
+
+/**
+ * Validates the stack heights of an EOF1 code section (EIP-5450): every instruction has to be
+ * reachable and be reached with the same stack height on all code paths, the stack must not
+ * underflow or overflow and functions have to return their declared number of outputs.
+ * The code section needs to be validated with {@link validOpcodes} first.
+ * @param code The code section
+ * @param types The function types of all code sections of the container
+ * @param section The index of the code section
+ */
+export const validStackHeights = (code: Buffer, types: EOFFunctionType[], section: number) => {
+  const heights: number[] = new Array(code.length)
+  heights[0] = types[section].inputs
+  const worklist = [0]
+  while (worklist.length > 0) {
+    const pos = worklist.pop()!
+    const height = heights[pos]
+    const opcode = code[pos]
+    let inputs, outputs
+    if (opcode === 0xb0) {
+      ;({ inputs, outputs } = types[code.readUInt16BE(pos + 1)])
+    } else {
+      ;[inputs, outputs] = getStackIO(opcode)
+    }
+    if (height < inputs) {
+      // Stack underflow
+      return false
+    }
+    const nextHeight = height - inputs + outputs
+    if (nextHeight > MAX_STACK_HEIGHT) {
+      return false
+    }
+
+    const next = pos + instructionSize(code, pos)
+    let successors = [next]
+    if (opcode === 0xb1) {
+      // RETF - the function has to return its declared outputs
+      if (height !== types[section].outputs) {
+        return false
+      }
+      successors = []
+    } else if ([0x00, 0xf3, 0xfd, 0xfe, 0xff].includes(opcode)) {
+      successors = []
+    } else if (opcode === 0x5c) {
+      successors = [next + code.readInt16BE(pos + 1)]
+    } else if (opcode === 0x5d) {
+      successors.push(next + code.readInt16BE(pos + 1))
+    } else if (opcode === 0x5e) {
+      for (let i = 0; i < code[pos + 1]; i++) {
+        successors.push(next + code.readInt16BE(pos + 2 + i * 2))
+      }
+    }
+
+    for (const successor of successors) {
+      if (successor >= code.length) {
+        return false
+      }
+      if (heights[successor] === undefined) {
+        heights[successor] = nextHeight
+        worklist.push(successor)
+      } else if (heights[successor] !== nextHeight) {
+        // Stack height differs between code paths
+        return false
+      }
+    }
+  }
+
+  // Code is not allowed to contain unreachable instructions
+  for (let x = 0; x < code.length; x += instructionSize(code, x)) {
+    if (heights[x] === undefined) {
+      return false
+    }
+  }
+  return true
+}
+
+/**
+ * Validates all code sections of an EOF1 container according to the activated EIPs
+ * (EIP-3670 opcode validation, EIP-5450 stack validation)
+ * @param container The parsed EOF1 container (see {@link codeAnalysis})
+ * @param common Common instance to read the activated EIPs from
+ */
+export const validateCode = (container: EOFContainer, common: Common) => {
+  const numCodeSections = container.codeSections.length
+  for (let i = 0; i < numCodeSections; i++) {
+    const code = container.codeSections[i]
+    if (!validOpcodes(code, common, numCodeSections)) {
+      return false
+    }
+    if (common.isActivatedEIP(5450) && !validStackHeights(code, container.types, i)) {
+      return false
+    }
+  }
   return true
 }
 
@@ -97,9 +367,16 @@ export const getEOFCode = (code: Buffer) => {
   if (sectionSizes === undefined) {
     return code
   } else {
-    const codeStart = sectionSizes.data > 0 ? 10 : 7
-    return code.slice(codeStart, codeStart + sectionSizes.code)
+    return sectionSizes.codeSections[0]
   }
 }
 
-export const EOF = { FORMAT, MAGIC, VERSION, codeAnalysis, validOpcodes }
+export const EOF = {
+  FORMAT,
+  MAGIC,
+  VERSION,
+  codeAnalysis,
+  validOpcodes,
+  validStackHeights,
+  validateCode,
+}
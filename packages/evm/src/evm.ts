@@ -13,12 +13,13 @@ import {
 import { debug as createDebugLogger } from 'debug'
 import { promisify } from 'util'
 
-import { EOF, getEOFCode } from './eof'
+import { EOF } from './eof'
 import { ERROR, EvmError } from './exceptions'
 import { Interpreter } from './interpreter'
 import { Message } from './message'
 import { getOpcodesForHF } from './opcodes'
 import { getActivePrecompiles } from './precompiles'
+import { EVMProfiler } from './profiler'
 import { TransientStorage } from './transientStorage'
 
 import type { InterpreterOpts, RunState } from './interpreter'
@@ -26,6 +27,7 @@ import type { MessageWithTo } from './message'
 import type { OpHandler, OpcodeList } from './opcodes'
 import type { AsyncDynamicGasHandler, SyncDynamicGasHandler } from './opcodes/gas'
 import type { CustomPrecompile, PrecompileFunc } from './precompiles'
+import type { CallType, Tracer } from './tracers'
 import type {
   Block,
   CustomOpcode,
@@ -78,9 +80,13 @@ export interface EVMOpts {
    * - [EIP-3670](https://eips.ethereum.org/EIPS/eip-3670) - EOF - Code Validation (`experimental`)
    * - [EIP-3855](https://eips.ethereum.org/EIPS/eip-3855) - PUSH0 instruction (`experimental`)
    * - [EIP-3860](https://eips.ethereum.org/EIPS/eip-3860) - Limit and meter initcode (`experimental`)
+   * - [EIP-4200](https://eips.ethereum.org/EIPS/eip-4200) - EOF - Static relative jumps (`experimental`)
    * - [EIP-4399](https://eips.ethereum.org/EIPS/eip-4399) - Supplant DIFFICULTY opcode with PREVRANDAO (Merge)
+   * - [EIP-4750](https://eips.ethereum.org/EIPS/eip-4750) - EOF - Functions (`experimental`)
+   * - [EIP-4844](https://eips.ethereum.org/EIPS/eip-4844) - Shard Blob Transactions (`experimental`)
    *   [EIP-4895](https://eips.ethereum.org/EIPS/eip-4895) - Beacon chain push withdrawals as operations (`experimental`)
    * - [EIP-5133](https://eips.ethereum.org/EIPS/eip-5133) - Delaying Difficulty Bomb to mid-September 2022
+   * - [EIP-5450](https://eips.ethereum.org/EIPS/eip-5450) - EOF - Stack Validation (`experimental`)
    *
    * *Annotations:*
    *
@@ -126,6 +132,14 @@ export interface EVMOpts {
    */
   customPrecompiles?: CustomPrecompile[]
 
+  /**
+   * Aggregates gas usage and execution time per contract, program counter,
+   * opcode and precompile, see {@link EVM.profiler}
+   *
+   * Default: `false`
+   */
+  profiler?: boolean
+
   /*
    * The External Interface Factory, used to build an External Interface when this is necessary
    */
@@ -142,6 +156,7 @@ export class EVM implements EVMInterface {
   protected _tx?: {
     gasPrice: bigint
     origin: Address
+    versionedHashes?: Buffer[]
   }
   protected _block?: Block
 
@@ -176,6 +191,22 @@ export class EVM implements EVMInterface {
 
   protected _precompiles!: Map<string, PrecompileFunc>
 
+  /**
+   * Tracer attached for the duration of a traced `runCall()` or `runCode()`
+   * @hidden
+   */
+  _tracer?: Tracer
+
+  /**
+   * `isStatic` of the traced call frames by depth, used to tell `STATICCALL` frames apart
+   */
+  protected _tracedStaticFrames: boolean[] = []
+
+  /**
+   * Profiler collecting the execution data, only set if the `profiler` option is enabled
+   */
+  public readonly profiler?: EVMProfiler
+
   protected readonly _optsCached: EVMOpts
 
   public get precompiles() {
@@ -237,7 +268,7 @@ export class EVM implements EVMInterface {
     // Supported EIPs
     const supportedEIPs = [
       1153, 1559, 2315, 2537, 2565, 2718, 2929, 2930, 3074, 3198, 3529, 3540, 3541, 3607, 3651,
-      3670, 3855, 3860, 4399, 4895, 5133,
+      3670, 3855, 3860, 4200, 4399, 4750, 4844, 4895, 5133, 5450,
     ]
 
     for (const eip of this._common.eips()) {
@@ -245,6 +276,10 @@ export class EVM implements EVMInterface {
         throw new Error(`EIP-${eip} is not supported by the EVM`)
       }
     }
+    if (this._common.isActivatedEIP(2315) && this._common.isActivatedEIP(4200)) {
+      // Both EIPs use the opcodes 0x5c-0x5e
+      throw new Error('EIP-2315 and EIP-4200 cannot be activated at the same time')
+    }
 
     const supportedHardforks = [
       Hardfork.Chainstart,
@@ -273,6 +308,9 @@ export class EVM implements EVMInterface {
     this._allowUnlimitedContractSize = opts.allowUnlimitedContractSize ?? false
     this._customOpcodes = opts.customOpcodes
     this._customPrecompiles = opts.customPrecompiles
+    if (opts.profiler === true) {
+      this.profiler = new EVMProfiler()
+    }
 
     this._common.on('hardforkChanged', () => {
       this.getActiveOpcodes()
@@ -388,12 +426,14 @@ export class EVM implements EVMInterface {
       if (this.DEBUG) {
         debug(`Run precompile`)
       }
+      const start = this.profiler !== undefined ? performance.now() : 0
       result = await this.runPrecompile(
         message.code as PrecompileFunc,
         message.data,
         message.gasLimit
       )
       result.gasRefund = message.gasRefund
+      this.profiler?.recordPrecompile(message.codeAddress, result.executionGasUsed, start)
     } else {
       if (this.DEBUG) {
         debug(`Start bytecode processing...`)
@@ -538,23 +578,15 @@ export class EVM implements EVMInterface {
         }
         // Begin EOF1 contract code checks
         // EIP-3540 EOF1 header check
-        const eof1CodeAnalysisResults = EOF.codeAnalysis(result.returnValue)
+        const eof1CodeAnalysisResults = EOF.codeAnalysis(result.returnValue, this._common)
         if (typeof eof1CodeAnalysisResults?.code === 'undefined') {
           result = {
             ...result,
             ...INVALID_EOF_RESULT(message.gasLimit),
           }
         } else if (this._common.isActivatedEIP(3670)) {
-          // EIP-3670 EOF1 opcode check
-          const codeStart = eof1CodeAnalysisResults.data > 0 ? 10 : 7
-          // The start of the code section of an EOF1 compliant contract will either be
-          // index 7 (if no data section is present) or index 10 (if a data section is present)
-          // in the bytecode of the contract
-          if (
-            !EOF.validOpcodes(
-              result.returnValue.slice(codeStart, codeStart + eof1CodeAnalysisResults.code)
-            )
-          ) {
+          // EIP-3670 EOF1 opcode check of all code sections (and EIP-5450 stack validation)
+          if (!EOF.validateCode(eof1CodeAnalysisResults, this._common)) {
             result = {
               ...result,
               ...INVALID_EOF_RESULT(message.gasLimit),
@@ -634,6 +666,7 @@ export class EVM implements EVMInterface {
       depth: message.depth ?? 0,
       gasPrice: this._tx!.gasPrice,
       origin: this._tx!.origin ?? message.caller ?? Address.zero(),
+      versionedHashes: this._tx!.versionedHashes ?? [],
       block: this._block ?? defaultBlock(),
       contract: await this.eei.getAccount(message.to ?? Address.zero()),
       codeAddress: message.codeAddress,
@@ -646,7 +679,13 @@ export class EVM implements EVMInterface {
       interpreter._result.selfdestruct = message.selfdestruct as { [key: string]: Buffer }
     }
 
-    const interpreterRes = await interpreter.run(message.code as Buffer, opts)
+    let interpreterRes
+    this.profiler?.enterFrame(env.codeAddress)
+    try {
+      interpreterRes = await interpreter.run(message.code as Buffer, opts)
+    } finally {
+      this.profiler?.exitFrame()
+    }
 
     let result = interpreter._result
     let gasUsed = message.gasLimit - interpreterRes.runState!.gasLeft
@@ -687,12 +726,17 @@ export class EVM implements EVMInterface {
    * if an exception happens during the message execution.
    */
   async runCall(opts: EVMRunCallOpts): Promise<EVMResult> {
+    if (opts.tracer !== undefined && opts.tracer !== this._tracer) {
+      return this._runWithTracer(opts.tracer, () => this.runCall(opts))
+    }
+
     let message = opts.message
     if (!message) {
       this._block = opts.block ?? defaultBlock()
       this._tx = {
         gasPrice: opts.gasPrice ?? BigInt(0),
         origin: opts.origin ?? opts.caller ?? Address.zero(),
+        versionedHashes: opts.versionedHashes,
       }
 
       const caller = opts.caller ?? Address.zero()
@@ -730,6 +774,11 @@ export class EVM implements EVMInterface {
       this.eei.addWarmedAddress((await this._generateAddress(message)).buf)
     }
 
+    const tracer = this._tracer
+    if (tracer !== undefined) {
+      await this._traceEnter(tracer, message)
+    }
+
     await this.eei.checkpoint()
     this._transientStorage.checkpoint()
     if (this.DEBUG) {
@@ -799,6 +848,16 @@ export class EVM implements EVMInterface {
         debug(`message checkpoint committed`)
       }
     }
+    if (tracer?.onExit !== undefined) {
+      await tracer.onExit({
+        depth: message.depth,
+        gasUsed: result.execResult.executionGasUsed,
+        output: result.execResult.returnValue,
+        error: err,
+        createdAddress: result.createdAddress,
+        eei: this.eei,
+      })
+    }
     await this._emit('afterMessage', result)
 
     return result
@@ -809,11 +868,16 @@ export class EVM implements EVMInterface {
    * shouldn't be used directly from the evm class
    */
   async runCode(opts: EVMRunCodeOpts): Promise<ExecResult> {
+    if (opts.tracer !== undefined && opts.tracer !== this._tracer) {
+      return this._runWithTracer(opts.tracer, () => this.runCode(opts))
+    }
+
     this._block = opts.block ?? defaultBlock()
 
     this._tx = {
       gasPrice: opts.gasPrice ?? BigInt(0),
       origin: opts.origin ?? opts.caller ?? Address.zero(),
+      versionedHashes: opts.versionedHashes,
     }
 
     const message = new Message({
@@ -828,7 +892,69 @@ export class EVM implements EVMInterface {
       isStatic: opts.isStatic,
     })
 
-    return this.runInterpreter(message, { pc: opts.pc })
+    const tracer = this._tracer
+    if (tracer === undefined) {
+      return this.runInterpreter(message, { pc: opts.pc })
+    }
+    await this._traceEnter(tracer, message)
+    const result = await this.runInterpreter(message, { pc: opts.pc })
+    await tracer.onExit?.({
+      depth: message.depth,
+      gasUsed: result.executionGasUsed,
+      output: result.returnValue,
+      error: result.exceptionError,
+      eei: this.eei,
+    })
+    return result
+  }
+
+  /**
+   * Attaches the tracer while running `fn`, the previously attached tracer is restored afterwards
+   */
+  protected async _runWithTracer<T>(tracer: Tracer, fn: () => Promise<T>): Promise<T> {
+    const previousTracer = this._tracer
+    this._tracer = tracer
+    try {
+      return await fn()
+    } finally {
+      this._tracer = previousTracer
+    }
+  }
+
+  protected async _traceEnter(tracer: Tracer, message: Message): Promise<void> {
+    this._tracedStaticFrames[message.depth] = message.isStatic
+    if (tracer.onEnter === undefined) {
+      return
+    }
+
+    let type: CallType = 'CALL'
+    if (!message.to) {
+      type = message.salt ? 'CREATE2' : 'CREATE'
+    } else if (message.delegatecall) {
+      type = 'DELEGATECALL'
+    } else if (message._codeAddress !== undefined) {
+      type = 'CALLCODE'
+    } else if (
+      message.isStatic &&
+      (message.depth === 0 || this._tracedStaticFrames[message.depth - 1] !== true)
+    ) {
+      type = 'STATICCALL'
+    }
+
+    await tracer.onEnter({
+      type,
+      from: message.caller,
+      to: message.to,
+      codeAddress: message.to ? message.codeAddress : undefined,
+      input: message.data,
+      gas: message.gasLimit,
+      value: message.value,
+      depth: message.depth,
+      precompile:
+        message.isCompiled ||
+        (!!message.to && this.getPrecompile(message.codeAddress) !== undefined),
+      eei: this.eei,
+    })
   }
 
   /**
@@ -870,11 +996,8 @@ export class EVM implements EVMInterface {
       } else {
         message.containerCode = await this.eei.getContractCode(message.codeAddress)
         message.isCompiled = false
-        if (this._common.isActivatedEIP(3540)) {
-          message.code = getEOFCode(message.containerCode)
-        } else {
-          message.code = message.containerCode
-        }
+        // EOF1 containers are parsed by the interpreter to execute the code sections
+        message.code = message.containerCode
       }
     }
   }
@@ -31,6 +31,11 @@ export enum ERROR {
   BLS_12_381_POINT_NOT_ON_CURVE = 'point not on curve',
   BLS_12_381_INPUT_EMPTY = 'input is empty',
   BLS_12_381_FP_NOT_IN_FIELD = 'fp point not in field',
+
+  // Point evaluation errors
+  INVALID_COMMITMENT = 'kzg commitment does not match versioned hash',
+  INVALID_INPUTS = 'kzg inputs invalid',
+  INVALID_PROOF = 'kzg proof invalid',
 }
 
 export class EvmError {
@@ -18,3 +18,6 @@ export {
   Log,
   Message,
 }
+export * from './asm'
+export * from './profiler'
+export * from './tracers'
@@ -1,5 +1,5 @@
 import { ConsensusAlgorithm } from '@ethereumjs/common'
-import { MAX_UINT64, bigIntToHex, bufferToBigInt, intToHex } from '@ethereumjs/util'
+import { MAX_UINT64, bigIntToHex, bufferToBigInt, intToHex, setLengthLeft } from '@ethereumjs/util'
 import { debug as createDebugLogger } from 'debug'
 
 import { EOF } from './eof'
@@ -9,6 +9,7 @@ import { Message } from './message'
 import { trap } from './opcodes'
 import { Stack } from './stack'
 
+import type { EOFContainer } from './eof'
 import type { EVM, EVMResult } from './evm'
 import type { AsyncOpHandler, OpHandler, Opcode } from './opcodes'
 import type { Block, EEIInterface, Log } from './types'
@@ -43,6 +44,7 @@ export interface Env {
   depth: number
   gasPrice: bigint
   origin: Address
+  versionedHashes: Buffer[] /** Versioned hashes of the blobs of an EIP-4844 transaction */
   block: Block
   contract: Account
   codeAddress: Address /* Different than address for DELEGATECALL and CALLCODE */
@@ -50,6 +52,17 @@ export interface Env {
   containerCode?: Buffer /** Full container code for EOF1 contracts */
 }
 
+/**
+ * State of the execution of an EOF1 container
+ */
+export interface EOFRunState {
+  container: EOFContainer
+  /** Index of the currently executed code section (EIP-4750) */
+  codeSection: number
+  /** Code section and program counter to return to on `RETF` (EIP-4750) */
+  returnStack: { codeSection: number; pc: number }[]
+}
+
 export interface RunState {
   programCounter: number
   opCode: number
@@ -59,6 +72,7 @@ export interface RunState {
   stack: Stack
   returnStack: Stack
   code: Buffer
+  eof?: EOFRunState
   shouldDoJumpAnalysis: boolean
   validJumps: Uint8Array // array of values where validJumps[index] has value 0 (default), 1 (jumpdest), 2 (beginsub)
   eei: EEIInterface
@@ -168,21 +182,22 @@ export class Interpreter {
         }
       }
       // Code is EOF1 format
-      const codeSections = EOF.codeAnalysis(code)
-      if (!codeSections) {
-        // Code is invalid EOF1 format if `codeSections` is falsy
+      const container = EOF.codeAnalysis(code, this._common)
+      if (!container) {
+        // Code is invalid EOF1 format if `container` is falsy
         return {
           runState: this._runState,
           exceptionError: new EvmError(ERROR.INVALID_EOF_FORMAT),
         }
       }
 
-      if (codeSections.data) {
-        // Set code to EOF container code section which starts at byte position 10 if data section is present
-        this._runState.code = code.slice(10, 10 + codeSections!.code)
-      } else {
-        // Set code to EOF container code section which starts at byte position 7 if no data section is present
-        this._runState.code = code.slice(7, 7 + codeSections!.code)
+      // Execution starts at the first code section
+      this._runState.eof = { container, codeSection: 0, returnStack: [] }
+      this._runState.code = container.codeSections[0]
+      if (this._common.isActivatedEIP(4200)) {
+        // EOF code only uses static relative jumps (JUMP/JUMPI are rejected on validation),
+        // so no jump destination analysis is needed
+        this._runState.shouldDoJumpAnalysis = false
       }
     }
     this._runState.programCounter = opts.pc ?? this._runState.programCounter
@@ -233,6 +248,8 @@ export class Interpreter {
    */
   async runStep(): Promise<void> {
     const opInfo = this.lookupOpInfo(this._runState.opCode)
+    const profiler = this._evm.profiler
+    const start = profiler !== undefined ? performance.now() : 0
 
     let gas = BigInt(opInfo.fee)
     // clone the gas limit; call opcodes can add stipend,
@@ -252,6 +269,25 @@ export class Interpreter {
       await this._runStepHook(gas, gasLimitClone)
     }
 
+    const tracer = this._evm._tracer
+    if (tracer?.onOpcode !== undefined) {
+      await tracer.onOpcode({
+        pc: this._runState.programCounter,
+        opcode: this._runState.opCode,
+        op: opInfo.fullName,
+        gas: gasLimitClone,
+        gasCost: gas,
+        refund: this._runState.gasRefund,
+        depth: this._env.depth,
+        stack: this._runState.stack._store,
+        memory: this._runState.memory._store,
+        returnData: this._runState.returnBuffer,
+        address: this._env.address,
+        codeAddress: this._env.codeAddress,
+        eei: this._runState.eei,
+      })
+    }
+
     // Check for invalid opcode
     if (opInfo.name === 'INVALID') {
       throw new EvmError(ERROR.INVALID_OPCODE)
@@ -260,15 +296,23 @@ export class Interpreter {
     // Reduce opcode's base fee
     this.useGas(gas, `${opInfo.name} fee`)
     // Advance program counter
-    this._runState.programCounter++
+    const pc = this._runState.programCounter++
 
     // Execute opcode handler
     const opFn = this.getOpHandler(opInfo)
 
-    if (opInfo.isAsync) {
-      await (opFn as AsyncOpHandler).apply(null, [this._runState, this._common])
-    } else {
-      opFn.apply(null, [this._runState, this._common])
+    try {
+      if (opInfo.isAsync) {
+        await (opFn as AsyncOpHandler).apply(null, [this._runState, this._common])
+      } else {
+        opFn.apply(null, [this._runState, this._common])
+      }
+    } finally {
+      // Halting opcodes (e.g. STOP) throw, so they are recorded here as well
+      if (profiler !== undefined) {
+        const fee = BigInt(opInfo.fee)
+        profiler.recordOpcode(this._env.codeAddress, pc, opInfo.fullName, fee, gas - fee, start)
+      }
     }
   }
 
@@ -471,6 +515,17 @@ export class Interpreter {
    * Store 256-bit a value in memory to persistent storage.
    */
   async storageStore(key: Buffer, value: Buffer): Promise<void> {
+    const tracer = this._evm._tracer
+    if (tracer?.onStorageChange !== undefined) {
+      const previousValue = await this._eei.storageLoad(this._env.address, key, false)
+      await tracer.onStorageChange({
+        address: this._env.address,
+        key,
+        previousValue: setLengthLeft(previousValue, 32),
+        value: setLengthLeft(value, 32),
+        depth: this._env.depth,
+      })
+    }
     await this._eei.storageStore(this._env.address, key, value)
     const account = await this._eei.getAccount(this._env.address)
     this._env.contract = account
@@ -631,6 +686,17 @@ export class Interpreter {
     return bufferToBigInt(this._env.origin.buf)
   }
 
+  /**
+   * Returns the versioned hash of the blob at `index` of the current
+   * EIP-4844 transaction, or `0` if there is no blob at this index.
+   */
+  getVersionedHash(index: bigint): bigint {
+    if (index >= BigInt(this._env.versionedHashes.length)) {
+      return BigInt(0)
+    }
+    return bufferToBigInt(this._env.versionedHashes[Number(index)])
+  }
+
   /**
    * Returns the block’s number.
    */
@@ -978,6 +1044,7 @@ export class Interpreter {
 
     const log: Log = [this._env.address.buf, topics, data]
     this._result.logs.push(log)
+    this._evm._tracer?.onLog?.(log)
   }
 
   private _getReturnCode(results: EVMResult) {
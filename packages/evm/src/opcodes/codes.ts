@@ -284,6 +284,27 @@ const eipOpcodes: { eip: number; opcodes: OpcodeEntry }[] = [
       0x5f: { name: 'PUSH0', isAsync: false, dynamicGas: false },
     },
   },
+  {
+    eip: 4200,
+    opcodes: {
+      0x5c: { name: 'RJUMP', isAsync: false, dynamicGas: false },
+      0x5d: { name: 'RJUMPI', isAsync: false, dynamicGas: false },
+      0x5e: { name: 'RJUMPV', isAsync: false, dynamicGas: false },
+    },
+  },
+  {
+    eip: 4750,
+    opcodes: {
+      0xb0: { name: 'CALLF', isAsync: false, dynamicGas: false },
+      0xb1: { name: 'RETF', isAsync: false, dynamicGas: false },
+    },
+  },
+  {
+    eip: 4844,
+    opcodes: {
+      0x49: { name: 'DATAHASH', isAsync: false, dynamicGas: false },
+    },
+  },
   {
     eip: 3074,
     opcodes: {
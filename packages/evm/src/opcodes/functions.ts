@@ -21,6 +21,7 @@ import {
   exponentation,
   fromTwos,
   getDataSlice,
+  getRelativeJumpDest,
   jumpIsValid,
   jumpSubIsValid,
   mod,
@@ -634,6 +635,14 @@ export const handlers: Map<number, OpHandler> = new Map([
       runState.stack.push(runState.interpreter.getBlockBaseFee())
     },
   ],
+  // 0x49: DATAHASH
+  [
+    0x49,
+    function (runState) {
+      const index = runState.stack.pop()
+      runState.stack.push(runState.interpreter.getVersionedHash(index))
+    },
+  ],
   // 0x50 range - 'storage' and execution
   // 0x50: POP
   [
@@ -762,17 +771,36 @@ export const handlers: Map<number, OpHandler> = new Map([
   ],
   // 0x5b: JUMPDEST
   [0x5b, function () {}],
-  // 0x5c: BEGINSUB
+  // 0x5c: BEGINSUB (EIP-2315) / RJUMP (EIP-4200)
   [
     0x5c,
-    function (runState) {
+    function (runState, common) {
+      if (common.isActivatedEIP(4200)) {
+        if (runState.eof === undefined) {
+          // Relative jumps are only valid in EOF code
+          trap(ERROR.INVALID_OPCODE)
+        }
+        const pc = runState.programCounter
+        runState.programCounter = getRelativeJumpDest(runState, pc, pc + 2)
+        return
+      }
       trap(ERROR.INVALID_BEGINSUB + ' at ' + describeLocation(runState))
     },
   ],
-  // 0x5d: RETURNSUB
+  // 0x5d: RETURNSUB (EIP-2315) / RJUMPI (EIP-4200)
   [
     0x5d,
-    function (runState) {
+    function (runState, common) {
+      if (common.isActivatedEIP(4200)) {
+        if (runState.eof === undefined) {
+          trap(ERROR.INVALID_OPCODE)
+        }
+        const cond = runState.stack.pop()
+        const pc = runState.programCounter
+        runState.programCounter =
+          cond !== BigInt(0) ? getRelativeJumpDest(runState, pc, pc + 2) : pc + 2
+        return
+      }
       if (runState.returnStack.length < 1) {
         trap(ERROR.INVALID_RETURNSUB)
       }
@@ -781,10 +809,28 @@ export const handlers: Map<number, OpHandler> = new Map([
       runState.programCounter = Number(dest)
     },
   ],
-  // 0x5e: JUMPSUB
+  // 0x5e: JUMPSUB (EIP-2315) / RJUMPV (EIP-4200)
   [
     0x5e,
-    function (runState) {
+    function (runState, common) {
+      if (common.isActivatedEIP(4200)) {
+        if (runState.eof === undefined) {
+          trap(ERROR.INVALID_OPCODE)
+        }
+        const index = runState.stack.pop()
+        const pc = runState.programCounter
+        const count = runState.code[pc]
+        if (count === undefined) {
+          trap(ERROR.OUT_OF_RANGE)
+        }
+        // Jump to the offset at `index` of the jump table, continue after the table if out of bounds
+        const next = pc + 1 + count * 2
+        runState.programCounter =
+          index < BigInt(count)
+            ? getRelativeJumpDest(runState, pc + 1 + Number(index) * 2, next)
+            : next
+        return
+      }
       const dest = runState.stack.pop()
 
       if (dest > runState.interpreter.getCodeSize()) {
@@ -864,6 +910,52 @@ export const handlers: Map<number, OpHandler> = new Map([
       runState.interpreter.log(mem, topicsCount, topicsBuf)
     },
   ],
+  // 0xb0: CALLF
+  [
+    0xb0,
+    function (runState) {
+      if (runState.eof === undefined) {
+        // Functions are only available in EOF code
+        trap(ERROR.INVALID_OPCODE)
+      }
+      const pc = runState.programCounter
+      if (pc + 2 > runState.code.length) {
+        trap(ERROR.OUT_OF_RANGE)
+      }
+      const codeSection = runState.code.readUInt16BE(pc)
+      const { container, returnStack } = runState.eof!
+      if (codeSection >= container.codeSections.length) {
+        trap(ERROR.OUT_OF_RANGE)
+      }
+      if (runState.stack.length < container.types[codeSection].inputs) {
+        trap(ERROR.STACK_UNDERFLOW)
+      }
+      if (returnStack.length >= 1024) {
+        trap(ERROR.STACK_OVERFLOW)
+      }
+      returnStack.push({ codeSection: runState.eof!.codeSection, pc: pc + 2 })
+      runState.eof!.codeSection = codeSection
+      runState.code = container.codeSections[codeSection]
+      runState.programCounter = 0
+    },
+  ],
+  // 0xb1: RETF
+  [
+    0xb1,
+    function (runState) {
+      if (runState.eof === undefined) {
+        trap(ERROR.INVALID_OPCODE)
+      }
+      const frame = runState.eof!.returnStack.pop()
+      if (frame === undefined) {
+        // Returning from the first code section ends the execution
+        trap(ERROR.STOP)
+      }
+      runState.eof!.codeSection = frame!.codeSection
+      runState.code = runState.eof!.container.codeSections[frame!.codeSection]
+      runState.programCounter = frame!.pc
+    },
+  ],
   // 0xb3: TLOAD
   [
     0xb3,
@@ -3,9 +3,8 @@ import { bigIntToBuffer, setLengthLeft, setLengthRight } from '@ethereumjs/util'
 import { keccak256 } from 'ethereum-cryptography/keccak'
 import { bytesToHex } from 'ethereum-cryptography/utils'
 
-import { EvmError } from '../exceptions'
+import { ERROR, EvmError } from '../exceptions'
 
-import type { ERROR } from '../exceptions'
 import type { RunState } from '../interpreter'
 import type { Common } from '@ethereumjs/common'
 
@@ -69,6 +68,21 @@ export function divCeil(a: bigint, b: bigint): bigint {
   return div < BigInt(0) ? div - BigInt(1) : div + BigInt(1)
 }
 
+/**
+ * Reads the signed 2-byte offset of a relative jump at position `pos` of the code
+ * and returns the jump destination relative to `base` (EIP-4200)
+ */
+export function getRelativeJumpDest(runState: RunState, pos: number, base: number): number {
+  if (pos + 2 > runState.code.length) {
+    trap(ERROR.OUT_OF_RANGE)
+  }
+  const dest = base + runState.code.readInt16BE(pos)
+  if (dest < 0 || dest >= runState.code.length) {
+    trap(ERROR.INVALID_JUMP + ' at ' + describeLocation(runState))
+  }
+  return dest
+}
+
 /**
  * Returns an overflow-safe slice of an array. It right-pads
  * the data with zeros to `length`.
@@ -0,0 +1,68 @@
+import { bigIntToBuffer, computeVersionedHash, kzg, setLengthLeft } from '@ethereumjs/util'
+
+import { OOGResult } from '../evm'
+import { ERROR, EvmError } from '../exceptions'
+
+import type { ExecResult } from '../evm'
+import type { PrecompileInput } from './types'
+
+export const BLS_MODULUS = BigInt(
+  '52435875175126190479447740508185965837690552500527637822603658699938581184513'
+)
+
+export function precompile14(opts: PrecompileInput): ExecResult {
+  const gasUsed = opts._common.param('gasPrices', 'kzgPointEvaluationGasPrecompile')
+  if (opts.gasLimit < gasUsed) {
+    return OOGResult(opts.gasLimit)
+  }
+
+  if (opts.data.length !== 192) {
+    return {
+      returnValue: Buffer.alloc(0),
+      executionGasUsed: opts.gasLimit,
+      exceptionError: new EvmError(ERROR.INVALID_INPUTS),
+    }
+  }
+
+  const version = Number(opts._common.param('vm', 'blobCommitmentVersionKzg'))
+  const fieldElementsPerBlob = opts._common.param('vm', 'fieldElementsPerBlob')
+  const versionedHash = opts.data.slice(0, 32)
+  const z = opts.data.slice(32, 64)
+  const y = opts.data.slice(64, 96)
+  const commitment = opts.data.slice(96, 144)
+  const kzgProof = opts.data.slice(144, 192)
+
+  if (!computeVersionedHash(commitment, version).equals(versionedHash)) {
+    return {
+      returnValue: Buffer.alloc(0),
+      executionGasUsed: opts.gasLimit,
+      exceptionError: new EvmError(ERROR.INVALID_COMMITMENT),
+    }
+  }
+
+  let valid
+  try {
+    valid = kzg.verifyKzgProof(commitment, z, y, kzgProof)
+  } catch (e: any) {
+    // The kzg library throws on field elements out of range or malformed points
+    valid = false
+  }
+  if (!valid) {
+    return {
+      returnValue: Buffer.alloc(0),
+      executionGasUsed: opts.gasLimit,
+      exceptionError: new EvmError(ERROR.INVALID_PROOF),
+    }
+  }
+
+  // Return value: FIELD_ELEMENTS_PER_BLOB and BLS_MODULUS as 32-byte big-endian values
+  const returnValue = Buffer.concat([
+    setLengthLeft(bigIntToBuffer(fieldElementsPerBlob), 32),
+    setLengthLeft(bigIntToBuffer(BLS_MODULUS), 32),
+  ])
+
+  return {
+    executionGasUsed: gasUsed,
+    returnValue,
+  }
+}
@@ -19,6 +19,7 @@ import { precompile0f } from './0f-bls12-g2multiexp'
 import { precompile10 } from './10-bls12-pairing'
 import { precompile11 } from './11-bls12-map-fp-to-g1'
 import { precompile12 } from './12-bls12-map-fp2-to-g2'
+import { precompile14 } from './14-kzg-point-evaluation'
 
 import type { PrecompileFunc, PrecompileInput } from './types'
 import type { Common } from '@ethereumjs/common'
@@ -70,6 +71,7 @@ const precompiles: Precompiles = {
   '0000000000000000000000000000000000000010': precompile10,
   '0000000000000000000000000000000000000011': precompile11,
   '0000000000000000000000000000000000000012': precompile12,
+  '0000000000000000000000000000000000000014': precompile14,
 }
 
 const precompileAvailability: PrecompileAvailability = {
@@ -145,6 +147,10 @@ const precompileAvailability: PrecompileAvailability = {
     type: PrecompileAvailabilityCheck.EIP,
     param: 2537,
   },
+  '0000000000000000000000000000000000000014': {
+    type: PrecompileAvailabilityCheck.EIP,
+    param: 4844,
+  },
 }
 
 function getPrecompile(address: Address, common: Common): PrecompileFunc {
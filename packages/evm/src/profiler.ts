@@ -0,0 +1,251 @@
+import type { Address } from '@ethereumjs/util'
+
+/**
+ * Aggregated execution data of an opcode (or of a single program counter)
+ */
+export interface OpcodeProfile {
+  /** Number of executions */
+  count: number
+  /** Base fee of the opcode */
+  staticGas: number
+  /** Gas charged on top of the base fee (memory expansion, cold access,...), see `opcodes/gas.ts` */
+  dynamicGas: number
+  /** Wall-clock time in milliseconds, the time of sub-calls is not included */
+  time: number
+}
+
+export interface PcProfile extends OpcodeProfile {
+  pc: number
+  opcode: string
+}
+
+export interface ContractProfile {
+  /** Address of the executed code */
+  address: string
+  /** Static and dynamic gas charged by the opcodes of the contract */
+  gas: number
+  time: number
+  /** Executed program counters, sorted by pc */
+  pcs: PcProfile[]
+}
+
+export interface PrecompileProfile {
+  count: number
+  gasUsed: number
+  time: number
+}
+
+export interface ProfilerReport {
+  /** Executed contracts, sorted by gas (highest first) */
+  contracts: ContractProfile[]
+  opcodes: { [opcode: string]: OpcodeProfile }
+  precompiles: { [address: string]: PrecompileProfile }
+  /** Gas charged by all opcodes and precompiles */
+  totalGas: number
+  totalTime: number
+}
+
+export interface ProfilerResult {
+  report: ProfilerReport
+  /** Gas weighted folded stacks, see {@link EVMProfiler.getFoldedStacks} */
+  foldedStacks: string
+}
+
+interface Frame {
+  /** Addresses of the call frames, from the top level frame to this frame */
+  stack: string
+  start: number
+  /** Time spent in sub-calls and precompiles since the last recorded opcode */
+  nestedTime: number
+}
+
+interface StackEntry {
+  gas: number
+  time: number
+}
+
+/**
+ * Gas and opcode profiler, enabled with the `profiler` option of the {@link EVM}.
+ *
+ * Execution data is aggregated over all runs of the EVM until {@link EVMProfiler.reset}
+ * is called (`VM.runTx()` and `VM.runBlock()` reset the profiler and return the
+ * profile of the tx or block).
+ */
+export class EVMProfiler {
+  private _contracts = new Map<string, Map<number, PcProfile>>()
+  private _opcodes = new Map<string, OpcodeProfile>()
+  private _precompiles = new Map<string, PrecompileProfile>()
+  private _stacks = new Map<string, StackEntry>()
+  private _frames: Frame[] = []
+
+  /**
+   * Called by the EVM before the code at `address` is executed
+   * @hidden
+   */
+  enterFrame(address: Address) {
+    const parent = this._frames[this._frames.length - 1]
+    const name = address.toString()
+    this._frames.push({
+      stack: parent !== undefined ? `${parent.stack};${name}` : name,
+      start: performance.now(),
+      nestedTime: 0,
+    })
+  }
+
+  /**
+   * Called by the EVM after the code of the current frame has been executed
+   * @hidden
+   */
+  exitFrame() {
+    const frame = this._frames.pop()
+    const parent = this._frames[this._frames.length - 1]
+    if (frame !== undefined && parent !== undefined) {
+      parent.nestedTime += performance.now() - frame.start
+    }
+  }
+
+  /**
+   * Called by the interpreter after an opcode has been executed
+   * @param start Time the execution of the opcode started at (from `performance.now()`)
+   * @hidden
+   */
+  recordOpcode(
+    address: Address,
+    pc: number,
+    opcode: string,
+    staticGas: bigint,
+    dynamicGas: bigint,
+    start: number
+  ) {
+    const frame = this._frames[this._frames.length - 1]
+    let time = performance.now() - start
+    if (frame !== undefined) {
+      time -= frame.nestedTime
+      frame.nestedTime = 0
+    }
+    const staticFee = Number(staticGas)
+    const dynamicFee = Number(dynamicGas)
+
+    const key = address.toString()
+    let pcs = this._contracts.get(key)
+    if (pcs === undefined) {
+      pcs = new Map()
+      this._contracts.set(key, pcs)
+    }
+    let entry = pcs.get(pc)
+    if (entry === undefined) {
+      entry = { pc, opcode, count: 0, staticGas: 0, dynamicGas: 0, time: 0 }
+      pcs.set(pc, entry)
+    }
+    entry.count++
+    entry.staticGas += staticFee
+    entry.dynamicGas += dynamicFee
+    entry.time += time
+
+    let total = this._opcodes.get(opcode)
+    if (total === undefined) {
+      total = { count: 0, staticGas: 0, dynamicGas: 0, time: 0 }
+      this._opcodes.set(opcode, total)
+    }
+    total.count++
+    total.staticGas += staticFee
+    total.dynamicGas += dynamicFee
+    total.time += time
+
+    this._addToStack(`${frame?.stack ?? key};${opcode}`, staticFee + dynamicFee, time)
+  }
+
+  /**
+   * Called by the EVM after a precompile has been executed
+   * @hidden
+   */
+  recordPrecompile(address: Address, gasUsed: bigint, start: number) {
+    const time = performance.now() - start
+    const frame = this._frames[this._frames.length - 1]
+    if (frame !== undefined) {
+      frame.nestedTime += time
+    }
+    const key = address.toString()
+    let entry = this._precompiles.get(key)
+    if (entry === undefined) {
+      entry = { count: 0, gasUsed: 0, time: 0 }
+      this._precompiles.set(key, entry)
+    }
+    entry.count++
+    entry.gasUsed += Number(gasUsed)
+    entry.time += time
+
+    this._addToStack(frame !== undefined ? `${frame.stack};${key}` : key, Number(gasUsed), time)
+  }
+
+  private _addToStack(stack: string, gas: number, time: number) {
+    const entry = this._stacks.get(stack)
+    if (entry === undefined) {
+      this._stacks.set(stack, { gas, time })
+    } else {
+      entry.gas += gas
+      entry.time += time
+    }
+  }
+
+  getReport(): ProfilerReport {
+    const contracts: ContractProfile[] = []
+    for (const [address, pcs] of this._contracts) {
+      const contract: ContractProfile = { address, gas: 0, time: 0, pcs: [] }
+      for (const entry of pcs.values()) {
+        contract.gas += entry.staticGas + entry.dynamicGas
+        contract.time += entry.time
+        contract.pcs.push({ ...entry })
+      }
+      contract.pcs.sort((a, b) => a.pc - b.pc)
+      contracts.push(contract)
+    }
+    contracts.sort((a, b) => b.gas - a.gas)
+
+    let totalGas = 0
+    let totalTime = 0
+    const opcodes: { [opcode: string]: OpcodeProfile } = {}
+    for (const [opcode, entry] of this._opcodes) {
+      opcodes[opcode] = { ...entry }
+      totalGas += entry.staticGas + entry.dynamicGas
+      totalTime += entry.time
+    }
+    const precompiles: { [address: string]: PrecompileProfile } = {}
+    for (const [address, entry] of this._precompiles) {
+      precompiles[address] = { ...entry }
+      totalGas += entry.gasUsed
+      totalTime += entry.time
+    }
+    return { contracts, opcodes, precompiles, totalGas, totalTime }
+  }
+
+  /**
+   * Returns the execution data in the folded stacks format used by flame graph tools
+   * (e.g. `flamegraph.pl` or speedscope), one `<address>;<address>;<opcode> <weight>` line
+   * per call path and opcode, precompiles are added as frames named by their address
+   * @param weight Weigh the stacks by gas (default) or by wall-clock time in microseconds
+   */
+  getFoldedStacks(weight: 'gas' | 'time' = 'gas'): string {
+    const lines = []
+    for (const [stack, entry] of this._stacks) {
+      const value = weight === 'gas' ? entry.gas : Math.round(entry.time * 1000)
+      lines.push(`${stack} ${value}`)
+    }
+    return lines.join('\n')
+  }
+
+  getResult(): ProfilerResult {
+    return { report: this.getReport(), foldedStacks: this.getFoldedStacks() }
+  }
+
+  /**
+   * Clears the aggregated execution data
+   */
+  reset() {
+    this._contracts.clear()
+    this._opcodes.clear()
+    this._precompiles.clear()
+    this._stacks.clear()
+    this._frames = []
+  }
+}
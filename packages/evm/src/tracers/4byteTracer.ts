@@ -0,0 +1,29 @@
+import type { Tracer, TracerCallFrame } from './types'
+
+/**
+ * Counts of the called 4-byte function selectors by `<selector>-<calldata size>`
+ */
+export type FourByteResult = { [selectorAndSize: string]: number }
+
+/**
+ * Tracer collecting the function selectors of all calls made by a tx
+ * (excluding creates and calls into precompiles), output matches geth's `4byteTracer`
+ */
+export class FourByteTracer implements Tracer {
+  private _ids: FourByteResult = {}
+
+  onEnter(frame: TracerCallFrame) {
+    if (frame.type === 'CREATE' || frame.type === 'CREATE2' || frame.precompile) {
+      return
+    }
+    if (frame.input.length < 4) {
+      return
+    }
+    const key = `0x${frame.input.slice(0, 4).toString('hex')}-${frame.input.length - 4}`
+    this._ids[key] = (this._ids[key] ?? 0) + 1
+  }
+
+  getResult(): FourByteResult {
+    return this._ids
+  }
+}
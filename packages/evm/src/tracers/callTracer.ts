@@ -0,0 +1,173 @@
+import { bigIntToHex, bufferToBigInt, bufferToHex, intToHex } from '@ethereumjs/util'
+
+import { ERROR } from '../exceptions'
+
+import type { Log } from '../types'
+import type {
+  CallType,
+  Tracer,
+  TracerCallFrame,
+  TracerFrameResult,
+  TracerTx,
+  TracerTxResult,
+} from './types'
+
+export interface CallTracerConfig {
+  /** Only trace the top level call (default: false) */
+  onlyTopCall?: boolean
+  /** Include the logs emitted by each call frame (default: false) */
+  withLog?: boolean
+}
+
+export interface CallLog {
+  address: string
+  topics: string[]
+  data: string
+  /** Number of sub-calls of the frame made before the log was emitted */
+  position: string
+}
+
+export interface CallFrame {
+  type: CallType
+  from: string
+  /** The created contract for `CREATE` and `CREATE2` */
+  to?: string
+  /** Omitted for `DELEGATECALL` and `STATICCALL` */
+  value?: string
+  gas: string
+  gasUsed: string
+  input: string
+  output?: string
+  error?: string
+  /** Decoded `Error(string)` message of reverted calls */
+  revertReason?: string
+  logs?: CallLog[]
+  calls?: CallFrame[]
+}
+
+// Selector of `Error(string)` used by solidity for revert messages
+const ERROR_SELECTOR = '08c379a0'
+
+/**
+ * Decodes the ABI encoded `Error(string)` message of a revert, if any
+ */
+function decodeRevertReason(output: Buffer): string | undefined {
+  if (output.length < 68 || output.slice(0, 4).toString('hex') !== ERROR_SELECTOR) {
+    return
+  }
+  const offset = 4 + Number(bufferToBigInt(output.slice(4, 36)))
+  if (offset + 32 > output.length) {
+    return
+  }
+  const length = Number(bufferToBigInt(output.slice(offset, offset + 32)))
+  if (offset + 32 + length > output.length) {
+    return
+  }
+  return output.slice(offset + 32, offset + 32 + length).toString('utf8')
+}
+
+/**
+ * Tracer recording the tree of call frames, output matches geth's `callTracer`
+ */
+export class CallTracer implements Tracer {
+  private readonly _config: CallTracerConfig
+  private _frames: CallFrame[] = []
+  private _callTrace?: CallFrame
+  private _gasLimit?: bigint
+
+  constructor(config: CallTracerConfig = {}) {
+    this._config = config
+  }
+
+  onTxStart(tx: TracerTx) {
+    this._gasLimit = tx.gasLimit
+  }
+
+  onEnter(frame: TracerCallFrame) {
+    if (frame.depth > 0 && this._config.onlyTopCall === true) {
+      return
+    }
+    const callFrame: CallFrame = {
+      type: frame.type,
+      from: frame.from.toString(),
+      to: frame.to?.toString(),
+      value:
+        frame.type === 'DELEGATECALL' || frame.type === 'STATICCALL'
+          ? undefined
+          : bigIntToHex(frame.value),
+      // The top level frame accounts for the full tx gas (including intrinsic gas) like geth
+      gas: bigIntToHex(frame.depth === 0 ? this._gasLimit ?? frame.gas : frame.gas),
+      gasUsed: '0x0',
+      input: bufferToHex(frame.input),
+    }
+    const parent = this._frames[this._frames.length - 1]
+    if (parent !== undefined) {
+      parent.calls = parent.calls ?? []
+      parent.calls.push(callFrame)
+    } else {
+      this._callTrace = callFrame
+    }
+    this._frames.push(callFrame)
+  }
+
+  onExit(result: TracerFrameResult) {
+    if (result.depth > 0 && this._config.onlyTopCall === true) {
+      return
+    }
+    const frame = this._frames.pop()
+    if (frame === undefined) {
+      return
+    }
+    if (result.createdAddress !== undefined) {
+      frame.to = result.createdAddress.toString()
+    }
+    frame.gasUsed = bigIntToHex(result.gasUsed)
+    if (result.error === undefined) {
+      frame.output = bufferToHex(result.output)
+      return
+    }
+    if (result.error.error === ERROR.REVERT) {
+      frame.error = 'execution reverted'
+      if (result.output.length > 0) {
+        frame.output = bufferToHex(result.output)
+        frame.revertReason = decodeRevertReason(result.output)
+      }
+    } else {
+      frame.error = result.error.error
+    }
+    // Logs of failed frames are reverted
+    clearLogs(frame)
+  }
+
+  onLog(log: Log) {
+    const frame = this._frames[this._frames.length - 1]
+    if (this._config.withLog !== true || frame === undefined) {
+      return
+    }
+    const [address, topics, data] = log
+    frame.logs = frame.logs ?? []
+    frame.logs.push({
+      address: bufferToHex(address),
+      topics: topics.map((topic) => bufferToHex(topic)),
+      data: bufferToHex(data),
+      position: intToHex(frame.calls?.length ?? 0),
+    })
+  }
+
+  onTxEnd(result: TracerTxResult) {
+    if (this._callTrace !== undefined) {
+      this._callTrace.gasUsed = bigIntToHex(result.gasUsed)
+    }
+  }
+
+  getResult(): CallFrame | undefined {
+    return this._callTrace
+  }
+}
+
+function clearLogs(frame: CallFrame) {
+  delete frame.logs
+  for (const call of frame.calls ?? []) {
+    clearLogs(call)
+  }
+}
@@ -0,0 +1,5 @@
+export * from './4byteTracer'
+export * from './callTracer'
+export * from './prestateTracer'
+export * from './structLogger'
+export * from './types'
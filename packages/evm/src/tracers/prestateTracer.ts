@@ -0,0 +1,250 @@
+import {
+  Address,
+  bigIntToBuffer,
+  bigIntToHex,
+  bufferToHex,
+  generateAddress,
+  generateAddress2,
+  setLengthLeft,
+} from '@ethereumjs/util'
+
+import type { EEIInterface } from '../types'
+import type { Tracer, TracerCallFrame, TracerFrameResult, TracerStep, TracerTx } from './types'
+
+export interface PrestateTracerConfig {
+  /** Return the state before and after the tx instead of only the state before (default: false) */
+  diffMode?: boolean
+}
+
+export interface PrestateAccount {
+  balance?: string
+  nonce?: number
+  code?: string
+  storage?: { [key: string]: string }
+}
+
+export type PrestateResult = { [address: string]: PrestateAccount }
+
+export interface PrestateDiffResult {
+  pre: PrestateResult
+  post: PrestateResult
+}
+
+interface AccountState {
+  balance: bigint
+  nonce: bigint
+  code: Buffer
+  storage: Map<string, Buffer>
+  empty: boolean
+}
+
+// Opcodes accessing the account at the address on top of the stack
+const ACCOUNT_OPCODES = ['BALANCE', 'EXTCODESIZE', 'EXTCODECOPY', 'EXTCODEHASH', 'SELFDESTRUCT']
+// Opcodes calling the account at the second item from the top of the stack
+const CALL_OPCODES = ['CALL', 'CALLCODE', 'DELEGATECALL', 'STATICCALL']
+
+const toAddress = (value: bigint) => new Address(setLengthLeft(bigIntToBuffer(value), 32).slice(12))
+
+const toWord = (value: Buffer | bigint) =>
+  setLengthLeft(typeof value === 'bigint' ? bigIntToBuffer(value) : value, 32)
+
+function formatAccount(state: Partial<AccountState>): PrestateAccount {
+  const account: PrestateAccount = {}
+  if (state.balance !== undefined) {
+    account.balance = bigIntToHex(state.balance)
+  }
+  if (state.nonce !== undefined && state.nonce > BigInt(0)) {
+    account.nonce = Number(state.nonce)
+  }
+  if (state.code !== undefined && state.code.length > 0) {
+    account.code = bufferToHex(state.code)
+  }
+  if (state.storage !== undefined && state.storage.size > 0) {
+    account.storage = {}
+    for (const [key, value] of state.storage) {
+      account.storage[key] = bufferToHex(value)
+    }
+  }
+  return account
+}
+
+/**
+ * Tracer recording the state of all accounts and storage slots touched by a tx
+ * before its execution (and with `diffMode` the modified state after it),
+ * output matches geth's `prestateTracer`
+ */
+export class PrestateTracer implements Tracer {
+  private readonly _config: PrestateTracerConfig
+  private _pre = new Map<string, AccountState>()
+  private _post = new Map<string, Partial<AccountState>>()
+  private _created = new Set<string>()
+  private _txStarted = false
+  private _eei?: EEIInterface
+
+  constructor(config: PrestateTracerConfig = {}) {
+    this._config = config
+  }
+
+  private async _lookupAccount(eei: EEIInterface, address: Address) {
+    const key = address.toString()
+    if (this._pre.has(key)) {
+      return
+    }
+    const account = await eei.getAccount(address)
+    this._pre.set(key, {
+      balance: account.balance,
+      nonce: account.nonce,
+      code: await eei.getContractCode(address),
+      storage: new Map(),
+      empty: account.isEmpty(),
+    })
+  }
+
+  private async _lookupStorage(eei: EEIInterface, address: Address, key: Buffer) {
+    await this._lookupAccount(eei, address)
+    const storage = this._pre.get(address.toString())!.storage
+    const slot = bufferToHex(key)
+    if (!storage.has(slot)) {
+      storage.set(slot, toWord(await eei.getContractStorage(address, key)))
+    }
+  }
+
+  async onTxStart(tx: TracerTx) {
+    this._txStarted = true
+    this._eei = tx.eei
+    await this._lookupAccount(tx.eei, tx.from)
+    await this._lookupAccount(tx.eei, tx.coinbase)
+    let to = tx.to
+    if (to === undefined) {
+      const { nonce } = await tx.eei.getAccount(tx.from)
+      to = new Address(generateAddress(tx.from.buf, bigIntToBuffer(nonce)))
+      this._created.add(to.toString())
+    }
+    await this._lookupAccount(tx.eei, to)
+  }
+
+  async onEnter(frame: TracerCallFrame) {
+    if (frame.depth > 0 || this._txStarted) {
+      return
+    }
+    // Traced without a tx (e.g. with `EVM.runCall()`)
+    await this._lookupAccount(frame.eei, frame.from)
+    if (frame.to !== undefined) {
+      await this._lookupAccount(frame.eei, frame.to)
+    }
+  }
+
+  async onOpcode(step: TracerStep) {
+    const { stack, eei } = step
+    const stackLength = stack.length
+    if (stackLength === 0) {
+      return
+    }
+    if (step.op === 'SLOAD' || step.op === 'SSTORE') {
+      await this._lookupStorage(eei, step.address, toWord(stack[stackLength - 1]))
+    } else if (ACCOUNT_OPCODES.includes(step.op)) {
+      await this._lookupAccount(eei, toAddress(stack[stackLength - 1]))
+    } else if (CALL_OPCODES.includes(step.op) && stackLength > 1) {
+      await this._lookupAccount(eei, toAddress(stack[stackLength - 2]))
+    } else if (step.op === 'CREATE') {
+      const { nonce } = await eei.getAccount(step.address)
+      const created = new Address(generateAddress(step.address.buf, bigIntToBuffer(nonce)))
+      this._created.add(created.toString())
+      await this._lookupAccount(eei, created)
+    } else if (step.op === 'CREATE2' && stackLength > 3) {
+      const offset = Number(stack[stackLength - 2])
+      const size = Number(stack[stackLength - 3])
+      // Memory is not yet expanded before the opcode is executed
+      const initCode = Buffer.alloc(size)
+      step.memory.copy(initCode, 0, offset, offset + size)
+      const salt = toWord(stack[stackLength - 4])
+      const created = new Address(generateAddress2(step.address.buf, salt, initCode))
+      this._created.add(created.toString())
+      await this._lookupAccount(eei, created)
+    }
+  }
+
+  async onExit(result: TracerFrameResult) {
+    if (result.depth === 0 && !this._txStarted) {
+      await this._finalize(result.eei)
+    }
+  }
+
+  async onTxEnd() {
+    await this._finalize(this._eei!)
+  }
+
+  private async _finalize(eei: EEIInterface) {
+    if (this._config.diffMode === true) {
+      await this._processDiff(eei)
+    }
+    // Addresses of created contracts are only part of the pre state if they were not empty before
+    for (const address of this._created) {
+      if (this._pre.get(address)?.empty === true) {
+        this._pre.delete(address)
+      }
+    }
+  }
+
+  private async _processDiff(eei: EEIInterface) {
+    for (const [key, pre] of this._pre) {
+      const address = Address.fromString(key)
+      if (!(await eei.accountExists(address))) {
+        // Deleted accounts are only part of the pre state
+        if (pre.empty) {
+          this._pre.delete(key)
+        }
+        continue
+      }
+      const account = await eei.getAccount(address)
+      const code = await eei.getContractCode(address)
+      const post: Partial<AccountState> = { storage: new Map() }
+      let modified = false
+      if (account.balance !== pre.balance) {
+        post.balance = account.balance
+        modified = true
+      }
+      if (account.nonce !== pre.nonce) {
+        post.nonce = account.nonce
+        modified = true
+      }
+      if (!code.equals(pre.code)) {
+        post.code = code
+        modified = true
+      }
+      for (const [slot, value] of pre.storage) {
+        const newValue = toWord(
+          await eei.getContractStorage(address, Buffer.from(slot.slice(2), 'hex'))
+        )
+        if (newValue.equals(value)) {
+          pre.storage.delete(slot)
+          continue
+        }
+        modified = true
+        if (newValue.some((byte) => byte !== 0)) {
+          post.storage!.set(slot, newValue)
+        }
+      }
+      if (modified) {
+        this._post.set(key, post)
+      } else {
+        this._pre.delete(key)
+      }
+    }
+  }
+
+  getResult(): PrestateResult | PrestateDiffResult {
+    const pre: PrestateResult = {}
+    for (const [address, state] of this._pre) {
+      pre[address] = formatAccount(state)
+    }
+    if (this._config.diffMode !== true) {
+      return pre
+    }
+    const post: PrestateResult = {}
+    for (const [address, state] of this._post) {
+      post[address] = formatAccount(state)
+    }
+    return { pre, post }
+  }
+}
@@ -0,0 +1,122 @@
+import { bigIntToBuffer, bigIntToHex, setLengthLeft } from '@ethereumjs/util'
+
+import type { Tracer, TracerFrameResult, TracerStep, TracerTxResult } from './types'
+
+export interface StructLoggerConfig {
+  /** Don't include the stack in the struct logs (default: false) */
+  disableStack?: boolean
+  /** Don't include the memory in the struct logs (default: false) */
+  disableMemory?: boolean
+  /** Don't include the accessed storage in the struct logs (default: false) */
+  disableStorage?: boolean
+  /** Include the return data of the last call in the struct logs (default: false) */
+  enableReturnData?: boolean
+}
+
+export interface StructLog {
+  pc: number
+  op: string
+  /** Gas left before executing the opcode */
+  gas: number
+  /** Gas charged for the opcode, including dynamic gas */
+  gasCost: number
+  /** Call depth, starting at 1 */
+  depth: number
+  refund?: number
+  /** Stack items as hex quantities, bottom first */
+  stack?: string[]
+  /** Memory split into 32-byte words (without 0x prefix) */
+  memory?: string[]
+  /** Storage slots of the executing contract accessed so far (without 0x prefix) */
+  storage?: { [key: string]: string }
+  returnData?: string
+}
+
+export interface StructLoggerResult {
+  gas: number
+  failed: boolean
+  /** Return value of the top level call (without 0x prefix) */
+  returnValue: string
+  structLogs: StructLog[]
+}
+
+/**
+ * Tracer logging every executed opcode, output matches geth's default (struct) logger
+ */
+export class StructLogger implements Tracer {
+  private readonly _config: StructLoggerConfig
+  private _structLogs: StructLog[] = []
+  private _storage = new Map<string, { [key: string]: string }>()
+  private _result?: TracerFrameResult
+  private _gasUsed?: bigint
+
+  constructor(config: StructLoggerConfig = {}) {
+    this._config = config
+  }
+
+  async onOpcode(step: TracerStep) {
+    const log: StructLog = {
+      pc: step.pc,
+      op: step.op,
+      gas: Number(step.gas),
+      gasCost: Number(step.gasCost),
+      depth: step.depth + 1,
+    }
+    if (step.refund > BigInt(0)) {
+      log.refund = Number(step.refund)
+    }
+    if (this._config.disableStack !== true) {
+      log.stack = step.stack.map((item) => bigIntToHex(item))
+    }
+    if (this._config.disableMemory !== true) {
+      const memory = []
+      for (let i = 0; i < step.memory.length; i += 32) {
+        memory.push(step.memory.slice(i, i + 32).toString('hex'))
+      }
+      log.memory = memory
+    }
+    if (this._config.enableReturnData === true) {
+      log.returnData = '0x' + step.returnData.toString('hex')
+    }
+    if (this._config.disableStorage !== true && (step.op === 'SLOAD' || step.op === 'SSTORE')) {
+      const address = step.address.toString()
+      const accessed = this._storage.get(address) ?? {}
+      const stackLength = step.stack.length
+      if (stackLength > 0) {
+        const key = setLengthLeft(bigIntToBuffer(step.stack[stackLength - 1]), 32)
+        if (step.op === 'SLOAD') {
+          const value = await step.eei.storageLoad(step.address, key, false)
+          accessed[key.toString('hex')] = setLengthLeft(value, 32).toString('hex')
+        } else if (stackLength > 1) {
+          const value = setLengthLeft(bigIntToBuffer(step.stack[stackLength - 2]), 32)
+          accessed[key.toString('hex')] = value.toString('hex')
+        }
+      }
+      this._storage.set(address, accessed)
+      log.storage = { ...accessed }
+    }
+    this._structLogs.push(log)
+  }
+
+  onExit(result: TracerFrameResult) {
+    if (result.depth === 0) {
+      this._result = result
+    }
+  }
+
+  onTxEnd(result: TracerTxResult) {
+    this._gasUsed = result.gasUsed
+  }
+
+  /**
+   * Returns the trace, the gas used is the one of the tx if traced with `VM.runTx()`
+   */
+  getResult(): StructLoggerResult {
+    return {
+      gas: Number(this._gasUsed ?? this._result?.gasUsed ?? BigInt(0)),
+      failed: this._result?.error !== undefined,
+      returnValue: this._result?.output.toString('hex') ?? '',
+      structLogs: this._structLogs,
+    }
+  }
+}
@@ -0,0 +1,142 @@
+import type { EvmError } from '../exceptions'
+import type { EEIInterface, Log } from '../types'
+import type { Address } from '@ethereumjs/util'
+
+/**
+ * Type of a call frame as named by the opcode creating it
+ * (`CALL` for the top level frame of a tx with a `to` address)
+ */
+export type CallType = 'CALL' | 'CALLCODE' | 'DELEGATECALL' | 'STATICCALL' | 'CREATE' | 'CREATE2'
+
+/**
+ * Tx passed to {@link Tracer.onTxStart}, before any state changes of the tx are applied
+ */
+export interface TracerTx {
+  from: Address
+  /** Undefined for contract creation txs */
+  to?: Address
+  value: bigint
+  data: Buffer
+  gasLimit: bigint
+  /** Address receiving the tx fees */
+  coinbase: Address
+  eei: EEIInterface
+}
+
+/**
+ * Result passed to {@link Tracer.onTxEnd}, after all state changes of the tx are applied
+ */
+export interface TracerTxResult {
+  /** Total gas used by the tx, including the intrinsic gas and refunds */
+  gasUsed: bigint
+  returnValue: Buffer
+  error?: EvmError
+  createdAddress?: Address
+}
+
+/**
+ * Call frame passed to {@link Tracer.onEnter}
+ */
+export interface TracerCallFrame {
+  type: CallType
+  from: Address
+  /** Undefined for `CREATE` and `CREATE2`, the created address is passed on exit */
+  to?: Address
+  /** Address of the executed code (differs from `to` for `DELEGATECALL` and `CALLCODE`) */
+  codeAddress?: Address
+  input: Buffer
+  gas: bigint
+  value: bigint
+  /** Call depth, starting at 0 */
+  depth: number
+  /** True if the frame calls into a precompile */
+  precompile: boolean
+  eei: EEIInterface
+}
+
+/**
+ * Result of a call frame passed to {@link Tracer.onExit}
+ */
+export interface TracerFrameResult {
+  depth: number
+  gasUsed: bigint
+  output: Buffer
+  error?: EvmError
+  createdAddress?: Address
+  eei: EEIInterface
+}
+
+/**
+ * Opcode passed to {@link Tracer.onOpcode} before it is executed
+ *
+ * Note: `stack` and `memory` are references to the live EVM state to avoid
+ * copying them on every opcode, tracers have to copy what they keep
+ */
+export interface TracerStep {
+  pc: number
+  opcode: number
+  /** Name of the opcode */
+  op: string
+  /** Gas left before executing the opcode */
+  gas: bigint
+  /** Gas charged for the opcode, including dynamic gas */
+  gasCost: bigint
+  refund: bigint
+  depth: number
+  /** Stack items, bottom first */
+  stack: bigint[]
+  memory: Buffer
+  returnData: Buffer
+  address: Address
+  codeAddress: Address
+  eei: EEIInterface
+}
+
+/**
+ * Storage write passed to {@link Tracer.onStorageChange}, all values are 32 bytes long
+ */
+export interface TracerStorageChange {
+  address: Address
+  key: Buffer
+  previousValue: Buffer
+  value: Buffer
+  depth: number
+}
+
+/**
+ * Hooks called by the EVM while executing a traced call, all hooks are optional.
+ *
+ * Async hooks are awaited by the EVM, so the state can be read from
+ * the passed in `eei` while the execution is paused.
+ */
+export interface Tracer {
+  /**
+   * Called by `VM.runTx()` before the tx is executed
+   * (not called when running messages directly with `EVM.runCall()` or `EVM.runCode()`)
+   */
+  onTxStart?(tx: TracerTx): Promise<void> | void
+  /**
+   * Called by `VM.runTx()` after the tx has been executed and the fees have been paid
+   */
+  onTxEnd?(result: TracerTxResult): Promise<void> | void
+  /**
+   * Called when entering a call frame (including the top level frame)
+   */
+  onEnter?(frame: TracerCallFrame): Promise<void> | void
+  /**
+   * Called when a call frame exits, after its state changes are committed or reverted
+   */
+  onExit?(result: TracerFrameResult): Promise<void> | void
+  /**
+   * Called before an opcode is executed, after its gas cost is determined
+   */
+  onOpcode?(step: TracerStep): Promise<void> | void
+  /**
+   * Called before a storage slot is written by `SSTORE`
+   */
+  onStorageChange?(change: TracerStorageChange): Promise<void> | void
+  /**
+   * Called when a log is emitted (synchronously, logs of reverted frames are not removed)
+   */
+  onLog?(log: Log): void
+}
@@ -3,6 +3,8 @@ import type { InterpreterStep } from './interpreter'
 import type { Message } from './message'
 import type { OpHandler, OpcodeList } from './opcodes'
 import type { AsyncDynamicGasHandler, SyncDynamicGasHandler } from './opcodes/gas'
+import type { EVMProfiler } from './profiler'
+import type { Tracer } from './tracers'
 import type { Account, Address, AsyncEventEmitter, PrefixedHexString } from '@ethereumjs/util'
 
 /**
@@ -16,6 +18,7 @@ export interface EVMInterface {
   copy(): EVMInterface
   eei: EEIInterface
   events?: AsyncEventEmitter<EVMEvents>
+  profiler?: EVMProfiler
 }
 
 /**
@@ -82,6 +85,10 @@ export interface EVMRunCallOpts {
    * The address where the call originated from. Defaults to the zero address.
    */
   origin?: Address
+  /**
+   * The versioned hashes of the blobs of an EIP-4844 blob transaction, returned by `DATAHASH`
+   */
+  versionedHashes?: Buffer[]
   /**
    * The address that ran this code (`msg.sender`). Defaults to the zero address.
    */
@@ -143,6 +150,10 @@ export interface EVMRunCallOpts {
    * Optionally pass in an already-built message.
    */
   message?: Message
+  /**
+   * Tracer to attach for the duration of the call (including all nested calls)
+   */
+  tracer?: Tracer
 }
 
 /**
@@ -165,6 +176,10 @@ export interface EVMRunCodeOpts {
    * The address where the call originated from. Defaults to the zero address.
    */
   origin?: Address
+  /**
+   * The versioned hashes of the blobs of an EIP-4844 blob transaction, returned by `DATAHASH`
+   */
+  versionedHashes?: Buffer[]
   /**
    * The address that ran this code (`msg.sender`). Defaults to the zero address.
    */
@@ -205,6 +220,10 @@ export interface EVMRunCodeOpts {
    * The initial program counter. Defaults to `0`
    */
   pc?: number
+  /**
+   * Tracer to attach for the duration of the code execution (including all nested calls)
+   */
+  tracer?: Tracer
 }
 
 interface NewContractEvent {
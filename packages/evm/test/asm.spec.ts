@@ -0,0 +1,149 @@
+import { Chain, Common, Hardfork } from '@ethereumjs/common'
+import * as tape from 'tape'
+
+import { assemble, disassemble } from '../src/asm'
+import { EVM } from '../src/evm'
+
+import { getEEI } from './utils'
+
+import type { AddOpcode } from '../src/types'
+
+const common = new Common({ chain: Chain.Mainnet, hardfork: Hardfork.London })
+
+tape('disassemble', (t) => {
+  t.test('should disassemble legacy code', (st) => {
+    // PUSH1 0x5b JUMPDEST PUSH2 0x00 (truncated)
+    const instructions = disassemble(Buffer.from('605b5b6100', 'hex'), common)
+    st.deepEqual(
+      instructions.map(({ pc, name, isJumpDest }) => [pc, name, isJumpDest]),
+      [
+        [0, 'PUSH1', false],
+        [2, 'JUMPDEST', true],
+        [3, 'PUSH2', false],
+      ],
+      'should return the instructions'
+    )
+    st.equal(instructions[0].data!.toString('hex'), '5b', 'should return the push data')
+    st.equal(instructions[2].data!.toString('hex'), '00', 'should truncate the push data')
+    st.end()
+  })
+
+  t.test('should use the opcodes of the hardfork and EIPs', (st) => {
+    st.equal(
+      disassemble(Buffer.from('5f', 'hex'), common)[0].name,
+      'INVALID',
+      'should not know opcodes of inactive EIPs'
+    )
+    const push0Common = new Common({
+      chain: Chain.Mainnet,
+      hardfork: Hardfork.London,
+      eips: [3855],
+    })
+    st.equal(
+      disassemble(Buffer.from('5f', 'hex'), push0Common)[0].name,
+      'PUSH0',
+      'should know opcodes of active EIPs'
+    )
+
+    const testOpcode: AddOpcode = {
+      opcode: 0x21,
+      opcodeName: 'TEST',
+      baseFee: 1,
+      logicFunction() {},
+    }
+    st.equal(
+      disassemble(Buffer.from('21', 'hex'), common, [testOpcode])[0].name,
+      'TEST',
+      'should know custom opcodes'
+    )
+    st.end()
+  })
+
+  t.test('should disassemble EOF containers', (st) => {
+    const eofCommon = new Common({
+      chain: Chain.Mainnet,
+      hardfork: Hardfork.London,
+      eips: [3540, 3670, 4200, 4750],
+    })
+    // Section 0: CALLF 1 RJUMPI +1 STOP STOP 0x5f, section 1: PUSH1 0x01 RETF
+    const container = Buffer.from(
+      'ef0001' +
+        '030004' +
+        '010009' +
+        '010003' +
+        '00' +
+        '00000001' +
+        'b000015d000100005f' +
+        '6001b1',
+      'hex'
+    )
+    const instructions = disassemble(container, eofCommon)
+    st.deepEqual(
+      instructions.map(({ pc, name, isJumpDest, section }) => [section, pc, name, isJumpDest]),
+      [
+        [0, 0, 'CALLF', false],
+        [0, 3, 'RJUMPI', false],
+        [0, 6, 'STOP', false],
+        [0, 7, 'STOP', true],
+        [0, 8, 'INVALID', false],
+        [1, 0, 'PUSH1', false],
+        [1, 2, 'RETF', false],
+      ],
+      'should disassemble the code sections'
+    )
+    st.equal(instructions[1].data!.toString('hex'), '0001', 'should return the immediates')
+    st.end()
+  })
+})
+
+tape('assemble', (t) => {
+  t.test('should assemble opcodes and push values', (st) => {
+    st.equal(
+      assemble('push1 0x01 PUSH 256 // comment\nPUSH 0x0001 ADD 0xfe').toString('hex'),
+      '6001610100610001' + '01fe',
+      'should assemble the program'
+    )
+    st.end()
+  })
+
+  t.test('should resolve labels', async (st) => {
+    // Count down from 3 and return the number of iterations
+    const code = assemble(
+      `
+      PUSH 3
+      PUSH 0
+      loop:
+        JUMPDEST
+        PUSH 1 ADD    // iterations + 1
+        SWAP1 PUSH 1 SWAP1 SUB SWAP1
+        DUP2 JUMPI @loop
+      PUSH 0 MSTORE PUSH 32 PUSH 0 RETURN
+      `,
+      common
+    )
+    st.equal(code.slice(4, 5).toString('hex'), '5b', 'should place the label at the JUMPDEST')
+    st.equal(
+      disassemble(code, common)
+        .filter((instruction) => instruction.name === 'PUSH2')
+        .map((instruction) => instruction.data!.toString('hex'))
+        .join(),
+      '0004',
+      'should push the label position'
+    )
+
+    const evm = await EVM.create({ common, eei: await getEEI() })
+    const result = await evm.runCode({ code, gasLimit: BigInt(0xffff) })
+    st.equal(result.exceptionError, undefined, 'should execute the jumps')
+    st.equal(result.returnValue[31], 3, 'should loop three times')
+    st.end()
+  })
+
+  t.test('should throw on invalid programs', (st) => {
+    st.throws(() => assemble('FOO'), /Unknown opcode at line 1: FOO/, 'unknown opcode')
+    st.throws(() => assemble('PUSH1 0x0102'), /too large/, 'push value too large')
+    st.throws(() => assemble('PUSH1'), /Missing push value/, 'missing push value')
+    st.throws(() => assemble('JUMP @end'), /Undefined label at line 1: @end/, 'undefined label')
+    st.throws(() => assemble('a:\na:'), /Duplicate label at line 2/, 'duplicate label')
+    st.end()
+  })
+})
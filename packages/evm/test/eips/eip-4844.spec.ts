@@ -0,0 +1,61 @@
+import { Chain, Common, Hardfork } from '@ethereumjs/common'
+import { bufferToBigInt } from '@ethereumjs/util'
+import * as tape from 'tape'
+
+import { EVM } from '../../src'
+import { getEEI } from '../utils'
+
+tape('EIP 4844 tests', (t) => {
+  const common = new Common({
+    chain: Chain.Mainnet,
+    hardfork: Hardfork.Merge,
+    eips: [4895, 4844],
+  })
+  const versionedHashes = [Buffer.alloc(32, 1), Buffer.alloc(32, 2)]
+
+  t.test('DATAHASH should return the versioned hashes of the tx', async (st) => {
+    const eei = await getEEI()
+    const evm = await EVM.create({ common, eei })
+
+    // PUSH1 <index> DATAHASH PUSH1 0x00 MSTORE PUSH1 0x20 PUSH1 0x00 RETURN
+    const code = (index: number) =>
+      Buffer.from(`60${index.toString(16).padStart(2, '0')}4960005260206000f3`, 'hex')
+
+    for (const [index, expected] of [
+      [0, versionedHashes[0]],
+      [1, versionedHashes[1]],
+      [2, Buffer.alloc(32)],
+    ] as [number, Buffer][]) {
+      const result = await evm.runCode({
+        code: code(index),
+        gasLimit: BigInt(0xffff),
+        versionedHashes,
+      })
+      st.deepEqual(result.returnValue, expected, `should return the hash at index ${index}`)
+    }
+
+    const result = await evm.runCode({ code: code(0), gasLimit: BigInt(0xffff) })
+    st.equal(bufferToBigInt(result.returnValue), BigInt(0), 'should return 0 without blobs')
+    st.end()
+  })
+
+  t.test('DATAHASH should only be available with EIP-4844', async (st) => {
+    const eei = await getEEI()
+    const evm = await EVM.create({
+      common: new Common({ chain: Chain.Mainnet, hardfork: Hardfork.Merge }),
+      eei,
+    })
+    const result = await evm.runCode({
+      code: Buffer.from('600049', 'hex'),
+      gasLimit: BigInt(0xffff),
+      versionedHashes,
+    })
+    st.equal(result.exceptionError?.error, 'invalid opcode', 'should throw on DATAHASH')
+    st.equal(
+      (await EVM.create({ common, eei })).getActiveOpcodes().get(0x49)?.fee,
+      Number(common.param('gasPrices', 'datahash')),
+      'should use the datahash gas costs'
+    )
+    st.end()
+  })
+})
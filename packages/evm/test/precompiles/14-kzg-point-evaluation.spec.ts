@@ -0,0 +1,107 @@
+import { Chain, Common, Hardfork } from '@ethereumjs/common'
+import { bufferToBigInt, computeVersionedHash, initKZG } from '@ethereumjs/util'
+import * as tape from 'tape'
+
+import { EVM } from '../../src'
+import { ERROR } from '../../src/exceptions'
+import { getActivePrecompiles } from '../../src/precompiles'
+import { BLS_MODULUS } from '../../src/precompiles/14-kzg-point-evaluation'
+import { getEEI } from '../utils'
+
+import type { Kzg } from '@ethereumjs/util'
+
+// Mock kzg library only accepting proofs consisting of the z value
+const mockKzg: Kzg = {
+  loadTrustedSetup: () => {},
+  blobToKzgCommitment: () => Buffer.alloc(48),
+  computeBlobKzgProof: () => Buffer.alloc(48),
+  verifyKzgProof: (_commitment, z, _y, proof) =>
+    Buffer.from(z).equals(Buffer.from(proof).slice(16)),
+  verifyBlobKzgProofBatch: () => true,
+}
+
+tape('Precompiles: point evaluation', (t) => {
+  t.test('POINT EVALUATION', async (st) => {
+    initKZG(mockKzg, '')
+    const common = new Common({
+      chain: Chain.Mainnet,
+      hardfork: Hardfork.Merge,
+      eips: [4895, 4844],
+    })
+    const eei = await getEEI()
+    const evm = await EVM.create({ common, eei })
+    const addressStr = '0000000000000000000000000000000000000014'
+    const pointEvaluation = getActivePrecompiles(common).get(addressStr)!
+
+    st.equal(
+      getActivePrecompiles(new Common({ chain: Chain.Mainnet, hardfork: Hardfork.Merge })).get(
+        addressStr
+      ),
+      undefined,
+      'should only be available with EIP-4844'
+    )
+
+    const commitment = Buffer.alloc(48, 1)
+    const z = Buffer.alloc(32, 2)
+    const y = Buffer.alloc(32, 3)
+    const input = (versionedHash: Buffer, proof: Buffer) =>
+      Buffer.concat([versionedHash, z, y, commitment, proof])
+    const versionedHash = computeVersionedHash(commitment, 1)
+    const gasUsed = common.param('gasPrices', 'kzgPointEvaluationGasPrecompile')
+
+    let result = await pointEvaluation({
+      data: input(versionedHash, Buffer.concat([Buffer.alloc(16), z])),
+      gasLimit: BigInt(0xfffff),
+      _common: common,
+      _EVM: evm,
+    })
+    st.equal(result.executionGasUsed, gasUsed, 'should use the point evaluation gas costs')
+    st.equal(
+      bufferToBigInt(result.returnValue.slice(0, 32)),
+      BigInt(4096),
+      'should return FIELD_ELEMENTS_PER_BLOB'
+    )
+    st.equal(bufferToBigInt(result.returnValue.slice(32)), BLS_MODULUS, 'should return BLS_MODULUS')
+
+    result = await pointEvaluation({
+      data: input(versionedHash, Buffer.alloc(48)),
+      gasLimit: BigInt(0xfffff),
+      _common: common,
+      _EVM: evm,
+    })
+    st.equal(result.exceptionError?.error, ERROR.INVALID_PROOF, 'should fail on invalid proofs')
+
+    result = await pointEvaluation({
+      data: input(computeVersionedHash(commitment, 2), Buffer.concat([Buffer.alloc(16), z])),
+      gasLimit: BigInt(0xfffff),
+      _common: common,
+      _EVM: evm,
+    })
+    st.equal(
+      result.exceptionError?.error,
+      ERROR.INVALID_COMMITMENT,
+      'should fail on versioned hashes not matching the commitment'
+    )
+
+    result = await pointEvaluation({
+      data: Buffer.alloc(191),
+      gasLimit: BigInt(0xfffff),
+      _common: common,
+      _EVM: evm,
+    })
+    st.equal(
+      result.exceptionError?.error,
+      ERROR.INVALID_INPUTS,
+      'should fail on wrong input length'
+    )
+
+    result = await pointEvaluation({
+      data: input(versionedHash, Buffer.concat([Buffer.alloc(16), z])),
+      gasLimit: gasUsed - BigInt(1),
+      _common: common,
+      _EVM: evm,
+    })
+    st.equal(result.exceptionError?.error, ERROR.OUT_OF_GAS, 'should run out of gas')
+    st.end()
+  })
+})
@@ -0,0 +1,124 @@
+import { Chain, Common, Hardfork } from '@ethereumjs/common'
+import { Address } from '@ethereumjs/util'
+import * as tape from 'tape'
+
+import { EVM } from '../src'
+
+import { createAccount, getEEI } from './utils'
+
+const caller = new Address(Buffer.from('10'.repeat(20), 'hex'))
+const contractA = new Address(Buffer.from('aa'.repeat(20), 'hex'))
+const contractB = new Address(Buffer.from('bb'.repeat(20), 'hex'))
+const identity = new Address(Buffer.from('04'.padStart(40, '0'), 'hex'))
+
+// A: SSTORE(0, 1), CALL the identity precompile with one word, CALL B and STOP
+const codeA =
+  '6001600055' +
+  '600060006020600060006004' +
+  '5af150' +
+  '6000600060006000600073' +
+  contractB.buf.toString('hex') +
+  '5af150' +
+  '00'
+// B: SSTORE(1, 2) and STOP
+const codeB = '600260015500'
+
+async function setup(profiler = true) {
+  const common = new Common({ chain: Chain.Mainnet, hardfork: Hardfork.London })
+  const eei = await getEEI()
+  const evm = await EVM.create({ common, eei, profiler })
+  await eei.putAccount(caller, createAccount())
+  for (const [address, code] of [
+    [contractA, codeA],
+    [contractB, codeB],
+  ] as [Address, string][]) {
+    await eei.putAccount(address, createAccount(BigInt(1), BigInt(0)))
+    await eei.putContractCode(address, Buffer.from(code, 'hex'))
+  }
+  return evm
+}
+
+const runCall = (evm: EVM) =>
+  evm.runCall({
+    caller,
+    to: contractA,
+    gasLimit: BigInt(0xfffff),
+  })
+
+tape('EVMProfiler', (t) => {
+  t.test('should only be set if enabled', async (st) => {
+    const evm = await setup(false)
+    st.equal(evm.profiler, undefined, 'should not profile by default')
+    st.end()
+  })
+
+  t.test('should aggregate the gas per contract, pc and opcode', async (st) => {
+    const evm = await setup()
+    const res = await runCall(evm)
+    const report = evm.profiler!.getReport()
+
+    st.deepEqual(
+      report.contracts.map((contract) => contract.address),
+      [contractA.toString(), contractB.toString()],
+      'should include the executed contracts'
+    )
+    const sstore = report.contracts[0].pcs.find((entry) => entry.pc === 4)!
+    st.equal(sstore.opcode, 'SSTORE', 'should record the opcode of the pc')
+    st.equal(sstore.count, 1, 'should record the execution count')
+    st.equal(sstore.staticGas, 0, 'should record the static gas')
+    st.equal(sstore.dynamicGas, 22100, 'should record the dynamic gas')
+    st.ok(sstore.time >= 0, 'should record the execution time')
+
+    st.equal(report.opcodes['CALL'].count, 2, 'should aggregate per opcode')
+    st.equal(report.opcodes['SSTORE'].dynamicGas, 44200, 'should aggregate the gas per opcode')
+    st.deepEqual(
+      Object.keys(report.precompiles),
+      [identity.toString()],
+      'should record the called precompiles'
+    )
+    st.equal(
+      report.precompiles[identity.toString()].gasUsed,
+      18,
+      'should record the precompile gas'
+    )
+    st.equal(
+      report.totalGas,
+      Number(res.execResult.executionGasUsed),
+      'total gas should match the gas used by the call'
+    )
+    st.end()
+  })
+
+  t.test('should return folded stacks', async (st) => {
+    const evm = await setup()
+    await runCall(evm)
+    const lines = evm.profiler!.getFoldedStacks().split('\n')
+    const a = contractA.toString()
+    const b = contractB.toString()
+    st.ok(lines.includes(`${a};SSTORE 22100`), 'should include the opcodes of the top level call')
+    st.ok(lines.includes(`${a};${b};SSTORE 22100`), 'should include the call path of sub-calls')
+    st.ok(lines.includes(`${a};${identity} 18`), 'should include precompiles as frames')
+    st.ok(
+      evm
+        .profiler!.getFoldedStacks('time')
+        .split('\n')
+        .every((line) => /^\S+ \d+$/.test(line)),
+      'should weigh by time in microseconds'
+    )
+    st.end()
+  })
+
+  t.test('should aggregate multiple runs until reset', async (st) => {
+    const evm = await setup()
+    await runCall(evm)
+    await runCall(evm)
+    st.equal(evm.profiler!.getReport().opcodes['STOP'].count, 4, 'should aggregate the runs')
+    evm.profiler!.reset()
+    st.deepEqual(
+      evm.profiler!.getReport(),
+      { contracts: [], opcodes: {}, precompiles: {}, totalGas: 0, totalTime: 0 },
+      'should clear the data'
+    )
+    st.end()
+  })
+})
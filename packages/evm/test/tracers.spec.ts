@@ -0,0 +1,229 @@
+import { Chain, Common, Hardfork } from '@ethereumjs/common'
+import { Address } from '@ethereumjs/util'
+import * as tape from 'tape'
+
+import { EVM } from '../src'
+import { CallTracer, FourByteTracer, PrestateTracer, StructLogger } from '../src/tracers'
+
+import { createAccount, getEEI } from './utils'
+
+import type { Tracer } from '../src/tracers'
+
+const caller = new Address(Buffer.from('10'.repeat(20), 'hex'))
+const contractA = new Address(Buffer.from('aa'.repeat(20), 'hex'))
+const contractB = new Address(Buffer.from('bb'.repeat(20), 'hex'))
+const contractC = new Address(Buffer.from('cc'.repeat(20), 'hex'))
+
+// Revert data of `Error("no")`
+const revertData =
+  '08c379a0' +
+  '20'.padStart(64, '0') +
+  '02'.padStart(64, '0') +
+  Buffer.from('no').toString('hex').padEnd(64, '0')
+
+// A: SSTORE(0, 1), CALL B with selector 0x12345678 and one word of data,
+// STATICCALL C with selector 0x12345678, LOG1 the selector and STOP
+const codeA =
+  '6001600055' +
+  '6312345678' +
+  '60e01b600052' +
+  '6000600060246000600073' +
+  contractB.buf.toString('hex') +
+  '61fffff150' +
+  '600060006004600073' +
+  contractC.buf.toString('hex') +
+  '61fffffa50' +
+  '600160046000a1' +
+  '00'
+// B: revert with `Error("no")`
+const codeB = '6064600c600039' + '60646000fd' + revertData
+// C: STOP
+const codeC = '00'
+
+async function setup() {
+  const common = new Common({ chain: Chain.Mainnet, hardfork: Hardfork.London })
+  const eei = await getEEI()
+  const evm = await EVM.create({ common, eei })
+  await eei.putAccount(caller, createAccount())
+  for (const [address, code] of [
+    [contractA, codeA],
+    [contractB, codeB],
+    [contractC, codeC],
+  ] as [Address, string][]) {
+    await eei.putAccount(address, createAccount(BigInt(1), BigInt(0)))
+    await eei.putContractCode(address, Buffer.from(code, 'hex'))
+  }
+  return evm
+}
+
+const runCall = (evm: EVM, tracer?: Tracer) =>
+  evm.runCall({
+    caller,
+    to: contractA,
+    data: Buffer.from('aabbccdd', 'hex'),
+    gasLimit: BigInt(0xfffff),
+    tracer,
+  })
+
+tape('Tracers', (t) => {
+  t.test('should call the tracer hooks', async (st) => {
+    const evm = await setup()
+    const calls: string[] = []
+    const tracer: Tracer = {
+      onEnter: (frame) => {
+        calls.push(`enter ${frame.type} ${frame.depth}`)
+      },
+      onExit: (result) => {
+        calls.push(`exit ${result.depth} ${result.error?.error ?? 'ok'}`)
+      },
+      onStorageChange: (change) => {
+        calls.push(`sstore ${change.previousValue[31]} -> ${change.value[31]}`)
+      },
+      onLog: (log) => {
+        calls.push(`log ${log[1].length}`)
+      },
+    }
+    await runCall(evm, tracer)
+    st.deepEqual(
+      calls,
+      [
+        'enter CALL 0',
+        'sstore 0 -> 1',
+        'enter CALL 1',
+        'exit 1 revert',
+        'enter STATICCALL 1',
+        'exit 1 ok',
+        'log 1',
+        'exit 0 ok',
+      ],
+      'should call the hooks in execution order'
+    )
+
+    calls.length = 0
+    await runCall(evm)
+    st.equal(calls.length, 0, 'should detach the tracer after the call')
+    st.end()
+  })
+
+  t.test('structLogger', async (st) => {
+    const evm = await setup()
+    const tracer = new StructLogger()
+    await runCall(evm, tracer)
+    const { structLogs, failed } = tracer.getResult()
+    st.equal(failed, false, 'should not have failed')
+    st.deepEqual(
+      structLogs.slice(0, 3).map((log) => log.op),
+      ['PUSH1', 'PUSH1', 'SSTORE'],
+      'should log the executed opcodes'
+    )
+    st.deepEqual(structLogs[2].stack, ['0x1', '0x0'], 'should include the stack')
+    st.deepEqual(
+      structLogs[2].storage,
+      { ['00'.repeat(32)]: '00'.repeat(31) + '01' },
+      'should include the accessed storage'
+    )
+    st.equal(
+      structLogs.filter((log) => log.depth === 2).length,
+      8,
+      'should log the opcodes of sub-calls'
+    )
+
+    const disabled = new StructLogger({ disableStack: true, disableMemory: true })
+    await runCall(await setup(), disabled)
+    st.equal(disabled.getResult().structLogs[2].stack, undefined, 'should omit the stack')
+    st.equal(disabled.getResult().structLogs[2].memory, undefined, 'should omit the memory')
+    st.end()
+  })
+
+  t.test('callTracer', async (st) => {
+    const evm = await setup()
+    const tracer = new CallTracer({ withLog: true })
+    await runCall(evm, tracer)
+    const frame = tracer.getResult()!
+    st.equal(frame.type, 'CALL', 'should return the top level frame')
+    st.equal(frame.from, caller.toString(), 'should return the caller')
+    st.equal(frame.to, contractA.toString(), 'should return the callee')
+    st.equal(frame.input, '0xaabbccdd', 'should return the input')
+    st.equal(frame.calls!.length, 2, 'should return the sub-calls')
+
+    const [callB, callC] = frame.calls!
+    st.equal(callB.type, 'CALL', 'should return the type of the sub-call')
+    st.equal(callB.from, contractA.toString(), 'should return the sub-call caller')
+    st.equal(callB.input, '0x12345678' + '00'.repeat(32), 'should return the sub-call input')
+    st.equal(callB.error, 'execution reverted', 'should return the error of reverted calls')
+    st.equal(callB.output, '0x' + revertData, 'should return the revert data')
+    st.equal(callB.revertReason, 'no', 'should decode the revert reason')
+    st.equal(callC.type, 'STATICCALL', 'should return STATICCALL frames')
+    st.equal(callC.value, undefined, 'should omit the value of STATICCALL frames')
+    st.deepEqual(
+      frame.logs,
+      [
+        {
+          address: contractA.toString(),
+          topics: ['0x' + '00'.repeat(31) + '01'],
+          data: '0x12345678',
+          position: '0x2',
+        },
+      ],
+      'should return the logs'
+    )
+
+    const topCall = new CallTracer({ onlyTopCall: true })
+    await runCall(await setup(), topCall)
+    st.equal(topCall.getResult()!.calls, undefined, 'should only trace the top level call')
+    st.end()
+  })
+
+  t.test('prestateTracer', async (st) => {
+    const evm = await setup()
+    const tracer = new PrestateTracer()
+    await runCall(evm, tracer)
+    const pre = tracer.getResult() as any
+    st.deepEqual(
+      Object.keys(pre).sort(),
+      [caller, contractA, contractB, contractC].map((a) => a.toString()).sort(),
+      'should include all touched accounts'
+    )
+    st.deepEqual(
+      pre[contractA.toString()],
+      {
+        balance: '0x0',
+        nonce: 1,
+        code: '0x' + codeA,
+        storage: { ['0x' + '00'.repeat(32)]: '0x' + '00'.repeat(32) },
+      },
+      'should return the state before the call'
+    )
+
+    const diffTracer = new PrestateTracer({ diffMode: true })
+    await runCall(await setup(), diffTracer)
+    const diff = diffTracer.getResult() as any
+    st.deepEqual(
+      Object.keys(diff.pre),
+      [contractA.toString()],
+      'should only include modified accounts in the pre state'
+    )
+    st.deepEqual(
+      diff.post,
+      {
+        [contractA.toString()]: {
+          storage: { ['0x' + '00'.repeat(32)]: '0x' + '00'.repeat(31) + '01' },
+        },
+      },
+      'should only include the modified fields in the post state'
+    )
+    st.end()
+  })
+
+  t.test('4byteTracer', async (st) => {
+    const evm = await setup()
+    const tracer = new FourByteTracer()
+    await runCall(evm, tracer)
+    st.deepEqual(
+      tracer.getResult(),
+      { '0xaabbccdd-0': 1, '0x12345678-32': 1, '0x12345678-0': 1 },
+      'should count the called selectors by calldata size'
+    )
+    st.end()
+  })
+})
@@ -0,0 +1,586 @@
+import { RLP } from '@ethereumjs/rlp'
+import {
+  MAX_INTEGER,
+  arrToBufArr,
+  bigIntToHex,
+  bigIntToUnpaddedBuffer,
+  bufArrToArr,
+  bufferToBigInt,
+  bufferToHex,
+  computeVersionedHash,
+  ecrecover,
+  kzg,
+  toBuffer,
+  validateNoLeadingZeroes,
+} from '@ethereumjs/util'
+import { keccak256 } from 'ethereum-cryptography/keccak'
+
+import { BaseTransaction } from './baseTransaction'
+import { AccessLists, checkMaxInitCodeSize, validateBlobs } from './util'
+
+import type {
+  AccessList,
+  AccessListBuffer,
+  BlobEIP4844NetworkValuesArray,
+  BlobEIP4844TxData,
+  BlobEIP4844ValuesArray,
+  JsonTx,
+  TxOptions,
+} from './types'
+import type { Common } from '@ethereumjs/common'
+
+const TRANSACTION_TYPE = 3
+const TRANSACTION_TYPE_BUFFER = Buffer.from(TRANSACTION_TYPE.toString(16).padStart(2, '0'), 'hex')
+
+/**
+ * Typed transaction carrying blobs of data for rollups
+ *
+ * - TransactionType: 3
+ * - EIP: [EIP-4844](https://eips.ethereum.org/EIPS/eip-4844)
+ *
+ * The blobs are not part of the tx itself (and e.g. not included in a block) but
+ * sent along in the network wrapper (see {@link BlobEIP4844Transaction.serializeNetworkWrapper}),
+ * the tx only commits to them with the versioned hashes of their KZG commitments.
+ */
+export class BlobEIP4844Transaction extends BaseTransaction<BlobEIP4844Transaction> {
+  public readonly chainId: bigint
+  public readonly accessList: AccessListBuffer
+  public readonly AccessListJSON: AccessList
+  public readonly maxPriorityFeePerGas: bigint
+  public readonly maxFeePerGas: bigint
+  public readonly maxFeePerDataGas: bigint
+  public readonly versionedHashes: Buffer[]
+
+  public readonly blobs?: Buffer[]
+  public readonly kzgCommitments?: Buffer[]
+  public readonly kzgProofs?: Buffer[]
+
+  public readonly common: Common
+
+  /**
+   * Instantiate a transaction from a data dictionary.
+   *
+   * Format: { chainId, nonce, maxPriorityFeePerGas, maxFeePerGas, gasLimit, to, value, data,
+   * accessList, maxFeePerDataGas, versionedHashes, v, r, s, blobs, kzgCommitments, kzgProofs }
+   *
+   * Notes:
+   * - `chainId` will be set automatically if not provided
+   * - If `blobs` are provided, missing `kzgCommitments`, `kzgProofs` and `versionedHashes`
+   *   are computed with the kzg library (see `initKZG` from `@ethereumjs/util`)
+   * - All parameters are optional and have some basic default values
+   */
+  public static fromTxData(txData: BlobEIP4844TxData, opts: TxOptions = {}) {
+    return new BlobEIP4844Transaction(txData, opts)
+  }
+
+  /**
+   * Instantiate a transaction from the serialized tx (without the blobs).
+   *
+   * Format: `0x03 || rlp([chainId, nonce, maxPriorityFeePerGas, maxFeePerGas, gasLimit, to, value, data,
+   * accessList, maxFeePerDataGas, versionedHashes, signatureYParity, signatureR, signatureS])`
+   */
+  public static fromSerializedTx(serialized: Buffer, opts: TxOptions = {}) {
+    if (!serialized.slice(0, 1).equals(TRANSACTION_TYPE_BUFFER)) {
+      throw new Error(
+        `Invalid serialized tx input: not an EIP-4844 transaction (wrong tx type, expected: ${TRANSACTION_TYPE}, received: ${serialized
+          .slice(0, 1)
+          .toString('hex')}`
+      )
+    }
+
+    const values = arrToBufArr(RLP.decode(serialized.slice(1)))
+
+    if (!Array.isArray(values)) {
+      throw new Error('Invalid serialized tx input: must be array')
+    }
+
+    return BlobEIP4844Transaction.fromValuesArray(values as any, opts)
+  }
+
+  /**
+   * Instantiate a transaction from the serialized network wrapper, validating the blobs
+   * against the versioned hashes with the kzg library.
+   *
+   * Format: `0x03 || rlp([txValues, blobs, kzgCommitments, kzgProofs])`
+   */
+  public static fromSerializedBlobTxNetworkWrapper(serialized: Buffer, opts: TxOptions = {}) {
+    if (!serialized.slice(0, 1).equals(TRANSACTION_TYPE_BUFFER)) {
+      throw new Error(
+        `Invalid serialized tx input: not an EIP-4844 transaction (wrong tx type, expected: ${TRANSACTION_TYPE}, received: ${serialized
+          .slice(0, 1)
+          .toString('hex')}`
+      )
+    }
+
+    const values = arrToBufArr(RLP.decode(serialized.slice(1))) as BlobEIP4844NetworkValuesArray
+
+    if (!Array.isArray(values) || values.length !== 4 || !Array.isArray(values[0])) {
+      throw new Error(
+        'Invalid serialized network wrapper: must be array of tx values, blobs, commitments and proofs'
+      )
+    }
+
+    const [txValues, blobs, kzgCommitments, kzgProofs] = values
+    const tx = BlobEIP4844Transaction.fromValuesArray(txValues, opts)
+    validateBlobs(tx.common, tx.versionedHashes, blobs, kzgCommitments, kzgProofs)
+
+    return BlobEIP4844Transaction.fromTxData(
+      { ...tx.toTxData(), blobs, kzgCommitments, kzgProofs },
+      { ...opts, common: tx.common }
+    )
+  }
+
+  /**
+   * Create a transaction from a values array.
+   *
+   * Format: `[chainId, nonce, maxPriorityFeePerGas, maxFeePerGas, gasLimit, to, value, data,
+   * accessList, maxFeePerDataGas, versionedHashes, signatureYParity, signatureR, signatureS]`
+   */
+  public static fromValuesArray(values: BlobEIP4844ValuesArray, opts: TxOptions = {}) {
+    if (values.length !== 11 && values.length !== 14) {
+      throw new Error(
+        'Invalid EIP-4844 transaction. Only expecting 11 values (for unsigned tx) or 14 values (for signed tx).'
+      )
+    }
+
+    const [
+      chainId,
+      nonce,
+      maxPriorityFeePerGas,
+      maxFeePerGas,
+      gasLimit,
+      to,
+      value,
+      data,
+      accessList,
+      maxFeePerDataGas,
+      versionedHashes,
+      v,
+      r,
+      s,
+    ] = values
+
+    this._validateNotArray({ chainId, maxFeePerDataGas, v })
+    validateNoLeadingZeroes({
+      nonce,
+      maxPriorityFeePerGas,
+      maxFeePerGas,
+      gasLimit,
+      value,
+      maxFeePerDataGas,
+      v,
+      r,
+      s,
+    })
+    if (!Array.isArray(versionedHashes)) {
+      throw new Error('versionedHashes must be an array')
+    }
+
+    return new BlobEIP4844Transaction(
+      {
+        chainId: bufferToBigInt(chainId),
+        nonce,
+        maxPriorityFeePerGas,
+        maxFeePerGas,
+        gasLimit,
+        to,
+        value,
+        data,
+        accessList: accessList ?? [],
+        maxFeePerDataGas,
+        versionedHashes,
+        v: v !== undefined ? bufferToBigInt(v) : undefined, // EIP2930 supports v's with value 0 (empty Buffer)
+        r,
+        s,
+      },
+      opts
+    )
+  }
+
+  /**
+   * This constructor takes the values, validates them, assigns them and freezes the object.
+   *
+   * It is not recommended to use this constructor directly. Instead use
+   * the static factory methods to assist in creating a Transaction object from
+   * varying data types.
+   */
+  public constructor(txData: BlobEIP4844TxData, opts: TxOptions = {}) {
+    super({ ...txData, type: TRANSACTION_TYPE }, opts)
+    const { chainId, accessList, maxFeePerGas, maxPriorityFeePerGas, maxFeePerDataGas } = txData
+
+    this.common = this._getCommon(opts.common, chainId)
+    this.chainId = this.common.chainId()
+
+    if (this.common.isActivatedEIP(4844) === false) {
+      throw new Error('EIP-4844 not enabled on Common')
+    }
+    this.activeCapabilities = this.activeCapabilities.concat([1559, 2718, 2930])
+
+    // Populate the access list fields
+    const accessListData = AccessLists.getAccessListData(accessList ?? [])
+    this.accessList = accessListData.accessList
+    this.AccessListJSON = accessListData.AccessListJSON
+    // Verify the access list format.
+    AccessLists.verifyAccessList(this.accessList)
+
+    this.maxFeePerGas = bufferToBigInt(toBuffer(maxFeePerGas === '' ? '0x' : maxFeePerGas))
+    this.maxPriorityFeePerGas = bufferToBigInt(
+      toBuffer(maxPriorityFeePerGas === '' ? '0x' : maxPriorityFeePerGas)
+    )
+    this.maxFeePerDataGas = bufferToBigInt(
+      toBuffer(maxFeePerDataGas === '' ? '0x' : maxFeePerDataGas)
+    )
+
+    this._validateCannotExceedMaxInteger({
+      maxFeePerGas: this.maxFeePerGas,
+      maxPriorityFeePerGas: this.maxPriorityFeePerGas,
+      maxFeePerDataGas: this.maxFeePerDataGas,
+    })
+
+    BaseTransaction._validateNotArray(txData)
+
+    if (this.gasLimit * this.maxFeePerGas > MAX_INTEGER) {
+      const msg = this._errorMsg('gasLimit * maxFeePerGas cannot exceed MAX_INTEGER (2^256-1)')
+      throw new Error(msg)
+    }
+
+    if (this.maxFeePerGas < this.maxPriorityFeePerGas) {
+      const msg = this._errorMsg(
+        'maxFeePerGas cannot be less than maxPriorityFeePerGas (The total must be the larger of the two)'
+      )
+      throw new Error(msg)
+    }
+
+    if (this.to === undefined) {
+      const msg = this._errorMsg('Blob transactions cannot create contracts (no `to` address)')
+      throw new Error(msg)
+    }
+
+    const version = Number(this.common.param('vm', 'blobCommitmentVersionKzg'))
+    this.blobs = txData.blobs?.map((blob) => toBuffer(blob))
+    this.kzgCommitments = txData.kzgCommitments?.map((commitment) => toBuffer(commitment))
+    this.kzgProofs = txData.kzgProofs?.map((proof) => toBuffer(proof))
+    if (this.blobs !== undefined) {
+      this.kzgCommitments =
+        this.kzgCommitments ?? this.blobs.map((blob) => Buffer.from(kzg.blobToKzgCommitment(blob)))
+      const commitments = this.kzgCommitments
+      this.kzgProofs =
+        this.kzgProofs ??
+        this.blobs.map((blob, i) => Buffer.from(kzg.computeBlobKzgProof(blob, commitments[i])))
+    }
+    this.versionedHashes =
+      txData.versionedHashes?.map((hash) => toBuffer(hash)) ??
+      this.kzgCommitments?.map((commitment) => computeVersionedHash(commitment, version)) ??
+      []
+
+    if (this.versionedHashes.length === 0) {
+      const msg = this._errorMsg('Blob transactions must have at least one versioned hash')
+      throw new Error(msg)
+    }
+    const maxBlobs =
+      this.common.param('gasConfig', 'maxDataGasPerBlock') /
+      this.common.param('gasConfig', 'dataGasPerBlob')
+    if (BigInt(this.versionedHashes.length) > maxBlobs) {
+      const msg = this._errorMsg(`Blob transactions can have at most ${maxBlobs} blobs`)
+      throw new Error(msg)
+    }
+    for (const hash of this.versionedHashes) {
+      if (hash.length !== 32) {
+        const msg = this._errorMsg('versionedHashes must be 32 bytes long')
+        throw new Error(msg)
+      }
+      if (hash[0] !== version) {
+        const msg = this._errorMsg(`versionedHashes must start with version ${version}`)
+        throw new Error(msg)
+      }
+    }
+
+    this._validateYParity()
+    this._validateHighS()
+
+    if (this.common.isActivatedEIP(3860)) {
+      checkMaxInitCodeSize(this.common, this.data.length)
+    }
+
+    const freeze = opts?.freeze ?? true
+    if (freeze) {
+      Object.freeze(this)
+    }
+  }
+
+  /**
+   * The amount of gas paid for the data in this tx
+   */
+  getDataFee(): bigint {
+    if (this.cache.dataFee && this.cache.dataFee.hardfork === this.common.hardfork()) {
+      return this.cache.dataFee.value
+    }
+
+    let cost = super.getDataFee()
+    cost += BigInt(AccessLists.getDataFeeEIP2930(this.accessList, this.common))
+
+    if (Object.isFrozen(this)) {
+      this.cache.dataFee = {
+        value: cost,
+        hardfork: this.common.hardfork(),
+      }
+    }
+
+    return cost
+  }
+
+  /**
+   * The data gas used for the blobs of this tx (paid with the data gas price,
+   * separate from the gas used for execution)
+   */
+  getTotalDataGas(): bigint {
+    return this.common.param('gasConfig', 'dataGasPerBlob') * BigInt(this.versionedHashes.length)
+  }
+
+  /**
+   * The up front amount that an account must have for this transaction to be valid,
+   * not including the fee for the data gas (see {@link BlobEIP4844Transaction.getTotalDataGas})
+   * @param baseFee The base fee of the block (will be set to 0 if not provided)
+   */
+  getUpfrontCost(baseFee: bigint = BigInt(0)): bigint {
+    const prio = this.maxPriorityFeePerGas
+    const maxBase = this.maxFeePerGas - baseFee
+    const inclusionFeePerGas = prio < maxBase ? prio : maxBase
+    const gasPrice = inclusionFeePerGas + baseFee
+    return this.gasLimit * gasPrice + this.value
+  }
+
+  /**
+   * Returns a Buffer Array of the raw Buffers of the EIP-4844 transaction, in order.
+   *
+   * Format: `[chainId, nonce, maxPriorityFeePerGas, maxFeePerGas, gasLimit, to, value, data,
+   * accessList, maxFeePerDataGas, versionedHashes, signatureYParity, signatureR, signatureS]`
+   *
+   * Use {@link BlobEIP4844Transaction.serialize} to add a transaction to a block
+   * with {@link Block.fromValuesArray}.
+   *
+   * For an unsigned tx this method uses the empty Buffer values for the
+   * signature parameters `v`, `r` and `s` for encoding. For an EIP-155 compliant
+   * representation for external signing use {@link BlobEIP4844Transaction.getMessageToSign}.
+   */
+  raw(): BlobEIP4844ValuesArray {
+    return [
+      bigIntToUnpaddedBuffer(this.chainId),
+      bigIntToUnpaddedBuffer(this.nonce),
+      bigIntToUnpaddedBuffer(this.maxPriorityFeePerGas),
+      bigIntToUnpaddedBuffer(this.maxFeePerGas),
+      bigIntToUnpaddedBuffer(this.gasLimit),
+      this.to !== undefined ? this.to.buf : Buffer.from([]),
+      bigIntToUnpaddedBuffer(this.value),
+      this.data,
+      this.accessList,
+      bigIntToUnpaddedBuffer(this.maxFeePerDataGas),
+      this.versionedHashes,
+      this.v !== undefined ? bigIntToUnpaddedBuffer(this.v) : Buffer.from([]),
+      this.r !== undefined ? bigIntToUnpaddedBuffer(this.r) : Buffer.from([]),
+      this.s !== undefined ? bigIntToUnpaddedBuffer(this.s) : Buffer.from([]),
+    ]
+  }
+
+  /**
+   * Returns the serialized encoding of the EIP-4844 transaction (without the blobs).
+   *
+   * Format: `0x03 || rlp([chainId, nonce, maxPriorityFeePerGas, maxFeePerGas, gasLimit, to, value, data,
+   * accessList, maxFeePerDataGas, versionedHashes, signatureYParity, signatureR, signatureS])`
+   */
+  serialize(): Buffer {
+    const base = this.raw()
+    return Buffer.concat([
+      TRANSACTION_TYPE_BUFFER,
+      Buffer.from(RLP.encode(bufArrToArr(base as Buffer[]))),
+    ])
+  }
+
+  /**
+   * Returns the serialized network wrapper of the transaction, sending the blobs
+   * along with their KZG commitments and proofs.
+   *
+   * Format: `0x03 || rlp([txValues, blobs, kzgCommitments, kzgProofs])`
+   */
+  serializeNetworkWrapper(): Buffer {
+    if (
+      this.blobs === undefined ||
+      this.kzgCommitments === undefined ||
+      this.kzgProofs === undefined
+    ) {
+      const msg = this._errorMsg(
+        'cannot serialize network wrapper without blobs, KZG commitments and KZG proofs provided'
+      )
+      throw new Error(msg)
+    }
+    const values: BlobEIP4844NetworkValuesArray = [
+      this.raw(),
+      this.blobs,
+      this.kzgCommitments,
+      this.kzgProofs,
+    ]
+    return Buffer.concat([
+      TRANSACTION_TYPE_BUFFER,
+      Buffer.from(RLP.encode(bufArrToArr(values as any))),
+    ])
+  }
+
+  /**
+   * Returns the serialized unsigned tx (hashed or raw), which can be used
+   * to sign the transaction (e.g. for sending to a hardware wallet).
+   *
+   * @param hashMessage - Return hashed message if set to true (default: true)
+   */
+  getMessageToSign(hashMessage = true): Buffer {
+    const base = this.raw().slice(0, 11)
+    const message = Buffer.concat([
+      TRANSACTION_TYPE_BUFFER,
+      Buffer.from(RLP.encode(bufArrToArr(base as Buffer[]))),
+    ])
+    if (hashMessage) {
+      return Buffer.from(keccak256(message))
+    } else {
+      return message
+    }
+  }
+
+  /**
+   * Computes a sha3-256 hash of the serialized tx (without the blobs).
+   *
+   * This method can only be used for signed txs (it throws otherwise).
+   * Use {@link BlobEIP4844Transaction.getMessageToSign} to get a tx hash for the purpose of signing.
+   */
+  public hash(): Buffer {
+    if (!this.isSigned()) {
+      const msg = this._errorMsg('Cannot call hash method if transaction is not signed')
+      throw new Error(msg)
+    }
+
+    if (Object.isFrozen(this)) {
+      if (!this.cache.hash) {
+        this.cache.hash = Buffer.from(keccak256(this.serialize()))
+      }
+      return this.cache.hash
+    }
+
+    return Buffer.from(keccak256(this.serialize()))
+  }
+
+  /**
+   * Computes a sha3-256 hash which can be used to verify the signature
+   */
+  public getMessageToVerifySignature(): Buffer {
+    return this.getMessageToSign()
+  }
+
+  /**
+   * Returns the public key of the sender
+   */
+  public getSenderPublicKey(): Buffer {
+    if (!this.isSigned()) {
+      const msg = this._errorMsg('Cannot call this method if transaction is not signed')
+      throw new Error(msg)
+    }
+
+    const msgHash = this.getMessageToVerifySignature()
+    const { v, r, s } = this
+
+    this._validateHighS()
+
+    try {
+      return ecrecover(
+        msgHash,
+        v! + BigInt(27), // Recover the 27 which was stripped from ecsign
+        bigIntToUnpaddedBuffer(r!),
+        bigIntToUnpaddedBuffer(s!)
+      )
+    } catch (e: any) {
+      const msg = this._errorMsg('Invalid Signature')
+      throw new Error(msg)
+    }
+  }
+
+  _processSignature(v: bigint, r: Buffer, s: Buffer) {
+    const opts = { ...this.txOptions, common: this.common }
+
+    return BlobEIP4844Transaction.fromTxData(
+      {
+        ...this.toTxData(),
+        blobs: this.blobs,
+        kzgCommitments: this.kzgCommitments,
+        kzgProofs: this.kzgProofs,
+        v: v - BigInt(27), // This looks extremely hacky: @ethereumjs/util actually adds 27 to the value, the recovery bit is either 0 or 1.
+        r: bufferToBigInt(r),
+        s: bufferToBigInt(s),
+      },
+      opts
+    )
+  }
+
+  /**
+   * Returns the tx values (without the blobs) as tx data
+   * @hidden
+   */
+  private toTxData(): BlobEIP4844TxData {
+    return {
+      chainId: this.chainId,
+      nonce: this.nonce,
+      maxPriorityFeePerGas: this.maxPriorityFeePerGas,
+      maxFeePerGas: this.maxFeePerGas,
+      gasLimit: this.gasLimit,
+      to: this.to,
+      value: this.value,
+      data: this.data,
+      accessList: this.accessList,
+      maxFeePerDataGas: this.maxFeePerDataGas,
+      versionedHashes: this.versionedHashes,
+      v: this.v,
+      r: this.r,
+      s: this.s,
+    }
+  }
+
+  /**
+   * Returns an object with the JSON representation of the transaction
+   */
+  toJSON(): JsonTx {
+    const accessListJSON = AccessLists.getAccessListJSON(this.accessList)
+
+    return {
+      chainId: bigIntToHex(this.chainId),
+      nonce: bigIntToHex(this.nonce),
+      maxPriorityFeePerGas: bigIntToHex(this.maxPriorityFeePerGas),
+      maxFeePerGas: bigIntToHex(this.maxFeePerGas),
+      gasLimit: bigIntToHex(this.gasLimit),
+      to: this.to !== undefined ? this.to.toString() : undefined,
+      value: bigIntToHex(this.value),
+      data: '0x' + this.data.toString('hex'),
+      accessList: accessListJSON,
+      maxFeePerDataGas: bigIntToHex(this.maxFeePerDataGas),
+      versionedHashes: this.versionedHashes.map((hash) => bufferToHex(hash)),
+      v: this.v !== undefined ? bigIntToHex(this.v) : undefined,
+      r: this.r !== undefined ? bigIntToHex(this.r) : undefined,
+      s: this.s !== undefined ? bigIntToHex(this.s) : undefined,
+    }
+  }
+
+  /**
+   * Return a compact error string representation of the object
+   */
+  public errorStr() {
+    let errorStr = this._getSharedErrorPostfix()
+    errorStr += ` maxFeePerGas=${this.maxFeePerGas} maxPriorityFeePerGas=${this.maxPriorityFeePerGas}`
+    errorStr += ` maxFeePerDataGas=${this.maxFeePerDataGas} blobs=${this.versionedHashes?.length}`
+    return errorStr
+  }
+
+  /**
+   * Internal helper function to create an annotated error message
+   *
+   * @param msg Base error message
+   * @hidden
+   */
+  protected _errorMsg(msg: string) {
+    return `${msg} (${this.errorStr()})`
+  }
+}
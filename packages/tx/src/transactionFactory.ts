@@ -3,11 +3,13 @@ import { ethers } from 'ethers'
 
 import { FeeMarketEIP1559Transaction } from './eip1559Transaction'
 import { AccessListEIP2930Transaction } from './eip2930Transaction'
+import { BlobEIP4844Transaction } from './eip4844Transaction'
 import { normalizeTxParams } from './fromRpc'
 import { Transaction } from './legacyTransaction'
 
 import type {
   AccessListEIP2930TxData,
+  BlobEIP4844TxData,
   FeeMarketEIP1559TxData,
   TxData,
   TxOptions,
@@ -25,7 +27,7 @@ export class TransactionFactory {
    * @param txOptions - Options to pass on to the constructor of the transaction
    */
   public static fromTxData(
-    txData: TxData | AccessListEIP2930TxData | FeeMarketEIP1559TxData,
+    txData: TxData | AccessListEIP2930TxData | FeeMarketEIP1559TxData | BlobEIP4844TxData,
     txOptions: TxOptions = {}
   ): TypedTransaction {
     if (!('type' in txData) || txData.type === undefined) {
@@ -39,6 +41,8 @@ export class TransactionFactory {
         return AccessListEIP2930Transaction.fromTxData(<AccessListEIP2930TxData>txData, txOptions)
       } else if (txType === 2) {
         return FeeMarketEIP1559Transaction.fromTxData(<FeeMarketEIP1559TxData>txData, txOptions)
+      } else if (txType === 3) {
+        return BlobEIP4844Transaction.fromTxData(<BlobEIP4844TxData>txData, txOptions)
       } else {
         throw new Error(`Tx instantiation with type ${txType} not supported`)
       }
@@ -62,10 +66,15 @@ export class TransactionFactory {
         case 2:
           EIP = 1559
           break
+        case 3:
+          EIP = 4844
+          break
         default:
           throw new Error(`TypedTransaction with ID ${data[0]} unknown`)
       }
-      if (EIP === 1559) {
+      if (EIP === 4844) {
+        return BlobEIP4844Transaction.fromSerializedTx(data, txOptions)
+      } else if (EIP === 1559) {
         return FeeMarketEIP1559Transaction.fromSerializedTx(data, txOptions)
       } else {
         // EIP === 2930
@@ -1,5 +1,6 @@
 import type { FeeMarketEIP1559Transaction } from './eip1559Transaction'
 import type { AccessListEIP2930Transaction } from './eip2930Transaction'
+import type { BlobEIP4844Transaction } from './eip4844Transaction'
 import type { Transaction } from './legacyTransaction'
 import type { Common } from '@ethereumjs/common'
 import type { AddressLike, BigIntLike, BufferLike, PrefixedHexString } from '@ethereumjs/util'
@@ -106,6 +107,7 @@ export type TypedTransaction =
   | Transaction
   | AccessListEIP2930Transaction
   | FeeMarketEIP1559Transaction
+  | BlobEIP4844Transaction
 
 /**
  * Legacy {@link Transaction} Data
@@ -197,6 +199,32 @@ export interface FeeMarketEIP1559TxData extends AccessListEIP2930TxData {
   maxFeePerGas?: BigIntLike
 }
 
+/**
+ * {@link BlobEIP4844Transaction} data.
+ */
+export interface BlobEIP4844TxData extends FeeMarketEIP1559TxData {
+  /**
+   * The maximum fee per data gas paid for the blobs
+   */
+  maxFeePerDataGas?: BigIntLike
+  /**
+   * The versioned hashes of the KZG commitments of the blobs
+   */
+  versionedHashes?: BufferLike[]
+  /**
+   * The blobs of the network wrapper, commitments and proofs are computed if not provided
+   */
+  blobs?: BufferLike[]
+  /**
+   * The KZG commitments of the blobs
+   */
+  kzgCommitments?: BufferLike[]
+  /**
+   * The KZG proofs of the blobs
+   */
+  kzgProofs?: BufferLike[]
+}
+
 /**
  * Buffer values array for a legacy {@link Transaction}
  */
@@ -237,6 +265,32 @@ export type FeeMarketEIP1559ValuesArray = [
   Buffer?
 ]
 
+/**
+ * Buffer values array for a {@link BlobEIP4844Transaction}
+ */
+export type BlobEIP4844ValuesArray = [
+  Buffer,
+  Buffer,
+  Buffer,
+  Buffer,
+  Buffer,
+  Buffer,
+  Buffer,
+  Buffer,
+  AccessListBuffer,
+  Buffer,
+  Buffer[],
+  Buffer?,
+  Buffer?,
+  Buffer?
+]
+
+/**
+ * Values array of the network wrapper of a {@link BlobEIP4844Transaction}:
+ * `[txValues, blobs, kzgCommitments, kzgProofs]`
+ */
+export type BlobEIP4844NetworkValuesArray = [BlobEIP4844ValuesArray, Buffer[], Buffer[], Buffer[]]
+
 type JsonAccessListItem = { address: string; storageKeys: string[] }
 
 /**
@@ -262,6 +316,8 @@ export interface JsonTx {
   type?: string
   maxPriorityFeePerGas?: string
   maxFeePerGas?: string
+  maxFeePerDataGas?: string
+  versionedHashes?: string[]
 }
 
 /*
@@ -275,6 +331,8 @@ export interface JsonRpcTx {
   gasPrice: string // QUANTITY - gas price provided by the sender in wei. If EIP-1559 tx, defaults to maxFeePerGas.
   maxFeePerGas?: string // QUANTITY - max total fee per gas provided by the sender in wei.
   maxPriorityFeePerGas?: string // QUANTITY - max priority fee per gas provided by the sender in wei.
+  maxFeePerDataGas?: string // QUANTITY - max data fee per data gas provided by the sender in wei.
+  versionedHashes?: string[] // DATA - array of 32 byte versioned hashes of the blobs (EIP-4844 tx)
   type: string // QUANTITY - EIP-2718 Typed Transaction type
   accessList?: JsonTx['accessList'] // EIP-2930 access list
   chainId?: string // Chain ID that this transaction is valid on.
@@ -1,4 +1,4 @@
-import { bufferToHex, setLengthLeft, toBuffer } from '@ethereumjs/util'
+import { bufferToHex, computeVersionedHash, kzg, setLengthLeft, toBuffer } from '@ethereumjs/util'
 
 import { isAccessList } from './types'
 
@@ -17,6 +17,35 @@ export function checkMaxInitCodeSize(common: Common, length: number) {
   }
 }
 
+/**
+ * Validates the blobs of the network wrapper of a blob tx against the versioned hashes
+ * of the tx, throws if the commitments don't match the hashes or the proofs are invalid
+ */
+export function validateBlobs(
+  common: Common,
+  versionedHashes: Buffer[],
+  blobs: Buffer[],
+  kzgCommitments: Buffer[],
+  kzgProofs: Buffer[]
+) {
+  if (
+    blobs.length !== versionedHashes.length ||
+    kzgCommitments.length !== versionedHashes.length ||
+    kzgProofs.length !== versionedHashes.length
+  ) {
+    throw new Error('Number of versionedHashes, blobs, commitments and proofs must all match')
+  }
+  const version = Number(common.param('vm', 'blobCommitmentVersionKzg'))
+  for (let i = 0; i < versionedHashes.length; i++) {
+    if (!computeVersionedHash(kzgCommitments[i], version).equals(versionedHashes[i])) {
+      throw new Error(`versionedHash ${i} does not match the KZG commitment of the blob`)
+    }
+  }
+  if (!kzg.verifyBlobKzgProofBatch(blobs, kzgCommitments, kzgProofs)) {
+    throw new Error('KZG proofs of the blobs are invalid')
+  }
+}
+
 export class AccessLists {
   public static getAccessListData(accessList: AccessListBuffer | AccessList) {
     let AccessListJSON
@@ -0,0 +1,160 @@
+import { Chain, Common, Hardfork } from '@ethereumjs/common'
+import { computeVersionedHash, initKZG, privateToAddress } from '@ethereumjs/util'
+import { sha256 } from 'ethereum-cryptography/sha256'
+import * as tape from 'tape'
+
+import { BlobEIP4844Transaction, TransactionFactory } from '../src'
+
+import type { Kzg } from '@ethereumjs/util'
+
+const common = new Common({
+  chain: Chain.Mainnet,
+  hardfork: Hardfork.Merge,
+  eips: [4895, 4844],
+})
+
+// Mock kzg library committing to a blob with its sha256 hash, proofs are the commitments reversed
+const commitment = (blob: Uint8Array) =>
+  Buffer.concat([Buffer.from(sha256(blob)), Buffer.alloc(16)])
+const proof = (c: Uint8Array) => Buffer.from(c).reverse()
+const mockKzg: Kzg = {
+  loadTrustedSetup: () => {},
+  blobToKzgCommitment: commitment,
+  computeBlobKzgProof: (_blob, c) => proof(c),
+  verifyKzgProof: () => true,
+  verifyBlobKzgProofBatch: (blobs, commitments, proofs) =>
+    blobs.every(
+      (blob, i) =>
+        commitment(blob).equals(commitments[i]) && proof(commitments[i]).equals(proofs[i])
+    ),
+}
+initKZG(mockKzg, '')
+
+const pKey = Buffer.from('4646464646464646464646464646464646464646464646464646464646464646', 'hex')
+const to = Buffer.from('01'.repeat(20), 'hex')
+const blobs = [Buffer.alloc(32, 1), Buffer.alloc(32, 2)]
+const versionedHashes = blobs.map((blob) => computeVersionedHash(commitment(blob), 1))
+const txData = {
+  to,
+  maxFeePerGas: 10,
+  maxPriorityFeePerGas: 1,
+  maxFeePerDataGas: 5,
+  gasLimit: 100000,
+}
+
+tape('[BlobEIP4844Transaction]', function (t) {
+  t.test('should require EIP-4844 to be activated', (st) => {
+    const london = new Common({ chain: Chain.Mainnet, hardfork: Hardfork.London })
+    st.throws(
+      () => BlobEIP4844Transaction.fromTxData({ ...txData, versionedHashes }, { common: london }),
+      /EIP-4844 not enabled on Common/
+    )
+    st.end()
+  })
+
+  t.test('should validate the tx values', (st) => {
+    st.throws(
+      () =>
+        BlobEIP4844Transaction.fromTxData(
+          { ...txData, to: undefined, versionedHashes },
+          { common }
+        ),
+      /cannot create contracts/,
+      'should throw without to'
+    )
+    st.throws(
+      () => BlobEIP4844Transaction.fromTxData(txData, { common }),
+      /at least one versioned hash/,
+      'should throw without blobs'
+    )
+    st.throws(
+      () =>
+        BlobEIP4844Transaction.fromTxData(
+          { ...txData, versionedHashes: [Buffer.alloc(32)] },
+          { common }
+        ),
+      /must start with version 1/,
+      'should throw on wrong version'
+    )
+    st.throws(
+      () =>
+        BlobEIP4844Transaction.fromTxData(
+          { ...txData, versionedHashes: Array(5).fill(versionedHashes[0]) },
+          { common }
+        ),
+      /at most 4 blobs/,
+      'should throw on too many blobs'
+    )
+    st.end()
+  })
+
+  t.test('should serialize and deserialize', (st) => {
+    const tx = BlobEIP4844Transaction.fromTxData({ ...txData, versionedHashes }, { common }).sign(
+      pKey
+    )
+    st.ok(tx.getSenderAddress().buf.equals(privateToAddress(pKey)), 'should recover the sender')
+    const serialized = tx.serialize()
+    st.equal(serialized[0], 3, 'should serialize with tx type 3')
+
+    const decoded = TransactionFactory.fromSerializedData(serialized, { common })
+    st.ok(decoded instanceof BlobEIP4844Transaction, 'should decode a blob tx')
+    st.deepEqual(decoded.toJSON(), tx.toJSON(), 'should decode the same tx')
+    st.ok(decoded.hash().equals(tx.hash()), 'should have the same hash')
+    st.equal(
+      (decoded as BlobEIP4844Transaction).maxFeePerDataGas,
+      BigInt(5),
+      'should decode maxFeePerDataGas'
+    )
+    st.equal(tx.getTotalDataGas(), BigInt(2 * 131072), 'should return the data gas of the blobs')
+
+    const fromTxData = TransactionFactory.fromTxData(
+      { ...txData, type: 3, versionedHashes },
+      { common }
+    )
+    st.ok(fromTxData instanceof BlobEIP4844Transaction, 'should create a blob tx from tx data')
+    st.end()
+  })
+
+  t.test('should create and validate the network wrapper', (st) => {
+    const tx = BlobEIP4844Transaction.fromTxData({ ...txData, blobs }, { common }).sign(pKey)
+    st.deepEqual(tx.versionedHashes, versionedHashes, 'should compute the versioned hashes')
+    st.deepEqual(tx.kzgProofs, tx.kzgCommitments!.map(proof), 'should compute the proofs')
+
+    const wrapper = tx.serializeNetworkWrapper()
+    const decoded = BlobEIP4844Transaction.fromSerializedBlobTxNetworkWrapper(wrapper, { common })
+    st.deepEqual(decoded.blobs, blobs, 'should decode the blobs')
+    st.ok(decoded.hash().equals(tx.hash()), 'should decode the tx')
+    st.ok(decoded.getSenderAddress().equals(tx.getSenderAddress()), 'should keep the signature')
+
+    const wrongProofs = BlobEIP4844Transaction.fromTxData(
+      { ...txData, blobs, kzgProofs: [Buffer.alloc(48), Buffer.alloc(48)] },
+      { common }
+    ).serializeNetworkWrapper()
+    st.throws(
+      () => BlobEIP4844Transaction.fromSerializedBlobTxNetworkWrapper(wrongProofs, { common }),
+      /KZG proofs of the blobs are invalid/,
+      'should throw on invalid proofs'
+    )
+
+    const wrongHashes = BlobEIP4844Transaction.fromTxData(
+      { ...txData, blobs, versionedHashes: [versionedHashes[1], versionedHashes[0]] },
+      { common }
+    ).serializeNetworkWrapper()
+    st.throws(
+      () => BlobEIP4844Transaction.fromSerializedBlobTxNetworkWrapper(wrongHashes, { common }),
+      /does not match the KZG commitment/,
+      'should throw on versioned hashes not matching the commitments'
+    )
+
+    st.throws(
+      () =>
+        BlobEIP4844Transaction.fromTxData(
+          { ...txData, versionedHashes },
+          { common }
+        ).serializeNetworkWrapper(),
+      /without blobs/,
+      'should throw serializing the network wrapper without blobs'
+    )
+    st.end()
+  })
+})
@@ -23,6 +23,11 @@ export * from './signature'
  */
 export * from './bytes'
 
+/**
+ * KZG library interface and helpers for blob transactions
+ */
+export * from './kzg'
+
 /**
  * Helpful TypeScript types
  */
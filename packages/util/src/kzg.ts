@@ -0,0 +1,59 @@
+import { sha256 } from 'ethereum-cryptography/sha256'
+
+/**
+ * Interface for an externally provided kzg library used when creating blob transactions
+ * and verifying blobs and KZG proofs (e.g. c-kzg)
+ */
+export interface Kzg {
+  loadTrustedSetup(filePath: string): void
+  blobToKzgCommitment(blob: Uint8Array): Uint8Array
+  computeBlobKzgProof(blob: Uint8Array, commitment: Uint8Array): Uint8Array
+  verifyKzgProof(
+    polynomialKzg: Uint8Array,
+    z: Uint8Array,
+    y: Uint8Array,
+    kzgProof: Uint8Array
+  ): boolean
+  verifyBlobKzgProofBatch(
+    blobs: Uint8Array[],
+    expectedKzgCommitments: Uint8Array[],
+    kzgProofs: Uint8Array[]
+  ): boolean
+}
+
+function kzgNotLoaded(): never {
+  throw Error('kzg library not loaded')
+}
+
+/**
+ * The kzg library in use, throwing on any call until initialized with {@link initKZG}
+ */
+export const kzg: Kzg = {
+  loadTrustedSetup: kzgNotLoaded,
+  blobToKzgCommitment: kzgNotLoaded,
+  computeBlobKzgProof: kzgNotLoaded,
+  verifyKzgProof: kzgNotLoaded,
+  verifyBlobKzgProofBatch: kzgNotLoaded,
+}
+
+/**
+ * Sets the kzg library to use and loads the trusted setup
+ * @param kzgLib a kzg library implementing the {@link Kzg} interface
+ * @param trustedSetupPath path to the trusted setup file
+ */
+export function initKZG(kzgLib: Kzg, trustedSetupPath: string) {
+  Object.assign(kzg, kzgLib)
+  kzg.loadTrustedSetup(trustedSetupPath)
+}
+
+/**
+ * Returns the versioned hash of a KZG commitment, the sha256 hash of the commitment
+ * with the first byte replaced by the version
+ * @param commitment the KZG commitment
+ * @param version the version (`1` for KZG commitments)
+ */
+export function computeVersionedHash(commitment: Uint8Array, version: number): Buffer {
+  const hash = Buffer.from(sha256(commitment))
+  hash[0] = version
+  return hash
+}
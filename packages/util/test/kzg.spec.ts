@@ -0,0 +1,42 @@
+import { sha256 } from 'ethereum-cryptography/sha256'
+import * as tape from 'tape'
+
+import { computeVersionedHash, initKZG, kzg } from '../src'
+
+import type { Kzg } from '../src'
+
+tape('kzg', function (t) {
+  t.test('should throw when no kzg library is loaded', function (st) {
+    st.throws(() => kzg.blobToKzgCommitment(Buffer.alloc(0)), /kzg library not loaded/)
+    st.end()
+  })
+
+  t.test('should use the kzg library initialized', function (st) {
+    let trustedSetup = ''
+    const kzgLib: Kzg = {
+      loadTrustedSetup: (filePath: string) => {
+        trustedSetup = filePath
+      },
+      blobToKzgCommitment: () => Buffer.alloc(48, 1),
+      computeBlobKzgProof: () => Buffer.alloc(48, 2),
+      verifyKzgProof: () => true,
+      verifyBlobKzgProofBatch: () => true,
+    }
+    initKZG(kzgLib, 'trusted_setup.txt')
+    st.equal(trustedSetup, 'trusted_setup.txt', 'should load the trusted setup')
+    st.deepEqual(kzg.blobToKzgCommitment(Buffer.alloc(0)), Buffer.alloc(48, 1))
+    st.end()
+  })
+
+  t.test('computeVersionedHash', function (st) {
+    const commitment = Buffer.alloc(48, 1)
+    const hash = computeVersionedHash(commitment, 1)
+    st.equal(hash[0], 1, 'should start with the version')
+    st.deepEqual(
+      hash.slice(1),
+      Buffer.from(sha256(commitment)).slice(1),
+      'should continue with the sha256 hash of the commitment'
+    )
+    st.end()
+  })
+})
@@ -2,14 +2,15 @@ import { Block } from '@ethereumjs/block'
 import { ConsensusType } from '@ethereumjs/common'
 import { RLP } from '@ethereumjs/rlp'
 import { Trie } from '@ethereumjs/trie'
-import { Address, TypeOutput, toBuffer, toType } from '@ethereumjs/util'
+import { BlobEIP4844Transaction } from '@ethereumjs/tx'
+import { Address, KECCAK256_RLP, TypeOutput, toBuffer, toType } from '@ethereumjs/util'
 
 import { Bloom } from './bloom'
 import { calculateMinerReward, encodeReceipt, rewardAccount } from './runBlock'
 
 import type { BuildBlockOpts, BuilderOpts, RunTxResult, SealBlockOpts } from './types'
 import type { VM } from './vm'
-import type { HeaderData } from '@ethereumjs/block'
+import type { BlockHeader, HeaderData, Withdrawal } from '@ethereumjs/block'
 import type { TypedTransaction } from '@ethereumjs/tx'
 
 export class BlockBuilder {
@@ -17,10 +18,16 @@ export class BlockBuilder {
    * The cumulative gas used by the transactions added to the block.
    */
   gasUsed = BigInt(0)
+  /**
+   * The cumulative data gas used by the blob transactions added to the block (EIP-4844).
+   */
+  dataGasUsed = BigInt(0)
 
   private readonly vm: VM
   private blockOpts: BuilderOpts
   private headerData: HeaderData
+  private withdrawals?: Withdrawal[]
+  private parentHeader: BlockHeader
   private transactions: TypedTransaction[] = []
   private transactionResults: RunTxResult[] = []
   private checkpointed = false
@@ -33,6 +40,7 @@ export class BlockBuilder {
 
   constructor(vm: VM, opts: BuildBlockOpts) {
     this.vm = vm
+    this.parentHeader = opts.parentBlock.header
     this.blockOpts = { putBlockIntoBlockchain: true, ...opts.blockOpts, common: this.vm._common }
 
     this.headerData = {
@@ -48,6 +56,10 @@ export class BlockBuilder {
     ) {
       this.headerData.baseFeePerGas = opts.parentBlock.header.calcNextBaseFee()
     }
+
+    if (this.vm._common.isActivatedEIP(4895) === true) {
+      this.withdrawals = opts.withdrawals ?? []
+    }
   }
 
   /**
@@ -111,6 +123,19 @@ export class BlockBuilder {
     await rewardAccount(this.vm.eei, coinbase, reward)
   }
 
+  /**
+   * Credits the withdrawal amounts to the withdrawal addresses (EIP-4895).
+   */
+  private async processWithdrawals() {
+    for (const { address, amount } of this.withdrawals ?? []) {
+      await rewardAccount(
+        this.vm.eei,
+        new Address(toBuffer(address)),
+        toType(amount, TypeOutput.BigInt)
+      )
+    }
+  }
+
   /**
    * Run and add a transaction to the block being built.
    * Please note that this modifies the state of the VM.
@@ -133,11 +158,22 @@ export class BlockBuilder {
       throw new Error('tx has a higher gas limit than the remaining gas in the block')
     }
 
+    let dataGas = BigInt(0)
+    if (tx instanceof BlobEIP4844Transaction) {
+      dataGas = tx.getTotalDataGas()
+      const maxDataGasPerBlock = this.vm._common.param('gasConfig', 'maxDataGasPerBlock')
+      if (this.dataGasUsed + dataGas > maxDataGasPerBlock) {
+        throw new Error('tx has more data gas than the remaining data gas in the block')
+      }
+    }
+
     const header = {
       ...this.headerData,
       gasUsed: this.gasUsed,
+      // Placeholder for the withdrawals root only calculated on build
+      withdrawalsRoot: this.withdrawals !== undefined ? KECCAK256_RLP : undefined,
     }
-    const blockData = { header, transactions: this.transactions }
+    const blockData = { header, transactions: this.transactions, withdrawals: this.withdrawals }
     const block = Block.fromBlockData(blockData, this.blockOpts)
 
     const result = await this.vm.runTx({ tx, block })
@@ -145,6 +181,7 @@ export class BlockBuilder {
     this.transactions.push(tx)
     this.transactionResults.push(result)
     this.gasUsed += result.totalGasSpent
+    this.dataGasUsed += dataGas
 
     return result
   }
@@ -179,6 +216,9 @@ export class BlockBuilder {
     if (consensusType === ConsensusType.ProofOfWork) {
       await this.rewardMiner()
     }
+    if (this.withdrawals !== undefined) {
+      await this.processWithdrawals()
+    }
 
     const stateRoot = await this.vm.stateManager.getStateRoot()
     const transactionsTrie = await this.transactionsTrie()
@@ -186,6 +226,10 @@ export class BlockBuilder {
     const logsBloom = this.logsBloom()
     const gasUsed = this.gasUsed
     const timestamp = this.headerData.timestamp ?? Math.round(Date.now() / 1000)
+    const withdrawalsRoot =
+      this.withdrawals !== undefined
+        ? await Block.genWithdrawalsTrieRoot(this.withdrawals)
+        : undefined
 
     const headerData = {
       ...this.headerData,
@@ -195,6 +239,12 @@ export class BlockBuilder {
       logsBloom,
       gasUsed,
       timestamp,
+      withdrawalsRoot,
+    }
+
+    if (this.vm._common.isActivatedEIP(4844) === true && headerData.excessDataGas === undefined) {
+      const numBlobs = this.dataGasUsed / this.vm._common.param('gasConfig', 'dataGasPerBlob')
+      headerData.excessDataGas = this.parentHeader.calcNextExcessDataGas(Number(numBlobs))
     }
 
     if (consensusType === ConsensusType.ProofOfWork) {
@@ -202,7 +252,11 @@ export class BlockBuilder {
       headerData.mixHash = sealOpts?.mixHash ?? headerData.mixHash
     }
 
-    const blockData = { header: headerData, transactions: this.transactions }
+    const blockData = {
+      header: headerData,
+      transactions: this.transactions,
+      withdrawals: this.withdrawals,
+    }
     const block = Block.fromBlockData(blockData, blockOpts)
 
     if (this.blockOpts.putBlockIntoBlockchain === true) {
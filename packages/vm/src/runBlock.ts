@@ -238,6 +238,14 @@ async function applyBlock(this: VM, block: Block, opts: RunBlockOpts) {
         }
       }
       await block.validateData()
+      if (this._common.isActivatedEIP(4844) === true) {
+        const parentBlock = await this.blockchain.getBlock(block.header.parentHash)
+        if (parentBlock === null) {
+          const msg = _errorMsg('cannot validate blob txs: parent block not found', this, block)
+          throw new Error(msg)
+        }
+        block.validateBlobTransactions(parentBlock.header)
+      }
     }
   }
   // Apply transactions
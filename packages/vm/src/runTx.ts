@@ -1,6 +1,6 @@
 import { Block } from '@ethereumjs/block'
 import { ConsensusType, Hardfork } from '@ethereumjs/common'
-import { Capability } from '@ethereumjs/tx'
+import { BlobEIP4844Transaction, Capability } from '@ethereumjs/tx'
 import { Address, KECCAK256_NULL, short, toBuffer } from '@ethereumjs/util'
 import { debug as createDebugLogger } from 'debug'
 
@@ -218,6 +218,60 @@ async function _runTx(this: VM, opts: RunTxOpts): Promise<RunTxResult> {
     }
   }
 
+  let dataGasPrice = BigInt(0)
+  let totalDataGas = BigInt(0)
+  if (tx instanceof BlobEIP4844Transaction) {
+    if (this._common.isActivatedEIP(4844) === false) {
+      const msg = _errorMsg('Cannot run transaction: EIP 4844 is not activated.', this, block, tx)
+      throw new Error(msg)
+    }
+    // EIP-4844 spec:
+    // The data gas price is derived from the excess data gas of the parent block
+    // assert tx.message.max_fee_per_data_gas >= get_data_gasprice(parent)
+    let parentBlock: Block | null = null
+    try {
+      parentBlock = await this.blockchain.getBlock(block.header.parentHash)
+    } catch (e: any) {
+      // Handled below
+    }
+    if (parentBlock === null) {
+      const msg = _errorMsg(
+        'parent block not found, needed to determine the data gas price',
+        this,
+        block,
+        tx
+      )
+      throw new Error(msg)
+    }
+    dataGasPrice = parentBlock.header.getDataGasPrice()
+    if (tx.maxFeePerDataGas < dataGasPrice) {
+      const msg = _errorMsg(
+        `Transaction's maxFeePerDataGas (${tx.maxFeePerDataGas}) is less than the data gas price (${dataGasPrice})`,
+        this,
+        block,
+        tx
+      )
+      throw new Error(msg)
+    }
+    totalDataGas = tx.getTotalDataGas()
+  }
+
+  const { tracer } = opts
+  if (tracer?.onTxStart !== undefined) {
+    await tracer.onTxStart({
+      from: caller,
+      to: tx.to,
+      value: tx.value,
+      data: tx.data,
+      gasLimit: tx.gasLimit,
+      coinbase:
+        this._common.consensusType() === ConsensusType.ProofOfAuthority
+          ? block.header.cliqueSigner()
+          : block.header.coinbase,
+      eei: state,
+    })
+  }
+
   // Check from account's balance and nonce
   let fromAccount = await state.getAccount(caller)
   const { nonce, balance } = fromAccount
@@ -251,7 +305,12 @@ async function _runTx(this: VM, opts: RunTxOpts): Promise<RunTxResult> {
     // EIP-1559 spec:
     // The signer must be able to afford the transaction
     // `assert balance >= gas_limit * max_fee_per_gas`
-    const cost = tx.gasLimit * (tx as FeeMarketEIP1559Transaction).maxFeePerGas + tx.value
+    let cost = tx.gasLimit * (tx as FeeMarketEIP1559Transaction).maxFeePerGas + tx.value
+    if (tx instanceof BlobEIP4844Transaction) {
+      // EIP-4844 spec:
+      // The signer must also be able to afford the data gas at the max fee
+      cost += totalDataGas * tx.maxFeePerDataGas
+    }
     if (balance < cost) {
       if (opts.skipBalance === true && fromAccount.balance < cost) {
         // if skipBalance, ensure caller balance is enough to run transaction
@@ -303,7 +362,9 @@ async function _runTx(this: VM, opts: RunTxOpts): Promise<RunTxResult> {
 
   // Update from account's balance
   const txCost = tx.gasLimit * gasPrice
-  fromAccount.balance -= txCost
+  // The data fee of blob txs is burned and not refunded
+  const dataGasCost = totalDataGas * dataGasPrice
+  fromAccount.balance -= txCost + dataGasCost
   if (opts.skipBalance === true && fromAccount.balance < BigInt(0)) {
     fromAccount.balance = BigInt(0)
   }
@@ -335,8 +396,14 @@ async function _runTx(this: VM, opts: RunTxOpts): Promise<RunTxResult> {
     to,
     value,
     data,
+    versionedHashes: tx instanceof BlobEIP4844Transaction ? tx.versionedHashes : undefined,
+    tracer,
   })) as RunTxResult
 
+  if (tx instanceof BlobEIP4844Transaction) {
+    results.dataGasUsed = totalDataGas
+  }
+
   // After running the call, increment the nonce
   const acc = await state.getAccount(caller)
   acc.nonce++
@@ -442,6 +509,15 @@ async function _runTx(this: VM, opts: RunTxOpts): Promise<RunTxResult> {
   await state.cleanupTouchedAccounts()
   state.clearOriginalStorageCache()
 
+  if (tracer?.onTxEnd !== undefined) {
+    await tracer.onTxEnd({
+      gasUsed: results.totalGasSpent,
+      returnValue: results.execResult.returnValue,
+      error: results.execResult.exceptionError,
+      createdAddress: results.createdAddress,
+    })
+  }
+
   // Generate the tx receipt
   const gasUsed = opts.blockGasUsed !== undefined ? opts.blockGasUsed : block.header.gasUsed
   const cumulativeGasUsed = gasUsed + results.totalGasSpent
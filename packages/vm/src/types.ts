@@ -1,8 +1,15 @@
 import type { Bloom } from './bloom'
-import type { Block, BlockOptions, HeaderData } from '@ethereumjs/block'
+import type { Block, BlockOptions, HeaderData, Withdrawal } from '@ethereumjs/block'
 import type { BlockchainInterface } from '@ethereumjs/blockchain'
 import type { Common } from '@ethereumjs/common'
-import type { EEIInterface, EVMInterface, EVMResult, Log } from '@ethereumjs/evm'
+import type {
+  EEIInterface,
+  EVMInterface,
+  EVMResult,
+  Log,
+  ProfilerResult,
+  Tracer,
+} from '@ethereumjs/evm'
 import type { StateManager } from '@ethereumjs/statemanager'
 import type { AccessList, TypedTransaction } from '@ethereumjs/tx'
 import type { BigIntLike } from '@ethereumjs/util'
@@ -176,6 +183,12 @@ export interface BuildBlockOpts {
    * The block and builder options to use.
    */
   blockOpts?: BuilderOpts
+
+  /**
+   * The withdrawals to process and include in the block (EIP-4895).
+   * Defaults to no withdrawals if EIP-4895 is activated.
+   */
+  withdrawals?: Withdrawal[]
 }
 
 /**
@@ -270,6 +283,10 @@ export interface RunBlockResult {
    * The receipt root after executing the block
    */
   receiptsRoot: Buffer
+  /**
+   * Profile of the block, if the EVM runs with the `profiler` option
+   */
+  profile?: ProfilerResult
 }
 
 export interface AfterBlockEvent extends RunBlockResult {
@@ -321,6 +338,12 @@ export interface RunTxOpts {
    * To obtain an accurate tx receipt input the block gas used up until this tx.
    */
   blockGasUsed?: bigint
+
+  /**
+   * Tracer to attach to the tx execution, e.g. one of the built-in tracers of `@ethereumjs/evm`
+   * (`StructLogger`, `CallTracer`, `PrestateTracer` or `FourByteTracer`)
+   */
+  tracer?: Tracer
 }
 
 /**
@@ -358,6 +381,17 @@ export interface RunTxResult extends EVMResult {
    * EIP-2930 access list generated for the tx (see `reportAccessList` option)
    */
   accessList?: AccessList
+
+  /**
+   * The data gas used by an EIP-4844 blob transaction
+   */
+  dataGasUsed?: bigint
+
+  /**
+   * Profile of the tx, if the EVM runs with the `profiler` option
+   * (not set for txs run by `runBlock()`, which are part of the block's profile)
+   */
+  profile?: ProfilerResult
 }
 
 export interface AfterTxEvent extends RunTxResult {
@@ -56,6 +56,11 @@ export class VM {
   protected readonly _hardforkByBlockNumber: boolean
   protected readonly _hardforkByTTD?: bigint
 
+  /**
+   * Set while a tx or block is run with the EVM profiler enabled
+   */
+  protected _profiling = false
+
   /**
    * Cached emit() function, not for public usage
    * set to public due to implementation internals
@@ -207,7 +212,7 @@ export class VM {
    *  - `generate`: false
    */
   async runBlock(opts: RunBlockOpts): Promise<RunBlockResult> {
-    return runBlock.bind(this)(opts)
+    return this._runProfiled(() => runBlock.bind(this)(opts))
   }
 
   /**
@@ -220,7 +225,29 @@ export class VM {
    * @param {RunTxOpts} opts
    */
   async runTx(opts: RunTxOpts): Promise<RunTxResult> {
-    return runTx.bind(this)(opts)
+    return this._runProfiled(() => runTx.bind(this)(opts))
+  }
+
+  /**
+   * Resets the EVM profiler (if enabled) before running `fn` and adds the profile to its result,
+   * txs run as part of a block are profiled with the block
+   */
+  protected async _runProfiled<T extends RunTxResult | RunBlockResult>(
+    fn: () => Promise<T>
+  ): Promise<T> {
+    const profiler = this.evm.profiler
+    if (profiler === undefined || this._profiling) {
+      return fn()
+    }
+    this._profiling = true
+    profiler.reset()
+    try {
+      const result = await fn()
+      result.profile = profiler.getResult()
+      return result
+    } finally {
+      this._profiling = false
+    }
   }
 
   /**
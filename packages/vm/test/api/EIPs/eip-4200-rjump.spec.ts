@@ -0,0 +1,108 @@
+import { Chain, Common, Hardfork } from '@ethereumjs/common'
+import { EOF } from '@ethereumjs/evm/dist/eof'
+import { Address, bufferToBigInt } from '@ethereumjs/util'
+import * as tape from 'tape'
+
+import { VM } from '../../../src/vm'
+
+const sender = new Address(Buffer.from('20'.repeat(20), 'hex'))
+
+function eofCode(code: string) {
+  const len = (code.length / 2).toString(16).padStart(4, '0')
+  return Buffer.from('ef000101' + len + '00' + code, 'hex')
+}
+
+// Initcode returning the EOF container for deployment
+function initcode(container: Buffer) {
+  const len = container.length.toString(16).padStart(4, '0')
+  return Buffer.concat([Buffer.from(`61${len}600e60003961${len}6000f3`, 'hex'), container])
+}
+
+tape('EIP 4200 tests', (t) => {
+  const common = new Common({
+    chain: Chain.Mainnet,
+    hardfork: Hardfork.London,
+    eips: [3540, 3670, 4200],
+  })
+  // PUSH1 0x00 MSTORE PUSH1 0x20 PUSH1 0x00 RETURN
+  const returnTop = '60005260206000f3'
+
+  t.test('should execute relative jumps', async (st) => {
+    const vm = await VM.create({ common })
+    const run = async (code: string) => {
+      const res = await vm.evm.runCode!({ code: eofCode(code), gasLimit: BigInt(0xffff) })
+      return res.exceptionError ?? bufferToBigInt(res.returnValue)
+    }
+
+    // RJUMP over an INVALID opcode
+    st.equal(await run('5c0001fe6001' + returnTop), BigInt(1), 'RJUMP should jump')
+    // RJUMP backwards: PUSH1 0x01 RJUMP +3 RETURN... RJUMP -5
+    st.equal(await run('60015c0008' + returnTop + '5cfff5'), BigInt(1), 'RJUMP backwards')
+
+    // RJUMPI over an INVALID opcode
+    st.equal(await run('60015d0001fe6002' + returnTop), BigInt(2), 'RJUMPI should jump')
+    const res = await run('60005d0001fe6002' + returnTop)
+    st.equal((res as any).error, 'invalid opcode', 'RJUMPI should not jump on zero')
+
+    // RJUMPV with 2 cases, the default case continues after the jump table
+    const rjumpv = (index: number) =>
+      `60${index.toString(16).padStart(2, '0')}5e020005000a600c5c0007600a5c0002600b` + returnTop
+    st.equal(await run(rjumpv(0)), BigInt(0x0a), 'RJUMPV should jump to case 0')
+    st.equal(await run(rjumpv(1)), BigInt(0x0b), 'RJUMPV should jump to case 1')
+    st.equal(await run(rjumpv(2)), BigInt(0x0c), 'RJUMPV should continue on index out of range')
+    st.end()
+  })
+
+  t.test('should not allow relative jumps in legacy code', async (st) => {
+    const vm = await VM.create({ common })
+    const res = await vm.evm.runCode!({
+      code: Buffer.from('5c000100', 'hex'),
+      gasLimit: BigInt(0xffff),
+    })
+    st.equal(res.exceptionError?.error, 'invalid opcode', 'RJUMP should be invalid')
+    st.end()
+  })
+
+  t.test('should validate relative jumps on deployment', async (st) => {
+    const deploy = async (code: string) => {
+      const vm = await VM.create({ common })
+      const res = await vm.evm.runCall({
+        caller: sender,
+        data: initcode(eofCode(code)),
+        gasLimit: BigInt(1000000),
+      })
+      return res.execResult.exceptionError?.error
+    }
+
+    st.equal(await deploy('5c0001fe00'), undefined, 'valid RJUMP')
+    st.equal(await deploy('5cfffd'), undefined, 'RJUMP as terminating instruction')
+    st.equal(await deploy('5c00016001fe00'), 'invalid EOF format', 'RJUMP into PUSH data')
+    st.equal(await deploy('5c000200'), 'invalid EOF format', 'RJUMP out of code section')
+    st.equal(await deploy('60015d00'), 'invalid EOF format', 'truncated RJUMPI immediate')
+    st.equal(await deploy('60015e0000'), 'invalid EOF format', 'empty RJUMPV jump table')
+    st.equal(await deploy('600456fe5b00'), 'invalid EOF format', 'JUMP should be rejected')
+    st.equal(await deploy('5800'), 'invalid EOF format', 'PC should be rejected')
+
+    st.ok(
+      EOF.validOpcodes(Buffer.from('600456fe5b00', 'hex')),
+      'JUMP should remain valid without EIP-4200'
+    )
+    st.end()
+  })
+
+  t.test('should not activate EIP-2315 and EIP-4200 together', async (st) => {
+    try {
+      await VM.create({
+        common: new Common({
+          chain: Chain.Mainnet,
+          hardfork: Hardfork.London,
+          eips: [2315, 3540, 3670, 4200],
+        }),
+      })
+      st.fail('should throw')
+    } catch (e: any) {
+      st.ok(e.message.includes('cannot be activated at the same time'), 'should throw')
+    }
+    st.end()
+  })
+})
@@ -0,0 +1,150 @@
+import { Chain, Common, Hardfork } from '@ethereumjs/common'
+import { Address, bufferToBigInt } from '@ethereumjs/util'
+import * as tape from 'tape'
+
+import { VM } from '../../../src/vm'
+
+const sender = new Address(Buffer.from('20'.repeat(20), 'hex'))
+
+const u16 = (value: number) => value.toString(16).padStart(4, '0')
+
+// EOF container with a type section and one code section per function
+function eofContainer(types: [number, number][], sections: string[]) {
+  const header =
+    'ef0001' +
+    '03' +
+    u16(types.length * 2) +
+    sections.map((code) => '01' + u16(code.length / 2)).join('') +
+    '00'
+  const typeSection = types
+    .map(
+      ([inputs, outputs]) =>
+        inputs.toString(16).padStart(2, '0') + outputs.toString(16).padStart(2, '0')
+    )
+    .join('')
+  return Buffer.from(header + typeSection + sections.join(''), 'hex')
+}
+
+// Initcode returning the EOF container for deployment
+function initcode(container: Buffer) {
+  const len = container.length.toString(16).padStart(4, '0')
+  return Buffer.concat([Buffer.from(`61${len}600e60003961${len}6000f3`, 'hex'), container])
+}
+
+async function deploy(common: Common, container: Buffer) {
+  const vm = await VM.create({ common })
+  const res = await vm.evm.runCall({
+    caller: sender,
+    data: initcode(container),
+    gasLimit: BigInt(1000000),
+  })
+  return res.execResult.exceptionError?.error
+}
+
+tape('EIP 4750 tests', (t) => {
+  const common = new Common({
+    chain: Chain.Mainnet,
+    hardfork: Hardfork.London,
+    eips: [3540, 3670, 4200, 4750],
+  })
+  // PUSH1 0x00 MSTORE PUSH1 0x20 PUSH1 0x00 RETURN
+  const returnTop = '60005260206000f3'
+
+  t.test('should call and return from functions', async (st) => {
+    const vm = await VM.create({ common })
+    // PUSH1 0x02 PUSH1 0x03 CALLF 1 ... | ADD RETF
+    const add = eofContainer(
+      [
+        [0, 0],
+        [2, 1],
+      ],
+      ['60026003b00001' + returnTop, '01b1']
+    )
+    let res = await vm.evm.runCode!({ code: add, gasLimit: BigInt(0xffff) })
+    st.equal(bufferToBigInt(res.returnValue), BigInt(5), 'should return the function result')
+
+    // Function 1 calling function 2 which jumps back into its own code section
+    const nested = eofContainer(
+      [
+        [0, 0],
+        [0, 1],
+        [0, 1],
+      ],
+      ['b00001' + returnTop, 'b00002600101b1', '5c00026000600ab1']
+    )
+    res = await vm.evm.runCode!({ code: nested, gasLimit: BigInt(0xffff) })
+    st.equal(bufferToBigInt(res.returnValue), BigInt(0x0b), 'should support nested calls')
+
+    // Infinite recursion: CALLF 1 STOP | CALLF 1 RETF
+    const recursive = eofContainer(
+      [
+        [0, 0],
+        [0, 0],
+      ],
+      ['b0000100', 'b00001b1']
+    )
+    res = await vm.evm.runCode!({ code: recursive, gasLimit: BigInt(0xffffff) })
+    st.equal(res.exceptionError?.error, 'stack overflow', 'should limit the return stack')
+    st.end()
+  })
+
+  t.test('should not allow functions in legacy code', async (st) => {
+    const vm = await VM.create({ common })
+    const res = await vm.evm.runCode!({
+      code: Buffer.from('b0000100', 'hex'),
+      gasLimit: BigInt(0xffff),
+    })
+    st.equal(res.exceptionError?.error, 'invalid opcode', 'CALLF should be invalid')
+    st.end()
+  })
+
+  t.test('should validate functions on deployment', async (st) => {
+    const types: [number, number][] = [
+      [0, 0],
+      [0, 0],
+    ]
+    st.equal(
+      await deploy(common, eofContainer(types, ['b0000100', 'b1'])),
+      undefined,
+      'valid function call'
+    )
+    st.equal(
+      await deploy(common, eofContainer(types, ['b0000200', 'b1'])),
+      'invalid EOF format',
+      'CALLF to a non-existing code section'
+    )
+    st.equal(
+      await deploy(common, eofContainer(types, ['b0000100', '6001'])),
+      'invalid EOF format',
+      'function not ending with a terminating instruction'
+    )
+    st.equal(
+      await deploy(
+        common,
+        eofContainer(
+          [
+            [1, 0],
+            [0, 0],
+          ],
+          ['b0000100', 'b1']
+        )
+      ),
+      'invalid EOF format',
+      'first code section taking inputs'
+    )
+    st.equal(
+      await deploy(common, Buffer.from('ef0001010003010002000b0000100b1', 'hex')),
+      'invalid EOF format',
+      'multiple code sections without a type section'
+    )
+    st.equal(
+      await deploy(
+        new Common({ chain: Chain.Mainnet, hardfork: Hardfork.London, eips: [3540, 3670, 4200] }),
+        eofContainer(types, ['b0000100', 'b1'])
+      ),
+      'invalid EOF format',
+      'multiple code sections without EIP-4750'
+    )
+    st.end()
+  })
+})
@@ -0,0 +1,164 @@
+import { Block } from '@ethereumjs/block'
+import { Blockchain } from '@ethereumjs/blockchain'
+import { Chain, Common, Hardfork } from '@ethereumjs/common'
+import { BlobEIP4844Transaction } from '@ethereumjs/tx'
+import {
+  Account,
+  Address,
+  KECCAK256_RLP,
+  computeVersionedHash,
+  privateToAddress,
+} from '@ethereumjs/util'
+import * as tape from 'tape'
+
+import { VM } from '../../../src/vm'
+
+// Activate all hardforks from genesis so that the genesis block is read back as a merge block
+const common = Common.custom(
+  {
+    hardforks: new Common({ chain: Chain.Mainnet })
+      .hardforks()
+      .map((hf) => ({ name: hf.name, block: hf.block === null ? null : 0 })),
+  },
+  { hardfork: Hardfork.Merge, eips: [4895, 4844] }
+)
+
+const pkey = Buffer.from('20'.repeat(32), 'hex')
+const sender = new Address(privateToAddress(pkey))
+const versionedHash = computeVersionedHash(Buffer.alloc(48, 1), 1)
+const dataGasPerBlob = common.param('gasConfig', 'dataGasPerBlob')
+
+const blobTx = (numBlobs: number, nonce = 0, maxFeePerDataGas = 1) =>
+  BlobEIP4844Transaction.fromTxData(
+    {
+      to: Address.zero(),
+      nonce,
+      gasLimit: 100000,
+      maxFeePerGas: 10,
+      maxPriorityFeePerGas: 1,
+      maxFeePerDataGas,
+      versionedHashes: Array(numBlobs).fill(versionedHash),
+    },
+    { common }
+  ).sign(pkey)
+
+async function setup() {
+  const parentBlock = Block.fromBlockData(
+    {
+      header: { gasLimit: 10000000, baseFeePerGas: 7, withdrawalsRoot: KECCAK256_RLP },
+      withdrawals: [],
+    },
+    { common }
+  )
+  const blockchain = await Blockchain.create({
+    common,
+    genesisBlock: parentBlock,
+    validateBlocks: false,
+    validateConsensus: false,
+  })
+  const vm = await VM.create({ common, blockchain })
+  await vm.stateManager.putAccount(sender, new Account(BigInt(0), BigInt(10) ** BigInt(18)))
+  return { vm, parentBlock }
+}
+
+tape('EIP4844 tests', (t) => {
+  t.test('should charge and burn the data fee', async (st) => {
+    const { vm, parentBlock } = await setup()
+    const blockBuilder = await vm.buildBlock({
+      parentBlock,
+      blockOpts: { putBlockIntoBlockchain: false },
+    })
+    const tx = blobTx(2)
+    const result = await blockBuilder.addTransaction(tx)
+    st.equal(result.dataGasUsed, dataGasPerBlob * BigInt(2), 'should return the data gas used')
+
+    const balance = (await vm.stateManager.getAccount(sender)).balance
+    const dataFee = parentBlock.header.calcDataFee(2)
+    st.equal(
+      balance,
+      BigInt(10) ** BigInt(18) - result.amountSpent - dataFee,
+      'should deduct the data fee from the sender balance'
+    )
+    st.end()
+  })
+
+  t.test('should reject txs not paying the data gas price', async (st) => {
+    const { vm, parentBlock } = await setup()
+    const blockBuilder = await vm.buildBlock({
+      parentBlock,
+      blockOpts: { putBlockIntoBlockchain: false },
+    })
+    try {
+      await blockBuilder.addTransaction(blobTx(1, 0, 0))
+      st.fail('should throw')
+    } catch (e: any) {
+      st.ok(
+        e.message.includes('is less than the data gas price'),
+        'should throw on a maxFeePerDataGas lower than the data gas price'
+      )
+    }
+    st.end()
+  })
+
+  t.test('should limit the data gas and set the excess data gas of built blocks', async (st) => {
+    const { vm, parentBlock } = await setup()
+    const blockBuilder = await vm.buildBlock({
+      parentBlock,
+      blockOpts: { putBlockIntoBlockchain: false },
+    })
+    await blockBuilder.addTransaction(blobTx(3))
+    try {
+      await blockBuilder.addTransaction(blobTx(2, 1))
+      st.fail('should throw')
+    } catch (e: any) {
+      st.ok(
+        e.message.includes('more data gas than the remaining data gas in the block'),
+        'should throw when exceeding the max data gas per block'
+      )
+    }
+    await blockBuilder.addTransaction(blobTx(1, 1))
+    st.equal(blockBuilder.dataGasUsed, dataGasPerBlob * BigInt(4), 'should track the data gas used')
+
+    const block = await blockBuilder.build()
+    st.equal(
+      block.header.excessDataGas,
+      parentBlock.header.calcNextExcessDataGas(4),
+      'should set the excess data gas'
+    )
+    st.doesNotThrow(
+      () => block.validateBlobTransactions(parentBlock.header),
+      'should build a block with valid blob txs'
+    )
+    st.end()
+  })
+
+  t.test('runBlock should validate the blob txs of the block', async (st) => {
+    const { vm, parentBlock } = await setup()
+    const blockBuilder = await vm.buildBlock({
+      parentBlock,
+      blockOpts: { putBlockIntoBlockchain: false },
+    })
+    await blockBuilder.addTransaction(blobTx(3))
+    const block = await blockBuilder.build()
+
+    const { vm: vmCopy } = await setup()
+    const result = await vmCopy.runBlock({ block, skipHeaderValidation: true })
+    st.equal(result.gasUsed, block.header.gasUsed, 'should run a block with blob txs')
+
+    const invalidBlock = Block.fromBlockData(
+      {
+        header: { ...block.header.toJSON(), excessDataGas: BigInt(0) },
+        transactions: block.transactions,
+        withdrawals: [],
+      },
+      { common }
+    )
+    try {
+      await (await setup()).vm.runBlock({ block: invalidBlock, skipHeaderValidation: true })
+      st.fail('should throw')
+    } catch (e: any) {
+      st.ok(e.message.includes('invalid excessDataGas'), 'should throw on invalid excessDataGas')
+    }
+    st.end()
+  })
+})
@@ -1,7 +1,7 @@
 import { Block } from '@ethereumjs/block'
 import { Chain, Common, Hardfork } from '@ethereumjs/common'
 import { FeeMarketEIP1559Transaction } from '@ethereumjs/tx'
-import { Address, zeros } from '@ethereumjs/util'
+import { Address, KECCAK256_RLP, zeros } from '@ethereumjs/util'
 import * as tape from 'tape'
 
 import { VM } from '../../../src/vm'
@@ -109,4 +109,31 @@ tape('EIP4895 tests', (t) => {
     const slotValue = await vm.stateManager.getContractStorage(withdrawalCheckAddress, zeros(32))
     st.ok(zeros(0).equals(slotValue), 'withdrawals do not invoke code')
   })
+
+  t.test('EIP4895: BlockBuilder processes and includes withdrawals', async (st) => {
+    const vm = await VM.create({
+      common: new Common({ chain: Chain.Mainnet, hardfork: Hardfork.Merge }),
+    })
+    vm._common.setEIPs([4895])
+    const genesisBlock = Block.fromBlockData(
+      { header: { gasLimit: 50000, withdrawalsRoot: KECCAK256_RLP }, withdrawals: [] },
+      { common: vm._common }
+    )
+    const address = new Address(Buffer.from('20'.repeat(20), 'hex'))
+    const withdrawals = <Withdrawal[]>[
+      { index: BigInt(0), validatorIndex: BigInt(0), address, amount: BigInt(1000) },
+    ]
+    const blockBuilder = await vm.buildBlock({
+      parentBlock: genesisBlock,
+      withdrawals,
+      blockOpts: { calcDifficultyFromHeader: genesisBlock.header, putBlockIntoBlockchain: false },
+    })
+    const block = await blockBuilder.build()
+
+    st.deepEqual(block.withdrawals, withdrawals, 'included withdrawals')
+    st.ok(await block.validateWithdrawalsTrie(), 'set withdrawals root')
+    const balance = (await vm.stateManager.getAccount(address)).balance
+    st.equal(balance, BigInt(1000), 'credited withdrawal amount')
+    st.end()
+  })
 })
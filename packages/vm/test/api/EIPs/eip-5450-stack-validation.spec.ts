@@ -0,0 +1,120 @@
+import { Chain, Common, Hardfork } from '@ethereumjs/common'
+import { Address } from '@ethereumjs/util'
+import * as tape from 'tape'
+
+import { VM } from '../../../src/vm'
+
+const sender = new Address(Buffer.from('20'.repeat(20), 'hex'))
+
+const u16 = (value: number) => value.toString(16).padStart(4, '0')
+
+// EOF container with a type section and one code section per function
+function eofContainer(types: [number, number][], sections: string[]) {
+  const header =
+    'ef0001' +
+    '03' +
+    u16(types.length * 2) +
+    sections.map((code) => '01' + u16(code.length / 2)).join('') +
+    '00'
+  const typeSection = types
+    .map(
+      ([inputs, outputs]) =>
+        inputs.toString(16).padStart(2, '0') + outputs.toString(16).padStart(2, '0')
+    )
+    .join('')
+  return Buffer.from(header + typeSection + sections.join(''), 'hex')
+}
+
+// Initcode returning the EOF container for deployment
+function initcode(container: Buffer) {
+  const len = container.length.toString(16).padStart(4, '0')
+  return Buffer.concat([Buffer.from(`61${len}600e60003961${len}6000f3`, 'hex'), container])
+}
+
+async function deploy(common: Common, container: Buffer) {
+  const vm = await VM.create({ common })
+  const res = await vm.evm.runCall({
+    caller: sender,
+    data: initcode(container),
+    gasLimit: BigInt(1000000),
+  })
+  return res.execResult.exceptionError?.error
+}
+
+tape('EIP 5450 tests', (t) => {
+  const common = new Common({
+    chain: Chain.Mainnet,
+    hardfork: Hardfork.London,
+    eips: [3540, 3670, 4200, 4750, 5450],
+  })
+  const single = (code: string) => eofContainer([[0, 0]], [code])
+
+  t.test('should accept code with valid stack heights', async (st) => {
+    st.equal(
+      await deploy(
+        common,
+        eofContainer(
+          [
+            [0, 0],
+            [2, 1],
+          ],
+          ['60026003b000015000', '01b1']
+        )
+      ),
+      undefined,
+      'valid function call'
+    )
+    // PUSH1 0x01 RJUMPI +1 STOP STOP
+    st.equal(await deploy(common, single('60015d00010000')), undefined, 'valid branches')
+    // Loop with a consistent stack height: PUSH1 0x01 RJUMPI -5 STOP
+    st.equal(await deploy(common, single('60015dfffb00')), undefined, 'valid loop')
+    st.end()
+  })
+
+  t.test('should reject code with invalid stack heights', async (st) => {
+    st.equal(await deploy(common, single('0100')), 'invalid EOF format', 'stack underflow')
+    st.equal(await deploy(common, single('0000')), 'invalid EOF format', 'unreachable code')
+    // PUSH1 0x01 PUSH1 0x01 RJUMPI -7 STOP
+    st.equal(
+      await deploy(common, single('600160015dfff900')),
+      'invalid EOF format',
+      'inconsistent stack heights'
+    )
+    st.equal(
+      await deploy(common, single('6000'.repeat(1025) + '00')),
+      'invalid EOF format',
+      'stack overflow'
+    )
+    const types: [number, number][] = [
+      [0, 0],
+      [0, 1],
+    ]
+    st.equal(
+      await deploy(common, eofContainer(types, ['b000015000', 'b1'])),
+      'invalid EOF format',
+      'function returning less than its outputs'
+    )
+    st.equal(
+      await deploy(common, eofContainer(types, ['b000015000', '60016001b1'])),
+      'invalid EOF format',
+      'function returning more than its outputs'
+    )
+    st.end()
+  })
+
+  t.test('should only validate stack heights with EIP-5450', async (st) => {
+    st.equal(
+      await deploy(
+        new Common({
+          chain: Chain.Mainnet,
+          hardfork: Hardfork.London,
+          eips: [3540, 3670, 4200, 4750],
+        }),
+        single('0100')
+      ),
+      undefined,
+      'should not validate stack heights'
+    )
+    st.end()
+  })
+})
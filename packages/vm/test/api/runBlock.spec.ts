@@ -1,6 +1,9 @@
 import { Block } from '@ethereumjs/block'
+import { Blockchain } from '@ethereumjs/blockchain'
 import { Chain, Common, Hardfork } from '@ethereumjs/common'
+import { EVM } from '@ethereumjs/evm'
 import { RLP } from '@ethereumjs/rlp'
+import { DefaultStateManager } from '@ethereumjs/statemanager'
 import {
   AccessListEIP2930Transaction,
   Capability,
@@ -10,11 +13,12 @@ import {
 import { Account, Address, KECCAK256_RLP, toBuffer } from '@ethereumjs/util'
 import * as tape from 'tape'
 
+import { EEI } from '../../src/eei/eei'
 import { VM } from '../../src/vm'
 import { getDAOCommon, setupPreConditions } from '../util'
 
 import * as testnet from './testdata/testnet.json'
-import { createAccount, setBalance, setupVM } from './utils'
+import { createAccount, getTransaction, setBalance, setupVM } from './utils'
 
 import type {
   AfterBlockEvent,
@@ -458,6 +462,26 @@ tape('runBlock() -> API return values', async (t) => {
   })
 })
 
+tape('runBlock() -> profiler', async (t) => {
+  const stateManager = new DefaultStateManager()
+  const eei = new EEI(stateManager, common, await Blockchain.create({ common }))
+  const evm = await EVM.create({ common, eei, profiler: true })
+  const vm = await VM.create({ common, stateManager, evm })
+
+  const tx = getTransaction(common, 0, true, '0x00', true)
+  await vm.eei.putAccount(tx.getSenderAddress(), createAccount())
+  const block = Block.fromBlockData({ transactions: [tx] }, { common })
+  const res = await vm.runBlock({ block, skipBlockValidation: true, generate: true })
+
+  t.deepEqual(
+    res.profile!.report.contracts.map((contract) => contract.address),
+    [res.results[0].createdAddress!.toString()],
+    'should return the profile of the block'
+  )
+  t.equal(res.results[0].profile, undefined, 'should not return profiles of the txs')
+  t.end()
+})
+
 tape('runBlock() -> tx types', async (t) => {
   async function simpleRun(vm: VM, transactions: TypedTransaction[], st: tape.Test) {
     const common = vm._common
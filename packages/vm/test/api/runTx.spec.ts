@@ -1,14 +1,18 @@
 import { Block } from '@ethereumjs/block'
 import { Blockchain } from '@ethereumjs/blockchain'
 import { Chain, Common, Hardfork } from '@ethereumjs/common'
+import { CallTracer, EVM, PrestateTracer } from '@ethereumjs/evm'
+import { DefaultStateManager } from '@ethereumjs/statemanager'
 import { FeeMarketEIP1559Transaction, Transaction, TransactionFactory } from '@ethereumjs/tx'
-import { Account, Address, KECCAK256_NULL, MAX_INTEGER } from '@ethereumjs/util'
+import { Account, Address, KECCAK256_NULL, MAX_INTEGER, bigIntToHex } from '@ethereumjs/util'
 import * as tape from 'tape'
 
+import { EEI } from '../../src/eei/eei'
 import { VM } from '../../src/vm'
 
 import { createAccount, getTransaction, setBalance } from './utils'
 
+import type { PrestateDiffResult } from '@ethereumjs/evm'
 import type { FeeMarketEIP1559TxData } from '@ethereumjs/tx'
 
 const TRANSACTION_TYPES = [
@@ -166,7 +170,7 @@ tape('runTx() -> successful API parameter usage', async (t) => {
             ? tx.maxPriorityFeePerGas < tx.maxFeePerGas - baseFee
               ? tx.maxPriorityFeePerGas
               : tx.maxFeePerGas - baseFee
-            : tx.gasPrice - baseFee
+            : (<Transaction>tx).gasPrice - baseFee
         const expectedCoinbaseBalance =
           common.isActivatedEIP(1559) === true
             ? result.totalGasSpent * inclusionFeePerGas
@@ -649,6 +653,102 @@ tape('runTx() -> RunTxOptions', (t) => {
   })
 })
 
+tape('runTx() -> tracer option', async (t) => {
+  t.test('should pass the tx to the tracer', async (st) => {
+    const vm = await VM.create({ common })
+    const tx = getTransaction(vm._common, 0, true, '0x01', true)
+    const caller = tx.getSenderAddress()
+    await vm.eei.putAccount(caller, createAccount())
+    const block = Block.fromBlockData({ header: { baseFeePerGas: 1 } }, { common })
+
+    const callTracer = new CallTracer()
+    let result = await vm.runTx({ tx, block, tracer: callTracer })
+    const frame = callTracer.getResult()!
+    st.equal(frame.type, 'CREATE', 'should trace the tx')
+    st.equal(frame.to, result.createdAddress!.toString(), 'should return the created address')
+    st.equal(frame.gas, bigIntToHex(tx.gasLimit), 'should use the tx gas limit')
+    st.equal(
+      frame.gasUsed,
+      bigIntToHex(result.totalGasSpent),
+      'should use the total gas spent including intrinsic gas'
+    )
+
+    const transfer = Transaction.fromTxData(
+      { nonce: 1, gasPrice: 100, gasLimit: 21000, to: Address.zero(), value: 1 },
+      { common }
+    ).sign(Buffer.from('e331b6d69882b4cb4ea581d88e0b604039a3de5967688d3dcffdd2270c0fd109', 'hex'))
+    const prestateTracer = new PrestateTracer({ diffMode: true })
+    const preBalance = (await vm.eei.getAccount(caller)).balance
+    result = await vm.runTx({ tx: transfer, block, tracer: prestateTracer })
+    const { pre, post } = prestateTracer.getResult() as PrestateDiffResult
+    st.equal(
+      pre[caller.toString()].balance,
+      bigIntToHex(preBalance),
+      'should return the pre balance'
+    )
+    st.equal(pre[caller.toString()].nonce, 1, 'should return the pre nonce')
+    st.equal(post[caller.toString()].nonce, 2, 'should return the nonce after the tx')
+    st.equal(
+      post[caller.toString()].balance,
+      bigIntToHex(preBalance - result.amountSpent - BigInt(1)),
+      'should return the balance after paying the tx fees'
+    )
+    st.ok(
+      post[block.header.coinbase.toString()] !== undefined,
+      'should include the coinbase receiving the tx fees'
+    )
+    st.end()
+  })
+})
+
+tape('runTx() -> profiler', async (t) => {
+  t.test('should return the profile of the tx', async (st) => {
+    const stateManager = new DefaultStateManager()
+    const eei = new EEI(stateManager, common, await Blockchain.create({ common }))
+    const evm = await EVM.create({ common, eei, profiler: true })
+    const vm = await VM.create({ common, stateManager, evm })
+    const tx = getTransaction(vm._common, 0, true, '0x01', true)
+    await vm.eei.putAccount(tx.getSenderAddress(), createAccount())
+    const block = Block.fromBlockData({ header: { baseFeePerGas: 1 } }, { common })
+
+    let result = await vm.runTx({ tx, block })
+    const { report, foldedStacks } = result.profile!
+    st.deepEqual(
+      report.contracts.map((contract) => contract.address),
+      [result.createdAddress!.toString()],
+      'should profile the executed code'
+    )
+    st.equal(
+      BigInt(report.totalGas),
+      result.execResult.executionGasUsed,
+      'should account for the execution gas'
+    )
+    st.ok(foldedStacks.length > 0, 'should return the folded stacks')
+
+    const transfer = Transaction.fromTxData(
+      { nonce: 1, gasPrice: 100, gasLimit: 21000, to: Address.zero(), value: 1 },
+      { common }
+    ).sign(Buffer.from('e331b6d69882b4cb4ea581d88e0b604039a3de5967688d3dcffdd2270c0fd109', 'hex'))
+    result = await vm.runTx({ tx: transfer, block })
+    st.deepEqual(
+      result.profile!.report.contracts,
+      [],
+      'should only return the profile of the last tx'
+    )
+    st.end()
+  })
+
+  t.test('should not return a profile without the profiler', async (st) => {
+    const vm = await VM.create({ common })
+    const tx = getTransaction(vm._common, 0, true, '0x01', true)
+    await vm.eei.putAccount(tx.getSenderAddress(), createAccount())
+    const block = Block.fromBlockData({ header: { baseFeePerGas: 1 } }, { common })
+    const result = await vm.runTx({ tx, block })
+    st.equal(result.profile, undefined, 'should not set the profile')
+    st.end()
+  })
+})
+
 tape('runTx() -> skipBalance behavior', async (t) => {
   t.plan(6)
   const common = new Common({ chain: Chain.Mainnet, hardfork: Hardfork.Berlin })